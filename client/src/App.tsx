@@ -38,17 +38,27 @@ import { Skeleton } from "@/components/ui/skeleton";
 // Route-level code splitting: keep initial bundle small.
 const LandingPage = lazy(() => import("@/pages/landing"));
 const OnboardingPage = lazy(() => import("@/pages/onboarding"));
+const MockCheckoutPage = lazy(() => import("@/pages/mock-checkout"));
 const DashboardPage = lazy(() => import("@/pages/dashboard"));
 const ClientsPage = lazy(() => import("@/pages/clients"));
 const ContactsPage = lazy(() => import("@/pages/contacts"));
 const DealsPage = lazy(() => import("@/pages/deals"));
+const PipelineForecastPage = lazy(() => import("@/pages/pipeline-forecast"));
+const DuplicatesPage = lazy(() => import("@/pages/duplicates"));
+const ImportsPage = lazy(() => import("@/pages/imports"));
 const ProposalsPage = lazy(() => import("@/pages/proposals"));
 const ContractsPage = lazy(() => import("@/pages/contracts"));
 const EngagementsPage = lazy(() => import("@/pages/engagements"));
 const ProjectsPage = lazy(() => import("@/pages/projects"));
+const TimesheetsPage = lazy(() => import("@/pages/timesheets"));
 const MessagesPage = lazy(() => import("@/pages/messages"));
 const InvoicesPage = lazy(() => import("@/pages/invoices"));
 const BillsPage = lazy(() => import("@/pages/bills"));
+const ExpensesPage = lazy(() => import("@/pages/expenses"));
+const ProfitabilityPage = lazy(() => import("@/pages/profitability"));
+const VendorsPage = lazy(() => import("@/pages/vendors"));
+const ReportsPage = lazy(() => import("@/pages/reports"));
+const ReconciliationPage = lazy(() => import("@/pages/reconciliation"));
 const OrganizationSettingsPage = lazy(() => import("@/pages/organization-settings"));
 const ProfilePage = lazy(() => import("@/pages/profile"));
 const NotFound = lazy(() => import("@/pages/not-found"));
@@ -112,6 +122,24 @@ const DealsRoute = () => (
   </Suspense>
 );
 
+const PipelineForecastRoute = () => (
+  <Suspense fallback={<PageLoading />}>
+    <PipelineForecastPage />
+  </Suspense>
+);
+
+const DuplicatesRoute = () => (
+  <Suspense fallback={<PageLoading />}>
+    <DuplicatesPage />
+  </Suspense>
+);
+
+const ImportsRoute = () => (
+  <Suspense fallback={<PageLoading />}>
+    <ImportsPage />
+  </Suspense>
+);
+
 const ProposalsRoute = () => (
   <Suspense fallback={<PageLoading />}>
     <ProposalsPage />
@@ -136,6 +164,12 @@ const ProjectsRoute = () => (
   </Suspense>
 );
 
+const TimesheetsRoute = () => (
+  <Suspense fallback={<PageLoading />}>
+    <TimesheetsPage />
+  </Suspense>
+);
+
 const MessagesRoute = () => (
   <Suspense fallback={<PageLoading />}>
     <MessagesPage />
@@ -154,6 +188,36 @@ const BillsRoute = () => (
   </Suspense>
 );
 
+const ExpensesRoute = () => (
+  <Suspense fallback={<PageLoading />}>
+    <ExpensesPage />
+  </Suspense>
+);
+
+const ProfitabilityRoute = () => (
+  <Suspense fallback={<PageLoading />}>
+    <ProfitabilityPage />
+  </Suspense>
+);
+
+const VendorsRoute = () => (
+  <Suspense fallback={<PageLoading />}>
+    <VendorsPage />
+  </Suspense>
+);
+
+const ReportsRoute = () => (
+  <Suspense fallback={<PageLoading />}>
+    <ReportsPage />
+  </Suspense>
+);
+
+const ReconciliationRoute = () => (
+  <Suspense fallback={<PageLoading />}>
+    <ReconciliationPage />
+  </Suspense>
+);
+
 const OrganizationSettingsRoute = () => (
   <Suspense fallback={<PageLoading />}>
     <OrganizationSettingsPage />
@@ -180,13 +244,22 @@ function AuthenticatedRouter() {
         <Route path="/clients" component={ClientsRoute} />
         <Route path="/contacts" component={ContactsRoute} />
         <Route path="/deals" component={DealsRoute} />
+        <Route path="/pipeline-forecast" component={PipelineForecastRoute} />
+        <Route path="/duplicates" component={DuplicatesRoute} />
+        <Route path="/imports" component={ImportsRoute} />
         <Route path="/proposals" component={ProposalsRoute} />
         <Route path="/contracts" component={ContractsRoute} />
         <Route path="/engagements" component={EngagementsRoute} />
         <Route path="/projects" component={ProjectsRoute} />
+        <Route path="/timesheets" component={TimesheetsRoute} />
         <Route path="/messages" component={MessagesRoute} />
         <Route path="/invoices" component={InvoicesRoute} />
         <Route path="/bills" component={BillsRoute} />
+        <Route path="/expenses" component={ExpensesRoute} />
+        <Route path="/vendors" component={VendorsRoute} />
+        <Route path="/reports" component={ReportsRoute} />
+        <Route path="/profitability" component={ProfitabilityRoute} />
+        <Route path="/reconciliation" component={ReconciliationRoute} />
         <Route path="/settings" component={OrganizationSettingsRoute} />
         <Route path="/profile" component={ProfileRoute} />
         <Route component={NotFoundRoute} />
@@ -221,6 +294,15 @@ function Router() {
     console.log("[Router] Auth state:", { user, isLoading, isAuthenticated, location });
   }
 
+  // Hosted checkout of the mock payment provider: payers open it whether or not they are signed in
+  if (location.startsWith("/pay/mock/")) {
+    return (
+      <Suspense fallback={<LoadingScreen />}>
+        <MockCheckoutPage />
+      </Suspense>
+    );
+  }
+
   if (isLoading) {
     return <LoadingScreen />;
   }
@@ -14,6 +14,7 @@
  * Responsibilities:
  * - Sidebar toggle (mobile + collapsed modes)
  * - Placeholder global search UI (not yet wired)
+ * - Running time-tracking timer
  * - Notifications affordance (currently empty)
  * - Theme toggle
  *
@@ -25,6 +26,7 @@
 import { Search, Bell } from "lucide-react";
 import { SidebarTrigger } from "@/components/ui/sidebar";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { TimeTimer } from "@/components/time-timer";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import {
@@ -63,6 +65,7 @@ export function AppHeader({ title }: AppHeaderProps) {
       </div>
 
       <div className="flex items-center gap-2">
+        <TimeTimer />
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button variant="ghost" size="icon" data-testid="button-notifications">
@@ -26,13 +26,22 @@ import {
   Building2,
   Users,
   TrendingUp,
+  Target,
+  GitMerge,
+  Upload,
   FileText,
   FilePenLine,
   Briefcase,
   FolderKanban,
+  Clock,
   MessageSquare,
   Receipt,
   CreditCard,
+  Truck,
+  Wallet,
+  BarChart3,
+  Percent,
+  Landmark,
   Settings,
   LogOut,
 } from "lucide-react";
@@ -58,6 +67,9 @@ const crmItems = [
   { title: "Clients", url: "/clients", icon: Building2 },
   { title: "Contacts", url: "/contacts", icon: Users },
   { title: "Deals", url: "/deals", icon: TrendingUp },
+  { title: "Forecast", url: "/pipeline-forecast", icon: Target },
+  { title: "Duplicates", url: "/duplicates", icon: GitMerge },
+  { title: "Import", url: "/imports", icon: Upload },
 ];
 
 const salesItems = [
@@ -68,12 +80,18 @@ const salesItems = [
 const workItems = [
   { title: "Engagements", url: "/engagements", icon: Briefcase },
   { title: "Projects", url: "/projects", icon: FolderKanban },
+  { title: "Timesheets", url: "/timesheets", icon: Clock },
   { title: "Messages", url: "/messages", icon: MessageSquare },
 ];
 
 const financeItems = [
   { title: "Invoices", url: "/invoices", icon: Receipt },
   { title: "Bills", url: "/bills", icon: CreditCard },
+  { title: "Expenses", url: "/expenses", icon: Wallet },
+  { title: "Vendors", url: "/vendors", icon: Truck },
+  { title: "Reconciliation", url: "/reconciliation", icon: Landmark },
+  { title: "Reports", url: "/reports", icon: BarChart3 },
+  { title: "Profitability", url: "/profitability", icon: Percent },
 ];
 
 export function AppSidebar() {
@@ -0,0 +1,301 @@
+// AI-META-BEGIN
+// AI-META: React component - bill-approval-policies-card.tsx
+// OWNERSHIP: client/components
+// ENTRYPOINTS: organization settings page (Billing tab)
+// DEPENDENCIES: react, react-query, ui
+// DANGER: Review data fetching logic
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * Bill approval policies card.
+ *
+ * Manages who must approve bills and in what order, e.g. "bills of 5,000 or more need an
+ * admin, then an owner". Every matching policy adds its steps to a bill's approval chain
+ * when the bill is created; changes here do not affect chains that already exist.
+ */
+
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Plus, ShieldCheck, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { BillApprovalPolicy, BillApprovalStepRule } from "@shared/schema";
+
+// Select values for the approver of a step; specific-user steps are API-only for now
+const approverOptions = [
+  { value: "role:owner", label: "Owner" },
+  { value: "role:admin", label: "Admin" },
+  { value: "role:member", label: "Member" },
+  { value: "engagement_owner", label: "Engagement owner" },
+];
+
+const toStepRule = (value: string): BillApprovalStepRule =>
+  value === "engagement_owner"
+    ? { approverType: "engagement_owner" }
+    : { approverType: "role", role: value.replace("role:", "") as "owner" | "admin" | "member" };
+
+const describeStep = (rule: BillApprovalStepRule) => {
+  if (rule.approverType === "role") {
+    return approverOptions.find((option) => option.value === `role:${rule.role}`)?.label ?? rule.role;
+  }
+  if (rule.approverType === "engagement_owner") return "Engagement owner";
+  return "Specific user";
+};
+
+const policyFormSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  minAmount: z.string(),
+  engagementBillsOnly: z.boolean(),
+  steps: z.array(z.object({ approver: z.string() })).min(1, "Add at least one approver"),
+});
+
+type PolicyFormValues = z.infer<typeof policyFormSchema>;
+
+const defaultValues: PolicyFormValues = {
+  name: "",
+  minAmount: "",
+  engagementBillsOnly: false,
+  steps: [{ approver: "role:admin" }],
+};
+
+export function BillApprovalPoliciesCard() {
+  const { toast } = useToast();
+
+  const form = useForm<PolicyFormValues>({
+    resolver: zodResolver(policyFormSchema),
+    defaultValues,
+  });
+  const stepFields = useFieldArray({ control: form.control, name: "steps" });
+
+  const { data: policies, isLoading } = useQuery<BillApprovalPolicy[]>({
+    queryKey: ["/api/bill-approval-policies"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (values: PolicyFormValues) => {
+      return apiRequest("POST", "/api/bill-approval-policies", {
+        name: values.name,
+        minAmount: parseFloat(values.minAmount || "0"),
+        engagementBillsOnly: values.engagementBillsOnly,
+        steps: values.steps.map((step) => toStepRule(step.approver)),
+        priority: policies?.length ?? 0,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bill-approval-policies"] });
+      form.reset(defaultValues);
+      toast({ title: "Approval policy added" });
+    },
+    onError: () => {
+      toast({ title: "Failed to add approval policy", variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return apiRequest("PATCH", `/api/bill-approval-policies/${id}`, { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bill-approval-policies"] });
+    },
+    onError: () => {
+      toast({ title: "Failed to update approval policy", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/bill-approval-policies/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bill-approval-policies"] });
+      toast({ title: "Approval policy deleted" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete approval policy", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Bill Approvals
+        </CardTitle>
+        <CardDescription>
+          Approvers are asked in order and must be different people; the person who entered a bill
+          cannot approve it. Bills that match no policy need a single approval.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <p className="text-sm text-muted-foreground">Loading approval policies...</p>}
+        {!isLoading && policies?.length === 0 && (
+          <p className="text-sm text-muted-foreground">No approval policies yet.</p>
+        )}
+        {policies?.map((policy) => (
+          <div
+            key={policy.id}
+            className="flex items-center justify-between gap-4 rounded-md border p-3 text-sm"
+            data-testid={`row-bill-approval-policy-${policy.id}`}
+          >
+            <div className="space-y-1">
+              <p className="font-medium">
+                {policy.name}
+                {policy.engagementBillsOnly && (
+                  <Badge variant="secondary" className="ml-2">
+                    Engagement bills
+                  </Badge>
+                )}
+              </p>
+              <p className="text-muted-foreground">
+                From <span className="font-mono">{Number(policy.minAmount).toLocaleString()}</span>:{" "}
+                {(policy.steps as BillApprovalStepRule[]).map(describeStep).join(" → ")}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={policy.isActive}
+                onCheckedChange={(isActive) => toggleMutation.mutate({ id: policy.id, isActive })}
+                data-testid={`switch-bill-approval-policy-${policy.id}`}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => deleteMutation.mutate(policy.id)}
+                data-testid={`button-delete-bill-approval-policy-${policy.id}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((values) => createMutation.mutate(values))}
+            className="space-y-4 border-t pt-4"
+          >
+            <div className="grid grid-cols-[1fr_10rem] gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Large bills" {...field} data-testid="input-bill-approval-policy-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="minAmount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum amount</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" placeholder="0" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="engagementBillsOnly"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                  <FormLabel>Only bills linked to an engagement</FormLabel>
+                </FormItem>
+              )}
+            />
+            <div className="space-y-2">
+              <FormLabel>Approvers, in order</FormLabel>
+              {stepFields.fields.map((step, index) => (
+                <div key={step.id} className="flex items-center gap-2">
+                  <span className="w-6 text-sm text-muted-foreground">{index + 1}.</span>
+                  <FormField
+                    control={form.control}
+                    name={`steps.${index}.approver`}
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid={`select-bill-approval-step-${index}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {approverOptions.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={stepFields.fields.length === 1}
+                    onClick={() => stepFields.remove(index)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => stepFields.append({ approver: "role:owner" })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add approver
+              </Button>
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={createMutation.isPending} data-testid="button-add-bill-approval-policy">
+                Add Policy
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,141 @@
+// AI-META-BEGIN
+// AI-META: React component - bill-approvals-dialog.tsx
+// OWNERSHIP: client/components
+// ENTRYPOINTS: bills page
+// DEPENDENCIES: react, react-query, ui
+// DANGER: Review data fetching logic
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * Bill approvals dialog.
+ *
+ * Shows a bill's approval chain and lets the current approver approve or reject it with a
+ * comment. Who may decide each step is enforced by the server, which returns the reason
+ * when the signed-in user is not allowed to.
+ */
+
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CheckCircle, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { StatusBadge } from "@/components/status-badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Bill, BillApprovalStep, BillApprovalStepStatus } from "@shared/schema";
+
+interface BillApprovalsResponse {
+  steps: BillApprovalStep[];
+  currentStepId: string | null;
+}
+
+interface BillApprovalsDialogProps {
+  bill: Bill | null;
+  onClose: () => void;
+}
+
+const describeApprover = (step: BillApprovalStep) => {
+  if (step.approverType === "engagement_owner") return "Engagement owner";
+  if (step.approverRole) return `${step.approverRole.charAt(0).toUpperCase()}${step.approverRole.slice(1)}`;
+  return "Assigned approver";
+};
+
+export function BillApprovalsDialog({ bill, onClose }: BillApprovalsDialogProps) {
+  const { toast } = useToast();
+  const [comment, setComment] = useState("");
+  const approvalsKey = `/api/bills/${bill?.id}/approvals`;
+
+  const { data, isLoading } = useQuery<BillApprovalsResponse>({
+    queryKey: [approvalsKey],
+    enabled: !!bill,
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: async (decision: "approve" | "reject") => {
+      return apiRequest("POST", `/api/bills/${bill?.id}/${decision}`, { comment: comment || undefined });
+    },
+    onSuccess: (_result, decision) => {
+      queryClient.invalidateQueries({ queryKey: [approvalsKey] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bills"] });
+      setComment("");
+      toast({ title: decision === "approve" ? "Approval recorded" : "Bill rejected" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to record decision", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Bills without a chain need a single approval, so they stay decidable while pending
+  const canDecide = bill?.status === "pending" && (data?.steps.length === 0 || !!data?.currentStepId);
+
+  return (
+    <Dialog open={!!bill} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Approvals for #{bill?.billNumber}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {isLoading && <p className="text-sm text-muted-foreground">Loading approvals...</p>}
+          {!isLoading && data?.steps.length === 0 && (
+            <p className="text-sm text-muted-foreground">No approval policy applies; one approval is needed.</p>
+          )}
+          {data?.steps.map((step) => (
+            <div
+              key={step.id}
+              className={`rounded-md border p-3 text-sm ${step.id === data.currentStepId ? "border-primary" : ""}`}
+              data-testid={`row-bill-approval-step-${step.id}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">
+                  {step.position}. {describeApprover(step)}
+                </span>
+                <StatusBadge status={step.status as BillApprovalStepStatus} />
+              </div>
+              {step.decidedAt && (
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {new Date(step.decidedAt).toLocaleString()}
+                  {step.comment && ` · ${step.comment}`}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {canDecide && (
+          <div className="space-y-3 border-t pt-4">
+            <Textarea
+              placeholder="Comment (optional)"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              data-testid="input-bill-approval-comment"
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                disabled={decideMutation.isPending}
+                onClick={() => decideMutation.mutate("reject")}
+                data-testid="button-reject-bill"
+              >
+                <X className="h-4 w-4 mr-2" />
+                Reject
+              </Button>
+              <Button
+                disabled={decideMutation.isPending}
+                onClick={() => decideMutation.mutate("approve")}
+                data-testid="button-approve-bill"
+              >
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Approve
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,125 @@
+// AI-META-BEGIN
+// AI-META: React component - cash-flow-chart.tsx
+// OWNERSHIP: client/components
+// ENTRYPOINTS: dashboard page
+// DEPENDENCIES: react, react-query, recharts, ui
+// DANGER: Review data fetching logic
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * 13-week cash-flow forecast card.
+ *
+ * Bars show expected cash in (open invoices and scheduled billing) and cash out (open bills)
+ * per week; the line is the running balance from the cash on hand the user enters. Cash on
+ * hand is not stored anywhere, so it starts at zero on every visit.
+ */
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+
+interface CashFlowForecast {
+  currency: string;
+  weeks: {
+    weekStart: string;
+    cashIn: number;
+    cashOut: number;
+    net: number;
+    balance: number;
+  }[];
+  totals: { cashIn: number; cashOut: number; net: number };
+  overdueIn: number;
+  overdueOut: number;
+  unconverted: number;
+}
+
+const chartConfig = {
+  cashIn: { label: "Cash in", color: "hsl(var(--chart-3))" },
+  cashOut: { label: "Cash out", color: "hsl(var(--chart-5))" },
+  balance: { label: "Balance", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const formatAmount = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+
+export function CashFlowChart() {
+  const [openingBalance, setOpeningBalance] = useState("");
+  const opening = Number(openingBalance) || 0;
+
+  const { data: forecast, isLoading } = useQuery<CashFlowForecast>({
+    queryKey: [`/api/dashboard/cash-flow?openingBalance=${opening}`],
+    staleTime: 0,
+    refetchOnMount: "always",
+  });
+
+  const data = forecast?.weeks.map((week) => ({
+    ...week,
+    week: new Date(week.weekStart).toLocaleDateString(undefined, { month: "short", day: "numeric" }),
+  }));
+  const lowestBalance = forecast?.weeks.reduce((lowest, week) => Math.min(lowest, week.balance), opening);
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0 pb-2">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base font-semibold">Cash Flow, Next 13 Weeks</CardTitle>
+          <CardDescription>
+            {forecast
+              ? `In ${formatAmount(forecast.totals.cashIn)} · Out ${formatAmount(forecast.totals.cashOut)} ${forecast.currency}` +
+                (lowestBalance !== undefined ? ` · Lowest balance ${formatAmount(lowestBalance)}` : "")
+              : "Open invoices, scheduled billing and bills by due date"}
+          </CardDescription>
+        </div>
+        <Input
+          type="number"
+          placeholder="Cash on hand"
+          className="w-40"
+          value={openingBalance}
+          onChange={(e) => setOpeningBalance(e.target.value)}
+          data-testid="input-cash-on-hand"
+        />
+      </CardHeader>
+      <CardContent>
+        {isLoading || !data ? (
+          <Skeleton className="h-64 w-full" />
+        ) : (
+          <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+            <ComposedChart data={data}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="week" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={60} tickFormatter={formatAmount} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="cashIn" fill="var(--color-cashIn)" radius={2} />
+              <Bar dataKey="cashOut" fill="var(--color-cashOut)" radius={2} />
+              <Line dataKey="balance" type="monotone" stroke="var(--color-balance)" strokeWidth={2} dot={false} />
+            </ComposedChart>
+          </ChartContainer>
+        )}
+        {forecast && (forecast.overdueIn > 0 || forecast.overdueOut > 0) && (
+          <p className="mt-2 text-xs text-muted-foreground">
+            The first week includes {formatAmount(forecast.overdueIn)} of overdue invoices and{" "}
+            {formatAmount(forecast.overdueOut)} of overdue bills.
+          </p>
+        )}
+        {forecast && forecast.unconverted > 0 && (
+          <p className="mt-1 text-xs text-muted-foreground">
+            {forecast.unconverted} document(s) are excluded because no exchange rate is set for their currency.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
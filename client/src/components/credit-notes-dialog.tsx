@@ -0,0 +1,345 @@
+// AI-META-BEGIN
+// AI-META: React component - credit-notes-dialog.tsx
+// OWNERSHIP: client/components
+// ENTRYPOINTS: invoices page
+// DEPENDENCIES: react, react-query, ui
+// DANGER: Review data fetching logic
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * Credit notes dialog.
+ *
+ * Lists the credit notes issued against one invoice and issues new ones for disputes or
+ * scope reductions. Credit note numbers and totals come from the server, which also
+ * nets the credited amount out of the invoice balance; mistaken credit notes are voided.
+ */
+
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Ban, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { CreditNote, Invoice, TaxRate } from "@shared/schema";
+
+const creditNoteFormSchema = z.object({
+  lineItems: z
+    .array(
+      z.object({
+        description: z.string().min(1, "Description is required"),
+        quantity: z.string().min(1, "Required"),
+        unitPrice: z.string().min(1, "Required"),
+        // "none" when untaxed (select items can't have an empty value)
+        taxRateId: z.string(),
+      }),
+    )
+    .min(1, "At least one line item is required"),
+  reason: z.string().min(1, "Reason is required"),
+});
+
+type CreditNoteFormValues = z.infer<typeof creditNoteFormSchema>;
+
+const emptyLineItem: CreditNoteFormValues["lineItems"][number] = {
+  description: "",
+  quantity: "1",
+  unitPrice: "",
+  taxRateId: "none",
+};
+
+interface CreditNotesDialogProps {
+  invoice: Invoice | null;
+  onClose: () => void;
+}
+
+export function CreditNotesDialog({ invoice, onClose }: CreditNotesDialogProps) {
+  const { toast } = useToast();
+  const [voidingId, setVoidingId] = useState<string | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+  const creditNotesKey = `/api/invoices/${invoice?.id}/credit-notes`;
+
+  const form = useForm<CreditNoteFormValues>({
+    resolver: zodResolver(creditNoteFormSchema),
+    defaultValues: { lineItems: [emptyLineItem], reason: "" },
+  });
+  const lineItemFields = useFieldArray({ control: form.control, name: "lineItems" });
+
+  const { data: creditNotes, isLoading } = useQuery<CreditNote[]>({
+    queryKey: [creditNotesKey],
+    enabled: !!invoice,
+  });
+
+  const { data: taxRates } = useQuery<TaxRate[]>({
+    queryKey: ["/api/tax-rates"],
+    enabled: !!invoice,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [creditNotesKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/credit-notes"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (values: CreditNoteFormValues) => {
+      return apiRequest("POST", creditNotesKey, {
+        reason: values.reason,
+        lineItems: values.lineItems.map((item) => ({
+          description: item.description,
+          quantity: parseFloat(item.quantity),
+          unitPrice: parseFloat(item.unitPrice),
+          taxRateId: item.taxRateId === "none" ? null : item.taxRateId,
+        })),
+      });
+    },
+    onSuccess: () => {
+      refresh();
+      form.reset({ lineItems: [emptyLineItem], reason: "" });
+      toast({ title: "Credit note issued" });
+    },
+    onError: () => {
+      toast({ title: "Failed to issue credit note", variant: "destructive" });
+    },
+  });
+
+  const voidMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) => {
+      return apiRequest("POST", `/api/credit-notes/${id}/void`, { reason });
+    },
+    onSuccess: () => {
+      refresh();
+      setVoidingId(null);
+      setVoidReason("");
+      toast({ title: "Credit note voided" });
+    },
+    onError: () => {
+      toast({ title: "Failed to void credit note", variant: "destructive" });
+    },
+  });
+
+  // Summed from the list so it stays current after issuing or voiding
+  const credited = (creditNotes ?? [])
+    .filter((creditNote) => !creditNote.voidedAt)
+    .reduce((sum, creditNote) => sum + Number(creditNote.totalAmount), 0);
+
+  const canIssue = invoice && invoice.status !== "draft" && invoice.status !== "cancelled";
+
+  return (
+    <Dialog open={!!invoice} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Credit notes for #{invoice?.invoiceNumber}</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Total</p>
+            <p className="font-mono font-medium">{Number(invoice?.totalAmount || 0).toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Credited</p>
+            <p className="font-mono font-medium" data-testid="text-invoice-credited">
+              {credited.toLocaleString()}
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {isLoading && <p className="text-sm text-muted-foreground">Loading credit notes...</p>}
+          {!isLoading && creditNotes?.length === 0 && (
+            <p className="text-sm text-muted-foreground">No credit notes issued yet.</p>
+          )}
+          {creditNotes?.map((creditNote) => (
+            <div
+              key={creditNote.id}
+              className="rounded-md border p-3 text-sm"
+              data-testid={`row-credit-note-${creditNote.id}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className={creditNote.voidedAt ? "line-through text-muted-foreground" : ""}>
+                  <span className="font-medium">{creditNote.creditNoteNumber}</span>
+                  <span className="ml-2 font-mono">{Number(creditNote.totalAmount).toLocaleString()}</span>
+                  <span className="ml-2 text-muted-foreground">
+                    {new Date(creditNote.issuedAt).toLocaleDateString()}
+                  </span>
+                </div>
+                {creditNote.voidedAt ? (
+                  <span className="text-xs text-muted-foreground">Voided</span>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setVoidingId(creditNote.id)}
+                    data-testid={`button-void-credit-note-${creditNote.id}`}
+                  >
+                    <Ban className="h-4 w-4 mr-1" />
+                    Void
+                  </Button>
+                )}
+              </div>
+              <p className="mt-1 text-xs text-muted-foreground">{creditNote.voidReason ?? creditNote.reason}</p>
+              {voidingId === creditNote.id && (
+                <div className="mt-2 flex gap-2">
+                  <Input
+                    placeholder="Reason for voiding"
+                    value={voidReason}
+                    onChange={(e) => setVoidReason(e.target.value)}
+                    data-testid="input-void-credit-note-reason"
+                  />
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    disabled={!voidReason.trim() || voidMutation.isPending}
+                    onClick={() => voidMutation.mutate({ id: creditNote.id, reason: voidReason })}
+                  >
+                    Confirm
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {canIssue && (
+          <Form {...form}>
+            <form
+              onSubmit={form.handleSubmit((values) => createMutation.mutate(values))}
+              className="space-y-4 border-t pt-4"
+            >
+              {lineItemFields.fields.map((lineItem, index) => (
+                <div key={lineItem.id} className="grid grid-cols-[1fr_5rem_7rem_9rem_auto] items-end gap-2">
+                  <FormField
+                    control={form.control}
+                    name={`lineItems.${index}.description`}
+                    render={({ field }) => (
+                      <FormItem>
+                        {index === 0 && <FormLabel>Description *</FormLabel>}
+                        <FormControl>
+                          <Input {...field} data-testid={`input-credit-line-description-${index}`} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`lineItems.${index}.quantity`}
+                    render={({ field }) => (
+                      <FormItem>
+                        {index === 0 && <FormLabel>Qty</FormLabel>}
+                        <FormControl>
+                          <Input type="number" step="0.01" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`lineItems.${index}.unitPrice`}
+                    render={({ field }) => (
+                      <FormItem>
+                        {index === 0 && <FormLabel>Unit price</FormLabel>}
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            {...field}
+                            data-testid={`input-credit-line-price-${index}`}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`lineItems.${index}.taxRateId`}
+                    render={({ field }) => (
+                      <FormItem>
+                        {index === 0 && <FormLabel>Tax</FormLabel>}
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="none">No tax</SelectItem>
+                            {taxRates?.map((taxRate) => (
+                              <SelectItem key={taxRate.id} value={taxRate.id}>
+                                {taxRate.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={lineItemFields.fields.length === 1}
+                    onClick={() => lineItemFields.remove(index)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button type="button" variant="outline" size="sm" onClick={() => lineItemFields.append(emptyLineItem)}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add line
+              </Button>
+              <FormField
+                control={form.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reason *</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder="Disputed hours, reduced scope..."
+                        {...field}
+                        data-testid="input-credit-note-reason"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end">
+                <Button type="submit" disabled={createMutation.isPending} data-testid="button-issue-credit-note">
+                  {createMutation.isPending ? "Saving..." : "Issue Credit Note"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
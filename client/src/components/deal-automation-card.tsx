@@ -0,0 +1,84 @@
+// AI-META-BEGIN
+// AI-META: React component - deal-automation-card.tsx
+// OWNERSHIP: client/components
+// ENTRYPOINTS: organization settings page (Sales tab)
+// DEPENDENCIES: react, react-query, ui
+// DANGER: Review data fetching logic
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * Deal automation card.
+ *
+ * When a deal is won the server drafts a contract from its latest accepted proposal and
+ * emails the deal owner. This card controls whether an engagement is opened as well.
+ */
+
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Trophy } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface DealAutomationSettings {
+  createEngagementOnDealWon: boolean;
+}
+
+export function DealAutomationCard() {
+  const { toast } = useToast();
+
+  const { data: settings, isLoading } = useQuery<DealAutomationSettings>({
+    queryKey: ["/api/deal-automation/settings"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: DealAutomationSettings) => {
+      const res = await apiRequest("PUT", "/api/deal-automation/settings", values);
+      return (await res.json()) as DealAutomationSettings;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/deal-automation/settings"], saved);
+      toast({ title: "Deal automation updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update deal automation", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Trophy className="h-5 w-5" />
+          Won Deals
+        </CardTitle>
+        <CardDescription>
+          When a deal moves to a won stage, a draft contract is created from its latest accepted proposal
+          and the deal owner is emailed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-0.5">
+            <Label htmlFor="create-engagement-on-deal-won" className="text-base font-medium">
+              Open an engagement
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              Also create an active engagement for the client as soon as the deal is won.
+            </p>
+          </div>
+          <Switch
+            id="create-engagement-on-deal-won"
+            checked={settings?.createEngagementOnDealWon ?? false}
+            disabled={isLoading || saveMutation.isPending}
+            onCheckedChange={(checked) => saveMutation.mutate({ createEngagementOnDealWon: checked })}
+            data-testid="switch-create-engagement-on-deal-won"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
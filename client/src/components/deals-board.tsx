@@ -0,0 +1,132 @@
+// AI-META-BEGIN
+// AI-META: React component - deals-board.tsx
+// OWNERSHIP: client/components
+// ENTRYPOINTS: deals page
+// DEPENDENCIES: react, ui
+// DANGER: Review state management
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * Kanban board of one pipeline's deals.
+ *
+ * One column per stage, in pipeline order, with the number of deals and their total value.
+ * Cards use native HTML drag and drop; dropping a card on another column calls `onMove`,
+ * which the page turns into `PATCH /api/deals/:id`. Clicking a card calls `onOpen`.
+ */
+
+import { useState } from "react";
+import { DollarSign } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import type { ClientCompany, Deal, DealPipelineWithStages } from "@shared/schema";
+
+interface DealsBoardProps {
+  pipeline: DealPipelineWithStages;
+  deals: Deal[];
+  clients?: ClientCompany[];
+  isLoading?: boolean;
+  onMove: (deal: Deal, stageId: string) => void;
+  onOpen: (deal: Deal) => void;
+}
+
+const formatValue = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+
+export function DealsBoard({ pipeline, deals, clients, isLoading, onMove, onOpen }: DealsBoardProps) {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropStageId, setDropStageId] = useState<string | null>(null);
+
+  const clientNames = new Map(clients?.map((client) => [client.id, client.name]));
+
+  const handleDrop = (stageId: string) => {
+    const deal = deals.find((candidate) => candidate.id === draggedId);
+    setDraggedId(null);
+    setDropStageId(null);
+    if (deal && deal.stageId !== stageId) onMove(deal, stageId);
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4" data-testid="deals-board">
+      {pipeline.stages.map((stage) => {
+        const stageDeals = deals.filter((deal) => deal.stageId === stage.id);
+        const total = stageDeals.reduce((sum, deal) => sum + Number(deal.value || 0), 0);
+        return (
+          <div
+            key={stage.id}
+            className={cn(
+              "flex w-72 shrink-0 flex-col rounded-lg bg-muted/50 p-2",
+              dropStageId === stage.id && "ring-2 ring-primary",
+            )}
+            onDragOver={(event) => {
+              if (!draggedId) return;
+              event.preventDefault();
+              event.dataTransfer.dropEffect = "move";
+              setDropStageId(stage.id);
+            }}
+            onDragLeave={() => setDropStageId((current) => (current === stage.id ? null : current))}
+            onDrop={(event) => {
+              event.preventDefault();
+              handleDrop(stage.id);
+            }}
+            data-testid={`board-column-${stage.id}`}
+          >
+            <div className="mb-2 px-1">
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-medium truncate">{stage.name}</p>
+                <Badge variant={stage.isWon ? "default" : stage.isLost ? "destructive" : "secondary"}>
+                  {stageDeals.length}
+                </Badge>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                <span className="font-mono" data-testid={`text-board-column-total-${stage.id}`}>
+                  {formatValue(total)}
+                </span>{" "}
+                · {stage.probability}%
+              </p>
+            </div>
+            <div className="flex min-h-24 flex-1 flex-col gap-2">
+              {isLoading && <Skeleton className="h-20 w-full" />}
+              {stageDeals.map((deal) => (
+                <Card
+                  key={deal.id}
+                  draggable
+                  onDragStart={(event) => {
+                    event.dataTransfer.effectAllowed = "move";
+                    event.dataTransfer.setData("text/plain", deal.id);
+                    setDraggedId(deal.id);
+                  }}
+                  onDragEnd={() => {
+                    setDraggedId(null);
+                    setDropStageId(null);
+                  }}
+                  onClick={() => onOpen(deal)}
+                  className={cn("cursor-grab hover-elevate", draggedId === deal.id && "opacity-50")}
+                  data-testid={`board-card-${deal.id}`}
+                >
+                  <CardContent className="space-y-1 p-3">
+                    <p className="text-sm font-medium">{deal.name}</p>
+                    {deal.clientCompanyId && (
+                      <p className="text-xs text-muted-foreground truncate">
+                        {clientNames.get(deal.clientCompanyId) ?? ""}
+                      </p>
+                    )}
+                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1 font-mono">
+                        <DollarSign className="h-3 w-3" />
+                        {formatValue(Number(deal.value || 0))}
+                      </span>
+                      <span>{deal.probability ?? 0}%</span>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+// AI-META-BEGIN
+// AI-META: React component - export-menu.tsx
+// OWNERSHIP: client/components
+// ENTRYPOINTS: list pages
+// DEPENDENCIES: react, ui
+// DANGER: Exports organization data; the server checks the "export" permission
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * Export button for list pages: downloads the list as CSV or Excel from /api/exports/<list>.
+ * `filters` are passed through as query parameters, so the export matches what the list
+ * endpoint would return for them; empty values are left out.
+ */
+
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { ExportEntityType, ExportFormat } from "@shared/schema";
+
+interface ExportMenuProps {
+  entityType: ExportEntityType;
+  filters?: Record<string, string | undefined>;
+}
+
+export function ExportMenu({ entityType, filters = {} }: ExportMenuProps) {
+  const download = (format: ExportFormat) => {
+    const params = new URLSearchParams({ format });
+    for (const [key, value] of Object.entries(filters)) {
+      if (value) params.set(key, value);
+    }
+    window.open(`/api/exports/${entityType}?${params}`, "_blank");
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" data-testid={`button-export-${entityType}`}>
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem
+          onClick={() => download("csv")}
+          data-testid={`button-export-${entityType}-csv`}
+        >
+          CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          onClick={() => download("xlsx")}
+          data-testid={`button-export-${entityType}-xlsx`}
+        >
+          Excel (.xlsx)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,155 @@
+// AI-META-BEGIN
+// AI-META: React component - invoice-from-expenses-dialog.tsx
+// OWNERSHIP: client/components
+// ENTRYPOINTS: engagements page
+// DEPENDENCIES: react, react-query, ui
+// DANGER: Review data fetching logic; creates invoices
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * Invoice billable expenses dialog.
+ *
+ * Previews the engagement's approved, billable expenses that are not on an invoice yet as
+ * the line items the server will create (one per expense, in the base currency, with the
+ * markup entered here added), then creates a draft invoice from them.
+ */
+
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Engagement, Expense, Invoice } from "@shared/schema";
+
+interface UnbilledExpensesResponse {
+  expenses: Expense[];
+  baseCurrency: string;
+  lineItems: { description: string; quantity: number; unitPrice: number }[];
+  unconverted: string[];
+}
+
+interface InvoiceFromExpensesDialogProps {
+  engagement: Engagement | null;
+  onClose: () => void;
+}
+
+/** Refetch everything that shows expenses (expense lists, reimbursements, unbilled expenses). */
+export function invalidateExpenseQueries() {
+  queryClient.invalidateQueries({
+    predicate: (query) => {
+      const key = String(query.queryKey[0]);
+      return key.startsWith("/api/expenses") || key.includes("/unbilled-expenses");
+    },
+  });
+}
+
+const formatAmount = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export function InvoiceFromExpensesDialog({ engagement, onClose }: InvoiceFromExpensesDialogProps) {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [markupPercent, setMarkupPercent] = useState("");
+  const markup = Number(markupPercent) > 0 ? Number(markupPercent) : 0;
+
+  const { data, isLoading } = useQuery<UnbilledExpensesResponse>({
+    queryKey: [`/api/engagements/${engagement?.id}/unbilled-expenses?markupPercent=${markup}`],
+    enabled: !!engagement,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/engagements/${engagement!.id}/invoice-from-expenses`, {
+        markupPercent: markup,
+      });
+      return (await res.json()) as Invoice;
+    },
+    onSuccess: () => {
+      invalidateExpenseQueries();
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      toast({ title: "Draft invoice created", description: "Review and send it from Invoices." });
+      onClose();
+      setLocation("/invoices");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create invoice", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const unconverted = data?.unconverted.length ?? 0;
+  const total = data?.lineItems.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0) ?? 0;
+
+  return (
+    <Dialog open={!!engagement} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Invoice Billable Expenses - {engagement?.name}</DialogTitle>
+        </DialogHeader>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Loading unbilled expenses...</p>}
+        {data && data.expenses.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No approved, billable expenses are waiting to be invoiced on this engagement.
+          </p>
+        )}
+        {data && data.expenses.length > 0 && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3">
+              <Label htmlFor="expense-markup">Markup %</Label>
+              <Input
+                id="expense-markup"
+                type="number"
+                step="0.1"
+                min="0"
+                placeholder="0"
+                className="w-28"
+                value={markupPercent}
+                onChange={(e) => setMarkupPercent(e.target.value)}
+                data-testid="input-expense-markup"
+              />
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Amount ({data.baseCurrency})</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.lineItems.map((item, index) => (
+                  <TableRow key={`${item.description}-${index}`}>
+                    <TableCell>{item.description}</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(item.unitPrice)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {unconverted > 0 && (
+              <p className="text-sm text-destructive">
+                {unconverted} {unconverted === 1 ? "expense is" : "expenses are"} in a currency with no exchange rate
+                to {data.baseCurrency} for {unconverted === 1 ? "its" : "their"} date. Add the rate before invoicing.
+              </p>
+            )}
+            <div className="flex items-center justify-end gap-4">
+              <span className="font-medium">Subtotal {formatAmount(total)}</span>
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={unconverted > 0 || createMutation.isPending}
+                data-testid="button-create-invoice-from-expenses"
+              >
+                Create Draft Invoice
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,154 @@
+// AI-META-BEGIN
+// AI-META: React component - invoice-from-time-dialog.tsx
+// OWNERSHIP: client/components
+// ENTRYPOINTS: engagements page
+// DEPENDENCIES: react, react-query, ui
+// DANGER: Review data fetching logic; creates invoices
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * Invoice unbilled time dialog.
+ *
+ * Previews the engagement's approved, billable time that is not on an invoice yet as the
+ * line items the server will create (one per project / task / rate), then creates a draft
+ * invoice from it. Entries logged without a rate are billed at the rate entered here.
+ */
+
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { invalidateTimeQueries } from "@/components/time-timer";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Engagement, Invoice, TimeEntry } from "@shared/schema";
+
+interface UnbilledTimeResponse {
+  entries: TimeEntry[];
+  lineItems: { description: string; quantity: number; unitPrice: number }[];
+  missingRate: string[];
+  totalMinutes: number;
+}
+
+interface InvoiceFromTimeDialogProps {
+  engagement: Engagement | null;
+  onClose: () => void;
+}
+
+const formatAmount = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export function InvoiceFromTimeDialog({ engagement, onClose }: InvoiceFromTimeDialogProps) {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [hourlyRate, setHourlyRate] = useState("");
+
+  const { data, isLoading } = useQuery<UnbilledTimeResponse>({
+    queryKey: [`/api/engagements/${engagement?.id}/unbilled-time`],
+    enabled: !!engagement,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/engagements/${engagement!.id}/invoice-from-time`, {
+        hourlyRate: hourlyRate ? parseFloat(hourlyRate) : undefined,
+      });
+      return (await res.json()) as Invoice;
+    },
+    onSuccess: () => {
+      invalidateTimeQueries();
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      toast({ title: "Draft invoice created", description: "Review and send it from Invoices." });
+      onClose();
+      setLocation("/invoices");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create invoice", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const missingRate = data?.missingRate.length ?? 0;
+  const total = data?.lineItems.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0) ?? 0;
+
+  return (
+    <Dialog open={!!engagement} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Invoice Unbilled Time - {engagement?.name}</DialogTitle>
+        </DialogHeader>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Loading unbilled time...</p>}
+        {data && data.entries.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No approved, billable time is waiting to be invoiced on this engagement.
+          </p>
+        )}
+        {data && data.entries.length > 0 && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {data.entries.length} approved entries, {(data.totalMinutes / 60).toFixed(2)} hours. Tax and
+              discounts can be added on the draft invoice.
+            </p>
+            {data.lineItems.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Hours</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.lineItems.map((item) => (
+                    <TableRow key={`${item.description}-${item.unitPrice}`}>
+                      <TableCell>{item.description}</TableCell>
+                      <TableCell className="text-right font-mono">{item.quantity.toFixed(2)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(item.unitPrice)}</TableCell>
+                      <TableCell className="text-right font-mono">
+                        {formatAmount(item.quantity * item.unitPrice)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {missingRate > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm">
+                  {missingRate} {missingRate === 1 ? "entry has" : "entries have"} no hourly rate. Enter the rate to
+                  bill {missingRate === 1 ? "it" : "them"} at:
+                </p>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="Hourly rate"
+                  className="w-40"
+                  value={hourlyRate}
+                  onChange={(e) => setHourlyRate(e.target.value)}
+                  data-testid="input-invoice-time-rate"
+                />
+              </div>
+            )}
+            <div className="flex items-center justify-end gap-4">
+              {missingRate === 0 && <span className="font-medium">Subtotal {formatAmount(total)}</span>}
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={(missingRate > 0 && !hourlyRate) || createMutation.isPending}
+                data-testid="button-create-invoice-from-time"
+              >
+                Create Draft Invoice
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,457 @@
+// AI-META-BEGIN
+// AI-META: React component - invoice-payments-dialog.tsx
+// OWNERSHIP: client/components
+// ENTRYPOINTS: invoices page
+// DEPENDENCIES: react, react-query, ui
+// DANGER: Review data fetching logic
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * Invoice payments dialog.
+ *
+ * Shows the payment ledger for one invoice, records new (partial) payments, refunds
+ * money against a payment and voids mistaken payments. The server derives the invoice's
+ * paidAmount (net of refunds) + status from the ledger, so after every change we just
+ * refetch both the ledger and the invoice list.
+ *
+ * Issued invoices with a balance can also get an online payment link (a checkout session
+ * with the configured payment provider); payments made through it show up in the ledger
+ * once the provider confirms them.
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Ban, Copy, Link2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Invoice, Payment, PaymentSession, Refund } from "@shared/schema";
+
+const paymentFormSchema = z.object({
+  amount: z.string().min(1, "Amount is required"),
+  paymentMethod: z.enum(["bank_transfer", "check", "card", "cash", "other"]),
+  referenceNumber: z.string().optional(),
+  paidAt: z.string().min(1, "Payment date is required"),
+});
+
+type PaymentFormValues = z.infer<typeof paymentFormSchema>;
+
+const methodOptions = [
+  { value: "bank_transfer", label: "Bank Transfer" },
+  { value: "check", label: "Check" },
+  { value: "card", label: "Card" },
+  { value: "cash", label: "Cash" },
+  { value: "other", label: "Other" },
+];
+
+interface InvoicePaymentsResponse {
+  payments: Payment[];
+  refunds: Refund[];
+  paidAmount: string;
+  creditedAmount: string;
+  balanceDue: string;
+}
+
+interface InvoicePaymentsDialogProps {
+  invoice: Invoice | null;
+  onClose: () => void;
+}
+
+export function InvoicePaymentsDialog({ invoice, onClose }: InvoicePaymentsDialogProps) {
+  const { toast } = useToast();
+  const [voidingId, setVoidingId] = useState<string | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+  const [refundingId, setRefundingId] = useState<string | null>(null);
+  const [refundAmount, setRefundAmount] = useState("");
+  const paymentsKey = `/api/invoices/${invoice?.id}/payments`;
+  const sessionsKey = `/api/invoices/${invoice?.id}/payment-sessions`;
+
+  const form = useForm<PaymentFormValues>({
+    resolver: zodResolver(paymentFormSchema),
+    defaultValues: {
+      amount: "",
+      paymentMethod: "bank_transfer",
+      referenceNumber: "",
+      paidAt: new Date().toISOString().slice(0, 10),
+    },
+  });
+
+  const { data, isLoading } = useQuery<InvoicePaymentsResponse>({
+    queryKey: [paymentsKey],
+    enabled: !!invoice,
+  });
+
+  const { data: sessions } = useQuery<PaymentSession[]>({
+    queryKey: [sessionsKey],
+    enabled: !!invoice,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [paymentsKey] });
+    queryClient.invalidateQueries({ queryKey: [sessionsKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+  };
+
+  const recordMutation = useMutation({
+    mutationFn: async (values: PaymentFormValues) => {
+      return apiRequest("POST", paymentsKey, {
+        ...values,
+        amount: parseFloat(values.amount),
+        referenceNumber: values.referenceNumber || null,
+      });
+    },
+    onSuccess: () => {
+      refresh();
+      form.reset({ ...form.getValues(), amount: "", referenceNumber: "" });
+      toast({ title: "Payment recorded" });
+    },
+    onError: () => {
+      toast({ title: "Failed to record payment", variant: "destructive" });
+    },
+  });
+
+  const voidMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) => {
+      return apiRequest("POST", `${paymentsKey}/${id}/void`, { reason });
+    },
+    onSuccess: () => {
+      refresh();
+      setVoidingId(null);
+      setVoidReason("");
+      toast({ title: "Payment voided" });
+    },
+    onError: () => {
+      toast({ title: "Failed to void payment", variant: "destructive" });
+    },
+  });
+
+  const refundMutation = useMutation({
+    mutationFn: async ({ id, amount }: { id: string; amount: string }) => {
+      return apiRequest("POST", `${paymentsKey}/${id}/refunds`, { amount: parseFloat(amount) });
+    },
+    onSuccess: () => {
+      refresh();
+      setRefundingId(null);
+      setRefundAmount("");
+      toast({ title: "Refund recorded" });
+    },
+    onError: () => {
+      toast({ title: "Failed to record refund", variant: "destructive" });
+    },
+  });
+
+  const paymentLinkMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", sessionsKey, {});
+      return (await res.json()) as PaymentSession;
+    },
+    onSuccess: (session) => {
+      queryClient.invalidateQueries({ queryKey: [sessionsKey] });
+      copyPaymentLink(session.checkoutUrl);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create payment link", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const copyPaymentLink = (url: string) => {
+    const link = new URL(url, window.location.origin).toString();
+    navigator.clipboard
+      .writeText(link)
+      .then(() => toast({ title: "Payment link copied", description: "Send it to the client to pay online." }))
+      .catch(() => toast({ title: "Payment link", description: link }));
+  };
+
+  const refundsFor = (paymentId: string) =>
+    data?.refunds.filter((refund) => refund.paymentId === paymentId) ?? [];
+
+  const canRecord = invoice && invoice.status !== "cancelled" && Number(data?.balanceDue ?? 0) > 0;
+  const canPayOnline = canRecord && invoice.status !== "draft";
+  const openSession = sessions?.find((session) => session.status === "open" || session.status === "processing");
+
+  return (
+    <Dialog open={!!invoice} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Payments for #{invoice?.invoiceNumber}</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Total</p>
+            <p className="font-mono font-medium">
+              {Number(invoice?.totalAmount || 0).toLocaleString()}
+            </p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Credited</p>
+            <p className="font-mono font-medium">{Number(data?.creditedAmount || 0).toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Paid</p>
+            <p className="font-mono font-medium">{Number(data?.paidAmount || 0).toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Balance</p>
+            <p className="font-mono font-medium" data-testid="text-invoice-balance">
+              {Number(data?.balanceDue || 0).toLocaleString()}
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {isLoading && <p className="text-sm text-muted-foreground">Loading payments...</p>}
+          {!isLoading && data?.payments.length === 0 && (
+            <p className="text-sm text-muted-foreground">No payments recorded yet.</p>
+          )}
+          {data?.payments.map((payment) => (
+            <div
+              key={payment.id}
+              className="rounded-md border p-3 text-sm"
+              data-testid={`row-payment-${payment.id}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className={payment.voidedAt ? "line-through text-muted-foreground" : ""}>
+                  <span className="font-mono font-medium">
+                    {Number(payment.amount).toLocaleString()}
+                  </span>
+                  <span className="ml-2 text-muted-foreground">
+                    {new Date(payment.paidAt).toLocaleDateString()}
+                    {payment.paymentMethod &&
+                      ` · ${methodOptions.find((m) => m.value === payment.paymentMethod)?.label ?? payment.paymentMethod}`}
+                    {payment.referenceNumber && ` · ${payment.referenceNumber}`}
+                  </span>
+                </div>
+                {payment.voidedAt ? (
+                  <span className="text-xs text-muted-foreground">Voided</span>
+                ) : (
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRefundingId(payment.id)}
+                      data-testid={`button-refund-payment-${payment.id}`}
+                    >
+                      <Undo2 className="h-4 w-4 mr-1" />
+                      Refund
+                    </Button>
+                    {refundsFor(payment.id).length === 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setVoidingId(payment.id)}
+                        data-testid={`button-void-payment-${payment.id}`}
+                      >
+                        <Ban className="h-4 w-4 mr-1" />
+                        Void
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+              {payment.voidReason && (
+                <p className="mt-1 text-xs text-muted-foreground">{payment.voidReason}</p>
+              )}
+              {refundsFor(payment.id).map((refund) => (
+                <p key={refund.id} className="mt-1 text-xs text-muted-foreground" data-testid={`row-refund-${refund.id}`}>
+                  Refunded <span className="font-mono">{Number(refund.amount).toLocaleString()}</span> on{" "}
+                  {new Date(refund.refundedAt).toLocaleDateString()}
+                </p>
+              ))}
+              {refundingId === payment.id && (
+                <div className="mt-2 flex gap-2">
+                  <Input
+                    type="number"
+                    step="0.01"
+                    placeholder="Refund amount"
+                    value={refundAmount}
+                    onChange={(e) => setRefundAmount(e.target.value)}
+                    data-testid="input-refund-amount"
+                  />
+                  <Button
+                    size="sm"
+                    disabled={!(Number(refundAmount) > 0) || refundMutation.isPending}
+                    onClick={() => refundMutation.mutate({ id: payment.id, amount: refundAmount })}
+                  >
+                    Confirm
+                  </Button>
+                </div>
+              )}
+              {voidingId === payment.id && (
+                <div className="mt-2 flex gap-2">
+                  <Input
+                    placeholder="Reason for voiding"
+                    value={voidReason}
+                    onChange={(e) => setVoidReason(e.target.value)}
+                    data-testid="input-void-reason"
+                  />
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    disabled={!voidReason.trim() || voidMutation.isPending}
+                    onClick={() => voidMutation.mutate({ id: payment.id, reason: voidReason })}
+                  >
+                    Confirm
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {canPayOnline && (
+          <div className="flex items-center justify-between gap-2 border-t pt-4 text-sm">
+            <span className="text-muted-foreground" data-testid="text-payment-link-status">
+              {openSession?.status === "processing"
+                ? "An online payment is processing."
+                : openSession
+                  ? "Online payment link is active."
+                  : "Let the client pay this invoice online."}
+            </span>
+            <div className="flex gap-1">
+              {openSession && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => copyPaymentLink(openSession.checkoutUrl)}
+                  data-testid="button-copy-payment-link"
+                >
+                  <Copy className="h-4 w-4 mr-1" />
+                  Copy
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={paymentLinkMutation.isPending}
+                onClick={() => paymentLinkMutation.mutate()}
+                data-testid="button-create-payment-link"
+              >
+                <Link2 className="h-4 w-4 mr-1" />
+                {openSession ? "New Link" : "Create Payment Link"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {canRecord && (
+          <Form {...form}>
+            <form
+              onSubmit={form.handleSubmit((values) => recordMutation.mutate(values))}
+              className="space-y-4 border-t pt-4"
+            >
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="amount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Amount *</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          placeholder={data?.balanceDue}
+                          {...field}
+                          data-testid="input-payment-amount"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="paidAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Date *</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-payment-date" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="paymentMethod"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Method</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-payment-method">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {methodOptions.map((method) => (
+                            <SelectItem key={method.value} value={method.value}>
+                              {method.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="referenceNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Reference</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="Check #, transfer ID..."
+                          {...field}
+                          data-testid="input-payment-reference"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  type="submit"
+                  disabled={recordMutation.isPending}
+                  data-testid="button-record-payment"
+                >
+                  {recordMutation.isPending ? "Saving..." : "Record Payment"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,171 @@
+// AI-META-BEGIN
+// AI-META: React component - numbering-sequences-card.tsx
+// OWNERSHIP: client/components
+// ENTRYPOINTS: organization settings page (Billing tab)
+// DEPENDENCIES: react, react-query, ui
+// DANGER: Review data fetching logic
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * Numbering sequences card.
+ *
+ * Edits the invoice and bill number patterns (e.g. `INV-{YYYY}-{0000}`) and when the
+ * counter resets. Numbers are allocated by the server; the preview shows the next one.
+ */
+
+import { useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Hash } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  numberingSequenceSettingsSchema,
+  type NumberedDocumentType,
+  type NumberingSequenceSettings,
+} from "@shared/schema";
+
+interface NumberingSequenceResponse extends NumberingSequenceSettings {
+  documentType: NumberedDocumentType;
+  nextNumber: string;
+}
+
+const documentLabels: Record<NumberedDocumentType, string> = {
+  invoice: "Invoices",
+  bill: "Bills",
+  credit_note: "Credit notes",
+};
+
+const resetOptions = [
+  { value: "never", label: "Never" },
+  { value: "yearly", label: "Every year" },
+  { value: "monthly", label: "Every month" },
+];
+
+function NumberingSequenceForm({ sequence }: { sequence: NumberingSequenceResponse }) {
+  const { toast } = useToast();
+
+  const form = useForm<NumberingSequenceSettings>({
+    resolver: zodResolver(numberingSequenceSettingsSchema),
+    defaultValues: { pattern: sequence.pattern, resetPeriod: sequence.resetPeriod },
+  });
+
+  useEffect(() => {
+    form.reset({ pattern: sequence.pattern, resetPeriod: sequence.resetPeriod });
+  }, [form, sequence.pattern, sequence.resetPeriod]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: NumberingSequenceSettings) => {
+      return apiRequest("PUT", `/api/numbering-sequences/${sequence.documentType}`, values);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/numbering-sequences"] });
+      toast({ title: `${documentLabels[sequence.documentType]} numbering updated` });
+    },
+    onError: () => {
+      toast({ title: "Failed to update numbering", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit((values) => saveMutation.mutate(values))}
+        className="grid grid-cols-[1fr_10rem_auto] items-end gap-4"
+        data-testid={`form-numbering-${sequence.documentType}`}
+      >
+        <FormField
+          control={form.control}
+          name="pattern"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{documentLabels[sequence.documentType]}</FormLabel>
+              <FormControl>
+                <Input {...field} data-testid={`input-numbering-pattern-${sequence.documentType}`} />
+              </FormControl>
+              <p className="text-xs text-muted-foreground">
+                Next: <span className="font-mono">{sequence.nextNumber}</span>
+              </p>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="resetPeriod"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Reset</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger data-testid={`select-numbering-reset-${sequence.documentType}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {resetOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" disabled={saveMutation.isPending}>
+          Save
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export function NumberingSequencesCard() {
+  const { data: sequences, isLoading } = useQuery<NumberingSequenceResponse[]>({
+    queryKey: ["/api/numbering-sequences"],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hash className="h-5 w-5" />
+          Document Numbering
+        </CardTitle>
+        <CardDescription>
+          Use {"{YYYY}"}, {"{YY}"} and {"{MM}"} for the date and {"{0000}"} for the counter. Numbers are
+          assigned without gaps when a document is issued.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && <p className="text-sm text-muted-foreground">Loading numbering settings...</p>}
+        {sequences?.map((sequence) => (
+          <NumberingSequenceForm key={sequence.documentType} sequence={sequence} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,331 @@
+// AI-META-BEGIN
+// AI-META: React component - pipeline-settings-dialog.tsx
+// OWNERSHIP: client/components
+// ENTRYPOINTS: deals page
+// DEPENDENCIES: react, react-query, ui
+// DANGER: Review data fetching logic
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * Pipeline settings dialog.
+ *
+ * Creates or edits one sales pipeline: its name, whether new deals go to it by default, and
+ * its stages in order. Each stage has a default win probability and an outcome (open, won or
+ * lost); a pipeline needs at least one of each. Stages that still hold deals cannot be removed.
+ */
+
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { DealPipelineWithStages, DealStatus } from "@shared/schema";
+
+const outcomeOptions: { value: DealStatus; label: string }[] = [
+  { value: "open", label: "Open" },
+  { value: "won", label: "Won" },
+  { value: "lost", label: "Lost" },
+];
+
+const pipelineFormSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  isDefault: z.boolean(),
+  stages: z
+    .array(
+      z.object({
+        stageId: z.string().optional(),
+        name: z.string().min(1, "Stage name is required"),
+        probability: z.string(),
+        outcome: z.enum(["open", "won", "lost"]),
+      }),
+    )
+    .min(3, "Add at least an open, a won and a lost stage"),
+});
+
+type PipelineFormValues = z.infer<typeof pipelineFormSchema>;
+
+const newPipelineValues: PipelineFormValues = {
+  name: "",
+  isDefault: false,
+  stages: [
+    { name: "New", probability: "10", outcome: "open" },
+    { name: "Won", probability: "100", outcome: "won" },
+    { name: "Lost", probability: "0", outcome: "lost" },
+  ],
+};
+
+const toFormValues = (pipeline: DealPipelineWithStages): PipelineFormValues => ({
+  name: pipeline.name,
+  isDefault: pipeline.isDefault,
+  stages: pipeline.stages.map((stage) => ({
+    stageId: stage.id,
+    name: stage.name,
+    probability: String(stage.probability),
+    outcome: stage.isWon ? "won" : stage.isLost ? "lost" : "open",
+  })),
+});
+
+interface PipelineSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The pipeline to edit; a new one is created when null. */
+  pipeline: DealPipelineWithStages | null;
+  onSaved?: (pipeline: DealPipelineWithStages) => void;
+}
+
+export function PipelineSettingsDialog({ open, onOpenChange, pipeline, onSaved }: PipelineSettingsDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<PipelineFormValues>({
+    resolver: zodResolver(pipelineFormSchema),
+    defaultValues: newPipelineValues,
+  });
+  const stageFields = useFieldArray({ control: form.control, name: "stages" });
+
+  useEffect(() => {
+    if (open) form.reset(pipeline ? toFormValues(pipeline) : newPipelineValues);
+  }, [open, pipeline, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: PipelineFormValues) => {
+      const body = {
+        name: values.name,
+        isDefault: values.isDefault,
+        stages: values.stages.map((stage) => ({
+          id: stage.stageId,
+          name: stage.name,
+          probability: parseInt(stage.probability || "0", 10),
+          isWon: stage.outcome === "won",
+          isLost: stage.outcome === "lost",
+        })),
+      };
+      const res = pipeline
+        ? await apiRequest("PATCH", `/api/pipelines/${pipeline.id}`, body)
+        : await apiRequest("POST", "/api/pipelines", body);
+      return (await res.json()) as DealPipelineWithStages;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pipelines"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/deals"] });
+      toast({ title: pipeline ? "Pipeline updated" : "Pipeline created" });
+      onSaved?.(saved);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save pipeline", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/pipelines/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pipelines"] });
+      toast({ title: "Pipeline deleted" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete pipeline", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{pipeline ? `Edit ${pipeline.name}` : "New Pipeline"}</DialogTitle>
+          <DialogDescription>
+            Deals move through the stages in this order. Moving a deal to a stage sets its probability
+            to the stage default; won and lost stages close the deal.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => saveMutation.mutate(values))} className="space-y-4">
+            <div className="grid grid-cols-[1fr_auto] items-end gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Partnerships" {...field} data-testid="input-pipeline-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="isDefault"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0 pb-2">
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        // The default moves by making another pipeline the default
+                        disabled={pipeline?.isDefault}
+                        data-testid="switch-pipeline-default"
+                      />
+                    </FormControl>
+                    <FormLabel>Default for new deals</FormLabel>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1.5rem_1fr_6rem_7rem_auto] gap-2 text-sm text-muted-foreground">
+                <span />
+                <span>Stage</span>
+                <span>Probability %</span>
+                <span>Outcome</span>
+                <span />
+              </div>
+              {stageFields.fields.map((stage, index) => (
+                <div key={stage.id} className="grid grid-cols-[1.5rem_1fr_6rem_7rem_auto] items-start gap-2">
+                  <span className="pt-2 text-sm text-muted-foreground">{index + 1}.</span>
+                  <FormField
+                    control={form.control}
+                    name={`stages.${index}.name`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input {...field} data-testid={`input-pipeline-stage-name-${index}`} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`stages.${index}.probability`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input type="number" min={0} max={100} {...field} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`stages.${index}.outcome`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid={`select-pipeline-stage-outcome-${index}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {outcomeOptions.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  <div className="flex">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      disabled={index === 0}
+                      onClick={() => stageFields.move(index, index - 1)}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      disabled={index === stageFields.fields.length - 1}
+                      onClick={() => stageFields.move(index, index + 1)}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" onClick={() => stageFields.remove(index)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              {form.formState.errors.stages?.root && (
+                <p className="text-sm text-destructive">{form.formState.errors.stages.root.message}</p>
+              )}
+              {form.formState.errors.stages?.message && (
+                <p className="text-sm text-destructive">{form.formState.errors.stages.message}</p>
+              )}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => stageFields.append({ name: "", probability: "50", outcome: "open" })}
+                data-testid="button-add-pipeline-stage"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add stage
+              </Button>
+            </div>
+
+            <div className="flex justify-between gap-2 pt-4">
+              <div>
+                {pipeline && !pipeline.isDefault && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="text-destructive"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(pipeline.id)}
+                    data-testid="button-delete-pipeline"
+                  >
+                    Delete Pipeline
+                  </Button>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-pipeline">
+                  {saveMutation.isPending ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,163 @@
+// AI-META-BEGIN
+// AI-META: React component - sales-forecast-card.tsx
+// OWNERSHIP: client/components
+// ENTRYPOINTS: dashboard page, pipeline forecast page
+// DEPENDENCIES: react, react-query, recharts, ui
+// DANGER: Review data fetching logic
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * Sales forecast card.
+ *
+ * Weighted pipeline (each open deal's value times its probability) by expected close month,
+ * next to the headline figures of deals closed this quarter: win rate, average deal size and
+ * average sales cycle. Owner and stage breakdowns live on the pipeline forecast page.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { startOfQuarter } from "date-fns";
+import { ArrowRight } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { DealStatus } from "@shared/schema";
+
+export interface WeightedFigures {
+  dealCount: number;
+  openValue: number;
+  weightedValue: number;
+}
+
+export interface PipelineReport {
+  currency: string;
+  pipelineId: string | null;
+  from: string | null;
+  to: string | null;
+  totals: WeightedFigures;
+  byMonth: (WeightedFigures & { month: string | null })[];
+  byOwner: (WeightedFigures & { ownerId: string; ownerName: string })[];
+  byStage: (WeightedFigures & {
+    pipelineId: string;
+    pipelineName: string;
+    stageId: string;
+    stageName: string;
+    probability: number;
+    outcome: DealStatus;
+    entered: number;
+    advanced: number;
+    conversionRate: number | null;
+  })[];
+  wonCount: number;
+  lostCount: number;
+  winRate: number | null;
+  wonValue: number;
+  averageDealSize: number | null;
+  averageSalesCycleDays: number | null;
+}
+
+export const forecastChartConfig = {
+  openValue: { label: "Open value", color: "hsl(var(--chart-2))" },
+  weightedValue: { label: "Weighted", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+export const formatAmount = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+
+export const formatPercent = (value: number | null) => (value === null ? "-" : `${value.toFixed(1)}%`);
+
+export const formatMonth = (month: string | null) =>
+  month === null
+    ? "No date"
+    : new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, { month: "short", year: "2-digit" });
+
+export function SalesForecastCard() {
+  const from = startOfQuarter(new Date()).toISOString();
+
+  const { data: report, isLoading } = useQuery<PipelineReport>({
+    queryKey: [`/api/reports/pipeline?from=${encodeURIComponent(from)}`],
+    staleTime: 0,
+    refetchOnMount: "always",
+  });
+
+  const data = report?.byMonth.map((month) => ({ ...month, label: formatMonth(month.month) }));
+  const figures = report
+    ? [
+        { label: "Weighted pipeline", value: `${formatAmount(report.totals.weightedValue)} ${report.currency}` },
+        { label: "Win rate", value: formatPercent(report.winRate) },
+        {
+          label: "Average deal size",
+          value: report.averageDealSize === null ? "-" : formatAmount(report.averageDealSize),
+        },
+        {
+          label: "Average sales cycle",
+          value: report.averageSalesCycleDays === null ? "-" : `${report.averageSalesCycleDays} days`,
+        },
+      ]
+    : [];
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0 pb-2">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base font-semibold">Sales Forecast</CardTitle>
+          <CardDescription>
+            {report
+              ? `${report.totals.dealCount} open deal(s) worth ${formatAmount(report.totals.openValue)} · ` +
+                `${report.wonCount} won and ${report.lostCount} lost this quarter`
+              : "Open deals weighted by probability, by expected close month"}
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/pipeline-forecast">
+            Details
+            <ArrowRight className="ml-1 h-3 w-3" />
+          </Link>
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !report || !data ? (
+          <Skeleton className="h-64 w-full" />
+        ) : (
+          <>
+            <div className="mb-6 grid grid-cols-2 gap-4 text-sm md:grid-cols-4">
+              {figures.map((figure) => (
+                <div key={figure.label}>
+                  <p className="text-muted-foreground">{figure.label}</p>
+                  <p className="font-mono font-medium" data-testid={`text-forecast-${figure.label.toLowerCase().replace(/ /g, "-")}`}>
+                    {figure.value}
+                  </p>
+                </div>
+              ))}
+            </div>
+            {data.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No open deals.</p>
+            ) : (
+              <ChartContainer config={forecastChartConfig} className="h-56 w-full aspect-auto">
+                <BarChart data={data}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={60} tickFormatter={formatAmount} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="openValue" fill="var(--color-openValue)" radius={2} />
+                  <Bar dataKey="weightedValue" fill="var(--color-weightedValue)" radius={2} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -12,13 +12,14 @@
  * Status badge.
  *
  * Maps enum-like status strings to human labels + color tokens.
- * Keep this aligned with the enums in `shared/schema.ts` (deal stage, invoice status, etc.).
+ * Keep this aligned with the enums in `shared/schema.ts` (deal status, invoice status, etc.).
  */
 
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 
 type StatusType =
+  | "open"
   | "lead"
   | "qualified"
   | "proposal"
@@ -40,6 +41,7 @@ type StatusType =
   | "in_progress"
   | "review"
   | "todo"
+  | "partially_paid"
   | "paid"
   | "overdue"
   | "pending"
@@ -50,6 +52,10 @@ type StatusType =
   | "urgent";
 
 const statusConfig: Record<StatusType, { label: string; className: string }> = {
+  open: {
+    label: "Open",
+    className: "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300",
+  },
   lead: {
     label: "Lead",
     className: "bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300",
@@ -131,6 +137,10 @@ const statusConfig: Record<StatusType, { label: string; className: string }> = {
     label: "To Do",
     className: "bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300",
   },
+  partially_paid: {
+    label: "Partially Paid",
+    className: "bg-teal-100 text-teal-700 dark:bg-teal-900 dark:text-teal-300",
+  },
   paid: {
     label: "Paid",
     className: "bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300",
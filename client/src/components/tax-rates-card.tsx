@@ -0,0 +1,183 @@
+// AI-META-BEGIN
+// AI-META: React component - tax-rates-card.tsx
+// OWNERSHIP: client/components
+// ENTRYPOINTS: organization settings page (Billing tab)
+// DEPENDENCIES: react, react-query, ui
+// DANGER: Review data fetching logic
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * Tax rates card.
+ *
+ * Manages the organization's named tax rates used by invoice line items. Invoices keep
+ * a snapshot of the rate they were priced with, so editing or deleting a rate here only
+ * affects invoices created or re-saved afterwards. Deactivated rates are hidden from the
+ * invoice line-item picker.
+ */
+
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Percent, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { TaxRate } from "@shared/schema";
+
+const taxRateFormSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  rate: z.string().min(1, "Rate is required"),
+});
+
+type TaxRateFormValues = z.infer<typeof taxRateFormSchema>;
+
+export function TaxRatesCard() {
+  const { toast } = useToast();
+
+  const form = useForm<TaxRateFormValues>({
+    resolver: zodResolver(taxRateFormSchema),
+    defaultValues: { name: "", rate: "" },
+  });
+
+  const { data: taxRates, isLoading } = useQuery<TaxRate[]>({
+    queryKey: ["/api/tax-rates"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (values: TaxRateFormValues) => {
+      return apiRequest("POST", "/api/tax-rates", { ...values, rate: parseFloat(values.rate) });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tax-rates"] });
+      form.reset();
+      toast({ title: "Tax rate added" });
+    },
+    onError: () => {
+      toast({ title: "Failed to add tax rate", variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return apiRequest("PATCH", `/api/tax-rates/${id}`, { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tax-rates"] });
+    },
+    onError: () => {
+      toast({ title: "Failed to update tax rate", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/tax-rates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tax-rates"] });
+      toast({ title: "Tax rate deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete tax rate", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Percent className="h-5 w-5" />
+          Tax Rates
+        </CardTitle>
+        <CardDescription>
+          Named tax rates applied to invoice line items. Invoice totals are calculated on the server.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <p className="text-sm text-muted-foreground">Loading tax rates...</p>}
+        {!isLoading && taxRates?.length === 0 && (
+          <p className="text-sm text-muted-foreground">No tax rates yet.</p>
+        )}
+        {taxRates?.map((taxRate) => (
+          <div
+            key={taxRate.id}
+            className="flex items-center justify-between gap-4 rounded-md border p-3 text-sm"
+            data-testid={`row-tax-rate-${taxRate.id}`}
+          >
+            <div>
+              <p className="font-medium">{taxRate.name}</p>
+              <p className="font-mono text-muted-foreground">{Number(taxRate.rate)}%</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={taxRate.isActive}
+                onCheckedChange={(isActive) => toggleMutation.mutate({ id: taxRate.id, isActive })}
+                data-testid={`switch-tax-rate-${taxRate.id}`}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => deleteMutation.mutate(taxRate.id)}
+                data-testid={`button-delete-tax-rate-${taxRate.id}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((values) => createMutation.mutate(values))}
+            className="grid grid-cols-[1fr_8rem_auto] items-end gap-4 border-t pt-4"
+          >
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="VAT 20%" {...field} data-testid="input-tax-rate-name" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="rate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Rate (%)</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="0.0001" placeholder="20" {...field} data-testid="input-tax-rate-rate" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" disabled={createMutation.isPending} data-testid="button-add-tax-rate">
+              <Plus className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,187 @@
+// AI-META-BEGIN
+// AI-META: React component - time-timer.tsx
+// OWNERSHIP: client/components
+// ENTRYPOINTS: app header
+// DEPENDENCIES: react, react-query, ui
+// DANGER: Review data fetching logic
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * Running timer (app header).
+ *
+ * Starting a timer creates a draft time entry on the server; stopping it adds the elapsed
+ * minutes to that entry. The server allows one running timer per user, so the elapsed time
+ * survives page reloads and is shown from `timerStartedAt`.
+ */
+
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Play, Square, Timer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Project, Task, TimeEntry } from "@shared/schema";
+
+/** Refetch everything that shows time entries (timer, timesheets, unbilled time). */
+export function invalidateTimeQueries() {
+  queryClient.invalidateQueries({
+    predicate: (query) => {
+      const key = String(query.queryKey[0]);
+      return key.startsWith("/api/time-entries") || key.startsWith("/api/timesheets") || key.includes("/unbilled-time");
+    },
+  });
+}
+
+function formatElapsed(startedAt: string | Date, now: number) {
+  const seconds = Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 1000));
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${Math.floor(seconds / 3600)}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+}
+
+export function TimeTimer() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [projectId, setProjectId] = useState("");
+  const [taskId, setTaskId] = useState("");
+  const [notes, setNotes] = useState("");
+  const [now, setNow] = useState(Date.now());
+
+  const { data: running } = useQuery<TimeEntry | null>({
+    queryKey: ["/api/time-entries/timer"],
+  });
+  const { data: projects } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+    enabled: open,
+  });
+  const { data: tasks } = useQuery<Task[]>({
+    queryKey: ["/api/tasks"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!running?.timerStartedAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [running?.timerStartedAt]);
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/time-entries/timer/start", {
+        projectId,
+        taskId: taskId || null,
+        notes: notes || null,
+      });
+    },
+    onSuccess: () => {
+      invalidateTimeQueries();
+      setOpen(false);
+      setNotes("");
+      setNow(Date.now());
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to start timer", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/time-entries/timer/stop");
+      return (await res.json()) as TimeEntry;
+    },
+    onSuccess: (entry) => {
+      invalidateTimeQueries();
+      toast({ title: "Time logged", description: `${entry.durationMinutes} min added to your timesheet` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to stop timer", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (running?.timerStartedAt) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => stopMutation.mutate()}
+        disabled={stopMutation.isPending}
+        data-testid="button-stop-timer"
+      >
+        <Square className="h-3 w-3 mr-2 fill-current" />
+        <span className="font-mono">{formatElapsed(running.timerStartedAt, now)}</span>
+      </Button>
+    );
+  }
+
+  const projectTasks = tasks?.filter((task) => task.projectId === projectId) ?? [];
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" data-testid="button-start-timer">
+          <Timer className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-3">
+        <p className="text-sm font-medium">Start a timer</p>
+        <Select
+          value={projectId}
+          onValueChange={(value) => {
+            setProjectId(value);
+            setTaskId("");
+          }}
+        >
+          <SelectTrigger data-testid="select-timer-project">
+            <SelectValue placeholder="Project" />
+          </SelectTrigger>
+          <SelectContent>
+            {projects?.map((project) => (
+              <SelectItem key={project.id} value={project.id}>
+                {project.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {projectTasks.length > 0 && (
+          <Select value={taskId} onValueChange={setTaskId}>
+            <SelectTrigger data-testid="select-timer-task">
+              <SelectValue placeholder="Task (optional)" />
+            </SelectTrigger>
+            <SelectContent>
+              {projectTasks.map((task) => (
+                <SelectItem key={task.id} value={task.id}>
+                  {task.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Input
+          placeholder="What are you working on?"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          data-testid="input-timer-notes"
+        />
+        <Button
+          className="w-full"
+          onClick={() => startMutation.mutate()}
+          disabled={!projectId || startMutation.isPending}
+          data-testid="button-confirm-start-timer"
+        >
+          <Play className="h-4 w-4 mr-2" />
+          Start
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,202 @@
+// AI-META-BEGIN
+// AI-META: React component - vendor-detail-dialog.tsx
+// OWNERSHIP: client/components
+// ENTRYPOINTS: vendors page
+// DEPENDENCIES: react, react-query, ui
+// DANGER: Review data fetching logic
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * Vendor detail dialog.
+ *
+ * Shows a vendor's contact details, every bill linked to it and its spend by period and by
+ * engagement. Spend is what has been paid, converted to the organization base currency by
+ * the server; pending and approved bills are shown as outstanding.
+ */
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { StatusBadge } from "@/components/status-badge";
+import type { Bill, Engagement, Vendor, VendorSpendPeriod } from "@shared/schema";
+
+interface VendorDetail extends Vendor {
+  bills: Bill[];
+}
+
+interface VendorSpend {
+  currency: string;
+  total: number;
+  outstanding: number;
+  byPeriod: { period: string; total: number }[];
+  byEngagement: { engagementId: string | null; total: number }[];
+  unconverted: number;
+}
+
+interface VendorDetailDialogProps {
+  vendor: Vendor | null;
+  onClose: () => void;
+}
+
+const periodLabels: Record<VendorSpendPeriod, string> = {
+  month: "By month",
+  quarter: "By quarter",
+  year: "By year",
+};
+
+const formatAmount = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export function VendorDetailDialog({ vendor, onClose }: VendorDetailDialogProps) {
+  const [period, setPeriod] = useState<VendorSpendPeriod>("month");
+
+  const { data: detail, isLoading } = useQuery<VendorDetail>({
+    queryKey: [`/api/vendors/${vendor?.id}`],
+    enabled: !!vendor,
+  });
+
+  const { data: spend } = useQuery<VendorSpend>({
+    queryKey: [`/api/vendors/${vendor?.id}/spend?period=${period}`],
+    enabled: !!vendor,
+  });
+
+  const { data: engagements } = useQuery<Engagement[]>({
+    queryKey: ["/api/engagements"],
+    enabled: !!vendor,
+  });
+
+  const engagementName = (id: string | null) =>
+    id ? (engagements?.find((engagement) => engagement.id === id)?.name ?? "Unknown engagement") : "No engagement";
+
+  return (
+    <Dialog open={!!vendor} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {vendor?.name}
+            {vendor?.isContractor && <Badge variant="secondary">Contractor</Badge>}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <p>
+            <span className="text-muted-foreground">Contact: </span>
+            {vendor?.contactName || "-"}
+          </p>
+          <p>
+            <span className="text-muted-foreground">Tax ID: </span>
+            <span className="font-mono">{vendor?.taxId || "-"}</span>
+          </p>
+          <p>
+            <span className="text-muted-foreground">Email: </span>
+            {vendor?.email || "-"}
+          </p>
+          <p>
+            <span className="text-muted-foreground">Phone: </span>
+            {vendor?.phone || "-"}
+          </p>
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <div className="flex items-center justify-between gap-4">
+            <h3 className="font-medium">Spend</h3>
+            <Select value={period} onValueChange={(value) => setPeriod(value as VendorSpendPeriod)}>
+              <SelectTrigger className="w-36" data-testid="select-vendor-spend-period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(periodLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {spend && (
+            <>
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div className="rounded-md border p-3">
+                  <p className="text-muted-foreground">Paid</p>
+                  <p className="font-mono text-lg font-medium" data-testid="text-vendor-spend-total">
+                    {formatAmount(spend.total)} {spend.currency}
+                  </p>
+                </div>
+                <div className="rounded-md border p-3">
+                  <p className="text-muted-foreground">Outstanding</p>
+                  <p className="font-mono text-lg font-medium">
+                    {formatAmount(spend.outstanding)} {spend.currency}
+                  </p>
+                </div>
+              </div>
+              {spend.unconverted > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {spend.unconverted} bill(s) are excluded because no exchange rate is set for their currency.
+                </p>
+              )}
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div className="space-y-1">
+                  {spend.byPeriod.length === 0 && <p className="text-muted-foreground">No payments yet.</p>}
+                  {spend.byPeriod.map((row) => (
+                    <div key={row.period} className="flex justify-between">
+                      <span>{row.period}</span>
+                      <span className="font-mono">{formatAmount(row.total)}</span>
+                    </div>
+                  ))}
+                </div>
+                <div className="space-y-1">
+                  {spend.byEngagement.map((row) => (
+                    <div key={row.engagementId ?? "none"} className="flex justify-between gap-2">
+                      <span className="truncate">{engagementName(row.engagementId)}</span>
+                      <span className="font-mono">{formatAmount(row.total)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="space-y-2 border-t pt-4">
+          <h3 className="font-medium">Bills</h3>
+          {isLoading && <p className="text-sm text-muted-foreground">Loading bills...</p>}
+          {!isLoading && detail?.bills.length === 0 && (
+            <p className="text-sm text-muted-foreground">No bills for this vendor yet.</p>
+          )}
+          {detail?.bills.map((bill) => (
+            <div
+              key={bill.id}
+              className="flex items-center justify-between gap-4 rounded-md border p-3 text-sm"
+              data-testid={`row-vendor-bill-${bill.id}`}
+            >
+              <div>
+                <p className="font-mono font-medium">#{bill.billNumber}</p>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(bill.createdAt).toLocaleDateString()}
+                  {bill.engagementId && ` · ${engagementName(bill.engagementId)}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="font-mono">
+                  {Number(bill.amount || 0).toLocaleString()}
+                  {bill.currency && <span className="ml-1 text-xs text-muted-foreground">{bill.currency}</span>}
+                </span>
+                <StatusBadge status={bill.status} />
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -17,9 +17,9 @@ import {
   Search,
   MoreHorizontal,
   Pencil,
-  Trash2,
+  Ban,
   CheckCircle,
-  X,
+  ShieldCheck,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -53,9 +53,11 @@ import {
 } from "@/components/ui/form";
 import { Textarea } from "@/components/ui/textarea";
 import { PageHeader } from "@/components/page-header";
+import { ExportMenu } from "@/components/export-menu";
 import { DataTable } from "@/components/data-table";
 import { EmptyState } from "@/components/empty-state";
 import { StatusBadge } from "@/components/status-badge";
+import { BillApprovalsDialog } from "@/components/bill-approvals-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -64,10 +66,11 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { Bill, Engagement, Vendor } from "@shared/schema";
 
 const billFormSchema = z.object({
-  billNumber: z.string().min(1, "Bill number is required"),
   engagementId: z.string().optional(),
   vendorId: z.string().optional(),
   amount: z.string().min(1, "Amount is required"),
+  // ISO 4217 code; left empty the server uses the organization base currency.
+  currency: z.union([z.string().regex(/^[A-Z]{3}$/, "Use a 3-letter currency code"), z.literal("")]).optional(),
   description: z.string().optional(),
   notes: z.string().optional(),
 });
@@ -80,14 +83,15 @@ export default function BillsPage() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [editingBill, setEditingBill] = useState<Bill | null>(null);
+  const [approvalsBill, setApprovalsBill] = useState<Bill | null>(null);
 
   const form = useForm<BillFormValues>({
     resolver: zodResolver(billFormSchema),
     defaultValues: {
-      billNumber: "",
       engagementId: "",
       vendorId: "",
       amount: "",
+      currency: "",
       description: "",
       notes: "",
     },
@@ -110,6 +114,7 @@ export default function BillsPage() {
       return apiRequest("POST", "/api/bills", {
         ...data,
         amount: parseFloat(data.amount),
+        currency: data.currency || undefined,
         engagementId: data.engagementId || null,
         vendorId: data.vendorId || null,
       });
@@ -130,6 +135,7 @@ export default function BillsPage() {
       return apiRequest("PATCH", `/api/bills/${data.id}`, {
         ...data,
         amount: parseFloat(data.amount),
+        currency: data.currency || undefined,
         engagementId: data.engagementId || null,
         vendorId: data.vendorId || null,
       });
@@ -146,42 +152,17 @@ export default function BillsPage() {
     },
   });
 
-  const deleteMutation = useMutation({
+  // Bills are numbered sequentially, so they are cancelled rather than deleted.
+  const cancelMutation = useMutation({
     mutationFn: async (id: string) => {
-      return apiRequest("DELETE", `/api/bills/${id}`);
+      return apiRequest("PATCH", `/api/bills/${id}`, { status: "cancelled" });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/bills"] });
-      toast({ title: "Bill deleted successfully" });
+      toast({ title: "Bill cancelled" });
     },
     onError: () => {
-      toast({ title: "Failed to delete bill", variant: "destructive" });
-    },
-  });
-
-  const approveMutation = useMutation({
-    mutationFn: async (id: string) => {
-      return apiRequest("POST", `/api/bills/${id}/approve`);
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/bills"] });
-      toast({ title: "Bill approved" });
-    },
-    onError: () => {
-      toast({ title: "Failed to approve bill", variant: "destructive" });
-    },
-  });
-
-  const rejectMutation = useMutation({
-    mutationFn: async (id: string) => {
-      return apiRequest("POST", `/api/bills/${id}/reject`);
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/bills"] });
-      toast({ title: "Bill rejected" });
-    },
-    onError: () => {
-      toast({ title: "Failed to reject bill", variant: "destructive" });
+      toast({ title: "Failed to cancel bill", variant: "destructive" });
     },
   });
 
@@ -209,10 +190,10 @@ export default function BillsPage() {
   const handleEdit = (bill: Bill) => {
     setEditingBill(bill);
     form.reset({
-      billNumber: bill.billNumber,
       engagementId: bill.engagementId || "",
       vendorId: bill.vendorId || "",
       amount: bill.amount?.toString() || "",
+      currency: bill.currency || "",
       description: bill.description || "",
       notes: bill.notes || "",
     });
@@ -249,7 +230,10 @@ export default function BillsPage() {
     {
       header: "Amount",
       accessor: (bill: Bill) => (
-        <span className="font-mono font-medium">${Number(bill.amount || 0).toLocaleString()}</span>
+        <span className="font-mono font-medium">
+          {Number(bill.amount || 0).toLocaleString()}
+          {bill.currency && <span className="ml-1 text-xs text-muted-foreground">{bill.currency}</span>}
+        </span>
       ),
     },
     {
@@ -275,18 +259,11 @@ export default function BillsPage() {
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end">
-            {bill.status === "pending" && (
-              <>
-                <DropdownMenuItem onClick={() => approveMutation.mutate(bill.id)}>
-                  <CheckCircle className="h-4 w-4 mr-2" />
-                  Approve
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => rejectMutation.mutate(bill.id)}>
-                  <X className="h-4 w-4 mr-2" />
-                  Reject
-                </DropdownMenuItem>
-              </>
-            )}
+            {/* Approve/reject happens step by step in the approvals dialog */}
+            <DropdownMenuItem onClick={() => setApprovalsBill(bill)}>
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              Approvals
+            </DropdownMenuItem>
             {bill.status === "approved" && (
               <DropdownMenuItem onClick={() => markPaidMutation.mutate(bill.id)}>
                 <CheckCircle className="h-4 w-4 mr-2" />
@@ -297,13 +274,15 @@ export default function BillsPage() {
               <Pencil className="h-4 w-4 mr-2" />
               Edit
             </DropdownMenuItem>
-            <DropdownMenuItem
-              className="text-destructive"
-              onClick={() => deleteMutation.mutate(bill.id)}
-            >
-              <Trash2 className="h-4 w-4 mr-2" />
-              Delete
-            </DropdownMenuItem>
+            {bill.status !== "paid" && bill.status !== "cancelled" && (
+              <DropdownMenuItem
+                className="text-destructive"
+                onClick={() => cancelMutation.mutate(bill.id)}
+              >
+                <Ban className="h-4 w-4 mr-2" />
+                Cancel
+              </DropdownMenuItem>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
       ),
@@ -316,138 +295,150 @@ export default function BillsPage() {
         title="Bills"
         description="Manage accounts payable"
         actions={
-          <Dialog open={isDialogOpen} onOpenChange={handleDialogClose}>
-            <DialogTrigger asChild>
-              <Button onClick={() => setIsDialogOpen(true)} data-testid="button-add-bill">
-                <Plus className="h-4 w-4 mr-2" />
-                New Bill
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-lg">
-              <DialogHeader>
-                <DialogTitle>{editingBill ? "Edit Bill" : "New Bill"}</DialogTitle>
-              </DialogHeader>
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                  <FormField
-                    control={form.control}
-                    name="billNumber"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Bill Number *</FormLabel>
-                        <FormControl>
-                          <Input
-                            placeholder="BILL-001"
-                            {...field}
-                            data-testid="input-bill-number"
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <div className="grid grid-cols-2 gap-4">
-                    <FormField
-                      control={form.control}
-                      name="engagementId"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Engagement</FormLabel>
-                          <Select onValueChange={field.onChange} value={field.value}>
+          <>
+            <ExportMenu entityType="bills" />
+            <Dialog open={isDialogOpen} onOpenChange={handleDialogClose}>
+              <DialogTrigger asChild>
+                <Button onClick={() => setIsDialogOpen(true)} data-testid="button-add-bill">
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Bill
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-lg">
+                <DialogHeader>
+                  <DialogTitle>{editingBill ? "Edit Bill" : "New Bill"}</DialogTitle>
+                </DialogHeader>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                    <p className="text-sm text-muted-foreground">
+                      {editingBill
+                        ? `Bill #${editingBill.billNumber}`
+                        : "The bill number is assigned from your numbering sequence."}
+                    </p>
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="engagementId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Engagement</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger data-testid="select-bill-engagement">
+                                  <SelectValue placeholder="Select engagement" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {engagements?.map((engagement) => (
+                                  <SelectItem key={engagement.id} value={engagement.id}>
+                                    {engagement.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="vendorId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Vendor</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger data-testid="select-bill-vendor">
+                                  <SelectValue placeholder="Select vendor" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {vendors?.map((vendor) => (
+                                  <SelectItem key={vendor.id} value={vendor.id}>
+                                    {vendor.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="amount"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Amount *</FormLabel>
                             <FormControl>
-                              <SelectTrigger data-testid="select-bill-engagement">
-                                <SelectValue placeholder="Select engagement" />
-                              </SelectTrigger>
+                              <Input
+                                type="number"
+                                placeholder="500"
+                                {...field}
+                                data-testid="input-bill-amount"
+                              />
                             </FormControl>
-                            <SelectContent>
-                              {engagements?.map((engagement) => (
-                                <SelectItem key={engagement.id} value={engagement.id}>
-                                  {engagement.name}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="currency"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Currency</FormLabel>
+                            <FormControl>
+                              <Input
+                                placeholder="Org default"
+                                maxLength={3}
+                                {...field}
+                                onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                                data-testid="input-bill-currency"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
                     <FormField
                       control={form.control}
-                      name="vendorId"
+                      name="description"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Vendor</FormLabel>
-                          <Select onValueChange={field.onChange} value={field.value}>
-                            <FormControl>
-                              <SelectTrigger data-testid="select-bill-vendor">
-                                <SelectValue placeholder="Select vendor" />
-                              </SelectTrigger>
-                            </FormControl>
-                            <SelectContent>
-                              {vendors?.map((vendor) => (
-                                <SelectItem key={vendor.id} value={vendor.id}>
-                                  {vendor.name}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
+                          <FormLabel>Description</FormLabel>
+                          <FormControl>
+                            <Textarea
+                              placeholder="What is this bill for?"
+                              className="resize-none"
+                              {...field}
+                              data-testid="input-bill-description"
+                            />
+                          </FormControl>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
-                  </div>
-                  <FormField
-                    control={form.control}
-                    name="amount"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Amount ($) *</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            placeholder="500"
-                            {...field}
-                            data-testid="input-bill-amount"
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="description"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Description</FormLabel>
-                        <FormControl>
-                          <Textarea
-                            placeholder="What is this bill for?"
-                            className="resize-none"
-                            {...field}
-                            data-testid="input-bill-description"
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <div className="flex justify-end gap-2 pt-4">
-                    <Button type="button" variant="outline" onClick={handleDialogClose}>
-                      Cancel
-                    </Button>
-                    <Button
-                      type="submit"
-                      disabled={createMutation.isPending || updateMutation.isPending}
-                      data-testid="button-save-bill"
-                    >
-                      {createMutation.isPending || updateMutation.isPending ? "Saving..." : "Save"}
-                    </Button>
-                  </div>
-                </form>
-              </Form>
-            </DialogContent>
-          </Dialog>
+                    <div className="flex justify-end gap-2 pt-4">
+                      <Button type="button" variant="outline" onClick={handleDialogClose}>
+                        Cancel
+                      </Button>
+                      <Button
+                        type="submit"
+                        disabled={createMutation.isPending || updateMutation.isPending}
+                        data-testid="button-save-bill"
+                      >
+                        {createMutation.isPending || updateMutation.isPending ? "Saving..." : "Save"}
+                      </Button>
+                    </div>
+                  </form>
+                </Form>
+              </DialogContent>
+            </Dialog>
+          </>
         }
       />
 
@@ -487,6 +478,8 @@ export default function BillsPage() {
           emptyMessage="No bills found"
         />
       )}
+
+      <BillApprovalsDialog bill={approvalsBill} onClose={() => setApprovalsBill(null)} />
     </div>
   );
 }
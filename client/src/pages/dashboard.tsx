@@ -36,10 +36,12 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { StatCard } from "@/components/stat-card";
+import { CashFlowChart } from "@/components/cash-flow-chart";
+import { SalesForecastCard } from "@/components/sales-forecast-card";
 import { StatusBadge } from "@/components/status-badge";
 import { PageHeader } from "@/components/page-header";
 import { useAuth } from "@/hooks/use-auth";
-import type { Deal, Engagement, Invoice, Task } from "@shared/schema";
+import type { Deal, DealStatus, Engagement, Invoice, Task } from "@shared/schema";
 
 export default function DashboardPage() {
   const { user } = useAuth();
@@ -117,6 +119,10 @@ export default function DashboardPage() {
         )}
       </div>
 
+      <CashFlowChart />
+
+      <SalesForecastCard />
+
       <div className="grid gap-6 lg:grid-cols-2">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between gap-4 pb-2">
@@ -159,7 +165,7 @@ export default function DashboardPage() {
                         ${Number(deal.value || 0).toLocaleString()}
                       </p>
                     </div>
-                    <StatusBadge status={deal.stage} />
+                    <StatusBadge status={deal.status as DealStatus} />
                   </Link>
                 ))}
               </div>
@@ -14,16 +14,31 @@
  * Data/model notes:
  * - The form models `value` as a string for input ergonomics, then we coerce to number/null.
  * - Clients are fetched separately to populate the “Client” select.
+ * - Stages come from the organization's pipelines; the page shows one pipeline at a time and
+ *   the server sets a deal's status, close date and default probability from its stage.
+ * - The board view moves deals between stages by drag and drop; the list is updated right
+ *   away and restored if the server rejects the move. Every move lands in the stage history
+ *   shown in the edit dialog.
  *
  * AI iteration notes:
  * - If you add new deal fields: update `dealFormSchema`, defaultValues, and the submit coercion.
- * - Keep `stage` options aligned with the enum in `shared/schema.ts`.
  */
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
-import { Plus, TrendingUp, Search, MoreHorizontal, Pencil, Trash2, DollarSign } from "lucide-react";
+import {
+  Plus,
+  TrendingUp,
+  Search,
+  MoreHorizontal,
+  Pencil,
+  Trash2,
+  DollarSign,
+  Settings2,
+  LayoutGrid,
+  List,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -56,36 +71,40 @@ import {
 } from "@/components/ui/form";
 import { Textarea } from "@/components/ui/textarea";
 import { PageHeader } from "@/components/page-header";
+import { ExportMenu } from "@/components/export-menu";
 import { DataTable } from "@/components/data-table";
 import { EmptyState } from "@/components/empty-state";
 import { StatusBadge } from "@/components/status-badge";
+import { PipelineSettingsDialog } from "@/components/pipeline-settings-dialog";
+import { DealsBoard } from "@/components/deals-board";
 import { useToast } from "@/hooks/use-toast";
-import { useForm } from "react-hook-form";
+import { useForm, useWatch } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Deal, ClientCompany } from "@shared/schema";
+import type {
+  Deal,
+  ClientCompany,
+  DealPipelineWithStages,
+  DealStageTransition,
+  DealStatus,
+} from "@shared/schema";
 
 const dealFormSchema = z.object({
   name: z.string().min(1, "Name is required"),
   clientCompanyId: z.string().optional(),
   value: z.string().optional(),
-  stage: z.enum(["lead", "qualified", "proposal", "negotiation", "won", "lost"]),
-  probability: z.number().min(0).max(100).optional(),
+  pipelineId: z.string().min(1, "Pipeline is required"),
+  stageId: z.string().min(1, "Stage is required"),
   description: z.string().optional(),
   notes: z.string().optional(),
 });
 
 type DealFormValues = z.infer<typeof dealFormSchema>;
 
-const stages = [
-  { value: "lead", label: "Lead" },
-  { value: "qualified", label: "Qualified" },
-  { value: "proposal", label: "Proposal" },
-  { value: "negotiation", label: "Negotiation" },
-  { value: "won", label: "Won" },
-  { value: "lost", label: "Lost" },
-];
+// New deals start in the first open stage of their pipeline
+const entryStageId = (pipeline?: DealPipelineWithStages) =>
+  pipeline?.stages.find((stage) => !stage.isWon && !stage.isLost)?.id ?? "";
 
 export default function DealsPage() {
   const [, setLocation] = useLocation();
@@ -93,6 +112,9 @@ export default function DealsPage() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [editingDeal, setEditingDeal] = useState<Deal | null>(null);
+  const [selectedPipelineId, setSelectedPipelineId] = useState("");
+  const [pipelineDialog, setPipelineDialog] = useState<{ pipeline: DealPipelineWithStages | null } | null>(null);
+  const [view, setView] = useState<"board" | "table">("board");
 
   const form = useForm<DealFormValues>({
     resolver: zodResolver(dealFormSchema),
@@ -100,8 +122,8 @@ export default function DealsPage() {
       name: "",
       clientCompanyId: "",
       value: "",
-      stage: "lead",
-      probability: 0,
+      pipelineId: "",
+      stageId: "",
       description: "",
       notes: "",
     },
@@ -115,6 +137,27 @@ export default function DealsPage() {
     queryKey: ["/api/clients"],
   });
 
+  const { data: pipelines } = useQuery<DealPipelineWithStages[]>({
+    queryKey: ["/api/pipelines"],
+  });
+
+  const selectedPipeline =
+    pipelines?.find((pipeline) => pipeline.id === selectedPipelineId) ??
+    pipelines?.find((pipeline) => pipeline.isDefault) ??
+    pipelines?.[0];
+  const stagesById = new Map(pipelines?.flatMap((pipeline) => pipeline.stages).map((stage) => [stage.id, stage]));
+
+  const formPipelineId = useWatch({ control: form.control, name: "pipelineId" });
+  const formPipeline = pipelines?.find((pipeline) => pipeline.id === formPipelineId);
+
+  // Default the form to the pipeline on screen once pipelines have loaded
+  useEffect(() => {
+    if (selectedPipeline && !form.getValues("pipelineId")) {
+      form.setValue("pipelineId", selectedPipeline.id);
+      form.setValue("stageId", entryStageId(selectedPipeline));
+    }
+  }, [selectedPipeline, form]);
+
   const createMutation = useMutation({
     mutationFn: async (data: DealFormValues) => {
       return apiRequest("POST", "/api/deals", {
@@ -128,7 +171,7 @@ export default function DealsPage() {
       // Refresh deal list; a fine default until we need optimistic updates.
       queryClient.invalidateQueries({ queryKey: ["/api/deals"] });
       setIsDialogOpen(false);
-      form.reset();
+      resetForm();
       toast({ title: "Deal created successfully" });
     },
     onError: () => {
@@ -148,7 +191,7 @@ export default function DealsPage() {
       queryClient.invalidateQueries({ queryKey: ["/api/deals"] });
       setIsDialogOpen(false);
       setEditingDeal(null);
-      form.reset();
+      resetForm();
       toast({ title: "Deal updated successfully" });
     },
     onError: () => {
@@ -156,6 +199,33 @@ export default function DealsPage() {
     },
   });
 
+  const { data: stageHistory } = useQuery<DealStageTransition[]>({
+    queryKey: ["/api/deals", editingDeal?.id, "stage-history"],
+    enabled: !!editingDeal,
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ deal, stageId }: { deal: Deal; stageId: string }) => {
+      return apiRequest("PATCH", `/api/deals/${deal.id}`, { stageId });
+    },
+    // Move the card immediately; the refetch after settling brings in the new probability and status
+    onMutate: async ({ deal, stageId }) => {
+      await queryClient.cancelQueries({ queryKey: ["/api/deals"] });
+      const previous = queryClient.getQueryData<Deal[]>(["/api/deals"]);
+      queryClient.setQueryData<Deal[]>(["/api/deals"], (current) =>
+        current?.map((candidate) => (candidate.id === deal.id ? { ...candidate, stageId } : candidate)),
+      );
+      return { previous };
+    },
+    onError: (error: Error, _variables, context) => {
+      queryClient.setQueryData(["/api/deals"], context?.previous);
+      toast({ title: "Failed to move deal", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/deals"] });
+    },
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
       return apiRequest("DELETE", `/api/deals/${id}`);
@@ -183,22 +253,35 @@ export default function DealsPage() {
       name: deal.name,
       clientCompanyId: deal.clientCompanyId || "",
       value: deal.value?.toString() || "",
-      stage: deal.stage,
-      probability: deal.probability || 0,
+      pipelineId: deal.pipelineId,
+      stageId: deal.stageId,
       description: deal.description || "",
       notes: deal.notes || "",
     });
     setIsDialogOpen(true);
   };
 
+  const resetForm = () =>
+    form.reset({
+      name: "",
+      clientCompanyId: "",
+      value: "",
+      pipelineId: selectedPipeline?.id ?? "",
+      stageId: entryStageId(selectedPipeline),
+      description: "",
+      notes: "",
+    });
+
   const handleDialogClose = () => {
     setIsDialogOpen(false);
     setEditingDeal(null);
-    form.reset();
+    resetForm();
   };
 
-  const filteredDeals = deals?.filter((deal) =>
-    deal.name.toLowerCase().includes(searchQuery.toLowerCase()),
+  const filteredDeals = deals?.filter(
+    (deal) =>
+      deal.pipelineId === selectedPipeline?.id &&
+      deal.name.toLowerCase().includes(searchQuery.toLowerCase()),
   );
 
   const columns = [
@@ -229,7 +312,11 @@ export default function DealsPage() {
     },
     {
       header: "Stage",
-      accessor: (deal: Deal) => <StatusBadge status={deal.stage} />,
+      accessor: (deal: Deal) => <span className="font-medium">{stagesById.get(deal.stageId)?.name ?? "-"}</span>,
+    },
+    {
+      header: "Status",
+      accessor: (deal: Deal) => <StatusBadge status={deal.status as DealStatus} />,
     },
     {
       header: "Probability",
@@ -271,73 +358,32 @@ export default function DealsPage() {
         title="Deals"
         description="Track your sales pipeline"
         actions={
-          <Dialog open={isDialogOpen} onOpenChange={handleDialogClose}>
-            <DialogTrigger asChild>
-              <Button onClick={() => setIsDialogOpen(true)} data-testid="button-add-deal">
-                <Plus className="h-4 w-4 mr-2" />
-                Add Deal
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-lg">
-              <DialogHeader>
-                <DialogTitle>{editingDeal ? "Edit Deal" : "Add New Deal"}</DialogTitle>
-              </DialogHeader>
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                  <FormField
-                    control={form.control}
-                    name="name"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Deal Name *</FormLabel>
-                        <FormControl>
-                          <Input
-                            placeholder="Website Redesign"
-                            {...field}
-                            data-testid="input-deal-name"
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="clientCompanyId"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Client</FormLabel>
-                        <Select onValueChange={field.onChange} value={field.value}>
-                          <FormControl>
-                            <SelectTrigger data-testid="select-deal-client">
-                              <SelectValue placeholder="Select a client" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {clients?.map((client) => (
-                              <SelectItem key={client.id} value={client.id}>
-                                {client.name}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <div className="grid grid-cols-2 gap-4">
+          <>
+            <ExportMenu entityType="deals" />
+            <Dialog open={isDialogOpen} onOpenChange={handleDialogClose}>
+              <DialogTrigger asChild>
+                <Button onClick={() => setIsDialogOpen(true)} data-testid="button-add-deal">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Deal
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-lg">
+                <DialogHeader>
+                  <DialogTitle>{editingDeal ? "Edit Deal" : "Add New Deal"}</DialogTitle>
+                </DialogHeader>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
                     <FormField
                       control={form.control}
-                      name="value"
+                      name="name"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Value ($)</FormLabel>
+                          <FormLabel>Deal Name *</FormLabel>
                           <FormControl>
                             <Input
-                              type="number"
-                              placeholder="10000"
+                              placeholder="Website Redesign"
                               {...field}
-                              data-testid="input-deal-value"
+                              data-testid="input-deal-name"
                             />
                           </FormControl>
                           <FormMessage />
@@ -346,20 +392,20 @@ export default function DealsPage() {
                     />
                     <FormField
                       control={form.control}
-                      name="stage"
+                      name="clientCompanyId"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Stage</FormLabel>
+                          <FormLabel>Client</FormLabel>
                           <Select onValueChange={field.onChange} value={field.value}>
                             <FormControl>
-                              <SelectTrigger data-testid="select-deal-stage">
-                                <SelectValue />
+                              <SelectTrigger data-testid="select-deal-client">
+                                <SelectValue placeholder="Select a client" />
                               </SelectTrigger>
                             </FormControl>
                             <SelectContent>
-                              {stages.map((stage) => (
-                                <SelectItem key={stage.value} value={stage.value}>
-                                  {stage.label}
+                              {clients?.map((client) => (
+                                <SelectItem key={client.id} value={client.id}>
+                                  {client.name}
                                 </SelectItem>
                               ))}
                             </SelectContent>
@@ -368,46 +414,188 @@ export default function DealsPage() {
                         </FormItem>
                       )}
                     />
-                  </div>
-                  <FormField
-                    control={form.control}
-                    name="description"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Description</FormLabel>
-                        <FormControl>
-                          <Textarea
-                            placeholder="Describe the deal..."
-                            className="resize-none"
-                            {...field}
-                            data-testid="input-deal-description"
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="value"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Value ($)</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                placeholder="10000"
+                                {...field}
+                                data-testid="input-deal-value"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="pipelineId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Pipeline</FormLabel>
+                            <Select
+                              onValueChange={(value) => {
+                                field.onChange(value);
+                                form.setValue(
+                                  "stageId",
+                                  entryStageId(pipelines?.find((pipeline) => pipeline.id === value)),
+                                );
+                              }}
+                              value={field.value}
+                            >
+                              <FormControl>
+                                <SelectTrigger data-testid="select-deal-pipeline">
+                                  <SelectValue placeholder="Select a pipeline" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {pipelines?.map((pipeline) => (
+                                  <SelectItem key={pipeline.id} value={pipeline.id}>
+                                    {pipeline.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="stageId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Stage</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger data-testid="select-deal-stage">
+                                  <SelectValue placeholder="Select a stage" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {formPipeline?.stages.map((stage) => (
+                                  <SelectItem key={stage.id} value={stage.id}>
+                                    {stage.name} ({stage.probability}%)
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <FormField
+                      control={form.control}
+                      name="description"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Description</FormLabel>
+                          <FormControl>
+                            <Textarea
+                              placeholder="Describe the deal..."
+                              className="resize-none"
+                              {...field}
+                              data-testid="input-deal-description"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {editingDeal && stageHistory && stageHistory.length > 0 && (
+                      <div className="space-y-1 text-sm" data-testid="list-deal-stage-history">
+                        <p className="font-medium">Stage history</p>
+                        {stageHistory.map((transition) => (
+                          <p key={transition.id} className="text-muted-foreground">
+                            {transition.fromStageId
+                              ? `${stagesById.get(transition.fromStageId)?.name ?? "Removed stage"} → `
+                              : "Created in "}
+                            {transition.toStageId
+                              ? (stagesById.get(transition.toStageId)?.name ?? "Removed stage")
+                              : "Removed stage"}
+                            {" · "}
+                            {new Date(transition.movedAt).toLocaleString()}
+                          </p>
+                        ))}
+                      </div>
                     )}
-                  />
-                  <div className="flex justify-end gap-2 pt-4">
-                    <Button type="button" variant="outline" onClick={handleDialogClose}>
-                      Cancel
-                    </Button>
-                    <Button
-                      type="submit"
-                      disabled={createMutation.isPending || updateMutation.isPending}
-                      data-testid="button-save-deal"
-                    >
-                      {createMutation.isPending || updateMutation.isPending ? "Saving..." : "Save"}
-                    </Button>
-                  </div>
-                </form>
-              </Form>
-            </DialogContent>
-          </Dialog>
+                    <div className="flex justify-end gap-2 pt-4">
+                      <Button type="button" variant="outline" onClick={handleDialogClose}>
+                        Cancel
+                      </Button>
+                      <Button
+                        type="submit"
+                        disabled={createMutation.isPending || updateMutation.isPending}
+                        data-testid="button-save-deal"
+                      >
+                        {createMutation.isPending || updateMutation.isPending ? "Saving..." : "Save"}
+                      </Button>
+                    </div>
+                  </form>
+                </Form>
+              </DialogContent>
+            </Dialog>
+          </>
         }
       />
 
-      <div className="mb-6">
-        <div className="relative max-w-sm">
+      <div className="mb-6 flex flex-wrap items-center gap-2">
+        <Select value={selectedPipeline?.id ?? ""} onValueChange={setSelectedPipelineId}>
+          <SelectTrigger className="w-56" data-testid="select-pipeline">
+            <SelectValue placeholder="Pipeline" />
+          </SelectTrigger>
+          <SelectContent>
+            {pipelines?.map((pipeline) => (
+              <SelectItem key={pipeline.id} value={pipeline.id}>
+                {pipeline.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => setPipelineDialog({ pipeline: selectedPipeline ?? null })}
+          disabled={!selectedPipeline}
+          title="Edit pipeline"
+          data-testid="button-edit-pipeline"
+        >
+          <Settings2 className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" onClick={() => setPipelineDialog({ pipeline: null })} data-testid="button-add-pipeline">
+          <Plus className="h-4 w-4 mr-2" />
+          New Pipeline
+        </Button>
+        <div className="flex rounded-md border">
+          <Button
+            variant={view === "board" ? "secondary" : "ghost"}
+            size="icon"
+            onClick={() => setView("board")}
+            title="Board"
+            data-testid="button-view-board"
+          >
+            <LayoutGrid className="h-4 w-4" />
+          </Button>
+          <Button
+            variant={view === "table" ? "secondary" : "ghost"}
+            size="icon"
+            onClick={() => setView("table")}
+            title="Table"
+            data-testid="button-view-table"
+          >
+            <List className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="relative max-w-sm flex-1">
           <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
           <Input
             type="search"
@@ -432,6 +620,15 @@ export default function DealsPage() {
             </Button>
           }
         />
+      ) : view === "board" && selectedPipeline ? (
+        <DealsBoard
+          pipeline={selectedPipeline}
+          deals={filteredDeals || []}
+          clients={clients}
+          isLoading={isLoading}
+          onMove={(deal, stageId) => moveMutation.mutate({ deal, stageId })}
+          onOpen={handleEdit}
+        />
       ) : (
         <DataTable
           columns={columns}
@@ -439,9 +636,16 @@ export default function DealsPage() {
           isLoading={isLoading}
           onRowClick={(deal) => setLocation(`/deals/${deal.id}`)}
           getRowKey={(deal) => deal.id}
-          emptyMessage="No deals found"
+          emptyMessage="No deals in this pipeline"
         />
       )}
+
+      <PipelineSettingsDialog
+        open={pipelineDialog !== null}
+        onOpenChange={(open) => !open && setPipelineDialog(null)}
+        pipeline={pipelineDialog?.pipeline ?? null}
+        onSaved={(pipeline) => setSelectedPipelineId(pipeline.id)}
+      />
     </div>
   );
 }
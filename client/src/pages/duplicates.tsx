@@ -0,0 +1,292 @@
+// AI-META-BEGIN
+// AI-META: Page component - duplicates.tsx
+// OWNERSHIP: client/pages
+// ENTRYPOINTS: app router
+// DEPENDENCIES: react, react-query, ui
+// DANGER: Merging deletes the duplicate record
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * Duplicate review queue.
+ *
+ * Lists likely duplicate clients and contacts found by the server (same website domain or
+ * email, same or similar normalized name). For each pair the user keeps one record, which
+ * takes over everything linked to the other before the other is deleted, or marks the pair
+ * as not duplicates so it stops being suggested. The older record is shown first.
+ */
+
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Building2, GitMerge, Users, X } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { EmptyState } from "@/components/empty-state";
+import { PageHeader } from "@/components/page-header";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ClientCompany, Contact } from "@shared/schema";
+
+type EntityType = "clients" | "contacts";
+
+type DuplicateReason = "website" | "name" | "name_domain" | "similar_name" | "email" | "phone";
+
+interface DuplicatePair<T> {
+  recordIds: [string, string];
+  score: number;
+  reasons: DuplicateReason[];
+  records: [T, T];
+}
+
+const reasonLabels: Record<DuplicateReason, string> = {
+  website: "Same website",
+  name: "Same name",
+  name_domain: "Name matches website",
+  similar_name: "Similar name",
+  email: "Same email",
+  phone: "Same phone",
+};
+
+const contactName = (contact: Contact) => `${contact.firstName} ${contact.lastName}`;
+
+function ClientDetails({ client }: { client: ClientCompany }) {
+  return (
+    <>
+      <p className="font-medium">{client.name}</p>
+      <p className="text-sm text-muted-foreground">{client.website || "No website"}</p>
+      <p className="text-sm text-muted-foreground">
+        {[client.industry, client.city, client.country].filter(Boolean).join(" · ") || "-"}
+      </p>
+    </>
+  );
+}
+
+function ContactDetails({ contact }: { contact: Contact }) {
+  return (
+    <>
+      <p className="font-medium">{contactName(contact)}</p>
+      <p className="text-sm text-muted-foreground">{contact.email || "No email"}</p>
+      <p className="text-sm text-muted-foreground">
+        {[contact.title, contact.phone].filter(Boolean).join(" · ") || "-"}
+      </p>
+    </>
+  );
+}
+
+interface PendingMerge {
+  entityType: EntityType;
+  survivorId: string;
+  duplicateId: string;
+  survivorName: string;
+  duplicateName: string;
+}
+
+function DuplicateList<T extends ClientCompany | Contact>({
+  entityType,
+  nameOf,
+  renderDetails,
+  onMerge,
+}: {
+  entityType: EntityType;
+  nameOf: (record: T) => string;
+  renderDetails: (record: T) => JSX.Element;
+  onMerge: (merge: PendingMerge) => void;
+}) {
+  const { toast } = useToast();
+  const { data: pairs, isLoading } = useQuery<DuplicatePair<T>[]>({
+    queryKey: [`/api/duplicates/${entityType}`],
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (recordIds: [string, string]) => {
+      await apiRequest("POST", `/api/duplicates/${entityType}/dismiss`, { recordIds });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/duplicates/${entityType}`] });
+      toast({ title: "Marked as not duplicates" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to dismiss", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-40 w-full" />
+        <Skeleton className="h-40 w-full" />
+      </div>
+    );
+  }
+
+  if (!pairs || pairs.length === 0) {
+    return (
+      <EmptyState
+        icon={GitMerge}
+        title="No duplicates found"
+        description={`No ${entityType} look like duplicates of each other.`}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {pairs.map((pair) => {
+        const pairKey = pair.recordIds.join(":");
+        return (
+          <Card key={pairKey} data-testid={`card-duplicate-${pairKey}`}>
+            <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+              <div className="flex flex-wrap items-center gap-2">
+                <CardTitle className="text-base">{Math.round(pair.score * 100)}% match</CardTitle>
+                {pair.reasons.map((reason) => (
+                  <Badge key={reason} variant="secondary">
+                    {reasonLabels[reason]}
+                  </Badge>
+                ))}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={dismissMutation.isPending}
+                onClick={() => dismissMutation.mutate(pair.recordIds)}
+                data-testid={`button-dismiss-duplicate-${pairKey}`}
+              >
+                <X className="mr-2 h-4 w-4" />
+                Not duplicates
+              </Button>
+            </CardHeader>
+            <CardContent className="grid gap-4 md:grid-cols-2">
+              {pair.records.map((record, index) => {
+                const other = pair.records[1 - index];
+                return (
+                  <div key={record.id} className="flex flex-col gap-3 rounded-md border p-4">
+                    <div className="flex-1 space-y-1">
+                      {renderDetails(record)}
+                      <p className="text-xs text-muted-foreground">
+                        Added {format(new Date(record.createdAt), "MMM d, yyyy")}
+                      </p>
+                    </div>
+                    <Button
+                      variant={index === 0 ? "default" : "outline"}
+                      size="sm"
+                      onClick={() =>
+                        onMerge({
+                          entityType,
+                          survivorId: record.id,
+                          duplicateId: other.id,
+                          survivorName: nameOf(record),
+                          duplicateName: nameOf(other),
+                        })
+                      }
+                      data-testid={`button-keep-${record.id}`}
+                    >
+                      <GitMerge className="mr-2 h-4 w-4" />
+                      Keep this one
+                    </Button>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
+
+export default function DuplicatesPage() {
+  const { toast } = useToast();
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+
+  const mergeMutation = useMutation({
+    mutationFn: async (merge: PendingMerge) => {
+      await apiRequest("POST", `/api/${merge.entityType}/${merge.survivorId}/merge`, {
+        duplicateId: merge.duplicateId,
+      });
+    },
+    onSuccess: (_, merge) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/duplicates/${merge.entityType}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/${merge.entityType}`] });
+      toast({ title: `Merged ${merge.duplicateName} into ${merge.survivorName}` });
+      setPendingMerge(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to merge", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="p-6">
+      <PageHeader title="Duplicates" description="Review and merge likely duplicate clients and contacts" />
+
+      <Tabs defaultValue="clients">
+        <TabsList className="mb-4">
+          <TabsTrigger value="clients" data-testid="tab-duplicate-clients">
+            <Building2 className="mr-2 h-4 w-4" />
+            Clients
+          </TabsTrigger>
+          <TabsTrigger value="contacts" data-testid="tab-duplicate-contacts">
+            <Users className="mr-2 h-4 w-4" />
+            Contacts
+          </TabsTrigger>
+        </TabsList>
+        <TabsContent value="clients">
+          <DuplicateList<ClientCompany>
+            entityType="clients"
+            nameOf={(client) => client.name}
+            renderDetails={(client) => <ClientDetails client={client} />}
+            onMerge={setPendingMerge}
+          />
+        </TabsContent>
+        <TabsContent value="contacts">
+          <DuplicateList<Contact>
+            entityType="contacts"
+            nameOf={contactName}
+            renderDetails={(contact) => <ContactDetails contact={contact} />}
+            onMerge={setPendingMerge}
+          />
+        </TabsContent>
+      </Tabs>
+
+      <AlertDialog open={pendingMerge !== null} onOpenChange={(open) => !open && setPendingMerge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge {pendingMerge?.duplicateName}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Everything linked to {pendingMerge?.duplicateName} moves to {pendingMerge?.survivorName}, its details
+              fill any blanks, and {pendingMerge?.duplicateName} is deleted. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={mergeMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={mergeMutation.isPending}
+              onClick={(event) => {
+                event.preventDefault();
+                if (pendingMerge) mergeMutation.mutate(pendingMerge);
+              }}
+              data-testid="button-confirm-merge"
+            >
+              Merge
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -20,7 +20,7 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
-import { Plus, Briefcase, Search, MoreHorizontal, Pencil, Trash2 } from "lucide-react";
+import { Plus, Briefcase, Search, MoreHorizontal, Pencil, Trash2, Clock, Wallet, TrendingUp } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -53,9 +53,12 @@ import {
 } from "@/components/ui/form";
 import { Textarea } from "@/components/ui/textarea";
 import { PageHeader } from "@/components/page-header";
+import { ExportMenu } from "@/components/export-menu";
 import { DataTable } from "@/components/data-table";
 import { EmptyState } from "@/components/empty-state";
 import { StatusBadge } from "@/components/status-badge";
+import { InvoiceFromTimeDialog } from "@/components/invoice-from-time-dialog";
+import { InvoiceFromExpensesDialog } from "@/components/invoice-from-expenses-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -68,6 +71,7 @@ const engagementFormSchema = z.object({
   clientCompanyId: z.string().optional(),
   status: z.enum(["active", "on_hold", "completed", "cancelled"]),
   totalValue: z.string().optional(),
+  workType: z.string().max(100).optional(),
   description: z.string().optional(),
 });
 
@@ -86,6 +90,8 @@ export default function EngagementsPage() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [editingEngagement, setEditingEngagement] = useState<Engagement | null>(null);
+  const [invoicingEngagement, setInvoicingEngagement] = useState<Engagement | null>(null);
+  const [expenseInvoicingEngagement, setExpenseInvoicingEngagement] = useState<Engagement | null>(null);
 
   const form = useForm<EngagementFormValues>({
     resolver: zodResolver(engagementFormSchema),
@@ -94,6 +100,7 @@ export default function EngagementsPage() {
       clientCompanyId: "",
       status: "active",
       totalValue: "",
+      workType: "",
       description: "",
     },
   });
@@ -112,6 +119,7 @@ export default function EngagementsPage() {
         ...data,
         // Convert input strings to API-friendly shapes.
         totalValue: data.totalValue ? parseFloat(data.totalValue) : null,
+        workType: data.workType?.trim() || null,
         clientCompanyId: data.clientCompanyId || null,
       });
     },
@@ -131,6 +139,7 @@ export default function EngagementsPage() {
       return apiRequest("PATCH", `/api/engagements/${data.id}`, {
         ...data,
         totalValue: data.totalValue ? parseFloat(data.totalValue) : null,
+        workType: data.workType?.trim() || null,
         clientCompanyId: data.clientCompanyId || null,
       });
     },
@@ -174,6 +183,7 @@ export default function EngagementsPage() {
       clientCompanyId: engagement.clientCompanyId || "",
       status: engagement.status,
       totalValue: engagement.totalValue?.toString() || "",
+      workType: engagement.workType || "",
       description: engagement.description || "",
     });
     setIsDialogOpen(true);
@@ -245,6 +255,27 @@ export default function EngagementsPage() {
               <Pencil className="h-4 w-4 mr-2" />
               Edit
             </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => setInvoicingEngagement(engagement)}
+              data-testid={`button-invoice-time-${engagement.id}`}
+            >
+              <Clock className="h-4 w-4 mr-2" />
+              Invoice Unbilled Time
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => setExpenseInvoicingEngagement(engagement)}
+              data-testid={`button-invoice-expenses-${engagement.id}`}
+            >
+              <Wallet className="h-4 w-4 mr-2" />
+              Invoice Billable Expenses
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => setLocation(`/profitability?engagement=${engagement.id}`)}
+              data-testid={`button-engagement-profitability-${engagement.id}`}
+            >
+              <TrendingUp className="h-4 w-4 mr-2" />
+              View Profitability
+            </DropdownMenuItem>
             <DropdownMenuItem
               className="text-destructive"
               onClick={() => deleteMutation.mutate(engagement.id)}
@@ -264,75 +295,34 @@ export default function EngagementsPage() {
         title="Engagements"
         description="Manage your client engagements"
         actions={
-          <Dialog open={isDialogOpen} onOpenChange={handleDialogClose}>
-            <DialogTrigger asChild>
-              <Button onClick={() => setIsDialogOpen(true)} data-testid="button-add-engagement">
-                <Plus className="h-4 w-4 mr-2" />
-                New Engagement
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-lg">
-              <DialogHeader>
-                <DialogTitle>
-                  {editingEngagement ? "Edit Engagement" : "New Engagement"}
-                </DialogTitle>
-              </DialogHeader>
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                  <FormField
-                    control={form.control}
-                    name="name"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Engagement Name *</FormLabel>
-                        <FormControl>
-                          <Input
-                            placeholder="Website Redesign Project"
-                            {...field}
-                            data-testid="input-engagement-name"
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="clientCompanyId"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Client</FormLabel>
-                        <Select onValueChange={field.onChange} value={field.value}>
-                          <FormControl>
-                            <SelectTrigger data-testid="select-engagement-client">
-                              <SelectValue placeholder="Select a client" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {clients?.map((client) => (
-                              <SelectItem key={client.id} value={client.id}>
-                                {client.name}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <div className="grid grid-cols-2 gap-4">
+          <>
+            <ExportMenu entityType="engagements" />
+            <Dialog open={isDialogOpen} onOpenChange={handleDialogClose}>
+              <DialogTrigger asChild>
+                <Button onClick={() => setIsDialogOpen(true)} data-testid="button-add-engagement">
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Engagement
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-lg">
+                <DialogHeader>
+                  <DialogTitle>
+                    {editingEngagement ? "Edit Engagement" : "New Engagement"}
+                  </DialogTitle>
+                </DialogHeader>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
                     <FormField
                       control={form.control}
-                      name="totalValue"
+                      name="name"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Total Value ($)</FormLabel>
+                          <FormLabel>Engagement Name *</FormLabel>
                           <FormControl>
                             <Input
-                              type="number"
-                              placeholder="25000"
+                              placeholder="Website Redesign Project"
                               {...field}
-                              data-testid="input-engagement-value"
+                              data-testid="input-engagement-name"
                             />
                           </FormControl>
                           <FormMessage />
@@ -341,20 +331,20 @@ export default function EngagementsPage() {
                     />
                     <FormField
                       control={form.control}
-                      name="status"
+                      name="clientCompanyId"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Status</FormLabel>
+                          <FormLabel>Client</FormLabel>
                           <Select onValueChange={field.onChange} value={field.value}>
                             <FormControl>
-                              <SelectTrigger data-testid="select-engagement-status">
-                                <SelectValue />
+                              <SelectTrigger data-testid="select-engagement-client">
+                                <SelectValue placeholder="Select a client" />
                               </SelectTrigger>
                             </FormControl>
                             <SelectContent>
-                              {statusOptions.map((status) => (
-                                <SelectItem key={status.value} value={status.value}>
-                                  {status.label}
+                              {clients?.map((client) => (
+                                <SelectItem key={client.id} value={client.id}>
+                                  {client.name}
                                 </SelectItem>
                               ))}
                             </SelectContent>
@@ -363,41 +353,102 @@ export default function EngagementsPage() {
                         </FormItem>
                       )}
                     />
-                  </div>
-                  <FormField
-                    control={form.control}
-                    name="description"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Description</FormLabel>
-                        <FormControl>
-                          <Textarea
-                            placeholder="Describe the engagement..."
-                            className="resize-none"
-                            {...field}
-                            data-testid="input-engagement-description"
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <div className="flex justify-end gap-2 pt-4">
-                    <Button type="button" variant="outline" onClick={handleDialogClose}>
-                      Cancel
-                    </Button>
-                    <Button
-                      type="submit"
-                      disabled={createMutation.isPending || updateMutation.isPending}
-                      data-testid="button-save-engagement"
-                    >
-                      {createMutation.isPending || updateMutation.isPending ? "Saving..." : "Save"}
-                    </Button>
-                  </div>
-                </form>
-              </Form>
-            </DialogContent>
-          </Dialog>
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="totalValue"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Total Value ($)</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                placeholder="25000"
+                                {...field}
+                                data-testid="input-engagement-value"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="status"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Status</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger data-testid="select-engagement-status">
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {statusOptions.map((status) => (
+                                  <SelectItem key={status.value} value={status.value}>
+                                    {status.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <FormField
+                      control={form.control}
+                      name="workType"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Type of Work</FormLabel>
+                          <FormControl>
+                            <Input
+                              placeholder="Website build, Retainer, Audit..."
+                              {...field}
+                              data-testid="input-engagement-work-type"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="description"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Description</FormLabel>
+                          <FormControl>
+                            <Textarea
+                              placeholder="Describe the engagement..."
+                              className="resize-none"
+                              {...field}
+                              data-testid="input-engagement-description"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <div className="flex justify-end gap-2 pt-4">
+                      <Button type="button" variant="outline" onClick={handleDialogClose}>
+                        Cancel
+                      </Button>
+                      <Button
+                        type="submit"
+                        disabled={createMutation.isPending || updateMutation.isPending}
+                        data-testid="button-save-engagement"
+                      >
+                        {createMutation.isPending || updateMutation.isPending ? "Saving..." : "Save"}
+                      </Button>
+                    </div>
+                  </form>
+                </Form>
+              </DialogContent>
+            </Dialog>
+          </>
         }
       />
 
@@ -437,6 +488,12 @@ export default function EngagementsPage() {
           emptyMessage="No engagements found"
         />
       )}
+
+      <InvoiceFromTimeDialog engagement={invoicingEngagement} onClose={() => setInvoicingEngagement(null)} />
+      <InvoiceFromExpensesDialog
+        engagement={expenseInvoicingEngagement}
+        onClose={() => setExpenseInvoicingEngagement(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,713 @@
+// AI-META-BEGIN
+// AI-META: Page component - expenses.tsx
+// OWNERSHIP: client/pages
+// ENTRYPOINTS: app router
+// DEPENDENCIES: react, components
+// DANGER: Review data fetching logic; approved expenses become reimbursable and invoiceable
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * Staff expenses.
+ *
+ * Lists the signed-in user's expenses, lets them record new ones with a receipt (image or
+ * PDF) and submit them for approval. Admins and owners also see the expenses awaiting review
+ * and what each employee is owed, and record reimbursements. Billable expenses are invoiced
+ * from their engagement.
+ *
+ * Dates are calendar days: they are sent as `YYYY-MM-DD` and displayed in UTC so they do
+ * not shift with the browser's time zone.
+ */
+
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { FileText, Paperclip, Plus, Send, Trash2, Wallet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { PageHeader } from "@/components/page-header";
+import { EmptyState } from "@/components/empty-state";
+import { invalidateExpenseQueries } from "@/components/invoice-from-expenses-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest } from "@/lib/queryClient";
+import { EXPENSE_CATEGORIES, type Engagement, type Expense, type ExpenseStatus } from "@shared/schema";
+
+const NO_ENGAGEMENT = "none";
+
+const expenseFormSchema = z.object({
+  category: z.enum(EXPENSE_CATEGORIES),
+  description: z.string().trim().min(1, "Description is required"),
+  expenseDate: z.string().min(1, "Date is required"),
+  amount: z.string().refine((value) => Number(value) > 0, "Enter an amount"),
+  currency: z
+    .string()
+    .trim()
+    .refine((value) => value === "" || /^[A-Za-z]{3}$/.test(value), "Use a 3-letter code"),
+  engagementId: z.string(),
+  billable: z.boolean(),
+  reimbursable: z.boolean(),
+});
+
+type ExpenseFormValues = z.infer<typeof expenseFormSchema>;
+
+type SubmittedExpense = Expense & { userName: string };
+
+interface ReimbursementsResponse {
+  baseCurrency: string;
+  employees: {
+    userId: string;
+    userName: string;
+    pendingAmount: number;
+    owedAmount: number;
+    owedCount: number;
+    reimbursedAmount: number;
+    unconverted: number;
+  }[];
+}
+
+const statusVariants: Record<ExpenseStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  draft: "outline",
+  submitted: "secondary",
+  approved: "default",
+  rejected: "destructive",
+};
+
+const formatAmount = (value: number | string) =>
+  Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const formatDay = (date: string | Date, pattern = "MMM d, yyyy") => {
+  const value = new Date(date);
+  // Calendar dates arrive as UTC midnight
+  return format(new Date(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()), pattern);
+};
+const statusLabel = (expense: Expense) => {
+  if (expense.invoiceId) return "invoiced";
+  if (expense.reimbursedAt) return "reimbursed";
+  return expense.status;
+};
+
+// Multipart upload: receipts are images or PDFs up to 10MB
+async function uploadReceipt(expenseId: string, file: File) {
+  const formData = new FormData();
+  formData.append("file", file);
+
+  const response = await fetch(`/api/expenses/${expenseId}/receipt`, {
+    method: "POST",
+    credentials: "include",
+    body: formData,
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error ?? "Failed to upload receipt");
+  return body as Expense;
+}
+
+function ReceiptLink({ expense }: { expense: Expense }) {
+  if (!expense.receiptFileId) return null;
+  return (
+    <a
+      href={`/api/expenses/${expense.id}/receipt`}
+      target="_blank"
+      rel="noreferrer"
+      className="inline-flex items-center text-sm text-primary hover:underline"
+      data-testid={`link-receipt-${expense.id}`}
+    >
+      <FileText className="h-4 w-4 mr-1" />
+      Receipt
+    </a>
+  );
+}
+
+function SubmittedExpensesCard() {
+  const { toast } = useToast();
+  // Only admins and owners get a list; for everyone else the request is refused and the card stays hidden
+  const { data: submitted, isError } = useQuery<SubmittedExpense[]>({
+    queryKey: ["/api/expenses/submitted"],
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ expense, decision }: { expense: Expense; decision: "approve" | "reject" }) => {
+      const note = decision === "reject" ? window.prompt("Reason for rejecting (optional)") : undefined;
+      if (note === null) return null;
+      return apiRequest("POST", `/api/expenses/${expense.id}/${decision}`, { note: note || undefined });
+    },
+    onSuccess: (response, { decision }) => {
+      if (!response) return;
+      invalidateExpenseQueries();
+      toast({ title: decision === "approve" ? "Expense approved" : "Expense rejected" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to review expense", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isError || !submitted?.length) return null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Awaiting Approval</CardTitle>
+        <CardDescription>Approved billable expenses can be invoiced from their engagement.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Person</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead>Receipt</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {submitted.map((expense) => (
+              <TableRow key={expense.id}>
+                <TableCell className="font-medium">{expense.userName}</TableCell>
+                <TableCell>{formatDay(expense.expenseDate)}</TableCell>
+                <TableCell>
+                  <p>{expense.description}</p>
+                  <p className="text-xs text-muted-foreground capitalize">
+                    {expense.category}
+                    {expense.billable ? " - billable" : ""}
+                  </p>
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {formatAmount(expense.amount)} {expense.currency ?? ""}
+                </TableCell>
+                <TableCell>
+                  <ReceiptLink expense={expense} />
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => reviewMutation.mutate({ expense, decision: "approve" })}
+                      disabled={reviewMutation.isPending}
+                      data-testid={`button-approve-expense-${expense.id}`}
+                    >
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => reviewMutation.mutate({ expense, decision: "reject" })}
+                      disabled={reviewMutation.isPending}
+                      data-testid={`button-reject-expense-${expense.id}`}
+                    >
+                      Reject
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ReimbursementsCard() {
+  const { toast } = useToast();
+  // Admins and owners only, like the review queue
+  const { data, isError } = useQuery<ReimbursementsResponse>({
+    queryKey: ["/api/expenses/reimbursements"],
+  });
+
+  const reimburseMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const reference = window.prompt("Payment reference (optional)");
+      if (reference === null) return null;
+      const res = await apiRequest("GET", `/api/expenses?userId=${encodeURIComponent(userId)}&status=approved`);
+      const approved = (await res.json()) as Expense[];
+      const owed = approved.filter((expense) => expense.reimbursable && !expense.reimbursedAt);
+      return apiRequest("POST", "/api/expenses/reimburse", {
+        expenseIds: owed.map((expense) => expense.id),
+        reference: reference || undefined,
+      });
+    },
+    onSuccess: (response) => {
+      if (!response) return;
+      invalidateExpenseQueries();
+      toast({ title: "Reimbursement recorded" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to record reimbursement", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isError || !data?.employees.length) return null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Reimbursements</CardTitle>
+        <CardDescription>Approved out-of-pocket expenses per employee, in {data.baseCurrency}.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Person</TableHead>
+              <TableHead className="text-right">Awaiting approval</TableHead>
+              <TableHead className="text-right">Owed</TableHead>
+              <TableHead className="text-right">Reimbursed</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.employees.map((employee) => (
+              <TableRow key={employee.userId} data-testid={`row-reimbursement-${employee.userId}`}>
+                <TableCell className="font-medium">
+                  {employee.userName}
+                  {employee.unconverted > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {employee.unconverted} without an exchange rate not included
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell className="text-right font-mono">{formatAmount(employee.pendingAmount)}</TableCell>
+                <TableCell className="text-right font-mono font-semibold">{formatAmount(employee.owedAmount)}</TableCell>
+                <TableCell className="text-right font-mono">{formatAmount(employee.reimbursedAmount)}</TableCell>
+                <TableCell className="text-right">
+                  {employee.owedCount > 0 && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => reimburseMutation.mutate(employee.userId)}
+                      disabled={reimburseMutation.isPending}
+                      data-testid={`button-reimburse-${employee.userId}`}
+                    >
+                      Mark Reimbursed
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ExpensesPage() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [receiptFile, setReceiptFile] = useState<File | null>(null);
+  const [uploadingFor, setUploadingFor] = useState<string | null>(null);
+  const receiptInputRef = useRef<HTMLInputElement>(null);
+
+  const form = useForm<ExpenseFormValues>({
+    resolver: zodResolver(expenseFormSchema),
+    defaultValues: {
+      category: "travel",
+      description: "",
+      expenseDate: format(new Date(), "yyyy-MM-dd"),
+      amount: "",
+      currency: "",
+      engagementId: NO_ENGAGEMENT,
+      billable: false,
+      reimbursable: true,
+    },
+  });
+
+  const { data: expenses, isLoading } = useQuery<Expense[]>({
+    queryKey: ["/api/expenses"],
+  });
+  const { data: engagements } = useQuery<Engagement[]>({
+    queryKey: ["/api/engagements"],
+  });
+
+  const selectedEngagementId = useWatch({ control: form.control, name: "engagementId" });
+  const engagementNames = new Map(engagements?.map((engagement) => [engagement.id, engagement.name]));
+
+  const createMutation = useMutation({
+    mutationFn: async (values: ExpenseFormValues) => {
+      const res = await apiRequest("POST", "/api/expenses", {
+        ...values,
+        currency: values.currency ? values.currency.toUpperCase() : null,
+        amount: parseFloat(values.amount),
+        engagementId: values.engagementId === NO_ENGAGEMENT ? null : values.engagementId,
+      });
+      const expense = (await res.json()) as Expense;
+      if (receiptFile) await uploadReceipt(expense.id, receiptFile);
+      return expense;
+    },
+    onSuccess: () => {
+      invalidateExpenseQueries();
+      setIsDialogOpen(false);
+      setReceiptFile(null);
+      form.reset({ ...form.getValues(), description: "", amount: "" });
+      toast({ title: "Expense recorded" });
+    },
+    onError: (error: Error) => {
+      // The expense may exist without its receipt; refresh so it shows up either way
+      invalidateExpenseQueries();
+      toast({ title: "Failed to record expense", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const receiptMutation = useMutation({
+    mutationFn: async ({ expenseId, file }: { expenseId: string; file: File }) => uploadReceipt(expenseId, file),
+    onSuccess: () => {
+      invalidateExpenseQueries();
+      toast({ title: "Receipt attached" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to upload receipt", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("POST", `/api/expenses/${id}/submit`);
+    },
+    onSuccess: () => {
+      invalidateExpenseQueries();
+      toast({ title: "Expense submitted for approval" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to submit expense", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/expenses/${id}`);
+    },
+    onSuccess: () => {
+      invalidateExpenseQueries();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete expense", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const chooseReceipt = (expenseId: string) => {
+    setUploadingFor(expenseId);
+    receiptInputRef.current?.click();
+  };
+
+  return (
+    <div className="p-6">
+      <PageHeader
+        title="Expenses"
+        description="Record expenses with receipts and submit them for approval and reimbursement"
+        actions={
+          <Button onClick={() => setIsDialogOpen(true)} data-testid="button-new-expense">
+            <Plus className="h-4 w-4 mr-2" />
+            New Expense
+          </Button>
+        }
+      />
+
+      <SubmittedExpensesCard />
+      <ReimbursementsCard />
+
+      <input
+        ref={receiptInputRef}
+        type="file"
+        accept="image/jpeg,image/png,image/webp,application/pdf"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file && uploadingFor) receiptMutation.mutate({ expenseId: uploadingFor, file });
+          e.target.value = "";
+        }}
+      />
+
+      {isLoading && <p className="text-sm text-muted-foreground">Loading expenses...</p>}
+      {!isLoading && !expenses?.length && (
+        <EmptyState
+          icon={Wallet}
+          title="No expenses yet"
+          description="Record travel, materials and other costs so they are reimbursed and billed."
+        />
+      )}
+      {!!expenses?.length && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead>Engagement</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead>Receipt</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {expenses.map((expense) => {
+              const editable = !expense.invoiceId && (expense.status === "draft" || expense.status === "rejected");
+              return (
+                <TableRow key={expense.id} data-testid={`row-expense-${expense.id}`}>
+                  <TableCell>{formatDay(expense.expenseDate)}</TableCell>
+                  <TableCell>
+                    <p className="font-medium">{expense.description}</p>
+                    <p className="text-xs text-muted-foreground capitalize">
+                      {expense.category}
+                      {expense.billable ? " - billable" : ""}
+                      {expense.reimbursable ? "" : " - company paid"}
+                    </p>
+                    {expense.status === "rejected" && expense.reviewNote && (
+                      <p className="text-xs text-destructive">Rejected: {expense.reviewNote}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>{expense.engagementId ? engagementNames.get(expense.engagementId) : "-"}</TableCell>
+                  <TableCell className="text-right font-mono">
+                    {formatAmount(expense.amount)} {expense.currency ?? ""}
+                  </TableCell>
+                  <TableCell>
+                    <ReceiptLink expense={expense} />
+                    {editable && !expense.receiptFileId && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => chooseReceipt(expense.id)}
+                        disabled={receiptMutation.isPending}
+                        data-testid={`button-attach-receipt-${expense.id}`}
+                      >
+                        <Paperclip className="h-4 w-4 mr-1" />
+                        Attach
+                      </Button>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={statusVariants[expense.status as ExpenseStatus]} className="capitalize">
+                      {statusLabel(expense)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {editable && (
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => submitMutation.mutate(expense.id)}
+                          disabled={submitMutation.isPending}
+                          data-testid={`button-submit-expense-${expense.id}`}
+                        >
+                          <Send className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deleteMutation.mutate(expense.id)}
+                          data-testid={`button-delete-expense-${expense.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Expense</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((values) => createMutation.mutate(values))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="category"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Category</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger className="capitalize" data-testid="select-expense-category">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {EXPENSE_CATEGORIES.map((category) => (
+                            <SelectItem key={category} value={category} className="capitalize">
+                              {category}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="expenseDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-expense-date" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-expense-description" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="amount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Amount</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" min="0" {...field} data-testid="input-expense-amount" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="currency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Currency</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Base currency" maxLength={3} {...field} data-testid="input-expense-currency" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="engagementId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Engagement</FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        if (value === NO_ENGAGEMENT) form.setValue("billable", false);
+                      }}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-expense-engagement">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_ENGAGEMENT}>No engagement</SelectItem>
+                        {engagements?.map((engagement) => (
+                          <SelectItem key={engagement.id} value={engagement.id}>
+                            {engagement.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <div className="flex gap-6">
+                <FormField
+                  control={form.control}
+                  name="billable"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-2 space-y-0">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                          disabled={selectedEngagementId === NO_ENGAGEMENT}
+                          data-testid="checkbox-expense-billable"
+                        />
+                      </FormControl>
+                      <FormLabel>Bill to client</FormLabel>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="reimbursable"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-2 space-y-0">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                          data-testid="checkbox-expense-reimbursable"
+                        />
+                      </FormControl>
+                      <FormLabel>Paid personally (reimburse me)</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expense-receipt">Receipt</Label>
+                <Input
+                  id="expense-receipt"
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp,application/pdf"
+                  onChange={(e) => setReceiptFile(e.target.files?.[0] ?? null)}
+                  data-testid="input-expense-receipt"
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createMutation.isPending} data-testid="button-save-expense">
+                  Save
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
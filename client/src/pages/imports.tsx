@@ -0,0 +1,349 @@
+// AI-META-BEGIN
+// AI-META: Page component - imports.tsx
+// OWNERSHIP: client/pages
+// ENTRYPOINTS: app router
+// DEPENDENCIES: react, react-query, ui
+// DANGER: Bulk-creates records from uploaded files
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * CSV import wizard for clients, contacts and deals.
+ *
+ * 1. Pick what to import and upload a CSV; the server suggests a column for each field.
+ * 2. Adjust the column mapping; every change re-runs the dry-run preview.
+ * 3. Review the rows and their errors, download the error report if needed, and import the
+ *    valid rows. They are written in one transaction; the rest stay in the error report.
+ * Contacts and deals link to existing clients (and deals to existing contacts), so import
+ * clients first, then contacts, then deals.
+ */
+
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { AlertCircle, CheckCircle2, Download, Upload } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PageHeader } from "@/components/page-header";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+
+type EntityType = "clients" | "contacts" | "deals";
+
+const entityOptions: { value: EntityType; label: string }[] = [
+  { value: "clients", label: "Clients" },
+  { value: "contacts", label: "Contacts" },
+  { value: "deals", label: "Deals" },
+];
+
+interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+}
+
+type ColumnMapping = Record<string, string>;
+
+interface ImportPreview {
+  fields: ImportField[];
+  headers: string[];
+  mapping: ColumnMapping;
+  errors: string[];
+  rows: { line: number; fields: Record<string, string>; linkedTo: string | null; errors: string[] }[];
+  validCount: number;
+  errorCount: number;
+  errorReport: string | null;
+}
+
+interface ImportResult {
+  imported: number;
+  skipped: number;
+  errorReport: string | null;
+}
+
+const NOT_IMPORTED = "__none";
+// Rows shown in the preview table; the counts and error report cover the whole file
+const PREVIEW_ROWS = 200;
+
+// Multipart upload: import files can be larger than the JSON body limit
+async function postImport<T>(url: string, file: File, mapping?: ColumnMapping): Promise<T> {
+  const formData = new FormData();
+  formData.append("file", file);
+  if (mapping) formData.append("mapping", JSON.stringify(mapping));
+
+  const response = await fetch(url, { method: "POST", credentials: "include", body: formData });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const details: string[] = Array.isArray(body.details) ? body.details : [];
+    throw new Error([body.error ?? "Import failed", ...details.slice(0, 3)].join(". "));
+  }
+  return body as T;
+}
+
+function downloadErrorReport(csv: string, entityType: EntityType) {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${entityType}-import-errors.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ImportsPage() {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [entityType, setEntityType] = useState<EntityType>("clients");
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const previewMutation = useMutation({
+    mutationFn: ({ file, mapping }: { file: File; mapping?: ColumnMapping }) =>
+      postImport<ImportPreview>(`/api/imports/${entityType}/preview`, file, mapping),
+    onSuccess: (data) => {
+      setPreview(data);
+      setResult(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to read file", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: ({ file, mapping }: { file: File; mapping: ColumnMapping }) =>
+      postImport<ImportResult>(`/api/imports/${entityType}`, file, mapping),
+    onSuccess: (data) => {
+      setResult(data);
+      setPreview(null);
+      queryClient.invalidateQueries({ queryKey: [`/api/${entityType}`] });
+      toast({
+        title: `Imported ${data.imported} ${entityType}`,
+        description: data.skipped > 0 ? `${data.skipped} row(s) with errors skipped` : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    setResult(null);
+    if (fileInput.current) fileInput.current.value = "";
+  };
+
+  const updateMapping = (key: string, header: string) => {
+    if (!file || !preview) return;
+    const mapping = { ...preview.mapping };
+    if (header === NOT_IMPORTED) delete mapping[key];
+    else mapping[key] = header;
+    previewMutation.mutate({ file, mapping });
+  };
+
+  const mappedFields = preview?.fields.filter((field) => preview.mapping[field.key]) ?? [];
+  const busy = previewMutation.isPending || importMutation.isPending;
+
+  return (
+    <div className="p-6">
+      <PageHeader title="Import" description="Bulk import clients, contacts and deals from CSV" />
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>1. Choose a file</CardTitle>
+          <CardDescription>
+            The first row must hold the column names. Contacts and deals are linked to clients that already exist,
+            so import clients first, then contacts, then deals.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-end gap-3">
+          <div className="space-y-2">
+            <Label>Import</Label>
+            <Select
+              value={entityType}
+              onValueChange={(value) => {
+                setEntityType(value as EntityType);
+                reset();
+              }}
+            >
+              <SelectTrigger className="w-40" data-testid="select-import-entity">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {entityOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Input
+            ref={fileInput}
+            type="file"
+            accept=".csv,text/csv"
+            className="max-w-xs"
+            disabled={busy}
+            onChange={(e) => {
+              const selected = e.target.files?.[0];
+              if (!selected) return;
+              setFile(selected);
+              previewMutation.mutate({ file: selected });
+            }}
+            data-testid="input-import-file"
+          />
+          {busy && (
+            <span className="flex items-center text-sm text-muted-foreground">
+              <Upload className="mr-2 h-4 w-4" />
+              {importMutation.isPending ? "Importing..." : "Checking rows..."}
+            </span>
+          )}
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Alert className="mb-6" data-testid="alert-import-result">
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertTitle>
+            Imported {result.imported} {entityType}
+          </AlertTitle>
+          <AlertDescription className="flex flex-wrap items-center gap-3">
+            {result.skipped > 0 ? `${result.skipped} row(s) had errors and were not imported.` : "Every row was imported."}
+            {result.errorReport && (
+              <Button variant="outline" size="sm" onClick={() => downloadErrorReport(result.errorReport!, entityType)}>
+                <Download className="mr-2 h-4 w-4" />
+                Error report
+              </Button>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {preview && file && (
+        <>
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>2. Map columns</CardTitle>
+              <CardDescription>Columns were matched by name; change any that are wrong.</CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {preview.fields.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <Label>
+                    {field.label}
+                    {field.required && " *"}
+                  </Label>
+                  <Select
+                    value={preview.mapping[field.key] ?? NOT_IMPORTED}
+                    onValueChange={(header) => updateMapping(field.key, header)}
+                    disabled={busy}
+                  >
+                    <SelectTrigger data-testid={`select-import-column-${field.key}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_IMPORTED}>Not imported</SelectItem>
+                      {preview.headers.map((header) => (
+                        <SelectItem key={header} value={header}>
+                          {header}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>3. Review and import</CardTitle>
+                <CardDescription>
+                  {preview.validCount} row(s) ready, {preview.errorCount} with errors. Nothing is saved until you
+                  import.
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                {preview.errorReport && (
+                  <Button variant="outline" onClick={() => downloadErrorReport(preview.errorReport!, entityType)}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Error report
+                  </Button>
+                )}
+                <Button
+                  disabled={busy || preview.errors.length > 0 || preview.validCount === 0}
+                  onClick={() => importMutation.mutate({ file, mapping: preview.mapping })}
+                  data-testid="button-run-import"
+                >
+                  Import {preview.validCount} row(s)
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {preview.errors.length > 0 ? (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>The file cannot be imported yet</AlertTitle>
+                  <AlertDescription>
+                    <ul className="list-disc pl-4">
+                      {preview.errors.map((error) => (
+                        <li key={error}>{error}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Line</TableHead>
+                      {mappedFields.slice(0, 3).map((field) => (
+                        <TableHead key={field.key}>{field.label}</TableHead>
+                      ))}
+                      {entityType !== "clients" && <TableHead>Linked to</TableHead>}
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.slice(0, PREVIEW_ROWS).map((row) => (
+                      <TableRow key={row.line} data-testid={`row-import-${row.line}`}>
+                        <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                        {mappedFields.slice(0, 3).map((field) => (
+                          <TableCell key={field.key}>{row.fields[field.key] || "-"}</TableCell>
+                        ))}
+                        {entityType !== "clients" && <TableCell>{row.linkedTo ?? "-"}</TableCell>}
+                        <TableCell>
+                          {row.errors.length === 0 ? (
+                            <Badge variant="secondary">Ready</Badge>
+                          ) : (
+                            <ul className="text-sm text-destructive">
+                              {row.errors.map((error) => (
+                                <li key={error}>{error}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+              {preview.rows.length > PREVIEW_ROWS && (
+                <p className="mt-4 text-sm text-muted-foreground">
+                  Showing the first {PREVIEW_ROWS} of {preview.rows.length} rows.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -12,9 +12,12 @@
  * Invoices page (accounts receivable).
  *
  * Domain notes:
- * - `amount` and `tax` are strings in the form, coerced to numbers for the API.
- * - `totalAmount` is computed client-side for convenience; server stores the values.
+ * - Invoices are entered as line items (quantity, unit price, discount %, tax rate).
+ *   The server computes `amount` (subtotal), `tax` and `totalAmount`; the totals shown in
+ *   the form are only a preview.
  * - Status transitions use dedicated endpoints (send / mark-paid) to keep audit fields consistent.
+ * - Payments are a ledger (`/api/invoices/:id/payments`); paidAmount and the paid /
+ *   partially-paid status are derived server-side from it.
  */
 
 import { useState } from "react";
@@ -30,6 +33,10 @@ import {
   Send,
   CheckCircle,
   DollarSign,
+  Wallet,
+  FileText,
+  FileMinus,
+  X,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -63,53 +70,120 @@ import {
 } from "@/components/ui/form";
 import { Textarea } from "@/components/ui/textarea";
 import { PageHeader } from "@/components/page-header";
+import { ExportMenu } from "@/components/export-menu";
 import { DataTable } from "@/components/data-table";
 import { EmptyState } from "@/components/empty-state";
 import { StatusBadge } from "@/components/status-badge";
+import { InvoicePaymentsDialog } from "@/components/invoice-payments-dialog";
+import { CreditNotesDialog } from "@/components/credit-notes-dialog";
 import { useToast } from "@/hooks/use-toast";
-import { useForm } from "react-hook-form";
+import { useFieldArray, useForm, useWatch } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Invoice, Engagement, ClientCompany } from "@shared/schema";
+import { DRAFT_NUMBER_PREFIX } from "@shared/schema";
+import type { Invoice, InvoiceLineItem, Engagement, ClientCompany, TaxRate } from "@shared/schema";
 
 const invoiceFormSchema = z.object({
-  invoiceNumber: z.string().min(1, "Invoice number is required"),
   engagementId: z.string().min(1, "Engagement is required"),
   clientCompanyId: z.string().optional(),
-  amount: z.string().min(1, "Amount is required"),
-  // Optional UI field; treated as 0 when empty.
-  tax: z.string().optional(),
-  status: z.enum(["draft", "sent", "viewed", "paid", "overdue", "cancelled"]),
+  lineItems: z
+    .array(
+      z.object({
+        description: z.string().min(1, "Description is required"),
+        quantity: z.string().min(1, "Required"),
+        unitPrice: z.string().min(1, "Required"),
+        // Optional UI field; treated as 0 when empty.
+        discountPercent: z.string().optional(),
+        // "none" when untaxed (select items can't have an empty value)
+        taxRateId: z.string(),
+      }),
+    )
+    .min(1, "At least one line item is required"),
+  status: z.enum(["draft", "sent", "viewed", "partially_paid", "paid", "overdue", "cancelled"]),
+  // ISO 4217 code; left empty the server uses the organization base currency.
+  currency: z.union([z.string().regex(/^[A-Z]{3}$/, "Use a 3-letter currency code"), z.literal("")]).optional(),
   notes: z.string().optional(),
 });
 
 type InvoiceFormValues = z.infer<typeof invoiceFormSchema>;
+type LineItemFormValues = InvoiceFormValues["lineItems"][number];
+
+const emptyLineItem: LineItemFormValues = {
+  description: "",
+  quantity: "1",
+  unitPrice: "",
+  discountPercent: "",
+  taxRateId: "none",
+};
+
+const toLineItemPayload = (items: LineItemFormValues[]) =>
+  items.map((item) => ({
+    description: item.description,
+    quantity: parseFloat(item.quantity),
+    unitPrice: parseFloat(item.unitPrice),
+    discountPercent: parseFloat(item.discountPercent || "0"),
+    taxRateId: item.taxRateId === "none" ? null : item.taxRateId,
+  }));
+
+/** Form values for an existing invoice; invoices saved before line items become a single line. */
+const toLineItemFormValues = (invoice: Invoice): LineItemFormValues[] => {
+  const items = Array.isArray(invoice.lineItems) ? (invoice.lineItems as Partial<InvoiceLineItem>[]) : [];
+  if (items.length === 0) {
+    return [{ ...emptyLineItem, description: "Professional services", unitPrice: invoice.amount?.toString() || "" }];
+  }
+  return items.map((item) => ({
+    description: item.description ?? "",
+    quantity: String(item.quantity ?? 1),
+    unitPrice: String(item.unitPrice ?? ""),
+    discountPercent: item.discountPercent ? String(item.discountPercent) : "",
+    taxRateId: item.taxRateId ?? "none",
+  }));
+};
+
+/** Preview of the server-side calculation (see server/domains/revenue/invoice-totals.ts). */
+const previewTotals = (items: LineItemFormValues[], taxRates: TaxRate[] | undefined) => {
+  let subtotalCents = 0;
+  let taxCents = 0;
+  for (const item of items) {
+    const grossCents = Math.round(parseFloat(item.quantity || "0") * parseFloat(item.unitPrice || "0") * 100) || 0;
+    const netCents = grossCents - Math.round((grossCents * (parseFloat(item.discountPercent || "0") || 0)) / 100);
+    const rate = taxRates?.find((taxRate) => taxRate.id === item.taxRateId);
+    subtotalCents += netCents;
+    taxCents += rate ? Math.round((netCents * Number(rate.rate)) / 100) : 0;
+  }
+  return { subtotal: subtotalCents / 100, tax: taxCents / 100, total: (subtotalCents + taxCents) / 100 };
+};
 
 const statusOptions = [
   { value: "draft", label: "Draft" },
   { value: "sent", label: "Sent" },
   { value: "viewed", label: "Viewed" },
+  { value: "partially_paid", label: "Partially Paid" },
   { value: "paid", label: "Paid" },
   { value: "overdue", label: "Overdue" },
   { value: "cancelled", label: "Cancelled" },
 ];
 
+// Set by recording payments, so they cannot be picked by hand
+const paymentStatuses = ["partially_paid", "paid"];
+
 export default function InvoicesPage() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [editingInvoice, setEditingInvoice] = useState<Invoice | null>(null);
+  const [paymentsInvoice, setPaymentsInvoice] = useState<Invoice | null>(null);
+  const [creditNotesInvoice, setCreditNotesInvoice] = useState<Invoice | null>(null);
 
   const form = useForm<InvoiceFormValues>({
     resolver: zodResolver(invoiceFormSchema),
     defaultValues: {
-      invoiceNumber: "",
       engagementId: "",
       clientCompanyId: "",
-      amount: "",
-      tax: "0",
+      lineItems: [emptyLineItem],
+      currency: "",
       status: "draft",
       notes: "",
     },
@@ -127,16 +201,19 @@ export default function InvoicesPage() {
     queryKey: ["/api/clients"],
   });
 
+  const { data: taxRates } = useQuery<TaxRate[]>({
+    queryKey: ["/api/tax-rates"],
+  });
+
+  const lineItemFields = useFieldArray({ control: form.control, name: "lineItems" });
+  const totals = previewTotals(useWatch({ control: form.control, name: "lineItems" }), taxRates);
+
   const createMutation = useMutation({
     mutationFn: async (data: InvoiceFormValues) => {
-      const amount = parseFloat(data.amount);
-      const tax = parseFloat(data.tax || "0");
       return apiRequest("POST", "/api/invoices", {
         ...data,
-        amount,
-        tax,
-        // Kept in sync with server expectations; see `/api/invoices/:id/mark-paid`.
-        totalAmount: amount + tax,
+        lineItems: toLineItemPayload(data.lineItems),
+        currency: data.currency || undefined,
         clientCompanyId: data.clientCompanyId || null,
       });
     },
@@ -153,13 +230,10 @@ export default function InvoicesPage() {
 
   const updateMutation = useMutation({
     mutationFn: async (data: InvoiceFormValues & { id: string }) => {
-      const amount = parseFloat(data.amount);
-      const tax = parseFloat(data.tax || "0");
       return apiRequest("PATCH", `/api/invoices/${data.id}`, {
         ...data,
-        amount,
-        tax,
-        totalAmount: amount + tax,
+        lineItems: toLineItemPayload(data.lineItems),
+        currency: data.currency || undefined,
         clientCompanyId: data.clientCompanyId || null,
       });
     },
@@ -204,7 +278,7 @@ export default function InvoicesPage() {
 
   const markPaidMutation = useMutation({
     mutationFn: async (id: string) => {
-      // Separate endpoint so the server can set `paidAt` + `paidAmount` consistently.
+      // Records a payment for the outstanding balance; the server derives `paidAt` + `paidAmount`.
       return apiRequest("POST", `/api/invoices/${id}/mark-paid`);
     },
     onSuccess: () => {
@@ -227,11 +301,10 @@ export default function InvoicesPage() {
   const handleEdit = (invoice: Invoice) => {
     setEditingInvoice(invoice);
     form.reset({
-      invoiceNumber: invoice.invoiceNumber,
       engagementId: invoice.engagementId,
       clientCompanyId: invoice.clientCompanyId || "",
-      amount: invoice.amount?.toString() || "",
-      tax: invoice.tax?.toString() || "0",
+      lineItems: toLineItemFormValues(invoice),
+      currency: invoice.currency || "",
       status: invoice.status,
       notes: invoice.notes || "",
     });
@@ -257,7 +330,9 @@ export default function InvoicesPage() {
             <Receipt className="h-4 w-4 text-muted-foreground" />
           </div>
           <div>
-            <p className="font-medium font-mono">#{invoice.invoiceNumber}</p>
+            <p className="font-medium font-mono">
+              {invoice.invoiceNumber.startsWith(DRAFT_NUMBER_PREFIX) ? "Draft" : `#${invoice.invoiceNumber}`}
+            </p>
             <p className="text-xs text-muted-foreground">
               {new Date(invoice.createdAt).toLocaleDateString()}
             </p>
@@ -273,9 +348,18 @@ export default function InvoicesPage() {
           <span className="font-mono font-medium">
             {Number(invoice.totalAmount || 0).toLocaleString()}
           </span>
+          {invoice.currency && <span className="text-xs text-muted-foreground">{invoice.currency}</span>}
         </div>
       ),
     },
+    {
+      header: "Paid",
+      accessor: (invoice: Invoice) => (
+        <span className="font-mono text-muted-foreground">
+          {Number(invoice.paidAmount || 0).toLocaleString()}
+        </span>
+      ),
+    },
     {
       header: "Status",
       accessor: (invoice: Invoice) => <StatusBadge status={invoice.status} />,
@@ -305,23 +389,47 @@ export default function InvoicesPage() {
                 Send
               </DropdownMenuItem>
             )}
-            {(invoice.status === "sent" || invoice.status === "viewed") && (
+            {(invoice.status === "sent" ||
+              invoice.status === "viewed" ||
+              invoice.status === "partially_paid" ||
+              invoice.status === "overdue") && (
               <DropdownMenuItem onClick={() => markPaidMutation.mutate(invoice.id)}>
                 <CheckCircle className="h-4 w-4 mr-2" />
                 Mark as Paid
               </DropdownMenuItem>
             )}
+            {invoice.status !== "draft" && (
+              <DropdownMenuItem onClick={() => setPaymentsInvoice(invoice)}>
+                <Wallet className="h-4 w-4 mr-2" />
+                Payments
+              </DropdownMenuItem>
+            )}
+            {invoice.status !== "draft" && (
+              <DropdownMenuItem onClick={() => setCreditNotesInvoice(invoice)}>
+                <FileMinus className="h-4 w-4 mr-2" />
+                Credit Notes
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem
+              onClick={() => window.open(`/api/invoices/${invoice.id}/pdf`, "_blank")}
+            >
+              <FileText className="h-4 w-4 mr-2" />
+              Download PDF
+            </DropdownMenuItem>
             <DropdownMenuItem onClick={() => handleEdit(invoice)}>
               <Pencil className="h-4 w-4 mr-2" />
               Edit
             </DropdownMenuItem>
-            <DropdownMenuItem
-              className="text-destructive"
-              onClick={() => deleteMutation.mutate(invoice.id)}
-            >
-              <Trash2 className="h-4 w-4 mr-2" />
-              Delete
-            </DropdownMenuItem>
+            {/* Issued invoices keep their number for gapless numbering; only drafts can be deleted */}
+            {invoice.invoiceNumber.startsWith(DRAFT_NUMBER_PREFIX) && (
+              <DropdownMenuItem
+                className="text-destructive"
+                onClick={() => deleteMutation.mutate(invoice.id)}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </DropdownMenuItem>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
       ),
@@ -334,156 +442,262 @@ export default function InvoicesPage() {
         title="Invoices"
         description="Manage accounts receivable"
         actions={
-          <Dialog open={isDialogOpen} onOpenChange={handleDialogClose}>
-            <DialogTrigger asChild>
-              <Button onClick={() => setIsDialogOpen(true)} data-testid="button-add-invoice">
-                <Plus className="h-4 w-4 mr-2" />
-                New Invoice
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-lg">
-              <DialogHeader>
-                <DialogTitle>{editingInvoice ? "Edit Invoice" : "New Invoice"}</DialogTitle>
-              </DialogHeader>
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                  <FormField
-                    control={form.control}
-                    name="invoiceNumber"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Invoice Number *</FormLabel>
-                        <FormControl>
-                          <Input
-                            placeholder="INV-001"
-                            {...field}
-                            data-testid="input-invoice-number"
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="engagementId"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Engagement *</FormLabel>
-                        <Select onValueChange={field.onChange} value={field.value}>
-                          <FormControl>
-                            <SelectTrigger data-testid="select-invoice-engagement">
-                              <SelectValue placeholder="Select engagement" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {engagements?.map((engagement) => (
-                              <SelectItem key={engagement.id} value={engagement.id}>
-                                {engagement.name}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <div className="grid grid-cols-2 gap-4">
+          <>
+            <ExportMenu entityType="invoices" />
+            <Dialog open={isDialogOpen} onOpenChange={handleDialogClose}>
+              <DialogTrigger asChild>
+                <Button onClick={() => setIsDialogOpen(true)} data-testid="button-add-invoice">
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Invoice
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-3xl">
+                <DialogHeader>
+                  <DialogTitle>{editingInvoice ? "Edit Invoice" : "New Invoice"}</DialogTitle>
+                </DialogHeader>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                    <p className="text-sm text-muted-foreground">
+                      {editingInvoice && !editingInvoice.invoiceNumber.startsWith(DRAFT_NUMBER_PREFIX)
+                        ? `Invoice #${editingInvoice.invoiceNumber}`
+                        : "The invoice number is assigned from your numbering sequence when the invoice is sent."}
+                    </p>
                     <FormField
                       control={form.control}
-                      name="amount"
+                      name="engagementId"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Amount ($) *</FormLabel>
-                          <FormControl>
-                            <Input
-                              type="number"
-                              placeholder="1000"
-                              {...field}
-                              data-testid="input-invoice-amount"
-                            />
-                          </FormControl>
+                          <FormLabel>Engagement *</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-invoice-engagement">
+                                <SelectValue placeholder="Select engagement" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {engagements?.map((engagement) => (
+                                <SelectItem key={engagement.id} value={engagement.id}>
+                                  {engagement.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
+                    <div className="space-y-2">
+                      <p className="text-sm font-medium">Line Items *</p>
+                      {lineItemFields.fields.map((lineItem, index) => (
+                        <div
+                          key={lineItem.id}
+                          className="grid grid-cols-[1fr_4.5rem_6rem_4.5rem_8rem_auto] items-start gap-2"
+                          data-testid={`row-line-item-${index}`}
+                        >
+                          <FormField
+                            control={form.control}
+                            name={`lineItems.${index}.description`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormControl>
+                                  <Input placeholder="Description" {...field} data-testid={`input-line-description-${index}`} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name={`lineItems.${index}.quantity`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormControl>
+                                  <Input type="number" step="any" placeholder="Qty" {...field} data-testid={`input-line-quantity-${index}`} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name={`lineItems.${index}.unitPrice`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormControl>
+                                  <Input type="number" step="0.01" placeholder="Price" {...field} data-testid={`input-line-price-${index}`} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name={`lineItems.${index}.discountPercent`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormControl>
+                                  <Input type="number" step="any" placeholder="Disc %" {...field} data-testid={`input-line-discount-${index}`} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name={`lineItems.${index}.taxRateId`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <Select onValueChange={field.onChange} value={field.value}>
+                                  <FormControl>
+                                    <SelectTrigger data-testid={`select-line-tax-${index}`}>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    <SelectItem value="none">No tax</SelectItem>
+                                    {taxRates
+                                      ?.filter((taxRate) => taxRate.isActive || taxRate.id === field.value)
+                                      .map((taxRate) => (
+                                        <SelectItem key={taxRate.id} value={taxRate.id}>
+                                          {taxRate.name}
+                                        </SelectItem>
+                                      ))}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            disabled={lineItemFields.fields.length === 1}
+                            onClick={() => lineItemFields.remove(index)}
+                            data-testid={`button-remove-line-${index}`}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => lineItemFields.append(emptyLineItem)}
+                        data-testid="button-add-line-item"
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add Line
+                      </Button>
+                    </div>
+                    <div className="space-y-1 text-sm text-right" data-testid="text-invoice-totals">
+                      <p className="text-muted-foreground">
+                        Subtotal <span className="font-mono">{totals.subtotal.toLocaleString()}</span>
+                      </p>
+                      <p className="text-muted-foreground">
+                        Tax <span className="font-mono">{totals.tax.toLocaleString()}</span>
+                      </p>
+                      <p className="font-medium">
+                        Total <span className="font-mono">{totals.total.toLocaleString()}</span>
+                      </p>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="currency"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Currency</FormLabel>
+                            <FormControl>
+                              <Input
+                                placeholder="Org default"
+                                maxLength={3}
+                                {...field}
+                                onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                                data-testid="input-invoice-currency"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="status"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Status</FormLabel>
+                            <Select
+                              onValueChange={field.onChange}
+                              value={field.value}
+                              // An invoice with payments takes its status from them
+                              disabled={
+                                !!editingInvoice &&
+                                (paymentStatuses.includes(editingInvoice.status) ||
+                                  Number(editingInvoice.paidAmount) > 0)
+                              }
+                            >
+                              <FormControl>
+                                <SelectTrigger data-testid="select-invoice-status">
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {statusOptions.map((status) => (
+                                  <SelectItem
+                                    key={status.value}
+                                    value={status.value}
+                                    disabled={
+                                      paymentStatuses.includes(status.value) &&
+                                      status.value !== editingInvoice?.status
+                                    }
+                                  >
+                                    {status.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
                     <FormField
                       control={form.control}
-                      name="tax"
+                      name="notes"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Tax ($)</FormLabel>
+                          <FormLabel>Notes</FormLabel>
                           <FormControl>
-                            <Input
-                              type="number"
-                              placeholder="0"
+                            <Textarea
+                              placeholder="Additional notes..."
+                              className="resize-none"
                               {...field}
-                              data-testid="input-invoice-tax"
+                              data-testid="input-invoice-notes"
                             />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
-                  </div>
-                  <FormField
-                    control={form.control}
-                    name="status"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Status</FormLabel>
-                        <Select onValueChange={field.onChange} value={field.value}>
-                          <FormControl>
-                            <SelectTrigger data-testid="select-invoice-status">
-                              <SelectValue />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {statusOptions.map((status) => (
-                              <SelectItem key={status.value} value={status.value}>
-                                {status.label}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="notes"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Notes</FormLabel>
-                        <FormControl>
-                          <Textarea
-                            placeholder="Additional notes..."
-                            className="resize-none"
-                            {...field}
-                            data-testid="input-invoice-notes"
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <div className="flex justify-end gap-2 pt-4">
-                    <Button type="button" variant="outline" onClick={handleDialogClose}>
-                      Cancel
-                    </Button>
-                    <Button
-                      type="submit"
-                      disabled={createMutation.isPending || updateMutation.isPending}
-                      data-testid="button-save-invoice"
-                    >
-                      {createMutation.isPending || updateMutation.isPending ? "Saving..." : "Save"}
-                    </Button>
-                  </div>
-                </form>
-              </Form>
-            </DialogContent>
-          </Dialog>
+                    <div className="flex justify-end gap-2 pt-4">
+                      <Button type="button" variant="outline" onClick={handleDialogClose}>
+                        Cancel
+                      </Button>
+                      <Button
+                        type="submit"
+                        disabled={createMutation.isPending || updateMutation.isPending}
+                        data-testid="button-save-invoice"
+                      >
+                        {createMutation.isPending || updateMutation.isPending ? "Saving..." : "Save"}
+                      </Button>
+                    </div>
+                  </form>
+                </Form>
+              </DialogContent>
+            </Dialog>
+          </>
         }
       />
 
@@ -523,6 +737,9 @@ export default function InvoicesPage() {
           emptyMessage="No invoices found"
         />
       )}
+
+      <InvoicePaymentsDialog invoice={paymentsInvoice} onClose={() => setPaymentsInvoice(null)} />
+      <CreditNotesDialog invoice={creditNotesInvoice} onClose={() => setCreditNotesInvoice(null)} />
     </div>
   );
 }
@@ -0,0 +1,154 @@
+// AI-META-BEGIN
+// AI-META: Page component - mock-checkout.tsx
+// OWNERSHIP: client/pages
+// ENTRYPOINTS: app router (public, /pay/mock/:sessionId)
+// DEPENDENCIES: react, react-query, ui
+// DANGER: Public page; simulates payments that mark invoices paid
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * Hosted checkout page of the built-in mock payment provider.
+ *
+ * Stands in for a real provider's payment page so the online payment flow works offline:
+ * the payer picks an outcome (success, card declined, or a payment that settles later) and
+ * the server sends the matching signed webhooks to itself. Reachable without signing in,
+ * like a real provider's page, through the session id in the checkout link.
+ */
+
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { CheckCircle2, Clock, CreditCard, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { MockPaymentOutcome, PaymentSessionStatus } from "@shared/schema";
+
+interface MockCheckoutSession {
+  status: PaymentSessionStatus;
+  amount: string;
+  currency: string;
+  invoiceNumber: string | null;
+  organizationName: string | null;
+  failureReason: string | null;
+  settleDelayMs: number;
+}
+
+export default function MockCheckoutPage() {
+  const { toast } = useToast();
+  const [location] = useLocation();
+  const sessionId = location.split("/")[3] ?? "";
+  const sessionKey = `/api/payment-providers/mock/sessions/${sessionId}`;
+
+  const { data: session, isLoading, error } = useQuery<MockCheckoutSession>({
+    queryKey: [sessionKey],
+    enabled: !!sessionId,
+    // Poll while an async payment settles
+    refetchInterval: (query) => (query.state.data?.status === "processing" ? 2000 : false),
+  });
+
+  const simulateMutation = useMutation({
+    mutationFn: async (outcome: MockPaymentOutcome) => {
+      return apiRequest("POST", `${sessionKey}/simulate`, { outcome });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [sessionKey] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Payment could not be simulated", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const formattedAmount = session
+    ? Number(session.amount).toLocaleString(undefined, { style: "currency", currency: session.currency })
+    : "";
+  const canPay = session?.status === "open" || session?.status === "failed";
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/40 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CreditCard className="h-5 w-5" />
+            Pay invoice {session?.invoiceNumber ? `#${session.invoiceNumber}` : ""}
+          </CardTitle>
+          <CardDescription>
+            Mock payment provider - no real money is charged.
+            {session?.organizationName && ` Payable to ${session.organizationName}.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading && <p className="text-sm text-muted-foreground">Loading payment...</p>}
+          {(error || (!isLoading && !session)) && (
+            <p className="text-sm text-destructive">This payment link is invalid.</p>
+          )}
+          {session && (
+            <>
+              <p className="text-3xl font-semibold font-mono" data-testid="text-checkout-amount">
+                {formattedAmount}
+              </p>
+              {session.status === "succeeded" && (
+                <p className="flex items-center gap-2 text-sm text-green-600" data-testid="text-checkout-status">
+                  <CheckCircle2 className="h-4 w-4" />
+                  Payment received. Thank you!
+                </p>
+              )}
+              {session.status === "processing" && (
+                <p className="flex items-center gap-2 text-sm text-muted-foreground" data-testid="text-checkout-status">
+                  <Clock className="h-4 w-4" />
+                  Payment is processing and settles in about {Math.ceil(session.settleDelayMs / 1000)} seconds.
+                </p>
+              )}
+              {session.status === "failed" && (
+                <p className="flex items-center gap-2 text-sm text-destructive" data-testid="text-checkout-status">
+                  <XCircle className="h-4 w-4" />
+                  {session.failureReason ?? "Payment failed"}. You can try again.
+                </p>
+              )}
+              {session.status === "refund_required" && (
+                <p className="flex items-center gap-2 text-sm text-destructive" data-testid="text-checkout-status">
+                  <XCircle className="h-4 w-4" />
+                  {session.failureReason ?? "This invoice can no longer take this payment"}. The payment will be refunded.
+                </p>
+              )}
+              {session.status === "expired" && (
+                <p className="text-sm text-muted-foreground" data-testid="text-checkout-status">
+                  This payment link has expired. Ask for a new one.
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+        {canPay && (
+          <CardFooter className="flex flex-wrap gap-2">
+            <Button
+              onClick={() => simulateMutation.mutate("succeed")}
+              disabled={simulateMutation.isPending}
+              data-testid="button-simulate-success"
+            >
+              Pay {formattedAmount}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => simulateMutation.mutate("async")}
+              disabled={simulateMutation.isPending}
+              data-testid="button-simulate-async"
+            >
+              Pay (settles later)
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => simulateMutation.mutate("fail")}
+              disabled={simulateMutation.isPending}
+              data-testid="button-simulate-failure"
+            >
+              Decline card
+            </Button>
+          </CardFooter>
+        )}
+      </Card>
+    </div>
+  );
+}
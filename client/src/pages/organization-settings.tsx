@@ -53,6 +53,10 @@ import {
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { PageHeader } from "@/components/page-header";
+import { TaxRatesCard } from "@/components/tax-rates-card";
+import { NumberingSequencesCard } from "@/components/numbering-sequences-card";
+import { BillApprovalPoliciesCard } from "@/components/bill-approval-policies-card";
+import { DealAutomationCard } from "@/components/deal-automation-card";
 
 // Form validation schemas
 const generalSettingsSchema = z.object({
@@ -500,11 +504,13 @@ export default function OrganizationSettingsPage() {
       />
 
       <Tabs defaultValue="general" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="general">General</TabsTrigger>
           <TabsTrigger value="business-hours">Business Hours</TabsTrigger>
           <TabsTrigger value="customization">Customization</TabsTrigger>
           <TabsTrigger value="notifications">Notifications</TabsTrigger>
+          <TabsTrigger value="sales">Sales</TabsTrigger>
+          <TabsTrigger value="billing">Billing</TabsTrigger>
         </TabsList>
 
         {/* General Settings Tab */}
@@ -1037,6 +1043,18 @@ export default function OrganizationSettingsPage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Sales Tab */}
+        <TabsContent value="sales" className="space-y-6">
+          <DealAutomationCard />
+        </TabsContent>
+
+        {/* Billing Tab */}
+        <TabsContent value="billing" className="space-y-6">
+          <NumberingSequencesCard />
+          <TaxRatesCard />
+          <BillApprovalPoliciesCard />
+        </TabsContent>
       </Tabs>
     </div>
   );
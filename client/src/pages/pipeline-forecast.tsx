@@ -0,0 +1,276 @@
+// AI-META-BEGIN
+// AI-META: Page component - pipeline-forecast.tsx
+// OWNERSHIP: client/pages
+// ENTRYPOINTS: app router
+// DEPENDENCIES: react, react-query, recharts, ui
+// DANGER: Review data fetching logic
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * Pipeline forecast page.
+ *
+ * Weighted pipeline of open deals by expected close month, by owner and by stage, for one
+ * pipeline or all of them. The period only applies to closed deals (win rate, average deal
+ * size, average sales cycle); open deals are always the current ones. Stage conversion is
+ * the share of deals that entered a stage and later moved on to a further, non-lost stage.
+ */
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { startOfQuarter, startOfYear } from "date-fns";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { PageHeader } from "@/components/page-header";
+import { StatCard } from "@/components/stat-card";
+import {
+  forecastChartConfig,
+  formatAmount,
+  formatMonth,
+  formatPercent,
+  type PipelineReport,
+} from "@/components/sales-forecast-card";
+import { Clock, Scale, Target, Trophy } from "lucide-react";
+import type { DealPipelineWithStages } from "@shared/schema";
+
+type Period = "quarter" | "year" | "all";
+
+const periodOptions: { value: Period; label: string }[] = [
+  { value: "quarter", label: "This quarter" },
+  { value: "year", label: "This year" },
+  { value: "all", label: "All time" },
+];
+
+const periodStart = (period: Period) => {
+  if (period === "quarter") return startOfQuarter(new Date());
+  if (period === "year") return startOfYear(new Date());
+  return null;
+};
+
+export default function PipelineForecastPage() {
+  const [pipelineId, setPipelineId] = useState("all");
+  const [period, setPeriod] = useState<Period>("quarter");
+
+  const { data: pipelines } = useQuery<DealPipelineWithStages[]>({
+    queryKey: ["/api/pipelines"],
+  });
+
+  const params = new URLSearchParams();
+  if (pipelineId !== "all") params.set("pipelineId", pipelineId);
+  const from = periodStart(period);
+  if (from) params.set("from", from.toISOString());
+  const { data: report, isLoading } = useQuery<PipelineReport>({
+    queryKey: [`/api/reports/pipeline?${params.toString()}`],
+    staleTime: 0,
+    refetchOnMount: "always",
+  });
+
+  const data = report?.byMonth.map((month) => ({ ...month, label: formatMonth(month.month) }));
+  const showPipelineName = pipelineId === "all" && (pipelines?.length ?? 0) > 1;
+
+  return (
+    <div className="p-6">
+      <PageHeader
+        title="Pipeline Forecast"
+        description="Weighted pipeline, win rate and stage conversion"
+        actions={
+          <>
+            <Select value={pipelineId} onValueChange={setPipelineId}>
+              <SelectTrigger className="w-44" data-testid="select-forecast-pipeline">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All pipelines</SelectItem>
+                {pipelines?.map((pipeline) => (
+                  <SelectItem key={pipeline.id} value={pipeline.id}>
+                    {pipeline.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={period} onValueChange={(value) => setPeriod(value as Period)}>
+              <SelectTrigger className="w-36" data-testid="select-forecast-period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {periodOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </>
+        }
+      />
+
+      <div className="mb-6 grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <StatCard
+          title="Weighted Pipeline"
+          value={report ? formatAmount(report.totals.weightedValue) : "-"}
+          icon={Scale}
+          description={report ? `${report.totals.dealCount} open deal(s) · ${report.currency}` : undefined}
+        />
+        <StatCard
+          title="Win Rate"
+          value={report ? formatPercent(report.winRate) : "-"}
+          icon={Target}
+          description={report ? `${report.wonCount} won · ${report.lostCount} lost` : undefined}
+        />
+        <StatCard
+          title="Average Deal Size"
+          value={report?.averageDealSize != null ? formatAmount(report.averageDealSize) : "-"}
+          icon={Trophy}
+          description={report ? `${formatAmount(report.wonValue)} won` : undefined}
+        />
+        <StatCard
+          title="Average Sales Cycle"
+          value={report?.averageSalesCycleDays != null ? `${report.averageSalesCycleDays} days` : "-"}
+          icon={Clock}
+          description="Created to won"
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>By Expected Close Month</CardTitle>
+          <CardDescription>Open deals; weighted value is the deal value times its probability.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading || !report || !data ? (
+            <Skeleton className="h-64 w-full" />
+          ) : data.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No open deals.</p>
+          ) : (
+            <>
+              <ChartContainer config={forecastChartConfig} className="h-64 w-full aspect-auto">
+                <BarChart data={data}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={70} tickFormatter={formatAmount} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="openValue" fill="var(--color-openValue)" radius={2} />
+                  <Bar dataKey="weightedValue" fill="var(--color-weightedValue)" radius={2} />
+                </BarChart>
+              </ChartContainer>
+              <Table className="mt-4">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month</TableHead>
+                    <TableHead className="text-right">Deals</TableHead>
+                    <TableHead className="text-right">Open value</TableHead>
+                    <TableHead className="text-right">Weighted</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.map((row) => (
+                    <TableRow key={row.month ?? "none"} data-testid={`row-forecast-month-${row.month ?? "none"}`}>
+                      <TableCell className="font-medium">{row.label}</TableCell>
+                      <TableCell className="text-right">{row.dealCount}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(row.openValue)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(row.weightedValue)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="font-medium">
+                    <TableCell>Total</TableCell>
+                    <TableCell className="text-right">{report.totals.dealCount}</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(report.totals.openValue)}</TableCell>
+                    <TableCell className="text-right font-mono" data-testid="text-forecast-total-weighted">
+                      {formatAmount(report.totals.weightedValue)}
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="mt-6 grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>By Owner</CardTitle>
+            <CardDescription>Open deals, largest weighted pipeline first.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {report && report.byOwner.length === 0 && (
+              <p className="text-sm text-muted-foreground">No open deals.</p>
+            )}
+            {report && report.byOwner.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Owner</TableHead>
+                    <TableHead className="text-right">Deals</TableHead>
+                    <TableHead className="text-right">Open value</TableHead>
+                    <TableHead className="text-right">Weighted</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.byOwner.map((row) => (
+                    <TableRow key={row.ownerId} data-testid={`row-forecast-owner-${row.ownerId}`}>
+                      <TableCell className="font-medium">{row.ownerName}</TableCell>
+                      <TableCell className="text-right">{row.dealCount}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(row.openValue)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(row.weightedValue)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>By Stage</CardTitle>
+            <CardDescription>
+              Conversion is the share of deals that entered a stage and later moved further along.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {report && report.byStage.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Stage</TableHead>
+                    <TableHead className="text-right">Deals</TableHead>
+                    <TableHead className="text-right">Weighted</TableHead>
+                    <TableHead className="text-right">Entered</TableHead>
+                    <TableHead className="text-right">Conversion</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.byStage.map((row) => (
+                    <TableRow key={row.stageId} data-testid={`row-forecast-stage-${row.stageId}`}>
+                      <TableCell>
+                        <p className="font-medium">{row.stageName}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {[showPipelineName ? row.pipelineName : null, `${row.probability}%`]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </p>
+                      </TableCell>
+                      <TableCell className="text-right">{row.outcome === "open" ? row.dealCount : "-"}</TableCell>
+                      <TableCell className="text-right font-mono">
+                        {row.outcome === "open" ? formatAmount(row.weightedValue) : "-"}
+                      </TableCell>
+                      <TableCell className="text-right">{row.entered}</TableCell>
+                      <TableCell className="text-right font-mono">{formatPercent(row.conversionRate)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+// AI-META-BEGIN
+// AI-META: Page component - profitability.tsx
+// OWNERSHIP: client/pages
+// ENTRYPOINTS: app router
+// DEPENDENCIES: react, react-query, recharts, ui
+// DANGER: Review data fetching logic
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * Engagement profitability page.
+ *
+ * Ranks every engagement by gross margin (invoiced before tax, less bills and approved
+ * expenses linked to it) and rolls the same figures up by type of work. Selecting an
+ * engagement shows its contracted / invoiced / collected figures and a month-by-month chart.
+ * `?engagement=<id>` (linked from the engagements page) preselects one.
+ */
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { PageHeader } from "@/components/page-header";
+import { StatusBadge } from "@/components/status-badge";
+import type { Engagement } from "@shared/schema";
+
+interface ProfitabilityFigures {
+  invoiced: number;
+  collected: number;
+  billCosts: number;
+  expenseCosts: number;
+  directCosts: number;
+  grossMargin: number;
+  marginPercent: number | null;
+}
+
+interface EngagementProfitability extends ProfitabilityFigures {
+  engagementId: string;
+  name: string;
+  status: Engagement["status"];
+  clientName: string | null;
+  workType: string | null;
+  contractedValue: number;
+  remainingToInvoice: number;
+  unconverted: number;
+}
+
+interface ProfitabilityReport {
+  currency: string;
+  engagements: EngagementProfitability[];
+  workTypes: (ProfitabilityFigures & { workType: string; engagementCount: number })[];
+  totals: ProfitabilityFigures & { contractedValue: number };
+  unconverted: number;
+}
+
+interface EngagementProfitabilityDetail extends EngagementProfitability {
+  currency: string;
+  months: {
+    month: string;
+    invoiced: number;
+    collected: number;
+    directCosts: number;
+    grossMargin: number;
+    cumulativeMargin: number;
+  }[];
+}
+
+const chartConfig = {
+  invoiced: { label: "Invoiced", color: "hsl(var(--chart-1))" },
+  collected: { label: "Collected", color: "hsl(var(--chart-3))" },
+  directCosts: { label: "Direct costs", color: "hsl(var(--chart-5))" },
+  cumulativeMargin: { label: "Cumulative margin", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+const formatAmount = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatPercent = (value: number | null) => (value === null ? "-" : `${value.toFixed(1)}%`);
+
+const marginClass = (value: number | null) =>
+  value === null ? "text-muted-foreground" : value < 0 ? "text-destructive" : "";
+
+function EngagementProfitabilityCard({ engagementId }: { engagementId: string }) {
+  const { data: detail, isLoading } = useQuery<EngagementProfitabilityDetail>({
+    queryKey: [`/api/engagements/${engagementId}/profitability`],
+  });
+
+  const data = detail?.months.map((month) => ({
+    ...month,
+    label: new Date(`${month.month}-01T00:00:00`).toLocaleDateString(undefined, { month: "short", year: "2-digit" }),
+  }));
+  const figures = detail
+    ? [
+        { label: "Contracted", value: formatAmount(detail.contractedValue) },
+        { label: "Invoiced", value: formatAmount(detail.invoiced) },
+        { label: "Collected", value: formatAmount(detail.collected) },
+        { label: "Direct costs", value: formatAmount(detail.directCosts) },
+        { label: "Gross margin", value: `${formatAmount(detail.grossMargin)} (${formatPercent(detail.marginPercent)})` },
+      ]
+    : [];
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>{detail?.name ?? "Engagement"}</CardTitle>
+        <CardDescription>
+          {detail
+            ? `${detail.clientName ?? "No client"} · ${detail.workType ?? "No type of work"} · ${detail.currency}` +
+              (detail.remainingToInvoice > 0 ? ` · ${formatAmount(detail.remainingToInvoice)} of the contract not invoiced yet` : "")
+            : "Loading..."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !detail || !data ? (
+          <Skeleton className="h-64 w-full" />
+        ) : (
+          <>
+            <div className="mb-6 grid grid-cols-2 gap-4 text-sm md:grid-cols-5">
+              {figures.map((figure) => (
+                <div key={figure.label}>
+                  <p className="text-muted-foreground">{figure.label}</p>
+                  <p className="font-mono font-medium">{figure.value}</p>
+                </div>
+              ))}
+            </div>
+            {data.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No invoices, bills or expenses on this engagement yet.</p>
+            ) : (
+              <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                <ComposedChart data={data}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={70} tickFormatter={formatAmount} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="invoiced" fill="var(--color-invoiced)" radius={2} />
+                  <Bar dataKey="collected" fill="var(--color-collected)" radius={2} />
+                  <Bar dataKey="directCosts" fill="var(--color-directCosts)" radius={2} />
+                  <Line
+                    dataKey="cumulativeMargin"
+                    type="monotone"
+                    stroke="var(--color-cumulativeMargin)"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </ComposedChart>
+              </ChartContainer>
+            )}
+            {detail.unconverted > 0 && (
+              <p className="mt-2 text-xs text-muted-foreground">
+                {detail.unconverted} document(s) are excluded because no exchange rate is set for their currency.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ProfitabilityPage() {
+  const [selectedId, setSelectedId] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get("engagement"),
+  );
+
+  const { data: report, isLoading } = useQuery<ProfitabilityReport>({
+    queryKey: ["/api/reports/engagement-profitability"],
+  });
+
+  return (
+    <div className="p-6">
+      <PageHeader title="Profitability" description="Gross margin by engagement and type of work" />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>By Type of Work</CardTitle>
+          <CardDescription>
+            Invoiced before tax, less bills and approved expenses
+            {report && ` in ${report.currency}`}. Set the type of work on each engagement.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading && <p className="text-sm text-muted-foreground">Loading report...</p>}
+          {report && report.workTypes.length === 0 && (
+            <p className="text-sm text-muted-foreground">No engagements yet.</p>
+          )}
+          {report && report.workTypes.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type of work</TableHead>
+                  <TableHead className="text-right">Engagements</TableHead>
+                  <TableHead className="text-right">Invoiced</TableHead>
+                  <TableHead className="text-right">Direct costs</TableHead>
+                  <TableHead className="text-right">Gross margin</TableHead>
+                  <TableHead className="text-right">Margin %</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.workTypes.map((row) => (
+                  <TableRow key={row.workType} data-testid={`row-work-type-${row.workType}`}>
+                    <TableCell className="font-medium">{row.workType}</TableCell>
+                    <TableCell className="text-right">{row.engagementCount}</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(row.invoiced)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(row.directCosts)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(row.grossMargin)}</TableCell>
+                    <TableCell className={`text-right font-mono ${marginClass(row.marginPercent)}`}>
+                      {formatPercent(row.marginPercent)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Engagements by Margin</CardTitle>
+          <CardDescription>Click an engagement to see its figures over time.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {report && report.engagements.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Engagement</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Contracted</TableHead>
+                  <TableHead className="text-right">Invoiced</TableHead>
+                  <TableHead className="text-right">Collected</TableHead>
+                  <TableHead className="text-right">Direct costs</TableHead>
+                  <TableHead className="text-right">Gross margin</TableHead>
+                  <TableHead className="text-right">Margin %</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.engagements.map((row) => (
+                  <TableRow
+                    key={row.engagementId}
+                    className={`cursor-pointer ${selectedId === row.engagementId ? "bg-muted" : ""}`}
+                    onClick={() => setSelectedId(row.engagementId)}
+                    data-testid={`row-profitability-${row.engagementId}`}
+                  >
+                    <TableCell>
+                      <p className="font-medium">{row.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {[row.clientName, row.workType].filter(Boolean).join(" · ") || "-"}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      <StatusBadge status={row.status} />
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(row.contractedValue)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(row.invoiced)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(row.collected)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(row.directCosts)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(row.grossMargin)}</TableCell>
+                    <TableCell className={`text-right font-mono ${marginClass(row.marginPercent)}`}>
+                      {formatPercent(row.marginPercent)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="font-medium">
+                  <TableCell>Total</TableCell>
+                  <TableCell />
+                  <TableCell className="text-right font-mono">{formatAmount(report.totals.contractedValue)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatAmount(report.totals.invoiced)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatAmount(report.totals.collected)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatAmount(report.totals.directCosts)}</TableCell>
+                  <TableCell className="text-right font-mono" data-testid="text-profitability-total-margin">
+                    {formatAmount(report.totals.grossMargin)}
+                  </TableCell>
+                  <TableCell className={`text-right font-mono ${marginClass(report.totals.marginPercent)}`}>
+                    {formatPercent(report.totals.marginPercent)}
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+          {report && report.unconverted > 0 && (
+            <p className="mt-4 text-xs text-muted-foreground">
+              {report.unconverted} document(s) are excluded from the figures because no exchange rate is set for their
+              currency.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedId && <EngagementProfitabilityCard engagementId={selectedId} />}
+    </div>
+  );
+}
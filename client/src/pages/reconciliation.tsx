@@ -0,0 +1,361 @@
+// AI-META-BEGIN
+// AI-META: Page component - reconciliation.tsx
+// OWNERSHIP: client/pages
+// ENTRYPOINTS: app router
+// DEPENDENCIES: react, components
+// DANGER: Review data fetching logic; confirming a match records payments and pays bills
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * Bank reconciliation.
+ *
+ * Statements (CSV or OFX) are uploaded into a queue of unmatched lines. Each line can be
+ * expanded to see suggested invoices (money in) or approved bills (money out); confirming a
+ * suggestion records the payment or marks the bill paid. Lines that need no match (transfers,
+ * bank fees) can be ignored.
+ */
+
+import { Fragment, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight, Landmark, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { PageHeader } from "@/components/page-header";
+import { EmptyState } from "@/components/empty-state";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { BankTransaction, BankTransactionStatus } from "@shared/schema";
+
+interface BankMatchSuggestion {
+  type: "invoice" | "bill";
+  id: string;
+  number: string;
+  counterparty: string | null;
+  openAmount: number;
+  dueDate: string | null;
+  score: number;
+  reasons: ("number" | "amount" | "name")[];
+}
+
+const reasonLabels: Record<BankMatchSuggestion["reasons"][number], string> = {
+  number: "Number in memo",
+  amount: "Amount",
+  name: "Name",
+};
+
+const formatAmount = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Multipart upload: statements can be larger than the JSON body limit
+async function uploadBankStatement(file: File, currency: string) {
+  const formData = new FormData();
+  formData.append("file", file);
+  if (currency) formData.append("currency", currency);
+
+  const response = await fetch("/api/bank-transactions/import", {
+    method: "POST",
+    credentials: "include",
+    body: formData,
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const details = Array.isArray(body.details)
+      ? body.details.map((detail: { line: number; message: string }) => `Line ${detail.line}: ${detail.message}`)
+      : [];
+    throw new Error([body.error ?? "Failed to import statement", ...details.slice(0, 3)].join(". "));
+  }
+  return body as { imported: number; skipped: number };
+}
+
+function MatchSuggestions({ transaction }: { transaction: BankTransaction }) {
+  const { toast } = useToast();
+  const { data: suggestions, isLoading } = useQuery<BankMatchSuggestion[]>({
+    queryKey: ["/api/bank-transactions", transaction.id, "suggestions"],
+  });
+
+  const matchMutation = useMutation({
+    mutationFn: async (suggestion: BankMatchSuggestion) => {
+      return apiRequest("POST", `/api/bank-transactions/${transaction.id}/match`, {
+        type: suggestion.type,
+        id: suggestion.id,
+      });
+    },
+    onSuccess: (_response, suggestion) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bank-transactions"] });
+      queryClient.invalidateQueries({ queryKey: [suggestion.type === "invoice" ? "/api/invoices" : "/api/bills"] });
+      toast({
+        title: suggestion.type === "invoice" ? "Payment recorded" : "Bill marked as paid",
+        description: `Matched to ${suggestion.number}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to confirm match", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) return <p className="text-sm text-muted-foreground">Looking for matches...</p>;
+  if (!suggestions?.length) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No {Number(transaction.amount) > 0 ? "open invoices" : "approved bills"} match this line.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {suggestions.map((suggestion) => (
+        <div
+          key={suggestion.id}
+          className="flex items-center justify-between gap-4 rounded-md border p-3"
+          data-testid={`suggestion-${suggestion.id}`}
+        >
+          <div className="space-y-1">
+            <p className="text-sm font-medium">
+              <span className="font-mono">#{suggestion.number}</span>
+              {suggestion.counterparty && <span className="ml-2">{suggestion.counterparty}</span>}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {suggestion.type === "invoice" ? "Balance due" : "Bill amount"} {formatAmount(suggestion.openAmount)}
+              {suggestion.dueDate && ` · due ${new Date(suggestion.dueDate).toLocaleDateString()}`}
+            </p>
+            <div className="flex gap-1">
+              {suggestion.reasons.map((reason) => (
+                <Badge key={reason} variant="secondary">
+                  {reasonLabels[reason]}
+                </Badge>
+              ))}
+            </div>
+          </div>
+          <Button
+            size="sm"
+            onClick={() => matchMutation.mutate(suggestion)}
+            disabled={matchMutation.isPending}
+            data-testid={`button-confirm-match-${suggestion.id}`}
+          >
+            Confirm
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function ReconciliationPage() {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [currency, setCurrency] = useState("");
+  const [status, setStatus] = useState<BankTransactionStatus>("unmatched");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data: transactions, isLoading } = useQuery<BankTransaction[]>({
+    queryKey: ["/api/bank-transactions"],
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (file: File) => uploadBankStatement(file, currency.trim().toUpperCase()),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bank-transactions"] });
+      toast({
+        title: `Imported ${result.imported} transaction(s)`,
+        description: result.skipped > 0 ? `${result.skipped} already imported line(s) skipped` : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to import statement", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => {
+      if (fileInput.current) fileInput.current.value = "";
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: "unmatched" | "ignored" }) => {
+      return apiRequest("PATCH", `/api/bank-transactions/${id}`, { status });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bank-transactions"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update transaction", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const visible = transactions?.filter((transaction) => transaction.status === status) ?? [];
+  const counts = (transactions ?? []).reduce<Record<string, number>>((acc, transaction) => {
+    acc[transaction.status] = (acc[transaction.status] ?? 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <div className="p-6">
+      <PageHeader title="Reconciliation" description="Match bank statement lines to invoices and bills" />
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Import Statement</CardTitle>
+          <CardDescription>
+            Upload a CSV (date, amount or debit/credit, description) or OFX file. Lines already imported are
+            skipped. CSV files have no currency, so enter the account currency if it is not your base currency.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-center gap-3">
+          <Input
+            ref={fileInput}
+            type="file"
+            accept=".csv,.ofx,.qfx"
+            className="max-w-xs"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importMutation.mutate(file);
+            }}
+            disabled={importMutation.isPending}
+            data-testid="input-bank-statement"
+          />
+          <Input
+            placeholder="Currency (optional)"
+            className="w-44"
+            maxLength={3}
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
+            data-testid="input-statement-currency"
+          />
+          {importMutation.isPending && (
+            <span className="flex items-center text-sm text-muted-foreground">
+              <Upload className="h-4 w-4 mr-2" />
+              Importing...
+            </span>
+          )}
+        </CardContent>
+      </Card>
+
+      <Tabs value={status} onValueChange={(value) => setStatus(value as BankTransactionStatus)} className="mb-4">
+        <TabsList>
+          <TabsTrigger value="unmatched" data-testid="tab-unmatched">
+            Unmatched ({counts.unmatched ?? 0})
+          </TabsTrigger>
+          <TabsTrigger value="matched" data-testid="tab-matched">
+            Matched ({counts.matched ?? 0})
+          </TabsTrigger>
+          <TabsTrigger value="ignored" data-testid="tab-ignored">
+            Ignored ({counts.ignored ?? 0})
+          </TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {isLoading && <p className="text-sm text-muted-foreground">Loading transactions...</p>}
+      {!isLoading && visible.length === 0 && (
+        <EmptyState
+          icon={Landmark}
+          title={status === "unmatched" ? "Nothing to reconcile" : `No ${status} transactions`}
+          description={
+            status === "unmatched" ? "Import a bank statement to start matching payments." : "Nothing here yet."
+          }
+        />
+      )}
+      {visible.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Payee / Description</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead className="text-right" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visible.map((transaction) => {
+              const amount = Number(transaction.amount);
+              const isExpanded = expandedId === transaction.id;
+              return (
+                <Fragment key={transaction.id}>
+                  <TableRow data-testid={`row-bank-transaction-${transaction.id}`}>
+                    <TableCell>{new Date(transaction.postedAt).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <p className="font-medium">{transaction.payee || transaction.description || "-"}</p>
+                      {transaction.payee && transaction.description && (
+                        <p className="text-xs text-muted-foreground">{transaction.description}</p>
+                      )}
+                    </TableCell>
+                    <TableCell
+                      className={`text-right font-mono ${amount > 0 ? "text-green-600 dark:text-green-400" : ""}`}
+                    >
+                      {formatAmount(amount)} {transaction.currency}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {transaction.status === "unmatched" && (
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setExpandedId(isExpanded ? null : transaction.id)}
+                            data-testid={`button-find-match-${transaction.id}`}
+                          >
+                            {isExpanded ? (
+                              <ChevronDown className="h-4 w-4 mr-1" />
+                            ) : (
+                              <ChevronRight className="h-4 w-4 mr-1" />
+                            )}
+                            Match
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => statusMutation.mutate({ id: transaction.id, status: "ignored" })}
+                            data-testid={`button-ignore-${transaction.id}`}
+                          >
+                            Ignore
+                          </Button>
+                        </div>
+                      )}
+                      {transaction.status === "ignored" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => statusMutation.mutate({ id: transaction.id, status: "unmatched" })}
+                          data-testid={`button-restore-${transaction.id}`}
+                        >
+                          Restore
+                        </Button>
+                      )}
+                      {transaction.status === "matched" && (
+                        <div className="flex items-center justify-end gap-2">
+                          <Badge variant="secondary">
+                            {transaction.matchedBillId ? "Bill paid" : "Payment recorded"}
+                          </Badge>
+                          {transaction.matchedBillId && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => statusMutation.mutate({ id: transaction.id, status: "unmatched" })}
+                              data-testid={`button-unmatch-${transaction.id}`}
+                            >
+                              Unmatch
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                  {isExpanded && (
+                    <TableRow>
+                      <TableCell colSpan={4} className="bg-muted/30">
+                        <MatchSuggestions transaction={transaction} />
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+// AI-META-BEGIN
+// AI-META: Page component - reports.tsx
+// OWNERSHIP: client/pages
+// ENTRYPOINTS: app router
+// DEPENDENCIES: react, components
+// DANGER: Review data fetching logic
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PageHeader } from "@/components/page-header";
+import { AR_AGING_BUCKETS, type ArAgingBucket } from "@shared/schema";
+
+type AgingTotals = Record<ArAgingBucket, number>;
+
+interface ArAgingReport {
+  asOf: string;
+  currency: string;
+  buckets: AgingTotals;
+  total: number;
+  unconverted: number;
+  clients: {
+    clientCompanyId: string | null;
+    clientName: string;
+    buckets: AgingTotals;
+    total: number;
+    invoices: {
+      id: string;
+      invoiceNumber: string;
+      dueDate: string | null;
+      daysPastDue: number;
+      bucket: ArAgingBucket;
+      currency: string;
+      balance: number;
+      balanceInBase: number | null;
+    }[];
+  }[];
+}
+
+interface TrialBalance {
+  asOf: string;
+  currency: string;
+  currencies: string[];
+  rows: { accountId: string; code: string; name: string; type: string; debit: number; credit: number }[];
+  totals: { debit: number; credit: number };
+}
+
+const bucketLabels: Record<ArAgingBucket, string> = {
+  current: "Current",
+  days_1_30: "1-30",
+  days_31_60: "31-60",
+  days_61_90: "61-90",
+  days_over_90: "90+",
+};
+
+const formatAmount = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Journal entries stay in their document currency, so each currency has its own trial balance
+function TrialBalanceCard() {
+  const [currency, setCurrency] = useState<string>();
+
+  const { data: trialBalance, isLoading } = useQuery<TrialBalance>({
+    queryKey: [currency ? `/api/reports/trial-balance?currency=${currency}` : "/api/reports/trial-balance"],
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Trial Balance</CardTitle>
+          <CardDescription>
+            Account balances from the general ledger
+            {trialBalance && ` in ${trialBalance.currency}, as of ${new Date(trialBalance.asOf).toLocaleDateString()}`}.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          {trialBalance && trialBalance.currencies.length > 1 && (
+            <Select value={trialBalance.currency} onValueChange={setCurrency}>
+              <SelectTrigger className="w-24" data-testid="select-trial-balance-currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {trialBalance.currencies.map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {code}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => window.open("/api/ledger/export?format=csv", "_blank")}
+            data-testid="button-export-journal-csv"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Journal CSV
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => window.open("/api/ledger/export?format=iif", "_blank")}
+            data-testid="button-export-journal-iif"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            QuickBooks IIF
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading && <p className="text-sm text-muted-foreground">Loading trial balance...</p>}
+        {trialBalance && trialBalance.rows.length === 0 && (
+          <p className="text-sm text-muted-foreground">No journal entries yet.</p>
+        )}
+        {trialBalance && trialBalance.rows.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Account</TableHead>
+                <TableHead className="text-right">Debit</TableHead>
+                <TableHead className="text-right">Credit</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {trialBalance.rows.map((row) => (
+                <TableRow key={row.accountId} data-testid={`row-trial-balance-${row.code}`}>
+                  <TableCell className="font-mono">{row.code}</TableCell>
+                  <TableCell>{row.name}</TableCell>
+                  <TableCell className="text-right font-mono">{row.debit ? formatAmount(row.debit) : ""}</TableCell>
+                  <TableCell className="text-right font-mono">{row.credit ? formatAmount(row.credit) : ""}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow className="font-medium">
+                <TableCell />
+                <TableCell>Total</TableCell>
+                <TableCell className="text-right font-mono">{formatAmount(trialBalance.totals.debit)}</TableCell>
+                <TableCell className="text-right font-mono">{formatAmount(trialBalance.totals.credit)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ReportsPage() {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const { data: report, isLoading } = useQuery<ArAgingReport>({
+    queryKey: ["/api/reports/ar-aging"],
+  });
+
+  const toggleClient = (key: string) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  return (
+    <div className="p-6">
+      <PageHeader title="Reports" description="Financial reports for your organization" />
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Accounts Receivable Aging</CardTitle>
+            <CardDescription>
+              Open invoice balances by days past due
+              {report && ` in ${report.currency}, as of ${new Date(report.asOf).toLocaleDateString()}`}.
+              Click a client to see its invoices.
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => window.open("/api/reports/ar-aging/export", "_blank")}
+            data-testid="button-export-ar-aging"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading && <p className="text-sm text-muted-foreground">Loading report...</p>}
+          {report && report.clients.length === 0 && (
+            <p className="text-sm text-muted-foreground">No outstanding invoices.</p>
+          )}
+          {report && report.clients.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Client</TableHead>
+                  {AR_AGING_BUCKETS.map((bucket) => (
+                    <TableHead key={bucket} className="text-right">
+                      {bucketLabels[bucket]}
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.clients.map((client) => {
+                  const key = client.clientCompanyId ?? "unassigned";
+                  const isExpanded = expanded.has(key);
+                  return (
+                    <Fragment key={key}>
+                      <TableRow
+                        className="cursor-pointer"
+                        onClick={() => toggleClient(key)}
+                        data-testid={`row-ar-aging-client-${key}`}
+                      >
+                        <TableCell className="font-medium">
+                          <span className="flex items-center gap-1">
+                            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                            {client.clientName}
+                          </span>
+                        </TableCell>
+                        {AR_AGING_BUCKETS.map((bucket) => (
+                          <TableCell key={bucket} className="text-right font-mono">
+                            {client.buckets[bucket] ? formatAmount(client.buckets[bucket]) : "-"}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right font-mono font-medium">{formatAmount(client.total)}</TableCell>
+                      </TableRow>
+                      {isExpanded &&
+                        client.invoices.map((invoice) => (
+                          <TableRow key={invoice.id} className="text-muted-foreground">
+                            <TableCell className="pl-10">
+                              <span className="font-mono">#{invoice.invoiceNumber}</span>
+                              <span className="ml-2 text-xs">
+                                {invoice.dueDate ? `due ${new Date(invoice.dueDate).toLocaleDateString()}` : "no due date"}
+                                {invoice.daysPastDue > 0 && ` · ${invoice.daysPastDue} days late`}
+                                {invoice.currency !== report.currency &&
+                                  ` · ${formatAmount(invoice.balance)} ${invoice.currency}`}
+                              </span>
+                            </TableCell>
+                            {AR_AGING_BUCKETS.map((bucket) => (
+                              <TableCell key={bucket} className="text-right font-mono">
+                                {invoice.bucket === bucket && invoice.balanceInBase !== null
+                                  ? formatAmount(invoice.balanceInBase)
+                                  : ""}
+                              </TableCell>
+                            ))}
+                            <TableCell className="text-right font-mono">
+                              {invoice.balanceInBase !== null ? formatAmount(invoice.balanceInBase) : "No rate"}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                    </Fragment>
+                  );
+                })}
+                <TableRow className="font-medium">
+                  <TableCell>Total</TableCell>
+                  {AR_AGING_BUCKETS.map((bucket) => (
+                    <TableCell key={bucket} className="text-right font-mono">
+                      {formatAmount(report.buckets[bucket])}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right font-mono" data-testid="text-ar-aging-total">
+                    {formatAmount(report.total)}
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+          {report && report.unconverted > 0 && (
+            <p className="mt-4 text-xs text-muted-foreground">
+              {report.unconverted} invoice(s) are excluded from the totals because no exchange rate is set for their
+              currency.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <TrialBalanceCard />
+    </div>
+  );
+}
@@ -0,0 +1,569 @@
+// AI-META-BEGIN
+// AI-META: Page component - timesheets.tsx
+// OWNERSHIP: client/pages
+// ENTRYPOINTS: app router
+// DEPENDENCIES: react, components
+// DANGER: Review data fetching logic; approved time becomes invoiceable
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+/**
+ * Weekly timesheet.
+ *
+ * Shows the signed-in user's time for one week (Monday to Sunday), lets them log entries
+ * and submit the week for approval. Admins and owners also see the weeks awaiting review
+ * and approve or reject them; rejected time can be corrected and submitted again.
+ *
+ * Dates are calendar days: they are sent as `YYYY-MM-DD` and displayed in UTC so they do
+ * not shift with the browser's time zone.
+ */
+
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { addDays, format, startOfWeek } from "date-fns";
+import { ChevronLeft, ChevronRight, Clock, Plus, Send, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { PageHeader } from "@/components/page-header";
+import { EmptyState } from "@/components/empty-state";
+import { invalidateTimeQueries } from "@/components/time-timer";
+import { useToast } from "@/hooks/use-toast";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest } from "@/lib/queryClient";
+import type { Project, Task, TimeEntry, TimeEntryStatus } from "@shared/schema";
+
+const entryFormSchema = z.object({
+  projectId: z.string().min(1, "Project is required"),
+  taskId: z.string().optional(),
+  date: z.string().min(1, "Date is required"),
+  hours: z.string().refine((value) => Number(value) > 0 && Number(value) <= 24, "Enter 0-24 hours"),
+  billable: z.boolean(),
+  hourlyRate: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+type EntryFormValues = z.infer<typeof entryFormSchema>;
+
+interface TimesheetResponse {
+  weekStart: string;
+  entries: TimeEntry[];
+  summary: {
+    days: { date: string; minutes: number }[];
+    totalMinutes: number;
+    billableMinutes: number;
+    status: TimeEntryStatus | "empty";
+  };
+}
+
+interface SubmittedTimesheet {
+  userId: string;
+  userName: string;
+  weekStart: string;
+  entryCount: number;
+  totalMinutes: number;
+  billableMinutes: number;
+}
+
+const statusVariants: Record<TimeEntryStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  draft: "outline",
+  submitted: "secondary",
+  approved: "default",
+  rejected: "destructive",
+};
+
+const formatHours = (minutes: number) => (minutes / 60).toFixed(2);
+const formatDay = (date: string | Date, pattern = "EEE, MMM d") => {
+  const value = new Date(date);
+  // Calendar dates arrive as UTC midnight
+  return format(new Date(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()), pattern);
+};
+
+function SubmittedTimesheetsCard() {
+  const { toast } = useToast();
+  // Only admins and owners get a list; for everyone else the request is refused and the card stays hidden
+  const { data: submitted, isError } = useQuery<SubmittedTimesheet[]>({
+    queryKey: ["/api/timesheets/submitted"],
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ timesheet, decision }: { timesheet: SubmittedTimesheet; decision: "approve" | "reject" }) => {
+      const note = decision === "reject" ? window.prompt("Reason for rejecting (optional)") : undefined;
+      if (note === null) return null;
+      return apiRequest("POST", `/api/timesheets/${decision}`, {
+        userId: timesheet.userId,
+        weekStart: formatDay(timesheet.weekStart, "yyyy-MM-dd"),
+        note: note || undefined,
+      });
+    },
+    onSuccess: (response, { decision }) => {
+      if (!response) return;
+      invalidateTimeQueries();
+      toast({ title: decision === "approve" ? "Timesheet approved" : "Timesheet rejected" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to review timesheet", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isError || !submitted?.length) return null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Awaiting Approval</CardTitle>
+        <CardDescription>Approved billable time can be invoiced from its engagement.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Person</TableHead>
+              <TableHead>Week of</TableHead>
+              <TableHead className="text-right">Hours</TableHead>
+              <TableHead className="text-right">Billable</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {submitted.map((timesheet) => (
+              <TableRow key={`${timesheet.userId}-${timesheet.weekStart}`}>
+                <TableCell className="font-medium">{timesheet.userName}</TableCell>
+                <TableCell>{formatDay(timesheet.weekStart, "MMM d, yyyy")}</TableCell>
+                <TableCell className="text-right font-mono">{formatHours(timesheet.totalMinutes)}</TableCell>
+                <TableCell className="text-right font-mono">{formatHours(timesheet.billableMinutes)}</TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => reviewMutation.mutate({ timesheet, decision: "approve" })}
+                      disabled={reviewMutation.isPending}
+                      data-testid={`button-approve-timesheet-${timesheet.userId}`}
+                    >
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => reviewMutation.mutate({ timesheet, decision: "reject" })}
+                      disabled={reviewMutation.isPending}
+                      data-testid={`button-reject-timesheet-${timesheet.userId}`}
+                    >
+                      Reject
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function TimesheetsPage() {
+  const { toast } = useToast();
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const weekParam = format(weekStart, "yyyy-MM-dd");
+
+  const form = useForm<EntryFormValues>({
+    resolver: zodResolver(entryFormSchema),
+    defaultValues: {
+      projectId: "",
+      taskId: "",
+      date: format(new Date(), "yyyy-MM-dd"),
+      hours: "",
+      billable: true,
+      hourlyRate: "",
+      notes: "",
+    },
+  });
+
+  const { data: timesheet, isLoading } = useQuery<TimesheetResponse>({
+    queryKey: [`/api/timesheets?weekStart=${weekParam}`],
+  });
+  const { data: projects } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+  const { data: tasks } = useQuery<Task[]>({
+    queryKey: ["/api/tasks"],
+  });
+
+  const projectNames = new Map(projects?.map((project) => [project.id, project.name]));
+  const taskNames = new Map(tasks?.map((task) => [task.id, task.name]));
+  const selectedProjectId = useWatch({ control: form.control, name: "projectId" });
+  const projectTasks = tasks?.filter((task) => task.projectId === selectedProjectId) ?? [];
+
+  const createMutation = useMutation({
+    mutationFn: async (values: EntryFormValues) => {
+      return apiRequest("POST", "/api/time-entries", {
+        projectId: values.projectId,
+        taskId: values.taskId || null,
+        date: values.date,
+        durationMinutes: Math.round(Number(values.hours) * 60),
+        billable: values.billable,
+        hourlyRate: values.hourlyRate ? parseFloat(values.hourlyRate) : null,
+        notes: values.notes || null,
+      });
+    },
+    onSuccess: () => {
+      invalidateTimeQueries();
+      setIsDialogOpen(false);
+      form.reset({ ...form.getValues(), hours: "", notes: "" });
+      toast({ title: "Time logged" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to log time", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/time-entries/${id}`);
+    },
+    onSuccess: () => {
+      invalidateTimeQueries();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete entry", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/timesheets/submit", { weekStart: weekParam });
+    },
+    onSuccess: () => {
+      invalidateTimeQueries();
+      toast({ title: "Timesheet submitted for approval" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to submit timesheet", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const summary = timesheet?.summary;
+  const entries = timesheet?.entries ?? [];
+  const canSubmit = entries.some((entry) => entry.status === "draft" || entry.status === "rejected");
+  const rejectionNote = entries.find((entry) => entry.status === "rejected" && entry.reviewNote)?.reviewNote;
+
+  return (
+    <div className="p-6">
+      <PageHeader
+        title="Timesheets"
+        description="Log time against projects and submit your week for approval"
+        actions={
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsDialogOpen(true)} data-testid="button-log-time">
+              <Plus className="h-4 w-4 mr-2" />
+              Log Time
+            </Button>
+            <Button
+              onClick={() => submitMutation.mutate()}
+              disabled={!canSubmit || submitMutation.isPending}
+              data-testid="button-submit-timesheet"
+            >
+              <Send className="h-4 w-4 mr-2" />
+              Submit Week
+            </Button>
+          </div>
+        }
+      />
+
+      <SubmittedTimesheetsCard />
+
+      <div className="flex items-center gap-2 mb-4">
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => setWeekStart(addDays(weekStart, -7))}
+          data-testid="button-previous-week"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="font-medium" data-testid="text-week">
+          {format(weekStart, "MMM d")} - {format(addDays(weekStart, 6), "MMM d, yyyy")}
+        </span>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => setWeekStart(addDays(weekStart, 7))}
+          data-testid="button-next-week"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }))}
+        >
+          This week
+        </Button>
+        {summary && summary.status !== "empty" && (
+          <Badge variant={statusVariants[summary.status]} className="ml-auto capitalize">
+            {summary.status}
+          </Badge>
+        )}
+      </div>
+
+      {rejectionNote && (
+        <p className="mb-4 text-sm text-destructive" data-testid="text-rejection-note">
+          Rejected: {rejectionNote}
+        </p>
+      )}
+
+      {summary && (
+        <div className="grid grid-cols-8 gap-2 mb-6">
+          {summary.days.map((day) => (
+            <Card key={day.date}>
+              <CardContent className="p-3 text-center">
+                <p className="text-xs text-muted-foreground">{formatDay(day.date, "EEE d")}</p>
+                <p className="font-mono">{formatHours(day.minutes)}</p>
+              </CardContent>
+            </Card>
+          ))}
+          <Card>
+            <CardContent className="p-3 text-center">
+              <p className="text-xs text-muted-foreground">Total ({formatHours(summary.billableMinutes)} billable)</p>
+              <p className="font-mono font-semibold" data-testid="text-week-total">
+                {formatHours(summary.totalMinutes)}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {isLoading && <p className="text-sm text-muted-foreground">Loading timesheet...</p>}
+      {!isLoading && entries.length === 0 && (
+        <EmptyState
+          icon={Clock}
+          title="No time logged this week"
+          description="Log time here or start a timer from the header."
+        />
+      )}
+      {entries.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Project / Task</TableHead>
+              <TableHead>Notes</TableHead>
+              <TableHead className="text-right">Hours</TableHead>
+              <TableHead className="text-right">Rate</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map((entry) => {
+              const editable = !entry.invoiceId && (entry.status === "draft" || entry.status === "rejected");
+              return (
+                <TableRow key={entry.id} data-testid={`row-time-entry-${entry.id}`}>
+                  <TableCell>{formatDay(entry.date)}</TableCell>
+                  <TableCell>
+                    <p className="font-medium">{projectNames.get(entry.projectId) ?? "Project"}</p>
+                    {entry.taskId && (
+                      <p className="text-xs text-muted-foreground">{taskNames.get(entry.taskId)}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-xs truncate text-muted-foreground">{entry.notes}</TableCell>
+                  <TableCell className="text-right font-mono">
+                    {entry.timerStartedAt ? "running" : formatHours(entry.durationMinutes)}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {entry.billable ? (entry.hourlyRate ?? "-") : "non-billable"}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={statusVariants[entry.status as TimeEntryStatus]} className="capitalize">
+                      {entry.invoiceId ? "invoiced" : entry.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {editable && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(entry.id)}
+                        data-testid={`button-delete-time-entry-${entry.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Log Time</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((values) => createMutation.mutate(values))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="projectId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Project</FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        form.setValue("taskId", "");
+                      }}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-time-project">
+                          <SelectValue placeholder="Select a project" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {projects?.map((project) => (
+                          <SelectItem key={project.id} value={project.id}>
+                            {project.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {projectTasks.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="taskId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Task</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-time-task">
+                            <SelectValue placeholder="Optional" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {projectTasks.map((task) => (
+                            <SelectItem key={task.id} value={task.id}>
+                              {task.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              )}
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-time-date" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="hours"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Hours</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.25" min="0" {...field} data-testid="input-time-hours" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="hourlyRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Hourly rate</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" min="0" {...field} data-testid="input-time-rate" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-time-notes" />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="billable"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                        data-testid="checkbox-time-billable"
+                      />
+                    </FormControl>
+                    <FormLabel>Billable</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createMutation.isPending} data-testid="button-save-time-entry">
+                  Save
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,421 @@
+// AI-META-BEGIN
+// AI-META: Page component - vendors.tsx
+// OWNERSHIP: client/pages
+// ENTRYPOINTS: app router
+// DEPENDENCIES: react, components
+// DANGER: Review data fetching logic
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:frontend
+// AI-META-END
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Truck, Search, MoreHorizontal, Pencil, Trash2, Eye, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Textarea } from "@/components/ui/textarea";
+import { PageHeader } from "@/components/page-header";
+import { DataTable } from "@/components/data-table";
+import { EmptyState } from "@/components/empty-state";
+import { VendorDetailDialog } from "@/components/vendor-detail-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Vendor } from "@shared/schema";
+
+const vendorFormSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  contactName: z.string().optional(),
+  email: z.union([z.string().email("Invalid email"), z.literal("")]).optional(),
+  phone: z.string().optional(),
+  address: z.string().optional(),
+  taxId: z.string().optional(),
+  isContractor: z.boolean(),
+});
+
+type VendorFormValues = z.infer<typeof vendorFormSchema>;
+
+const defaultValues: VendorFormValues = {
+  name: "",
+  contactName: "",
+  email: "",
+  phone: "",
+  address: "",
+  taxId: "",
+  isContractor: false,
+};
+
+// Year-end contractor payment summaries are filed for the previous calendar year
+const contractorSummaryYear = new Date().getFullYear() - 1;
+
+export default function VendorsPage() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [editingVendor, setEditingVendor] = useState<Vendor | null>(null);
+  const [detailVendor, setDetailVendor] = useState<Vendor | null>(null);
+
+  const form = useForm<VendorFormValues>({
+    resolver: zodResolver(vendorFormSchema),
+    defaultValues,
+  });
+
+  const { data: vendors, isLoading } = useQuery<Vendor[]>({
+    queryKey: ["/api/vendors"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: VendorFormValues) => {
+      return apiRequest("POST", "/api/vendors", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
+      setIsDialogOpen(false);
+      form.reset(defaultValues);
+      toast({ title: "Vendor created successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to create vendor", variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...data }: VendorFormValues & { id: string }) => {
+      return apiRequest("PATCH", `/api/vendors/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
+      setIsDialogOpen(false);
+      setEditingVendor(null);
+      form.reset(defaultValues);
+      toast({ title: "Vendor updated successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to update vendor", variant: "destructive" });
+    },
+  });
+
+  // The server refuses to delete vendors that have bills
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/vendors/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
+      toast({ title: "Vendor deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete vendor", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const onSubmit = (data: VendorFormValues) => {
+    if (editingVendor) {
+      updateMutation.mutate({ ...data, id: editingVendor.id });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const handleEdit = (vendor: Vendor) => {
+    setEditingVendor(vendor);
+    form.reset({
+      name: vendor.name,
+      contactName: vendor.contactName || "",
+      email: vendor.email || "",
+      phone: vendor.phone || "",
+      address: vendor.address || "",
+      taxId: vendor.taxId || "",
+      isContractor: vendor.isContractor,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDialogClose = () => {
+    setIsDialogOpen(false);
+    setEditingVendor(null);
+    form.reset(defaultValues);
+  };
+
+  const filteredVendors = vendors?.filter((vendor) =>
+    vendor.name.toLowerCase().includes(searchQuery.toLowerCase()),
+  );
+
+  const columns = [
+    {
+      header: "Vendor",
+      accessor: (vendor: Vendor) => (
+        <div className="flex items-center gap-3">
+          <div className="flex h-9 w-9 items-center justify-center rounded-lg bg-muted">
+            <Truck className="h-4 w-4 text-muted-foreground" />
+          </div>
+          <div>
+            <p className="font-medium">
+              {vendor.name}
+              {vendor.isContractor && (
+                <Badge variant="secondary" className="ml-2">
+                  Contractor
+                </Badge>
+              )}
+            </p>
+            <p className="text-xs text-muted-foreground">{vendor.contactName || vendor.email || "-"}</p>
+          </div>
+        </div>
+      ),
+    },
+    {
+      header: "Email",
+      accessor: (vendor: Vendor) => <span className="text-muted-foreground">{vendor.email || "-"}</span>,
+    },
+    {
+      header: "Tax ID",
+      accessor: (vendor: Vendor) => <span className="font-mono text-muted-foreground">{vendor.taxId || "-"}</span>,
+    },
+    {
+      header: "",
+      className: "w-12",
+      accessor: (vendor: Vendor) => (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={(e) => e.stopPropagation()}
+              data-testid={`button-vendor-menu-${vendor.id}`}
+            >
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+            <DropdownMenuItem onClick={() => setDetailVendor(vendor)}>
+              <Eye className="h-4 w-4 mr-2" />
+              View
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleEdit(vendor)}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit
+            </DropdownMenuItem>
+            <DropdownMenuItem className="text-destructive" onClick={() => deleteMutation.mutate(vendor.id)}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ),
+    },
+  ];
+
+  return (
+    <div className="p-6">
+      <PageHeader
+        title="Vendors"
+        description="Manage suppliers and contractors"
+        actions={
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() =>
+                window.open(`/api/vendors/contractor-payments?year=${contractorSummaryYear}&format=csv`, "_blank")
+              }
+              data-testid="button-export-contractor-payments"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              {contractorSummaryYear} Contractor Payments
+            </Button>
+            <Dialog open={isDialogOpen} onOpenChange={handleDialogClose}>
+              <DialogTrigger asChild>
+                <Button onClick={() => setIsDialogOpen(true)} data-testid="button-add-vendor">
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Vendor
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-lg">
+                <DialogHeader>
+                  <DialogTitle>{editingVendor ? "Edit Vendor" : "New Vendor"}</DialogTitle>
+                </DialogHeader>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="name"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Name *</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Acme Supplies" {...field} data-testid="input-vendor-name" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="contactName"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Contact</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Jane Doe" {...field} data-testid="input-vendor-contact" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="email"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Email</FormLabel>
+                            <FormControl>
+                              <Input type="email" {...field} data-testid="input-vendor-email" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="phone"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Phone</FormLabel>
+                            <FormControl>
+                              <Input {...field} data-testid="input-vendor-phone" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="taxId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Tax ID</FormLabel>
+                            <FormControl>
+                              <Input placeholder="EIN or SSN" {...field} data-testid="input-vendor-tax-id" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <FormField
+                      control={form.control}
+                      name="address"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Address</FormLabel>
+                          <FormControl>
+                            <Textarea className="resize-none" {...field} data-testid="input-vendor-address" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="isContractor"
+                      render={({ field }) => (
+                        <FormItem className="flex items-center gap-2 space-y-0">
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              data-testid="switch-vendor-contractor"
+                            />
+                          </FormControl>
+                          <FormLabel>Independent contractor (included in the year-end summary)</FormLabel>
+                        </FormItem>
+                      )}
+                    />
+                    <div className="flex justify-end gap-2 pt-4">
+                      <Button type="button" variant="outline" onClick={handleDialogClose}>
+                        Cancel
+                      </Button>
+                      <Button
+                        type="submit"
+                        disabled={createMutation.isPending || updateMutation.isPending}
+                        data-testid="button-save-vendor"
+                      >
+                        {createMutation.isPending || updateMutation.isPending ? "Saving..." : "Save"}
+                      </Button>
+                    </div>
+                  </form>
+                </Form>
+              </DialogContent>
+            </Dialog>
+          </div>
+        }
+      />
+
+      <div className="mb-6">
+        <div className="relative max-w-sm">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            type="search"
+            placeholder="Search vendors..."
+            className="pl-9"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            data-testid="input-search-vendors"
+          />
+        </div>
+      </div>
+
+      {!isLoading && (!vendors || vendors.length === 0) ? (
+        <EmptyState
+          icon={Truck}
+          title="No vendors yet"
+          description="Add the suppliers and contractors you pay."
+          action={
+            <Button onClick={() => setIsDialogOpen(true)} data-testid="button-add-first-vendor">
+              <Plus className="h-4 w-4 mr-2" />
+              New Vendor
+            </Button>
+          }
+        />
+      ) : (
+        <DataTable
+          columns={columns}
+          data={filteredVendors || []}
+          isLoading={isLoading}
+          onRowClick={(vendor) => setDetailVendor(vendor)}
+          getRowKey={(vendor) => vendor.id}
+          emptyMessage="No vendors found"
+        />
+      )}
+
+      <VendorDetailDialog vendor={detailVendor} onClose={() => setDetailVendor(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+-- Migration: Deal pipelines
+-- Description: Replaces the fixed deal_stage enum with organization-defined pipelines and
+-- stages. Every organization gets a default "Sales" pipeline whose stages match the former
+-- enum values, and existing deals are moved onto the matching stage.
+
+BEGIN;
+
+-- Create deal_pipelines table
+CREATE TABLE deal_pipelines (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_deal_pipelines_org ON deal_pipelines(organization_id);
+CREATE UNIQUE INDEX idx_deal_pipelines_org_name ON deal_pipelines(organization_id, name);
+
+-- Create deal_stages table
+-- Ordered stages of a pipeline with their default win probability and won/lost flags
+CREATE TABLE deal_stages (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  pipeline_id VARCHAR NOT NULL REFERENCES deal_pipelines(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  position INTEGER NOT NULL,
+  probability INTEGER NOT NULL DEFAULT 0,
+  is_won BOOLEAN NOT NULL DEFAULT FALSE,
+  is_lost BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_deal_stages_pipeline ON deal_stages(pipeline_id, position);
+
+-- Give every organization the default pipeline (same stages as server/domains/crm/pipelines.ts)
+INSERT INTO deal_pipelines (organization_id, name, is_default)
+SELECT id, 'Sales', TRUE FROM organizations;
+
+INSERT INTO deal_stages (organization_id, pipeline_id, name, position, probability, is_won, is_lost)
+SELECT p.organization_id, p.id, s.name, s.position, s.probability, s.is_won, s.is_lost
+FROM deal_pipelines p
+CROSS JOIN (
+  VALUES
+    ('Lead', 0, 10, FALSE, FALSE),
+    ('Qualified', 1, 25, FALSE, FALSE),
+    ('Proposal', 2, 50, FALSE, FALSE),
+    ('Negotiation', 3, 75, FALSE, FALSE),
+    ('Won', 4, 100, TRUE, FALSE),
+    ('Lost', 5, 0, FALSE, TRUE)
+) AS s(name, position, probability, is_won, is_lost);
+
+-- Move deals onto the stage matching their former enum value
+ALTER TABLE deals ADD COLUMN pipeline_id VARCHAR REFERENCES deal_pipelines(id);
+ALTER TABLE deals ADD COLUMN stage_id VARCHAR REFERENCES deal_stages(id);
+ALTER TABLE deals ADD COLUMN status VARCHAR(20) NOT NULL DEFAULT 'open';
+
+UPDATE deals d
+SET pipeline_id = s.pipeline_id,
+    stage_id = s.id,
+    status = CASE d.stage WHEN 'won' THEN 'won' WHEN 'lost' THEN 'lost' ELSE 'open' END
+FROM deal_stages s
+WHERE s.organization_id = d.organization_id
+  AND lower(s.name) = d.stage::text;
+
+ALTER TABLE deals ALTER COLUMN pipeline_id SET NOT NULL;
+ALTER TABLE deals ALTER COLUMN stage_id SET NOT NULL;
+
+DROP INDEX IF EXISTS idx_deals_stage;
+ALTER TABLE deals DROP COLUMN stage;
+DROP TYPE deal_stage;
+
+CREATE INDEX idx_deals_stage ON deals(stage_id);
+CREATE INDEX idx_deals_pipeline_status ON deals(pipeline_id, status);
+
+COMMIT;
@@ -0,0 +1,24 @@
+-- Migration: Deal stage history
+-- Description: Records every stage change of a deal (who moved it, when, from and to which
+-- stage) for time-in-stage and conversion metrics. Existing deals get a single row for the
+-- stage they are in now, dated when the deal was created.
+
+BEGIN;
+
+CREATE TABLE deal_stage_history (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  deal_id VARCHAR NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+  from_stage_id VARCHAR REFERENCES deal_stages(id) ON DELETE SET NULL,
+  to_stage_id VARCHAR REFERENCES deal_stages(id) ON DELETE SET NULL,
+  moved_by_id VARCHAR,
+  moved_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_deal_stage_history_deal ON deal_stage_history(deal_id, moved_at);
+CREATE INDEX idx_deal_stage_history_org ON deal_stage_history(organization_id, moved_at);
+
+INSERT INTO deal_stage_history (organization_id, deal_id, from_stage_id, to_stage_id, moved_by_id, moved_at)
+SELECT organization_id, id, NULL, stage_id, owner_id, created_at FROM deals;
+
+COMMIT;
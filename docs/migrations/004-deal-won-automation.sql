@@ -0,0 +1,35 @@
+-- Migration: Deal won automation
+-- Description: Adds the organization setting that opens an engagement when a deal is won and
+-- the table recording which won deals the post-sale chain has run for. Deals that are already
+-- won are recorded as done, so editing them later does not draft contracts retroactively.
+
+BEGIN;
+
+ALTER TABLE organizations
+  ADD COLUMN create_engagement_on_deal_won BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE deal_won_automations (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  deal_id VARCHAR NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+  proposal_id VARCHAR REFERENCES proposals(id) ON DELETE SET NULL,
+  contract_id VARCHAR REFERENCES contracts(id) ON DELETE SET NULL,
+  engagement_id VARCHAR REFERENCES engagements(id) ON DELETE SET NULL,
+  owner_notified_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_deal_won_automations_org ON deal_won_automations(organization_id);
+CREATE UNIQUE INDEX idx_deal_won_automations_deal ON deal_won_automations(deal_id);
+
+INSERT INTO deal_won_automations (organization_id, deal_id, contract_id, engagement_id, owner_notified_at)
+SELECT
+  d.organization_id,
+  d.id,
+  (SELECT c.id FROM contracts c WHERE c.deal_id = d.id ORDER BY c.created_at DESC LIMIT 1),
+  (SELECT e.id FROM engagements e WHERE e.deal_id = d.id ORDER BY e.created_at DESC LIMIT 1),
+  NOW()
+FROM deals d
+WHERE d.status = 'won';
+
+COMMIT;
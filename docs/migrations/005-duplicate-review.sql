@@ -0,0 +1,24 @@
+-- Migration: Duplicate review
+-- Description: Adds the "merged" activity type logged when a duplicate client or contact is
+-- merged, and the table of record pairs users marked as not duplicates (ids sorted, one row
+-- per pair) so they drop out of the review queue.
+
+-- Enum values cannot be added inside a transaction block before PostgreSQL 12
+ALTER TYPE activity_type ADD VALUE IF NOT EXISTS 'merged';
+
+BEGIN;
+
+CREATE TABLE duplicate_dismissals (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  entity_type VARCHAR(20) NOT NULL,
+  first_id VARCHAR NOT NULL,
+  second_id VARCHAR NOT NULL,
+  dismissed_by_id VARCHAR NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_duplicate_dismissals_pair
+  ON duplicate_dismissals(organization_id, entity_type, first_id, second_id);
+
+COMMIT;
@@ -0,0 +1,7 @@
+-- Migration: Data exports
+-- Description: Adds the "exported" activity type. Every CSV or XLSX export of a list
+-- (clients, invoices, ...) is recorded in activity_events with entity_type 'export', the
+-- exported list as entity_id, and the format, filters and row count in metadata.
+
+-- Enum values cannot be added inside a transaction block before PostgreSQL 12
+ALTER TYPE activity_type ADD VALUE IF NOT EXISTS 'exported';
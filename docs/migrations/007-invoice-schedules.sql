@@ -0,0 +1,18 @@
+-- Migration: Recurring invoice schedules
+-- Description: Adds the columns the recurring invoice generator needs to invoice_schedules:
+-- payment terms, an active flag and the last generation time. Schedules whose next date has
+-- already passed are created inactive, so the generator does not catch up on periods that were
+-- invoiced by hand before it existed; they can be reactivated once their next date is set.
+
+BEGIN;
+
+ALTER TABLE invoice_schedules ADD COLUMN payment_terms_days INTEGER NOT NULL DEFAULT 30;
+ALTER TABLE invoice_schedules ADD COLUMN is_active BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE invoice_schedules ADD COLUMN last_generated_at TIMESTAMP;
+ALTER TABLE invoice_schedules ADD COLUMN updated_at TIMESTAMP NOT NULL DEFAULT NOW();
+
+UPDATE invoice_schedules SET is_active = FALSE WHERE next_invoice_date < NOW();
+
+CREATE INDEX idx_schedules_next_date ON invoice_schedules(next_invoice_date);
+
+COMMIT;
@@ -0,0 +1,58 @@
+-- Migration: Invoice payment ledger
+-- Description: Turns payments into the ledger an invoice's paid amount and status are derived
+-- from. Payments get their invoice's organization, audit columns and void fields, and invoices
+-- take the new partially_paid status. Invoices marked paid before the ledger existed get one
+-- payment for what they show as paid, so resyncing them from the ledger keeps them paid.
+
+-- Enum values cannot be added inside a transaction block before PostgreSQL 12
+ALTER TYPE invoice_status ADD VALUE IF NOT EXISTS 'partially_paid' AFTER 'viewed';
+
+BEGIN;
+
+-- Payments are scoped to their invoice's organization
+ALTER TABLE payments ADD COLUMN organization_id VARCHAR REFERENCES organizations(id) ON DELETE CASCADE;
+
+UPDATE payments p
+SET organization_id = i.organization_id
+FROM invoices i
+WHERE i.id = p.invoice_id;
+
+ALTER TABLE payments ALTER COLUMN organization_id SET NOT NULL;
+
+-- Voided payments stay in the ledger for audit but no longer count toward paid_amount
+ALTER TABLE payments ADD COLUMN created_by_id VARCHAR;
+ALTER TABLE payments ADD COLUMN voided_at TIMESTAMP;
+ALTER TABLE payments ADD COLUMN voided_by_id VARCHAR;
+ALTER TABLE payments ADD COLUMN void_reason TEXT;
+ALTER TABLE payments ADD COLUMN created_at TIMESTAMP NOT NULL DEFAULT NOW();
+
+UPDATE payments SET created_at = paid_at;
+
+CREATE INDEX idx_payments_org ON payments(organization_id);
+
+-- Record what invoices already show as paid when they have no payments to show for it
+INSERT INTO payments (organization_id, invoice_id, amount, paid_at, notes, created_at)
+SELECT
+  i.organization_id,
+  i.id,
+  CASE WHEN i.paid_amount > 0 THEN i.paid_amount ELSE i.total_amount END,
+  COALESCE(i.paid_at, i.updated_at),
+  'Recorded before the payment ledger',
+  COALESCE(i.paid_at, i.updated_at)
+FROM invoices i
+WHERE (i.paid_amount > 0 OR i.status = 'paid')
+  AND NOT EXISTS (SELECT 1 FROM payments p WHERE p.invoice_id = i.id);
+
+-- Bring paid_amount and status in line with the ledger
+UPDATE invoices i
+SET paid_amount = t.paid
+FROM (SELECT invoice_id, SUM(amount) AS paid FROM payments GROUP BY invoice_id) t
+WHERE t.invoice_id = i.id;
+
+UPDATE invoices
+SET status = 'partially_paid'
+WHERE status IN ('sent', 'viewed')
+  AND paid_amount > 0
+  AND paid_amount < total_amount;
+
+COMMIT;
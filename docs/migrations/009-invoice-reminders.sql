@@ -0,0 +1,22 @@
+-- Migration: Invoice reminders
+-- Description: Adds the organization's reminder schedule (days relative to an invoice's due
+-- date, negative = before; NULL uses the default -3, 0, 7, 14) and the table recording which
+-- reminders were sent, so each step of the sequence goes out once per invoice.
+
+BEGIN;
+
+ALTER TABLE organizations ADD COLUMN invoice_reminder_days JSONB;
+
+CREATE TABLE invoice_reminders (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  invoice_id VARCHAR NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  offset_days INTEGER NOT NULL,
+  recipient VARCHAR(255) NOT NULL,
+  sent_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_invoice_reminders_org ON invoice_reminders(organization_id);
+CREATE UNIQUE INDEX idx_invoice_reminders_step ON invoice_reminders(invoice_id, offset_days);
+
+COMMIT;
@@ -0,0 +1,27 @@
+-- Migration: Invoice and bill currencies
+-- Description: Lets invoices and bills be issued in another currency (NULL = the
+-- organization's base currency, which is what existing documents keep) and adds the
+-- organization's exchange rates. A rate is units of base_currency per 1 unit of currency,
+-- valid from effective_date until the next rate for the same pair.
+
+BEGIN;
+
+ALTER TABLE invoices ADD COLUMN currency VARCHAR(3);
+ALTER TABLE bills ADD COLUMN currency VARCHAR(3);
+
+CREATE TABLE exchange_rates (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  currency VARCHAR(3) NOT NULL,
+  base_currency VARCHAR(3) NOT NULL,
+  rate DECIMAL(18, 8) NOT NULL,
+  effective_date TIMESTAMP NOT NULL,
+  source VARCHAR(20) NOT NULL DEFAULT 'manual',
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_exchange_rates_org ON exchange_rates(organization_id);
+CREATE UNIQUE INDEX idx_exchange_rates_pair_date
+  ON exchange_rates(organization_id, currency, base_currency, effective_date);
+
+COMMIT;
@@ -0,0 +1,19 @@
+-- Migration: Tax rates
+-- Description: Adds the organization's named tax rates (e.g. "VAT 20%"), which invoice line
+-- items reference by id. rate is a percentage, e.g. 20.0000 for 20%.
+
+BEGIN;
+
+CREATE TABLE tax_rates (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  rate DECIMAL(7, 4) NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_tax_rates_org ON tax_rates(organization_id);
+
+COMMIT;
@@ -0,0 +1,47 @@
+-- Migration: Document numbering sequences
+-- Description: Adds one gapless counter per organization and document type (invoice, bill,
+-- credit_note). period is the reset period the counter belongs to (e.g. '2026' or '2026-03').
+-- Sequences are otherwise created with the default pattern on first use; organizations that
+-- already have numbers in the default pattern for this year start after the highest of them.
+
+BEGIN;
+
+CREATE TABLE numbering_sequences (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  document_type VARCHAR(20) NOT NULL,
+  pattern VARCHAR(100) NOT NULL,
+  reset_period VARCHAR(20) NOT NULL DEFAULT 'yearly',
+  period VARCHAR(20) NOT NULL DEFAULT '',
+  next_value INTEGER NOT NULL DEFAULT 1,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_numbering_sequences_org_type ON numbering_sequences(organization_id, document_type);
+
+-- Continue after existing numbers in the default patterns (same as server/domains/revenue/numbering.ts)
+INSERT INTO numbering_sequences (organization_id, document_type, pattern, reset_period, period, next_value)
+SELECT
+  organization_id,
+  'invoice',
+  'INV-{YYYY}-{0000}',
+  'yearly',
+  to_char(NOW(), 'YYYY'),
+  MAX(substring(invoice_number FROM '^INV-' || to_char(NOW(), 'YYYY') || '-(\d+)$')::INTEGER) + 1
+FROM invoices
+WHERE invoice_number ~ ('^INV-' || to_char(NOW(), 'YYYY') || '-\d+$')
+GROUP BY organization_id;
+
+INSERT INTO numbering_sequences (organization_id, document_type, pattern, reset_period, period, next_value)
+SELECT
+  organization_id,
+  'bill',
+  'BILL-{YYYY}-{0000}',
+  'yearly',
+  to_char(NOW(), 'YYYY'),
+  MAX(substring(bill_number FROM '^BILL-' || to_char(NOW(), 'YYYY') || '-(\d+)$')::INTEGER) + 1
+FROM bills
+WHERE bill_number ~ ('^BILL-' || to_char(NOW(), 'YYYY') || '-\d+$')
+GROUP BY organization_id;
+
+COMMIT;
@@ -0,0 +1,52 @@
+-- Migration: Credit notes and refunds
+-- Description: Adds credit notes, which reduce what the client owes on an issued invoice, and
+-- refunds of money returned against a specific payment. Both are netted into the invoice:
+-- credited_amount is the sum of non-voided credit notes and, like paid_amount, is derived
+-- rather than edited. Credit notes are voided rather than deleted.
+
+BEGIN;
+
+ALTER TABLE invoices ADD COLUMN credited_amount DECIMAL(12, 2);
+
+CREATE TABLE credit_notes (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  invoice_id VARCHAR NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  credit_note_number VARCHAR(50) NOT NULL,
+  currency VARCHAR(3),
+  amount DECIMAL(12, 2) NOT NULL,
+  tax DECIMAL(12, 2) DEFAULT 0,
+  total_amount DECIMAL(12, 2) NOT NULL,
+  line_items JSONB,
+  reason TEXT NOT NULL,
+  issued_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  created_by_id VARCHAR,
+  voided_at TIMESTAMP,
+  voided_by_id VARCHAR,
+  void_reason TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_credit_notes_org ON credit_notes(organization_id);
+CREATE INDEX idx_credit_notes_invoice ON credit_notes(invoice_id);
+
+CREATE TABLE refunds (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  invoice_id VARCHAR NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  payment_id VARCHAR NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  credit_note_id VARCHAR REFERENCES credit_notes(id) ON DELETE SET NULL,
+  amount DECIMAL(12, 2) NOT NULL,
+  refund_method VARCHAR(50),
+  reference_number VARCHAR(100),
+  refunded_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  notes TEXT,
+  created_by_id VARCHAR,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_refunds_org ON refunds(organization_id);
+CREATE INDEX idx_refunds_invoice ON refunds(invoice_id);
+CREATE INDEX idx_refunds_payment ON refunds(payment_id);
+
+COMMIT;
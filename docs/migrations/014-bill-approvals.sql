@@ -0,0 +1,43 @@
+-- Migration: Bill approval chains
+-- Description: Adds the organization's bill approval policies and each bill's approval chain.
+-- Every active policy whose conditions match a bill contributes its steps (JSON, validated by
+-- billApprovalStepRuleSchema) to the chain, in priority order. Existing bills have no chain
+-- and are decided in one step, as before, until their amount, currency or engagement changes.
+
+BEGIN;
+
+CREATE TABLE bill_approval_policies (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  min_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  engagement_bills_only BOOLEAN NOT NULL DEFAULT FALSE,
+  steps JSONB NOT NULL,
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_bill_approval_policies_org ON bill_approval_policies(organization_id);
+
+CREATE TABLE bill_approval_steps (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  bill_id VARCHAR NOT NULL REFERENCES bills(id) ON DELETE CASCADE,
+  policy_id VARCHAR REFERENCES bill_approval_policies(id) ON DELETE SET NULL,
+  position INTEGER NOT NULL,
+  approver_type VARCHAR(30) NOT NULL,
+  approver_role member_role,
+  approver_user_id VARCHAR,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  decided_by_id VARCHAR,
+  decided_at TIMESTAMP,
+  comment TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_bill_approval_steps_bill ON bill_approval_steps(bill_id);
+CREATE UNIQUE INDEX idx_bill_approval_steps_position ON bill_approval_steps(bill_id, position);
+
+COMMIT;
@@ -0,0 +1,12 @@
+-- Migration: Vendor details
+-- Description: Adds the vendor's contact name, tax id (EIN/SSN or foreign tax id) and whether
+-- they are an independent contractor. Contractors are listed in the year-end contractor
+-- payment summary (1099-NEC).
+
+BEGIN;
+
+ALTER TABLE vendors ADD COLUMN contact_name VARCHAR(255);
+ALTER TABLE vendors ADD COLUMN tax_id VARCHAR(50);
+ALTER TABLE vendors ADD COLUMN is_contractor BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMIT;
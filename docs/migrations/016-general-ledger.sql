@@ -0,0 +1,54 @@
+-- Migration: General ledger
+-- Description: Adds the chart of accounts and double-entry journal. Each organization's system
+-- accounts (cash, receivables, payables, sales tax, revenue, expenses) are created on its first
+-- posting. Documents that already exist are posted the next time they are written; entries are
+-- never edited, and undoing one posts a reversing entry linked through reversed_by_id.
+
+BEGIN;
+
+CREATE TABLE ledger_accounts (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  code VARCHAR(20) NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  type VARCHAR(20) NOT NULL,
+  system_key VARCHAR(50),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_ledger_accounts_org_code ON ledger_accounts(organization_id, code);
+CREATE UNIQUE INDEX idx_ledger_accounts_org_system_key ON ledger_accounts(organization_id, system_key);
+
+CREATE TABLE journal_entries (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  entry_date TIMESTAMP NOT NULL,
+  source_type VARCHAR(50) NOT NULL,
+  source_id VARCHAR NOT NULL,
+  event VARCHAR(50) NOT NULL,
+  reference VARCHAR(100),
+  memo TEXT,
+  currency VARCHAR(3),
+  reversal_of_id VARCHAR,
+  reversed_by_id VARCHAR,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_journal_entries_org_date ON journal_entries(organization_id, entry_date);
+CREATE INDEX idx_journal_entries_source ON journal_entries(source_type, source_id);
+
+CREATE TABLE journal_lines (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  journal_entry_id VARCHAR NOT NULL REFERENCES journal_entries(id) ON DELETE CASCADE,
+  account_id VARCHAR NOT NULL REFERENCES ledger_accounts(id) ON DELETE RESTRICT,
+  debit DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  credit DECIMAL(12, 2) NOT NULL DEFAULT 0
+);
+
+CREATE INDEX idx_journal_lines_entry ON journal_lines(journal_entry_id);
+CREATE INDEX idx_journal_lines_account ON journal_lines(account_id);
+
+COMMIT;
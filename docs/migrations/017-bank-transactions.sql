@@ -0,0 +1,33 @@
+-- Migration: Bank transactions
+-- Description: Adds imported bank statement lines. Unmatched lines form the reconciliation
+-- queue until they are matched to an invoice payment or bill, or ignored (transfers, fees).
+-- external_id is the OFX FITID, the CSV reference column or a hash of the line, so
+-- re-importing a statement skips lines already imported.
+
+BEGIN;
+
+CREATE TABLE bank_transactions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  external_id VARCHAR(255) NOT NULL,
+  posted_at TIMESTAMP NOT NULL,
+  amount DECIMAL(12, 2) NOT NULL,
+  currency VARCHAR(3) NOT NULL,
+  payee VARCHAR(255),
+  description TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'unmatched',
+  matched_invoice_id VARCHAR REFERENCES invoices(id) ON DELETE SET NULL,
+  matched_payment_id VARCHAR REFERENCES payments(id) ON DELETE SET NULL,
+  matched_bill_id VARCHAR REFERENCES bills(id) ON DELETE SET NULL,
+  matched_by_id VARCHAR,
+  matched_at TIMESTAMP,
+  source_file VARCHAR(255),
+  imported_by_id VARCHAR,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_bank_transactions_org_status ON bank_transactions(organization_id, status);
+CREATE UNIQUE INDEX idx_bank_transactions_org_external ON bank_transactions(organization_id, external_id);
+
+COMMIT;
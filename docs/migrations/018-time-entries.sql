@@ -0,0 +1,36 @@
+-- Migration: Time entries
+-- Description: Adds time tracking. An entry belongs to a project and copies its engagement so
+-- unbilled time can be found per engagement; invoice_id is set once the entry is billed, and
+-- deleting the invoice makes the time unbilled again. timer_started_at is set while the entry's
+-- timer runs, and each user has at most one running timer.
+
+BEGIN;
+
+CREATE TABLE time_entries (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id VARCHAR NOT NULL,
+  project_id VARCHAR NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  task_id VARCHAR REFERENCES tasks(id) ON DELETE SET NULL,
+  engagement_id VARCHAR NOT NULL REFERENCES engagements(id) ON DELETE CASCADE,
+  date TIMESTAMP NOT NULL,
+  duration_minutes INTEGER NOT NULL DEFAULT 0,
+  billable BOOLEAN NOT NULL DEFAULT TRUE,
+  hourly_rate DECIMAL(12, 2),
+  notes TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'draft',
+  timer_started_at TIMESTAMP,
+  submitted_at TIMESTAMP,
+  reviewed_by_id VARCHAR,
+  reviewed_at TIMESTAMP,
+  review_note TEXT,
+  invoice_id VARCHAR REFERENCES invoices(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_time_entries_org_user_date ON time_entries(organization_id, user_id, date);
+CREATE INDEX idx_time_entries_engagement ON time_entries(engagement_id);
+CREATE UNIQUE INDEX idx_time_entries_running_timer ON time_entries(user_id) WHERE timer_started_at IS NOT NULL;
+
+COMMIT;
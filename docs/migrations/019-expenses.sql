@@ -0,0 +1,39 @@
+-- Migration: Staff expenses
+-- Description: Adds expenses staff incur (vendor invoices remain bills). An expense goes
+-- draft -> submitted -> approved, or back to rejected for correction. Approved reimbursable
+-- expenses are owed to the employee until marked reimbursed; approved billable ones can be
+-- invoiced to the client, which sets invoice_id.
+
+BEGIN;
+
+CREATE TABLE expenses (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id VARCHAR NOT NULL,
+  engagement_id VARCHAR REFERENCES engagements(id) ON DELETE SET NULL,
+  category VARCHAR(20) NOT NULL,
+  description TEXT NOT NULL,
+  expense_date TIMESTAMP NOT NULL,
+  currency VARCHAR(3),
+  amount DECIMAL(12, 2) NOT NULL,
+  billable BOOLEAN NOT NULL DEFAULT FALSE,
+  reimbursable BOOLEAN NOT NULL DEFAULT TRUE,
+  receipt_file_id VARCHAR REFERENCES file_objects(id) ON DELETE SET NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'draft',
+  submitted_at TIMESTAMP,
+  reviewed_by_id VARCHAR,
+  reviewed_at TIMESTAMP,
+  review_note TEXT,
+  reimbursed_at TIMESTAMP,
+  reimbursed_by_id VARCHAR,
+  reimbursement_reference VARCHAR(100),
+  invoice_id VARCHAR REFERENCES invoices(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_expenses_org_user ON expenses(organization_id, user_id);
+CREATE INDEX idx_expenses_engagement ON expenses(engagement_id);
+CREATE INDEX idx_expenses_status ON expenses(status);
+
+COMMIT;
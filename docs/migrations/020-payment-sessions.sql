@@ -0,0 +1,31 @@
+-- Migration: Online payment sessions
+-- Description: Adds hosted checkout sessions created with a payment provider to pay an
+-- invoice's balance. Signed provider webhooks move a session open -> processing -> succeeded
+-- (which records a payment), or to failed; a payment the invoice can no longer take leaves it
+-- refund_required. A provider session id is unique per provider.
+
+BEGIN;
+
+CREATE TABLE payment_sessions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  invoice_id VARCHAR NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  provider VARCHAR(50) NOT NULL,
+  provider_session_id VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'open',
+  amount DECIMAL(12, 2) NOT NULL,
+  currency VARCHAR(3) NOT NULL,
+  checkout_url TEXT NOT NULL,
+  payment_id VARCHAR REFERENCES payments(id) ON DELETE SET NULL,
+  failure_reason TEXT,
+  created_by_id VARCHAR,
+  expires_at TIMESTAMP,
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_payment_sessions_invoice ON payment_sessions(invoice_id);
+CREATE UNIQUE INDEX idx_payment_sessions_provider_session ON payment_sessions(provider, provider_session_id);
+
+COMMIT;
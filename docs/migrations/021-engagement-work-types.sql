@@ -0,0 +1,9 @@
+-- Migration: Engagement work types
+-- Description: Adds the kind of work an engagement is (e.g. "Website build", "Retainer"),
+-- which the profitability report also groups by. Existing engagements have none.
+
+BEGIN;
+
+ALTER TABLE engagements ADD COLUMN work_type VARCHAR(100);
+
+COMMIT;
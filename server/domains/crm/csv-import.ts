@@ -0,0 +1,438 @@
+import type { ZodError } from "zod";
+import {
+  insertClientCompanySchema,
+  insertContactSchema,
+  insertDealSchema,
+  type ClientCompany,
+  type Contact,
+  type DealPipelineWithStages,
+  type InsertClientCompany,
+  type InsertContact,
+  type InsertDeal,
+} from "@shared/schema";
+import { parseCsvLines, toCsv } from "../../utils/csv";
+import { parseStatementAmount, parseStatementDate } from "../revenue/bank-import";
+import { getWebsiteDomain, normalizeCompanyName, normalizeEmail } from "./duplicates";
+import { getEntryStage, placeDealInStage, type DealStagePlacement } from "./pipelines";
+
+/**
+ * CSV import of clients, contacts and deals
+ *
+ * An import is planned before anything is written: each CSV column is mapped to a field
+ * (suggested from the header names, see `IMPORT_FIELDS`), each row is turned into the record it
+ * would create and checked with the entity's insert schema, and rows that can't be imported
+ * carry their errors. The preview shows that plan; the import writes the rows without errors
+ * in one transaction and reports the others as a CSV of the original rows with an "Errors"
+ * column, ready to be fixed and imported again.
+ *
+ * Contacts and deals are linked to an existing client by the "Company" column, matched on the
+ * normalized name or, when the value is a domain or URL, on the client's website domain.
+ * Contacts without that column are matched on their email domain (free mail providers
+ * excluded). Deals are linked to an existing contact by email, and placed in a pipeline and
+ * stage by name (default pipeline and its entry stage otherwise).
+ *
+ * Rows that look already present (a client with the same normalized name, a contact with the
+ * same email, in the organization or earlier in the file) are rejected, so re-importing a
+ * corrected file doesn't create duplicates.
+ */
+
+export const CSV_IMPORT_ENTITY_TYPES = ["clients", "contacts", "deals"] as const;
+export type CsvImportEntityType = (typeof CSV_IMPORT_ENTITY_TYPES)[number];
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+  // Lower-cased header names the field is suggested for, besides its key and label
+  aliases: string[];
+}
+
+// Field key -> CSV header
+export type ColumnMapping = Record<string, string>;
+
+const companyField: ImportField = {
+  key: "company",
+  label: "Company",
+  required: false,
+  aliases: ["company name", "client", "client name", "account", "account name", "organization", "organisation"],
+};
+
+export const IMPORT_FIELDS: Record<CsvImportEntityType, ImportField[]> = {
+  clients: [
+    {
+      key: "name",
+      label: "Name",
+      required: true,
+      aliases: ["company", "company name", "client", "client name", "account", "account name", "organization"],
+    },
+    { key: "website", label: "Website", required: false, aliases: ["url", "domain", "web", "homepage"] },
+    { key: "industry", label: "Industry", required: false, aliases: ["sector", "vertical"] },
+    { key: "address", label: "Address", required: false, aliases: ["street", "address 1", "address line 1"] },
+    { key: "city", label: "City", required: false, aliases: ["town"] },
+    { key: "state", label: "State", required: false, aliases: ["province", "region", "county"] },
+    { key: "zipCode", label: "Zip code", required: false, aliases: ["zip", "postal code", "postcode"] },
+    { key: "country", label: "Country", required: false, aliases: [] },
+    { key: "notes", label: "Notes", required: false, aliases: ["description", "comments"] },
+  ],
+  contacts: [
+    { key: "firstName", label: "First name", required: false, aliases: ["first", "given name", "firstname"] },
+    { key: "lastName", label: "Last name", required: false, aliases: ["last", "surname", "family name", "lastname"] },
+    // Split into first and last name when those columns aren't mapped
+    { key: "fullName", label: "Full name", required: false, aliases: ["name", "contact", "contact name"] },
+    { key: "email", label: "Email", required: false, aliases: ["email address", "e-mail", "mail"] },
+    { key: "phone", label: "Phone", required: false, aliases: ["phone number", "mobile", "telephone", "tel"] },
+    { key: "title", label: "Job title", required: false, aliases: ["title", "position", "role"] },
+    companyField,
+    { key: "isPrimary", label: "Primary contact", required: false, aliases: ["primary", "main contact"] },
+    { key: "notes", label: "Notes", required: false, aliases: ["description", "comments"] },
+  ],
+  deals: [
+    { key: "name", label: "Name", required: true, aliases: ["deal", "deal name", "opportunity", "title"] },
+    { key: "value", label: "Value", required: false, aliases: ["amount", "deal value", "size"] },
+    companyField,
+    { key: "contactEmail", label: "Contact email", required: false, aliases: ["contact", "email"] },
+    { key: "pipeline", label: "Pipeline", required: false, aliases: [] },
+    { key: "stage", label: "Stage", required: false, aliases: ["deal stage", "status"] },
+    { key: "probability", label: "Probability", required: false, aliases: ["probability %", "win probability"] },
+    {
+      key: "expectedCloseDate",
+      label: "Expected close date",
+      required: false,
+      aliases: ["close date", "expected close", "closing date"],
+    },
+    { key: "description", label: "Description", required: false, aliases: [] },
+    { key: "notes", label: "Notes", required: false, aliases: ["comments"] },
+  ],
+};
+
+// Email domains shared by unrelated people; never used to find a contact's company
+const FREE_EMAIL_DOMAINS = new Set([
+  "gmail.com",
+  "googlemail.com",
+  "yahoo.com",
+  "outlook.com",
+  "hotmail.com",
+  "live.com",
+  "icloud.com",
+  "me.com",
+  "aol.com",
+  "proton.me",
+  "protonmail.com",
+]);
+
+const normalizeHeader = (header: string) =>
+  header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9%]+/g, " ")
+    .trim();
+
+/** Map each field to the first unused header matching its key, label or aliases. */
+export function suggestColumnMapping(entityType: CsvImportEntityType, headers: string[]): ColumnMapping {
+  const available = new Map(headers.map((header) => [normalizeHeader(header), header]));
+  const mapping: ColumnMapping = {};
+  for (const field of IMPORT_FIELDS[entityType]) {
+    const names = [field.key.replace(/([A-Z])/g, " $1"), field.label, ...field.aliases].map(normalizeHeader);
+    const name = names.find((candidate) => available.has(candidate));
+    if (name) {
+      mapping[field.key] = available.get(name)!;
+      available.delete(name);
+    }
+  }
+  return mapping;
+}
+
+export interface ImportContext {
+  organizationId: string;
+  userId: string;
+  clients: ClientCompany[];
+  contacts: Contact[];
+  pipelines: DealPipelineWithStages[];
+}
+
+export interface PlannedRow<T> {
+  // 1-based line in the file
+  line: number;
+  values: string[];
+  // Mapped field values, as read
+  fields: Record<string, string>;
+  // Client (and contact) the row was linked to, for the preview
+  linkedTo: string | null;
+  data?: T;
+  errors: string[];
+}
+
+export interface ImportPlan<T> {
+  entityType: CsvImportEntityType;
+  headers: string[];
+  mapping: ColumnMapping;
+  rows: PlannedRow<T>[];
+  // Problems with the file itself (no rows, unknown columns)
+  errors: string[];
+}
+
+export type ImportRecord = InsertClientCompany | InsertContact | (InsertDeal & DealStagePlacement);
+
+const formatIssues = (error: ZodError) =>
+  error.errors.map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message));
+
+const blankToNull = (value: string | undefined) => (value ? value : null);
+
+function parseBoolean(value: string): boolean | null {
+  if (value === "") return false;
+  if (/^(true|yes|y|1|x)$/i.test(value)) return true;
+  if (/^(false|no|n|0)$/i.test(value)) return false;
+  return null;
+}
+
+/** Finds existing clients by normalized name or website domain; the oldest client wins. */
+function createCompanyMatcher(clients: ClientCompany[]) {
+  const byName = new Map<string, ClientCompany>();
+  const byDomain = new Map<string, ClientCompany>();
+  const oldestFirst = [...clients].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  for (const client of oldestFirst) {
+    const name = normalizeCompanyName(client.name);
+    const domain = getWebsiteDomain(client.website);
+    if (name && !byName.has(name)) byName.set(name, client);
+    if (domain && !byDomain.has(domain)) byDomain.set(domain, client);
+  }
+
+  return {
+    byValue(value: string): ClientCompany | undefined {
+      const domain = /^\S+\.\S+$/.test(value.trim()) ? getWebsiteDomain(value) : null;
+      return (domain && byDomain.get(domain)) || byName.get(normalizeCompanyName(value));
+    },
+    byEmail(email: string | null): ClientCompany | undefined {
+      const domain = email?.split("@")[1];
+      return domain && !FREE_EMAIL_DOMAINS.has(domain) ? byDomain.get(domain) : undefined;
+    },
+  };
+}
+
+function planClient(
+  fields: Record<string, string>,
+  context: ImportContext,
+  seenNames: Set<string>,
+): Pick<PlannedRow<InsertClientCompany>, "data" | "errors" | "linkedTo"> {
+  const errors: string[] = [];
+  if (!fields.name) errors.push("Name is required");
+  const name = normalizeCompanyName(fields.name ?? "");
+  if (name && seenNames.has(name)) errors.push(`A client named "${fields.name}" already exists`);
+  if (name) seenNames.add(name);
+
+  const validation = insertClientCompanySchema.safeParse({
+    organizationId: context.organizationId,
+    name: fields.name ?? "",
+    website: blankToNull(fields.website),
+    industry: blankToNull(fields.industry),
+    address: blankToNull(fields.address),
+    city: blankToNull(fields.city),
+    state: blankToNull(fields.state),
+    zipCode: blankToNull(fields.zipCode),
+    country: blankToNull(fields.country),
+    notes: blankToNull(fields.notes),
+  });
+  if (!validation.success) errors.push(...formatIssues(validation.error));
+  return { data: validation.success ? validation.data : undefined, errors, linkedTo: null };
+}
+
+function planContact(
+  fields: Record<string, string>,
+  context: ImportContext,
+  companies: ReturnType<typeof createCompanyMatcher>,
+  seenEmails: Set<string>,
+): Pick<PlannedRow<InsertContact>, "data" | "errors" | "linkedTo"> {
+  const errors: string[] = [];
+  let firstName = fields.firstName ?? "";
+  let lastName = fields.lastName ?? "";
+  if (!firstName && !lastName && fields.fullName) {
+    const parts = fields.fullName.split(/\s+/);
+    lastName = parts.length > 1 ? parts.pop()! : "";
+    firstName = parts.join(" ");
+  }
+  if (!firstName) errors.push("First name is required");
+
+  const email = normalizeEmail(fields.email);
+  if (fields.email && !email) errors.push(`Invalid email "${fields.email}"`);
+  if (email && seenEmails.has(email)) errors.push(`A contact with email ${email} already exists`);
+  if (email) seenEmails.add(email);
+
+  let company: ClientCompany | undefined;
+  if (fields.company) {
+    company = companies.byValue(fields.company);
+    if (!company) errors.push(`No client matches "${fields.company}"; import clients first`);
+  } else {
+    company = companies.byEmail(email);
+  }
+
+  const isPrimary = parseBoolean(fields.isPrimary ?? "");
+  if (isPrimary === null) errors.push(`Invalid primary contact "${fields.isPrimary}" (use yes or no)`);
+
+  const validation = insertContactSchema.safeParse({
+    organizationId: context.organizationId,
+    clientCompanyId: company?.id ?? null,
+    firstName,
+    lastName,
+    email,
+    phone: blankToNull(fields.phone),
+    title: blankToNull(fields.title),
+    isPrimary: isPrimary ?? false,
+    notes: blankToNull(fields.notes),
+  });
+  if (!validation.success) errors.push(...formatIssues(validation.error));
+  return { data: validation.success ? validation.data : undefined, errors, linkedTo: company?.name ?? null };
+}
+
+function planDeal(
+  fields: Record<string, string>,
+  context: ImportContext,
+  companies: ReturnType<typeof createCompanyMatcher>,
+  contactsByEmail: Map<string, Contact>,
+): Pick<PlannedRow<InsertDeal & DealStagePlacement>, "data" | "errors" | "linkedTo"> {
+  const errors: string[] = [];
+  if (!fields.name) errors.push("Name is required");
+
+  let company: ClientCompany | undefined;
+  if (fields.company) {
+    company = companies.byValue(fields.company);
+    if (!company) errors.push(`No client matches "${fields.company}"; import clients first`);
+  }
+  let contact: Contact | undefined;
+  if (fields.contactEmail) {
+    contact = contactsByEmail.get(normalizeEmail(fields.contactEmail) ?? "");
+    if (!contact) errors.push(`No contact with email "${fields.contactEmail}"; import contacts first`);
+  }
+
+  const pipeline = fields.pipeline
+    ? context.pipelines.find((candidate) => candidate.name.trim().toLowerCase() === fields.pipeline.toLowerCase())
+    : (context.pipelines.find((candidate) => candidate.isDefault) ?? context.pipelines[0]);
+  if (fields.pipeline && !pipeline) errors.push(`No pipeline named "${fields.pipeline}"`);
+  const stage = fields.stage
+    ? pipeline?.stages.find((candidate) => candidate.name.trim().toLowerCase() === fields.stage.toLowerCase())
+    : pipeline && getEntryStage(pipeline.stages);
+  if (pipeline && !stage) {
+    errors.push(fields.stage ? `No stage named "${fields.stage}" in ${pipeline.name}` : `${pipeline.name} has no open stage`);
+  }
+
+  let value: string | null = null;
+  if (fields.value) {
+    const cents = parseStatementAmount(fields.value);
+    if (cents === null || cents < 0) errors.push(`Invalid value "${fields.value}"`);
+    else value = (cents / 100).toFixed(2);
+  }
+  let probability: number | undefined;
+  if (fields.probability) {
+    probability = Number(fields.probability.replace(/%$/, ""));
+    if (!Number.isInteger(probability) || probability < 0 || probability > 100) {
+      errors.push(`Invalid probability "${fields.probability}" (0-100)`);
+      probability = undefined;
+    }
+  }
+  let expectedCloseDate: Date | null = null;
+  if (fields.expectedCloseDate) {
+    expectedCloseDate = parseStatementDate(fields.expectedCloseDate);
+    if (!expectedCloseDate) errors.push(`Invalid expected close date "${fields.expectedCloseDate}" (use YYYY-MM-DD)`);
+  }
+
+  const placement = stage ? placeDealInStage(stage, undefined, probability) : undefined;
+  const validation = insertDealSchema.safeParse({
+    organizationId: context.organizationId,
+    clientCompanyId: company?.id ?? contact?.clientCompanyId ?? null,
+    contactId: contact?.id ?? null,
+    ownerId: context.userId,
+    name: fields.name ?? "",
+    description: blankToNull(fields.description),
+    value,
+    pipelineId: placement?.pipelineId ?? "",
+    stageId: placement?.stageId ?? "",
+    probability: placement?.probability,
+    expectedCloseDate,
+    closedAt: placement?.closedAt ?? null,
+    notes: blankToNull(fields.notes),
+  });
+  if (!validation.success) errors.push(...formatIssues(validation.error));
+
+  const linkedTo = [company?.name, contact && `${contact.firstName} ${contact.lastName}`].filter(Boolean).join(" · ");
+  return {
+    data: validation.success && placement ? { ...validation.data, ...placement } : undefined,
+    errors,
+    linkedTo: linkedTo || null,
+  };
+}
+
+/**
+ * Plan importing `text` as `entityType` records. Without a `mapping` the suggested one is used;
+ * headers in the mapping that aren't in the file are reported as file errors.
+ */
+export function planImport(
+  entityType: CsvImportEntityType,
+  text: string,
+  context: ImportContext,
+  mapping?: ColumnMapping,
+): ImportPlan<ImportRecord> {
+  const [header, ...rows] = parseCsvLines(text);
+  const headers = (header?.fields ?? []).map((column) => column.trim());
+  const columnMapping = mapping ?? suggestColumnMapping(entityType, headers);
+  const plan: ImportPlan<ImportRecord> = { entityType, headers, mapping: columnMapping, rows: [], errors: [] };
+
+  if (rows.length === 0) plan.errors.push("The file has no rows to import");
+  if (rows.length > MAX_IMPORT_ROWS) plan.errors.push(`Import at most ${MAX_IMPORT_ROWS} rows at a time`);
+  const knownFields = new Set(IMPORT_FIELDS[entityType].map((field) => field.key));
+  for (const [key, column] of Object.entries(columnMapping)) {
+    if (!knownFields.has(key)) plan.errors.push(`Unknown field "${key}"`);
+    else if (!headers.includes(column)) plan.errors.push(`Column "${column}" is not in the file`);
+  }
+  for (const field of IMPORT_FIELDS[entityType]) {
+    if (field.required && !columnMapping[field.key]) plan.errors.push(`Map a column to ${field.label}`);
+  }
+  if (entityType === "contacts" && !columnMapping.firstName && !columnMapping.fullName) {
+    plan.errors.push("Map a column to First name or Full name");
+  }
+  if (plan.errors.length > 0) return plan;
+
+  const companies = createCompanyMatcher(context.clients);
+  const seenNames = new Set(context.clients.map((client) => normalizeCompanyName(client.name)));
+  const contactsByEmail = new Map<string, Contact>();
+  for (const contact of context.contacts) {
+    const email = normalizeEmail(contact.email);
+    if (email && !contactsByEmail.has(email)) contactsByEmail.set(email, contact);
+  }
+  const seenEmails = new Set(contactsByEmail.keys());
+
+  plan.rows = rows.map(({ line, fields: values }) => {
+    const fields: Record<string, string> = {};
+    for (const [key, column] of Object.entries(columnMapping)) {
+      fields[key] = (values[headers.indexOf(column)] ?? "").trim();
+    }
+    const planned =
+      entityType === "clients"
+        ? planClient(fields, context, seenNames)
+        : entityType === "contacts"
+          ? planContact(fields, context, companies, seenEmails)
+          : planDeal(fields, context, companies, contactsByEmail);
+    return { line, values, fields, ...planned };
+  });
+  return plan;
+}
+
+/**
+ * The rows that can't be imported, as they were in the file plus their line and errors.
+ * Values are written unescaped so the fixed file imports the same values.
+ */
+export function buildImportErrorReport(plan: ImportPlan<unknown>): string | null {
+  const failed = plan.rows.filter((row) => row.errors.length > 0);
+  if (failed.length === 0) return null;
+  return toCsv(
+    [
+      [...plan.headers, "Line", "Errors"],
+      ...failed.map((row) => [
+        ...plan.headers.map((_, column) => row.values[column] ?? ""),
+        row.line,
+        row.errors.join("; "),
+      ]),
+    ],
+    { escapeFormulas: false },
+  );
+}
@@ -0,0 +1,313 @@
+import type { ClientCompany, Contact } from "@shared/schema";
+
+/**
+ * Duplicate detection for client companies and contacts
+ *
+ * Records are compared on normalized keys rather than raw values:
+ * - company names lose case, accents, punctuation and legal suffixes ("Acme, Inc." and
+ *   "ACME" are both "acme"); a name that is a domain ("acme.com") also loses its TLD
+ * - websites are reduced to their host without "www." ("https://www.acme.com/about" is
+ *   "acme.com"), and a company whose name matches another's domain label is a match
+ * - emails are trimmed and lowercased, phone numbers reduced to their digits
+ * Names that only nearly match (edit-distance similarity) are reported too, with a lower
+ * score. To avoid comparing every pair, records are only compared when they share a key
+ * (same normalized value or the same name prefix).
+ *
+ * Contacts with the same name only count as duplicates within the same company (or when
+ * one has no company); common names at different clients are different people.
+ */
+
+export type DuplicateReason = "website" | "name" | "name_domain" | "similar_name" | "email" | "phone";
+
+export interface DuplicateMatch {
+  // Sorted, so a pair has one identity regardless of which record was seen first
+  recordIds: [string, string];
+  // 0-1; higher is more likely the same record
+  score: number;
+  reasons: DuplicateReason[];
+}
+
+const LEGAL_SUFFIXES = new Set([
+  "inc",
+  "incorporated",
+  "llc",
+  "llp",
+  "ltd",
+  "limited",
+  "corp",
+  "corporation",
+  "co",
+  "company",
+  "plc",
+  "gmbh",
+  "ag",
+  "sa",
+  "sarl",
+  "bv",
+  "nv",
+  "pty",
+  "oy",
+  "ab",
+]);
+
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}$/;
+
+const SIMILAR_NAME_THRESHOLD = 0.85;
+const PREFIX_LENGTH = 3;
+
+const stripAccents = (value: string) => value.normalize("NFKD").replace(/[\u0300-\u036f]/g, "");
+
+/** Host of a website without "www.", or null when it isn't a usable URL. */
+export function getWebsiteDomain(website: string | null | undefined): string | null {
+  const trimmed = website?.trim().toLowerCase();
+  if (!trimmed) return null;
+  try {
+    const url = new URL(/^[a-z]+:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`);
+    const host = url.hostname.replace(/^www\./, "");
+    return host.includes(".") ? host : null;
+  } catch {
+    return null;
+  }
+}
+
+// "acme.co.uk" -> "acme"
+const domainLabel = (domain: string) => domain.split(".")[0];
+
+export function normalizeCompanyName(name: string): string {
+  let value = stripAccents(name).trim().toLowerCase();
+  const asDomain = value.replace(/^https?:\/\//, "").replace(/^www\./, "").replace(/\/.*$/, "");
+  if (DOMAIN_PATTERN.test(asDomain)) value = domainLabel(asDomain);
+
+  const words = value
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+  // Keep a name that is nothing but a suffix ("Company") as it is
+  while (words.length > 1 && LEGAL_SUFFIXES.has(words[words.length - 1])) words.pop();
+  if (words.length > 1 && words[0] === "the") words.shift();
+  return words.join(" ");
+}
+
+export function normalizePersonName(firstName: string, lastName: string): string {
+  return stripAccents(`${firstName} ${lastName}`)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function normalizeEmail(email: string | null | undefined): string | null {
+  const value = email?.trim().toLowerCase();
+  return value && value.includes("@") ? value : null;
+}
+
+export function normalizePhone(phone: string | null | undefined): string | null {
+  const digits = phone?.replace(/\D/g, "") ?? "";
+  return digits.length >= 7 ? digits : null;
+}
+
+/** 1 - edit distance / length of the longer string. */
+export function nameSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longer = Math.max(a.length, b.length);
+  if (longer === 0) return 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / longer;
+}
+
+const REASON_SCORES: Record<DuplicateReason, number> = {
+  email: 0.95,
+  website: 0.95,
+  name: 0.9,
+  name_domain: 0.85,
+  phone: 0.85,
+  // scaled by the similarity itself
+  similar_name: 0.8,
+};
+
+/**
+ * Pairs of records sharing at least one key, scored by `compare`. Pairs already reviewed
+ * as "not duplicates" (`dismissed`, as `firstId:secondId` with sorted ids) are left out.
+ */
+function findMatches<T extends { id: string }>(
+  records: T[],
+  keysOf: (record: T) => string[],
+  compare: (a: T, b: T) => { reasons: DuplicateReason[]; similarity: number },
+  dismissed: Set<string>,
+): DuplicateMatch[] {
+  const byId = new Map(records.map((record) => [record.id, record]));
+  const blocks = new Map<string, string[]>();
+  for (const record of records) {
+    for (const key of keysOf(record)) {
+      const block = blocks.get(key) ?? [];
+      block.push(record.id);
+      blocks.set(key, block);
+    }
+  }
+
+  const seen = new Set<string>();
+  const matches: DuplicateMatch[] = [];
+  blocks.forEach((ids) => {
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const recordIds = [ids[i], ids[j]].sort() as [string, string];
+        const pairKey = recordIds.join(":");
+        if (recordIds[0] === recordIds[1] || seen.has(pairKey) || dismissed.has(pairKey)) continue;
+        seen.add(pairKey);
+
+        const { reasons, similarity } = compare(byId.get(recordIds[0])!, byId.get(recordIds[1])!);
+        if (reasons.length === 0) continue;
+        const score = Math.max(
+          ...reasons.map((reason) =>
+            reason === "similar_name" ? REASON_SCORES.similar_name * similarity : REASON_SCORES[reason],
+          ),
+        );
+        matches.push({ recordIds, score: Math.round(score * 100) / 100, reasons });
+      }
+    }
+  });
+  return matches.sort((a, b) => b.score - a.score || a.recordIds.join().localeCompare(b.recordIds.join()));
+}
+
+type ClientFields = Pick<ClientCompany, "id" | "name" | "website">;
+
+export function findDuplicateClients(
+  clients: ClientFields[],
+  dismissed: Set<string> = new Set(),
+): DuplicateMatch[] {
+  const normalized = new Map(
+    clients.map((client) => [
+      client.id,
+      { name: normalizeCompanyName(client.name), domain: getWebsiteDomain(client.website) },
+    ]),
+  );
+
+  return findMatches(
+    clients,
+    (client) => {
+      const { name, domain } = normalized.get(client.id)!;
+      const compact = name.replace(/ /g, "");
+      return [
+        name && `name:${name}`,
+        compact && `prefix:${compact.slice(0, PREFIX_LENGTH)}`,
+        domain && `domain:${domain}`,
+        // lets "Acme" meet the client whose website is acme.com
+        domain && `name:${domainLabel(domain)}`,
+      ].filter((key): key is string => Boolean(key));
+    },
+    (a, b) => {
+      const left = normalized.get(a.id)!;
+      const right = normalized.get(b.id)!;
+      const reasons: DuplicateReason[] = [];
+      if (left.domain && left.domain === right.domain) reasons.push("website");
+      if (left.name && left.name === right.name) reasons.push("name");
+      if (
+        (left.domain && domainLabel(left.domain) === right.name.replace(/ /g, "")) ||
+        (right.domain && domainLabel(right.domain) === left.name.replace(/ /g, ""))
+      ) {
+        reasons.push("name_domain");
+      }
+      const similarity = nameSimilarity(left.name.replace(/ /g, ""), right.name.replace(/ /g, ""));
+      if (!reasons.includes("name") && similarity >= SIMILAR_NAME_THRESHOLD) reasons.push("similar_name");
+      return { reasons, similarity };
+    },
+    dismissed,
+  );
+}
+
+type ContactFields = Pick<Contact, "id" | "clientCompanyId" | "firstName" | "lastName" | "email" | "phone">;
+
+export function findDuplicateContacts(
+  contacts: ContactFields[],
+  dismissed: Set<string> = new Set(),
+): DuplicateMatch[] {
+  const normalized = new Map(
+    contacts.map((contact) => [
+      contact.id,
+      {
+        name: normalizePersonName(contact.firstName, contact.lastName),
+        email: normalizeEmail(contact.email),
+        phone: normalizePhone(contact.phone),
+      },
+    ]),
+  );
+  const sameCompany = (a: ContactFields, b: ContactFields) =>
+    !a.clientCompanyId || !b.clientCompanyId || a.clientCompanyId === b.clientCompanyId;
+
+  return findMatches(
+    contacts,
+    (contact) => {
+      const { name, email, phone } = normalized.get(contact.id)!;
+      return [
+        email && `email:${email}`,
+        phone && `phone:${phone}`,
+        name && `name:${name}`,
+        name && `prefix:${name.slice(0, PREFIX_LENGTH)}`,
+      ].filter((key): key is string => Boolean(key));
+    },
+    (a, b) => {
+      const left = normalized.get(a.id)!;
+      const right = normalized.get(b.id)!;
+      const reasons: DuplicateReason[] = [];
+      if (left.email && left.email === right.email) reasons.push("email");
+      if (left.phone && left.phone === right.phone && sameCompany(a, b)) reasons.push("phone");
+      const similarity = nameSimilarity(left.name, right.name);
+      if (sameCompany(a, b)) {
+        if (left.name && left.name === right.name) reasons.push("name");
+        else if (similarity >= SIMILAR_NAME_THRESHOLD) reasons.push("similar_name");
+      }
+      return { reasons, similarity };
+    },
+    dismissed,
+  );
+}
+
+/**
+ * Fields of `survivor` that are blank but set on `duplicate`, to update the survivor with
+ * when the two are merged. The survivor's own values always win.
+ */
+export function fillBlankFields<T extends object, K extends keyof T>(
+  survivor: T,
+  duplicate: T,
+  fields: K[],
+): Partial<Pick<T, K>> {
+  const isBlank = (value: unknown) => value === null || value === undefined || value === "";
+  const filled: Partial<Pick<T, K>> = {};
+  for (const field of fields) {
+    if (isBlank(survivor[field]) && !isBlank(duplicate[field])) filled[field] = duplicate[field];
+  }
+  return filled;
+}
+
+export interface DuplicatePair<T> extends DuplicateMatch {
+  // Oldest first: the suggested record to keep
+  records: [T, T];
+}
+
+/** Matches with both records attached, for the review queue. */
+export function toDuplicatePairs<T extends { id: string; createdAt: Date }>(
+  matches: DuplicateMatch[],
+  records: T[],
+): DuplicatePair<T>[] {
+  const byId = new Map(records.map((record) => [record.id, record]));
+  return matches.map((match) => {
+    const pair = match.recordIds.map((id) => byId.get(id)!) as [T, T];
+    pair.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    return { ...match, records: pair };
+  });
+}
+
+/** Dismissed pairs in the `firstId:secondId` form the finders take. */
+export function dismissedPairKeys(dismissals: { firstId: string; secondId: string }[]): Set<string> {
+  return new Set(dismissals.map((dismissal) => [dismissal.firstId, dismissal.secondId].sort().join(":")));
+}
@@ -0,0 +1,193 @@
+import { differenceInCalendarDays, format } from "date-fns";
+import type { Deal, DealPipelineWithStages, DealStageTransition, DealStatus } from "@shared/schema";
+import { getDealStatus } from "./pipelines";
+
+/**
+ * Pipeline analytics
+ *
+ * Forecast of open deals and a look back at closed ones:
+ * - weighted value: `value * probability / 100` of each open deal, grouped by expected close
+ *   month, by owner and by stage (deals without a close date are "unscheduled", month null)
+ * - win rate: won / (won + lost), average deal size and average sales cycle (days from
+ *   `createdAt` to `closedAt`) of won deals, limited to deals closed within `from`..`to`
+ * - stage conversion: of the deals that entered a stage, the share that later moved on to a
+ *   further stage of the pipeline that is not a lost stage (from the stage history)
+ *
+ * Deal values carry no currency of their own and are treated as the organization's currency.
+ */
+
+type ReportDeal = Pick<
+  Deal,
+  | "id"
+  | "ownerId"
+  | "pipelineId"
+  | "stageId"
+  | "status"
+  | "value"
+  | "probability"
+  | "expectedCloseDate"
+  | "closedAt"
+  | "createdAt"
+>;
+type ReportTransition = Pick<DealStageTransition, "dealId" | "toStageId" | "movedAt">;
+
+export interface PipelineReportOptions {
+  from?: Date;
+  to?: Date;
+  // Display names by user id; owners without one are shown by id
+  ownerNames?: Map<string, string>;
+}
+
+export interface WeightedFigures {
+  dealCount: number;
+  openValue: number;
+  weightedValue: number;
+}
+
+export interface StageFigures extends WeightedFigures {
+  pipelineId: string;
+  pipelineName: string;
+  stageId: string;
+  stageName: string;
+  probability: number;
+  outcome: DealStatus;
+  entered: number;
+  advanced: number;
+  // null for won / lost stages and stages no deal has entered
+  conversionRate: number | null;
+}
+
+export interface PipelineReport {
+  totals: WeightedFigures;
+  byMonth: (WeightedFigures & { month: string | null })[];
+  byOwner: (WeightedFigures & { ownerId: string; ownerName: string })[];
+  byStage: StageFigures[];
+  wonCount: number;
+  lostCount: number;
+  winRate: number | null;
+  wonValue: number;
+  averageDealSize: number | null;
+  averageSalesCycleDays: number | null;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 10 : null);
+
+const emptyFigures = (): WeightedFigures => ({ dealCount: 0, openValue: 0, weightedValue: 0 });
+
+function addDeal(figures: WeightedFigures, deal: ReportDeal) {
+  const value = Number(deal.value ?? 0);
+  figures.dealCount += 1;
+  figures.openValue = roundCents(figures.openValue + value);
+  figures.weightedValue = roundCents(figures.weightedValue + (value * (deal.probability ?? 0)) / 100);
+}
+
+function addToGroup<K>(groups: Map<K, WeightedFigures>, key: K, deal: ReportDeal) {
+  const figures = groups.get(key) ?? emptyFigures();
+  addDeal(figures, deal);
+  groups.set(key, figures);
+}
+
+function isWithin(date: Date, from?: Date, to?: Date) {
+  return (!from || date >= from) && (!to || date <= to);
+}
+
+export function buildPipelineReport(
+  deals: ReportDeal[],
+  pipelines: DealPipelineWithStages[],
+  transitions: ReportTransition[],
+  options: PipelineReportOptions = {},
+): PipelineReport {
+  const stageInfo = new Map(
+    pipelines.flatMap((pipeline) => pipeline.stages.map((stage) => [stage.id, { pipeline, stage }] as const)),
+  );
+  const openDeals = deals.filter((deal) => deal.status === "open");
+
+  const totals = emptyFigures();
+  const byMonth = new Map<string | null, WeightedFigures>();
+  const byOwner = new Map<string, WeightedFigures>();
+  const byStage = new Map<string, WeightedFigures>();
+  for (const deal of openDeals) {
+    const month = deal.expectedCloseDate ? format(deal.expectedCloseDate, "yyyy-MM") : null;
+    addToGroup(byMonth, month, deal);
+    addToGroup(byOwner, deal.ownerId, deal);
+    addToGroup(byStage, deal.stageId, deal);
+    addDeal(totals, deal);
+  }
+
+  // Which stages each deal entered, in order
+  const dealIds = new Set(deals.map((deal) => deal.id));
+  const pathByDeal = new Map<string, string[]>();
+  for (const transition of [...transitions].sort((a, b) => a.movedAt.getTime() - b.movedAt.getTime())) {
+    if (!dealIds.has(transition.dealId) || !transition.toStageId) continue;
+    const path = pathByDeal.get(transition.dealId) ?? [];
+    path.push(transition.toStageId);
+    pathByDeal.set(transition.dealId, path);
+  }
+  const entered = new Map<string, Set<string>>();
+  const advanced = new Map<string, Set<string>>();
+  pathByDeal.forEach((path, dealId) => {
+    path.forEach((stageId, index) => {
+      const current = stageInfo.get(stageId);
+      if (!current) return;
+      if (!entered.has(stageId)) entered.set(stageId, new Set());
+      entered.get(stageId)!.add(dealId);
+      const movedOn = path.slice(index + 1).some((laterId) => {
+        const later = stageInfo.get(laterId);
+        return (
+          later !== undefined &&
+          later.pipeline.id === current.pipeline.id &&
+          later.stage.position > current.stage.position &&
+          !later.stage.isLost
+        );
+      });
+      if (movedOn) {
+        if (!advanced.has(stageId)) advanced.set(stageId, new Set());
+        advanced.get(stageId)!.add(dealId);
+      }
+    });
+  });
+
+  const closed = deals.filter((deal) => deal.closedAt && isWithin(deal.closedAt, options.from, options.to));
+  const won = closed.filter((deal) => deal.status === "won");
+  const lostCount = closed.filter((deal) => deal.status === "lost").length;
+  const wonValue = roundCents(won.reduce((sum, deal) => sum + Number(deal.value ?? 0), 0));
+  const cycleDays = won.reduce((sum, deal) => sum + differenceInCalendarDays(deal.closedAt!, deal.createdAt), 0);
+
+  return {
+    totals,
+    byMonth: Array.from(byMonth, ([month, figures]) => ({ month, ...figures })).sort((a, b) =>
+      a.month === b.month ? 0 : a.month === null ? 1 : b.month === null ? -1 : a.month.localeCompare(b.month),
+    ),
+    byOwner: Array.from(byOwner, ([ownerId, figures]) => ({
+      ownerId,
+      ownerName: options.ownerNames?.get(ownerId) ?? ownerId,
+      ...figures,
+    })).sort((a, b) => b.weightedValue - a.weightedValue),
+    byStage: pipelines.flatMap((pipeline) =>
+      pipeline.stages.map((stage) => {
+        const outcome = getDealStatus(stage);
+        const enteredCount = entered.get(stage.id)?.size ?? 0;
+        const advancedCount = advanced.get(stage.id)?.size ?? 0;
+        return {
+          pipelineId: pipeline.id,
+          pipelineName: pipeline.name,
+          stageId: stage.id,
+          stageName: stage.name,
+          probability: stage.probability,
+          outcome,
+          ...(byStage.get(stage.id) ?? emptyFigures()),
+          entered: enteredCount,
+          advanced: advancedCount,
+          conversionRate: outcome === "open" ? percent(advancedCount, enteredCount) : null,
+        };
+      }),
+    ),
+    wonCount: won.length,
+    lostCount,
+    winRate: percent(won.length, won.length + lostCount),
+    wonValue,
+    averageDealSize: won.length > 0 ? roundCents(wonValue / won.length) : null,
+    averageSalesCycleDays: won.length > 0 ? Math.round((cycleDays / won.length) * 10) / 10 : null,
+  };
+}
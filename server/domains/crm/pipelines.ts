@@ -0,0 +1,69 @@
+import type { Deal, DealStage, DealStatus } from "@shared/schema";
+
+/**
+ * Deal pipelines
+ *
+ * Every organization runs its deals through pipelines it defines itself: ordered stages, each
+ * with a default win probability and optionally flagged won or lost. A deal references one
+ * stage; its `status` (open / won / lost) and `closedAt` follow from that stage, and moving
+ * it to another stage resets its probability to the stage default unless one is given.
+ */
+
+export const DEFAULT_PIPELINE_NAME = "Sales";
+
+/** Stages of the pipeline every organization starts with (the former fixed deal stages). */
+export const DEFAULT_PIPELINE_STAGES: Pick<DealStage, "name" | "probability" | "isWon" | "isLost">[] = [
+  { name: "Lead", probability: 10, isWon: false, isLost: false },
+  { name: "Qualified", probability: 25, isWon: false, isLost: false },
+  { name: "Proposal", probability: 50, isWon: false, isLost: false },
+  { name: "Negotiation", probability: 75, isWon: false, isLost: false },
+  { name: "Won", probability: 100, isWon: true, isLost: false },
+  { name: "Lost", probability: 0, isWon: false, isLost: true },
+];
+
+type StageFlags = Pick<DealStage, "isWon" | "isLost">;
+
+export function getDealStatus(stage: StageFlags): DealStatus {
+  if (stage.isWon) return "won";
+  if (stage.isLost) return "lost";
+  return "open";
+}
+
+/** The stage new deals enter: the first open stage of the pipeline. */
+export function getEntryStage<T extends StageFlags & Pick<DealStage, "position">>(stages: T[]): T | undefined {
+  return [...stages]
+    .sort((a, b) => a.position - b.position)
+    .find((stage) => getDealStatus(stage) === "open");
+}
+
+export interface DealStagePlacement {
+  pipelineId: string;
+  stageId: string;
+  status: DealStatus;
+  probability: number;
+  closedAt: Date | null;
+}
+
+/**
+ * The fields to write when a deal enters `stage`. Closing keeps the original close date when
+ * the deal was already closed the same way; reopening clears it.
+ */
+export function placeDealInStage(
+  stage: StageFlags & Pick<DealStage, "id" | "pipelineId" | "probability">,
+  deal?: Pick<Deal, "status" | "closedAt">,
+  probability?: number,
+  now: Date = new Date(),
+): DealStagePlacement {
+  const status = getDealStatus(stage);
+  let closedAt: Date | null = null;
+  if (status !== "open") {
+    closedAt = deal?.status === status && deal.closedAt ? deal.closedAt : now;
+  }
+  return {
+    pipelineId: stage.pipelineId,
+    stageId: stage.id,
+    status,
+    probability: probability ?? stage.probability,
+    closedAt,
+  };
+}
@@ -1,15 +1,50 @@
 import { Router, Request, Response } from "express";
+import multer from "multer";
+import { endOfDay } from "date-fns";
+import { z } from "zod";
 import { storage } from "../../storage";
 import { requireAuth, getUserIdFromRequest, getOrCreateOrg, AuthenticatedRequest } from "../../middleware/auth";
 import { checkPermission } from "../../middleware/permissions";
 import { clientListQuerySchema, updateClientCompanySchema } from "@shared/client-schemas";
-import { insertClientCompanySchema } from "@shared/schema";
 import {
+  dealAutomationSettingsSchema,
+  dismissDuplicateSchema,
+  insertClientCompanySchema,
+  mergeRecordsSchema,
+  insertDealPipelineSchema,
+  updateDealPipelineSchema,
+  type Deal,
+  type DealStage,
+  type InsertClientCompany,
+  type InsertContact,
+  type InsertDeal,
+} from "@shared/schema";
+import {
+  formatZodErrors,
   handleValidationError,
   handleNotFoundError,
   handleDependencyError,
   handleServerError
 } from "./error-handlers";
+import { getEntryStage, placeDealInStage, type DealStagePlacement } from "./pipelines";
+import { buildPipelineReport } from "./pipeline-report";
+import {
+  buildImportErrorReport,
+  CSV_IMPORT_ENTITY_TYPES,
+  IMPORT_FIELDS,
+  planImport,
+  type CsvImportEntityType,
+  type ImportRecord,
+} from "./csv-import";
+import { dismissedPairKeys, findDuplicateClients, findDuplicateContacts, toDuplicatePairs } from "./duplicates";
+
+// CSV imports are parsed in memory; they go as multipart uploads, over the JSON body limit
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+});
 
 export const crmRoutes = Router();
 
@@ -322,8 +357,470 @@ crmRoutes.delete(
   },
 );
 
+// ==================== DUPLICATES ====================
+
+// Name recorded on the merge activity event
+async function getActor(userId: string) {
+  const user = await storage.getUser(userId);
+  const name = [user?.firstName, user?.lastName].filter(Boolean).join(" ");
+  return { id: userId, name: name || user?.email || userId };
+}
+
+crmRoutes.get(
+  "/api/duplicates/clients",
+  requireAuth,
+  checkPermission("clients", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const [clients, dismissals] = await Promise.all([
+        storage.getClientCompanies(orgId),
+        storage.getDuplicateDismissals(orgId, "client"),
+      ]);
+      const matches = findDuplicateClients(clients, dismissedPairKeys(dismissals));
+      res.json(toDuplicatePairs(matches, clients));
+    } catch (error) {
+      console.error("Get duplicate clients error:", error);
+      res.status(500).json({ error: "Failed to find duplicate clients" });
+    }
+  },
+);
+
+crmRoutes.get(
+  "/api/duplicates/contacts",
+  requireAuth,
+  checkPermission("contacts", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const [contacts, dismissals] = await Promise.all([
+        storage.getContacts(orgId),
+        storage.getDuplicateDismissals(orgId, "contact"),
+      ]);
+      const matches = findDuplicateContacts(contacts, dismissedPairKeys(dismissals));
+      res.json(toDuplicatePairs(matches, contacts));
+    } catch (error) {
+      console.error("Get duplicate contacts error:", error);
+      res.status(500).json({ error: "Failed to find duplicate contacts" });
+    }
+  },
+);
+
+crmRoutes.post(
+  "/api/duplicates/clients/dismiss",
+  requireAuth,
+  checkPermission("clients", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = dismissDuplicateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      await storage.dismissDuplicate(orgId, "client", validation.data.recordIds, userId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Dismiss duplicate clients error:", error);
+      res.status(500).json({ error: "Failed to dismiss duplicate clients" });
+    }
+  },
+);
+
+crmRoutes.post(
+  "/api/duplicates/contacts/dismiss",
+  requireAuth,
+  checkPermission("contacts", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = dismissDuplicateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      await storage.dismissDuplicate(orgId, "contact", validation.data.recordIds, userId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Dismiss duplicate contacts error:", error);
+      res.status(500).json({ error: "Failed to dismiss duplicate contacts" });
+    }
+  },
+);
+
+// Merging deletes the duplicate, so it takes delete permission
+crmRoutes.post(
+  "/api/clients/:id/merge",
+  requireAuth,
+  checkPermission("clients", "delete"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = mergeRecordsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      if (validation.data.duplicateId === req.params.id) {
+        return res.status(400).json({ error: "Cannot merge a client into itself" });
+      }
+      const result = await storage.mergeClientCompanies(
+        req.params.id,
+        validation.data.duplicateId,
+        orgId,
+        await getActor(userId),
+      );
+      if (!result) return res.status(404).json({ error: "Client not found" });
+      res.json(result);
+    } catch (error) {
+      console.error("Merge clients error:", error);
+      res.status(500).json({ error: "Failed to merge clients" });
+    }
+  },
+);
+
+crmRoutes.post(
+  "/api/contacts/:id/merge",
+  requireAuth,
+  checkPermission("contacts", "delete"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = mergeRecordsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      if (validation.data.duplicateId === req.params.id) {
+        return res.status(400).json({ error: "Cannot merge a contact into itself" });
+      }
+      const result = await storage.mergeContacts(
+        req.params.id,
+        validation.data.duplicateId,
+        orgId,
+        await getActor(userId),
+      );
+      if (!result) return res.status(404).json({ error: "Contact not found" });
+      res.json(result);
+    } catch (error) {
+      console.error("Merge contacts error:", error);
+      res.status(500).json({ error: "Failed to merge contacts" });
+    }
+  },
+);
+
+// ==================== IMPORTS ====================
+
+// Mapping arrives as a JSON string field of the multipart form
+const columnMappingSchema = z.record(z.string().min(1)).optional();
+
+/**
+ * Plan a CSV import from the request: the `file` upload (or `csv` text) and an optional
+ * `mapping` of field keys to CSV headers.
+ */
+async function planImportRequest(req: Request, entityType: CsvImportEntityType, orgId: string, userId: string) {
+  const text = req.file ? req.file.buffer.toString("utf8") : req.body?.csv;
+  if (typeof text !== "string" || text.trim() === "") return { error: "CSV file is required" };
+
+  let mapping: unknown = req.body?.mapping;
+  if (typeof mapping === "string") {
+    try {
+      mapping = JSON.parse(mapping);
+    } catch {
+      return { error: "Invalid column mapping" };
+    }
+  }
+  const validation = columnMappingSchema.safeParse(mapping);
+  if (!validation.success) return { error: "Invalid column mapping" };
+
+  // Clients are matched (or checked for duplicates) in every import, contacts by email
+  const [clients, contacts, pipelines] = await Promise.all([
+    storage.getClientCompanies(orgId),
+    entityType === "clients" ? [] : storage.getContacts(orgId),
+    entityType === "deals" ? storage.getDealPipelines(orgId) : [],
+  ]);
+  const context = { organizationId: orgId, userId, clients, contacts, pipelines };
+  return { plan: planImport(entityType, text, context, validation.data) };
+}
+
+for (const entityType of CSV_IMPORT_ENTITY_TYPES) {
+  // Dry run: the mapping used and every row with the errors that would keep it out
+  crmRoutes.post(
+    `/api/imports/${entityType}/preview`,
+    requireAuth,
+    checkPermission(entityType, "create"),
+    importUpload.single("file"),
+    async (req: Request, res: Response) => {
+      try {
+        const userId = (req as AuthenticatedRequest).user!.claims.sub;
+        const orgId = await getOrCreateOrg(userId);
+        const { plan, error } = await planImportRequest(req, entityType, orgId, userId);
+        if (!plan) return res.status(400).json({ error });
+
+        const validCount = plan.rows.filter((row) => row.errors.length === 0).length;
+        res.json({
+          fields: IMPORT_FIELDS[entityType],
+          headers: plan.headers,
+          mapping: plan.mapping,
+          errors: plan.errors,
+          rows: plan.rows.map(({ line, fields, linkedTo, errors }) => ({ line, fields, linkedTo, errors })),
+          validCount,
+          errorCount: plan.rows.length - validCount,
+          errorReport: buildImportErrorReport(plan),
+        });
+      } catch (error) {
+        console.error(`Preview ${entityType} import error:`, error);
+        res.status(500).json({ error: `Failed to preview ${entityType} import` });
+      }
+    },
+  );
+
+  // Writes the valid rows in one transaction; the rest come back in the error report
+  crmRoutes.post(
+    `/api/imports/${entityType}`,
+    requireAuth,
+    checkPermission(entityType, "create"),
+    importUpload.single("file"),
+    async (req: Request, res: Response) => {
+      try {
+        const userId = (req as AuthenticatedRequest).user!.claims.sub;
+        const orgId = await getOrCreateOrg(userId);
+        const { plan, error } = await planImportRequest(req, entityType, orgId, userId);
+        if (!plan) return res.status(400).json({ error });
+        if (plan.errors.length > 0) {
+          return res.status(400).json({ error: "Invalid import", details: plan.errors });
+        }
+
+        const records = plan.rows.flatMap((row) => (row.errors.length === 0 && row.data ? [row.data] : []));
+        if (records.length === 0) {
+          return res.status(400).json({ error: "No valid rows to import", errorReport: buildImportErrorReport(plan) });
+        }
+        const imported = await importRecords(entityType, records, userId);
+        res.status(201).json({
+          imported,
+          skipped: plan.rows.length - imported,
+          errorReport: buildImportErrorReport(plan),
+        });
+      } catch (error) {
+        console.error(`Import ${entityType} error:`, error);
+        res.status(500).json({ error: `Failed to import ${entityType}` });
+      }
+    },
+  );
+}
+
+async function importRecords(
+  entityType: CsvImportEntityType,
+  records: ImportRecord[],
+  userId: string,
+): Promise<number> {
+  if (entityType === "clients") {
+    return (await storage.importClientCompanies(records as InsertClientCompany[])).length;
+  }
+  if (entityType === "contacts") return (await storage.importContacts(records as InsertContact[])).length;
+  return (await storage.importDeals(records as (InsertDeal & DealStagePlacement)[], userId)).length;
+}
+
+// ==================== DEAL PIPELINES ====================
+
+crmRoutes.get("/api/pipelines", requireAuth, checkPermission("deals", "view"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.claims.sub;
+    const orgId = await getOrCreateOrg(userId);
+    const pipelines = await storage.getDealPipelines(orgId);
+    res.json(pipelines);
+  } catch (error) {
+    console.error("Get pipelines error:", error);
+    res.status(500).json({ error: "Failed to fetch pipelines" });
+  }
+});
+
+crmRoutes.post(
+  "/api/pipelines",
+  requireAuth,
+  checkPermission("organizations", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = insertDealPipelineSchema.safeParse({ ...req.body, organizationId: orgId });
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const existing = await storage.getDealPipelines(orgId);
+      if (existing.some((pipeline) => pipeline.name.toLowerCase() === validation.data.name.toLowerCase())) {
+        return res.status(409).json({ error: "A pipeline with this name already exists" });
+      }
+      const pipeline = await storage.createDealPipeline(validation.data);
+      res.status(201).json(pipeline);
+    } catch (error) {
+      console.error("Create pipeline error:", error);
+      res.status(500).json({ error: "Failed to create pipeline" });
+    }
+  },
+);
+
+crmRoutes.patch(
+  "/api/pipelines/:id",
+  requireAuth,
+  checkPermission("organizations", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = updateDealPipelineSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const data = validation.data;
+      const pipelines = await storage.getDealPipelines(orgId);
+      const pipeline = pipelines.find((candidate) => candidate.id === req.params.id);
+      if (!pipeline) return res.status(404).json({ error: "Pipeline not found" });
+      if (data.isDefault === false && pipeline.isDefault) {
+        return res.status(409).json({ error: "Make another pipeline the default instead" });
+      }
+      if (
+        data.name &&
+        pipelines.some(
+          (candidate) => candidate.id !== pipeline.id && candidate.name.toLowerCase() === data.name!.toLowerCase(),
+        )
+      ) {
+        return res.status(409).json({ error: "A pipeline with this name already exists" });
+      }
+      if (data.stages) {
+        const stageIds = new Set(pipeline.stages.map((stage) => stage.id));
+        if (data.stages.some((stage) => stage.id && !stageIds.has(stage.id))) {
+          return res.status(400).json({ error: "Stage does not belong to this pipeline" });
+        }
+        // Deals must be moved out of a stage before it is removed
+        const keptIds = new Set(data.stages.map((stage) => stage.id));
+        const dealCounts = await storage.countDealsByStage(pipeline.id, orgId);
+        const occupied = pipeline.stages.filter((stage) => !keptIds.has(stage.id) && dealCounts.get(stage.id));
+        if (occupied.length > 0) {
+          return res.status(409).json({
+            error: `Move the deals out of ${occupied.map((stage) => `"${stage.name}"`).join(", ")} before removing it`,
+          });
+        }
+      }
+      const updated = await storage.updateDealPipeline(pipeline.id, orgId, data);
+      if (!updated) return res.status(404).json({ error: "Pipeline not found" });
+      res.json(updated);
+    } catch (error) {
+      console.error("Update pipeline error:", error);
+      res.status(500).json({ error: "Failed to update pipeline" });
+    }
+  },
+);
+
+crmRoutes.delete(
+  "/api/pipelines/:id",
+  requireAuth,
+  checkPermission("organizations", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const pipeline = await storage.getDealPipeline(req.params.id, orgId);
+      if (!pipeline) return res.status(404).json({ error: "Pipeline not found" });
+      if (pipeline.isDefault) {
+        return res.status(409).json({ error: "The default pipeline cannot be deleted" });
+      }
+      const dealCounts = await storage.countDealsByStage(pipeline.id, orgId);
+      if (dealCounts.size > 0) {
+        return res.status(409).json({ error: "Move or delete this pipeline's deals before deleting it" });
+      }
+      await storage.deleteDealPipeline(pipeline.id, orgId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete pipeline error:", error);
+      res.status(500).json({ error: "Failed to delete pipeline" });
+    }
+  },
+);
+
+// ==================== DEAL AUTOMATION ====================
+
+crmRoutes.get(
+  "/api/deal-automation/settings",
+  requireAuth,
+  checkPermission("deals", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const organization = await storage.getOrganization(orgId);
+      if (!organization) return res.status(404).json({ error: "Organization not found" });
+      res.json({ createEngagementOnDealWon: organization.createEngagementOnDealWon });
+    } catch (error) {
+      console.error("Get deal automation settings error:", error);
+      res.status(500).json({ error: "Failed to fetch deal automation settings" });
+    }
+  },
+);
+
+crmRoutes.put(
+  "/api/deal-automation/settings",
+  requireAuth,
+  checkPermission("organizations", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = dealAutomationSettingsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const organization = await storage.updateOrganizationSettings(orgId, validation.data);
+      res.json({ createEngagementOnDealWon: organization.createEngagementOnDealWon });
+    } catch (error) {
+      console.error("Update deal automation settings error:", error);
+      res.status(500).json({ error: "Failed to update deal automation settings" });
+    }
+  },
+);
+
 // ==================== DEALS ====================
 
+/**
+ * Work out which stage a deal is written to: an explicit `stageId`, else the entry stage of
+ * `pipelineId`, else (new deals only) the entry stage of the default pipeline. Returns no
+ * placement when an update leaves the stage alone.
+ */
+async function resolveDealPlacement(
+  orgId: string,
+  body: Record<string, unknown>,
+  existing?: Deal,
+): Promise<{ placement?: DealStagePlacement; error?: string }> {
+  const stageId = typeof body.stageId === "string" && body.stageId ? body.stageId : undefined;
+  const pipelineId = typeof body.pipelineId === "string" && body.pipelineId ? body.pipelineId : undefined;
+  const probability =
+    body.probability === undefined || body.probability === null || body.probability === ""
+      ? undefined
+      : Number(body.probability);
+
+  let stage: DealStage | undefined;
+  if (stageId) {
+    if (existing && stageId === existing.stageId && (!pipelineId || pipelineId === existing.pipelineId)) return {};
+    stage = await storage.getDealStage(stageId, orgId);
+    if (!stage || (pipelineId && stage.pipelineId !== pipelineId)) {
+      return { error: "Stage not found in this pipeline" };
+    }
+  } else if (pipelineId) {
+    if (existing && pipelineId === existing.pipelineId) return {};
+    const pipeline = await storage.getDealPipeline(pipelineId, orgId);
+    if (!pipeline) return { error: "Pipeline not found" };
+    stage = getEntryStage(pipeline.stages);
+  } else if (existing) {
+    return {};
+  } else {
+    stage = getEntryStage((await storage.getDefaultDealPipeline(orgId)).stages);
+  }
+  if (!stage) return { error: "Pipeline has no open stage" };
+  return { placement: placeDealInStage(stage, existing, Number.isFinite(probability) ? probability : undefined) };
+}
+
 crmRoutes.get("/api/deals", requireAuth, checkPermission("deals", "view"), async (req: Request, res: Response) => {
   try {
     const userId = (req as AuthenticatedRequest).user!.claims.sub;
@@ -340,11 +837,18 @@ crmRoutes.post("/api/deals", requireAuth, checkPermission("deals", "create"), as
   try {
     const userId = (req as AuthenticatedRequest).user!.claims.sub;
     const orgId = await getOrCreateOrg(userId);
-    const deal = await storage.createDeal({
-      ...req.body,
-      organizationId: orgId,
-      ownerId: userId,
-    });
+    const { placement, error } = await resolveDealPlacement(orgId, req.body);
+    if (!placement) return res.status(400).json({ error });
+    const { status: _status, closedAt: _closedAt, ...data } = req.body;
+    const deal = await storage.createDeal(
+      {
+        ...data,
+        ...placement,
+        organizationId: orgId,
+        ownerId: userId,
+      },
+      userId,
+    );
     res.status(201).json(deal);
   } catch (error) {
     console.error("Create deal error:", error);
@@ -356,7 +860,20 @@ crmRoutes.patch("/api/deals/:id", requireAuth, checkPermission("deals", "edit"),
   try {
     const userId = (req as AuthenticatedRequest).user!.claims.sub;
     const orgId = await getOrCreateOrg(userId);
-    const deal = await storage.updateDeal(req.params.id, orgId, req.body);
+    const existing = await storage.getDeal(req.params.id, orgId);
+    if (!existing) return res.status(404).json({ error: "Deal not found" });
+    const { placement, error } = await resolveDealPlacement(orgId, req.body, existing);
+    if (error) return res.status(400).json({ error });
+    // Status and close date follow the stage
+    const {
+      status: _status,
+      closedAt: _closedAt,
+      organizationId: _organizationId,
+      pipelineId: _pipelineId,
+      stageId: _stageId,
+      ...data
+    } = req.body;
+    const deal = await storage.updateDeal(req.params.id, orgId, { ...data, ...placement }, userId);
     if (!deal) return res.status(404).json({ error: "Deal not found" });
     res.json(deal);
   } catch (error) {
@@ -365,6 +882,25 @@ crmRoutes.patch("/api/deals/:id", requireAuth, checkPermission("deals", "edit"),
   }
 });
 
+crmRoutes.get(
+  "/api/deals/:id/stage-history",
+  requireAuth,
+  checkPermission("deals", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const deal = await storage.getDeal(req.params.id, orgId);
+      if (!deal) return res.status(404).json({ error: "Deal not found" });
+      const history = await storage.getDealStageHistory(deal.id, orgId);
+      res.json(history);
+    } catch (error) {
+      console.error("Get deal stage history error:", error);
+      res.status(500).json({ error: "Failed to fetch deal stage history" });
+    }
+  },
+);
+
 crmRoutes.delete(
   "/api/deals/:id",
   requireAuth,
@@ -382,3 +918,58 @@ crmRoutes.delete(
     }
   },
 );
+
+// ==================== REPORTS ====================
+
+const pipelineReportQuerySchema = z.object({
+  pipelineId: z.string().min(1).optional(),
+  // Period for the closed-deal figures (win rate, deal size, sales cycle)
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+crmRoutes.get(
+  "/api/reports/pipeline",
+  requireAuth,
+  checkPermission("deals", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = pipelineReportQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const { pipelineId, from, to } = validation.data;
+      const [allPipelines, allDeals, transitions] = await Promise.all([
+        storage.getDealPipelines(orgId),
+        storage.getDeals(orgId),
+        storage.getDealStageTransitions(orgId),
+      ]);
+      const pipelines = pipelineId ? allPipelines.filter((pipeline) => pipeline.id === pipelineId) : allPipelines;
+      if (pipelineId && pipelines.length === 0) return res.status(404).json({ error: "Pipeline not found" });
+      const deals = pipelineId ? allDeals.filter((deal) => deal.pipelineId === pipelineId) : allDeals;
+
+      const ownerIds = Array.from(new Set(deals.map((deal) => deal.ownerId)));
+      const owners = await Promise.all(ownerIds.map((ownerId) => storage.getUser(ownerId)));
+      const ownerNames = new Map(
+        ownerIds.map((ownerId, index) => {
+          const owner = owners[index];
+          return [ownerId, [owner?.firstName, owner?.lastName].filter(Boolean).join(" ") || owner?.email || ownerId];
+        }),
+      );
+      const organization = await storage.getOrganization(orgId);
+
+      res.json({
+        currency: organization?.currency ?? "USD",
+        pipelineId: pipelineId ?? null,
+        from: from ?? null,
+        to: to ?? null,
+        ...buildPipelineReport(deals, pipelines, transitions, { from, to: to && endOfDay(to), ownerNames }),
+      });
+    } catch (error) {
+      console.error("Pipeline report error:", error);
+      res.status(500).json({ error: "Failed to build pipeline report" });
+    }
+  },
+);
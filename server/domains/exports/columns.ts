@@ -0,0 +1,268 @@
+import { z } from "zod";
+import { clientFilterQuerySchema, type FilterOptions } from "@shared/client-schemas";
+import {
+  EXPORT_FORMATS,
+  type Bill,
+  type ClientCompany,
+  type Contact,
+  type Contract,
+  type Deal,
+  type Engagement,
+  type ExportEntityType,
+  type ExportFormat,
+  type Invoice,
+  type Project,
+  type Proposal,
+  type Task,
+} from "@shared/schema";
+import type { XlsxColumn, XlsxValue } from "../../utils/xlsx";
+
+/**
+ * Data exports: the list endpoints that can be exported, the filters each one accepts and
+ * the columns written for each record.
+ *
+ * Filters mirror the matching list endpoint (clients: search, industry, city, state and
+ * country; tasks: projectId). Columns keep related records as IDs so an export can be joined
+ * back to the others. Amounts are numbers and timestamps dates, so spreadsheets can sum and
+ * sort them; CSV writes dates as ISO 8601.
+ */
+
+export interface ExportRecordMap {
+  clients: ClientCompany;
+  contacts: Contact;
+  deals: Deal;
+  proposals: Proposal;
+  contracts: Contract;
+  engagements: Engagement;
+  projects: Project;
+  tasks: Task;
+  invoices: Invoice;
+  bills: Bill;
+}
+
+/** Filters any export may carry; each entity applies only its own. */
+export interface ExportFilters extends FilterOptions {
+  projectId?: string;
+}
+
+const formatSchema = z.object({ format: z.enum(EXPORT_FORMATS).default("csv") });
+
+/** Query schema per export: the format plus the filters of the matching list endpoint. */
+export const exportQuerySchemas: Record<
+  ExportEntityType,
+  z.ZodType<ExportFilters & { format: ExportFormat }, z.ZodTypeDef, unknown>
+> = {
+  clients: formatSchema.merge(clientFilterQuerySchema),
+  contacts: formatSchema,
+  deals: formatSchema,
+  proposals: formatSchema,
+  contracts: formatSchema,
+  engagements: formatSchema,
+  projects: formatSchema,
+  tasks: formatSchema.extend({ projectId: z.string().optional() }),
+  invoices: formatSchema,
+  bills: formatSchema,
+};
+
+export interface ExportColumn<T> extends XlsxColumn {
+  value: (record: T) => XlsxValue;
+}
+
+type ExportColumns = { [K in ExportEntityType]: ExportColumn<ExportRecordMap[K]>[] };
+
+// Decimal columns come back from the database as strings
+const amount = (value: string | null) => (value === null ? null : Number(value));
+
+const id: ExportColumn<{ id: string }> = { header: "ID", value: (record) => record.id };
+const created: ExportColumn<{ createdAt: Date }> = {
+  header: "Created",
+  value: (record) => record.createdAt,
+};
+const updated: ExportColumn<{ updatedAt: Date }> = {
+  header: "Updated",
+  value: (record) => record.updatedAt,
+};
+
+export const EXPORT_COLUMNS: ExportColumns = {
+  clients: [
+    id,
+    { header: "Name", value: (client) => client.name },
+    { header: "Website", value: (client) => client.website },
+    { header: "Industry", value: (client) => client.industry },
+    { header: "Address", value: (client) => client.address },
+    { header: "City", value: (client) => client.city },
+    { header: "State", value: (client) => client.state },
+    { header: "Zip Code", value: (client) => client.zipCode },
+    { header: "Country", value: (client) => client.country },
+    { header: "Notes", value: (client) => client.notes },
+    created,
+    updated,
+  ],
+  contacts: [
+    id,
+    { header: "First Name", value: (contact) => contact.firstName },
+    { header: "Last Name", value: (contact) => contact.lastName },
+    { header: "Email", value: (contact) => contact.email },
+    { header: "Phone", value: (contact) => contact.phone },
+    { header: "Title", value: (contact) => contact.title },
+    { header: "Primary", value: (contact) => contact.isPrimary },
+    { header: "Client ID", value: (contact) => contact.clientCompanyId },
+    { header: "Notes", value: (contact) => contact.notes },
+    created,
+    updated,
+  ],
+  deals: [
+    id,
+    { header: "Name", value: (deal) => deal.name },
+    { header: "Status", value: (deal) => deal.status },
+    { header: "Value", value: (deal) => amount(deal.value) },
+    { header: "Probability", value: (deal) => deal.probability },
+    { header: "Expected Close Date", value: (deal) => deal.expectedCloseDate, dateOnly: true },
+    { header: "Closed", value: (deal) => deal.closedAt },
+    { header: "Client ID", value: (deal) => deal.clientCompanyId },
+    { header: "Contact ID", value: (deal) => deal.contactId },
+    { header: "Owner ID", value: (deal) => deal.ownerId },
+    { header: "Pipeline ID", value: (deal) => deal.pipelineId },
+    { header: "Stage ID", value: (deal) => deal.stageId },
+    { header: "Description", value: (deal) => deal.description },
+    { header: "Notes", value: (deal) => deal.notes },
+    created,
+    updated,
+  ],
+  proposals: [
+    id,
+    { header: "Name", value: (proposal) => proposal.name },
+    { header: "Status", value: (proposal) => proposal.status },
+    { header: "Total Value", value: (proposal) => amount(proposal.totalValue) },
+    { header: "Valid Until", value: (proposal) => proposal.validUntil, dateOnly: true },
+    { header: "Sent", value: (proposal) => proposal.sentAt },
+    { header: "Viewed", value: (proposal) => proposal.viewedAt },
+    { header: "Responded", value: (proposal) => proposal.respondedAt },
+    { header: "Client ID", value: (proposal) => proposal.clientCompanyId },
+    { header: "Contact ID", value: (proposal) => proposal.contactId },
+    { header: "Deal ID", value: (proposal) => proposal.dealId },
+    created,
+    updated,
+  ],
+  contracts: [
+    id,
+    { header: "Name", value: (contract) => contract.name },
+    { header: "Status", value: (contract) => contract.status },
+    { header: "Total Value", value: (contract) => amount(contract.totalValue) },
+    { header: "Start Date", value: (contract) => contract.startDate, dateOnly: true },
+    { header: "End Date", value: (contract) => contract.endDate, dateOnly: true },
+    { header: "Signed", value: (contract) => contract.signedAt },
+    { header: "Signed By", value: (contract) => contract.signedByName },
+    { header: "Client ID", value: (contract) => contract.clientCompanyId },
+    { header: "Contact ID", value: (contract) => contract.contactId },
+    { header: "Deal ID", value: (contract) => contract.dealId },
+    { header: "Proposal ID", value: (contract) => contract.proposalId },
+    created,
+    updated,
+  ],
+  engagements: [
+    id,
+    { header: "Name", value: (engagement) => engagement.name },
+    { header: "Status", value: (engagement) => engagement.status },
+    { header: "Work Type", value: (engagement) => engagement.workType },
+    { header: "Total Value", value: (engagement) => amount(engagement.totalValue) },
+    { header: "Start Date", value: (engagement) => engagement.startDate, dateOnly: true },
+    { header: "End Date", value: (engagement) => engagement.endDate, dateOnly: true },
+    { header: "Client ID", value: (engagement) => engagement.clientCompanyId },
+    { header: "Contact ID", value: (engagement) => engagement.contactId },
+    { header: "Owner ID", value: (engagement) => engagement.ownerId },
+    { header: "Contract ID", value: (engagement) => engagement.contractId },
+    { header: "Description", value: (engagement) => engagement.description },
+    created,
+    updated,
+  ],
+  projects: [
+    id,
+    { header: "Name", value: (project) => project.name },
+    { header: "Status", value: (project) => project.status },
+    { header: "Progress", value: (project) => project.progress },
+    { header: "Start Date", value: (project) => project.startDate, dateOnly: true },
+    { header: "Due Date", value: (project) => project.dueDate, dateOnly: true },
+    { header: "Completed", value: (project) => project.completedAt },
+    { header: "Engagement ID", value: (project) => project.engagementId },
+    { header: "Description", value: (project) => project.description },
+    created,
+    updated,
+  ],
+  tasks: [
+    id,
+    { header: "Name", value: (task) => task.name },
+    { header: "Status", value: (task) => task.status },
+    { header: "Priority", value: (task) => task.priority },
+    { header: "Due Date", value: (task) => task.dueDate, dateOnly: true },
+    { header: "Completed", value: (task) => task.completedAt },
+    { header: "Project ID", value: (task) => task.projectId },
+    { header: "Milestone ID", value: (task) => task.milestoneId },
+    { header: "Assignee ID", value: (task) => task.assigneeId },
+    { header: "Description", value: (task) => task.description },
+    created,
+    updated,
+  ],
+  invoices: [
+    id,
+    { header: "Invoice Number", value: (invoice) => invoice.invoiceNumber },
+    { header: "Status", value: (invoice) => invoice.status },
+    { header: "Currency", value: (invoice) => invoice.currency },
+    { header: "Amount", value: (invoice) => amount(invoice.amount) },
+    { header: "Tax", value: (invoice) => amount(invoice.tax) },
+    { header: "Total", value: (invoice) => amount(invoice.totalAmount) },
+    { header: "Paid Amount", value: (invoice) => amount(invoice.paidAmount) },
+    { header: "Credited Amount", value: (invoice) => amount(invoice.creditedAmount) },
+    { header: "Due Date", value: (invoice) => invoice.dueDate, dateOnly: true },
+    { header: "Sent", value: (invoice) => invoice.sentAt },
+    { header: "Paid", value: (invoice) => invoice.paidAt },
+    { header: "Client ID", value: (invoice) => invoice.clientCompanyId },
+    { header: "Engagement ID", value: (invoice) => invoice.engagementId },
+    { header: "Notes", value: (invoice) => invoice.notes },
+    created,
+    updated,
+  ],
+  bills: [
+    id,
+    { header: "Bill Number", value: (bill) => bill.billNumber },
+    { header: "Status", value: (bill) => bill.status },
+    { header: "Currency", value: (bill) => bill.currency },
+    { header: "Amount", value: (bill) => amount(bill.amount) },
+    { header: "Due Date", value: (bill) => bill.dueDate, dateOnly: true },
+    { header: "Approved", value: (bill) => bill.approvedAt },
+    { header: "Paid", value: (bill) => bill.paidAt },
+    { header: "Vendor ID", value: (bill) => bill.vendorId },
+    { header: "Engagement ID", value: (bill) => bill.engagementId },
+    { header: "Description", value: (bill) => bill.description },
+    { header: "Notes", value: (bill) => bill.notes },
+    created,
+    updated,
+  ],
+};
+
+/** Cell values of one record, in column order. */
+export function toExportRow<T>(columns: ExportColumn<T>[], record: T): XlsxValue[] {
+  return columns.map((column) => column.value(record));
+}
+
+/** CSV fields of one record: dates as ISO 8601, date-only columns without the time. */
+export function toCsvRow<T>(
+  columns: ExportColumn<T>[],
+  record: T,
+): (string | number | boolean | null)[] {
+  return columns.map((column) => {
+    const value = column.value(record) ?? null;
+    if (!(value instanceof Date)) return value;
+    const iso = value.toISOString();
+    return column.dateOnly ? iso.slice(0, 10) : iso;
+  });
+}
+
+/** Download name, e.g. `invoices-2026-10-18.xlsx`. */
+export function exportFileName(
+  entityType: ExportEntityType,
+  format: ExportFormat,
+  date = new Date(),
+): string {
+  return `${entityType}-${date.toISOString().slice(0, 10)}.${format}`;
+}
@@ -0,0 +1,149 @@
+import { Router, Request, Response } from "express";
+import { storage } from "../../storage";
+import { requireAuth, getOrCreateOrg, AuthenticatedRequest } from "../../middleware/auth";
+import { checkPermission } from "../../middleware/permissions";
+import { toCsv } from "../../utils/csv";
+import { createXlsxWriter } from "../../utils/xlsx";
+import { formatZodErrors } from "../crm/error-handlers";
+import { EXPORT_ENTITY_TYPES, type ExportEntityType, type ExportFormat } from "@shared/schema";
+import {
+  EXPORT_COLUMNS,
+  exportFileName,
+  exportQuerySchemas,
+  toCsvRow,
+  toExportRow,
+  type ExportColumn,
+  type ExportFilters,
+  type ExportRecordMap,
+} from "./columns";
+
+/**
+ * Data export routes: GET /api/exports/<list>?format=csv|xlsx for clients, contacts, deals,
+ * proposals, contracts, engagements, projects, tasks, invoices and bills.
+ *
+ * Each export takes the same filters as its list endpoint and needs the "export" permission
+ * on that list's area. Records are read in batches and written as they arrive, waiting for
+ * the client to keep up, so large exports stream rather than build up in memory. Every
+ * export, finished or not, is recorded in the activity timeline.
+ */
+
+export const exportRoutes = Router();
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// Write to the response, resolving once it can take more; rejects if the client went away
+async function writeChunk(res: Response, chunk: string | Buffer): Promise<void> {
+  if (res.destroyed) throw new Error("Client disconnected during export");
+  if (res.write(chunk)) return;
+  await new Promise<void>((resolve) => {
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+    res.on("drain", done);
+    res.on("close", done);
+  });
+  if (res.destroyed) throw new Error("Client disconnected during export");
+}
+
+async function getActor(userId: string) {
+  const user = await storage.getUser(userId);
+  const name = [user?.firstName, user?.lastName].filter(Boolean).join(" ");
+  return { id: userId, name: name || user?.email || userId };
+}
+
+async function recordExport(
+  orgId: string,
+  userId: string,
+  entityType: ExportEntityType,
+  details: { format: ExportFormat; filters: ExportFilters; rowCount: number; completed: boolean },
+) {
+  try {
+    const actor = await getActor(userId);
+    await storage.createActivityEvent({
+      organizationId: orgId,
+      entityType: "export",
+      entityId: entityType,
+      actorId: actor.id,
+      actorName: actor.name,
+      type: "exported",
+      description: details.completed
+        ? `Exported ${details.rowCount} ${entityType} as ${details.format.toUpperCase()}`
+        : `Export of ${entityType} as ${details.format.toUpperCase()} stopped after ${details.rowCount} rows`,
+      metadata: details,
+    });
+  } catch (error) {
+    // The export itself already went out; don't fail the request over the audit entry
+    console.error("Record export error:", error);
+  }
+}
+
+async function exportList<K extends ExportEntityType>(entityType: K, req: Request, res: Response) {
+  const validation = exportQuerySchemas[entityType].safeParse(req.query);
+  if (!validation.success) {
+    return res.status(400).json({
+      error: "Validation failed",
+      details: formatZodErrors(validation.error),
+    });
+  }
+  const { format, ...filters } = validation.data;
+  const columns = EXPORT_COLUMNS[entityType] as ExportColumn<ExportRecordMap[K]>[];
+
+  let userId: string;
+  let orgId: string;
+  try {
+    userId = (req as AuthenticatedRequest).user!.claims.sub;
+    orgId = await getOrCreateOrg(userId);
+  } catch (error) {
+    console.error("Export error:", error);
+    return res.status(500).json({ error: `Failed to export ${entityType}` });
+  }
+
+  let rowCount = 0;
+  try {
+    res.setHeader("Content-Type", CONTENT_TYPES[format]);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${exportFileName(entityType, format)}"`,
+    );
+
+    if (format === "xlsx") {
+      const writer = await createXlsxWriter(entityType, columns, (chunk) => writeChunk(res, chunk));
+      await storage.exportRecords(entityType, orgId, filters, async (records) => {
+        await writer.addRows(records.map((record) => toExportRow(columns, record)));
+        rowCount += records.length;
+      });
+      await writer.end();
+    } else {
+      await writeChunk(res, toCsv([columns.map((column) => column.header)]));
+      await storage.exportRecords(entityType, orgId, filters, async (records) => {
+        await writeChunk(res, toCsv(records.map((record) => toCsvRow(columns, record))));
+        rowCount += records.length;
+      });
+    }
+    res.end();
+    await recordExport(orgId, userId, entityType, { format, filters, rowCount, completed: true });
+  } catch (error) {
+    console.error("Export error:", error);
+    await recordExport(orgId, userId, entityType, { format, filters, rowCount, completed: false });
+    if (!res.headersSent) {
+      res.removeHeader("Content-Disposition");
+      return res.status(500).json({ error: `Failed to export ${entityType}` });
+    }
+    // Part of the file already went out; cut the download short rather than end it cleanly
+    res.destroy();
+  }
+}
+
+for (const entityType of EXPORT_ENTITY_TYPES) {
+  exportRoutes.get(
+    `/api/exports/${entityType}`,
+    requireAuth,
+    checkPermission(entityType, "export"),
+    (req: Request, res: Response) => exportList(entityType, req, res),
+  );
+}
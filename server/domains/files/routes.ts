@@ -5,6 +5,7 @@ import fs from "fs";
 import { storage } from "../../storage";
 import { requireAuth, getUserIdFromRequest, getOrCreateOrg } from "../../middleware/auth";
 import { checkPermission } from "../../middleware/permissions";
+import type { FileObject } from "@shared/schema";
 
 // Ensure uploads directory exists
 const uploadDir = path.join(process.cwd(), "uploads");
@@ -19,6 +20,10 @@ const upload = multer({
 
 export const filesRoutes = Router();
 
+// Expense receipts are stored as file objects too, but are only served through
+// GET /api/expenses/:id/receipt, which limits them to the employee and admins
+const isExpenseReceipt = (file: FileObject) => file.folder === "/receipt";
+
 filesRoutes.post("/api/files/upload", requireAuth, checkPermission("files", "create"), upload.single("file"), async (req, res) => {
   if (!req.file) {
     return res.status(400).json({ error: "No file uploaded" });
@@ -56,7 +61,7 @@ filesRoutes.get("/api/files/:id/download", requireAuth, checkPermission("files",
         const fileId = req.params.id;
 
         const file = await storage.getFileObject(fileId);
-        if (!file || file.organizationId !== orgId) {
+        if (!file || file.organizationId !== orgId || isExpenseReceipt(file)) {
             return res.status(404).json({ error: "File not found" });
         }
 
@@ -74,7 +79,7 @@ filesRoutes.get("/api/files", requireAuth, checkPermission("files", "view"), asy
         const engagementId = req.query.engagementId as string;
 
         const files = await storage.getFileObjects(orgId, engagementId);
-        res.json(files);
+        res.json(files.filter((file) => !isExpenseReceipt(file)));
     } catch (error) {
         console.error("List files error:", error);
         res.status(500).json({ error: "List files failed" });
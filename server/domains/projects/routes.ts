@@ -2,9 +2,89 @@ import { Router, Request, Response } from "express";
 import { storage } from "../../storage";
 import { requireAuth, getUserIdFromRequest, getOrCreateOrg, AuthenticatedRequest } from "../../middleware/auth";
 import { checkPermission } from "../../middleware/permissions";
+import {
+  insertTimeEntrySchema,
+  updateTimeEntrySchema,
+  startTimerSchema,
+  submitTimesheetSchema,
+  reviewTimesheetSchema,
+  TIME_ENTRY_STATUSES,
+  type TimeEntry,
+} from "@shared/schema";
+import { formatZodErrors } from "../crm/error-handlers";
+import {
+  canReviewTimesheets,
+  getTimesheetReviewDenial,
+  getTimesheetWeek,
+  isTimeEntryEditable,
+  summarizeTimesheet,
+} from "./time-tracking";
+import { z } from "zod";
 
 export const projectsRoutes = Router();
 
+/**
+ * The engagement to log time against, checking the project and task belong to the org and
+ * to each other. Returns an error response body when they do not.
+ */
+async function resolveTimeTarget(orgId: string, projectId: string, taskId: string | null | undefined) {
+  const project = await storage.getProject(projectId, orgId);
+  if (!project) return { status: 404, error: { error: "Project not found" } };
+  if (taskId) {
+    const tasks = await storage.getTasks(orgId, project.id);
+    if (!tasks.some((task) => task.id === taskId)) {
+      return { status: 400, error: { error: "Task does not belong to this project" } };
+    }
+  }
+  return { engagementId: project.engagementId };
+}
+
+/** Load an entry the current user may change, or send the error response and return undefined. */
+async function loadOwnEditableEntry(req: Request, res: Response, orgId: string): Promise<TimeEntry | undefined> {
+  const userId = (req as AuthenticatedRequest).user!.claims.sub;
+  const entry = await storage.getTimeEntry(req.params.id, orgId);
+  if (!entry) {
+    res.status(404).json({ error: "Time entry not found" });
+    return undefined;
+  }
+  if (entry.userId !== userId) {
+    res.status(403).json({ error: "You can only change your own time entries" });
+    return undefined;
+  }
+  if (!isTimeEntryEditable(entry)) {
+    res.status(409).json({ error: "Submitted, approved and invoiced time cannot be changed" });
+    return undefined;
+  }
+  return entry;
+}
+
+/** Approve or reject every submitted entry in one user's week. */
+async function reviewTimesheetRequest(req: Request, res: Response, decision: "approved" | "rejected") {
+  const reviewerId = (req as AuthenticatedRequest).user!.claims.sub;
+  const orgId = await getOrCreateOrg(reviewerId);
+  const validation = reviewTimesheetSchema.safeParse(req.body ?? {});
+  if (!validation.success) {
+    return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+  }
+  const { userId, weekStart, note } = validation.data;
+  const role = await storage.getOrganizationMemberRole(orgId, reviewerId);
+  const denial = getTimesheetReviewDenial(reviewerId, userId, role);
+  if (denial) return res.status(403).json({ error: denial });
+
+  const entries = await storage.reviewTimesheet({
+    orgId,
+    userId,
+    week: getTimesheetWeek(weekStart),
+    decision,
+    reviewedById: reviewerId,
+    note,
+  });
+  if (entries.length === 0) {
+    return res.status(409).json({ error: "No submitted time to review for this week" });
+  }
+  res.json(entries);
+}
+
 // ==================== PROJECTS ====================
 
 projectsRoutes.get("/api/projects", requireAuth, checkPermission("projects", "view"), async (req: Request, res: Response) => {
@@ -93,3 +173,321 @@ projectsRoutes.post("/api/tasks", requireAuth, checkPermission("tasks", "create"
     res.status(500).json({ error: "Failed to create task" });
   }
 });
+
+// ==================== TIME TRACKING ====================
+
+const timeEntriesQuerySchema = z.object({
+  userId: z.string().optional(),
+  status: z.enum(TIME_ENTRY_STATUSES).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+projectsRoutes.get(
+  "/api/time-entries",
+  requireAuth,
+  checkPermission("time_entries", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = timeEntriesQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      // Members see their own time; reviewers may look at anyone's
+      const { userId: requestedUserId = userId, ...filters } = validation.data;
+      if (requestedUserId !== userId && !canReviewTimesheets(await storage.getOrganizationMemberRole(orgId, userId))) {
+        return res.status(403).json({ error: "Viewing other users' time requires the admin role" });
+      }
+      const entries = await storage.getTimeEntries(orgId, { ...filters, userId: requestedUserId });
+      res.json(entries);
+    } catch (error) {
+      console.error("Get time entries error:", error);
+      res.status(500).json({ error: "Failed to fetch time entries" });
+    }
+  },
+);
+
+projectsRoutes.post(
+  "/api/time-entries",
+  requireAuth,
+  checkPermission("time_entries", "create"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = insertTimeEntrySchema.safeParse({ ...req.body, organizationId: orgId, userId });
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const target = await resolveTimeTarget(orgId, validation.data.projectId, validation.data.taskId);
+      if (target.error) return res.status(target.status).json(target.error);
+      const entry = await storage.createTimeEntry({ ...validation.data, engagementId: target.engagementId });
+      res.status(201).json(entry);
+    } catch (error) {
+      console.error("Create time entry error:", error);
+      res.status(500).json({ error: "Failed to create time entry" });
+    }
+  },
+);
+
+// Timer routes are registered before /api/time-entries/:id so "timer" is not taken for an id
+projectsRoutes.get(
+  "/api/time-entries/timer",
+  requireAuth,
+  checkPermission("time_entries", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const entry = await storage.getRunningTimeEntry(orgId, userId);
+      res.json(entry ?? null);
+    } catch (error) {
+      console.error("Get running timer error:", error);
+      res.status(500).json({ error: "Failed to fetch running timer" });
+    }
+  },
+);
+
+projectsRoutes.post(
+  "/api/time-entries/timer/start",
+  requireAuth,
+  checkPermission("time_entries", "create"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = startTimerSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const target = await resolveTimeTarget(orgId, validation.data.projectId, validation.data.taskId);
+      if (target.error) return res.status(target.status).json(target.error);
+      const now = new Date();
+      const entry = await storage.createTimeEntry({
+        ...validation.data,
+        organizationId: orgId,
+        userId,
+        engagementId: target.engagementId,
+        date: now,
+        durationMinutes: 0,
+        timerStartedAt: now,
+      });
+      if (!entry) return res.status(409).json({ error: "A timer is already running; stop it first" });
+      res.status(201).json(entry);
+    } catch (error) {
+      console.error("Start timer error:", error);
+      res.status(500).json({ error: "Failed to start timer" });
+    }
+  },
+);
+
+projectsRoutes.post(
+  "/api/time-entries/timer/stop",
+  requireAuth,
+  checkPermission("time_entries", "create"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const running = await storage.getRunningTimeEntry(orgId, userId);
+      if (!running) return res.status(404).json({ error: "No timer is running" });
+      const entry = await storage.stopTimeEntryTimer(running.id, orgId, new Date());
+      if (!entry) return res.status(404).json({ error: "No timer is running" });
+      res.json(entry);
+    } catch (error) {
+      console.error("Stop timer error:", error);
+      res.status(500).json({ error: "Failed to stop timer" });
+    }
+  },
+);
+
+projectsRoutes.patch(
+  "/api/time-entries/:id",
+  requireAuth,
+  checkPermission("time_entries", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = updateTimeEntrySchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const existing = await loadOwnEditableEntry(req, res, orgId);
+      if (!existing) return;
+
+      const changes: Parameters<typeof storage.updateTimeEntry>[2] = validation.data;
+      if (changes.projectId !== undefined || changes.taskId !== undefined) {
+        const projectId = changes.projectId ?? existing.projectId;
+        // Moving to another project clears a task that belonged to the old one
+        let taskId = changes.taskId;
+        if (taskId === undefined) taskId = projectId === existing.projectId ? existing.taskId : null;
+        const target = await resolveTimeTarget(orgId, projectId, taskId);
+        if (target.error) return res.status(target.status).json(target.error);
+        Object.assign(changes, { projectId, taskId, engagementId: target.engagementId });
+      }
+      const entry = await storage.updateTimeEntry(existing.id, orgId, changes);
+      if (!entry) return res.status(409).json({ error: "Submitted, approved and invoiced time cannot be changed" });
+      res.json(entry);
+    } catch (error) {
+      console.error("Update time entry error:", error);
+      res.status(500).json({ error: "Failed to update time entry" });
+    }
+  },
+);
+
+projectsRoutes.delete(
+  "/api/time-entries/:id",
+  requireAuth,
+  checkPermission("time_entries", "delete"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const existing = await loadOwnEditableEntry(req, res, orgId);
+      if (!existing) return;
+      const success = await storage.deleteTimeEntry(existing.id, orgId);
+      if (!success) return res.status(409).json({ error: "Submitted, approved and invoiced time cannot be changed" });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete time entry error:", error);
+      res.status(500).json({ error: "Failed to delete time entry" });
+    }
+  },
+);
+
+// ==================== TIMESHEETS ====================
+
+const timesheetQuerySchema = z.object({
+  weekStart: z.coerce.date().default(() => new Date()),
+  userId: z.string().optional(),
+});
+
+projectsRoutes.get(
+  "/api/timesheets",
+  requireAuth,
+  checkPermission("time_entries", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = timesheetQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const { userId: timesheetUserId = userId, weekStart } = validation.data;
+      if (timesheetUserId !== userId && !canReviewTimesheets(await storage.getOrganizationMemberRole(orgId, userId))) {
+        return res.status(403).json({ error: "Viewing other users' time requires the admin role" });
+      }
+      const week = getTimesheetWeek(weekStart);
+      const entries = await storage.getTimeEntries(orgId, { userId: timesheetUserId, from: week.start, to: week.end });
+      res.json({
+        userId: timesheetUserId,
+        weekStart: week.start,
+        weekEnd: week.end,
+        entries,
+        summary: summarizeTimesheet(entries, week.start),
+      });
+    } catch (error) {
+      console.error("Get timesheet error:", error);
+      res.status(500).json({ error: "Failed to fetch timesheet" });
+    }
+  },
+);
+
+// Weeks awaiting review, one row per user and week
+projectsRoutes.get(
+  "/api/timesheets/submitted",
+  requireAuth,
+  checkPermission("time_entries", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      if (!canReviewTimesheets(await storage.getOrganizationMemberRole(orgId, userId))) {
+        return res.status(403).json({ error: "Reviewing timesheets requires the admin role" });
+      }
+      const entries = await storage.getTimeEntries(orgId, { status: "submitted" });
+      const weeks = new Map<string, { userId: string; weekStart: Date; entries: TimeEntry[] }>();
+      for (const entry of entries) {
+        const weekStart = getTimesheetWeek(entry.date).start;
+        const key = `${entry.userId}|${weekStart.toISOString()}`;
+        const week = weeks.get(key) ?? { userId: entry.userId, weekStart, entries: [] };
+        week.entries.push(entry);
+        weeks.set(key, week);
+      }
+      const timesheets = await Promise.all(
+        Array.from(weeks.values()).map(async (week) => {
+          const user = await storage.getUser(week.userId);
+          const { totalMinutes, billableMinutes } = summarizeTimesheet(week.entries, week.weekStart);
+          return {
+            userId: week.userId,
+            userName: [user?.firstName, user?.lastName].filter(Boolean).join(" ") || user?.email || week.userId,
+            weekStart: week.weekStart,
+            entryCount: week.entries.length,
+            totalMinutes,
+            billableMinutes,
+          };
+        }),
+      );
+      res.json(timesheets.sort((a, b) => a.weekStart.getTime() - b.weekStart.getTime()));
+    } catch (error) {
+      console.error("Get submitted timesheets error:", error);
+      res.status(500).json({ error: "Failed to fetch submitted timesheets" });
+    }
+  },
+);
+
+projectsRoutes.post(
+  "/api/timesheets/submit",
+  requireAuth,
+  checkPermission("time_entries", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = submitTimesheetSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const entries = await storage.submitTimesheet(orgId, userId, getTimesheetWeek(validation.data.weekStart));
+      if (entries.length === 0) {
+        return res.status(409).json({ error: "No draft or rejected time to submit for this week" });
+      }
+      res.json(entries);
+    } catch (error) {
+      console.error("Submit timesheet error:", error);
+      res.status(500).json({ error: "Failed to submit timesheet" });
+    }
+  },
+);
+
+projectsRoutes.post(
+  "/api/timesheets/approve",
+  requireAuth,
+  checkPermission("time_entries", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      await reviewTimesheetRequest(req, res, "approved");
+    } catch (error) {
+      console.error("Approve timesheet error:", error);
+      res.status(500).json({ error: "Failed to approve timesheet" });
+    }
+  },
+);
+
+projectsRoutes.post(
+  "/api/timesheets/reject",
+  requireAuth,
+  checkPermission("time_entries", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      await reviewTimesheetRequest(req, res, "rejected");
+    } catch (error) {
+      console.error("Reject timesheet error:", error);
+      res.status(500).json({ error: "Failed to reject timesheet" });
+    }
+  },
+);
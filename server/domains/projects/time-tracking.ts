@@ -0,0 +1,140 @@
+import { addDays, differenceInCalendarDays, startOfWeek } from "date-fns";
+import type { OrganizationMember, Project, Task, TimeEntry, TimeEntryStatus } from "@shared/schema";
+
+/**
+ * Time tracking
+ *
+ * Time is logged per user against a project (and optionally one of its tasks) and reviewed
+ * as a weekly timesheet. Weeks start on Monday. Submitting a week moves its draft and
+ * rejected entries to `submitted`; an admin or owner then approves or rejects them together.
+ * Approved, billable entries that are not on an invoice yet are the engagement's unbilled
+ * time, and are invoiced as one line item per project / task / rate.
+ */
+
+type MemberRole = OrganizationMember["role"];
+type SummaryEntry = Pick<TimeEntry, "date" | "durationMinutes" | "billable" | "status">;
+type BillableEntry = Pick<TimeEntry, "id" | "projectId" | "taskId" | "date" | "durationMinutes" | "hourlyRate">;
+
+export type TimesheetStatus = TimeEntryStatus | "empty";
+
+export interface TimesheetSummary {
+  // Minutes per day, Monday first
+  days: { date: Date; minutes: number }[];
+  totalMinutes: number;
+  billableMinutes: number;
+  status: TimesheetStatus;
+}
+
+export interface TimeLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+const EDITABLE_STATUSES: TimeEntryStatus[] = ["draft", "rejected"];
+// A week shows the state that still needs someone's attention first
+const TIMESHEET_STATUS_ORDER: TimeEntryStatus[] = ["rejected", "draft", "submitted", "approved"];
+
+/** The Monday-to-Monday range (end exclusive) of the week containing `date`. */
+export function getTimesheetWeek(date: Date): { start: Date; end: Date } {
+  const start = startOfWeek(date, { weekStartsOn: 1 });
+  return { start, end: addDays(start, 7) };
+}
+
+/** Whole minutes a timer started at `startedAt` has run, rounded up and at least one. */
+export function getTimerMinutes(startedAt: Date, now: Date): number {
+  return Math.max(1, Math.ceil((now.getTime() - startedAt.getTime()) / 60000));
+}
+
+/** Submitted, approved and invoiced time is locked until it is rejected. */
+export function isTimeEntryEditable(entry: Pick<TimeEntry, "status" | "invoiceId">): boolean {
+  return !entry.invoiceId && EDITABLE_STATUSES.includes(entry.status as TimeEntryStatus);
+}
+
+export function summarizeTimesheet(entries: SummaryEntry[], weekStart: Date): TimesheetSummary {
+  const days = Array.from({ length: 7 }, (_, index) => ({ date: addDays(weekStart, index), minutes: 0 }));
+  let totalMinutes = 0;
+  let billableMinutes = 0;
+  for (const entry of entries) {
+    const day = days[differenceInCalendarDays(entry.date, weekStart)];
+    if (day) day.minutes += entry.durationMinutes;
+    totalMinutes += entry.durationMinutes;
+    if (entry.billable) billableMinutes += entry.durationMinutes;
+  }
+  const status =
+    TIMESHEET_STATUS_ORDER.find((candidate) => entries.some((entry) => entry.status === candidate)) ?? "empty";
+  return { days, totalMinutes, billableMinutes, status };
+}
+
+export function canReviewTimesheets(role: MemberRole | undefined): boolean {
+  return role === "admin" || role === "owner";
+}
+
+/**
+ * Why `reviewerId` may not approve or reject `timesheetUserId`'s week, or null when they may.
+ * Reviewers are admins and owners; only an owner may review their own time, since nobody
+ * ranks above them.
+ */
+export function getTimesheetReviewDenial(
+  reviewerId: string,
+  timesheetUserId: string,
+  reviewerRole: MemberRole | undefined,
+): string | null {
+  if (!canReviewTimesheets(reviewerRole)) {
+    return "Reviewing timesheets requires the admin role";
+  }
+  if (reviewerId === timesheetUserId && reviewerRole !== "owner") {
+    return "You cannot review your own timesheet";
+  }
+  return null;
+}
+
+const toHours = (minutes: number) => Math.round((minutes / 60) * 100) / 100;
+
+/**
+ * Invoice line items for unbilled time: one line per project / task / hourly rate, with the
+ * hours (to two decimals) as the quantity. Entries without a rate use `defaultRate`; the ids
+ * of entries that still have no rate are returned in `missingRate` and left out.
+ */
+export function buildTimeLineItems(
+  entries: BillableEntry[],
+  lookups: { projects: Pick<Project, "id" | "name">[]; tasks: Pick<Task, "id" | "name">[] },
+  defaultRate?: number,
+): { lineItems: TimeLineItem[]; missingRate: string[] } {
+  const projectNames = new Map(lookups.projects.map((project) => [project.id, project.name]));
+  const taskNames = new Map(lookups.tasks.map((task) => [task.id, task.name]));
+  const groups = new Map<string, { description: string; rate: number; minutes: number; firstDate: Date }>();
+  const missingRate: string[] = [];
+
+  for (const entry of entries) {
+    const rate = entry.hourlyRate !== null ? Number(entry.hourlyRate) : defaultRate;
+    if (rate === undefined) {
+      missingRate.push(entry.id);
+      continue;
+    }
+    const key = [entry.projectId, entry.taskId ?? "", rate].join("|");
+    const group = groups.get(key);
+    if (group) {
+      group.minutes += entry.durationMinutes;
+      if (entry.date < group.firstDate) group.firstDate = entry.date;
+      continue;
+    }
+    const project = projectNames.get(entry.projectId) ?? "Project";
+    const task = entry.taskId ? taskNames.get(entry.taskId) : undefined;
+    groups.set(key, {
+      description: task ? `${project}: ${task}` : project,
+      rate,
+      minutes: entry.durationMinutes,
+      firstDate: entry.date,
+    });
+  }
+
+  const lineItems = Array.from(groups.values())
+    .sort((a, b) => a.firstDate.getTime() - b.firstDate.getTime() || a.description.localeCompare(b.description))
+    .map((group) => ({
+      description: group.description.slice(0, 500),
+      quantity: toHours(group.minutes),
+      unitPrice: group.rate,
+    }));
+  return { lineItems, missingRate };
+}
@@ -0,0 +1,219 @@
+import { differenceInCalendarDays, format } from "date-fns";
+import {
+  AR_AGING_BUCKETS,
+  type ArAgingBucket,
+  type ClientCompany,
+  type Engagement,
+  type ExchangeRate,
+  type Invoice,
+} from "@shared/schema";
+import { convertToBaseCurrency, getDocumentCurrency } from "./currency";
+import { getBalanceDueCents } from "./payments";
+
+/**
+ * Accounts receivable aging
+ *
+ * Open invoices (`sent`, `viewed`, `partially_paid`, `overdue`) with a balance due are
+ * bucketed by days past their due date; invoices without a due date age from when they were
+ * issued. Balances are the current ledger balance (after payments, refunds and credit
+ * notes), converted to the base currency at the rate on the invoice date like dashboard
+ * revenue. Invoices without a rate are listed but left out of the totals.
+ */
+
+type AgingInvoice = Pick<
+  Invoice,
+  | "id"
+  | "invoiceNumber"
+  | "status"
+  | "clientCompanyId"
+  | "engagementId"
+  | "currency"
+  | "totalAmount"
+  | "paidAmount"
+  | "creditedAmount"
+  | "dueDate"
+  | "sentAt"
+  | "createdAt"
+>;
+type RateLookup = Pick<ExchangeRate, "currency" | "baseCurrency" | "rate" | "effectiveDate">;
+export type ArAgingTotals = Record<ArAgingBucket, number>;
+
+const OPEN_STATUSES: Invoice["status"][] = ["sent", "viewed", "partially_paid", "overdue"];
+
+export const AR_AGING_BUCKET_LABELS: Record<ArAgingBucket, string> = {
+  current: "Current",
+  days_1_30: "1-30",
+  days_31_60: "31-60",
+  days_61_90: "61-90",
+  days_over_90: "90+",
+};
+
+export interface ArAgingInvoice {
+  id: string;
+  invoiceNumber: string;
+  dueDate: Date | null;
+  daysPastDue: number;
+  bucket: ArAgingBucket;
+  currency: string;
+  balance: number;
+  // null when no exchange rate covers the invoice date
+  balanceInBase: number | null;
+}
+
+export interface ArAgingClient {
+  clientCompanyId: string | null;
+  clientName: string;
+  buckets: ArAgingTotals;
+  total: number;
+  invoices: ArAgingInvoice[];
+}
+
+export interface ArAgingReport {
+  asOf: Date;
+  currency: string;
+  buckets: ArAgingTotals;
+  total: number;
+  clients: ArAgingClient[];
+  unconverted: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const emptyTotals = (): ArAgingTotals =>
+  Object.fromEntries(AR_AGING_BUCKETS.map((bucket) => [bucket, 0])) as ArAgingTotals;
+
+export function getAgingBucket(daysPastDue: number): ArAgingBucket {
+  if (daysPastDue <= 0) return "current";
+  if (daysPastDue <= 30) return "days_1_30";
+  if (daysPastDue <= 60) return "days_31_60";
+  if (daysPastDue <= 90) return "days_61_90";
+  return "days_over_90";
+}
+
+/**
+ * Build the aging report grouped by client company. Invoices without a client fall back
+ * to their engagement's client, then to an "Unassigned" group.
+ */
+export function buildArAgingReport(
+  invoices: AgingInvoice[],
+  context: {
+    clients: Pick<ClientCompany, "id" | "name">[];
+    engagements: Pick<Engagement, "id" | "clientCompanyId">[];
+    baseCurrency: string;
+    rates: RateLookup[];
+    asOf?: Date;
+  },
+): ArAgingReport {
+  const { clients, engagements, baseCurrency, rates, asOf = new Date() } = context;
+  const clientNames = new Map(clients.map((client) => [client.id, client.name]));
+  const engagementClients = new Map(engagements.map((engagement) => [engagement.id, engagement.clientCompanyId]));
+  const groups = new Map<string | null, ArAgingClient>();
+  const buckets = emptyTotals();
+  let unconverted = 0;
+
+  for (const invoice of invoices) {
+    if (!OPEN_STATUSES.includes(invoice.status)) continue;
+    const balanceCents = getBalanceDueCents(invoice);
+    if (balanceCents <= 0) continue;
+
+    const balance = balanceCents / 100;
+    const currency = getDocumentCurrency(invoice, baseCurrency);
+    const issuedAt = invoice.sentAt ?? invoice.createdAt;
+    const daysPastDue = Math.max(0, differenceInCalendarDays(asOf, invoice.dueDate ?? issuedAt));
+    const bucket = getAgingBucket(daysPastDue);
+    const balanceInBase = convertToBaseCurrency(balance, currency, baseCurrency, issuedAt, rates);
+
+    const clientCompanyId =
+      invoice.clientCompanyId ?? (invoice.engagementId ? engagementClients.get(invoice.engagementId) : null) ?? null;
+    let group = groups.get(clientCompanyId);
+    if (!group) {
+      group = {
+        clientCompanyId,
+        clientName: (clientCompanyId && clientNames.get(clientCompanyId)) || "Unassigned",
+        buckets: emptyTotals(),
+        total: 0,
+        invoices: [],
+      };
+      groups.set(clientCompanyId, group);
+    }
+
+    group.invoices.push({
+      id: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      dueDate: invoice.dueDate,
+      daysPastDue,
+      bucket,
+      currency,
+      balance,
+      balanceInBase: balanceInBase === null ? null : roundCents(balanceInBase),
+    });
+    if (balanceInBase === null) {
+      unconverted++;
+      continue;
+    }
+    group.buckets[bucket] += balanceInBase;
+    group.total += balanceInBase;
+    buckets[bucket] += balanceInBase;
+  }
+
+  const roundTotals = (totals: ArAgingTotals) =>
+    Object.fromEntries(AR_AGING_BUCKETS.map((bucket) => [bucket, roundCents(totals[bucket])])) as ArAgingTotals;
+
+  const clientRows = Array.from(groups.values())
+    .map((group) => ({
+      ...group,
+      buckets: roundTotals(group.buckets),
+      total: roundCents(group.total),
+      invoices: group.invoices.sort((a, b) => b.daysPastDue - a.daysPastDue),
+    }))
+    .sort((a, b) => b.total - a.total || a.clientName.localeCompare(b.clientName));
+
+  return {
+    asOf,
+    currency: baseCurrency,
+    buckets: roundTotals(buckets),
+    total: roundCents(AR_AGING_BUCKETS.reduce((sum, bucket) => sum + buckets[bucket], 0)),
+    clients: clientRows,
+    unconverted,
+  };
+}
+
+/**
+ * CSV rows for the report: one row per invoice with its base-currency balance in its
+ * bucket column, a subtotal row per client and a grand total.
+ */
+export function arAgingCsvRows(report: ArAgingReport) {
+  const amounts = (totals: ArAgingTotals) => AR_AGING_BUCKETS.map((bucket) => totals[bucket].toFixed(2));
+  const rows: (string | number | null)[][] = [
+    [
+      "Client",
+      "Invoice",
+      "Due Date",
+      "Days Past Due",
+      "Currency",
+      "Balance",
+      ...AR_AGING_BUCKETS.map((bucket) => AR_AGING_BUCKET_LABELS[bucket]),
+      `Total (${report.currency})`,
+    ],
+  ];
+
+  for (const client of report.clients) {
+    for (const invoice of client.invoices) {
+      const inBucket = (bucket: ArAgingBucket) =>
+        invoice.balanceInBase !== null && invoice.bucket === bucket ? invoice.balanceInBase.toFixed(2) : null;
+      rows.push([
+        client.clientName,
+        invoice.invoiceNumber,
+        invoice.dueDate ? format(invoice.dueDate, "yyyy-MM-dd") : null,
+        invoice.daysPastDue,
+        invoice.currency,
+        invoice.balance.toFixed(2),
+        ...AR_AGING_BUCKETS.map(inBucket),
+        invoice.balanceInBase?.toFixed(2) ?? null,
+      ]);
+    }
+    rows.push([`${client.clientName} total`, null, null, null, null, null, ...amounts(client.buckets), client.total.toFixed(2)]);
+  }
+  rows.push(["Total", null, null, null, null, null, ...amounts(report.buckets), report.total.toFixed(2)]);
+  return rows;
+}
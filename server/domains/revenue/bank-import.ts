@@ -0,0 +1,200 @@
+import { createHash } from "crypto";
+import { parseCsvRecords } from "../../utils/csv";
+
+/**
+ * Bank statement parsing
+ *
+ * CSV statements need a header row with a date column and either a signed amount column or
+ * separate money-out / money-in columns; description, payee and reference columns are
+ * optional. Common header names are accepted (see `CSV_COLUMNS`). Dates are `YYYY-MM-DD` or
+ * `MM/DD/YYYY`. OFX statements (1.x SGML and 2.x XML) are read from their `STMTTRN` records.
+ *
+ * Lines without a bank reference get a hash of their date, amount, text and position among
+ * identical lines as `externalId`, so importing the same statement twice adds nothing.
+ */
+
+export type BankStatementFormat = "csv" | "ofx";
+
+export interface ParsedBankTransaction {
+  externalId: string;
+  postedAt: Date;
+  // Signed: positive for money in, negative for money out
+  amount: string;
+  payee: string | null;
+  description: string | null;
+}
+
+export interface BankImportError {
+  // CSV line number, or the 1-based position of the OFX transaction
+  line: number;
+  message: string;
+}
+
+export interface ParsedBankStatement {
+  transactions: ParsedBankTransaction[];
+  // Statement currency when the file declares one (OFX `CURDEF`)
+  currency: string | null;
+  errors: BankImportError[];
+}
+
+const CSV_COLUMNS = {
+  date: ["date", "posted", "posted date", "posting date", "transaction date", "booking date"],
+  amount: ["amount"],
+  moneyIn: ["credit", "deposit", "deposits", "money in", "paid in"],
+  moneyOut: ["debit", "withdrawal", "withdrawals", "money out", "paid out"],
+  description: ["description", "memo", "details", "narrative"],
+  payee: ["payee", "name", "counterparty"],
+  reference: ["reference", "transaction id", "id", "fitid"],
+};
+
+export function detectStatementFormat(text: string, filename?: string): BankStatementFormat {
+  if (filename && /\.(ofx|qfx)$/i.test(filename)) return "ofx";
+  return /OFXHEADER|<OFX>/i.test(text) ? "ofx" : "csv";
+}
+
+export function parseBankStatement(text: string, format: BankStatementFormat): ParsedBankStatement {
+  return format === "ofx" ? parseOfxStatement(text) : parseCsvStatement(text);
+}
+
+/**
+ * Cents from "1,234.50", "1.234,50", "$1,234.50", "-12.00", "12.00-" or "(12.00)"; null if
+ * unreadable. The last separator is the decimal mark unless it repeats ("1,234,567") or is a
+ * lone comma before three digits ("1,234"); the others group thousands.
+ */
+export function parseStatementAmount(raw: string): number | null {
+  const trimmed = raw.trim();
+  if (trimmed === "") return null;
+  const number = trimmed.replace(/[^0-9.,]/g, "");
+  const markAt = Math.max(number.lastIndexOf("."), number.lastIndexOf(","));
+  const mark = number[markAt];
+  const isDecimal =
+    markAt >= 0 &&
+    number.indexOf(mark) === markAt &&
+    !(mark === "," && !number.includes(".") && number.length - markAt - 1 === 3);
+  const digits = isDecimal
+    ? `${number.slice(0, markAt).replace(/[.,]/g, "")}.${number.slice(markAt + 1)}`
+    : number.replace(/[.,]/g, "");
+  if (!/^(\d+(\.\d*)?|\.\d+)$/.test(digits)) return null;
+  const cents = Math.round(Number(digits) * 100);
+  const negative = trimmed.includes("-") || /^\(.*\)$/.test(trimmed);
+  return negative ? -cents : cents;
+}
+
+/** Local midnight of a `YYYY-MM-DD`, `YYYYMMDD` or `MM/DD/YYYY` date; null if unreadable. */
+export function parseStatementDate(raw: string): Date | null {
+  const value = raw.trim();
+  let parts: [number, number, number] | null = null;
+  let match = /^(\d{4})-?(\d{2})-?(\d{2})/.exec(value);
+  if (match) parts = [Number(match[1]), Number(match[2]), Number(match[3])];
+  match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value);
+  if (match) parts = [Number(match[3]), Number(match[1]), Number(match[2])];
+  if (!parts) return null;
+
+  const [year, month, day] = parts;
+  const date = new Date(year, month - 1, day);
+  // Rejects dates like 2026-02-31 that Date would roll over
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+const formatCents = (cents: number) => (cents / 100).toFixed(2);
+
+// Lines the bank gave no reference are identified by a hash of their content; `occurrence`
+// tells identical lines in one statement apart
+function withLineIds(
+  lines: (Omit<ParsedBankTransaction, "externalId"> & { reference: string; cents: number })[],
+): ParsedBankTransaction[] {
+  const seen = new Map<string, number>();
+  return lines.map(({ reference, cents, ...line }) => {
+    // Column sizes of bank_transactions
+    const payee = line.payee?.slice(0, 255) ?? null;
+    if (reference) return { ...line, payee, externalId: reference.slice(0, 255) };
+    const key = [line.postedAt.toDateString(), cents, line.payee ?? "", line.description ?? ""].join("|");
+    const occurrence = seen.get(key) ?? 0;
+    seen.set(key, occurrence + 1);
+    return { ...line, payee, externalId: `sha1:${createHash("sha1").update(`${key}|${occurrence}`).digest("hex")}` };
+  });
+}
+
+function parseCsvStatement(text: string): ParsedBankStatement {
+  const errors: BankImportError[] = [];
+  const lines: Parameters<typeof withLineIds>[0] = [];
+  const pick = (values: Record<string, string>, keys: string[]) =>
+    keys.map((key) => values[key]).find((value) => value !== undefined && value !== "") ?? "";
+
+  for (const { line, values } of parseCsvRecords(text)) {
+    const rawDate = pick(values, CSV_COLUMNS.date);
+    const postedAt = parseStatementDate(rawDate);
+    let cents: number | null;
+    const rawAmount = pick(values, CSV_COLUMNS.amount);
+    if (rawAmount) {
+      cents = parseStatementAmount(rawAmount);
+    } else {
+      const moneyIn = parseStatementAmount(pick(values, CSV_COLUMNS.moneyIn));
+      const moneyOut = parseStatementAmount(pick(values, CSV_COLUMNS.moneyOut));
+      cents = moneyIn === null && moneyOut === null ? null : Math.abs(moneyIn ?? 0) - Math.abs(moneyOut ?? 0);
+    }
+
+    if (!postedAt) {
+      errors.push({ line, message: `Invalid date "${rawDate}"` });
+    } else if (cents === null) {
+      errors.push({ line, message: "Missing or invalid amount" });
+    } else if (cents !== 0) {
+      lines.push({
+        postedAt,
+        cents,
+        amount: formatCents(cents),
+        payee: pick(values, CSV_COLUMNS.payee) || null,
+        description: pick(values, CSV_COLUMNS.description) || null,
+        reference: pick(values, CSV_COLUMNS.reference),
+      });
+    }
+  }
+
+  return { transactions: withLineIds(lines), currency: null, errors };
+}
+
+const decodeOfxText = (value: string) =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+function parseOfxStatement(text: string): ParsedBankStatement {
+  const errors: BankImportError[] = [];
+  const lines: Parameters<typeof withLineIds>[0] = [];
+  const currency = /<CURDEF>\s*([A-Za-z]{3})/i.exec(text)?.[1].toUpperCase() ?? null;
+
+  // SGML OFX leaves leaf elements unclosed, so a value runs to the next tag or line break
+  const records = text
+    .split(/<STMTTRN>/i)
+    .slice(1)
+    .map((record) => record.split(/<\/STMTTRN>/i)[0]);
+  records.forEach((record, index) => {
+    const field = (tag: string) => {
+      const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, "i").exec(record);
+      return match ? decodeOfxText(match[1].trim()) : "";
+    };
+    const rawDate = field("DTPOSTED");
+    const postedAt = parseStatementDate(rawDate);
+    const cents = parseStatementAmount(field("TRNAMT"));
+
+    if (!postedAt) {
+      errors.push({ line: index + 1, message: `Invalid date "${rawDate}"` });
+    } else if (cents === null) {
+      errors.push({ line: index + 1, message: "Missing or invalid amount" });
+    } else if (cents !== 0) {
+      lines.push({
+        postedAt,
+        cents,
+        amount: formatCents(cents),
+        payee: field("NAME") || null,
+        description: field("MEMO") || null,
+        reference: field("FITID"),
+      });
+    }
+  });
+
+  return { transactions: withLineIds(lines), currency, errors };
+}
@@ -0,0 +1,142 @@
+import type { BankTransaction, Bill, ClientCompany, Engagement, Invoice, Vendor } from "@shared/schema";
+import { getDocumentCurrency } from "./currency";
+import { getBalanceDueCents } from "./payments";
+
+/**
+ * Bank reconciliation matching
+ *
+ * Money in is matched against open invoices and money out against approved bills in the
+ * same currency. Each candidate is scored on:
+ * - `number`: the invoice / bill number appears in the payee or description (ignoring
+ *   punctuation and case)
+ * - `amount`: the amount equals the invoice balance due or the bill amount
+ * - `name`: the client / vendor name appears in the payee or description
+ * Candidates with none of these are not suggested. The user confirms a suggestion before
+ * anything is recorded.
+ */
+
+type MatchTransaction = Pick<BankTransaction, "amount" | "currency" | "payee" | "description">;
+type MatchInvoice = Pick<
+  Invoice,
+  | "id"
+  | "invoiceNumber"
+  | "status"
+  | "clientCompanyId"
+  | "engagementId"
+  | "currency"
+  | "totalAmount"
+  | "paidAmount"
+  | "creditedAmount"
+  | "dueDate"
+>;
+type MatchBill = Pick<Bill, "id" | "billNumber" | "status" | "vendorId" | "currency" | "amount" | "dueDate">;
+
+export type BankMatchReason = "number" | "amount" | "name";
+
+const MATCH_WEIGHTS: Record<BankMatchReason, number> = { number: 4, amount: 3, name: 2 };
+const MATCHABLE_INVOICE_STATUSES: Invoice["status"][] = ["sent", "viewed", "partially_paid", "overdue"];
+// Shorter names ("AB", "Co") match too much free text to mean anything
+const MIN_NAME_LENGTH = 3;
+
+export interface BankMatchSuggestion {
+  type: "invoice" | "bill";
+  id: string;
+  number: string;
+  counterparty: string | null;
+  // Invoice balance due or bill amount, in the document currency
+  openAmount: number;
+  dueDate: Date | null;
+  score: number;
+  reasons: BankMatchReason[];
+}
+
+const compact = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+const words = (value: string) => ` ${value.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim()} `;
+
+function scoreCandidate(
+  text: string,
+  candidate: { number: string; counterparty: string | null; openCents: number },
+  amountCents: number,
+): BankMatchReason[] {
+  const reasons: BankMatchReason[] = [];
+  const number = compact(candidate.number);
+  if (number && compact(text).includes(number)) reasons.push("number");
+  if (candidate.openCents === amountCents) reasons.push("amount");
+  const name = candidate.counterparty ? words(candidate.counterparty).trim() : "";
+  if (name.length >= MIN_NAME_LENGTH && words(text).includes(` ${name} `)) reasons.push("name");
+  return reasons;
+}
+
+export function suggestBankMatches(
+  transaction: MatchTransaction,
+  documents: {
+    invoices: MatchInvoice[];
+    bills: MatchBill[];
+    clients: Pick<ClientCompany, "id" | "name">[];
+    engagements: Pick<Engagement, "id" | "clientCompanyId">[];
+    vendors: Pick<Vendor, "id" | "name">[];
+  },
+  baseCurrency: string,
+  limit = 5,
+): BankMatchSuggestion[] {
+  const amountCents = Math.round(Number(transaction.amount) * 100);
+  const text = [transaction.payee, transaction.description].filter(Boolean).join(" ");
+  const suggestions: BankMatchSuggestion[] = [];
+  const suggest = (
+    candidate: Omit<BankMatchSuggestion, "score" | "reasons" | "openAmount"> & { openCents: number },
+  ) => {
+    const reasons = scoreCandidate(text, candidate, Math.abs(amountCents));
+    if (reasons.length === 0) return;
+    const { openCents, ...rest } = candidate;
+    suggestions.push({
+      ...rest,
+      openAmount: openCents / 100,
+      score: reasons.reduce((sum, reason) => sum + MATCH_WEIGHTS[reason], 0),
+      reasons,
+    });
+  };
+
+  if (amountCents > 0) {
+    const clientNames = new Map(documents.clients.map((client) => [client.id, client.name]));
+    const engagementClients = new Map(
+      documents.engagements.map((engagement) => [engagement.id, engagement.clientCompanyId]),
+    );
+    for (const invoice of documents.invoices) {
+      if (!MATCHABLE_INVOICE_STATUSES.includes(invoice.status)) continue;
+      if (getDocumentCurrency(invoice, baseCurrency) !== transaction.currency) continue;
+      const openCents = getBalanceDueCents(invoice);
+      if (openCents <= 0) continue;
+      const clientId = invoice.clientCompanyId ?? engagementClients.get(invoice.engagementId) ?? null;
+      suggest({
+        type: "invoice",
+        id: invoice.id,
+        number: invoice.invoiceNumber,
+        counterparty: (clientId && clientNames.get(clientId)) || null,
+        openCents,
+        dueDate: invoice.dueDate,
+      });
+    }
+  } else {
+    const vendorNames = new Map(documents.vendors.map((vendor) => [vendor.id, vendor.name]));
+    for (const bill of documents.bills) {
+      if (bill.status !== "approved") continue;
+      if (getDocumentCurrency(bill, baseCurrency) !== transaction.currency) continue;
+      suggest({
+        type: "bill",
+        id: bill.id,
+        number: bill.billNumber,
+        counterparty: (bill.vendorId && vendorNames.get(bill.vendorId)) || null,
+        openCents: Math.round(Number(bill.amount) * 100),
+        dueDate: bill.dueDate,
+      });
+    }
+  }
+
+  return suggestions
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (a.dueDate?.getTime() ?? Number.MAX_SAFE_INTEGER) - (b.dueDate?.getTime() ?? Number.MAX_SAFE_INTEGER),
+    )
+    .slice(0, limit);
+}
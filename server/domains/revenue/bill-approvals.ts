@@ -0,0 +1,179 @@
+import type {
+  Bill,
+  BillApprovalPolicy,
+  BillApprovalStep,
+  BillApprovalStepRule,
+  InsertBillApprovalStep,
+  OrganizationMember,
+} from "@shared/schema";
+
+/**
+ * Multi-step bill approval
+ *
+ * Every active `billApprovalPolicies` row whose conditions match a bill contributes its
+ * steps to the bill's approval chain, in policy `priority` order. Steps are decided one at
+ * a time; the bill becomes `approved` when the last step is approved and `rejected` as
+ * soon as any step is rejected. Bills that match no policy keep the single-approval flow.
+ *
+ * Separation of duties: the bill's creator cannot decide a chain step, and nobody can
+ * decide more than one step of the same chain.
+ */
+
+type MemberRole = OrganizationMember["role"];
+type ChainStep = Omit<InsertBillApprovalStep, "organizationId" | "billId">;
+
+// Higher roles may decide steps that ask for a lower one (an owner can act as admin)
+const ROLE_RANK: Record<MemberRole, number> = { viewer: 0, member: 1, admin: 2, owner: 3 };
+
+/**
+ * Whether a policy applies to a bill. `amountInBase` is the bill amount in the organization
+ * base currency, or null when it could not be converted; unconvertible bills are treated as
+ * exceeding every threshold so they never skip approval.
+ */
+export function policyApplies(
+  policy: Pick<BillApprovalPolicy, "isActive" | "minAmount" | "engagementBillsOnly">,
+  bill: Pick<Bill, "engagementId">,
+  amountInBase: number | null,
+): boolean {
+  if (!policy.isActive) return false;
+  if (policy.engagementBillsOnly && !bill.engagementId) return false;
+  return amountInBase === null || amountInBase >= Number(policy.minAmount);
+}
+
+/**
+ * Build the ordered approval chain for a bill. Engagement-owner steps are resolved to the
+ * owner's user id; bills without an engagement owner fall back to an organization owner.
+ * Duplicate steps contributed by several policies are kept once.
+ */
+export function buildApprovalChain(
+  policies: Pick<BillApprovalPolicy, "id" | "isActive" | "minAmount" | "engagementBillsOnly" | "steps" | "priority">[],
+  bill: Pick<Bill, "engagementId">,
+  amountInBase: number | null,
+  engagementOwnerId: string | null,
+): ChainStep[] {
+  const chain: ChainStep[] = [];
+  const seen = new Set<string>();
+
+  const matching = policies
+    .filter((policy) => policyApplies(policy, bill, amountInBase))
+    .sort((a, b) => a.priority - b.priority);
+
+  for (const policy of matching) {
+    for (const rule of policy.steps as BillApprovalStepRule[]) {
+      const step = resolveStep(rule, engagementOwnerId);
+      const key = `${step.approverRole ?? ""}:${step.approverUserId ?? ""}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      chain.push({ ...step, policyId: policy.id, position: chain.length + 1 });
+    }
+  }
+  return chain;
+}
+
+function resolveStep(
+  rule: BillApprovalStepRule,
+  engagementOwnerId: string | null,
+): Pick<ChainStep, "approverType" | "approverRole" | "approverUserId"> {
+  if (rule.approverType === "role") {
+    return { approverType: "role", approverRole: rule.role, approverUserId: null };
+  }
+  if (rule.approverType === "user") {
+    return { approverType: "user", approverRole: null, approverUserId: rule.userId };
+  }
+  if (engagementOwnerId) {
+    return { approverType: "engagement_owner", approverRole: null, approverUserId: engagementOwnerId };
+  }
+  return { approverType: "role", approverRole: "owner", approverUserId: null };
+}
+
+/** The step awaiting a decision, or undefined when the chain is complete or rejected. */
+export function getCurrentApprovalStep<T extends Pick<BillApprovalStep, "status" | "position">>(
+  steps: T[],
+): T | undefined {
+  if (steps.some((step) => step.status === "rejected")) return undefined;
+  return [...steps].sort((a, b) => a.position - b.position).find((step) => step.status === "pending");
+}
+
+export function isApprovalChainComplete(steps: Pick<BillApprovalStep, "status">[]): boolean {
+  return steps.every((step) => step.status === "approved");
+}
+
+/**
+ * Why `userId` may not decide `step`, or null when they may.
+ * `memberRole` is the user's role in the bill's organization.
+ */
+export function getApprovalDenialReason(
+  step: Pick<BillApprovalStep, "id" | "approverRole" | "approverUserId">,
+  steps: Pick<BillApprovalStep, "id" | "decidedById">[],
+  bill: Pick<Bill, "createdById">,
+  userId: string,
+  memberRole: MemberRole | undefined,
+): string | null {
+  if (bill.createdById === userId) {
+    return "The bill's creator cannot approve it";
+  }
+  if (steps.some((other) => other.id !== step.id && other.decidedById === userId)) {
+    return "You have already decided another step of this approval";
+  }
+  if (step.approverUserId) {
+    return step.approverUserId === userId ? null : "This step is assigned to another approver";
+  }
+  if (step.approverRole) {
+    if (!memberRole || ROLE_RANK[memberRole] < ROLE_RANK[step.approverRole]) {
+      return `This step requires the ${step.approverRole} role`;
+    }
+  }
+  return null;
+}
+
+export type BillEditPlan =
+  | { action: "update" | "resubmit" }
+  | { action: "refuse"; status: 400 | 409; error: string };
+
+/**
+ * How a PATCH to a bill applies. Approvals were given for the amount, currency and
+ * engagement, so changing any of them (or reopening a decided bill) restarts the approval
+ * chain whatever status the request asks for; paying on changed terms is refused, and paid
+ * or cancelled bills keep their terms.
+ */
+export function planBillEdit(
+  existing: Pick<Bill, "status" | "amount" | "currency" | "engagementId">,
+  updates: { status?: string; amount?: unknown; currency?: unknown; engagementId?: unknown },
+): BillEditPlan {
+  if (updates.status === "approved" || updates.status === "rejected") {
+    return { action: "refuse", status: 400, error: "Use the approve and reject endpoints to decide bills" };
+  }
+
+  const termsChanged =
+    ("amount" in updates && Number(updates.amount) !== Number(existing.amount)) ||
+    ("currency" in updates && (updates.currency || null) !== existing.currency) ||
+    ("engagementId" in updates && (updates.engagementId || null) !== existing.engagementId);
+  if (termsChanged && (existing.status === "paid" || existing.status === "cancelled")) {
+    return {
+      action: "refuse",
+      status: 409,
+      error: `The amount, currency and engagement of a ${existing.status} bill cannot change`,
+    };
+  }
+  if (updates.status === "cancelled" && existing.status === "paid") {
+    return { action: "refuse", status: 409, error: "Paid bills cannot be cancelled" };
+  }
+  if (updates.status === "pending" && existing.status === "paid") {
+    return { action: "refuse", status: 409, error: "Paid bills cannot be reopened for approval" };
+  }
+  if (updates.status === "paid") {
+    if (termsChanged) {
+      return {
+        action: "refuse",
+        status: 409,
+        error: "Changing the amount, currency or engagement restarts approval; pay the bill once it is approved again",
+      };
+    }
+    if (existing.status !== "approved") {
+      return { action: "refuse", status: 409, error: "Bills must complete approval before they are paid" };
+    }
+  }
+
+  const reopening = updates.status === "pending" && existing.status !== "pending";
+  return reopening || termsChanged ? { action: "resubmit" } : { action: "update" };
+}
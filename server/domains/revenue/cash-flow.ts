@@ -0,0 +1,163 @@
+import { addDays, addWeeks, differenceInCalendarDays, startOfWeek } from "date-fns";
+import type { Bill, ExchangeRate, Invoice, InvoiceSchedule, InvoiceScheduleFrequency } from "@shared/schema";
+import { convertToBaseCurrency, getDocumentCurrency } from "./currency";
+import { advanceScheduleDate } from "./invoice-scheduler";
+import { getBalanceDueCents } from "./payments";
+
+/**
+ * Weekly cash-flow forecast
+ *
+ * Projects cash in and out per week (Monday to Sunday) starting with the current week:
+ * - in: balances of open invoices on their `dueDate`, plus drafts generated by a schedule,
+ *   and every future run of active `invoiceSchedules`, due `paymentTermsDays` after the run
+ * - out: `pending` and `approved` bills on their `dueDate`
+ *
+ * Amounts already past due land in the first week and are also reported as `overdueIn` /
+ * `overdueOut`, since whether they arrive this week is a guess. Amounts are converted to the
+ * base currency at today's rate; documents without a rate are counted in `unconverted`.
+ */
+
+type ForecastInvoice = Pick<
+  Invoice,
+  | "status"
+  | "scheduleId"
+  | "currency"
+  | "totalAmount"
+  | "paidAmount"
+  | "creditedAmount"
+  | "dueDate"
+  | "sentAt"
+  | "createdAt"
+>;
+type ForecastSchedule = Pick<
+  InvoiceSchedule,
+  "totalAmount" | "frequency" | "nextInvoiceDate" | "paymentTermsDays" | "isActive"
+>;
+type ForecastBill = Pick<Bill, "status" | "amount" | "currency" | "dueDate" | "createdAt">;
+type RateLookup = Pick<ExchangeRate, "currency" | "baseCurrency" | "rate" | "effectiveDate">;
+
+export const CASH_FLOW_FORECAST_WEEKS = 13;
+
+const OPEN_INVOICE_STATUSES: Invoice["status"][] = ["sent", "viewed", "partially_paid", "overdue"];
+const OPEN_BILL_STATUSES: Bill["status"][] = ["pending", "approved"];
+
+export interface CashFlowWeek {
+  weekStart: Date;
+  invoices: number;
+  scheduled: number;
+  bills: number;
+  cashIn: number;
+  cashOut: number;
+  net: number;
+  // Opening balance plus the net of this and every earlier week
+  balance: number;
+}
+
+export interface CashFlowForecast {
+  currency: string;
+  openingBalance: number;
+  weeks: CashFlowWeek[];
+  totals: { cashIn: number; cashOut: number; net: number };
+  overdueIn: number;
+  overdueOut: number;
+  unconverted: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export function buildCashFlowForecast(
+  data: { invoices: ForecastInvoice[]; schedules: ForecastSchedule[]; bills: ForecastBill[] },
+  options: {
+    baseCurrency: string;
+    rates: RateLookup[];
+    asOf?: Date;
+    weeks?: number;
+    openingBalance?: number;
+  },
+): CashFlowForecast {
+  const { baseCurrency, rates, asOf = new Date(), weeks = CASH_FLOW_FORECAST_WEEKS, openingBalance = 0 } = options;
+  const start = startOfWeek(asOf, { weekStartsOn: 1 });
+  const end = addWeeks(start, weeks);
+  const rows = Array.from({ length: weeks }, () => ({ invoices: 0, scheduled: 0, bills: 0 }));
+  let overdueIn = 0;
+  let overdueOut = 0;
+  let unconverted = 0;
+
+  // Index of the week `date` falls in; past dates go to the first week, dates past the horizon are dropped
+  const weekIndex = (date: Date) => {
+    if (date >= end) return null;
+    if (date < start) return 0;
+    return Math.floor(differenceInCalendarDays(date, start) / 7);
+  };
+
+  const toBase = (amount: number, document: { currency?: string | null }) => {
+    const converted = convertToBaseCurrency(amount, getDocumentCurrency(document, baseCurrency), baseCurrency, asOf, rates);
+    if (converted === null) unconverted++;
+    return converted;
+  };
+
+  for (const invoice of data.invoices) {
+    const open = OPEN_INVOICE_STATUSES.includes(invoice.status) || (invoice.status === "draft" && !!invoice.scheduleId);
+    if (!open) continue;
+    const balanceCents = getBalanceDueCents(invoice);
+    if (balanceCents <= 0) continue;
+    const expectedAt = invoice.dueDate ?? invoice.sentAt ?? invoice.createdAt;
+    const index = weekIndex(expectedAt);
+    if (index === null) continue;
+    const amount = toBase(balanceCents / 100, invoice);
+    if (amount === null) continue;
+    rows[index].invoices += amount;
+    if (expectedAt < start) overdueIn += amount;
+  }
+
+  // Schedules have no currency of their own; their invoices are raised in the base currency
+  for (const schedule of data.schedules) {
+    if (!schedule.isActive || !schedule.nextInvoiceDate || !schedule.frequency) continue;
+    const frequency = schedule.frequency as InvoiceScheduleFrequency;
+    for (let run = schedule.nextInvoiceDate; run < end; run = advanceScheduleDate(run, frequency)) {
+      const index = weekIndex(addDays(run, schedule.paymentTermsDays));
+      if (index === null) break;
+      rows[index].scheduled += Number(schedule.totalAmount);
+    }
+  }
+
+  for (const bill of data.bills) {
+    if (!OPEN_BILL_STATUSES.includes(bill.status)) continue;
+    const expectedAt = bill.dueDate ?? bill.createdAt;
+    const index = weekIndex(expectedAt);
+    if (index === null) continue;
+    const amount = toBase(Number(bill.amount), bill);
+    if (amount === null) continue;
+    rows[index].bills += amount;
+    if (expectedAt < start) overdueOut += amount;
+  }
+
+  let balance = openingBalance;
+  const forecastWeeks = rows.map((row, index) => {
+    const cashIn = row.invoices + row.scheduled;
+    const net = cashIn - row.bills;
+    balance += net;
+    return {
+      weekStart: addWeeks(start, index),
+      invoices: roundCents(row.invoices),
+      scheduled: roundCents(row.scheduled),
+      bills: roundCents(row.bills),
+      cashIn: roundCents(cashIn),
+      cashOut: roundCents(row.bills),
+      net: roundCents(net),
+      balance: roundCents(balance),
+    };
+  });
+
+  const cashIn = rows.reduce((sum, row) => sum + row.invoices + row.scheduled, 0);
+  const cashOut = rows.reduce((sum, row) => sum + row.bills, 0);
+  return {
+    currency: baseCurrency,
+    openingBalance,
+    weeks: forecastWeeks,
+    totals: { cashIn: roundCents(cashIn), cashOut: roundCents(cashOut), net: roundCents(cashIn - cashOut) },
+    overdueIn: roundCents(overdueIn),
+    overdueOut: roundCents(overdueOut),
+    unconverted,
+  };
+}
@@ -0,0 +1,131 @@
+import { currencyCodeSchema, type ExchangeRate, type InsertExchangeRate } from "@shared/schema";
+import { parseCsvRecords } from "../../utils/csv";
+
+/**
+ * Multi-currency helpers
+ *
+ * Invoices and bills carry their own `currency` (null = organization base currency).
+ * Reporting converts amounts to the base currency using the organization's exchange-rate
+ * table: the rate for a document is the latest rate whose `effectiveDate` is on or before
+ * the document date.
+ */
+
+type RateLookup = Pick<ExchangeRate, "currency" | "baseCurrency" | "rate" | "effectiveDate">;
+
+/** Currency of an invoice/bill, falling back to the organization base currency. */
+export function getDocumentCurrency(document: { currency?: string | null }, baseCurrency: string): string {
+  return document.currency || baseCurrency;
+}
+
+/** Latest rate for `currency` -> `baseCurrency` effective on or before `date`. */
+export function findExchangeRate<T extends RateLookup>(
+  rates: T[],
+  currency: string,
+  baseCurrency: string,
+  date: Date,
+): T | undefined {
+  let match: T | undefined;
+  for (const rate of rates) {
+    if (rate.currency !== currency || rate.baseCurrency !== baseCurrency) continue;
+    if (rate.effectiveDate.getTime() > date.getTime()) continue;
+    if (!match || rate.effectiveDate.getTime() > match.effectiveDate.getTime()) match = rate;
+  }
+  return match;
+}
+
+/**
+ * Convert an amount to the base currency using the rate on `date`.
+ * @returns the converted amount, or null when no rate is available
+ */
+export function convertToBaseCurrency(
+  amount: number,
+  currency: string,
+  baseCurrency: string,
+  date: Date,
+  rates: RateLookup[],
+): number | null {
+  if (currency === baseCurrency) return amount;
+  const rate = findExchangeRate(rates, currency, baseCurrency, date);
+  if (!rate) return null;
+  return Math.round(amount * Number(rate.rate) * 100) / 100;
+}
+
+/**
+ * Sum document amounts in the base currency, converting each at the rate on its own date.
+ * Amounts without a usable rate are left out of `total` and counted in `unconverted`.
+ */
+export function sumInBaseCurrency(
+  items: { amount: number; currency?: string | null; date: Date }[],
+  baseCurrency: string,
+  rates: RateLookup[],
+): { total: number; unconverted: number } {
+  let total = 0;
+  let unconverted = 0;
+  for (const item of items) {
+    const converted = convertToBaseCurrency(
+      item.amount,
+      getDocumentCurrency(item, baseCurrency),
+      baseCurrency,
+      item.date,
+      rates,
+    );
+    if (converted === null) unconverted++;
+    else total += converted;
+  }
+  return { total: Math.round(total * 100) / 100, unconverted };
+}
+
+export interface ExchangeRateImportError {
+  line: number;
+  message: string;
+}
+
+/**
+ * Parse an exchange-rate CSV with the columns `date,currency,rate`
+ * (optionally `base_currency`, defaulting to the organization base currency).
+ * A pair can have one rate per date, so a repeated currency, base and date is a line error.
+ */
+export function parseExchangeRateCsv(
+  text: string,
+  organizationId: string,
+  baseCurrency: string,
+): { rates: InsertExchangeRate[]; errors: ExchangeRateImportError[] } {
+  const rates: InsertExchangeRate[] = [];
+  const errors: ExchangeRateImportError[] = [];
+  // First line of each currency/base/date, to point duplicates back at it
+  const seen = new Map<string, number>();
+
+  for (const { line, values } of parseCsvRecords(text)) {
+    const currency = values.currency?.toUpperCase() ?? "";
+    const base = (values.base_currency || baseCurrency).toUpperCase();
+    const rate = Number(values.rate);
+    const effectiveDate = new Date(values.date ?? "");
+    const key = `${currency}/${base}/${effectiveDate.getTime()}`;
+
+    if (!currencyCodeSchema.safeParse(currency).success) {
+      errors.push({ line, message: `Invalid currency "${values.currency ?? ""}"` });
+    } else if (!currencyCodeSchema.safeParse(base).success) {
+      errors.push({ line, message: `Invalid base currency "${values.base_currency}"` });
+    } else if (currency === base) {
+      errors.push({ line, message: "Currency must differ from the base currency" });
+    } else if (!values.rate || !Number.isFinite(rate) || rate <= 0) {
+      errors.push({ line, message: `Invalid rate "${values.rate ?? ""}"` });
+    } else if (!values.date || Number.isNaN(effectiveDate.getTime())) {
+      errors.push({ line, message: `Invalid date "${values.date ?? ""}"` });
+    } else if (seen.has(key)) {
+      errors.push({ line, message: `Duplicate ${currency}/${base} rate for ${values.date} (line ${seen.get(key)})` });
+    } else {
+      seen.set(key, line);
+      rates.push({
+        organizationId,
+        currency,
+        baseCurrency: base,
+        rate: String(rate),
+        effectiveDate,
+        source: "import",
+      });
+    }
+  }
+
+  return { rates, errors };
+}
@@ -0,0 +1,208 @@
+import { addDays, differenceInCalendarDays } from "date-fns";
+import { storage } from "../../storage";
+import { logger } from "../../logger";
+import { DEFAULT_INVOICE_REMINDER_DAYS, type Invoice, type Organization } from "@shared/schema";
+import { formatInvoiceDate, formatInvoiceMoney } from "./invoice-pdf";
+import { getBalanceDueCents } from "./payments";
+import { getDocumentCurrency } from "./currency";
+
+/**
+ * Invoice Dunning Job
+ *
+ * Periodically:
+ * 1. Moves `sent` / `viewed` / `partially_paid` invoices to `overdue` the day after their `dueDate`
+ * 2. Emails payment reminders following each organization's reminder sequence
+ *    (`organizations.invoiceReminderDays`, e.g. 3 days before due, on the due date,
+ *    then 7 and 14 days after)
+ *
+ * Every reminder is recorded in `invoiceReminders` (one row per invoice + step) and
+ * logged as an activity event on the invoice. If the job was down and several steps
+ * came due, only the most recent one is sent.
+ */
+
+const SOURCE = "INVOICE_DUNNING";
+const SYSTEM_ACTOR = { actorId: "system", actorName: "System" };
+// Invoices read per query when looking for reminders to send
+const REMINDER_BATCH_SIZE = 500;
+
+export function getReminderDays(organization: Pick<Organization, "invoiceReminderDays">): number[] {
+  const days = organization.invoiceReminderDays;
+  return Array.isArray(days) ? (days as number[]) : DEFAULT_INVOICE_REMINDER_DAYS;
+}
+
+/**
+ * The reminder step (offset in days from the due date) that should go out at `asOf`,
+ * or undefined when nothing is due. Steps at or before an already-sent step are skipped.
+ */
+export function getDueReminderStep(
+  dueDate: Date,
+  reminderDays: number[],
+  sentOffsets: number[],
+  asOf: Date,
+): number | undefined {
+  const daysFromDue = differenceInCalendarDays(asOf, dueDate);
+  const reached = reminderDays.filter((offset) => offset <= daysFromDue);
+  if (reached.length === 0) return undefined;
+
+  const step = Math.max(...reached);
+  if (sentOffsets.some((sent) => sent >= step)) return undefined;
+  return step;
+}
+
+export function getReminderSubject(invoiceNumber: string, offsetDays: number): string {
+  if (offsetDays < 0) return `Reminder: invoice ${invoiceNumber} is due soon`;
+  if (offsetDays === 0) return `Invoice ${invoiceNumber} is due today`;
+  return `Overdue: invoice ${invoiceNumber} is ${offsetDays} days past due`;
+}
+
+export class InvoiceDunningJob {
+  private isRunning = false;
+  private intervalId?: NodeJS.Timeout;
+
+  start(pollIntervalMs = 60 * 60 * 1000) {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    logger.info("Starting invoice dunning job...", { source: SOURCE });
+    this.intervalId = setInterval(() => this.run(), pollIntervalMs);
+  }
+
+  stop() {
+    this.isRunning = false;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+    }
+  }
+
+  /**
+   * Run one dunning pass.
+   * @returns number of invoices marked overdue and reminders sent
+   */
+  async run(asOf = new Date()): Promise<{ overdue: number; reminders: number }> {
+    let overdue = 0;
+    let reminders = 0;
+    try {
+      overdue = await this.markOverdue(asOf);
+
+      // Reminder offsets range from 30 days before to 90 days after the due date
+      // (see invoiceReminderSettingsSchema), so nothing outside that window can be due.
+      // The window is read a page at a time so every invoice in it is reached.
+      const organizations = new Map<string, Organization | undefined>();
+      let after: Invoice | undefined;
+      for (;;) {
+        const candidates = await storage.getOpenInvoicesDueBetween(
+          addDays(asOf, -91),
+          addDays(asOf, 31),
+          after,
+          REMINDER_BATCH_SIZE,
+        );
+        for (const invoice of candidates) {
+          try {
+            if (!organizations.has(invoice.organizationId)) {
+              organizations.set(invoice.organizationId, await storage.getOrganization(invoice.organizationId));
+            }
+            const organization = organizations.get(invoice.organizationId);
+            if (organization && (await this.remind(invoice, organization, asOf))) reminders++;
+          } catch (error) {
+            logger.error("Failed to send invoice reminder", {
+              source: SOURCE,
+              invoiceId: invoice.id,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
+        if (candidates.length < REMINDER_BATCH_SIZE) break;
+        after = candidates[candidates.length - 1];
+      }
+    } catch (error) {
+      logger.error("Error in invoice dunning loop", {
+        source: SOURCE,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return { overdue, reminders };
+  }
+
+  private async markOverdue(asOf: Date): Promise<number> {
+    const updated = await storage.markOverdueInvoices(asOf);
+    for (const invoice of updated) {
+      await storage.createActivityEvent({
+        organizationId: invoice.organizationId,
+        engagementId: invoice.engagementId,
+        entityType: "invoice",
+        entityId: invoice.id,
+        ...SYSTEM_ACTOR,
+        type: "status_changed",
+        description: `Invoice ${invoice.invoiceNumber} is overdue`,
+        metadata: { status: "overdue", dueDate: invoice.dueDate },
+      });
+    }
+    return updated.length;
+  }
+
+  private async remind(invoice: Invoice, organization: Organization, asOf: Date): Promise<boolean> {
+    if (!invoice.dueDate || !invoice.clientCompanyId) return false;
+    if (getBalanceDueCents(invoice) <= 0) return false;
+
+    const sent = await storage.getInvoiceReminders(invoice.id, invoice.organizationId);
+    const step = getDueReminderStep(
+      invoice.dueDate,
+      getReminderDays(organization),
+      sent.map((reminder) => reminder.offsetDays),
+      asOf,
+    );
+    if (step === undefined) return false;
+
+    const contact = await storage.getBillingContact(invoice.clientCompanyId, invoice.organizationId);
+    if (!contact?.email) return false;
+
+    const reminder = await storage.claimInvoiceReminder({
+      organizationId: invoice.organizationId,
+      invoiceId: invoice.id,
+      offsetDays: step,
+      recipient: contact.email,
+    });
+    if (!reminder) return false;
+
+    try {
+      // Loaded lazily so the background job doesn't pull the mail transport into startup
+      const { emailService } = await import("../../services/email");
+      await emailService.sendEmail({
+        to: contact.email,
+        subject: getReminderSubject(invoice.invoiceNumber, step),
+        template: "invoice-reminder",
+        data: {
+          contactName: contact.firstName,
+          organizationName: organization.name,
+          invoiceNumber: invoice.invoiceNumber,
+          amountDue: formatInvoiceMoney(
+            getBalanceDueCents(invoice) / 100,
+            getDocumentCurrency(invoice, organization.currency),
+          ),
+          dueDate: formatInvoiceDate(invoice.dueDate, organization.dateFormat),
+          daysPastDue: Math.max(step, 0),
+          currentYear: asOf.getFullYear(),
+        },
+      });
+    } catch (error) {
+      // Release the step so the next pass retries it
+      await storage.releaseInvoiceReminder(reminder.id, invoice.organizationId);
+      throw error;
+    }
+
+    await storage.createActivityEvent({
+      organizationId: invoice.organizationId,
+      engagementId: invoice.engagementId,
+      entityType: "invoice",
+      entityId: invoice.id,
+      ...SYSTEM_ACTOR,
+      type: "sent",
+      description: `Payment reminder for invoice ${invoice.invoiceNumber} sent to ${contact.email}`,
+      metadata: { reminderId: reminder.id, offsetDays: step },
+    });
+    return true;
+  }
+}
+
+export const invoiceDunningJob = new InvoiceDunningJob();
@@ -0,0 +1,158 @@
+import type { Expense, ExpenseCategory, ExpenseStatus, ExchangeRate, OrganizationMember } from "@shared/schema";
+import { convertToBaseCurrency, getDocumentCurrency, sumInBaseCurrency } from "./currency";
+
+/**
+ * Staff expenses
+ *
+ * Employees record what they spent (with a receipt) against an optional engagement and
+ * submit it for approval; an admin or owner approves or rejects each expense. Approved
+ * expenses that the employee paid for (`reimbursable`) are owed back until marked
+ * reimbursed. Approved `billable` expenses that are not on an invoice yet are the
+ * engagement's unbilled expenses and are invoiced one line per expense, optionally marked up.
+ * Amounts in another currency are converted to the base currency at the expense date's rate.
+ */
+
+type MemberRole = OrganizationMember["role"];
+type RateLookup = Pick<ExchangeRate, "currency" | "baseCurrency" | "rate" | "effectiveDate">;
+type BillableExpense = Pick<Expense, "id" | "category" | "description" | "expenseDate" | "currency" | "amount">;
+type ReimbursementExpense = Pick<
+  Expense,
+  "userId" | "status" | "reimbursable" | "reimbursedAt" | "currency" | "amount" | "expenseDate"
+>;
+
+export interface ExpenseLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface ReimbursementSummary {
+  userId: string;
+  // Submitted, waiting for approval
+  pendingAmount: number;
+  // Approved and not reimbursed yet
+  owedAmount: number;
+  owedCount: number;
+  reimbursedAmount: number;
+  // Expenses left out of the totals because no exchange rate was available
+  unconverted: number;
+}
+
+const EDITABLE_STATUSES: ExpenseStatus[] = ["draft", "rejected"];
+
+const CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  travel: "Travel",
+  lodging: "Lodging",
+  meals: "Meals",
+  mileage: "Mileage",
+  materials: "Materials",
+  software: "Software",
+  other: "Expense",
+};
+
+/** Submitted, approved and invoiced expenses are locked until they are rejected. */
+export function isExpenseEditable(expense: Pick<Expense, "status" | "invoiceId">): boolean {
+  return !expense.invoiceId && EDITABLE_STATUSES.includes(expense.status as ExpenseStatus);
+}
+
+export function canReviewExpenses(role: MemberRole | undefined): boolean {
+  return role === "admin" || role === "owner";
+}
+
+/**
+ * Why `reviewerId` may not approve or reject an expense incurred by `expenseUserId`, or null
+ * when they may. Same rule as timesheets: admins and owners review, and only an owner may
+ * review their own expenses.
+ */
+export function getExpenseReviewDenial(
+  reviewerId: string,
+  expenseUserId: string,
+  reviewerRole: MemberRole | undefined,
+): string | null {
+  if (!canReviewExpenses(reviewerRole)) {
+    return "Reviewing expenses requires the admin role";
+  }
+  if (reviewerId === expenseUserId && reviewerRole !== "owner") {
+    return "You cannot review your own expense";
+  }
+  return null;
+}
+
+/**
+ * Invoice line items for unbilled expenses: one line per expense in date order, priced in the
+ * base currency with `markupPercent` added. Ids of expenses with no exchange rate for their
+ * date are returned in `unconverted` and left out.
+ */
+export function buildExpenseLineItems(
+  items: BillableExpense[],
+  options: { markupPercent?: number; baseCurrency: string; rates: RateLookup[] },
+): { lineItems: ExpenseLineItem[]; unconverted: string[] } {
+  const multiplier = 1 + (options.markupPercent ?? 0) / 100;
+  const unconverted: string[] = [];
+  const lineItems: ExpenseLineItem[] = [];
+
+  const sorted = [...items].sort((a, b) => a.expenseDate.getTime() - b.expenseDate.getTime());
+  for (const expense of sorted) {
+    const amount = convertToBaseCurrency(
+      Number(expense.amount),
+      getDocumentCurrency(expense, options.baseCurrency),
+      options.baseCurrency,
+      expense.expenseDate,
+      options.rates,
+    );
+    if (amount === null) {
+      unconverted.push(expense.id);
+      continue;
+    }
+    const label = CATEGORY_LABELS[expense.category as ExpenseCategory] ?? CATEGORY_LABELS.other;
+    lineItems.push({
+      description: `${label}: ${expense.description}`.slice(0, 500),
+      quantity: 1,
+      unitPrice: Math.round(amount * multiplier * 100) / 100,
+    });
+  }
+  return { lineItems, unconverted };
+}
+
+/** Per-employee reimbursement totals in the base currency, for reimbursable expenses only. */
+export function summarizeReimbursements(
+  items: ReimbursementExpense[],
+  baseCurrency: string,
+  rates: RateLookup[],
+): ReimbursementSummary[] {
+  type Groups = Record<"pending" | "owed" | "reimbursed", ReimbursementExpense[]>;
+  const byUser = new Map<string, Groups>();
+  for (const expense of items) {
+    if (!expense.reimbursable) continue;
+    let bucket: keyof Groups;
+    if (expense.status === "submitted") bucket = "pending";
+    else if (expense.status === "approved") bucket = expense.reimbursedAt ? "reimbursed" : "owed";
+    else continue;
+    const groups: Groups = byUser.get(expense.userId) ?? { pending: [], owed: [], reimbursed: [] };
+    groups[bucket].push(expense);
+    byUser.set(expense.userId, groups);
+  }
+
+  const sum = (group: ReimbursementExpense[]) =>
+    sumInBaseCurrency(
+      group.map((expense) => ({ amount: Number(expense.amount), currency: expense.currency, date: expense.expenseDate })),
+      baseCurrency,
+      rates,
+    );
+
+  return Array.from(byUser.entries())
+    .map(([userId, groups]) => {
+      const pending = sum(groups.pending);
+      const owed = sum(groups.owed);
+      const reimbursed = sum(groups.reimbursed);
+      return {
+        userId,
+        pendingAmount: pending.total,
+        owedAmount: owed.total,
+        owedCount: groups.owed.length,
+        reimbursedAmount: reimbursed.total,
+        unconverted: pending.unconverted + owed.unconverted + reimbursed.unconverted,
+      };
+    })
+    .sort((a, b) => b.owedAmount - a.owedAmount || a.userId.localeCompare(b.userId));
+}
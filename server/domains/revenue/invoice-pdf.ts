@@ -0,0 +1,233 @@
+import fs from "fs/promises";
+import path from "path";
+import PDFDocument from "pdfkit";
+import sharp from "sharp";
+import { format } from "date-fns";
+import { storage } from "../../storage";
+import { getSecureFilePath } from "../../services/file-storage";
+import { getDocumentCurrency } from "./currency";
+import { getBalanceDueCents } from "./payments";
+import type { ClientCompany, FileObject, Invoice, Organization } from "@shared/schema";
+
+/**
+ * Invoice PDF rendering.
+ *
+ * Renders invoices locally with pdfkit (no external service) using the organization's
+ * branding settings: logo, currency and date format. The rendered file is written under
+ * `uploads/invoices/<orgId>/` and tracked as a `fileObjects` row on the invoice's
+ * engagement, so it shows up alongside the engagement's other documents.
+ *
+ * Re-rendering an invoice overwrites the same file and reuses its `fileObjects` row.
+ */
+
+export interface InvoicePdfLine {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+export interface InvoicePdfData {
+  invoice: Invoice;
+  organization: Pick<Organization, "name" | "currency" | "dateFormat">;
+  client?: Pick<ClientCompany, "name" | "address" | "city" | "state" | "zipCode" | "country"> | null;
+  logo?: Buffer | null;
+}
+
+/** Convert an organization date format (e.g. `DD/MM/YYYY`) to a date-fns pattern. */
+export function toDateFnsPattern(dateFormat: string): string {
+  return dateFormat.replace(/YYYY/g, "yyyy").replace(/DD/g, "dd");
+}
+
+export function formatInvoiceDate(date: Date | null | undefined, dateFormat: string): string {
+  if (!date) return "-";
+  return format(date, toDateFnsPattern(dateFormat));
+}
+
+export function formatInvoiceMoney(amount: number | string | null | undefined, currency: string): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(Number(amount ?? 0));
+}
+
+/**
+ * Normalize `invoices.lineItems` into printable rows. Structured line items carry their
+ * discounted `amount`; older free-form items are priced from quantity x unit price.
+ * Invoices without line items print as a single line for the pre-tax amount.
+ */
+export function getInvoicePdfLines(invoice: Pick<Invoice, "lineItems" | "amount">): InvoicePdfLine[] {
+  const items = Array.isArray(invoice.lineItems) ? (invoice.lineItems as Record<string, unknown>[]) : [];
+  const lines = items
+    .filter((item) => item && typeof item === "object")
+    .map((item) => {
+      const quantity = Number(item.quantity ?? 1);
+      const unitPrice = Number(item.unitPrice ?? item.rate ?? item.amount ?? 0);
+      const discountPercent = Number(item.discountPercent ?? 0);
+      const description = String(item.description ?? item.name ?? "Item");
+      return {
+        description: discountPercent > 0 ? `${description} (${discountPercent}% discount)` : description,
+        quantity,
+        unitPrice,
+        amount: Number(item.amount ?? quantity * unitPrice),
+      };
+    });
+
+  if (lines.length > 0) return lines;
+  const amount = Number(invoice.amount ?? 0);
+  return [{ description: "Professional services", quantity: 1, unitPrice: amount, amount }];
+}
+
+/** Render an invoice to a PDF buffer. */
+export function renderInvoicePdf({ invoice, organization, client, logo }: InvoicePdfData): Promise<Buffer> {
+  const { dateFormat } = organization;
+  const currency = getDocumentCurrency(invoice, organization.currency);
+  const money = (value: number | string | null | undefined) => formatInvoiceMoney(value, currency);
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 50, info: { Title: `Invoice ${invoice.invoiceNumber}` } });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    // Header: logo (or org name) on the left, invoice meta on the right
+    if (logo) {
+      doc.image(logo, 50, 45, { fit: [150, 60] });
+    } else {
+      doc.fontSize(20).font("Helvetica-Bold").text(organization.name, 50, 50, { width: 250 });
+    }
+    doc.fontSize(24).font("Helvetica-Bold").text("INVOICE", 350, 45, { width: 195, align: "right" });
+    doc
+      .fontSize(10)
+      .font("Helvetica")
+      .text(`Invoice #: ${invoice.invoiceNumber}`, 350, 80, { width: 195, align: "right" })
+      .text(`Issued: ${formatInvoiceDate(invoice.sentAt ?? invoice.createdAt, dateFormat)}`, { width: 195, align: "right" })
+      .text(`Due: ${formatInvoiceDate(invoice.dueDate, dateFormat)}`, { width: 195, align: "right" });
+
+    // Bill to
+    doc.fontSize(10).font("Helvetica-Bold").text("Bill To", 50, 140);
+    doc.font("Helvetica");
+    if (client) {
+      const cityLine = [client.city, client.state, client.zipCode].filter(Boolean).join(", ");
+      [client.name, client.address, cityLine, client.country]
+        .filter((line): line is string => !!line)
+        .forEach((line) => doc.text(line));
+    } else {
+      doc.text("-");
+    }
+
+    // Line items table
+    const tableTop = 230;
+    const columns = { description: 50, quantity: 310, unitPrice: 370, amount: 460 };
+    doc.font("Helvetica-Bold");
+    doc.text("Description", columns.description, tableTop);
+    doc.text("Qty", columns.quantity, tableTop, { width: 50, align: "right" });
+    doc.text("Unit Price", columns.unitPrice, tableTop, { width: 80, align: "right" });
+    doc.text("Amount", columns.amount, tableTop, { width: 85, align: "right" });
+    doc.moveTo(50, tableTop + 15).lineTo(545, tableTop + 15).stroke();
+
+    doc.font("Helvetica");
+    let y = tableTop + 25;
+    for (const line of getInvoicePdfLines(invoice)) {
+      const rowHeight = Math.max(doc.heightOfString(line.description, { width: 250 }), 12) + 8;
+      if (y + rowHeight > doc.page.height - 150) {
+        doc.addPage();
+        y = 50;
+      }
+      doc.text(line.description, columns.description, y, { width: 250 });
+      doc.text(String(line.quantity), columns.quantity, y, { width: 50, align: "right" });
+      doc.text(money(line.unitPrice), columns.unitPrice, y, { width: 80, align: "right" });
+      doc.text(money(line.amount), columns.amount, y, { width: 85, align: "right" });
+      y += rowHeight;
+    }
+
+    // Totals
+    doc.moveTo(310, y).lineTo(545, y).stroke();
+    y += 10;
+    const totalRow = (label: string, value: string, bold = false) => {
+      doc.font(bold ? "Helvetica-Bold" : "Helvetica");
+      doc.text(label, 310, y, { width: 140, align: "right" });
+      doc.text(value, columns.amount, y, { width: 85, align: "right" });
+      y += 16;
+    };
+    totalRow("Subtotal", money(invoice.amount));
+    totalRow("Tax", money(invoice.tax));
+    totalRow("Total", money(invoice.totalAmount), true);
+    const credited = Number(invoice.creditedAmount ?? 0);
+    const paid = Number(invoice.paidAmount ?? 0);
+    if (credited > 0) totalRow("Credited", money(credited));
+    if (paid > 0) totalRow("Paid", money(paid));
+    if (credited > 0 || paid > 0) {
+      totalRow("Balance Due", money(Math.max(getBalanceDueCents(invoice), 0) / 100), true);
+    }
+
+    if (invoice.notes) {
+      doc.font("Helvetica-Bold").text("Notes", 50, y + 20);
+      doc.font("Helvetica").text(invoice.notes, { width: 495 });
+    }
+
+    doc.end();
+  });
+}
+
+/**
+ * Load the organization logo from local uploads as PNG.
+ * pdfkit only embeds PNG/JPEG, so other formats are converted; a missing or unreadable
+ * logo falls back to printing the organization name.
+ */
+async function loadOrganizationLogo(organization: Organization): Promise<Buffer | null> {
+  if (!organization.logo) return null;
+  try {
+    const filePath = getSecureFilePath("image", organization.id, path.basename(organization.logo));
+    return await sharp(await fs.readFile(filePath)).png().toBuffer();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Render an invoice PDF and store it as a file object on the invoice's engagement.
+ * @returns undefined when the invoice does not exist in the organization
+ */
+export async function generateInvoicePdf(
+  invoiceId: string,
+  orgId: string,
+  userId: string,
+): Promise<{ buffer: Buffer; file: FileObject; filename: string } | undefined> {
+  const invoice = await storage.getInvoice(invoiceId, orgId);
+  if (!invoice) return undefined;
+
+  const organization = await storage.getOrganization(orgId);
+  if (!organization) return undefined;
+
+  const client = invoice.clientCompanyId
+    ? await storage.getClientCompany(invoice.clientCompanyId, orgId)
+    : undefined;
+  const logo = await loadOrganizationLogo(organization);
+  const buffer = await renderInvoicePdf({ invoice, organization, client, logo });
+
+  // Stable name per invoice so re-rendering replaces the previous copy
+  const filename = `invoice-${invoice.id}.pdf`;
+  const uploadDir = path.join(process.cwd(), "uploads", "invoices", orgId);
+  const filePath = path.join(uploadDir, filename);
+  await fs.mkdir(uploadDir, { recursive: true });
+  await fs.writeFile(filePath, buffer);
+
+  const originalName = `Invoice ${invoice.invoiceNumber}.pdf`;
+  const existing = await storage.getFileObjectByPath(filePath, orgId);
+  const file =
+    (existing &&
+      (await storage.updateFileObject(existing.id, orgId, { size: buffer.length, originalName }))) ??
+    (await storage.createFileObject({
+      organizationId: orgId,
+      engagementId: invoice.engagementId,
+      uploadedById: userId,
+      name: filename,
+      originalName,
+      mimeType: "application/pdf",
+      size: buffer.length,
+      path: filePath,
+      folder: "/invoices",
+      isClientVisible: false,
+    }));
+
+  return { buffer, file, filename: originalName };
+}
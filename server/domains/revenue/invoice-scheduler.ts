@@ -0,0 +1,156 @@
+import { addDays, addMonths, addWeeks, addYears } from "date-fns";
+import { storage } from "../../storage";
+import { logger } from "../../logger";
+import type { InvoiceSchedule, InvoiceScheduleFrequency } from "@shared/schema";
+import { computeInvoiceTotals } from "./invoice-totals";
+import { buildDraftNumber } from "./numbering";
+
+/**
+ * Recurring Invoice Generator
+ *
+ * Turns `invoiceSchedules` into draft invoices when their `nextInvoiceDate` arrives.
+ *
+ * Architecture:
+ * - Polls on an interval (same model as the EventDispatcher)
+ * - Each run is claimed atomically in storage, so overlapping workers never double-bill
+ * - Emits `invoice.generated` to the outbox for downstream workflows
+ *
+ * A schedule that fell several periods behind (e.g. the server was down) catches up
+ * one period per tick rather than creating a burst of invoices at once.
+ *
+ * A schedule that cannot be generated (no frequency, a deleted engagement, or a run that
+ * throws) is deactivated and logged. Otherwise it would stay due forever and keep its place
+ * at the head of every batch; it can be reactivated once fixed.
+ */
+
+/**
+ * Advance a schedule date by one billing period.
+ * Month-based frequencies clamp to the last day of shorter months (Jan 31 → Feb 28).
+ */
+export function advanceScheduleDate(date: Date, frequency: InvoiceScheduleFrequency): Date {
+  switch (frequency) {
+    case "weekly":
+      return addWeeks(date, 1);
+    case "biweekly":
+      return addWeeks(date, 2);
+    case "monthly":
+      return addMonths(date, 1);
+    case "quarterly":
+      return addMonths(date, 3);
+    case "annually":
+      return addYears(date, 1);
+    default:
+      throw new Error(`Unsupported invoice schedule frequency: ${frequency}`);
+  }
+}
+
+export class RecurringInvoiceGenerator {
+  private isRunning = false;
+  private intervalId?: NodeJS.Timeout;
+
+  start(pollIntervalMs = 60 * 60 * 1000) {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    logger.info("Starting recurring invoice generator...", { source: "INVOICE_SCHEDULER" });
+    this.intervalId = setInterval(() => this.runDueSchedules(), pollIntervalMs);
+  }
+
+  stop() {
+    this.isRunning = false;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+    }
+  }
+
+  /**
+   * Generate invoices for every schedule due at `asOf`.
+   * @returns number of invoices created
+   */
+  async runDueSchedules(asOf = new Date()): Promise<number> {
+    let generated = 0;
+    try {
+      const schedules = await storage.getDueInvoiceSchedules(asOf);
+      for (const schedule of schedules) {
+        try {
+          if (await this.generateForSchedule(schedule)) generated++;
+        } catch (error) {
+          logger.error("Failed to generate scheduled invoice", {
+            source: "INVOICE_SCHEDULER",
+            scheduleId: schedule.id,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          await this.deactivateSchedule(schedule, "generation failed");
+        }
+      }
+    } catch (error) {
+      logger.error("Error in recurring invoice loop", {
+        source: "INVOICE_SCHEDULER",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return generated;
+  }
+
+  private async deactivateSchedule(schedule: InvoiceSchedule, reason: string): Promise<void> {
+    try {
+      await storage.updateInvoiceSchedule(schedule.id, schedule.organizationId, { isActive: false });
+      logger.warn(`[InvoiceScheduler] Deactivated schedule: ${reason}`, {
+        source: "INVOICE_SCHEDULER",
+        scheduleId: schedule.id,
+      });
+    } catch (error) {
+      logger.error("Failed to deactivate invoice schedule", {
+        source: "INVOICE_SCHEDULER",
+        scheduleId: schedule.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async generateForSchedule(schedule: InvoiceSchedule): Promise<boolean> {
+    if (!schedule.nextInvoiceDate) return false;
+    if (!schedule.frequency) {
+      await this.deactivateSchedule(schedule, "no billing frequency");
+      return false;
+    }
+
+    const engagement = await storage.getEngagement(schedule.engagementId, schedule.organizationId);
+    if (!engagement) {
+      await this.deactivateSchedule(schedule, "engagement not found");
+      return false;
+    }
+
+    const issueDate = schedule.nextInvoiceDate;
+    const invoice = await storage.generateScheduledInvoice(
+      schedule,
+      {
+        organizationId: schedule.organizationId,
+        engagementId: schedule.engagementId,
+        scheduleId: schedule.id,
+        clientCompanyId: engagement.clientCompanyId,
+        // Generated invoices are drafts; they get their sequential number when sent
+        invoiceNumber: buildDraftNumber(),
+        status: "draft",
+        ...computeInvoiceTotals(
+          [{ description: schedule.name, quantity: 1, unitPrice: Number(schedule.totalAmount), discountPercent: 0 }],
+          [],
+        ),
+        dueDate: addDays(issueDate, schedule.paymentTermsDays),
+      },
+      advanceScheduleDate(issueDate, schedule.frequency as InvoiceScheduleFrequency),
+    );
+
+    if (invoice) {
+      logger.info(`[InvoiceScheduler] Generated invoice ${invoice.invoiceNumber}`, {
+        source: "INVOICE_SCHEDULER",
+        scheduleId: schedule.id,
+        invoiceId: invoice.id,
+      });
+    }
+    return !!invoice;
+  }
+}
+
+export const recurringInvoiceGenerator = new RecurringInvoiceGenerator();
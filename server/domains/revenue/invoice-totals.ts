@@ -0,0 +1,89 @@
+import type { z } from "zod";
+import type { invoiceLineItemSchema, InvoiceLineItem, TaxRate } from "@shared/schema";
+
+/**
+ * Invoice totals
+ *
+ * `amount` (subtotal after discounts), `tax` and `totalAmount` are always computed here
+ * rather than trusted from the client. Each line is rounded to cents once (net, then tax)
+ * and the invoice totals are the sums of the rounded lines, so the printed lines always
+ * add up to the printed totals.
+ *
+ * Line items snapshot the tax rate name and percentage, so editing or deleting a tax rate
+ * later does not change invoices that already used it.
+ */
+
+type ParsedLineItem = z.infer<typeof invoiceLineItemSchema>;
+type TaxRateLookup = Pick<TaxRate, "id" | "name" | "rate">;
+
+export interface InvoiceTotals {
+  lineItems: InvoiceLineItem[];
+  amount: string;
+  tax: string;
+  totalAmount: string;
+}
+
+const toCents = (value: number) => Math.round(value * 100);
+const fromCents = (cents: number) => (cents / 100).toFixed(2);
+
+/** Tax rate ids referenced by the line items that are not in `taxRates`. */
+export function findUnknownTaxRates(items: ParsedLineItem[], taxRates: TaxRateLookup[]): string[] {
+  const known = new Set(taxRates.map((rate) => rate.id));
+  const unknown = items
+    .map((item) => item.taxRateId)
+    .filter((id): id is string => !!id && !known.has(id));
+  return Array.from(new Set(unknown));
+}
+
+/**
+ * Compute line amounts and invoice totals.
+ * Callers must check `findUnknownTaxRates` first; unknown rates are treated as untaxed.
+ */
+export function computeInvoiceTotals(items: ParsedLineItem[], taxRates: TaxRateLookup[]): InvoiceTotals {
+  const ratesById = new Map(taxRates.map((rate) => [rate.id, rate]));
+  let subtotalCents = 0;
+  let taxCents = 0;
+
+  const lineItems = items.map((item): InvoiceLineItem => {
+    const grossCents = toCents(item.quantity * item.unitPrice);
+    const netCents = grossCents - Math.round((grossCents * item.discountPercent) / 100);
+    const taxRate = item.taxRateId ? ratesById.get(item.taxRateId) : undefined;
+    const taxRatePercent = taxRate ? Number(taxRate.rate) : 0;
+    const lineTaxCents = Math.round((netCents * taxRatePercent) / 100);
+
+    subtotalCents += netCents;
+    taxCents += lineTaxCents;
+    return {
+      ...item,
+      taxRateId: taxRate?.id ?? null,
+      taxRateName: taxRate?.name ?? null,
+      taxRatePercent,
+      amount: netCents / 100,
+      taxAmount: lineTaxCents / 100,
+    };
+  });
+
+  return {
+    lineItems,
+    amount: fromCents(subtotalCents),
+    tax: fromCents(taxCents),
+    totalAmount: fromCents(subtotalCents + taxCents),
+  };
+}
+
+/**
+ * Totals for invoices without line items: the subtotal and tax are taken as given
+ * and only the total is derived.
+ */
+export function computeFlatInvoiceTotals(
+  amount: number | string | null | undefined,
+  tax: number | string | null | undefined,
+): Omit<InvoiceTotals, "lineItems"> {
+  const amountCents = toCents(Number(amount ?? 0));
+  const taxCents = toCents(Number(tax ?? 0));
+  return {
+    amount: fromCents(amountCents),
+    tax: fromCents(taxCents),
+    totalAmount: fromCents(amountCents + taxCents),
+  };
+}
@@ -0,0 +1,371 @@
+import { format } from "date-fns";
+import type {
+  Bill,
+  CreditNote,
+  Invoice,
+  JournalEntry,
+  JournalLine,
+  LedgerAccount,
+  LedgerAccountType,
+  LedgerSystemAccount,
+  Payment,
+  Refund,
+} from "@shared/schema";
+
+/**
+ * General ledger postings
+ *
+ * Accounting events on invoices, payments and bills are posted as balanced journal entries
+ * against the organization's system accounts:
+ *
+ * | event                  | debit               | credit                       |
+ * |------------------------|---------------------|------------------------------|
+ * | invoice.issued         | Accounts receivable | Revenue, Sales tax payable   |
+ * | payment.received       | Cash                | Accounts receivable          |
+ * | refund.issued          | Accounts receivable | Cash                         |
+ * | credit_note.issued     | Revenue, Sales tax  | Accounts receivable          |
+ * | bill.approved          | Expenses            | Accounts payable             |
+ * | bill.paid              | Accounts payable    | Cash                         |
+ *
+ * Entries are in the source document's currency. Storage reconciles a document's postings
+ * with its current state after every write: missing entries are posted, and entries that no
+ * longer apply (a voided payment, a cancelled invoice, a reopened bill) or whose lines have
+ * changed (an issued invoice edited) get a reversing entry. Posted entries are never edited.
+ */
+
+export const DEFAULT_LEDGER_ACCOUNTS: {
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  systemKey: LedgerSystemAccount;
+}[] = [
+  { code: "1000", name: "Cash", type: "asset", systemKey: "cash" },
+  { code: "1200", name: "Accounts Receivable", type: "asset", systemKey: "accounts_receivable" },
+  { code: "2000", name: "Accounts Payable", type: "liability", systemKey: "accounts_payable" },
+  { code: "2200", name: "Sales Tax Payable", type: "liability", systemKey: "sales_tax" },
+  { code: "4000", name: "Revenue", type: "income", systemKey: "revenue" },
+  { code: "5000", name: "Expenses", type: "expense", systemKey: "expenses" },
+];
+
+export interface JournalLineDraft {
+  account: LedgerSystemAccount;
+  debit: string;
+  credit: string;
+}
+
+export interface JournalEntryDraft {
+  sourceType: "invoice" | "payment" | "refund" | "credit_note" | "bill";
+  sourceId: string;
+  event: string;
+  entryDate: Date;
+  reference: string | null;
+  memo: string;
+  currency: string | null;
+  lines: JournalLineDraft[];
+}
+
+const toCents = (value: string | number | null | undefined) => Math.round(Number(value ?? 0) * 100);
+const fromCents = (cents: number) => (cents / 100).toFixed(2);
+
+const debit = (account: LedgerSystemAccount, cents: number): JournalLineDraft => ({
+  account,
+  debit: fromCents(cents),
+  credit: "0.00",
+});
+const credit = (account: LedgerSystemAccount, cents: number): JournalLineDraft => ({
+  account,
+  debit: "0.00",
+  credit: fromCents(cents),
+});
+
+// Zero-amount lines (e.g. no tax) carry no information
+const nonZero = (lines: JournalLineDraft[]) => lines.filter((line) => line.debit !== "0.00" || line.credit !== "0.00");
+
+export function isBalanced(lines: Pick<JournalLineDraft, "debit" | "credit">[]): boolean {
+  const debits = lines.reduce((sum, line) => sum + toCents(line.debit), 0);
+  const credits = lines.reduce((sum, line) => sum + toCents(line.credit), 0);
+  return debits === credits;
+}
+
+export function invoiceIssuedEntry(
+  invoice: Pick<Invoice, "id" | "invoiceNumber" | "currency" | "tax" | "totalAmount" | "sentAt" | "createdAt">,
+): JournalEntryDraft {
+  const totalCents = toCents(invoice.totalAmount);
+  const taxCents = toCents(invoice.tax);
+  return {
+    sourceType: "invoice",
+    sourceId: invoice.id,
+    event: "invoice.issued",
+    entryDate: invoice.sentAt ?? invoice.createdAt,
+    reference: invoice.invoiceNumber,
+    memo: `Invoice ${invoice.invoiceNumber}`,
+    currency: invoice.currency,
+    lines: nonZero([
+      debit("accounts_receivable", totalCents),
+      credit("revenue", totalCents - taxCents),
+      credit("sales_tax", taxCents),
+    ]),
+  };
+}
+
+export function paymentReceivedEntry(
+  payment: Pick<Payment, "id" | "amount" | "paidAt">,
+  invoice: Pick<Invoice, "invoiceNumber" | "currency">,
+): JournalEntryDraft {
+  const cents = toCents(payment.amount);
+  return {
+    sourceType: "payment",
+    sourceId: payment.id,
+    event: "payment.received",
+    entryDate: payment.paidAt,
+    reference: invoice.invoiceNumber,
+    memo: `Payment on invoice ${invoice.invoiceNumber}`,
+    currency: invoice.currency,
+    lines: [debit("cash", cents), credit("accounts_receivable", cents)],
+  };
+}
+
+export function refundIssuedEntry(
+  refund: Pick<Refund, "id" | "amount" | "refundedAt">,
+  invoice: Pick<Invoice, "invoiceNumber" | "currency">,
+): JournalEntryDraft {
+  const cents = toCents(refund.amount);
+  return {
+    sourceType: "refund",
+    sourceId: refund.id,
+    event: "refund.issued",
+    entryDate: refund.refundedAt,
+    reference: invoice.invoiceNumber,
+    memo: `Refund on invoice ${invoice.invoiceNumber}`,
+    currency: invoice.currency,
+    lines: [debit("accounts_receivable", cents), credit("cash", cents)],
+  };
+}
+
+export function creditNoteIssuedEntry(
+  creditNote: Pick<CreditNote, "id" | "creditNoteNumber" | "currency" | "tax" | "totalAmount" | "issuedAt">,
+): JournalEntryDraft {
+  const totalCents = toCents(creditNote.totalAmount);
+  const taxCents = toCents(creditNote.tax);
+  return {
+    sourceType: "credit_note",
+    sourceId: creditNote.id,
+    event: "credit_note.issued",
+    entryDate: creditNote.issuedAt,
+    reference: creditNote.creditNoteNumber,
+    memo: `Credit note ${creditNote.creditNoteNumber}`,
+    currency: creditNote.currency,
+    lines: nonZero([
+      debit("revenue", totalCents - taxCents),
+      debit("sales_tax", taxCents),
+      credit("accounts_receivable", totalCents),
+    ]),
+  };
+}
+
+export function billApprovedEntry(
+  bill: Pick<Bill, "id" | "billNumber" | "currency" | "amount" | "approvedAt" | "createdAt">,
+): JournalEntryDraft {
+  const cents = toCents(bill.amount);
+  return {
+    sourceType: "bill",
+    sourceId: bill.id,
+    event: "bill.approved",
+    entryDate: bill.approvedAt ?? bill.createdAt,
+    reference: bill.billNumber,
+    memo: `Bill ${bill.billNumber}`,
+    currency: bill.currency,
+    lines: [debit("expenses", cents), credit("accounts_payable", cents)],
+  };
+}
+
+export function billPaidEntry(
+  bill: Pick<Bill, "id" | "billNumber" | "currency" | "amount" | "paidAt">,
+): JournalEntryDraft {
+  const cents = toCents(bill.amount);
+  return {
+    sourceType: "bill",
+    sourceId: bill.id,
+    event: "bill.paid",
+    entryDate: bill.paidAt ?? new Date(),
+    reference: bill.billNumber,
+    memo: `Payment of bill ${bill.billNumber}`,
+    currency: bill.currency,
+    lines: [debit("accounts_payable", cents), credit("cash", cents)],
+  };
+}
+
+/** Entries an invoice should have posted for its current status. */
+export function invoiceJournalEntries(
+  invoice: Parameters<typeof invoiceIssuedEntry>[0] & Pick<Invoice, "status">,
+): JournalEntryDraft[] {
+  return invoice.status === "draft" || invoice.status === "cancelled" ? [] : [invoiceIssuedEntry(invoice)];
+}
+
+/** Entries a bill should have posted for its current status. */
+export function billJournalEntries(
+  bill: Parameters<typeof billApprovedEntry>[0] & Parameters<typeof billPaidEntry>[0] & Pick<Bill, "status">,
+): JournalEntryDraft[] {
+  if (bill.status === "approved") return [billApprovedEntry(bill)];
+  if (bill.status === "paid") return [billApprovedEntry(bill), billPaidEntry(bill)];
+  return [];
+}
+
+/** Whether two sets of lines post the same amounts to the same accounts, in any order. */
+export function sameLines(a: JournalLineDraft[], b: JournalLineDraft[]): boolean {
+  const key = (lines: JournalLineDraft[]) =>
+    lines.map((line) => `${line.account}:${toCents(line.debit)}:${toCents(line.credit)}`).sort().join("|");
+  return key(a) === key(b);
+}
+
+/** Lines that undo `lines`: every debit becomes a credit and vice versa. */
+export function reverseLines<T extends Pick<JournalLine, "debit" | "credit">>(lines: T[]): T[] {
+  return lines.map((line) => ({ ...line, debit: line.credit, credit: line.debit }));
+}
+
+export interface TrialBalanceRow {
+  accountId: string;
+  code: string;
+  name: string;
+  type: string;
+  debit: number;
+  credit: number;
+}
+
+/**
+ * Net debit or credit balance per account, in account code order. Accounts without
+ * postings are left out.
+ */
+export function buildTrialBalance(
+  accounts: Pick<LedgerAccount, "id" | "code" | "name" | "type">[],
+  lines: Pick<JournalLine, "accountId" | "debit" | "credit">[],
+): { rows: TrialBalanceRow[]; totals: { debit: number; credit: number } } {
+  const net = new Map<string, number>();
+  for (const line of lines) {
+    net.set(line.accountId, (net.get(line.accountId) ?? 0) + toCents(line.debit) - toCents(line.credit));
+  }
+
+  const rows = accounts
+    .filter((account) => net.has(account.id))
+    .sort((a, b) => a.code.localeCompare(b.code))
+    .map((account) => {
+      const cents = net.get(account.id)!;
+      return {
+        accountId: account.id,
+        code: account.code,
+        name: account.name,
+        type: account.type,
+        debit: cents > 0 ? cents / 100 : 0,
+        credit: cents < 0 ? -cents / 100 : 0,
+      };
+    });
+
+  const totalDebitCents = rows.reduce((sum, row) => sum + toCents(row.debit), 0);
+  const totalCreditCents = rows.reduce((sum, row) => sum + toCents(row.credit), 0);
+  return { rows, totals: { debit: totalDebitCents / 100, credit: totalCreditCents / 100 } };
+}
+
+type ExportEntry = Pick<JournalEntry, "id" | "entryDate" | "sourceType" | "event" | "reference" | "memo" | "currency"> & {
+  lines: Pick<JournalLine, "accountId" | "debit" | "credit">[];
+};
+type ExportAccount = Pick<LedgerAccount, "id" | "code" | "name" | "type" | "systemKey">;
+
+export const JOURNAL_CSV_HEADER = [
+  "Entry ID",
+  "Date",
+  "Source",
+  "Event",
+  "Reference",
+  "Memo",
+  "Currency",
+  "Account Code",
+  "Account Name",
+  "Debit",
+  "Credit",
+];
+
+/** Generic journal CSV: one row per journal line. */
+export function journalCsvRows(entries: ExportEntry[], accounts: ExportAccount[], baseCurrency: string) {
+  const byId = new Map(accounts.map((account) => [account.id, account]));
+  return entries.flatMap((entry) =>
+    entry.lines.map((line) => [
+      entry.id,
+      format(entry.entryDate, "yyyy-MM-dd"),
+      entry.sourceType,
+      entry.event,
+      entry.reference,
+      entry.memo,
+      entry.currency ?? baseCurrency,
+      byId.get(line.accountId)?.code ?? null,
+      byId.get(line.accountId)?.name ?? null,
+      line.debit,
+      line.credit,
+    ]),
+  );
+}
+
+// QuickBooks account types for the !ACCNT section
+const IIF_ACCOUNT_TYPES: Record<LedgerAccountType, string> = {
+  asset: "OASSET",
+  liability: "OCLIAB",
+  equity: "EQUITY",
+  income: "INC",
+  expense: "EXP",
+};
+const IIF_SYSTEM_ACCOUNT_TYPES: Partial<Record<LedgerSystemAccount, string>> = {
+  cash: "BANK",
+  accounts_receivable: "AR",
+  accounts_payable: "AP",
+};
+
+// IIF is tab-delimited with one record per line, so tabs and line breaks cannot appear in values
+const iifValue = (value: string | null | undefined) => (value ?? "").replace(/[\t\r\n]+/g, " ");
+
+/**
+ * QuickBooks Desktop IIF export: the accounts used, then each entry as a GENERAL JOURNAL
+ * transaction. The first line of an entry is the TRNS row and the rest are SPL rows;
+ * debits are positive and credits negative.
+ */
+export function buildIifExport(entries: ExportEntry[], accounts: ExportAccount[]): string {
+  const byId = new Map(accounts.map((account) => [account.id, account]));
+  const usedIds = new Set(entries.flatMap((entry) => entry.lines.map((line) => line.accountId)));
+  const lines = [
+    "!ACCNT\tNAME\tACCNTTYPE\tACCNUM",
+    ...accounts
+      .filter((account) => usedIds.has(account.id))
+      .map((account) =>
+        [
+          "ACCNT",
+          iifValue(account.name),
+          IIF_SYSTEM_ACCOUNT_TYPES[account.systemKey as LedgerSystemAccount] ??
+            IIF_ACCOUNT_TYPES[account.type as LedgerAccountType] ??
+            "OASSET",
+          iifValue(account.code),
+        ].join("\t"),
+      ),
+    "!TRNS\tTRNSID\tTRNSTYPE\tDATE\tACCNT\tAMOUNT\tDOCNUM\tMEMO",
+    "!SPL\tSPLID\tTRNSTYPE\tDATE\tACCNT\tAMOUNT\tDOCNUM\tMEMO",
+    "!ENDTRNS",
+  ];
+
+  for (const entry of entries) {
+    const date = format(entry.entryDate, "MM/dd/yyyy");
+    entry.lines.forEach((line, index) => {
+      const amountCents = toCents(line.debit) - toCents(line.credit);
+      lines.push(
+        [
+          index === 0 ? "TRNS" : "SPL",
+          "",
+          "GENERAL JOURNAL",
+          date,
+          iifValue(byId.get(line.accountId)?.name),
+          fromCents(amountCents),
+          iifValue(entry.reference),
+          iifValue(entry.memo),
+        ].join("\t"),
+      );
+    });
+    lines.push("ENDTRNS");
+  }
+  return lines.join("\r\n") + "\r\n";
+}
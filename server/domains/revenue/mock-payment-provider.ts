@@ -0,0 +1,152 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+import type { MockPaymentOutcome } from "@shared/schema";
+import { logger } from "../../logger";
+import {
+  PAYMENT_WEBHOOK_EVENT_TYPES,
+  registerPaymentProvider,
+  type CheckoutSession,
+  type CheckoutSessionParams,
+  type PaymentProvider,
+  type PaymentWebhookEvent,
+} from "./payment-gateway";
+
+/**
+ * Mock payment provider
+ *
+ * Runs the whole online payment flow offline. Checkout sessions point at the app's own
+ * `/pay/mock/:sessionId` page, where the payer picks an outcome; the outcome is turned into
+ * webhook events signed exactly like a real provider's (HMAC-SHA256 of
+ * `<timestamp>.<body>` with `PAYMENT_WEBHOOK_SECRET`, sent as
+ * `x-mock-signature: t=<timestamp>,v1=<hex>`), so they go through the same verification and
+ * handling as real callbacks. "async" reports the payment as processing first and settles it
+ * after `MOCK_PAYMENT_SETTLE_MS`.
+ *
+ * Disabled in production unless `MOCK_PAYMENTS_ENABLED=true`. It also needs
+ * `PAYMENT_WEBHOOK_SECRET`; there is no built-in secret to fall back to, so without one the
+ * provider is not registered and a warning is logged at startup.
+ */
+
+export const MOCK_SIGNATURE_HEADER = "x-mock-signature";
+// Signed events older than this are rejected as replays
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+const SESSION_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
+function getWebhookSecret(): string {
+  const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error("PAYMENT_WEBHOOK_SECRET must be set when the mock payment provider is enabled");
+  }
+  return secret;
+}
+
+export function getMockSettleDelayMs(): number {
+  const delay = Number(process.env.MOCK_PAYMENT_SETTLE_MS);
+  return Number.isFinite(delay) && delay >= 0 ? delay : 5000;
+}
+
+export function isMockPaymentProviderEnabled(): boolean {
+  return process.env.NODE_ENV !== "production" || process.env.MOCK_PAYMENTS_ENABLED === "true";
+}
+
+function computeSignature(timestamp: number, body: string, secret: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/** Header value for a webhook body, as the mock provider would send it. */
+export function signMockWebhook(
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000),
+  secret = getWebhookSecret(),
+): string {
+  return `t=${timestamp},v1=${computeSignature(timestamp, body, secret)}`;
+}
+
+/** True when `header` is a valid, recent signature of `body`. */
+export function verifyMockSignature(
+  body: string,
+  header: string | undefined,
+  now = Date.now(),
+  secret = getWebhookSecret(),
+): boolean {
+  if (!header) return false;
+  const parts = Object.fromEntries(
+    header.split(",").map((part) => {
+      const [key, ...rest] = part.trim().split("=");
+      return [key, rest.join("=")];
+    }),
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(computeSignature(timestamp, body, secret), "hex");
+  const actual = Buffer.from(parts.v1, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * The webhook events the mock provider sends for a simulated outcome, in delivery order.
+ * Events after the first are delivered once the async settlement delay has passed.
+ */
+export function buildMockWebhookEvents(providerSessionId: string, outcome: MockPaymentOutcome): PaymentWebhookEvent[] {
+  const event = (type: PaymentWebhookEvent["type"], extra: Partial<PaymentWebhookEvent> = {}): PaymentWebhookEvent => ({
+    id: `mock_evt_${randomUUID()}`,
+    type,
+    providerSessionId,
+    ...extra,
+  });
+  const reference = `mock_ch_${randomUUID().slice(0, 12)}`;
+  switch (outcome) {
+    case "succeed":
+      return [event("payment.succeeded", { reference })];
+    case "fail":
+      return [event("payment.failed", { failureReason: "Card declined (simulated)" })];
+    case "async":
+      return [event("payment.processing"), event("payment.succeeded", { reference })];
+  }
+}
+
+export const mockPaymentProvider: PaymentProvider = {
+  name: "mock",
+
+  async createCheckoutSession(_params: CheckoutSessionParams): Promise<CheckoutSession> {
+    const providerSessionId = `mock_cs_${randomUUID()}`;
+    const baseUrl = process.env.FRONTEND_URL || "";
+    return {
+      providerSessionId,
+      checkoutUrl: `${baseUrl}/pay/mock/${providerSessionId}`,
+      expiresAt: new Date(Date.now() + SESSION_LIFETIME_MS),
+    };
+  },
+
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentWebhookEvent | null {
+    const body = rawBody.toString("utf8");
+    const header = headers[MOCK_SIGNATURE_HEADER];
+    if (!verifyMockSignature(body, Array.isArray(header) ? header[0] : header)) return null;
+    try {
+      const event = JSON.parse(body) as Partial<PaymentWebhookEvent>;
+      if (
+        typeof event.id !== "string" ||
+        typeof event.providerSessionId !== "string" ||
+        !PAYMENT_WEBHOOK_EVENT_TYPES.includes(event.type as PaymentWebhookEvent["type"])
+      ) {
+        return null;
+      }
+      return event as PaymentWebhookEvent;
+    } catch {
+      return null;
+    }
+  },
+};
+
+if (isMockPaymentProviderEnabled()) {
+  // Without a secret its webhooks could not be verified, so online payments stay off
+  if (process.env.PAYMENT_WEBHOOK_SECRET) {
+    registerPaymentProvider(mockPaymentProvider);
+  } else {
+    logger.warn("Mock payment provider not registered: PAYMENT_WEBHOOK_SECRET is not set", {
+      source: "PAYMENTS",
+    });
+  }
+}
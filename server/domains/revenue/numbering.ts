@@ -0,0 +1,90 @@
+import { randomUUID } from "crypto";
+import { format } from "date-fns";
+import {
+  DEFAULT_NUMBERING_PATTERNS,
+  DRAFT_NUMBER_PREFIX,
+  type NumberedDocumentType,
+  type NumberingResetPeriod,
+  type NumberingSequence,
+} from "@shared/schema";
+
+/**
+ * Sequential document numbering
+ *
+ * Invoice, bill and credit note numbers come from a per-org `numberingSequences` row with a pattern
+ * such as `INV-{YYYY}-{0000}`:
+ * - `{YYYY}` / `{YY}` / `{MM}` are taken from the allocation date
+ * - `{0000}` is the counter, zero-padded to the number of zeros
+ *
+ * Numbers are allocated by storage inside the same transaction that writes the document,
+ * with the sequence row locked, so concurrent requests never share a number and a failed
+ * write never burns one (auditors require gapless numbering).
+ *
+ * Draft invoices hold a `DRAFT-` placeholder and receive their real number when issued,
+ * so deleting a draft leaves no gap.
+ */
+
+export const DEFAULT_RESET_PERIOD: NumberingResetPeriod = "yearly";
+
+export function buildDraftNumber(): string {
+  return `${DRAFT_NUMBER_PREFIX}${randomUUID().slice(0, 8).toUpperCase()}`;
+}
+
+export function isDraftNumber(documentNumber: string): boolean {
+  return documentNumber.startsWith(DRAFT_NUMBER_PREFIX);
+}
+
+/** Key of the reset period `date` falls in; the counter restarts when it changes. */
+export function getNumberingPeriod(resetPeriod: string, date: Date): string {
+  if (resetPeriod === "yearly") return format(date, "yyyy");
+  if (resetPeriod === "monthly") return format(date, "yyyy-MM");
+  return "";
+}
+
+export function formatDocumentNumber(pattern: string, value: number, date: Date): string {
+  return pattern
+    .replace(/\{YYYY\}/g, format(date, "yyyy"))
+    .replace(/\{YY\}/g, format(date, "yy"))
+    .replace(/\{MM\}/g, format(date, "MM"))
+    .replace(/\{(0+)\}/g, (_match, zeros: string) => String(value).padStart(zeros.length, "0"));
+}
+
+/**
+ * Counter value the next allocation at `date` would use: `nextValue` within the current
+ * period, or 1 once a new period has started.
+ */
+export function getNextSequenceValue(
+  sequence: Pick<NumberingSequence, "resetPeriod" | "period" | "nextValue">,
+  date: Date,
+): number {
+  return getNumberingPeriod(sequence.resetPeriod, date) === sequence.period ? sequence.nextValue : 1;
+}
+
+/** Sequence settings for a document type, falling back to the defaults when none are stored. */
+export function withNumberingDefaults(
+  documentType: NumberedDocumentType,
+  sequence?: NumberingSequence,
+): Pick<NumberingSequence, "documentType" | "pattern" | "resetPeriod" | "period" | "nextValue"> {
+  return (
+    sequence ?? {
+      documentType,
+      pattern: DEFAULT_NUMBERING_PATTERNS[documentType],
+      resetPeriod: DEFAULT_RESET_PERIOD,
+      period: "",
+      nextValue: 1,
+    }
+  );
+}
+
+/** API view of a sequence, including a preview of the next number it would allocate. */
+export function describeNumberingSequence(
+  sequence: Pick<NumberingSequence, "documentType" | "pattern" | "resetPeriod" | "period" | "nextValue">,
+  date = new Date(),
+) {
+  return {
+    documentType: sequence.documentType,
+    pattern: sequence.pattern,
+    resetPeriod: sequence.resetPeriod,
+    nextNumber: formatDocumentNumber(sequence.pattern, getNextSequenceValue(sequence, date), date),
+  };
+}
@@ -0,0 +1,95 @@
+import type { IncomingHttpHeaders } from "http";
+import type { PaymentSessionStatus } from "@shared/schema";
+
+/**
+ * Payment gateway adapter
+ *
+ * Online invoice payments go through a `PaymentProvider`: the provider hosts a checkout
+ * page for a "pay this invoice" session and reports the outcome back through signed
+ * webhooks posted to `/api/payment-webhooks/:provider`. Providers are looked up by name
+ * from a registry, so a real gateway is added by implementing the interface and
+ * registering it; `PAYMENT_PROVIDER` picks the one new sessions use (default "mock").
+ *
+ * Webhooks may arrive more than once and out of order, so every event is applied through
+ * `resolveWebhookAction`: a session only ever moves forward and a succeeded session records
+ * exactly one payment.
+ */
+
+export const PAYMENT_WEBHOOK_EVENT_TYPES = ["payment.processing", "payment.succeeded", "payment.failed"] as const;
+export type PaymentWebhookEventType = (typeof PAYMENT_WEBHOOK_EVENT_TYPES)[number];
+
+export interface CheckoutSessionParams {
+  invoiceId: string;
+  invoiceNumber: string;
+  amount: string;
+  currency: string;
+  description: string;
+}
+
+export interface CheckoutSession {
+  providerSessionId: string;
+  checkoutUrl: string;
+  expiresAt: Date | null;
+}
+
+export interface PaymentWebhookEvent {
+  // Provider event id, for logs
+  id: string;
+  type: PaymentWebhookEventType;
+  providerSessionId: string;
+  // Provider charge/transaction id, stored as the payment reference
+  reference?: string;
+  failureReason?: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  createCheckoutSession(params: CheckoutSessionParams): Promise<CheckoutSession>;
+  /** Parse a webhook request, or null when its signature does not verify. */
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentWebhookEvent | null;
+}
+
+export type PaymentWebhookAction = "processing" | "succeed" | "fail" | "ignore";
+
+const providers = new Map<string, PaymentProvider>();
+
+export function registerPaymentProvider(provider: PaymentProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getPaymentProvider(name: string): PaymentProvider | undefined {
+  return providers.get(name);
+}
+
+/** The provider new payment sessions are created with. */
+export function getDefaultPaymentProviderName(): string {
+  return process.env.PAYMENT_PROVIDER || "mock";
+}
+
+/**
+ * Sessions a new payment link for the same invoice replaces. A processing session is left
+ * alone: the payer has already submitted and the provider may still capture the money.
+ */
+export const REPLACEABLE_PAYMENT_SESSION_STATUSES: PaymentSessionStatus[] = ["open", "failed"];
+
+/**
+ * What a webhook event does to a session in `status`. Succeeded and refund_required sessions
+ * are final. An expired session only takes a late success, since the provider has captured
+ * that money and it must be recorded (or flagged for refund). A failed session can still
+ * succeed or start processing because the payer may retry on the same checkout page.
+ */
+export function resolveWebhookAction(
+  status: PaymentSessionStatus,
+  eventType: PaymentWebhookEventType,
+): PaymentWebhookAction {
+  if (status === "succeeded" || status === "refund_required") return "ignore";
+  if (status === "expired") return eventType === "payment.succeeded" ? "succeed" : "ignore";
+  switch (eventType) {
+    case "payment.succeeded":
+      return "succeed";
+    case "payment.processing":
+      return status === "processing" ? "ignore" : "processing";
+    case "payment.failed":
+      return status === "failed" ? "ignore" : "fail";
+  }
+}
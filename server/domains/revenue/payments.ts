@@ -0,0 +1,173 @@
+import { startOfDay } from "date-fns";
+import type { CreditNote, Invoice, Payment, Refund } from "@shared/schema";
+
+/**
+ * Invoice payment ledger helpers.
+ *
+ * `invoices.paidAmount` and the paid/partially-paid status are derived from the
+ * non-voided rows in `payments`; they are recomputed every time the ledger changes
+ * and never edited directly.
+ *
+ * Refunds net against payments and credit notes reduce the amount due, so both are
+ * folded into the same summary: `paidAmount` is payments minus refunds and
+ * `creditedAmount` is the total of non-voided credit notes. An unpaid invoice that is
+ * credited in full is cancelled, and reopens if those credit notes are voided. A partially
+ * paid invoice past its due date is `overdue` until it is paid in full.
+ *
+ * Amounts are summed in cents to avoid floating point drift on decimal strings.
+ */
+
+export interface InvoicePaymentSummary {
+  paidAmount: string;
+  creditedAmount: string;
+  balanceDue: string;
+  status: Invoice["status"];
+  paidAt: Date | null;
+}
+
+const toCents = (value: string | number | null | undefined) =>
+  Math.round(Number(value ?? 0) * 100);
+
+const fromCents = (cents: number) => (cents / 100).toFixed(2);
+
+export interface InvoiceAdjustments {
+  refunds?: Pick<Refund, "amount">[];
+  creditNotes?: Pick<CreditNote, "totalAmount" | "voidedAt">[];
+}
+
+/** Outstanding balance on an invoice, in cents. */
+export function getBalanceDueCents(
+  invoice: Pick<Invoice, "totalAmount" | "paidAmount"> & Partial<Pick<Invoice, "creditedAmount">>,
+): number {
+  return toCents(invoice.totalAmount) - toCents(invoice.creditedAmount) - toCents(invoice.paidAmount);
+}
+
+/** Why an invoice cannot take a payment of `amount`, or null when it can. */
+export function getPaymentRefusal(
+  invoice: Pick<Invoice, "status" | "totalAmount" | "paidAmount"> & Partial<Pick<Invoice, "creditedAmount">>,
+  amount: string | number,
+): string | null {
+  if (invoice.status === "cancelled") return "Cannot record a payment on a cancelled invoice";
+  if (toCents(amount) > getBalanceDueCents(invoice)) return "Payment exceeds the outstanding balance";
+  return null;
+}
+
+/**
+ * Why a create (no `existing`) or edit cannot set an invoice's status to `status`, or null
+ * when it can. Paid and partially paid come only from recorded payments, and an invoice
+ * with payments keeps the status they give it.
+ */
+export function getInvoiceStatusRefusal(
+  existing: Pick<Invoice, "status" | "paidAmount"> | undefined,
+  status: unknown,
+): { status: 400 | 409; error: string } | null {
+  if (status === undefined || status === existing?.status) return null;
+  if (status === "paid" || status === "partially_paid") {
+    return { status: 400, error: "Record a payment to mark an invoice paid" };
+  }
+  if (
+    existing &&
+    (existing.status === "paid" || existing.status === "partially_paid" || toCents(existing.paidAmount) > 0)
+  ) {
+    return {
+      status: 409,
+      error: "An invoice with payments takes its status from them; void or refund payments to change it",
+    };
+  }
+  return null;
+}
+
+/** Amount that can still be credited on an invoice, in cents. */
+export function getCreditableCents(
+  invoice: Pick<Invoice, "totalAmount"> & Partial<Pick<Invoice, "creditedAmount">>,
+): number {
+  return toCents(invoice.totalAmount) - toCents(invoice.creditedAmount);
+}
+
+/** Amount of a payment not yet refunded, in cents. */
+export function getRefundableCents(
+  payment: Pick<Payment, "id" | "amount">,
+  refunds: Pick<Refund, "paymentId" | "amount">[],
+): number {
+  const refundedCents = refunds
+    .filter((refund) => refund.paymentId === payment.id)
+    .reduce((sum, refund) => sum + toCents(refund.amount), 0);
+  return toCents(payment.amount) - refundedCents;
+}
+
+/** Why a credit note for `totalAmount` cannot be issued on an invoice, or null when it can. */
+export function getCreditNoteRefusal(
+  invoice: Pick<Invoice, "status" | "totalAmount"> & Partial<Pick<Invoice, "creditedAmount">>,
+  totalAmount: string | number,
+): string | null {
+  // Drafts can simply be edited, and cancelled invoices have nothing left to credit
+  if (invoice.status === "draft" || invoice.status === "cancelled") {
+    return "Credit notes can only be issued against open invoices";
+  }
+  if (toCents(totalAmount) > getCreditableCents(invoice)) return "Credit note exceeds the uncredited invoice total";
+  return null;
+}
+
+/** Why `amount` cannot be refunded from a payment, or null when it can. */
+export function getRefundRefusal(
+  payment: Pick<Payment, "id" | "amount" | "voidedAt">,
+  refunds: Pick<Refund, "paymentId" | "amount">[],
+  amount: string | number,
+): string | null {
+  if (payment.voidedAt) return "Cannot refund a voided payment";
+  if (toCents(amount) > getRefundableCents(payment, refunds)) return "Refund exceeds the unrefunded payment amount";
+  return null;
+}
+
+/**
+ * Derive paidAmount, creditedAmount, balance and status for an invoice from its payment
+ * ledger, refunds and credit notes. When every payment has been voided (or refunded) the
+ * invoice falls back to its pre-payment state.
+ */
+export function summarizeInvoicePayments(
+  invoice: Pick<Invoice, "status" | "totalAmount" | "sentAt" | "dueDate">,
+  ledger: Pick<Payment, "amount" | "paidAt" | "voidedAt">[],
+  now = new Date(),
+  adjustments: InvoiceAdjustments = {},
+): InvoicePaymentSummary {
+  const active = ledger.filter((payment) => !payment.voidedAt);
+  const refundedCents = (adjustments.refunds ?? []).reduce((sum, refund) => sum + toCents(refund.amount), 0);
+  const paidCents = active.reduce((sum, payment) => sum + toCents(payment.amount), 0) - refundedCents;
+  const creditNotes = adjustments.creditNotes ?? [];
+  const creditedCents = creditNotes
+    .filter((creditNote) => !creditNote.voidedAt)
+    .reduce((sum, creditNote) => sum + toCents(creditNote.totalAmount), 0);
+  const dueCents = toCents(invoice.totalAmount) - creditedCents;
+
+  let status: Invoice["status"] = invoice.status;
+  let paidAt: Date | null = null;
+  // Overdue from the day after the due date, as in the dunning job
+  const pastDue = !!invoice.dueDate && invoice.dueDate < startOfDay(now);
+  // Credit notes are only issued against open invoices, so a cancelled invoice that has
+  // any was cancelled by crediting it in full
+  const creditedOff = status === "cancelled" && creditNotes.length > 0;
+
+  if (creditedCents > 0 && dueCents <= 0 && paidCents <= 0) {
+    status = "cancelled";
+  } else if (paidCents > 0 && paidCents >= dueCents) {
+    status = "paid";
+    paidAt = active.reduce<Date | null>(
+      (latest, payment) => (!latest || payment.paidAt > latest ? payment.paidAt : latest),
+      null,
+    );
+  } else if (paidCents > 0) {
+    // Overdue outranks partially paid until the invoice is paid in full
+    status = status === "overdue" || (status === "paid" && pastDue) ? "overdue" : "partially_paid";
+  } else if (status === "paid" || status === "partially_paid" || creditedOff) {
+    if (pastDue) status = "overdue";
+    else status = invoice.sentAt ? "sent" : "draft";
+  }
+
+  return {
+    paidAmount: fromCents(paidCents),
+    creditedAmount: fromCents(creditedCents),
+    balanceDue: fromCents(Math.max(dueCents - paidCents, 0)),
+    status,
+    paidAt,
+  };
+}
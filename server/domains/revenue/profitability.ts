@@ -0,0 +1,309 @@
+import { eachMonthOfInterval, format, max, min, startOfMonth } from "date-fns";
+import type { Bill, Engagement, ExchangeRate, Expense, Invoice, Payment, Refund } from "@shared/schema";
+import { convertToBaseCurrency, getDocumentCurrency } from "./currency";
+
+/**
+ * Engagement profitability
+ *
+ * Ties an engagement's contracted `totalValue` to the invoices, bills and expenses linked
+ * to it by `engagementId`:
+ * - invoiced: issued invoices (not drafts or cancelled) before tax and net of credit notes,
+ *   i.e. `amount` scaled by the share of `totalAmount` not credited
+ * - collected: cash received, payments less refunds (`paidAmount`, tax included)
+ * - direct costs: `approved` and `paid` bills plus approved expenses
+ * - gross margin: invoiced less direct costs, and as a percentage of invoiced
+ *
+ * Everything is in the base currency at the rate on the document date (invoice issue date,
+ * bill creation, expense date); payments use their invoice's date so the monthly timeline
+ * adds up to the totals. Documents without a rate are left out and counted in `unconverted`.
+ */
+
+type ProfitEngagement = Pick<Engagement, "id" | "name" | "status" | "clientCompanyId" | "workType" | "totalValue">;
+type ProfitInvoice = Pick<
+  Invoice,
+  | "id"
+  | "engagementId"
+  | "status"
+  | "currency"
+  | "amount"
+  | "totalAmount"
+  | "creditedAmount"
+  | "paidAmount"
+  | "sentAt"
+  | "createdAt"
+>;
+type ProfitBill = Pick<Bill, "engagementId" | "status" | "currency" | "amount" | "createdAt">;
+type ProfitExpense = Pick<Expense, "engagementId" | "status" | "currency" | "amount" | "expenseDate">;
+type ProfitPayment = Pick<Payment, "invoiceId" | "amount" | "paidAt" | "voidedAt">;
+type ProfitRefund = Pick<Refund, "invoiceId" | "amount" | "refundedAt">;
+type RateLookup = Pick<ExchangeRate, "currency" | "baseCurrency" | "rate" | "effectiveDate">;
+
+export interface ProfitabilityDocuments {
+  invoices: ProfitInvoice[];
+  bills: ProfitBill[];
+  expenses: ProfitExpense[];
+}
+
+export interface ProfitabilityContext {
+  baseCurrency: string;
+  rates: RateLookup[];
+  clients?: { id: string; name: string }[];
+}
+
+export interface ProfitabilityFigures {
+  invoiced: number;
+  collected: number;
+  billCosts: number;
+  expenseCosts: number;
+  directCosts: number;
+  grossMargin: number;
+  // null until something is invoiced
+  marginPercent: number | null;
+}
+
+export interface EngagementProfitability extends ProfitabilityFigures {
+  engagementId: string;
+  name: string;
+  status: Engagement["status"];
+  clientName: string | null;
+  workType: string | null;
+  contractedValue: number;
+  // Contracted value not invoiced yet (never negative)
+  remainingToInvoice: number;
+  unconverted: number;
+}
+
+export interface WorkTypeProfitability extends ProfitabilityFigures {
+  workType: string;
+  engagementCount: number;
+}
+
+export interface ProfitabilityReport {
+  currency: string;
+  engagements: EngagementProfitability[];
+  workTypes: WorkTypeProfitability[];
+  totals: ProfitabilityFigures & { contractedValue: number };
+  unconverted: number;
+}
+
+export interface ProfitabilityMonth {
+  month: string;
+  invoiced: number;
+  collected: number;
+  directCosts: number;
+  grossMargin: number;
+  cumulativeMargin: number;
+}
+
+export const UNSPECIFIED_WORK_TYPE = "Unspecified";
+
+const INVOICED_STATUSES: Invoice["status"][] = ["sent", "viewed", "partially_paid", "paid", "overdue"];
+const COST_BILL_STATUSES: Bill["status"][] = ["approved", "paid"];
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const issuedAt = (invoice: ProfitInvoice) => invoice.sentAt ?? invoice.createdAt;
+
+/** Invoice revenue before tax and net of credit notes, in the invoice currency. */
+export function getNetInvoicedAmount(invoice: Pick<Invoice, "amount" | "totalAmount" | "creditedAmount">): number {
+  const total = Number(invoice.totalAmount);
+  if (total <= 0) return 0;
+  const uncredited = Math.max(total - Number(invoice.creditedAmount ?? 0), 0);
+  return roundCents((Number(invoice.amount) * uncredited) / total);
+}
+
+function computeMargin(invoiced: number, billCosts: number, expenseCosts: number, collected: number): ProfitabilityFigures {
+  const directCosts = billCosts + expenseCosts;
+  const grossMargin = invoiced - directCosts;
+  return {
+    invoiced: roundCents(invoiced),
+    collected: roundCents(collected),
+    billCosts: roundCents(billCosts),
+    expenseCosts: roundCents(expenseCosts),
+    directCosts: roundCents(directCosts),
+    grossMargin: roundCents(grossMargin),
+    marginPercent: invoiced > 0 ? Math.round((grossMargin / invoiced) * 1000) / 10 : null,
+  };
+}
+
+/** Highest margin first; engagements with nothing invoiced go last. */
+function compareByMargin(a: ProfitabilityFigures, b: ProfitabilityFigures): number {
+  if (a.marginPercent === null || b.marginPercent === null) {
+    if (a.marginPercent !== b.marginPercent) return a.marginPercent === null ? 1 : -1;
+  } else if (a.marginPercent !== b.marginPercent) {
+    return b.marginPercent - a.marginPercent;
+  }
+  return b.grossMargin - a.grossMargin;
+}
+
+/** Profitability of one engagement from the documents linked to it. */
+export function summarizeEngagementProfitability(
+  engagement: ProfitEngagement,
+  documents: ProfitabilityDocuments,
+  context: ProfitabilityContext,
+): EngagementProfitability {
+  const { baseCurrency, rates } = context;
+  let unconverted = 0;
+  const convert = (amount: number, document: { currency?: string | null }, date: Date) => {
+    const converted = convertToBaseCurrency(amount, getDocumentCurrency(document, baseCurrency), baseCurrency, date, rates);
+    if (converted === null) unconverted++;
+    return converted ?? 0;
+  };
+
+  let invoiced = 0;
+  let collected = 0;
+  for (const invoice of documents.invoices) {
+    if (invoice.engagementId !== engagement.id || !INVOICED_STATUSES.includes(invoice.status)) continue;
+    const date = issuedAt(invoice);
+    const currency = getDocumentCurrency(invoice, baseCurrency);
+    const net = convertToBaseCurrency(getNetInvoicedAmount(invoice), currency, baseCurrency, date, rates);
+    if (net === null) {
+      unconverted++;
+      continue;
+    }
+    invoiced += net;
+    collected += convertToBaseCurrency(Number(invoice.paidAmount ?? 0), currency, baseCurrency, date, rates) ?? 0;
+  }
+
+  let billCosts = 0;
+  for (const bill of documents.bills) {
+    if (bill.engagementId !== engagement.id || !COST_BILL_STATUSES.includes(bill.status)) continue;
+    billCosts += convert(Number(bill.amount), bill, bill.createdAt);
+  }
+
+  let expenseCosts = 0;
+  for (const expense of documents.expenses) {
+    if (expense.engagementId !== engagement.id || expense.status !== "approved") continue;
+    expenseCosts += convert(Number(expense.amount), expense, expense.expenseDate);
+  }
+
+  const contractedValue = Number(engagement.totalValue ?? 0);
+  const clientName =
+    (engagement.clientCompanyId && context.clients?.find((client) => client.id === engagement.clientCompanyId)?.name) ||
+    null;
+  return {
+    engagementId: engagement.id,
+    name: engagement.name,
+    status: engagement.status,
+    clientName,
+    workType: engagement.workType?.trim() || null,
+    contractedValue,
+    remainingToInvoice: roundCents(Math.max(contractedValue - invoiced, 0)),
+    ...computeMargin(invoiced, billCosts, expenseCosts, collected),
+    unconverted,
+  };
+}
+
+/**
+ * Org-wide report: every engagement ranked by margin, the same figures rolled up per work
+ * type, and totals.
+ */
+export function buildProfitabilityReport(
+  engagements: ProfitEngagement[],
+  documents: ProfitabilityDocuments,
+  context: ProfitabilityContext,
+): ProfitabilityReport {
+  const rows = engagements
+    .map((engagement) => summarizeEngagementProfitability(engagement, documents, context))
+    .sort((a, b) => compareByMargin(a, b) || a.name.localeCompare(b.name));
+
+  const byType = new Map<string, EngagementProfitability[]>();
+  for (const row of rows) {
+    const key = row.workType ?? UNSPECIFIED_WORK_TYPE;
+    byType.set(key, [...(byType.get(key) ?? []), row]);
+  }
+  const sumOf = (items: EngagementProfitability[], field: keyof ProfitabilityFigures) =>
+    items.reduce((sum, item) => sum + (item[field] ?? 0), 0);
+  const rollUp = (items: EngagementProfitability[]) =>
+    computeMargin(sumOf(items, "invoiced"), sumOf(items, "billCosts"), sumOf(items, "expenseCosts"), sumOf(items, "collected"));
+
+  const workTypes = Array.from(byType.entries())
+    .map(([workType, items]) => ({ workType, engagementCount: items.length, ...rollUp(items) }))
+    .sort((a, b) => compareByMargin(a, b) || a.workType.localeCompare(b.workType));
+
+  return {
+    currency: context.baseCurrency,
+    engagements: rows,
+    workTypes,
+    totals: {
+      contractedValue: roundCents(rows.reduce((sum, row) => sum + row.contractedValue, 0)),
+      ...rollUp(rows),
+    },
+    unconverted: rows.reduce((sum, row) => sum + row.unconverted, 0),
+  };
+}
+
+/**
+ * Month-by-month invoiced, collected, direct costs and margin for one engagement, from the
+ * first month with activity to the last. Collections are dated by payment and refund.
+ */
+export function buildProfitabilityTimeline(
+  engagementId: string,
+  documents: ProfitabilityDocuments & { payments: ProfitPayment[]; refunds: ProfitRefund[] },
+  context: ProfitabilityContext,
+): ProfitabilityMonth[] {
+  const { baseCurrency, rates } = context;
+  const entries: { date: Date; field: "invoiced" | "collected" | "directCosts"; amount: number }[] = [];
+  const add = (
+    field: "invoiced" | "collected" | "directCosts",
+    amount: number,
+    document: { currency?: string | null },
+    rateDate: Date,
+    date = rateDate,
+  ) => {
+    const converted = convertToBaseCurrency(amount, getDocumentCurrency(document, baseCurrency), baseCurrency, rateDate, rates);
+    if (converted !== null) entries.push({ date, field, amount: converted });
+  };
+
+  const invoices = new Map<string, ProfitInvoice>();
+  for (const invoice of documents.invoices) {
+    if (invoice.engagementId !== engagementId || !INVOICED_STATUSES.includes(invoice.status)) continue;
+    invoices.set(invoice.id, invoice);
+    add("invoiced", getNetInvoicedAmount(invoice), invoice, issuedAt(invoice));
+  }
+  for (const payment of documents.payments) {
+    const invoice = invoices.get(payment.invoiceId);
+    if (!invoice || payment.voidedAt) continue;
+    add("collected", Number(payment.amount), invoice, issuedAt(invoice), payment.paidAt);
+  }
+  for (const refund of documents.refunds) {
+    const invoice = invoices.get(refund.invoiceId);
+    if (!invoice) continue;
+    add("collected", -Number(refund.amount), invoice, issuedAt(invoice), refund.refundedAt);
+  }
+  for (const bill of documents.bills) {
+    if (bill.engagementId !== engagementId || !COST_BILL_STATUSES.includes(bill.status)) continue;
+    add("directCosts", Number(bill.amount), bill, bill.createdAt);
+  }
+  for (const expense of documents.expenses) {
+    if (expense.engagementId !== engagementId || expense.status !== "approved") continue;
+    add("directCosts", Number(expense.amount), expense, expense.expenseDate);
+  }
+
+  if (entries.length === 0) return [];
+  const dates = entries.map((entry) => entry.date);
+  const months = eachMonthOfInterval({ start: startOfMonth(min(dates)), end: startOfMonth(max(dates)) }).map((month) => ({
+    month: format(month, "yyyy-MM"),
+    invoiced: 0,
+    collected: 0,
+    directCosts: 0,
+  }));
+  const byKey = new Map(months.map((month) => [month.month, month]));
+  for (const entry of entries) {
+    byKey.get(format(entry.date, "yyyy-MM"))![entry.field] += entry.amount;
+  }
+
+  let cumulativeMargin = 0;
+  return months.map((month) => {
+    const grossMargin = month.invoiced - month.directCosts;
+    cumulativeMargin += grossMargin;
+    return {
+      month: month.month,
+      invoiced: roundCents(month.invoiced),
+      collected: roundCents(month.collected),
+      directCosts: roundCents(month.directCosts),
+      grossMargin: roundCents(grossMargin),
+      cumulativeMargin: roundCents(cumulativeMargin),
+    };
+  });
+}
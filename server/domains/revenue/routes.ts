@@ -1,10 +1,234 @@
 import { Router, Request, Response } from "express";
+import type { IncomingHttpHeaders } from "http";
+import multer from "multer";
 import { storage } from "../../storage";
 import { requireAuth, getUserIdFromRequest, getOrCreateOrg, AuthenticatedRequest } from "../../middleware/auth";
-import { checkPermission } from "../../middleware/permissions";
+import { checkPermission, userHasPermission } from "../../middleware/permissions";
+import {
+  insertInvoiceScheduleSchema,
+  updateInvoiceScheduleSchema,
+  insertPaymentSchema,
+  voidPaymentSchema,
+  createPaymentSessionSchema,
+  simulateMockPaymentSchema,
+  createCreditNoteSchema,
+  insertRefundSchema,
+  invoiceReminderSettingsSchema,
+  insertExchangeRateSchema,
+  currencyCodeSchema,
+  invoiceLineItemsSchema,
+  numberingSequenceSettingsSchema,
+  NUMBERED_DOCUMENT_TYPES,
+  type NumberedDocumentType,
+  insertTaxRateSchema,
+  updateTaxRateSchema,
+  insertBillApprovalPolicySchema,
+  updateBillApprovalPolicySchema,
+  billApprovalDecisionSchema,
+  insertVendorSchema,
+  updateVendorSchema,
+  VENDOR_SPEND_PERIODS,
+  bankTransactionMatchSchema,
+  updateBankTransactionSchema,
+  BANK_TRANSACTION_STATUSES,
+  insertLedgerAccountSchema,
+  updateLedgerAccountSchema,
+  invoiceFromTimeSchema,
+  insertExpenseSchema,
+  updateExpenseSchema,
+  reviewExpenseSchema,
+  reimburseExpensesSchema,
+  invoiceFromExpensesSchema,
+  EXPENSE_STATUSES,
+  type Bill,
+  type Expense,
+  type Invoice,
+} from "@shared/schema";
+import { formatZodErrors } from "../crm/error-handlers";
+import { getBalanceDueCents, getInvoiceStatusRefusal } from "./payments";
+import { generateInvoicePdf } from "./invoice-pdf";
+import { getDefaultPaymentProviderName, getPaymentProvider, type PaymentWebhookEvent } from "./payment-gateway";
+import {
+  buildMockWebhookEvents,
+  getMockSettleDelayMs,
+  MOCK_SIGNATURE_HEADER,
+  mockPaymentProvider,
+  signMockWebhook,
+} from "./mock-payment-provider";
+import { getReminderDays } from "./dunning";
+import { convertToBaseCurrency, getDocumentCurrency, parseExchangeRateCsv } from "./currency";
+import { computeFlatInvoiceTotals, computeInvoiceTotals, findUnknownTaxRates } from "./invoice-totals";
+import { describeNumberingSequence, isDraftNumber, withNumberingDefaults } from "./numbering";
+import {
+  buildContractorPaymentSummary,
+  CONTRACTOR_PAYMENT_CSV_HEADER,
+  contractorPaymentCsvRow,
+  summarizeVendorSpend,
+} from "./vendor-spend";
+import { arAgingCsvRows, buildArAgingReport } from "./ar-aging";
+import {
+  buildProfitabilityReport,
+  buildProfitabilityTimeline,
+  summarizeEngagementProfitability,
+} from "./profitability";
+import { detectStatementFormat, parseBankStatement } from "./bank-import";
+import { suggestBankMatches } from "./bank-reconciliation";
+import { buildIifExport, buildTrialBalance, JOURNAL_CSV_HEADER, journalCsvRows } from "./ledger";
+import { buildTimeLineItems } from "../projects/time-tracking";
+import {
+  buildExpenseLineItems,
+  canReviewExpenses,
+  getExpenseReviewDenial,
+  isExpenseEditable,
+  summarizeReimbursements,
+} from "./expenses";
+import { fileStorageService, validateFile, validateFileSignature } from "../../services/file-storage";
+import { toCsv } from "../../utils/csv";
+import { z } from "zod";
+import { endOfDay } from "date-fns";
+import {
+  buildApprovalChain,
+  getApprovalDenialReason,
+  getCurrentApprovalStep,
+  planBillEdit,
+} from "./bill-approvals";
+
+// Exchange-rate CSV uploads are parsed in memory
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 1024 * 1024, // 1MB limit
+  },
+});
+
+// Expense receipts are validated in memory before they are written by the file storage service
+const receiptUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+});
 
 export const revenueRoutes = Router();
 
+/**
+ * Resolve the currency for a new invoice/bill: the requested ISO code, or the
+ * organization base currency when none is given.
+ */
+async function resolveDocumentCurrency(orgId: string, requested: unknown) {
+  if (requested === undefined || requested === null || requested === "") {
+    const organization = await storage.getOrganization(orgId);
+    return { currency: organization?.currency ?? "USD" };
+  }
+  const validation = currencyCodeSchema.safeParse(typeof requested === "string" ? requested.toUpperCase() : requested);
+  if (!validation.success) return { error: validation.error };
+  return { currency: validation.data };
+}
+
+/** The fields of an invoice create or update body that feed its totals. */
+interface InvoiceTotalsInput {
+  lineItems?: unknown;
+  amount?: number | string | null;
+  tax?: number | string | null;
+}
+
+/**
+ * Server-computed amount / tax / totalAmount for an invoice create or update.
+ * Line items are validated and priced against the org's tax rates; invoices without
+ * line items derive the total from `amount` + `tax`. Returns no totals for updates that
+ * touch none of these fields.
+ */
+async function resolveInvoiceTotals(orgId: string, body: InvoiceTotalsInput, existing?: Invoice) {
+  if (body.lineItems) {
+    const validation = invoiceLineItemsSchema.safeParse(body.lineItems);
+    if (!validation.success) {
+      return { status: 400, error: { error: "Validation failed", details: formatZodErrors(validation.error) } };
+    }
+    // Inactive rates can't be picked for new lines; lines that already use one keep it
+    const existingRateIds = new Set(
+      (Array.isArray(existing?.lineItems) ? existing.lineItems : []).map((item) => item.taxRateId),
+    );
+    const rates = (await storage.getTaxRates(orgId)).filter(
+      (rate) => rate.isActive || existingRateIds.has(rate.id),
+    );
+    const unknown = findUnknownTaxRates(validation.data, rates);
+    if (unknown.length > 0) {
+      return { status: 400, error: { error: "Unknown or inactive tax rate", details: unknown } };
+    }
+    return { totals: computeInvoiceTotals(validation.data, rates) };
+  }
+
+  const touchesTotals = !existing || body.lineItems === null || "amount" in body || "tax" in body;
+  if (!touchesTotals) return {};
+  if (existing && Array.isArray(existing.lineItems) && existing.lineItems.length > 0 && body.lineItems !== null) {
+    return { status: 400, error: { error: "Itemized invoices are totalled from lineItems; update lineItems instead" } };
+  }
+  return {
+    totals: {
+      ...computeFlatInvoiceTotals(body.amount ?? existing?.amount, body.tax ?? existing?.tax),
+      lineItems: null,
+    },
+  };
+}
+
+/**
+ * Approval chain for a bill from the org's approval policies. Thresholds are in the base
+ * currency, so the bill amount is converted at today's rate first.
+ */
+async function resolveBillApprovalChain(orgId: string, bill: Pick<Bill, "amount" | "currency" | "engagementId">) {
+  const policies = await storage.getBillApprovalPolicies(orgId);
+  if (!policies.some((policy) => policy.isActive)) return [];
+  const [organization, rates, engagement] = await Promise.all([
+    storage.getOrganization(orgId),
+    storage.getExchangeRates(orgId),
+    bill.engagementId ? storage.getEngagement(bill.engagementId, orgId) : undefined,
+  ]);
+  const baseCurrency = organization?.currency ?? "USD";
+  const amountInBase = convertToBaseCurrency(
+    Number(bill.amount),
+    getDocumentCurrency(bill, baseCurrency),
+    baseCurrency,
+    new Date(),
+    rates,
+  );
+  return buildApprovalChain(policies, bill, amountInBase, engagement?.ownerId ?? null);
+}
+
+/** Approve or reject a pending bill, deciding the current step of its approval chain if it has one. */
+async function decideBillRequest(req: Request, res: Response, decision: "approved" | "rejected") {
+  const userId = (req as AuthenticatedRequest).user!.claims.sub;
+  const orgId = await getOrCreateOrg(userId);
+  const validation = billApprovalDecisionSchema.safeParse(req.body ?? {});
+  if (!validation.success) {
+    return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+  }
+  const bill = await storage.getBill(req.params.id, orgId);
+  if (!bill) return res.status(404).json({ error: "Bill not found" });
+  if (bill.status !== "pending") {
+    return res.status(409).json({ error: "Bill is not awaiting approval" });
+  }
+
+  const steps = await storage.getBillApprovalSteps(bill.id, orgId);
+  const step = getCurrentApprovalStep(steps);
+  if (steps.length > 0) {
+    if (!step) return res.status(409).json({ error: "Bill is not awaiting approval" });
+    const role = await storage.getOrganizationMemberRole(orgId, userId);
+    const denial = getApprovalDenialReason(step, steps, bill, userId, role);
+    if (denial) return res.status(403).json({ error: denial });
+  }
+
+  const result = await storage.decideBill({
+    billId: bill.id,
+    orgId,
+    stepId: step?.id ?? null,
+    decision,
+    userId,
+    comment: validation.data.comment,
+  });
+  if (!result) return res.status(409).json({ error: "This approval step has already been decided" });
+  res.json(result.bill);
+}
+
 // ==================== INVOICES ====================
 
 revenueRoutes.get("/api/invoices", requireAuth, checkPermission("invoices", "view"), async (req: Request, res: Response) => {
@@ -23,7 +247,25 @@ revenueRoutes.post("/api/invoices", requireAuth, checkPermission("invoices", "cr
   try {
     const userId = (req as AuthenticatedRequest).user!.claims.sub;
     const orgId = await getOrCreateOrg(userId);
-    const invoice = await storage.createInvoice({ ...req.body, organizationId: orgId });
+    const { currency, error } = await resolveDocumentCurrency(orgId, req.body.currency);
+    if (error) {
+      return res.status(400).json({ error: "Validation failed", details: formatZodErrors(error) });
+    }
+    // Paid and credited state come from payments and credit notes, and numbers from the
+    // org's numbering sequence (see ./numbering.ts), as in PATCH
+    const {
+      paidAmount: _paidAmount,
+      creditedAmount: _creditedAmount,
+      paidAt: _paidAt,
+      totalAmount: _totalAmount,
+      invoiceNumber: _invoiceNumber,
+      ...data
+    } = req.body;
+    const refusal = getInvoiceStatusRefusal(undefined, data.status);
+    if (refusal) return res.status(refusal.status).json({ error: refusal.error });
+    const { totals, status, error: totalsError } = await resolveInvoiceTotals(orgId, data);
+    if (totalsError) return res.status(status).json(totalsError);
+    const invoice = await storage.createInvoice({ ...data, ...totals, currency, organizationId: orgId });
     res.status(201).json(invoice);
   } catch (error) {
     console.error("Create invoice error:", error);
@@ -39,7 +281,31 @@ revenueRoutes.patch(
     try {
       const userId = (req as AuthenticatedRequest).user!.claims.sub;
       const orgId = await getOrCreateOrg(userId);
-      const invoice = await storage.updateInvoice(req.params.id, orgId, req.body);
+      // Paid and credited state (and the paid/partially paid statuses) are derived from the
+      // payments ledger, refunds and credit notes; use those endpoints to change them.
+      // Totals are always recomputed server-side and numbers are allocated, never edited.
+      const {
+        paidAmount: _paidAmount,
+        creditedAmount: _creditedAmount,
+        paidAt: _paidAt,
+        totalAmount: _totalAmount,
+        invoiceNumber: _invoiceNumber,
+        ...updates
+      } = req.body;
+      const existing = await storage.getInvoice(req.params.id, orgId);
+      if (!existing) return res.status(404).json({ error: "Invoice not found" });
+      const refusal = getInvoiceStatusRefusal(existing, updates.status);
+      if (refusal) return res.status(refusal.status).json({ error: refusal.error });
+      if (updates.status === "draft" && !isDraftNumber(existing.invoiceNumber)) {
+        return res.status(409).json({ error: "An issued invoice cannot be returned to draft" });
+      }
+      const { totals, status, error } = await resolveInvoiceTotals(orgId, updates, existing);
+      if (error) return res.status(status).json(error);
+      const changes = { ...updates, ...totals };
+      const isIssuing = existing.status === "draft" && updates.status && updates.status !== "draft";
+      const invoice = isIssuing
+        ? await storage.issueInvoice(req.params.id, orgId, changes)
+        : await storage.updateInvoice(req.params.id, orgId, changes);
       if (!invoice) return res.status(404).json({ error: "Invoice not found" });
       res.json(invoice);
     } catch (error) {
@@ -57,7 +323,8 @@ revenueRoutes.post(
     try {
       const userId = (req as AuthenticatedRequest).user!.claims.sub;
       const orgId = await getOrCreateOrg(userId);
-      const invoice = await storage.updateInvoice(req.params.id, orgId, {
+      // Drafts get their sequential number here
+      const invoice = await storage.issueInvoice(req.params.id, orgId, {
         status: "sent",
         sentAt: new Date(),
       });
@@ -80,12 +347,30 @@ revenueRoutes.post(
       const orgId = await getOrCreateOrg(userId);
       const existing = await storage.getInvoice(req.params.id, orgId);
       if (!existing) return res.status(404).json({ error: "Invoice not found" });
-      const invoice = await storage.updateInvoice(req.params.id, orgId, {
-        status: "paid",
-        paidAt: new Date(),
-        paidAmount: existing.totalAmount,
+      if (existing.status === "cancelled") {
+        return res.status(400).json({ error: "Cannot record a payment on a cancelled invoice" });
+      }
+
+      // Settle the outstanding balance as a single ledger entry.
+      const balanceCents = getBalanceDueCents(existing);
+      if (balanceCents <= 0) return res.json(existing);
+
+      const validation = insertPaymentSchema.safeParse({
+        ...req.body,
+        amount: balanceCents / 100,
+        invoiceId: existing.id,
+        organizationId: orgId,
+        createdById: userId,
       });
-      res.json(invoice);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const result = await storage.recordInvoicePayment(existing.id, orgId, validation.data);
+      if (!result) return res.status(404).json({ error: "Invoice not found" });
+      if ("error" in result) {
+        return res.status(409).json({ error: "Invoice changed; refresh and try again" });
+      }
+      res.json(result.invoice);
     } catch (error) {
       console.error("Mark invoice paid error:", error);
       res.status(500).json({ error: "Failed to mark invoice as paid" });
@@ -93,6 +378,125 @@ revenueRoutes.post(
   },
 );
 
+revenueRoutes.get(
+  "/api/invoices/:id/payments",
+  requireAuth,
+  checkPermission("invoices", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const invoice = await storage.getInvoice(req.params.id, orgId);
+      if (!invoice) return res.status(404).json({ error: "Invoice not found" });
+      const [payments, refunds] = await Promise.all([
+        storage.getInvoicePayments(invoice.id, orgId),
+        storage.getInvoiceRefunds(invoice.id, orgId),
+      ]);
+      res.json({
+        payments,
+        refunds,
+        paidAmount: invoice.paidAmount ?? "0.00",
+        creditedAmount: invoice.creditedAmount ?? "0.00",
+        balanceDue: (Math.max(getBalanceDueCents(invoice), 0) / 100).toFixed(2),
+      });
+    } catch (error) {
+      console.error("Get invoice payments error:", error);
+      res.status(500).json({ error: "Failed to fetch payments" });
+    }
+  },
+);
+
+revenueRoutes.post(
+  "/api/invoices/:id/payments",
+  requireAuth,
+  checkPermission("invoices", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const invoice = await storage.getInvoice(req.params.id, orgId);
+      if (!invoice) return res.status(404).json({ error: "Invoice not found" });
+      if (invoice.status === "cancelled") {
+        return res.status(400).json({ error: "Cannot record a payment on a cancelled invoice" });
+      }
+
+      const validation = insertPaymentSchema.safeParse({
+        ...req.body,
+        invoiceId: invoice.id,
+        organizationId: orgId,
+        createdById: userId,
+      });
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      // The balance is checked with the invoice locked, so concurrent payments cannot overpay it
+      const result = await storage.recordInvoicePayment(invoice.id, orgId, validation.data);
+      if (!result) return res.status(404).json({ error: "Invoice not found" });
+      if ("error" in result) return res.status(400).json({ error: result.error });
+      res.status(201).json(result);
+    } catch (error) {
+      console.error("Record payment error:", error);
+      res.status(500).json({ error: "Failed to record payment" });
+    }
+  },
+);
+
+revenueRoutes.post(
+  "/api/invoices/:id/payments/:paymentId/void",
+  requireAuth,
+  checkPermission("invoices", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = voidPaymentSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      // Refunds are recorded against the payment, so voiding it would count the money twice
+      const refunds = await storage.getInvoiceRefunds(req.params.id, orgId);
+      if (refunds.some((refund) => refund.paymentId === req.params.paymentId)) {
+        return res.status(409).json({ error: "Payments with refunds cannot be voided" });
+      }
+      const result = await storage.voidInvoicePayment(
+        req.params.paymentId,
+        req.params.id,
+        orgId,
+        userId,
+        validation.data.reason,
+      );
+      if (!result) return res.status(404).json({ error: "Payment not found" });
+      res.json(result);
+    } catch (error) {
+      console.error("Void payment error:", error);
+      res.status(500).json({ error: "Failed to void payment" });
+    }
+  },
+);
+
+revenueRoutes.get(
+  "/api/invoices/:id/pdf",
+  requireAuth,
+  checkPermission("invoices", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const result = await generateInvoicePdf(req.params.id, orgId, userId);
+      if (!result) return res.status(404).json({ error: "Invoice not found" });
+
+      res.setHeader("Content-Type", "application/pdf");
+      const safeName = result.filename.replace(/[^\w .-]/g, "_");
+      res.setHeader("Content-Disposition", `inline; filename="${safeName}"`);
+      res.setHeader("X-File-Object-Id", result.file.id);
+      res.send(result.buffer);
+    } catch (error) {
+      console.error("Render invoice PDF error:", error);
+      res.status(500).json({ error: "Failed to render invoice PDF" });
+    }
+  },
+);
+
 revenueRoutes.delete(
   "/api/invoices/:id",
   requireAuth,
@@ -101,6 +505,13 @@ revenueRoutes.delete(
     try {
       const userId = (req as AuthenticatedRequest).user!.claims.sub;
       const orgId = await getOrCreateOrg(userId);
+      const existing = await storage.getInvoice(req.params.id, orgId);
+      if (!existing) return res.status(404).json({ error: "Invoice not found" });
+      // Numbering must stay gapless, so only drafts can be deleted. Drafts hold no number
+      // yet, apart from legacy ones created before numbering moved to issue time.
+      if (existing.status !== "draft") {
+        return res.status(409).json({ error: "Issued invoices cannot be deleted; cancel the invoice instead" });
+      }
       const success = await storage.deleteInvoice(req.params.id, orgId);
       if (!success) return res.status(404).json({ error: "Invoice not found" });
       res.status(204).send();
@@ -111,150 +522,2190 @@ revenueRoutes.delete(
   },
 );
 
-// ==================== BILLS ====================
+// ==================== ONLINE PAYMENTS ====================
 
-revenueRoutes.get("/api/bills", requireAuth, checkPermission("bills", "view"), async (req: Request, res: Response) => {
+/**
+ * Verify and apply a webhook from `providerName`. Events for sessions this app does not know
+ * are acknowledged and dropped so the provider stops retrying them.
+ */
+async function processPaymentWebhook(providerName: string, rawBody: Buffer, headers: IncomingHttpHeaders) {
+  const provider = getPaymentProvider(providerName);
+  if (!provider) return { status: 404, body: { error: "Unknown payment provider" } };
+  const event = provider.verifyWebhook(rawBody, headers);
+  if (!event) return { status: 400, body: { error: "Invalid webhook signature" } };
+
+  const result = await storage.applyPaymentWebhookEvent(provider.name, event);
+  if (!result) {
+    console.warn(`Payment webhook ${event.id} for unknown session ${event.providerSessionId}`);
+  }
+  return { status: 200, body: { received: true } };
+}
+
+/** Deliver a mock provider event through the webhook handler, signed like a real callback. */
+async function deliverMockWebhook(event: PaymentWebhookEvent) {
+  const body = JSON.stringify(event);
+  const result = await processPaymentWebhook(mockPaymentProvider.name, Buffer.from(body), {
+    [MOCK_SIGNATURE_HEADER]: signMockWebhook(body),
+  });
+  if (result.status !== 200) {
+    console.error("Mock payment webhook rejected:", result.body);
+  }
+}
+
+revenueRoutes.get(
+  "/api/invoices/:id/payment-sessions",
+  requireAuth,
+  checkPermission("invoices", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const invoice = await storage.getInvoice(req.params.id, orgId);
+      if (!invoice) return res.status(404).json({ error: "Invoice not found" });
+      res.json(await storage.getInvoicePaymentSessions(invoice.id, orgId));
+    } catch (error) {
+      console.error("Get payment sessions error:", error);
+      res.status(500).json({ error: "Failed to fetch payment sessions" });
+    }
+  },
+);
+
+revenueRoutes.post(
+  "/api/invoices/:id/payment-sessions",
+  requireAuth,
+  checkPermission("invoices", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = createPaymentSessionSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const provider = getPaymentProvider(validation.data.provider ?? getDefaultPaymentProviderName());
+      if (!provider) return res.status(400).json({ error: "Payment provider is not available" });
+
+      const invoice = await storage.getInvoice(req.params.id, orgId);
+      if (!invoice) return res.status(404).json({ error: "Invoice not found" });
+      if (invoice.status === "draft" || invoice.status === "cancelled") {
+        return res.status(409).json({ error: "Only issued invoices can be paid online" });
+      }
+      const balanceCents = getBalanceDueCents(invoice);
+      if (balanceCents <= 0) {
+        return res.status(409).json({ error: "Invoice has no outstanding balance" });
+      }
+
+      const amount = (balanceCents / 100).toFixed(2);
+      const organization = await storage.getOrganization(orgId);
+      const currency = getDocumentCurrency(invoice, organization?.currency ?? "USD");
+      const checkout = await provider.createCheckoutSession({
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        amount,
+        currency,
+        description: `Invoice ${invoice.invoiceNumber}`,
+      });
+      const session = await storage.createPaymentSession({
+        organizationId: orgId,
+        invoiceId: invoice.id,
+        provider: provider.name,
+        providerSessionId: checkout.providerSessionId,
+        amount,
+        currency,
+        checkoutUrl: checkout.checkoutUrl,
+        createdById: userId,
+        expiresAt: checkout.expiresAt,
+      });
+      res.status(201).json(session);
+    } catch (error) {
+      console.error("Create payment session error:", error);
+      res.status(500).json({ error: "Failed to create payment session" });
+    }
+  },
+);
+
+// Called by payment providers, so authenticated by the webhook signature instead of a session
+revenueRoutes.post("/api/payment-webhooks/:provider", async (req: Request, res: Response) => {
   try {
-    const userId = (req as AuthenticatedRequest).user!.claims.sub;
-    const orgId = await getOrCreateOrg(userId);
-    const bills = await storage.getBills(orgId);
-    res.json(bills);
+    if (!Buffer.isBuffer(req.rawBody)) {
+      return res.status(400).json({ error: "Webhook body must be JSON" });
+    }
+    const result = await processPaymentWebhook(req.params.provider, req.rawBody, req.headers);
+    res.status(result.status).json(result.body);
   } catch (error) {
-    console.error("Get bills error:", error);
-    res.status(500).json({ error: "Failed to fetch bills" });
+    console.error("Payment webhook error:", error);
+    res.status(500).json({ error: "Failed to process payment webhook" });
   }
 });
 
-revenueRoutes.post("/api/bills", requireAuth, checkPermission("bills", "create"), async (req: Request, res: Response) => {
+// The mock provider's hosted checkout page. Like a real provider's, it is reached by the
+// payer through the unguessable session id rather than by signing in.
+revenueRoutes.get("/api/payment-providers/mock/sessions/:sessionId", async (req: Request, res: Response) => {
   try {
-    const userId = (req as AuthenticatedRequest).user!.claims.sub;
-    const orgId = await getOrCreateOrg(userId);
-    const bill = await storage.createBill({
-      ...req.body,
-      organizationId: orgId,
-      createdById: userId,
+    if (!getPaymentProvider(mockPaymentProvider.name)) {
+      return res.status(404).json({ error: "Payment session not found" });
+    }
+    const session = await storage.getPaymentSessionByProviderId(mockPaymentProvider.name, req.params.sessionId);
+    if (!session) return res.status(404).json({ error: "Payment session not found" });
+    const [invoice, organization] = await Promise.all([
+      storage.getInvoice(session.invoiceId, session.organizationId),
+      storage.getOrganization(session.organizationId),
+    ]);
+    const expired = session.status === "expired" || (session.status === "open" && !!session.expiresAt && session.expiresAt < new Date());
+    res.json({
+      status: expired ? "expired" : session.status,
+      amount: session.amount,
+      currency: session.currency,
+      invoiceNumber: invoice?.invoiceNumber ?? null,
+      organizationName: organization?.name ?? null,
+      failureReason: session.failureReason,
+      settleDelayMs: getMockSettleDelayMs(),
     });
-    res.status(201).json(bill);
   } catch (error) {
-    console.error("Create bill error:", error);
-    res.status(500).json({ error: "Failed to create bill" });
+    console.error("Get mock payment session error:", error);
+    res.status(500).json({ error: "Failed to fetch payment session" });
   }
 });
 
-revenueRoutes.patch("/api/bills/:id", requireAuth, checkPermission("bills", "edit"), async (req: Request, res: Response) => {
+revenueRoutes.post("/api/payment-providers/mock/sessions/:sessionId/simulate", async (req: Request, res: Response) => {
+  try {
+    if (!getPaymentProvider(mockPaymentProvider.name)) {
+      return res.status(404).json({ error: "Payment session not found" });
+    }
+    const validation = simulateMockPaymentSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+    }
+    const session = await storage.getPaymentSessionByProviderId(mockPaymentProvider.name, req.params.sessionId);
+    if (!session) return res.status(404).json({ error: "Payment session not found" });
+    if (session.status !== "open" && session.status !== "failed") {
+      return res.status(409).json({ error: "This payment session can no longer be paid" });
+    }
+    if (session.expiresAt && session.expiresAt < new Date()) {
+      return res.status(409).json({ error: "This payment session has expired" });
+    }
+
+    const [first, ...later] = buildMockWebhookEvents(session.providerSessionId, validation.data.outcome);
+    await deliverMockWebhook(first);
+    if (later.length > 0) {
+      const timer = setTimeout(() => {
+        later
+          .reduce((chain, event) => chain.then(() => deliverMockWebhook(event)), Promise.resolve())
+          .catch((error) => console.error("Mock payment settlement error:", error));
+      }, getMockSettleDelayMs());
+      timer.unref();
+    }
+
+    const updated = await storage.getPaymentSessionByProviderId(mockPaymentProvider.name, req.params.sessionId);
+    res.json({ status: updated?.status ?? session.status, failureReason: updated?.failureReason ?? null });
+  } catch (error) {
+    console.error("Simulate mock payment error:", error);
+    res.status(500).json({ error: "Failed to simulate payment" });
+  }
+});
+
+// ==================== CREDIT NOTES & REFUNDS ====================
+
+revenueRoutes.get("/api/credit-notes", requireAuth, checkPermission("invoices", "view"), async (req: Request, res: Response) => {
   try {
     const userId = (req as AuthenticatedRequest).user!.claims.sub;
     const orgId = await getOrCreateOrg(userId);
-    const bill = await storage.updateBill(req.params.id, orgId, req.body);
-    if (!bill) return res.status(404).json({ error: "Bill not found" });
-    res.json(bill);
+    const creditNotes = await storage.getCreditNotes(orgId);
+    res.json(creditNotes);
   } catch (error) {
-    console.error("Update bill error:", error);
-    res.status(500).json({ error: "Failed to update bill" });
+    console.error("Get credit notes error:", error);
+    res.status(500).json({ error: "Failed to fetch credit notes" });
   }
 });
 
+revenueRoutes.get(
+  "/api/invoices/:id/credit-notes",
+  requireAuth,
+  checkPermission("invoices", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const invoice = await storage.getInvoice(req.params.id, orgId);
+      if (!invoice) return res.status(404).json({ error: "Invoice not found" });
+      const creditNotes = await storage.getInvoiceCreditNotes(invoice.id, orgId);
+      res.json(creditNotes);
+    } catch (error) {
+      console.error("Get invoice credit notes error:", error);
+      res.status(500).json({ error: "Failed to fetch credit notes" });
+    }
+  },
+);
+
 revenueRoutes.post(
-  "/api/bills/:id/approve",
+  "/api/invoices/:id/credit-notes",
   requireAuth,
-  checkPermission("bills", "edit"),
+  checkPermission("invoices", "edit"),
   async (req: Request, res: Response) => {
     try {
       const userId = (req as AuthenticatedRequest).user!.claims.sub;
       const orgId = await getOrCreateOrg(userId);
-      const bill = await storage.updateBill(req.params.id, orgId, {
-        status: "approved",
-        approvedById: userId,
-        approvedAt: new Date(),
+      const invoice = await storage.getInvoice(req.params.id, orgId);
+      if (!invoice) return res.status(404).json({ error: "Invoice not found" });
+
+      const validation = createCreditNoteSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const rates = await storage.getTaxRates(orgId);
+      const unknown = findUnknownTaxRates(validation.data.lineItems, rates);
+      if (unknown.length > 0) {
+        return res.status(400).json({ error: "Unknown tax rate", details: unknown });
+      }
+      const totals = computeInvoiceTotals(validation.data.lineItems, rates);
+
+      // The invoice's status and creditable amount are checked once it is locked
+      const result = await storage.createCreditNote({
+        ...totals,
+        organizationId: orgId,
+        invoiceId: invoice.id,
+        currency: invoice.currency,
+        reason: validation.data.reason,
+        createdById: userId,
       });
-      if (!bill) return res.status(404).json({ error: "Bill not found" });
-      res.json(bill);
+      if (!result) return res.status(404).json({ error: "Invoice not found" });
+      if ("error" in result) return res.status(400).json({ error: result.error });
+      res.status(201).json(result);
     } catch (error) {
-      console.error("Approve bill error:", error);
-      res.status(500).json({ error: "Failed to approve bill" });
+      console.error("Create credit note error:", error);
+      res.status(500).json({ error: "Failed to create credit note" });
     }
   },
 );
 
 revenueRoutes.post(
-  "/api/bills/:id/reject",
+  "/api/credit-notes/:id/void",
   requireAuth,
-  checkPermission("bills", "edit"),
+  checkPermission("invoices", "edit"),
   async (req: Request, res: Response) => {
     try {
       const userId = (req as AuthenticatedRequest).user!.claims.sub;
       const orgId = await getOrCreateOrg(userId);
-      const bill = await storage.updateBill(req.params.id, orgId, { status: "rejected" });
-      if (!bill) return res.status(404).json({ error: "Bill not found" });
-      res.json(bill);
+      const validation = voidPaymentSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const result = await storage.voidCreditNote(req.params.id, orgId, userId, validation.data.reason);
+      if (!result) return res.status(404).json({ error: "Credit note not found" });
+      res.json(result);
     } catch (error) {
-      console.error("Reject bill error:", error);
-      res.status(500).json({ error: "Failed to reject bill" });
+      console.error("Void credit note error:", error);
+      res.status(500).json({ error: "Failed to void credit note" });
     }
   },
 );
 
 revenueRoutes.post(
-  "/api/bills/:id/mark-paid",
+  "/api/invoices/:id/payments/:paymentId/refunds",
   requireAuth,
-  checkPermission("bills", "edit"),
+  checkPermission("invoices", "edit"),
   async (req: Request, res: Response) => {
     try {
       const userId = (req as AuthenticatedRequest).user!.claims.sub;
       const orgId = await getOrCreateOrg(userId);
-      const bill = await storage.updateBill(req.params.id, orgId, {
-        status: "paid",
-        paidAt: new Date(),
+      const invoice = await storage.getInvoice(req.params.id, orgId);
+      if (!invoice) return res.status(404).json({ error: "Invoice not found" });
+      const payments = await storage.getInvoicePayments(invoice.id, orgId);
+      const payment = payments.find((p) => p.id === req.params.paymentId);
+      if (!payment) return res.status(404).json({ error: "Payment not found" });
+
+      const validation = insertRefundSchema.safeParse({
+        ...req.body,
+        invoiceId: invoice.id,
+        paymentId: payment.id,
+        organizationId: orgId,
+        createdById: userId,
       });
-      if (!bill) return res.status(404).json({ error: "Bill not found" });
-      res.json(bill);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      if (validation.data.creditNoteId) {
+        const creditNote = await storage.getCreditNote(validation.data.creditNoteId, orgId);
+        if (!creditNote || creditNote.invoiceId !== invoice.id || creditNote.voidedAt) {
+          return res.status(400).json({ error: "Credit note not found on this invoice" });
+        }
+      }
+
+      // Voided payments and the refundable amount are checked once the payment is locked
+      const result = await storage.recordRefund(invoice.id, orgId, validation.data);
+      if (!result) return res.status(404).json({ error: "Invoice not found" });
+      if ("error" in result) return res.status(400).json({ error: result.error });
+      res.status(201).json(result);
     } catch (error) {
-      console.error("Mark bill paid error:", error);
-      res.status(500).json({ error: "Failed to mark bill as paid" });
+      console.error("Record refund error:", error);
+      res.status(500).json({ error: "Failed to record refund" });
+    }
+  },
+);
+
+// ==================== INVOICE SCHEDULES ====================
+
+revenueRoutes.get(
+  "/api/invoice-schedules",
+  requireAuth,
+  checkPermission("invoices", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const schedules = await storage.getInvoiceSchedules(orgId);
+      res.json(schedules);
+    } catch (error) {
+      console.error("Get invoice schedules error:", error);
+      res.status(500).json({ error: "Failed to fetch invoice schedules" });
+    }
+  },
+);
+
+revenueRoutes.get(
+  "/api/invoice-schedules/:id",
+  requireAuth,
+  checkPermission("invoices", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const schedule = await storage.getInvoiceSchedule(req.params.id, orgId);
+      if (!schedule) return res.status(404).json({ error: "Invoice schedule not found" });
+      res.json(schedule);
+    } catch (error) {
+      console.error("Get invoice schedule error:", error);
+      res.status(500).json({ error: "Failed to fetch invoice schedule" });
+    }
+  },
+);
+
+revenueRoutes.post(
+  "/api/invoice-schedules",
+  requireAuth,
+  checkPermission("invoices", "create"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = insertInvoiceScheduleSchema.safeParse({ ...req.body, organizationId: orgId });
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      // The engagement must belong to the caller's org; otherwise invoices would leak across tenants.
+      const engagement = await storage.getEngagement(validation.data.engagementId, orgId);
+      if (!engagement) return res.status(404).json({ error: "Engagement not found" });
+
+      const schedule = await storage.createInvoiceSchedule(validation.data);
+      res.status(201).json(schedule);
+    } catch (error) {
+      console.error("Create invoice schedule error:", error);
+      res.status(500).json({ error: "Failed to create invoice schedule" });
+    }
+  },
+);
+
+revenueRoutes.patch(
+  "/api/invoice-schedules/:id",
+  requireAuth,
+  checkPermission("invoices", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = updateInvoiceScheduleSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      if (validation.data.engagementId) {
+        const engagement = await storage.getEngagement(validation.data.engagementId, orgId);
+        if (!engagement) return res.status(404).json({ error: "Engagement not found" });
+      }
+      const schedule = await storage.updateInvoiceSchedule(req.params.id, orgId, validation.data);
+      if (!schedule) return res.status(404).json({ error: "Invoice schedule not found" });
+      res.json(schedule);
+    } catch (error) {
+      console.error("Update invoice schedule error:", error);
+      res.status(500).json({ error: "Failed to update invoice schedule" });
     }
   },
 );
 
 revenueRoutes.delete(
-  "/api/bills/:id",
+  "/api/invoice-schedules/:id",
   requireAuth,
-  checkPermission("bills", "delete"),
+  checkPermission("invoices", "delete"),
   async (req: Request, res: Response) => {
     try {
       const userId = (req as AuthenticatedRequest).user!.claims.sub;
       const orgId = await getOrCreateOrg(userId);
-      const success = await storage.deleteBill(req.params.id, orgId);
-      if (!success) return res.status(404).json({ error: "Bill not found" });
+      // Generated invoices keep their history; `scheduleId` is set to null on delete.
+      const success = await storage.deleteInvoiceSchedule(req.params.id, orgId);
+      if (!success) return res.status(404).json({ error: "Invoice schedule not found" });
       res.status(204).send();
     } catch (error) {
-      console.error("Delete bill error:", error);
-      res.status(500).json({ error: "Failed to delete bill" });
+      console.error("Delete invoice schedule error:", error);
+      res.status(500).json({ error: "Failed to delete invoice schedule" });
     }
   },
 );
 
-// ==================== VENDORS ====================
-
-revenueRoutes.get("/api/vendors", requireAuth, checkPermission("vendors", "view"), async (req: Request, res: Response) => {
-  try {
-    const userId = (req as AuthenticatedRequest).user!.claims.sub;
-    const orgId = await getOrCreateOrg(userId);
-    const vendors = await storage.getVendors(orgId);
-    res.json(vendors);
-  } catch (error) {
-    console.error("Get vendors error:", error);
-    res.status(500).json({ error: "Failed to fetch vendors" });
-  }
-});
+// ==================== INVOICE REMINDERS (Dunning) ====================
 
-revenueRoutes.post("/api/vendors", requireAuth, checkPermission("vendors", "create"), async (req: Request, res: Response) => {
-  try {
+revenueRoutes.get(
+  "/api/invoice-reminders/settings",
+  requireAuth,
+  checkPermission("invoices", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const organization = await storage.getOrganization(orgId);
+      if (!organization) return res.status(404).json({ error: "Organization not found" });
+      res.json({
+        days: getReminderDays(organization),
+        isDefault: organization.invoiceReminderDays == null,
+      });
+    } catch (error) {
+      console.error("Get invoice reminder settings error:", error);
+      res.status(500).json({ error: "Failed to fetch invoice reminder settings" });
+    }
+  },
+);
+
+revenueRoutes.put(
+  "/api/invoice-reminders/settings",
+  requireAuth,
+  checkPermission("invoices", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = invoiceReminderSettingsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const organization = await storage.updateOrganizationSettings(orgId, {
+        invoiceReminderDays: validation.data.days,
+      });
+      res.json({ days: getReminderDays(organization), isDefault: false });
+    } catch (error) {
+      console.error("Update invoice reminder settings error:", error);
+      res.status(500).json({ error: "Failed to update invoice reminder settings" });
+    }
+  },
+);
+
+revenueRoutes.get(
+  "/api/invoices/:id/reminders",
+  requireAuth,
+  checkPermission("invoices", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const invoice = await storage.getInvoice(req.params.id, orgId);
+      if (!invoice) return res.status(404).json({ error: "Invoice not found" });
+      const reminders = await storage.getInvoiceReminders(invoice.id, orgId);
+      res.json(reminders);
+    } catch (error) {
+      console.error("Get invoice reminders error:", error);
+      res.status(500).json({ error: "Failed to fetch invoice reminders" });
+    }
+  },
+);
+
+// ==================== EXCHANGE RATES ====================
+// Rates convert invoice/bill currencies to the organization base currency for reporting.
+
+revenueRoutes.get(
+  "/api/exchange-rates",
+  requireAuth,
+  checkPermission("organizations", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const rates = await storage.getExchangeRates(orgId);
+      res.json(rates);
+    } catch (error) {
+      console.error("Get exchange rates error:", error);
+      res.status(500).json({ error: "Failed to fetch exchange rates" });
+    }
+  },
+);
+
+revenueRoutes.post(
+  "/api/exchange-rates",
+  requireAuth,
+  checkPermission("organizations", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const organization = await storage.getOrganization(orgId);
+      if (!organization) return res.status(404).json({ error: "Organization not found" });
+
+      const validation = insertExchangeRateSchema.safeParse({
+        baseCurrency: organization.currency,
+        ...req.body,
+        organizationId: orgId,
+        source: "manual",
+      });
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      if (validation.data.currency === validation.data.baseCurrency) {
+        return res.status(400).json({ error: "Currency must differ from the base currency" });
+      }
+      const [rate] = await storage.upsertExchangeRates([validation.data]);
+      res.status(201).json(rate);
+    } catch (error) {
+      console.error("Create exchange rate error:", error);
+      res.status(500).json({ error: "Failed to create exchange rate" });
+    }
+  },
+);
+
+revenueRoutes.post(
+  "/api/exchange-rates/import",
+  requireAuth,
+  checkPermission("organizations", "edit"),
+  upload.single("file"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const organization = await storage.getOrganization(orgId);
+      if (!organization) return res.status(404).json({ error: "Organization not found" });
+
+      // Accept either a multipart upload (`file`) or a JSON body with the CSV text (`csv`)
+      const csv = req.file ? req.file.buffer.toString("utf8") : req.body?.csv;
+      if (typeof csv !== "string" || csv.trim() === "") {
+        return res.status(400).json({ error: "CSV file is required" });
+      }
+
+      const { rates, errors } = parseExchangeRateCsv(csv, orgId, organization.currency);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: "Invalid exchange rate CSV", details: errors });
+      }
+      const imported = await storage.upsertExchangeRates(rates);
+      res.status(201).json({ imported: imported.length, rates: imported });
+    } catch (error) {
+      console.error("Import exchange rates error:", error);
+      res.status(500).json({ error: "Failed to import exchange rates" });
+    }
+  },
+);
+
+revenueRoutes.delete(
+  "/api/exchange-rates/:id",
+  requireAuth,
+  checkPermission("organizations", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const deleted = await storage.deleteExchangeRate(req.params.id, orgId);
+      if (!deleted) return res.status(404).json({ error: "Exchange rate not found" });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete exchange rate error:", error);
+      res.status(500).json({ error: "Failed to delete exchange rate" });
+    }
+  },
+);
+
+// ==================== NUMBERING SEQUENCES ====================
+
+revenueRoutes.get(
+  "/api/numbering-sequences",
+  requireAuth,
+  checkPermission("organizations", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const stored = await storage.getNumberingSequences(orgId);
+      res.json(
+        NUMBERED_DOCUMENT_TYPES.map((documentType) =>
+          describeNumberingSequence(
+            withNumberingDefaults(documentType, stored.find((row) => row.documentType === documentType)),
+          ),
+        ),
+      );
+    } catch (error) {
+      console.error("Get numbering sequences error:", error);
+      res.status(500).json({ error: "Failed to fetch numbering sequences" });
+    }
+  },
+);
+
+revenueRoutes.put(
+  "/api/numbering-sequences/:documentType",
+  requireAuth,
+  checkPermission("organizations", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const documentType = req.params.documentType as NumberedDocumentType;
+      if (!NUMBERED_DOCUMENT_TYPES.includes(documentType)) {
+        return res.status(404).json({ error: "Numbering sequence not found" });
+      }
+      const validation = numberingSequenceSettingsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const sequence = await storage.updateNumberingSequence(orgId, documentType, validation.data);
+      res.json(describeNumberingSequence(sequence));
+    } catch (error) {
+      console.error("Update numbering sequence error:", error);
+      res.status(500).json({ error: "Failed to update numbering sequence" });
+    }
+  },
+);
+
+// ==================== TAX RATES ====================
+
+revenueRoutes.get("/api/tax-rates", requireAuth, checkPermission("invoices", "view"), async (req: Request, res: Response) => {
+  try {
     const userId = (req as AuthenticatedRequest).user!.claims.sub;
     const orgId = await getOrCreateOrg(userId);
-    const vendor = await storage.createVendor({ ...req.body, organizationId: orgId });
-    res.status(201).json(vendor);
+    const rates = await storage.getTaxRates(orgId);
+    res.json(rates);
   } catch (error) {
-    console.error("Create vendor error:", error);
-    res.status(500).json({ error: "Failed to create vendor" });
+    console.error("Get tax rates error:", error);
+    res.status(500).json({ error: "Failed to fetch tax rates" });
+  }
+});
+
+revenueRoutes.post(
+  "/api/tax-rates",
+  requireAuth,
+  checkPermission("organizations", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = insertTaxRateSchema.safeParse({ ...req.body, organizationId: orgId });
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const taxRate = await storage.createTaxRate(validation.data);
+      res.status(201).json(taxRate);
+    } catch (error) {
+      console.error("Create tax rate error:", error);
+      res.status(500).json({ error: "Failed to create tax rate" });
+    }
+  },
+);
+
+revenueRoutes.patch(
+  "/api/tax-rates/:id",
+  requireAuth,
+  checkPermission("organizations", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = updateTaxRateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const taxRate = await storage.updateTaxRate(req.params.id, orgId, validation.data);
+      if (!taxRate) return res.status(404).json({ error: "Tax rate not found" });
+      res.json(taxRate);
+    } catch (error) {
+      console.error("Update tax rate error:", error);
+      res.status(500).json({ error: "Failed to update tax rate" });
+    }
+  },
+);
+
+revenueRoutes.delete(
+  "/api/tax-rates/:id",
+  requireAuth,
+  checkPermission("organizations", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const rates = await storage.getTaxRates(orgId);
+      if (!rates.some((rate) => rate.id === req.params.id)) {
+        return res.status(404).json({ error: "Tax rate not found" });
+      }
+      const deleted = await storage.deleteTaxRate(req.params.id, orgId);
+      if (!deleted) {
+        return res.status(409).json({ error: "This tax rate is used on invoices; deactivate it instead" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete tax rate error:", error);
+      res.status(500).json({ error: "Failed to delete tax rate" });
+    }
+  },
+);
+
+// ==================== BILLS ====================
+
+revenueRoutes.get("/api/bills", requireAuth, checkPermission("bills", "view"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.claims.sub;
+    const orgId = await getOrCreateOrg(userId);
+    const bills = await storage.getBills(orgId);
+    res.json(bills);
+  } catch (error) {
+    console.error("Get bills error:", error);
+    res.status(500).json({ error: "Failed to fetch bills" });
+  }
+});
+
+revenueRoutes.post("/api/bills", requireAuth, checkPermission("bills", "create"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.claims.sub;
+    const orgId = await getOrCreateOrg(userId);
+    const { currency, error } = await resolveDocumentCurrency(orgId, req.body.currency);
+    if (error) {
+      return res.status(400).json({ error: "Validation failed", details: formatZodErrors(error) });
+    }
+    // Status and approval come from the approval workflow, not the request
+    const {
+      billNumber: _billNumber,
+      status: _status,
+      approvedById: _approvedById,
+      approvedAt: _approvedAt,
+      ...data
+    } = req.body;
+    const approvalSteps = await resolveBillApprovalChain(orgId, { ...data, currency });
+    const bill = await storage.createBill(
+      {
+        ...data,
+        currency,
+        organizationId: orgId,
+        createdById: userId,
+      },
+      approvalSteps,
+    );
+    res.status(201).json(bill);
+  } catch (error) {
+    console.error("Create bill error:", error);
+    res.status(500).json({ error: "Failed to create bill" });
+  }
+});
+
+revenueRoutes.patch("/api/bills/:id", requireAuth, checkPermission("bills", "edit"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.claims.sub;
+    const orgId = await getOrCreateOrg(userId);
+    const { billNumber: _billNumber, approvedById: _approvedById, approvedAt: _approvedAt, ...updates } = req.body;
+    const existing = await storage.getBill(req.params.id, orgId);
+    if (!existing) return res.status(404).json({ error: "Bill not found" });
+    const plan = planBillEdit(existing, updates);
+    if (plan.action === "refuse") {
+      return res.status(plan.status).json({ error: plan.error });
+    }
+    if (plan.action === "resubmit") {
+      const approvalSteps = await resolveBillApprovalChain(orgId, { ...existing, ...updates });
+      const bill = await storage.resubmitBill(req.params.id, orgId, updates, approvalSteps);
+      if (!bill) return res.status(404).json({ error: "Bill not found" });
+      return res.json(bill);
+    }
+
+    const bill = await storage.updateBill(req.params.id, orgId, updates);
+    if (!bill) return res.status(404).json({ error: "Bill not found" });
+    res.json(bill);
+  } catch (error) {
+    console.error("Update bill error:", error);
+    res.status(500).json({ error: "Failed to update bill" });
   }
 });
+
+revenueRoutes.get(
+  "/api/bills/:id/approvals",
+  requireAuth,
+  checkPermission("bills", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const bill = await storage.getBill(req.params.id, orgId);
+      if (!bill) return res.status(404).json({ error: "Bill not found" });
+      const steps = await storage.getBillApprovalSteps(bill.id, orgId);
+      const current = bill.status === "pending" ? getCurrentApprovalStep(steps) : undefined;
+      res.json({ steps, currentStepId: current?.id ?? null });
+    } catch (error) {
+      console.error("Get bill approvals error:", error);
+      res.status(500).json({ error: "Failed to fetch bill approvals" });
+    }
+  },
+);
+
+revenueRoutes.post(
+  "/api/bills/:id/approve",
+  requireAuth,
+  checkPermission("bills", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      await decideBillRequest(req, res, "approved");
+    } catch (error) {
+      console.error("Approve bill error:", error);
+      res.status(500).json({ error: "Failed to approve bill" });
+    }
+  },
+);
+
+revenueRoutes.post(
+  "/api/bills/:id/reject",
+  requireAuth,
+  checkPermission("bills", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      await decideBillRequest(req, res, "rejected");
+    } catch (error) {
+      console.error("Reject bill error:", error);
+      res.status(500).json({ error: "Failed to reject bill" });
+    }
+  },
+);
+
+revenueRoutes.post(
+  "/api/bills/:id/mark-paid",
+  requireAuth,
+  checkPermission("bills", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const existing = await storage.getBill(req.params.id, orgId);
+      if (!existing) return res.status(404).json({ error: "Bill not found" });
+      if (existing.status !== "approved") {
+        return res.status(409).json({ error: "Bills must complete approval before they are paid" });
+      }
+      const bill = await storage.updateBill(req.params.id, orgId, {
+        status: "paid",
+        paidAt: new Date(),
+      });
+      if (!bill) return res.status(404).json({ error: "Bill not found" });
+      res.json(bill);
+    } catch (error) {
+      console.error("Mark bill paid error:", error);
+      res.status(500).json({ error: "Failed to mark bill as paid" });
+    }
+  },
+);
+
+revenueRoutes.delete(
+  "/api/bills/:id",
+  requireAuth,
+  checkPermission("bills", "delete"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const existing = await storage.getBill(req.params.id, orgId);
+      if (!existing) return res.status(404).json({ error: "Bill not found" });
+      // Bills are numbered on creation and numbering must stay gapless, so a deleted bill
+      // is kept as cancelled rather than removed
+      if (existing.status !== "pending" && existing.status !== "rejected") {
+        return res.status(409).json({ error: "Only pending or rejected bills can be deleted" });
+      }
+      const bill = await storage.updateBill(existing.id, orgId, { status: "cancelled" });
+      if (!bill) return res.status(404).json({ error: "Bill not found" });
+      res.json(bill);
+    } catch (error) {
+      console.error("Delete bill error:", error);
+      res.status(500).json({ error: "Failed to delete bill" });
+    }
+  },
+);
+
+// ==================== BILL APPROVAL POLICIES ====================
+
+revenueRoutes.get(
+  "/api/bill-approval-policies",
+  requireAuth,
+  checkPermission("organizations", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const policies = await storage.getBillApprovalPolicies(orgId);
+      res.json(policies);
+    } catch (error) {
+      console.error("Get bill approval policies error:", error);
+      res.status(500).json({ error: "Failed to fetch bill approval policies" });
+    }
+  },
+);
+
+revenueRoutes.post(
+  "/api/bill-approval-policies",
+  requireAuth,
+  checkPermission("organizations", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = insertBillApprovalPolicySchema.safeParse({ ...req.body, organizationId: orgId });
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const policy = await storage.createBillApprovalPolicy(validation.data);
+      res.status(201).json(policy);
+    } catch (error) {
+      console.error("Create bill approval policy error:", error);
+      res.status(500).json({ error: "Failed to create bill approval policy" });
+    }
+  },
+);
+
+revenueRoutes.patch(
+  "/api/bill-approval-policies/:id",
+  requireAuth,
+  checkPermission("organizations", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = updateBillApprovalPolicySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      // Policies apply to bills created or resubmitted afterwards; existing chains are kept
+      const policy = await storage.updateBillApprovalPolicy(req.params.id, orgId, validation.data);
+      if (!policy) return res.status(404).json({ error: "Bill approval policy not found" });
+      res.json(policy);
+    } catch (error) {
+      console.error("Update bill approval policy error:", error);
+      res.status(500).json({ error: "Failed to update bill approval policy" });
+    }
+  },
+);
+
+revenueRoutes.delete(
+  "/api/bill-approval-policies/:id",
+  requireAuth,
+  checkPermission("organizations", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const deleted = await storage.deleteBillApprovalPolicy(req.params.id, orgId);
+      if (!deleted) return res.status(404).json({ error: "Bill approval policy not found" });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete bill approval policy error:", error);
+      res.status(500).json({ error: "Failed to delete bill approval policy" });
+    }
+  },
+);
+
+// ==================== VENDORS ====================
+
+revenueRoutes.get("/api/vendors", requireAuth, checkPermission("vendors", "view"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.claims.sub;
+    const orgId = await getOrCreateOrg(userId);
+    const vendors = await storage.getVendors(orgId);
+    res.json(vendors);
+  } catch (error) {
+    console.error("Get vendors error:", error);
+    res.status(500).json({ error: "Failed to fetch vendors" });
+  }
+});
+
+revenueRoutes.post("/api/vendors", requireAuth, checkPermission("vendors", "create"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.claims.sub;
+    const orgId = await getOrCreateOrg(userId);
+    const validation = insertVendorSchema.safeParse({ ...req.body, organizationId: orgId });
+    if (!validation.success) {
+      return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+    }
+    const vendor = await storage.createVendor(validation.data);
+    res.status(201).json(vendor);
+  } catch (error) {
+    console.error("Create vendor error:", error);
+    res.status(500).json({ error: "Failed to create vendor" });
+  }
+});
+
+const contractorPaymentsQuerySchema = z.object({
+  // Defaults to the last full calendar year, which is what year-end filing needs
+  year: z.coerce.number().int().min(2000).max(2100).default(() => new Date().getFullYear() - 1),
+  format: z.enum(["json", "csv"]).default("json"),
+});
+
+// Registered before /api/vendors/:id so "contractor-payments" is not taken for an id
+revenueRoutes.get(
+  "/api/vendors/contractor-payments",
+  requireAuth,
+  checkPermission("vendors", "export"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = contractorPaymentsQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const { year, format } = validation.data;
+      const [vendors, bills, organization, rates] = await Promise.all([
+        storage.getVendors(orgId),
+        storage.getBills(orgId),
+        storage.getOrganization(orgId),
+        storage.getExchangeRates(orgId),
+      ]);
+      const currency = organization?.currency ?? "USD";
+      const summary = buildContractorPaymentSummary(vendors, bills, year, currency, rates);
+
+      if (format === "csv") {
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="contractor-payments-${year}.csv"`);
+        return res.send(toCsv([CONTRACTOR_PAYMENT_CSV_HEADER, ...summary.rows.map(contractorPaymentCsvRow)]));
+      }
+      res.json({ year, currency, ...summary });
+    } catch (error) {
+      console.error("Contractor payment summary error:", error);
+      res.status(500).json({ error: "Failed to build contractor payment summary" });
+    }
+  },
+);
+
+revenueRoutes.get("/api/vendors/:id", requireAuth, checkPermission("vendors", "view"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.claims.sub;
+    const orgId = await getOrCreateOrg(userId);
+    const vendor = await storage.getVendor(req.params.id, orgId);
+    if (!vendor) return res.status(404).json({ error: "Vendor not found" });
+    const bills = await storage.getVendorBills(vendor.id, orgId);
+    res.json({ ...vendor, bills });
+  } catch (error) {
+    console.error("Get vendor error:", error);
+    res.status(500).json({ error: "Failed to fetch vendor" });
+  }
+});
+
+const vendorSpendQuerySchema = z.object({
+  period: z.enum(VENDOR_SPEND_PERIODS).default("month"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+revenueRoutes.get(
+  "/api/vendors/:id/spend",
+  requireAuth,
+  checkPermission("vendors", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = vendorSpendQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const vendor = await storage.getVendor(req.params.id, orgId);
+      if (!vendor) return res.status(404).json({ error: "Vendor not found" });
+      const [bills, organization, rates] = await Promise.all([
+        storage.getVendorBills(vendor.id, orgId),
+        storage.getOrganization(orgId),
+        storage.getExchangeRates(orgId),
+      ]);
+      res.json(
+        summarizeVendorSpend(bills, {
+          ...validation.data,
+          baseCurrency: organization?.currency ?? "USD",
+          rates,
+        }),
+      );
+    } catch (error) {
+      console.error("Get vendor spend error:", error);
+      res.status(500).json({ error: "Failed to fetch vendor spend" });
+    }
+  },
+);
+
+revenueRoutes.patch("/api/vendors/:id", requireAuth, checkPermission("vendors", "edit"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.claims.sub;
+    const orgId = await getOrCreateOrg(userId);
+    const validation = updateVendorSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+    }
+    const vendor = await storage.updateVendor(req.params.id, orgId, validation.data);
+    if (!vendor) return res.status(404).json({ error: "Vendor not found" });
+    res.json(vendor);
+  } catch (error) {
+    console.error("Update vendor error:", error);
+    res.status(500).json({ error: "Failed to update vendor" });
+  }
+});
+
+revenueRoutes.delete(
+  "/api/vendors/:id",
+  requireAuth,
+  checkPermission("vendors", "delete"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const vendor = await storage.getVendor(req.params.id, orgId);
+      if (!vendor) return res.status(404).json({ error: "Vendor not found" });
+      // Deleting would unlink the vendor's bills and drop them from spend and contractor reports
+      const bills = await storage.getVendorBills(vendor.id, orgId);
+      if (bills.length > 0) {
+        return res.status(409).json({ error: "Vendors with bills cannot be deleted" });
+      }
+      const deleted = await storage.deleteVendor(vendor.id, orgId);
+      if (!deleted) return res.status(404).json({ error: "Vendor not found" });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete vendor error:", error);
+      res.status(500).json({ error: "Failed to delete vendor" });
+    }
+  },
+);
+
+// ==================== TIME BILLING ====================
+
+/** Approved, billable time on an engagement that is not on an invoice yet, priced as line items. */
+async function getUnbilledTime(orgId: string, engagementId: string, defaultRate?: number) {
+  const [entries, projects, tasks] = await Promise.all([
+    storage.getTimeEntries(orgId, { engagementId, status: "approved" }),
+    storage.getProjects(orgId),
+    storage.getTasks(orgId),
+  ]);
+  const unbilled = entries.filter((entry) => entry.billable && !entry.invoiceId);
+  return { entries: unbilled, ...buildTimeLineItems(unbilled, { projects, tasks }, defaultRate) };
+}
+
+revenueRoutes.get(
+  "/api/engagements/:id/unbilled-time",
+  requireAuth,
+  checkPermission("invoices", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const engagement = await storage.getEngagement(req.params.id, orgId);
+      if (!engagement) return res.status(404).json({ error: "Engagement not found" });
+      const unbilled = await getUnbilledTime(orgId, engagement.id);
+      res.json({
+        ...unbilled,
+        totalMinutes: unbilled.entries.reduce((sum, entry) => sum + entry.durationMinutes, 0),
+      });
+    } catch (error) {
+      console.error("Get unbilled time error:", error);
+      res.status(500).json({ error: "Failed to fetch unbilled time" });
+    }
+  },
+);
+
+revenueRoutes.post(
+  "/api/engagements/:id/invoice-from-time",
+  requireAuth,
+  checkPermission("invoices", "create"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = invoiceFromTimeSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const engagement = await storage.getEngagement(req.params.id, orgId);
+      if (!engagement) return res.status(404).json({ error: "Engagement not found" });
+
+      const { entries, lineItems, missingRate } = await getUnbilledTime(orgId, engagement.id, validation.data.hourlyRate);
+      if (entries.length === 0) {
+        return res.status(409).json({ error: "This engagement has no approved, unbilled time" });
+      }
+      if (missingRate.length > 0) {
+        return res.status(400).json({ error: "Some time entries have no hourly rate; provide hourlyRate", details: missingRate });
+      }
+      const { currency } = await resolveDocumentCurrency(orgId, undefined);
+      const invoice = await storage.createInvoiceFromTimeEntries(
+        entries.map((entry) => entry.id),
+        {
+          ...computeInvoiceTotals(invoiceLineItemsSchema.parse(lineItems), []),
+          organizationId: orgId,
+          engagementId: engagement.id,
+          clientCompanyId: engagement.clientCompanyId,
+          currency,
+          dueDate: validation.data.dueDate ?? null,
+          notes: validation.data.notes ?? null,
+        },
+      );
+      if (!invoice) return res.status(409).json({ error: "Some of this time was billed or changed meanwhile; try again" });
+      res.status(201).json(invoice);
+    } catch (error) {
+      console.error("Create invoice from time error:", error);
+      res.status(500).json({ error: "Failed to create invoice from time" });
+    }
+  },
+);
+
+// ==================== EXPENSES ====================
+
+const expensesQuerySchema = z.object({
+  userId: z.string().optional(),
+  engagementId: z.string().optional(),
+  status: z.enum(EXPENSE_STATUSES).optional(),
+});
+
+const expenseLockedError = { error: "Submitted, approved and invoiced expenses cannot be changed" };
+
+async function getUserName(userId: string) {
+  const user = await storage.getUser(userId);
+  return [user?.firstName, user?.lastName].filter(Boolean).join(" ") || user?.email || userId;
+}
+
+/** Load an expense the current user may change, or send the error response and return undefined. */
+async function loadOwnEditableExpense(req: Request, res: Response, orgId: string): Promise<Expense | undefined> {
+  const userId = (req as AuthenticatedRequest).user!.claims.sub;
+  const expense = await storage.getExpense(req.params.id, orgId);
+  if (!expense) {
+    res.status(404).json({ error: "Expense not found" });
+    return undefined;
+  }
+  if (expense.userId !== userId) {
+    res.status(403).json({ error: "You can only change your own expenses" });
+    return undefined;
+  }
+  if (!isExpenseEditable(expense)) {
+    res.status(409).json(expenseLockedError);
+    return undefined;
+  }
+  return expense;
+}
+
+/** Approve or reject one submitted expense. */
+async function reviewExpenseRequest(req: Request, res: Response, decision: "approved" | "rejected") {
+  const reviewerId = (req as AuthenticatedRequest).user!.claims.sub;
+  const orgId = await getOrCreateOrg(reviewerId);
+  const validation = reviewExpenseSchema.safeParse(req.body ?? {});
+  if (!validation.success) {
+    return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+  }
+  const existing = await storage.getExpense(req.params.id, orgId);
+  if (!existing) return res.status(404).json({ error: "Expense not found" });
+  const role = await storage.getOrganizationMemberRole(orgId, reviewerId);
+  const denial = getExpenseReviewDenial(reviewerId, existing.userId, role);
+  if (denial) return res.status(403).json({ error: denial });
+
+  const expense = await storage.reviewExpense({
+    id: existing.id,
+    orgId,
+    decision,
+    reviewedById: reviewerId,
+    note: validation.data.note,
+  });
+  if (!expense) return res.status(409).json({ error: "Only submitted expenses can be reviewed" });
+  res.json(expense);
+}
+
+revenueRoutes.get("/api/expenses", requireAuth, checkPermission("expenses", "view"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.claims.sub;
+    const orgId = await getOrCreateOrg(userId);
+    const validation = expensesQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+    }
+    // Members see their own expenses; reviewers may look at anyone's
+    const { userId: requestedUserId = userId, ...filters } = validation.data;
+    if (requestedUserId !== userId && !canReviewExpenses(await storage.getOrganizationMemberRole(orgId, userId))) {
+      return res.status(403).json({ error: "Viewing other users' expenses requires the admin role" });
+    }
+    res.json(await storage.getExpenses(orgId, { ...filters, userId: requestedUserId }));
+  } catch (error) {
+    console.error("Get expenses error:", error);
+    res.status(500).json({ error: "Failed to fetch expenses" });
+  }
+});
+
+// Review queue across all employees
+revenueRoutes.get(
+  "/api/expenses/submitted",
+  requireAuth,
+  checkPermission("expenses", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      if (!canReviewExpenses(await storage.getOrganizationMemberRole(orgId, userId))) {
+        return res.status(403).json({ error: "Reviewing expenses requires the admin role" });
+      }
+      const submitted = await storage.getExpenses(orgId, { status: "submitted" });
+      const userNames = new Map<string, string>();
+      for (const expenseUserId of new Set(submitted.map((expense) => expense.userId))) {
+        userNames.set(expenseUserId, await getUserName(expenseUserId));
+      }
+      res.json(submitted.map((expense) => ({ ...expense, userName: userNames.get(expense.userId) })));
+    } catch (error) {
+      console.error("Get submitted expenses error:", error);
+      res.status(500).json({ error: "Failed to fetch submitted expenses" });
+    }
+  },
+);
+
+// What each employee is owed, waiting for and has been paid back, in the base currency
+revenueRoutes.get(
+  "/api/expenses/reimbursements",
+  requireAuth,
+  checkPermission("expenses", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      if (!canReviewExpenses(await storage.getOrganizationMemberRole(orgId, userId))) {
+        return res.status(403).json({ error: "Viewing reimbursements requires the admin role" });
+      }
+      const [allExpenses, organization, rates] = await Promise.all([
+        storage.getExpenses(orgId),
+        storage.getOrganization(orgId),
+        storage.getExchangeRates(orgId),
+      ]);
+      const baseCurrency = organization?.currency ?? "USD";
+      const summaries = summarizeReimbursements(allExpenses, baseCurrency, rates);
+      const employees = await Promise.all(
+        summaries.map(async (summary) => ({ ...summary, userName: await getUserName(summary.userId) })),
+      );
+      res.json({ baseCurrency, employees });
+    } catch (error) {
+      console.error("Get reimbursements error:", error);
+      res.status(500).json({ error: "Failed to fetch reimbursements" });
+    }
+  },
+);
+
+revenueRoutes.post(
+  "/api/expenses/reimburse",
+  requireAuth,
+  checkPermission("expenses", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = reimburseExpensesSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      if (!canReviewExpenses(await storage.getOrganizationMemberRole(orgId, userId))) {
+        return res.status(403).json({ error: "Recording reimbursements requires the admin role" });
+      }
+      const reimbursed = await storage.reimburseExpenses({
+        orgId,
+        expenseIds: validation.data.expenseIds,
+        reimbursedById: userId,
+        reference: validation.data.reference,
+      });
+      if (!reimbursed) {
+        return res.status(409).json({ error: "Only approved, reimbursable expenses that are still owed can be reimbursed" });
+      }
+      res.json(reimbursed);
+    } catch (error) {
+      console.error("Reimburse expenses error:", error);
+      res.status(500).json({ error: "Failed to record reimbursement" });
+    }
+  },
+);
+
+revenueRoutes.post("/api/expenses", requireAuth, checkPermission("expenses", "create"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user!.claims.sub;
+    const orgId = await getOrCreateOrg(userId);
+    const validation = insertExpenseSchema.safeParse({ ...req.body, organizationId: orgId, userId });
+    if (!validation.success) {
+      return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+    }
+    if (validation.data.engagementId && !(await storage.getEngagement(validation.data.engagementId, orgId))) {
+      return res.status(404).json({ error: "Engagement not found" });
+    }
+    const expense = await storage.createExpense(validation.data);
+    res.status(201).json(expense);
+  } catch (error) {
+    console.error("Create expense error:", error);
+    res.status(500).json({ error: "Failed to create expense" });
+  }
+});
+
+revenueRoutes.patch(
+  "/api/expenses/:id",
+  requireAuth,
+  checkPermission("expenses", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = updateExpenseSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const existing = await loadOwnEditableExpense(req, res, orgId);
+      if (!existing) return;
+      if (validation.data.engagementId && !(await storage.getEngagement(validation.data.engagementId, orgId))) {
+        return res.status(404).json({ error: "Engagement not found" });
+      }
+      const expense = await storage.updateExpense(existing.id, orgId, validation.data);
+      if (!expense) return res.status(409).json(expenseLockedError);
+      res.json(expense);
+    } catch (error) {
+      console.error("Update expense error:", error);
+      res.status(500).json({ error: "Failed to update expense" });
+    }
+  },
+);
+
+revenueRoutes.delete(
+  "/api/expenses/:id",
+  requireAuth,
+  checkPermission("expenses", "delete"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const existing = await loadOwnEditableExpense(req, res, orgId);
+      if (!existing) return;
+      const success = await storage.deleteExpense(existing.id, orgId);
+      if (!success) return res.status(409).json(expenseLockedError);
+      if (existing.receiptFileId) {
+        await fileStorageService.deleteFile(existing.receiptFileId, orgId).catch(() => undefined);
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete expense error:", error);
+      res.status(500).json({ error: "Failed to delete expense" });
+    }
+  },
+);
+
+revenueRoutes.post(
+  "/api/expenses/:id/receipt",
+  requireAuth,
+  checkPermission("expenses", "edit"),
+  receiptUpload.single("file"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      if (!req.file) return res.status(400).json({ error: "Receipt file is required" });
+      const existing = await loadOwnEditableExpense(req, res, orgId);
+      if (!existing) return;
+
+      const { originalname, mimetype, size, buffer } = req.file;
+      const fileValidation = validateFile(originalname, mimetype, size, "receipt");
+      if (!fileValidation.isValid) return res.status(400).json({ error: fileValidation.error });
+      if (!validateFileSignature(buffer, mimetype)) {
+        return res.status(400).json({ error: "File contents do not match its type" });
+      }
+
+      const uploaded = await fileStorageService.uploadFile(buffer, originalname, mimetype, {
+        category: "receipt",
+        organizationId: orgId,
+        userId,
+        optimize: false,
+      });
+      if (!uploaded.fileObjectId) throw new Error("Receipt metadata was not stored");
+      const expense = await storage.updateExpense(existing.id, orgId, { receiptFileId: uploaded.fileObjectId });
+      if (!expense) {
+        await fileStorageService.deleteFile(uploaded.fileObjectId, orgId).catch(() => undefined);
+        return res.status(409).json(expenseLockedError);
+      }
+      // The replaced receipt is no longer referenced
+      if (existing.receiptFileId) {
+        await fileStorageService.deleteFile(existing.receiptFileId, orgId).catch(() => undefined);
+      }
+      res.json(expense);
+    } catch (error) {
+      console.error("Upload receipt error:", error);
+      res.status(500).json({ error: "Failed to upload receipt" });
+    }
+  },
+);
+
+revenueRoutes.get(
+  "/api/expenses/:id/receipt",
+  requireAuth,
+  checkPermission("expenses", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const expense = await storage.getExpense(req.params.id, orgId);
+      if (!expense) return res.status(404).json({ error: "Expense not found" });
+      if (expense.userId !== userId && !canReviewExpenses(await storage.getOrganizationMemberRole(orgId, userId))) {
+        return res.status(403).json({ error: "Viewing other users' expenses requires the admin role" });
+      }
+      const file = expense.receiptFileId ? await storage.getFileObject(expense.receiptFileId, orgId) : undefined;
+      if (!file) return res.status(404).json({ error: "Receipt not found" });
+      res.download(file.path, file.originalName);
+    } catch (error) {
+      console.error("Download receipt error:", error);
+      res.status(500).json({ error: "Failed to download receipt" });
+    }
+  },
+);
+
+revenueRoutes.post(
+  "/api/expenses/:id/submit",
+  requireAuth,
+  checkPermission("expenses", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const existing = await loadOwnEditableExpense(req, res, orgId);
+      if (!existing) return;
+      const expense = await storage.submitExpense(existing.id, orgId);
+      if (!expense) return res.status(409).json(expenseLockedError);
+      res.json(expense);
+    } catch (error) {
+      console.error("Submit expense error:", error);
+      res.status(500).json({ error: "Failed to submit expense" });
+    }
+  },
+);
+
+revenueRoutes.post(
+  "/api/expenses/:id/approve",
+  requireAuth,
+  checkPermission("expenses", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      await reviewExpenseRequest(req, res, "approved");
+    } catch (error) {
+      console.error("Approve expense error:", error);
+      res.status(500).json({ error: "Failed to approve expense" });
+    }
+  },
+);
+
+revenueRoutes.post(
+  "/api/expenses/:id/reject",
+  requireAuth,
+  checkPermission("expenses", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      await reviewExpenseRequest(req, res, "rejected");
+    } catch (error) {
+      console.error("Reject expense error:", error);
+      res.status(500).json({ error: "Failed to reject expense" });
+    }
+  },
+);
+
+// ==================== EXPENSE BILLING ====================
+
+const unbilledExpensesQuerySchema = z.object({
+  markupPercent: z.coerce.number().min(0).max(1000).default(0),
+});
+
+/** Approved, billable expenses on an engagement that are not on an invoice yet, priced as line items. */
+async function getUnbilledExpenses(orgId: string, engagementId: string, markupPercent: number) {
+  const [approved, organization, rates] = await Promise.all([
+    storage.getExpenses(orgId, { engagementId, status: "approved" }),
+    storage.getOrganization(orgId),
+    storage.getExchangeRates(orgId),
+  ]);
+  const baseCurrency = organization?.currency ?? "USD";
+  const unbilled = approved.filter((expense) => expense.billable && !expense.invoiceId);
+  return {
+    expenses: unbilled,
+    baseCurrency,
+    ...buildExpenseLineItems(unbilled, { markupPercent, baseCurrency, rates }),
+  };
+}
+
+revenueRoutes.get(
+  "/api/engagements/:id/unbilled-expenses",
+  requireAuth,
+  checkPermission("invoices", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = unbilledExpensesQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const engagement = await storage.getEngagement(req.params.id, orgId);
+      if (!engagement) return res.status(404).json({ error: "Engagement not found" });
+      res.json(await getUnbilledExpenses(orgId, engagement.id, validation.data.markupPercent));
+    } catch (error) {
+      console.error("Get unbilled expenses error:", error);
+      res.status(500).json({ error: "Failed to fetch unbilled expenses" });
+    }
+  },
+);
+
+revenueRoutes.post(
+  "/api/engagements/:id/invoice-from-expenses",
+  requireAuth,
+  checkPermission("invoices", "create"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = invoiceFromExpensesSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const engagement = await storage.getEngagement(req.params.id, orgId);
+      if (!engagement) return res.status(404).json({ error: "Engagement not found" });
+
+      const { expenses, lineItems, unconverted, baseCurrency } = await getUnbilledExpenses(
+        orgId,
+        engagement.id,
+        validation.data.markupPercent,
+      );
+      if (expenses.length === 0) {
+        return res.status(409).json({ error: "This engagement has no approved, unbilled expenses" });
+      }
+      if (unconverted.length > 0) {
+        return res.status(400).json({
+          error: `Some expenses have no exchange rate to ${baseCurrency} for their date; add the rates first`,
+          details: unconverted,
+        });
+      }
+      const invoice = await storage.createInvoiceFromExpenses(
+        expenses.map((expense) => expense.id),
+        {
+          ...computeInvoiceTotals(invoiceLineItemsSchema.parse(lineItems), []),
+          organizationId: orgId,
+          engagementId: engagement.id,
+          clientCompanyId: engagement.clientCompanyId,
+          currency: baseCurrency,
+          dueDate: validation.data.dueDate ?? null,
+          notes: validation.data.notes ?? null,
+        },
+      );
+      if (!invoice) {
+        return res.status(409).json({ error: "Some of these expenses were billed or changed meanwhile; try again" });
+      }
+      res.status(201).json(invoice);
+    } catch (error) {
+      console.error("Create invoice from expenses error:", error);
+      res.status(500).json({ error: "Failed to create invoice from expenses" });
+    }
+  },
+);
+
+// ==================== BANK RECONCILIATION ====================
+
+const bankTransactionsQuerySchema = z.object({
+  status: z.enum(BANK_TRANSACTION_STATUSES).optional(),
+});
+
+revenueRoutes.get(
+  "/api/bank-transactions",
+  requireAuth,
+  checkPermission("invoices", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = bankTransactionsQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      res.json(await storage.getBankTransactions(orgId, validation.data.status));
+    } catch (error) {
+      console.error("Get bank transactions error:", error);
+      res.status(500).json({ error: "Failed to fetch bank transactions" });
+    }
+  },
+);
+
+revenueRoutes.post(
+  "/api/bank-transactions/import",
+  requireAuth,
+  checkPermission("invoices", "edit"),
+  upload.single("file"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const organization = await storage.getOrganization(orgId);
+      if (!organization) return res.status(404).json({ error: "Organization not found" });
+
+      // Accept either a multipart upload (`file`) or a JSON body with the statement text (`statement`)
+      const text = req.file ? req.file.buffer.toString("utf8") : req.body?.statement;
+      if (typeof text !== "string" || text.trim() === "") {
+        return res.status(400).json({ error: "Statement file is required" });
+      }
+
+      const { transactions, currency: statementCurrency, errors } = parseBankStatement(
+        text,
+        detectStatementFormat(text, req.file?.originalname),
+      );
+      if (errors.length > 0) {
+        return res.status(400).json({ error: "Invalid bank statement", details: errors });
+      }
+      // CSV statements don't declare a currency; the account currency can be sent alongside
+      const currency = statementCurrency ?? req.body?.currency ?? organization.currency;
+      if (!currencyCodeSchema.safeParse(currency).success) {
+        return res.status(400).json({ error: `Invalid currency "${currency}"` });
+      }
+
+      const imported = await storage.importBankTransactions(
+        transactions.map((transaction) => ({
+          ...transaction,
+          organizationId: orgId,
+          currency,
+          sourceFile: req.file?.originalname.slice(0, 255) ?? null,
+          importedById: userId,
+        })),
+      );
+      res.status(201).json({
+        imported: imported.length,
+        skipped: transactions.length - imported.length,
+        transactions: imported,
+      });
+    } catch (error) {
+      console.error("Import bank statement error:", error);
+      res.status(500).json({ error: "Failed to import bank statement" });
+    }
+  },
+);
+
+revenueRoutes.get(
+  "/api/bank-transactions/:id/suggestions",
+  requireAuth,
+  checkPermission("invoices", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const transaction = await storage.getBankTransaction(req.params.id, orgId);
+      if (!transaction) return res.status(404).json({ error: "Bank transaction not found" });
+      const [invoices, bills, clients, engagements, vendors, organization] = await Promise.all([
+        storage.getInvoices(orgId),
+        storage.getBills(orgId),
+        storage.getClientCompanies(orgId),
+        storage.getEngagements(orgId),
+        storage.getVendors(orgId),
+        storage.getOrganization(orgId),
+      ]);
+      res.json(
+        suggestBankMatches(
+          transaction,
+          { invoices, bills, clients, engagements, vendors },
+          organization?.currency ?? "USD",
+        ),
+      );
+    } catch (error) {
+      console.error("Bank match suggestions error:", error);
+      res.status(500).json({ error: "Failed to suggest matches" });
+    }
+  },
+);
+
+revenueRoutes.post(
+  "/api/bank-transactions/:id/match",
+  requireAuth,
+  checkPermission("invoices", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = bankTransactionMatchSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const match = validation.data;
+      const [transaction, organization] = await Promise.all([
+        storage.getBankTransaction(req.params.id, orgId),
+        storage.getOrganization(orgId),
+      ]);
+      if (!transaction) return res.status(404).json({ error: "Bank transaction not found" });
+      if (transaction.status !== "unmatched") {
+        return res.status(409).json({ error: "Only unmatched transactions can be matched" });
+      }
+      const baseCurrency = organization?.currency ?? "USD";
+      const amountCents = Math.round(Number(transaction.amount) * 100);
+
+      if (match.type === "invoice") {
+        if (amountCents <= 0) return res.status(400).json({ error: "Money out can only be matched to a bill" });
+        const invoice = await storage.getInvoice(match.id, orgId);
+        if (!invoice) return res.status(404).json({ error: "Invoice not found" });
+        if (invoice.status === "cancelled") {
+          return res.status(400).json({ error: "Cannot record a payment on a cancelled invoice" });
+        }
+        if (getDocumentCurrency(invoice, baseCurrency) !== transaction.currency) {
+          return res.status(409).json({ error: "Invoice currency does not match the transaction" });
+        }
+        if (amountCents > getBalanceDueCents(invoice)) {
+          return res.status(400).json({ error: "Payment exceeds the outstanding balance" });
+        }
+      } else {
+        if (amountCents >= 0) return res.status(400).json({ error: "Money in can only be matched to an invoice" });
+        // Matching a bill marks it paid, which the invoices permission alone does not allow
+        if (!(await userHasPermission(userId, "bills", "edit"))) {
+          return res.status(403).json({ error: "Matching bills requires permission to edit bills" });
+        }
+        const bill = await storage.getBill(match.id, orgId);
+        if (!bill) return res.status(404).json({ error: "Bill not found" });
+        if (bill.status !== "approved") {
+          return res.status(409).json({ error: "Bills must complete approval before they are paid" });
+        }
+        if (getDocumentCurrency(bill, baseCurrency) !== transaction.currency) {
+          return res.status(409).json({ error: "Bill currency does not match the transaction" });
+        }
+        if (Math.round(Number(bill.amount) * 100) !== -amountCents) {
+          return res.status(409).json({ error: "Transaction amount does not match the bill" });
+        }
+      }
+
+      const result = await storage.matchBankTransaction({ id: transaction.id, orgId, match, userId });
+      if (!result) return res.status(409).json({ error: "Transaction or document changed; refresh and try again" });
+      res.json(result);
+    } catch (error) {
+      console.error("Match bank transaction error:", error);
+      res.status(500).json({ error: "Failed to match bank transaction" });
+    }
+  },
+);
+
+revenueRoutes.patch(
+  "/api/bank-transactions/:id",
+  requireAuth,
+  checkPermission("invoices", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = updateBankTransactionSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const existing = await storage.getBankTransaction(req.params.id, orgId);
+      if (!existing) return res.status(404).json({ error: "Bank transaction not found" });
+      if (existing.status === "matched") {
+        if (!existing.matchedBillId) {
+          return res.status(409).json({
+            error: "Matched transactions cannot be changed; void the recorded payment to undo an invoice match",
+          });
+        }
+        if (validation.data.status !== "unmatched") {
+          return res.status(409).json({ error: "Unmatch the transaction before ignoring it" });
+        }
+        // Unmatching marks the bill unpaid, which the invoices permission alone does not allow
+        if (!(await userHasPermission(userId, "bills", "edit"))) {
+          return res.status(403).json({ error: "Unmatching bills requires permission to edit bills" });
+        }
+        const result = await storage.unmatchBankBill(existing.id, orgId);
+        if (!result) return res.status(409).json({ error: "Transaction or bill changed; refresh and try again" });
+        return res.json(result.transaction);
+      }
+      const transaction = await storage.updateBankTransactionStatus(existing.id, orgId, validation.data.status);
+      if (!transaction) return res.status(409).json({ error: "Bank transaction is already matched" });
+      res.json(transaction);
+    } catch (error) {
+      console.error("Update bank transaction error:", error);
+      res.status(500).json({ error: "Failed to update bank transaction" });
+    }
+  },
+);
+
+// ==================== GENERAL LEDGER ====================
+
+revenueRoutes.get(
+  "/api/ledger/accounts",
+  requireAuth,
+  checkPermission("invoices", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      res.json(await storage.getLedgerAccounts(orgId));
+    } catch (error) {
+      console.error("Get ledger accounts error:", error);
+      res.status(500).json({ error: "Failed to fetch ledger accounts" });
+    }
+  },
+);
+
+revenueRoutes.post(
+  "/api/ledger/accounts",
+  requireAuth,
+  checkPermission("organizations", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = insertLedgerAccountSchema.safeParse({ ...req.body, organizationId: orgId });
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const accounts = await storage.getLedgerAccounts(orgId);
+      if (accounts.some((account) => account.code === validation.data.code)) {
+        return res.status(409).json({ error: "An account with this code already exists" });
+      }
+      const account = await storage.createLedgerAccount(validation.data);
+      res.status(201).json(account);
+    } catch (error) {
+      console.error("Create ledger account error:", error);
+      res.status(500).json({ error: "Failed to create ledger account" });
+    }
+  },
+);
+
+revenueRoutes.patch(
+  "/api/ledger/accounts/:id",
+  requireAuth,
+  checkPermission("organizations", "edit"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = updateLedgerAccountSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const accounts = await storage.getLedgerAccounts(orgId);
+      const existing = accounts.find((account) => account.id === req.params.id);
+      if (!existing) return res.status(404).json({ error: "Ledger account not found" });
+      const { code, isActive } = validation.data;
+      if (code && accounts.some((account) => account.code === code && account.id !== existing.id)) {
+        return res.status(409).json({ error: "An account with this code already exists" });
+      }
+      // Automatic postings always go to the system accounts
+      if (existing.systemKey && isActive === false) {
+        return res.status(409).json({ error: "System accounts cannot be deactivated" });
+      }
+      const account = await storage.updateLedgerAccount(existing.id, orgId, validation.data);
+      if (!account) return res.status(404).json({ error: "Ledger account not found" });
+      res.json(account);
+    } catch (error) {
+      console.error("Update ledger account error:", error);
+      res.status(500).json({ error: "Failed to update ledger account" });
+    }
+  },
+);
+
+const journalQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+revenueRoutes.get(
+  "/api/ledger/journal",
+  requireAuth,
+  checkPermission("invoices", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = journalQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const { from, to } = validation.data;
+      res.json(await storage.getJournalEntries(orgId, { from, to: to && endOfDay(to) }));
+    } catch (error) {
+      console.error("Get journal entries error:", error);
+      res.status(500).json({ error: "Failed to fetch journal entries" });
+    }
+  },
+);
+
+const journalExportQuerySchema = journalQuerySchema.extend({
+  format: z.enum(["iif", "csv"]).default("csv"),
+});
+
+revenueRoutes.get(
+  "/api/ledger/export",
+  requireAuth,
+  checkPermission("invoices", "export"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = journalExportQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const { from, to, format } = validation.data;
+      const [entries, accounts, organization] = await Promise.all([
+        storage.getJournalEntries(orgId, { from, to: to && endOfDay(to) }),
+        storage.getLedgerAccounts(orgId),
+        storage.getOrganization(orgId),
+      ]);
+
+      const filename = `journal-${new Date().toISOString().slice(0, 10)}.${format}`;
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      if (format === "iif") {
+        res.setHeader("Content-Type", "text/plain; charset=utf-8");
+        return res.send(buildIifExport(entries, accounts));
+      }
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.send(toCsv([JOURNAL_CSV_HEADER, ...journalCsvRows(entries, accounts, organization?.currency ?? "USD")]));
+    } catch (error) {
+      console.error("Journal export error:", error);
+      res.status(500).json({ error: "Failed to export journal" });
+    }
+  },
+);
+
+// ==================== REPORTS ====================
+
+async function loadArAgingReport(orgId: string) {
+  const [invoices, clients, engagements, organization, rates] = await Promise.all([
+    storage.getInvoices(orgId),
+    storage.getClientCompanies(orgId),
+    storage.getEngagements(orgId),
+    storage.getOrganization(orgId),
+    storage.getExchangeRates(orgId),
+  ]);
+  return buildArAgingReport(invoices, {
+    clients,
+    engagements,
+    baseCurrency: organization?.currency ?? "USD",
+    rates,
+  });
+}
+
+revenueRoutes.get(
+  "/api/reports/ar-aging",
+  requireAuth,
+  checkPermission("invoices", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      res.json(await loadArAgingReport(orgId));
+    } catch (error) {
+      console.error("AR aging report error:", error);
+      res.status(500).json({ error: "Failed to build AR aging report" });
+    }
+  },
+);
+
+revenueRoutes.get(
+  "/api/reports/ar-aging/export",
+  requireAuth,
+  checkPermission("invoices", "export"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const report = await loadArAgingReport(orgId);
+      const filename = `ar-aging-${report.asOf.toISOString().slice(0, 10)}.csv`;
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(toCsv(arAgingCsvRows(report)));
+    } catch (error) {
+      console.error("AR aging export error:", error);
+      res.status(500).json({ error: "Failed to export AR aging report" });
+    }
+  },
+);
+
+async function loadProfitabilityInputs(orgId: string) {
+  const [invoices, bills, expenses, clients, organization, rates] = await Promise.all([
+    storage.getInvoices(orgId),
+    storage.getBills(orgId),
+    storage.getExpenses(orgId),
+    storage.getClientCompanies(orgId),
+    storage.getOrganization(orgId),
+    storage.getExchangeRates(orgId),
+  ]);
+  return {
+    documents: { invoices, bills, expenses },
+    context: { baseCurrency: organization?.currency ?? "USD", rates, clients },
+  };
+}
+
+revenueRoutes.get(
+  "/api/reports/engagement-profitability",
+  requireAuth,
+  checkPermission("invoices", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const [engagements, { documents, context }] = await Promise.all([
+        storage.getEngagements(orgId),
+        loadProfitabilityInputs(orgId),
+      ]);
+      res.json(buildProfitabilityReport(engagements, documents, context));
+    } catch (error) {
+      console.error("Engagement profitability report error:", error);
+      res.status(500).json({ error: "Failed to build profitability report" });
+    }
+  },
+);
+
+revenueRoutes.get(
+  "/api/engagements/:id/profitability",
+  requireAuth,
+  checkPermission("invoices", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const engagement = await storage.getEngagement(req.params.id, orgId);
+      if (!engagement) return res.status(404).json({ error: "Engagement not found" });
+
+      const { documents, context } = await loadProfitabilityInputs(orgId);
+      const engagementInvoices = documents.invoices.filter((invoice) => invoice.engagementId === engagement.id);
+      const ledgers = await Promise.all(
+        engagementInvoices.map((invoice) =>
+          Promise.all([storage.getInvoicePayments(invoice.id, orgId), storage.getInvoiceRefunds(invoice.id, orgId)]),
+        ),
+      );
+      const payments = ledgers.flatMap(([invoicePayments]) => invoicePayments);
+      const refunds = ledgers.flatMap(([, invoiceRefunds]) => invoiceRefunds);
+
+      res.json({
+        currency: context.baseCurrency,
+        ...summarizeEngagementProfitability(engagement, documents, context),
+        months: buildProfitabilityTimeline(engagement.id, { ...documents, payments, refunds }, context),
+      });
+    } catch (error) {
+      console.error("Engagement profitability error:", error);
+      res.status(500).json({ error: "Failed to build engagement profitability" });
+    }
+  },
+);
+
+const trialBalanceQuerySchema = z.object({
+  asOf: z.coerce.date().optional(),
+  currency: currencyCodeSchema.optional(),
+});
+
+// Entries are kept in their document currency, so the trial balance is per currency
+revenueRoutes.get(
+  "/api/reports/trial-balance",
+  requireAuth,
+  checkPermission("invoices", "view"),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as AuthenticatedRequest).user!.claims.sub;
+      const orgId = await getOrCreateOrg(userId);
+      const validation = trialBalanceQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Validation failed", details: formatZodErrors(validation.error) });
+      }
+      const asOf = validation.data.asOf ?? new Date();
+      const [entries, accounts, organization] = await Promise.all([
+        storage.getJournalEntries(orgId, { to: endOfDay(asOf) }),
+        storage.getLedgerAccounts(orgId),
+        storage.getOrganization(orgId),
+      ]);
+      const baseCurrency = organization?.currency ?? "USD";
+      const currency = validation.data.currency ?? baseCurrency;
+      const currencies = Array.from(new Set([baseCurrency, ...entries.map((entry) => getDocumentCurrency(entry, baseCurrency))]));
+      const lines = entries
+        .filter((entry) => getDocumentCurrency(entry, baseCurrency) === currency)
+        .flatMap((entry) => entry.lines);
+      res.json({ asOf, currency, currencies, ...buildTrialBalance(accounts, lines) });
+    } catch (error) {
+      console.error("Trial balance error:", error);
+      res.status(500).json({ error: "Failed to build trial balance" });
+    }
+  },
+);
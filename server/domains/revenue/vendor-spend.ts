@@ -0,0 +1,178 @@
+import { format } from "date-fns";
+import type { Bill, ExchangeRate, Vendor, VendorSpendPeriod } from "@shared/schema";
+import { convertToBaseCurrency, getDocumentCurrency } from "./currency";
+
+/**
+ * Vendor spend analytics
+ *
+ * Spend is cash paid out: bills with status `paid`, dated by `paidAt`. Approved and
+ * pending bills are reported separately as `outstanding`. Amounts are converted to the
+ * organization base currency at the rate on the payment date; bills without a rate are
+ * left out of the totals and counted in `unconverted`.
+ */
+
+type SpendBill = Pick<Bill, "amount" | "currency" | "status" | "engagementId" | "paidAt" | "createdAt">;
+type RateLookup = Pick<ExchangeRate, "currency" | "baseCurrency" | "rate" | "effectiveDate">;
+
+// Filers must report contractors paid at least this much in a calendar year (1099-NEC)
+export const CONTRACTOR_REPORTING_THRESHOLD = 600;
+
+export interface VendorSpendSummary {
+  currency: string;
+  total: number;
+  outstanding: number;
+  byPeriod: { period: string; total: number }[];
+  byEngagement: { engagementId: string | null; total: number }[];
+  unconverted: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export function getSpendPeriodKey(date: Date, period: VendorSpendPeriod): string {
+  if (period === "year") return format(date, "yyyy");
+  if (period === "quarter") return format(date, "yyyy-'Q'Q");
+  return format(date, "yyyy-MM");
+}
+
+/** Spend totals for a set of bills, grouped by period and by engagement. */
+export function summarizeVendorSpend(
+  bills: SpendBill[],
+  options: { baseCurrency: string; rates: RateLookup[]; period: VendorSpendPeriod; from?: Date; to?: Date },
+): VendorSpendSummary {
+  const { baseCurrency, rates, period, from, to } = options;
+  const byPeriod = new Map<string, number>();
+  const byEngagement = new Map<string | null, number>();
+  let total = 0;
+  let outstanding = 0;
+  let unconverted = 0;
+
+  for (const bill of bills) {
+    const open = bill.status === "pending" || bill.status === "approved";
+    if (bill.status !== "paid" && !open) continue;
+
+    const date = bill.paidAt ?? bill.createdAt;
+    if (!open && ((from && date < from) || (to && date > to))) continue;
+
+    const amount = convertToBaseCurrency(
+      Number(bill.amount),
+      getDocumentCurrency(bill, baseCurrency),
+      baseCurrency,
+      open ? new Date() : date,
+      rates,
+    );
+    if (amount === null) {
+      unconverted++;
+      continue;
+    }
+    if (open) {
+      outstanding += amount;
+      continue;
+    }
+
+    total += amount;
+    const key = getSpendPeriodKey(date, period);
+    byPeriod.set(key, (byPeriod.get(key) ?? 0) + amount);
+    byEngagement.set(bill.engagementId, (byEngagement.get(bill.engagementId) ?? 0) + amount);
+  }
+
+  return {
+    currency: baseCurrency,
+    total: roundCents(total),
+    outstanding: roundCents(outstanding),
+    byPeriod: Array.from(byPeriod, ([key, value]) => ({ period: key, total: roundCents(value) })).sort((a, b) =>
+      a.period.localeCompare(b.period),
+    ),
+    byEngagement: Array.from(byEngagement, ([engagementId, value]) => ({ engagementId, total: roundCents(value) })).sort(
+      (a, b) => b.total - a.total,
+    ),
+    unconverted,
+  };
+}
+
+export interface ContractorPaymentRow {
+  vendorId: string;
+  name: string;
+  contactName: string | null;
+  taxId: string | null;
+  email: string | null;
+  address: string | null;
+  billCount: number;
+  total: number;
+  meetsReportingThreshold: boolean;
+}
+
+/**
+ * Year-end contractor payment summary: payments to contractor vendors in `year`,
+ * one row per vendor with any payments, in the base currency.
+ */
+export function buildContractorPaymentSummary(
+  vendors: Pick<Vendor, "id" | "name" | "contactName" | "taxId" | "email" | "address" | "isContractor">[],
+  bills: (SpendBill & Pick<Bill, "vendorId">)[],
+  year: number,
+  baseCurrency: string,
+  rates: RateLookup[],
+): { rows: ContractorPaymentRow[]; unconverted: number } {
+  const rows: ContractorPaymentRow[] = [];
+  let unconverted = 0;
+
+  for (const vendor of vendors.filter((v) => v.isContractor)) {
+    let total = 0;
+    let billCount = 0;
+    for (const bill of bills) {
+      if (bill.vendorId !== vendor.id || bill.status !== "paid" || !bill.paidAt) continue;
+      if (bill.paidAt.getFullYear() !== year) continue;
+      const amount = convertToBaseCurrency(
+        Number(bill.amount),
+        getDocumentCurrency(bill, baseCurrency),
+        baseCurrency,
+        bill.paidAt,
+        rates,
+      );
+      if (amount === null) {
+        unconverted++;
+        continue;
+      }
+      total += amount;
+      billCount++;
+    }
+    if (billCount === 0) continue;
+    rows.push({
+      vendorId: vendor.id,
+      name: vendor.name,
+      contactName: vendor.contactName,
+      taxId: vendor.taxId,
+      email: vendor.email,
+      address: vendor.address,
+      billCount,
+      total: roundCents(total),
+      meetsReportingThreshold: total >= CONTRACTOR_REPORTING_THRESHOLD,
+    });
+  }
+
+  rows.sort((a, b) => a.name.localeCompare(b.name));
+  return { rows, unconverted };
+}
+
+export const CONTRACTOR_PAYMENT_CSV_HEADER = [
+  "Vendor",
+  "Contact",
+  "Tax ID",
+  "Email",
+  "Address",
+  "Bills",
+  "Total Paid",
+  "Reportable",
+];
+
+export function contractorPaymentCsvRow(row: ContractorPaymentRow) {
+  return [
+    row.name,
+    row.contactName,
+    row.taxId,
+    row.email,
+    row.address,
+    row.billCount,
+    row.total.toFixed(2),
+    row.meetsReportingThreshold ? "yes" : "no",
+  ];
+}
@@ -0,0 +1,90 @@
+import { storage } from "../../storage";
+import { logger } from "../../logger";
+import { getEmailSettings } from "../../config/email";
+import type { Contract, Deal, DealWonAutomation, Engagement, Organization } from "@shared/schema";
+
+/**
+ * Deal Won Automation
+ *
+ * When a deal reaches a won stage (`deal.updated` with `status: "won"`):
+ * 1. Creates a draft contract from the deal's latest accepted proposal (or links the
+ *    contract already made from it); deals without an accepted proposal get none
+ * 2. Opens an engagement for the deal if `organizations.createEngagementOnDealWon` is set
+ * 3. Emails the deal owner what was created
+ *
+ * Steps 1-2 (records built by `./post-sale.ts`) run in one transaction that also inserts the
+ * deal's `dealWonAutomations` row, so the chain runs once per deal no matter how often the
+ * outbox event is delivered. The owner email is claimed on that row and released if sending
+ * fails, so a retried event only resends the email.
+ */
+
+const SOURCE = "WORKFLOW";
+
+export async function handleDealWon(
+  deal: Pick<Deal, "id" | "organizationId" | "status">,
+): Promise<DealWonAutomation | undefined> {
+  if (deal.status !== "won") return undefined;
+
+  const organization = await storage.getOrganization(deal.organizationId);
+  if (!organization) return undefined;
+
+  // Re-checks the deal under a row lock: it may have been reopened since the event was written
+  const automation = await storage.runDealWonAutomation(deal.id, deal.organizationId, {
+    createEngagement: organization.createEngagementOnDealWon,
+  });
+  if (!automation || automation.ownerNotifiedAt) return automation;
+
+  await notifyOwner(automation, organization);
+  return automation;
+}
+
+async function notifyOwner(automation: DealWonAutomation, organization: Organization) {
+  const claimed = await storage.claimDealWonNotification(automation.id, organization.id);
+  if (!claimed) return;
+
+  const deal = await storage.getDeal(automation.dealId, organization.id);
+  const owner = deal ? await storage.getUser(deal.ownerId) : undefined;
+  if (!deal || !owner?.email) {
+    logger.info(`[Workflow] Deal ${automation.dealId} won; owner has no email to notify`, {
+      source: SOURCE,
+      dealId: automation.dealId,
+    });
+    return;
+  }
+
+  const [contract, engagement]: [Contract | undefined, Engagement | undefined] = await Promise.all([
+    automation.contractId ? storage.getContract(automation.contractId, organization.id) : undefined,
+    automation.engagementId ? storage.getEngagement(automation.engagementId, organization.id) : undefined,
+  ]);
+
+  try {
+    // Loaded lazily so the workflow engine doesn't pull the mail transport into startup
+    const { emailService } = await import("../../services/email");
+    const appUrl = getEmailSettings().frontendUrl;
+    await emailService.sendEmail({
+      to: owner.email,
+      subject: `Deal won: ${deal.name}`,
+      template: "deal-won",
+      data: {
+        ownerName: owner.firstName || owner.email,
+        organizationName: organization.name,
+        dealName: deal.name,
+        contractName: contract?.name,
+        contractUrl: contract ? `${appUrl}/contracts` : undefined,
+        engagementName: engagement?.name,
+        currentYear: new Date().getFullYear(),
+      },
+    });
+  } catch (error) {
+    // Release the claim so the retried event sends it again
+    await storage.releaseDealWonNotification(automation.id, organization.id);
+    throw error;
+  }
+
+  logger.info(`[Workflow] Deal ${deal.id} won; notified ${owner.email}`, {
+    source: SOURCE,
+    dealId: deal.id,
+    contractId: automation.contractId,
+    engagementId: automation.engagementId,
+  });
+}
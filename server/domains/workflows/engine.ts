@@ -1,5 +1,6 @@
 import { eventDispatcher } from "../../services/event-dispatcher";
 import { logger } from "../../logger";
+import { handleDealWon } from "./deal-won";
 
 /**
  * Workflow Engine
@@ -24,15 +25,17 @@ export class WorkflowEngine {
       const deal = payload;
       logger.info(`[Workflow] Processing deal update for ${deal.id}`, { 
           source: "WORKFLOW",
-          stage: deal.stage
+          stageId: deal.stageId,
+          status: deal.status
       });
 
-      if (deal.stage === "won") {
+      if (deal.status === "won") {
         logger.info(`[Workflow] Deal Won! Triggering post-sales automation...`, {
              source: "WORKFLOW",
              dealId: deal.id
         });
-        // Future: Create Contract, Create Engagement, Notify Team
+        // Draft contract, optional engagement and owner email; safe to run on every delivery
+        await handleDealWon(deal);
       }
     });
 
@@ -0,0 +1,42 @@
+import type { Contract, Deal, InsertContract, InsertEngagement, Proposal } from "@shared/schema";
+
+/**
+ * Post-sale records
+ *
+ * What the deal won automation (`./deal-won.ts`) creates for a won deal: a draft contract
+ * copied from the accepted proposal and, if the organization wants one, an engagement.
+ * Client, contact and value come from the proposal / contract when set, else from the deal.
+ */
+
+export const POST_SALE_ACTOR = { actorId: "system", actorName: "System" };
+
+type WonDeal = Pick<Deal, "id" | "organizationId" | "clientCompanyId" | "contactId" | "ownerId" | "name" | "value">;
+
+export function buildDraftContract(deal: WonDeal, proposal: Proposal): InsertContract {
+  return {
+    organizationId: deal.organizationId,
+    proposalId: proposal.id,
+    dealId: deal.id,
+    clientCompanyId: proposal.clientCompanyId ?? deal.clientCompanyId,
+    contactId: proposal.contactId ?? deal.contactId,
+    createdById: deal.ownerId,
+    name: proposal.name,
+    status: "draft",
+    content: proposal.content as InsertContract["content"],
+    totalValue: proposal.totalValue ?? deal.value,
+  };
+}
+
+export function buildWonEngagement(deal: WonDeal, contract?: Contract): InsertEngagement {
+  return {
+    organizationId: deal.organizationId,
+    contractId: contract?.id ?? null,
+    dealId: deal.id,
+    clientCompanyId: contract?.clientCompanyId ?? deal.clientCompanyId,
+    contactId: contract?.contactId ?? deal.contactId,
+    ownerId: deal.ownerId,
+    name: deal.name,
+    status: "active",
+    totalValue: contract?.totalValue ?? deal.value,
+  };
+}
@@ -51,6 +51,8 @@ import { createServer } from "http";
 import { connectRedis } from "./redis";
 import { eventDispatcher } from "./services/event-dispatcher";
 import { workflowEngine } from "./domains/workflows/engine";
+import { recurringInvoiceGenerator } from "./domains/revenue/invoice-scheduler";
+import { invoiceDunningJob } from "./domains/revenue/dunning";
 
 declare module "http" {
   interface IncomingMessage {
@@ -264,6 +266,12 @@ if (import.meta.url === `file://${process.argv[1]}`) {
     // Initialize Workflows
     workflowEngine.initialize();
 
+    // Start recurring invoice generation (background worker)
+    recurringInvoiceGenerator.start();
+
+    // Start overdue detection + payment reminders (background worker)
+    invoiceDunningJob.start();
+
     const { app, server } = createApp();
     await setupApplication(app, server);
     startServer(server);
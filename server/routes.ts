@@ -8,18 +8,22 @@ import {
 } from "./middleware/auth";
 import { checkPermission } from "./middleware/permissions";
 import { logger } from "./logger";
+import { z } from "zod";
 
 // Domain Routes
 import { identityRoutes } from "./domains/identity/routes";
 import { crmRoutes } from "./domains/crm/routes";
 import { projectsRoutes } from "./domains/projects/routes";
 import { revenueRoutes } from "./domains/revenue/routes";
+import { sumInBaseCurrency } from "./domains/revenue/currency";
+import { buildCashFlowForecast } from "./domains/revenue/cash-flow";
 import { communicationsRoutes } from "./domains/communications/routes";
 import { agreementsRoutes } from "./domains/agreements/routes";
 import { engagementsRoutes } from "./domains/engagements/routes";
 import { fileRoutes } from "./routes/files";
 import { rbacRoutes } from "./domains/rbac/routes";
 import { organizationRoutes } from "./domains/organizations/routes";
+import { exportRoutes } from "./domains/exports/routes";
 
 export async function registerRoutes(server: Server, app: Express): Promise<void> {
   // `server` is reserved for real-time features (SSE/WebSocket) where we need the HTTP server.
@@ -38,6 +42,7 @@ export async function registerRoutes(server: Server, app: Express): Promise<void
   app.use(fileRoutes);
   app.use(rbacRoutes);
   app.use(organizationRoutes);
+  app.use(exportRoutes);
 
   // ==================== DASHBOARD ====================
   // Kept here for now as it aggregates across domains
@@ -46,24 +51,44 @@ export async function registerRoutes(server: Server, app: Express): Promise<void
       const userId = getUserIdFromRequest(req)!;
       const orgId = await getOrCreateOrg(userId);
 
-      const [clients, deals, engagements, invoices] = await Promise.all([
+      const [clients, deals, engagements, invoices, organization, exchangeRates] = await Promise.all([
         storage.getClientCompanies(orgId),
         storage.getDeals(orgId),
         storage.getEngagements(orgId),
         storage.getInvoices(orgId),
+        storage.getOrganization(orgId),
+        storage.getExchangeRates(orgId),
       ]);
+      const baseCurrency = organization?.currency ?? "USD";
 
-      const pendingInvoices = invoices.filter((i) => i.status === "sent" || i.status === "viewed");
-      const totalRevenue = invoices
-        .filter((i) => i.status === "paid")
-        .reduce((sum, i) => sum + Number(i.totalAmount || 0), 0);
+      const pendingInvoices = invoices.filter(
+        (i) =>
+          i.status === "sent" || i.status === "viewed" || i.status === "partially_paid" || i.status === "overdue",
+      );
+      // Revenue is cash collected net of refunds (paidAmount), so partially paid invoices
+      // (including overdue ones) contribute what has been received and kept.
+      // Foreign-currency invoices convert to the base currency at the rate on the invoice date.
+      const revenue = sumInBaseCurrency(
+        invoices
+          .filter((i) => i.status === "paid" || Number(i.paidAmount ?? 0) > 0)
+          .map((i) => ({
+            amount: Number(i.paidAmount ?? i.totalAmount ?? 0),
+            currency: i.currency,
+            date: i.sentAt ?? i.createdAt,
+          })),
+        baseCurrency,
+        exchangeRates,
+      );
 
       res.json({
         clients: clients.length,
-        deals: deals.filter((d) => d.stage !== "won" && d.stage !== "lost").length,
+        deals: deals.filter((d) => d.status === "open").length,
         engagements: engagements.filter((e) => e.status === "active").length,
         pendingInvoices: pendingInvoices.length,
-        totalRevenue: totalRevenue.toFixed(2),
+        totalRevenue: revenue.total.toFixed(2),
+        currency: baseCurrency,
+        // Invoices left out of totalRevenue because no exchange rate covers their date
+        unconvertedInvoices: revenue.unconverted,
       });
     } catch (error) {
       // 2026 Best Practice: Structured logging with PII redaction
@@ -77,4 +102,45 @@ export async function registerRoutes(server: Server, app: Express): Promise<void
       res.status(500).json({ error: "Failed to fetch dashboard stats" });
     }
   });
+  // Cash on hand is not tracked yet, so the running balance starts from what the caller passes
+  const cashFlowQuerySchema = z.object({ openingBalance: z.coerce.number().finite().default(0) });
+
+  app.get("/api/dashboard/cash-flow", requireAuth, checkPermission("dashboard", "view"), async (req: Request, res: Response) => {
+    try {
+      const userId = getUserIdFromRequest(req)!;
+      const orgId = await getOrCreateOrg(userId);
+      const query = cashFlowQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "openingBalance must be a number" });
+      }
+
+      const [invoices, schedules, bills, organization, exchangeRates] = await Promise.all([
+        storage.getInvoices(orgId),
+        storage.getInvoiceSchedules(orgId),
+        storage.getBills(orgId),
+        storage.getOrganization(orgId),
+        storage.getExchangeRates(orgId),
+      ]);
+
+      res.json(
+        buildCashFlowForecast(
+          { invoices, schedules, bills },
+          {
+            baseCurrency: organization?.currency ?? "USD",
+            rates: exchangeRates,
+            openingBalance: query.data.openingBalance,
+          },
+        ),
+      );
+    } catch (error) {
+      logger.error("Cash-flow forecast error", {
+        source: "dashboard",
+        userId: getUserIdFromRequest(req),
+        error: error instanceof Error ? error.message : String(error),
+        path: "/api/dashboard/cash-flow",
+        method: "GET"
+      });
+      res.status(500).json({ error: "Failed to build cash-flow forecast" });
+    }
+  });
 }
@@ -34,6 +34,7 @@ import fs from 'fs/promises';
 import path from 'path';
 import sharp from 'sharp';
 import { storage } from '../storage';
+import type { FileObject } from '@shared/schema';
 
 // 2026 best practice: Allowed file types with strict validation
 export const ALLOWED_FILE_TYPES = {
@@ -48,6 +49,18 @@ export const ALLOWED_FILE_TYPES = {
       'image/gif': [0x47, 0x49, 0x46, 0x38],
       'image/webp': [0x52, 0x49, 0x46, 0x46]
     }
+  },
+  // Expense receipts: photos or PDFs, stored as uploaded and never served publicly
+  receipt: {
+    extensions: ['.jpg', '.jpeg', '.png', '.webp', '.pdf'],
+    mimeTypes: ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'],
+    maxSize: 10 * 1024 * 1024, // 10MB
+    signatures: {
+      'image/jpeg': [0xFF, 0xD8, 0xFF],
+      'image/png': [0x89, 0x50, 0x4E, 0x47],
+      'image/webp': [0x52, 0x49, 0x46, 0x46],
+      'application/pdf': [0x25, 0x50, 0x44, 0x46]
+    }
   }
 } as const;
 
@@ -73,6 +86,8 @@ export interface UploadedFile {
   organizationId: string;
   uploadedBy?: string;
   createdAt: Date;
+  // Id of the `file_objects` record, when the metadata was stored
+  fileObjectId?: string;
 }
 
 export interface FileValidationResult {
@@ -98,7 +113,9 @@ export function generateSecureFilename(originalName: string): string {
  * Validates actual file content, not just extension
  */
 export function validateFileSignature(buffer: Buffer, mimeType: string): boolean {
-  const signatures = ALLOWED_FILE_TYPES.image.signatures[mimeType as keyof typeof ALLOWED_FILE_TYPES.image.signatures];
+  const signatures = Object.values(ALLOWED_FILE_TYPES)
+    .map((config) => (config.signatures as Record<string, readonly number[]>)[mimeType])
+    .find(Boolean);
   if (!signatures) return false;
 
   return signatures.every((byte, index) => buffer[index] === byte);
@@ -349,7 +366,8 @@ export class FileStorageService {
     };
 
     // Store file metadata in database
-    await this.storeFileMetadata(uploadedFile);
+    const fileObject = await this.storeFileMetadata(uploadedFile);
+    uploadedFile.fileObjectId = fileObject?.id;
 
     return uploadedFile;
   }
@@ -357,9 +375,9 @@ export class FileStorageService {
   /**
    * Store file metadata in database for audit trail
    */
-  private async storeFileMetadata(file: UploadedFile): Promise<void> {
+  private async storeFileMetadata(file: UploadedFile): Promise<FileObject | undefined> {
     try {
-      await storage.createFileObject({
+      return await storage.createFileObject({
         organizationId: file.organizationId,
         name: file.filename,
         originalName: file.originalName,
@@ -373,6 +391,7 @@ export class FileStorageService {
     } catch (error) {
       console.error('Failed to store file metadata:', error);
       // Continue even if metadata storage fails
+      return undefined;
     }
   }
 
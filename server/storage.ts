@@ -24,13 +24,51 @@
  *   3) call those methods from `server/routes.ts`
  */
 
-import { eq, and, desc, isNull, asc, sql, or, ilike, count, inArray } from "drizzle-orm";
+import { eq, ne, and, desc, isNull, isNotNull, asc, sql, or, ilike, count, inArray, notInArray, lte, lt, gte, gt } from "drizzle-orm";
+import { startOfDay } from "date-fns";
 import { db } from "./db";
+import {
+  getCreditNoteRefusal,
+  getPaymentRefusal,
+  getRefundRefusal,
+  summarizeInvoicePayments,
+} from "./domains/revenue/payments";
+import {
+  buildDraftNumber,
+  formatDocumentNumber,
+  getNextSequenceValue,
+  getNumberingPeriod,
+  isDraftNumber,
+  withNumberingDefaults,
+} from "./domains/revenue/numbering";
+import {
+  billJournalEntries,
+  creditNoteIssuedEntry,
+  DEFAULT_LEDGER_ACCOUNTS,
+  invoiceJournalEntries,
+  paymentReceivedEntry,
+  refundIssuedEntry,
+  reverseLines,
+  sameLines,
+  type JournalEntryDraft,
+} from "./domains/revenue/ledger";
+import { getTimerMinutes } from "./domains/projects/time-tracking";
+import { DEFAULT_PIPELINE_NAME, DEFAULT_PIPELINE_STAGES } from "./domains/crm/pipelines";
+import { fillBlankFields } from "./domains/crm/duplicates";
+import type { ExportFilters, ExportRecordMap } from "./domains/exports/columns";
+import { POST_SALE_ACTOR, buildDraftContract, buildWonEngagement } from "./domains/workflows/post-sale";
+import {
+  REPLACEABLE_PAYMENT_SESSION_STATUSES,
+  resolveWebhookAction,
+  type PaymentWebhookEvent,
+} from "./domains/revenue/payment-gateway";
 import { randomUUID } from "crypto";
 import { 
-  users, organizations, organizationMembers, clientCompanies, contacts, deals, proposals,
-  contracts, engagements, projects, tasks, milestones, threads, messages, invoices,
-  bills, vendors, fileObjects, activityEvents, outbox, projectTemplates, invoiceSchedules,
+  users, organizations, organizationMembers, clientCompanies, contacts, dealPipelines, dealStages, deals, dealStageHistory, proposals,
+  contracts, engagements, dealWonAutomations, duplicateDismissals, clientPortalAccess, projects, tasks, timeEntries, milestones, threads, messages, invoices,
+  bills, vendors, fileObjects, activityEvents, outbox, projectTemplates, invoiceSchedules, payments, paymentSessions,
+  invoiceReminders, exchangeRates, taxRates, numberingSequences, creditNotes, refunds,
+  billApprovalPolicies, billApprovalSteps, expenses, bankTransactions, ledgerAccounts, journalEntries, journalLines,
   permissions, roles, rolePermissions, userRoles, invitations,
   type User,
   type UpsertUser,
@@ -40,8 +78,18 @@ import {
   type InsertClientCompany,
   type Contact,
   type InsertContact,
+  type DealPipeline,
+  type DealPipelineWithStages,
+  type DealStage,
+  type DealStatus,
+  type InsertDealPipeline,
   type Deal,
   type InsertDeal,
+  type DealStageTransition,
+  type DealWonAutomation,
+  type DuplicateDismissal,
+  type DuplicateEntityType,
+  type ExportEntityType,
   type Proposal,
   type InsertProposal,
   type Contract,
@@ -52,16 +100,55 @@ import {
   type InsertProject,
   type Task,
   type InsertTask,
+  type TimeEntry,
+  type InsertTimeEntry,
+  type TimeEntryStatus,
   type Thread,
   type InsertThread,
   type Message,
   type InsertMessage,
   type Invoice,
   type InsertInvoice,
+  type Payment,
+  type InsertPayment,
+  type PaymentSession,
+  type InsertPaymentSession,
+  type PaymentSessionStatus,
+  type CreditNote,
+  type InsertCreditNote,
+  type Refund,
+  type InsertRefund,
+  type InvoiceReminder,
+  type InsertInvoiceReminder,
+  type ExchangeRate,
+  type InsertExchangeRate,
+  type TaxRate,
+  type InsertTaxRate,
+  type NumberingSequence,
+  type NumberingSequenceSettings,
+  type NumberedDocumentType,
   type Bill,
+  type Expense,
+  type InsertExpense,
+  type ExpenseStatus,
   type InsertBill,
+  type BillApprovalPolicy,
+  type InsertBillApprovalPolicy,
+  type BillApprovalStep,
+  type InsertBillApprovalStep,
+  type OrganizationMember,
   type Vendor,
   type InsertVendor,
+  type BankTransaction,
+  type InsertBankTransaction,
+  type BankTransactionMatch,
+  type BankTransactionStatus,
+  type LedgerAccount,
+  type InsertLedgerAccount,
+  type UpdateLedgerAccount,
+  type LedgerSystemAccount,
+  type JournalLine,
+  type JournalEntryWithLines,
   type ActivityEvent,
   type InsertActivityEvent,
   type OutboxEvent,
@@ -78,6 +165,8 @@ import {
   type InsertUserRole,
   type Invitation,
   type InsertInvitation,
+  type InvoiceSchedule,
+  type InsertInvoiceSchedule,
 } from "@shared/schema";
 import type {
   PaginationOptions,
@@ -86,6 +175,7 @@ import type {
   ClientCompanyWithRelations,
   DependencyCheckResult,
   ClientCompanyStats,
+  MergeResult,
 } from "@shared/client-schemas";
 
 export interface IStorage {
@@ -93,6 +183,7 @@ export interface IStorage {
   getUserByEmail(email: string): Promise<User | undefined>; // 2026 security: Email-based authentication
   upsertUser(user: UpsertUser): Promise<User>;
   getUserOrganization(userId: string): Promise<Organization | undefined>;
+  getOrganizationMemberRole(orgId: string, userId: string): Promise<OrganizationMember["role"] | undefined>;
   createOrganization(org: InsertOrganization, ownerId: string): Promise<Organization>;
 
   // Organization lookup
@@ -157,10 +248,67 @@ export interface IStorage {
   ): Promise<Contact | undefined>;
   deleteContact(id: string, orgId: string): Promise<boolean>;
 
+  importClientCompanies(rows: InsertClientCompany[]): Promise<ClientCompany[]>;
+  importContacts(rows: InsertContact[]): Promise<Contact[]>;
+  importDeals(rows: (InsertDeal & { status: DealStatus })[], movedById?: string): Promise<Deal[]>;
+  exportRecords<K extends ExportEntityType>(
+    entityType: K,
+    orgId: string,
+    filters: ExportFilters,
+    onBatch: (records: ExportRecordMap[K][]) => Promise<void>,
+  ): Promise<number>;
+
+  getDuplicateDismissals(orgId: string, entityType: DuplicateEntityType): Promise<DuplicateDismissal[]>;
+  dismissDuplicate(
+    orgId: string,
+    entityType: DuplicateEntityType,
+    recordIds: [string, string],
+    dismissedById: string,
+  ): Promise<void>;
+  mergeClientCompanies(
+    survivorId: string,
+    duplicateId: string,
+    orgId: string,
+    actor: { id: string; name: string },
+  ): Promise<MergeResult<ClientCompany> | undefined>;
+  mergeContacts(
+    survivorId: string,
+    duplicateId: string,
+    orgId: string,
+    actor: { id: string; name: string },
+  ): Promise<MergeResult<Contact> | undefined>;
+
+  getDealPipelines(orgId: string): Promise<DealPipelineWithStages[]>;
+  getDealPipeline(id: string, orgId: string): Promise<DealPipelineWithStages | undefined>;
+  getDefaultDealPipeline(orgId: string): Promise<DealPipelineWithStages>;
+  getDealStage(id: string, orgId: string): Promise<DealStage | undefined>;
+  countDealsByStage(pipelineId: string, orgId: string): Promise<Map<string, number>>;
+  createDealPipeline(data: InsertDealPipeline): Promise<DealPipelineWithStages>;
+  updateDealPipeline(
+    id: string,
+    orgId: string,
+    data: Partial<InsertDealPipeline>,
+  ): Promise<DealPipelineWithStages | undefined>;
+  deleteDealPipeline(id: string, orgId: string): Promise<boolean>;
+
   getDeals(orgId: string): Promise<Deal[]>;
   getDeal(id: string, orgId: string): Promise<Deal | undefined>;
-  createDeal(data: InsertDeal): Promise<Deal>;
-  updateDeal(id: string, orgId: string, data: Partial<InsertDeal>): Promise<Deal | undefined>;
+  createDeal(data: InsertDeal & { status?: DealStatus }, movedById?: string): Promise<Deal>;
+  updateDeal(
+    id: string,
+    orgId: string,
+    data: Partial<InsertDeal & { status: DealStatus }>,
+    movedById?: string,
+  ): Promise<Deal | undefined>;
+  getDealStageHistory(dealId: string, orgId: string): Promise<DealStageTransition[]>;
+  getDealStageTransitions(orgId: string): Promise<DealStageTransition[]>;
+  runDealWonAutomation(
+    dealId: string,
+    orgId: string,
+    options: { createEngagement: boolean },
+  ): Promise<DealWonAutomation | undefined>;
+  claimDealWonNotification(id: string, orgId: string): Promise<boolean>;
+  releaseDealWonNotification(id: string, orgId: string): Promise<boolean>;
   deleteDeal(id: string, orgId: string): Promise<boolean>;
 
   getProposals(orgId: string): Promise<Proposal[]>;
@@ -208,6 +356,39 @@ export interface IStorage {
   updateTask(id: string, orgId: string, data: Partial<InsertTask>): Promise<Task | undefined>;
   deleteTask(id: string, orgId: string): Promise<boolean>;
 
+  getTimeEntries(
+    orgId: string,
+    filters?: { userId?: string; engagementId?: string; status?: TimeEntryStatus; from?: Date; to?: Date },
+  ): Promise<TimeEntry[]>;
+  getTimeEntry(id: string, orgId: string): Promise<TimeEntry | undefined>;
+  getRunningTimeEntry(orgId: string, userId: string): Promise<TimeEntry | undefined>;
+  createTimeEntry(
+    data: InsertTimeEntry & { engagementId: string; timerStartedAt?: Date },
+  ): Promise<TimeEntry | undefined>;
+  // Only draft and rejected entries that are not invoiced can change.
+  updateTimeEntry(
+    id: string,
+    orgId: string,
+    data: Partial<InsertTimeEntry> & { engagementId?: string },
+  ): Promise<TimeEntry | undefined>;
+  deleteTimeEntry(id: string, orgId: string): Promise<boolean>;
+  stopTimeEntryTimer(id: string, orgId: string, now: Date): Promise<TimeEntry | undefined>;
+  submitTimesheet(orgId: string, userId: string, week: { start: Date; end: Date }): Promise<TimeEntry[]>;
+  reviewTimesheet(params: {
+    orgId: string;
+    userId: string;
+    week: { start: Date; end: Date };
+    decision: "approved" | "rejected";
+    reviewedById: string;
+    note?: string;
+  }): Promise<TimeEntry[]>;
+  // Creates a draft invoice and marks the entries billed on it, or returns undefined if any
+  // entry is no longer approved and unbilled.
+  createInvoiceFromTimeEntries(
+    entryIds: string[],
+    data: Omit<InsertInvoice, "invoiceNumber" | "status">,
+  ): Promise<Invoice | undefined>;
+
   getThreads(orgId: string): Promise<Thread[]>;
   getThread(id: string, orgId: string): Promise<Thread | undefined>;
   createThread(data: InsertThread): Promise<Thread>;
@@ -217,7 +398,9 @@ export interface IStorage {
 
   getInvoices(orgId: string): Promise<Invoice[]>;
   getInvoice(id: string, orgId: string): Promise<Invoice | undefined>;
-  createInvoice(data: InsertInvoice): Promise<Invoice>;
+  // Drafts get a placeholder number; other invoices are numbered from the org sequence.
+  createInvoice(data: Omit<InsertInvoice, "invoiceNumber">): Promise<Invoice>;
+  issueInvoice(id: string, orgId: string, data: Partial<InsertInvoice>): Promise<Invoice | undefined>;
   updateInvoice(
     id: string,
     orgId: string,
@@ -225,23 +408,226 @@ export interface IStorage {
   ): Promise<Invoice | undefined>;
   deleteInvoice(id: string, orgId: string): Promise<boolean>;
 
+  getInvoicePayments(invoiceId: string, orgId: string): Promise<Payment[]>;
+  recordInvoicePayment(
+    invoiceId: string,
+    orgId: string,
+    data: InsertPayment,
+  ): Promise<{ payment: Payment; invoice: Invoice } | { error: string; invoice: Invoice } | undefined>;
+  voidInvoicePayment(
+    id: string,
+    invoiceId: string,
+    orgId: string,
+    voidedById: string,
+    reason: string,
+  ): Promise<{ payment: Payment; invoice: Invoice } | undefined>;
+
+  getInvoicePaymentSessions(invoiceId: string, orgId: string): Promise<PaymentSession[]>;
+  // Looked up without an org: webhooks and the hosted checkout page only know the provider's id
+  getPaymentSessionByProviderId(provider: string, providerSessionId: string): Promise<PaymentSession | undefined>;
+  // Expires the invoice's open and failed sessions so only the newest checkout link can be paid;
+  // processing ones are left to settle (REPLACEABLE_PAYMENT_SESSION_STATUSES).
+  createPaymentSession(data: InsertPaymentSession): Promise<PaymentSession>;
+  // Applies a verified webhook event; a succeeded event records the payment. Returns
+  // undefined for unknown sessions and `applied: false` for events that change nothing.
+  applyPaymentWebhookEvent(
+    provider: string,
+    event: PaymentWebhookEvent,
+  ): Promise<{ session: PaymentSession; applied: boolean; payment?: Payment; invoice?: Invoice } | undefined>;
+
+  getInvoiceRefunds(invoiceId: string, orgId: string): Promise<Refund[]>;
+  // Checks the refundable amount with the payment and invoice locked; undefined when either is missing
+  recordRefund(
+    invoiceId: string,
+    orgId: string,
+    data: InsertRefund,
+  ): Promise<{ refund: Refund; invoice: Invoice } | { error: string } | undefined>;
+
+  getCreditNotes(orgId: string): Promise<CreditNote[]>;
+  getInvoiceCreditNotes(invoiceId: string, orgId: string): Promise<CreditNote[]>;
+  getCreditNote(id: string, orgId: string): Promise<CreditNote | undefined>;
+  // Numbered from the org "credit_note" sequence in the same transaction, and checked
+  // against the creditable amount with the invoice locked.
+  createCreditNote(
+    data: Omit<InsertCreditNote, "creditNoteNumber">,
+  ): Promise<{ creditNote: CreditNote; invoice: Invoice } | { error: string } | undefined>;
+  voidCreditNote(
+    id: string,
+    orgId: string,
+    voidedById: string,
+    reason: string,
+  ): Promise<{ creditNote: CreditNote; invoice: Invoice } | undefined>;
+
+  markOverdueInvoices(asOf: Date): Promise<Invoice[]>;
+  getOpenInvoicesDueBetween(
+    from: Date,
+    to: Date,
+    after?: Pick<Invoice, "dueDate" | "id">,
+    limit?: number,
+  ): Promise<Invoice[]>;
+  getInvoiceReminders(invoiceId: string, orgId: string): Promise<InvoiceReminder[]>;
+  claimInvoiceReminder(data: InsertInvoiceReminder): Promise<InvoiceReminder | undefined>;
+  releaseInvoiceReminder(id: string, orgId: string): Promise<boolean>;
+  getBillingContact(clientCompanyId: string, orgId: string): Promise<Contact | undefined>;
+
+  getInvoiceSchedules(orgId: string): Promise<InvoiceSchedule[]>;
+  getInvoiceSchedule(id: string, orgId: string): Promise<InvoiceSchedule | undefined>;
+  createInvoiceSchedule(data: InsertInvoiceSchedule): Promise<InvoiceSchedule>;
+  updateInvoiceSchedule(
+    id: string,
+    orgId: string,
+    data: Partial<InsertInvoiceSchedule>,
+  ): Promise<InvoiceSchedule | undefined>;
+  deleteInvoiceSchedule(id: string, orgId: string): Promise<boolean>;
+  getDueInvoiceSchedules(asOf: Date, limit?: number): Promise<InvoiceSchedule[]>;
+  generateScheduledInvoice(
+    schedule: InvoiceSchedule,
+    invoice: InsertInvoice,
+    nextInvoiceDate: Date,
+  ): Promise<Invoice | undefined>;
+
   getBills(orgId: string): Promise<Bill[]>;
   getBill(id: string, orgId: string): Promise<Bill | undefined>;
-  createBill(data: InsertBill): Promise<Bill>;
+  // Writes the bill's approval chain (built by ./domains/revenue/bill-approvals) with it.
+  createBill(
+    data: Omit<InsertBill, "billNumber">,
+    approvalSteps?: Omit<InsertBillApprovalStep, "organizationId" | "billId">[],
+  ): Promise<Bill>;
   updateBill(id: string, orgId: string, data: Partial<InsertBill>): Promise<Bill | undefined>;
+  // Updates the bill, returns it to pending and replaces its approval chain.
+  resubmitBill(
+    id: string,
+    orgId: string,
+    data: Partial<InsertBill>,
+    approvalSteps: Omit<InsertBillApprovalStep, "organizationId" | "billId">[],
+  ): Promise<Bill | undefined>;
   deleteBill(id: string, orgId: string): Promise<boolean>;
 
+  getBillApprovalSteps(billId: string, orgId: string): Promise<BillApprovalStep[]>;
+  // stepId is null for bills without an approval chain (single approval).
+  decideBill(params: {
+    billId: string;
+    orgId: string;
+    stepId: string | null;
+    decision: "approved" | "rejected";
+    userId: string;
+    comment?: string;
+  }): Promise<{ bill: Bill; steps: BillApprovalStep[] } | undefined>;
+  getBillApprovalPolicies(orgId: string): Promise<BillApprovalPolicy[]>;
+  createBillApprovalPolicy(data: InsertBillApprovalPolicy): Promise<BillApprovalPolicy>;
+  updateBillApprovalPolicy(
+    id: string,
+    orgId: string,
+    data: Partial<InsertBillApprovalPolicy>,
+  ): Promise<BillApprovalPolicy | undefined>;
+  deleteBillApprovalPolicy(id: string, orgId: string): Promise<boolean>;
+
+  getExpenses(
+    orgId: string,
+    filters?: { userId?: string; engagementId?: string; status?: ExpenseStatus },
+  ): Promise<Expense[]>;
+  getExpense(id: string, orgId: string): Promise<Expense | undefined>;
+  createExpense(data: InsertExpense & { receiptFileId?: string | null }): Promise<Expense>;
+  // Only draft and rejected expenses that are not invoiced can change.
+  updateExpense(
+    id: string,
+    orgId: string,
+    data: Partial<InsertExpense> & { receiptFileId?: string | null },
+  ): Promise<Expense | undefined>;
+  deleteExpense(id: string, orgId: string): Promise<boolean>;
+  submitExpense(id: string, orgId: string): Promise<Expense | undefined>;
+  reviewExpense(params: {
+    id: string;
+    orgId: string;
+    decision: "approved" | "rejected";
+    reviewedById: string;
+    note?: string;
+  }): Promise<Expense | undefined>;
+  // Marks approved reimbursable expenses as paid back, or returns undefined if any of them
+  // is not (or no longer) owed.
+  reimburseExpenses(params: {
+    orgId: string;
+    expenseIds: string[];
+    reimbursedById: string;
+    reference?: string;
+  }): Promise<Expense[] | undefined>;
+  // Creates a draft invoice and marks the expenses billed on it, or returns undefined if any
+  // expense is no longer approved and unbilled.
+  createInvoiceFromExpenses(
+    expenseIds: string[],
+    data: Omit<InsertInvoice, "invoiceNumber" | "status">,
+  ): Promise<Invoice | undefined>;
+
+  getExchangeRates(orgId: string): Promise<ExchangeRate[]>;
+  upsertExchangeRates(data: InsertExchangeRate[]): Promise<ExchangeRate[]>;
+  deleteExchangeRate(id: string, orgId: string): Promise<boolean>;
+
+  getNumberingSequences(orgId: string): Promise<NumberingSequence[]>;
+  updateNumberingSequence(
+    orgId: string,
+    documentType: NumberedDocumentType,
+    data: NumberingSequenceSettings,
+  ): Promise<NumberingSequence>;
+
+  getTaxRates(orgId: string): Promise<TaxRate[]>;
+  createTaxRate(data: InsertTaxRate): Promise<TaxRate>;
+  updateTaxRate(id: string, orgId: string, data: Partial<InsertTaxRate>): Promise<TaxRate | undefined>;
+  deleteTaxRate(id: string, orgId: string): Promise<boolean>;
+
+  getBankTransactions(orgId: string, status?: BankTransactionStatus): Promise<BankTransaction[]>;
+  getBankTransaction(id: string, orgId: string): Promise<BankTransaction | undefined>;
+  importBankTransactions(data: InsertBankTransaction[]): Promise<BankTransaction[]>;
+  updateBankTransactionStatus(
+    id: string,
+    orgId: string,
+    status: "unmatched" | "ignored",
+  ): Promise<BankTransaction | undefined>;
+  matchBankTransaction(params: {
+    id: string;
+    orgId: string;
+    match: BankTransactionMatch;
+    userId: string;
+  }): Promise<{ transaction: BankTransaction; payment?: Payment; invoice?: Invoice; bill?: Bill } | undefined>;
+  unmatchBankBill(id: string, orgId: string): Promise<{ transaction: BankTransaction; bill: Bill } | undefined>;
+
+  getLedgerAccounts(orgId: string): Promise<LedgerAccount[]>;
+  createLedgerAccount(data: InsertLedgerAccount): Promise<LedgerAccount>;
+  updateLedgerAccount(id: string, orgId: string, data: UpdateLedgerAccount): Promise<LedgerAccount | undefined>;
+  getJournalEntries(orgId: string, range?: { from?: Date; to?: Date }): Promise<JournalEntryWithLines[]>;
+
   getVendors(orgId: string): Promise<Vendor[]>;
+  getVendor(id: string, orgId: string): Promise<Vendor | undefined>;
   createVendor(data: InsertVendor): Promise<Vendor>;
+  updateVendor(id: string, orgId: string, data: Partial<InsertVendor>): Promise<Vendor | undefined>;
+  deleteVendor(id: string, orgId: string): Promise<boolean>;
+  getVendorBills(vendorId: string, orgId: string): Promise<Bill[]>;
 
   createFileObject(data: InsertFileObject): Promise<FileObject>;
-  getFileObject(id: string): Promise<FileObject | undefined>;
+  getFileObject(id: string, orgId?: string): Promise<FileObject | undefined>;
   getFileObjects(orgId: string, engagementId?: string): Promise<FileObject[]>;
 
   createActivityEvent(data: InsertActivityEvent): Promise<ActivityEvent>;
   getActivityEvents(orgId: string, engagementId?: string): Promise<ActivityEvent[]>;
 }
 
+// Rows per insert statement in CSV imports
+const IMPORT_BATCH_SIZE = 500;
+// Rows per query in data exports
+const EXPORT_BATCH_SIZE = 500;
+
+const EXPORT_TABLES = {
+  clients: clientCompanies,
+  contacts,
+  deals,
+  proposals,
+  contracts,
+  engagements,
+  projects,
+  tasks,
+  invoices,
+  bills,
+} satisfies Record<ExportEntityType, unknown>;
+
 export class DatabaseStorage implements IStorage {
   async getUser(id: string): Promise<User | undefined> {
     // Users are not org-scoped; they represent identities.
@@ -457,6 +843,18 @@ export class DatabaseStorage implements IStorage {
     return membership?.org;
   }
 
+  async getOrganizationMemberRole(
+    orgId: string,
+    userId: string,
+  ): Promise<OrganizationMember["role"] | undefined> {
+    const [member] = await db
+      .select({ role: organizationMembers.role })
+      .from(organizationMembers)
+      .where(and(eq(organizationMembers.organizationId, orgId), eq(organizationMembers.userId, userId)))
+      .limit(1);
+    return member?.role;
+  }
+
   async createOrganization(org: InsertOrganization, ownerId: string): Promise<Organization> {
     const [newOrg] = await db.insert(organizations).values({
       ...org,
@@ -550,37 +948,8 @@ export class DatabaseStorage implements IStorage {
     orgId: string,
     options: PaginationOptions & FilterOptions,
   ): Promise<PaginatedResult<ClientCompany>> {
-    const { page, limit, search, industry, city, state, country } = options;
-
-    // Build WHERE conditions
-    const conditions = [eq(clientCompanies.organizationId, orgId)];
-
-    // Add search condition (case-insensitive across multiple fields)
-    if (search) {
-      conditions.push(
-        or(
-          ilike(clientCompanies.name, `%${search}%`),
-          ilike(clientCompanies.website, `%${search}%`),
-          ilike(clientCompanies.industry, `%${search}%`),
-          ilike(clientCompanies.city, `%${search}%`),
-          ilike(clientCompanies.country, `%${search}%`),
-        )!,
-      );
-    }
-
-    // Add filter conditions
-    if (industry) {
-      conditions.push(eq(clientCompanies.industry, industry));
-    }
-    if (city) {
-      conditions.push(eq(clientCompanies.city, city));
-    }
-    if (state) {
-      conditions.push(eq(clientCompanies.state, state));
-    }
-    if (country) {
-      conditions.push(eq(clientCompanies.country, country));
-    }
+    const { page, limit } = options;
+    const conditions = this.clientFilterConditions(orgId, options);
 
     // Get total count for pagination metadata
     const [{ total }] = await db
@@ -639,6 +1008,41 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount ?? 0) > 0;
   }
 
+  /** WHERE conditions for the client list filters, shared by the paginated list and exports. */
+  private clientFilterConditions(orgId: string, filters: FilterOptions) {
+    const { search, industry, city, state, country } = filters;
+    const conditions = [eq(clientCompanies.organizationId, orgId)];
+
+    // Add search condition (case-insensitive across multiple fields)
+    if (search) {
+      conditions.push(
+        or(
+          ilike(clientCompanies.name, `%${search}%`),
+          ilike(clientCompanies.website, `%${search}%`),
+          ilike(clientCompanies.industry, `%${search}%`),
+          ilike(clientCompanies.city, `%${search}%`),
+          ilike(clientCompanies.country, `%${search}%`),
+        )!,
+      );
+    }
+
+    // Add filter conditions
+    if (industry) {
+      conditions.push(eq(clientCompanies.industry, industry));
+    }
+    if (city) {
+      conditions.push(eq(clientCompanies.city, city));
+    }
+    if (state) {
+      conditions.push(eq(clientCompanies.state, state));
+    }
+    if (country) {
+      conditions.push(eq(clientCompanies.country, country));
+    }
+
+    return conditions;
+  }
+
   async getClientCompanyWithRelations(
     id: string,
     orgId: string,
@@ -874,6 +1278,471 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount ?? 0) > 0;
   }
 
+  /**
+   * CSV imports write all rows or none. Rows go in batches to stay under the Postgres
+   * parameter limit.
+   */
+  async importClientCompanies(rows: InsertClientCompany[]): Promise<ClientCompany[]> {
+    return db.transaction(async (tx) => {
+      const created: ClientCompany[] = [];
+      for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+        created.push(
+          ...(await tx.insert(clientCompanies).values(rows.slice(start, start + IMPORT_BATCH_SIZE)).returning()),
+        );
+      }
+      return created;
+    });
+  }
+
+  async importContacts(rows: InsertContact[]): Promise<Contact[]> {
+    return db.transaction(async (tx) => {
+      const created: Contact[] = [];
+      for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+        created.push(...(await tx.insert(contacts).values(rows.slice(start, start + IMPORT_BATCH_SIZE)).returning()));
+      }
+      return created;
+    });
+  }
+
+  /** Like `createDeal` for each row: records the entry stage and a `deal.created` event. */
+  async importDeals(rows: (InsertDeal & { status: DealStatus })[], movedById?: string): Promise<Deal[]> {
+    return db.transaction(async (tx) => {
+      const created: Deal[] = [];
+      for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+        const batch = await tx.insert(deals).values(rows.slice(start, start + IMPORT_BATCH_SIZE)).returning();
+        await tx.insert(dealStageHistory).values(
+          batch.map((deal) => ({
+            organizationId: deal.organizationId,
+            dealId: deal.id,
+            fromStageId: null,
+            toStageId: deal.stageId,
+            movedById: movedById ?? null,
+          })),
+        );
+        await tx.insert(outbox).values(
+          batch.map((deal) => ({
+            organizationId: deal.organizationId,
+            eventType: "deal.created",
+            payload: deal,
+            metadata: { source: "import" },
+          })),
+        );
+        created.push(...batch);
+      }
+      return created;
+    });
+  }
+
+  /**
+   * Read every record matching the list filters, newest first, in batches of
+   * EXPORT_BATCH_SIZE so large exports are never held in memory. Each batch is its own short
+   * query that resumes after the last (createdAt, id) read, so a slow download holds no
+   * transaction open and records created during the export neither shift nor repeat rows.
+   * Resolves with the number of records read.
+   */
+  async exportRecords<K extends ExportEntityType>(
+    entityType: K,
+    orgId: string,
+    filters: ExportFilters,
+    onBatch: (records: ExportRecordMap[K][]) => Promise<void>,
+  ): Promise<number> {
+    const table: (typeof EXPORT_TABLES)[ExportEntityType] = EXPORT_TABLES[entityType];
+    const conditions =
+      entityType === "clients"
+        ? this.clientFilterConditions(orgId, filters)
+        : [eq(table.organizationId, orgId)];
+    if (entityType === "tasks" && filters.projectId) {
+      conditions.push(eq(tasks.projectId, filters.projectId));
+    }
+
+    // Stored timestamps carry microseconds but Dates only milliseconds, so page on the millisecond
+    const createdAt = sql`date_trunc('milliseconds', ${table.createdAt})`;
+    let exported = 0;
+    let last: { createdAt: string; id: string } | undefined;
+    for (;;) {
+      const after = last
+        ? or(
+            lt(createdAt, last.createdAt),
+            and(eq(createdAt, last.createdAt), lt(table.id, last.id)),
+          )
+        : undefined;
+      const batch = (await db
+        .select()
+        .from(table)
+        .where(and(...conditions, after))
+        .orderBy(desc(createdAt), desc(table.id))
+        .limit(EXPORT_BATCH_SIZE)) as ExportRecordMap[K][];
+      if (batch.length > 0) await onBatch(batch);
+      exported += batch.length;
+      if (batch.length < EXPORT_BATCH_SIZE) return exported;
+      const { createdAt: lastCreatedAt, id } = batch[batch.length - 1];
+      last = { createdAt: lastCreatedAt.toISOString(), id };
+    }
+  }
+
+  async getDuplicateDismissals(
+    orgId: string,
+    entityType: DuplicateEntityType,
+  ): Promise<DuplicateDismissal[]> {
+    return db
+      .select()
+      .from(duplicateDismissals)
+      .where(
+        and(eq(duplicateDismissals.organizationId, orgId), eq(duplicateDismissals.entityType, entityType)),
+      );
+  }
+
+  async dismissDuplicate(
+    orgId: string,
+    entityType: DuplicateEntityType,
+    recordIds: [string, string],
+    dismissedById: string,
+  ): Promise<void> {
+    const [firstId, secondId] = [...recordIds].sort();
+    await db
+      .insert(duplicateDismissals)
+      .values({ organizationId: orgId, entityType, firstId, secondId, dismissedById })
+      .onConflictDoNothing();
+  }
+
+  /**
+   * Fold `duplicateId` into `survivorId`: every contact, deal, proposal, contract, engagement
+   * and invoice of the duplicate moves to the survivor, the survivor's blank fields are filled
+   * from the duplicate, and the duplicate is deleted. Returns undefined if either is missing.
+   */
+  async mergeClientCompanies(
+    survivorId: string,
+    duplicateId: string,
+    orgId: string,
+    actor: { id: string; name: string },
+  ): Promise<MergeResult<ClientCompany> | undefined> {
+    return db.transaction(async (tx) => {
+      const locked = await tx
+        .select()
+        .from(clientCompanies)
+        .where(
+          and(inArray(clientCompanies.id, [survivorId, duplicateId]), eq(clientCompanies.organizationId, orgId)),
+        )
+        .for("update");
+      const survivor = locked.find((client) => client.id === survivorId);
+      const duplicate = locked.find((client) => client.id === duplicateId);
+      if (!survivor || !duplicate || survivorId === duplicateId) return undefined;
+
+      const moved: Record<string, number> = {};
+      for (const [name, table] of [
+        ["contacts", contacts],
+        ["deals", deals],
+        ["proposals", proposals],
+        ["contracts", contracts],
+        ["engagements", engagements],
+        ["invoices", invoices],
+      ] as const) {
+        const result = await tx
+          .update(table)
+          .set({ clientCompanyId: survivorId })
+          .where(and(eq(table.clientCompanyId, duplicateId), eq(table.organizationId, orgId)));
+        moved[name] = result.rowCount ?? 0;
+      }
+
+      const [record] = await tx
+        .update(clientCompanies)
+        .set({
+          ...fillBlankFields(survivor, duplicate, [
+            "website",
+            "industry",
+            "address",
+            "city",
+            "state",
+            "zipCode",
+            "country",
+            "notes",
+          ]),
+          updatedAt: new Date(),
+        })
+        .where(eq(clientCompanies.id, survivorId))
+        .returning();
+
+      await this.finishMerge(tx, "client", orgId, survivorId, duplicateId);
+      await tx.delete(clientCompanies).where(eq(clientCompanies.id, duplicateId));
+      await tx.insert(activityEvents).values({
+        organizationId: orgId,
+        entityType: "client",
+        entityId: survivorId,
+        actorId: actor.id,
+        actorName: actor.name,
+        type: "merged",
+        description: `Merged client ${duplicate.name} into ${survivor.name}`,
+        metadata: { mergedId: duplicateId, mergedName: duplicate.name, moved },
+      });
+
+      return { record, mergedId: duplicateId, moved };
+    });
+  }
+
+  /**
+   * Fold contact `duplicateId` into `survivorId`, moving its deals, proposals, contracts,
+   * engagements and portal access; see `mergeClientCompanies`.
+   */
+  async mergeContacts(
+    survivorId: string,
+    duplicateId: string,
+    orgId: string,
+    actor: { id: string; name: string },
+  ): Promise<MergeResult<Contact> | undefined> {
+    return db.transaction(async (tx) => {
+      const locked = await tx
+        .select()
+        .from(contacts)
+        .where(and(inArray(contacts.id, [survivorId, duplicateId]), eq(contacts.organizationId, orgId)))
+        .for("update");
+      const survivor = locked.find((contact) => contact.id === survivorId);
+      const duplicate = locked.find((contact) => contact.id === duplicateId);
+      if (!survivor || !duplicate || survivorId === duplicateId) return undefined;
+
+      const moved: Record<string, number> = {};
+      for (const [name, table] of [
+        ["deals", deals],
+        ["proposals", proposals],
+        ["contracts", contracts],
+        ["engagements", engagements],
+        ["portalAccess", clientPortalAccess],
+      ] as const) {
+        const result = await tx
+          .update(table)
+          .set({ contactId: survivorId })
+          .where(and(eq(table.contactId, duplicateId), eq(table.organizationId, orgId)));
+        moved[name] = result.rowCount ?? 0;
+      }
+
+      const [record] = await tx
+        .update(contacts)
+        .set({
+          ...fillBlankFields(survivor, duplicate, ["clientCompanyId", "email", "phone", "title", "notes"]),
+          isPrimary: Boolean(survivor.isPrimary || duplicate.isPrimary),
+          updatedAt: new Date(),
+        })
+        .where(eq(contacts.id, survivorId))
+        .returning();
+
+      const duplicateName = `${duplicate.firstName} ${duplicate.lastName}`;
+      await this.finishMerge(tx, "contact", orgId, survivorId, duplicateId);
+      await tx.delete(contacts).where(eq(contacts.id, duplicateId));
+      await tx.insert(activityEvents).values({
+        organizationId: orgId,
+        entityType: "contact",
+        entityId: survivorId,
+        actorId: actor.id,
+        actorName: actor.name,
+        type: "merged",
+        description: `Merged contact ${duplicateName} into ${survivor.firstName} ${survivor.lastName}`,
+        metadata: { mergedId: duplicateId, mergedName: duplicateName, moved },
+      });
+
+      return { record, mergedId: duplicateId, moved };
+    });
+  }
+
+  /**
+   * Bookkeeping shared by both merges: activity of the duplicate moves to the survivor, and
+   * "not duplicates" reviews of the deleted record are dropped.
+   */
+  private async finishMerge(
+    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    entityType: DuplicateEntityType,
+    orgId: string,
+    survivorId: string,
+    duplicateId: string,
+  ): Promise<void> {
+    await tx
+      .update(activityEvents)
+      .set({ entityId: survivorId })
+      .where(
+        and(
+          eq(activityEvents.organizationId, orgId),
+          eq(activityEvents.entityType, entityType),
+          eq(activityEvents.entityId, duplicateId),
+        ),
+      );
+    await tx
+      .delete(duplicateDismissals)
+      .where(
+        and(
+          eq(duplicateDismissals.organizationId, orgId),
+          eq(duplicateDismissals.entityType, entityType),
+          or(eq(duplicateDismissals.firstId, duplicateId), eq(duplicateDismissals.secondId, duplicateId)),
+        ),
+      );
+  }
+
+  /**
+   * Give an organization without pipelines the default one. Runs before pipeline reads so
+   * deals always have somewhere to go.
+   */
+  private async ensureDefaultPipeline(
+    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    orgId: string,
+  ): Promise<void> {
+    const [existing] = await tx
+      .select({ id: dealPipelines.id })
+      .from(dealPipelines)
+      .where(eq(dealPipelines.organizationId, orgId))
+      .limit(1);
+    if (existing) return;
+    const [pipeline] = await tx
+      .insert(dealPipelines)
+      .values({ organizationId: orgId, name: DEFAULT_PIPELINE_NAME, isDefault: true })
+      .onConflictDoNothing()
+      .returning();
+    if (!pipeline) return;
+    await tx.insert(dealStages).values(
+      DEFAULT_PIPELINE_STAGES.map((stage, position) => ({
+        ...stage,
+        organizationId: orgId,
+        pipelineId: pipeline.id,
+        position,
+      })),
+    );
+  }
+
+  private async withStages(pipelineRows: DealPipeline[]): Promise<DealPipelineWithStages[]> {
+    if (pipelineRows.length === 0) return [];
+    const stageRows = await db
+      .select()
+      .from(dealStages)
+      .where(
+        inArray(
+          dealStages.pipelineId,
+          pipelineRows.map((pipeline) => pipeline.id),
+        ),
+      )
+      .orderBy(asc(dealStages.position));
+    return pipelineRows.map((pipeline) => ({
+      ...pipeline,
+      stages: stageRows.filter((stage) => stage.pipelineId === pipeline.id),
+    }));
+  }
+
+  async getDealPipelines(orgId: string): Promise<DealPipelineWithStages[]> {
+    await db.transaction((tx) => this.ensureDefaultPipeline(tx, orgId));
+    const pipelineRows = await db
+      .select()
+      .from(dealPipelines)
+      .where(eq(dealPipelines.organizationId, orgId))
+      .orderBy(asc(dealPipelines.position), asc(dealPipelines.createdAt));
+    return this.withStages(pipelineRows);
+  }
+
+  async getDealPipeline(id: string, orgId: string): Promise<DealPipelineWithStages | undefined> {
+    const pipelineRows = await db
+      .select()
+      .from(dealPipelines)
+      .where(and(eq(dealPipelines.id, id), eq(dealPipelines.organizationId, orgId)));
+    const [pipeline] = await this.withStages(pipelineRows);
+    return pipeline;
+  }
+
+  async getDefaultDealPipeline(orgId: string): Promise<DealPipelineWithStages> {
+    const pipelines = await this.getDealPipelines(orgId);
+    return pipelines.find((pipeline) => pipeline.isDefault) ?? pipelines[0];
+  }
+
+  async getDealStage(id: string, orgId: string): Promise<DealStage | undefined> {
+    const [stage] = await db
+      .select()
+      .from(dealStages)
+      .where(and(eq(dealStages.id, id), eq(dealStages.organizationId, orgId)));
+    return stage;
+  }
+
+  async countDealsByStage(pipelineId: string, orgId: string): Promise<Map<string, number>> {
+    const rows = await db
+      .select({ stageId: deals.stageId, count: count() })
+      .from(deals)
+      .where(and(eq(deals.pipelineId, pipelineId), eq(deals.organizationId, orgId)))
+      .groupBy(deals.stageId);
+    return new Map(rows.map((row) => [row.stageId, Number(row.count)]));
+  }
+
+  async createDealPipeline(data: InsertDealPipeline): Promise<DealPipelineWithStages> {
+    const { stages, ...pipelineData } = data;
+    const pipelineId = await db.transaction(async (tx) => {
+      await this.ensureDefaultPipeline(tx, data.organizationId);
+      if (pipelineData.isDefault) {
+        await tx
+          .update(dealPipelines)
+          .set({ isDefault: false, updatedAt: new Date() })
+          .where(eq(dealPipelines.organizationId, data.organizationId));
+      }
+      const [pipeline] = await tx.insert(dealPipelines).values(pipelineData).returning();
+      await tx.insert(dealStages).values(
+        stages.map(({ id: _id, ...stage }, position) => ({
+          ...stage,
+          organizationId: data.organizationId,
+          pipelineId: pipeline.id,
+          position,
+        })),
+      );
+      return pipeline.id;
+    });
+    return (await this.getDealPipeline(pipelineId, data.organizationId))!;
+  }
+
+  /**
+   * Update a pipeline and, when `stages` is given, make its stages match the list: stages with
+   * an `id` are updated and reordered, new ones are added and the rest are removed. Callers
+   * check that removed stages hold no deals.
+   */
+  async updateDealPipeline(
+    id: string,
+    orgId: string,
+    data: Partial<InsertDealPipeline>,
+  ): Promise<DealPipelineWithStages | undefined> {
+    const { stages, organizationId: _organizationId, ...pipelineData } = data;
+    const updated = await db.transaction(async (tx) => {
+      if (pipelineData.isDefault) {
+        await tx
+          .update(dealPipelines)
+          .set({ isDefault: false, updatedAt: new Date() })
+          .where(and(eq(dealPipelines.organizationId, orgId), ne(dealPipelines.id, id)));
+      }
+      const [pipeline] = await tx
+        .update(dealPipelines)
+        .set({ ...pipelineData, updatedAt: new Date() })
+        .where(and(eq(dealPipelines.id, id), eq(dealPipelines.organizationId, orgId)))
+        .returning();
+      if (!pipeline) return undefined;
+      if (stages) {
+        const keptIds = stages.flatMap((stage) => (stage.id ? [stage.id] : []));
+        await tx
+          .delete(dealStages)
+          .where(
+            keptIds.length > 0
+              ? and(eq(dealStages.pipelineId, id), notInArray(dealStages.id, keptIds))
+              : eq(dealStages.pipelineId, id),
+          );
+        for (const [position, { id: stageId, ...stage }] of stages.entries()) {
+          if (stageId) {
+            await tx
+              .update(dealStages)
+              .set({ ...stage, position, updatedAt: new Date() })
+              .where(and(eq(dealStages.id, stageId), eq(dealStages.pipelineId, id)));
+          } else {
+            await tx.insert(dealStages).values({ ...stage, organizationId: orgId, pipelineId: id, position });
+          }
+        }
+      }
+      return pipeline;
+    });
+    return updated ? this.getDealPipeline(id, orgId) : undefined;
+  }
+
+  async deleteDealPipeline(id: string, orgId: string): Promise<boolean> {
+    const result = await db
+      .delete(dealPipelines)
+      .where(and(eq(dealPipelines.id, id), eq(dealPipelines.organizationId, orgId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
   async getDeals(orgId: string): Promise<Deal[]> {
     return db
       .select()
@@ -890,8 +1759,18 @@ export class DatabaseStorage implements IStorage {
     return deal;
   }
 
-  async createDeal(data: InsertDeal): Promise<Deal> {
-    const [deal] = await db.insert(deals).values(data).returning();
+  async createDeal(data: InsertDeal & { status?: DealStatus }, movedById?: string): Promise<Deal> {
+    const deal = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(deals).values(data).returning();
+      await tx.insert(dealStageHistory).values({
+        organizationId: created.organizationId,
+        dealId: created.id,
+        fromStageId: null,
+        toStageId: created.stageId,
+        movedById: movedById ?? null,
+      });
+      return created;
+    });
     await this.createOutboxEvent({
       organizationId: deal.organizationId,
       eventType: "deal.created",
@@ -904,14 +1783,33 @@ export class DatabaseStorage implements IStorage {
   async updateDeal(
     id: string,
     orgId: string,
-    data: Partial<InsertDeal>,
+    data: Partial<InsertDeal & { status: DealStatus }>,
+    movedById?: string,
   ): Promise<Deal | undefined> {
-    const [deal] = await db
-      .update(deals)
-      .set({ ...data, updatedAt: new Date() })
-      .where(and(eq(deals.id, id), eq(deals.organizationId, orgId)))
-      .returning();
-    
+    const deal = await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(deals)
+        .where(and(eq(deals.id, id), eq(deals.organizationId, orgId)))
+        .for("update");
+      if (!current) return undefined;
+      const [updated] = await tx
+        .update(deals)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(deals.id, id))
+        .returning();
+      if (updated.stageId !== current.stageId) {
+        await tx.insert(dealStageHistory).values({
+          organizationId: orgId,
+          dealId: id,
+          fromStageId: current.stageId,
+          toStageId: updated.stageId,
+          movedById: movedById ?? null,
+        });
+      }
+      return updated;
+    });
+
     if (deal) {
       await this.createOutboxEvent({
         organizationId: orgId,
@@ -923,11 +1821,141 @@ export class DatabaseStorage implements IStorage {
     return deal;
   }
 
-  async deleteDeal(id: string, orgId: string): Promise<boolean> {
-    const result = await db
-      .delete(deals)
-      .where(and(eq(deals.id, id), eq(deals.organizationId, orgId)));
-    return (result.rowCount ?? 0) > 0;
+  async getDealStageHistory(dealId: string, orgId: string): Promise<DealStageTransition[]> {
+    return db
+      .select()
+      .from(dealStageHistory)
+      .where(and(eq(dealStageHistory.dealId, dealId), eq(dealStageHistory.organizationId, orgId)))
+      .orderBy(asc(dealStageHistory.movedAt));
+  }
+
+  async getDealStageTransitions(orgId: string): Promise<DealStageTransition[]> {
+    return db
+      .select()
+      .from(dealStageHistory)
+      .where(eq(dealStageHistory.organizationId, orgId))
+      .orderBy(asc(dealStageHistory.movedAt));
+  }
+
+  async runDealWonAutomation(
+    dealId: string,
+    orgId: string,
+    options: { createEngagement: boolean },
+  ): Promise<DealWonAutomation | undefined> {
+    return db.transaction(async (tx) => {
+      // The deal row lock serializes deliveries of the same event; the unique deal id on
+      // dealWonAutomations makes later deliveries return the first run.
+      const [deal] = await tx
+        .select()
+        .from(deals)
+        .where(and(eq(deals.id, dealId), eq(deals.organizationId, orgId)))
+        .for("update");
+      if (!deal || deal.status !== "won") return undefined;
+
+      const [existing] = await tx
+        .select()
+        .from(dealWonAutomations)
+        .where(eq(dealWonAutomations.dealId, dealId));
+      if (existing) return existing;
+
+      const [proposal] = await tx
+        .select()
+        .from(proposals)
+        .where(
+          and(
+            eq(proposals.dealId, dealId),
+            eq(proposals.organizationId, orgId),
+            eq(proposals.status, "accepted"),
+          ),
+        )
+        .orderBy(desc(sql`coalesce(${proposals.respondedAt}, ${proposals.updatedAt})`))
+        .limit(1);
+
+      let contract: Contract | undefined;
+      if (proposal) {
+        [contract] = await tx
+          .select()
+          .from(contracts)
+          .where(and(eq(contracts.proposalId, proposal.id), eq(contracts.organizationId, orgId)))
+          .limit(1);
+        if (!contract) {
+          [contract] = await tx.insert(contracts).values(buildDraftContract(deal, proposal)).returning();
+          await tx.insert(activityEvents).values({
+            organizationId: orgId,
+            entityType: "contract",
+            entityId: contract.id,
+            ...POST_SALE_ACTOR,
+            type: "created",
+            description: `Draft contract created from proposal ${proposal.name} when deal ${deal.name} was won`,
+            metadata: { dealId, proposalId: proposal.id },
+          });
+        }
+      }
+
+      let engagement: Engagement | undefined;
+      if (options.createEngagement) {
+        [engagement] = await tx
+          .select()
+          .from(engagements)
+          .where(and(eq(engagements.dealId, dealId), eq(engagements.organizationId, orgId)))
+          .limit(1);
+        if (!engagement) {
+          [engagement] = await tx.insert(engagements).values(buildWonEngagement(deal, contract)).returning();
+          await tx.insert(activityEvents).values({
+            organizationId: orgId,
+            entityType: "engagement",
+            entityId: engagement.id,
+            engagementId: engagement.id,
+            ...POST_SALE_ACTOR,
+            type: "created",
+            description: `Engagement opened when deal ${deal.name} was won`,
+            metadata: { dealId, contractId: contract?.id ?? null },
+          });
+        }
+      }
+
+      const [automation] = await tx
+        .insert(dealWonAutomations)
+        .values({
+          organizationId: orgId,
+          dealId,
+          proposalId: proposal?.id ?? null,
+          contractId: contract?.id ?? null,
+          engagementId: engagement?.id ?? null,
+        })
+        .returning();
+      return automation;
+    });
+  }
+
+  async claimDealWonNotification(id: string, orgId: string): Promise<boolean> {
+    const [claimed] = await db
+      .update(dealWonAutomations)
+      .set({ ownerNotifiedAt: new Date() })
+      .where(
+        and(
+          eq(dealWonAutomations.id, id),
+          eq(dealWonAutomations.organizationId, orgId),
+          isNull(dealWonAutomations.ownerNotifiedAt),
+        ),
+      )
+      .returning();
+    return claimed !== undefined;
+  }
+
+  async releaseDealWonNotification(id: string, orgId: string): Promise<boolean> {
+    const result = await db
+      .update(dealWonAutomations)
+      .set({ ownerNotifiedAt: null })
+      .where(and(eq(dealWonAutomations.id, id), eq(dealWonAutomations.organizationId, orgId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async deleteDeal(id: string, orgId: string): Promise<boolean> {
+    const result = await db
+      .delete(deals)
+      .where(and(eq(deals.id, id), eq(deals.organizationId, orgId)));
+    return (result.rowCount ?? 0) > 0;
   }
 
   async getProposals(orgId: string): Promise<Proposal[]> {
@@ -1134,6 +2162,167 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount ?? 0) > 0;
   }
 
+  async getTimeEntries(
+    orgId: string,
+    filters: { userId?: string; engagementId?: string; status?: TimeEntryStatus; from?: Date; to?: Date } = {},
+  ): Promise<TimeEntry[]> {
+    return db
+      .select()
+      .from(timeEntries)
+      .where(
+        and(
+          eq(timeEntries.organizationId, orgId),
+          filters.userId ? eq(timeEntries.userId, filters.userId) : undefined,
+          filters.engagementId ? eq(timeEntries.engagementId, filters.engagementId) : undefined,
+          filters.status ? eq(timeEntries.status, filters.status) : undefined,
+          filters.from ? gte(timeEntries.date, filters.from) : undefined,
+          filters.to ? lt(timeEntries.date, filters.to) : undefined,
+        ),
+      )
+      .orderBy(asc(timeEntries.date), asc(timeEntries.createdAt));
+  }
+
+  async getTimeEntry(id: string, orgId: string): Promise<TimeEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(timeEntries)
+      .where(and(eq(timeEntries.id, id), eq(timeEntries.organizationId, orgId)));
+    return entry;
+  }
+
+  async getRunningTimeEntry(orgId: string, userId: string): Promise<TimeEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(timeEntries)
+      .where(
+        and(
+          eq(timeEntries.organizationId, orgId),
+          eq(timeEntries.userId, userId),
+          isNotNull(timeEntries.timerStartedAt),
+        ),
+      );
+    return entry;
+  }
+
+  /** Returns undefined when starting a timer while the user already has one running. */
+  async createTimeEntry(
+    data: InsertTimeEntry & { engagementId: string; timerStartedAt?: Date },
+  ): Promise<TimeEntry | undefined> {
+    const [entry] = await db.insert(timeEntries).values(data).onConflictDoNothing().returning();
+    return entry;
+  }
+
+  async updateTimeEntry(
+    id: string,
+    orgId: string,
+    data: Partial<InsertTimeEntry> & { engagementId?: string },
+  ): Promise<TimeEntry | undefined> {
+    const [entry] = await db
+      .update(timeEntries)
+      .set({ ...data, updatedAt: new Date() })
+      .where(
+        and(
+          eq(timeEntries.id, id),
+          eq(timeEntries.organizationId, orgId),
+          inArray(timeEntries.status, ["draft", "rejected"]),
+          isNull(timeEntries.invoiceId),
+        ),
+      )
+      .returning();
+    return entry;
+  }
+
+  async deleteTimeEntry(id: string, orgId: string): Promise<boolean> {
+    const result = await db
+      .delete(timeEntries)
+      .where(
+        and(
+          eq(timeEntries.id, id),
+          eq(timeEntries.organizationId, orgId),
+          inArray(timeEntries.status, ["draft", "rejected"]),
+          isNull(timeEntries.invoiceId),
+        ),
+      );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /** Adds the timer's elapsed minutes to the entry; undefined if no timer is running on it. */
+  async stopTimeEntryTimer(id: string, orgId: string, now: Date): Promise<TimeEntry | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(timeEntries)
+        .where(and(eq(timeEntries.id, id), eq(timeEntries.organizationId, orgId)))
+        .for("update");
+      if (!current?.timerStartedAt) return undefined;
+      const [entry] = await tx
+        .update(timeEntries)
+        .set({
+          durationMinutes: current.durationMinutes + getTimerMinutes(current.timerStartedAt, now),
+          timerStartedAt: null,
+          updatedAt: now,
+        })
+        .where(eq(timeEntries.id, id))
+        .returning();
+      return entry;
+    });
+  }
+
+  /** Moves the week's draft and rejected entries to submitted; running timers stay draft. */
+  async submitTimesheet(orgId: string, userId: string, week: { start: Date; end: Date }): Promise<TimeEntry[]> {
+    return db
+      .update(timeEntries)
+      .set({ status: "submitted", submittedAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(
+          eq(timeEntries.organizationId, orgId),
+          eq(timeEntries.userId, userId),
+          gte(timeEntries.date, week.start),
+          lt(timeEntries.date, week.end),
+          inArray(timeEntries.status, ["draft", "rejected"]),
+          isNull(timeEntries.timerStartedAt),
+        ),
+      )
+      .returning();
+  }
+
+  /** Approves or rejects every submitted entry in the user's week. */
+  async reviewTimesheet({
+    orgId,
+    userId,
+    week,
+    decision,
+    reviewedById,
+    note,
+  }: {
+    orgId: string;
+    userId: string;
+    week: { start: Date; end: Date };
+    decision: "approved" | "rejected";
+    reviewedById: string;
+    note?: string;
+  }): Promise<TimeEntry[]> {
+    return db
+      .update(timeEntries)
+      .set({
+        status: decision,
+        reviewedById,
+        reviewedAt: new Date(),
+        reviewNote: note || null,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(timeEntries.organizationId, orgId),
+          eq(timeEntries.userId, userId),
+          gte(timeEntries.date, week.start),
+          lt(timeEntries.date, week.end),
+          eq(timeEntries.status, "submitted"),
+        ),
+      )
+      .returning();
+  }
+
   async getThreads(orgId: string): Promise<Thread[]> {
     return db
       .select()
@@ -1188,22 +2377,180 @@ export class DatabaseStorage implements IStorage {
     return invoice;
   }
 
-  async createInvoice(data: InsertInvoice): Promise<Invoice> {
-    const [invoice] = await db.insert(invoices).values(data).returning();
+  async createInvoice(data: Omit<InsertInvoice, "invoiceNumber">): Promise<Invoice> {
+    return db.transaction((tx) => this.insertInvoice(tx, data));
+  }
+
+  private async insertInvoice(
+    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    data: Omit<InsertInvoice, "invoiceNumber">,
+  ): Promise<Invoice> {
+    const invoiceNumber =
+      !data.status || data.status === "draft"
+        ? buildDraftNumber()
+        : await this.allocateDocumentNumber(tx, data.organizationId, "invoice", new Date());
+    const [invoice] = await tx.insert(invoices).values({ ...data, invoiceNumber }).returning();
+    await this.reconcileJournal(tx, invoice.organizationId, "invoice", invoice.id, invoiceJournalEntries(invoice));
     return invoice;
   }
 
+  async createInvoiceFromTimeEntries(
+    entryIds: string[],
+    data: Omit<InsertInvoice, "invoiceNumber" | "status">,
+  ): Promise<Invoice | undefined> {
+    return db.transaction(async (tx) => {
+      const entries = await tx
+        .select()
+        .from(timeEntries)
+        .where(
+          and(
+            inArray(timeEntries.id, entryIds),
+            eq(timeEntries.organizationId, data.organizationId),
+            eq(timeEntries.engagementId, data.engagementId),
+            eq(timeEntries.status, "approved"),
+            eq(timeEntries.billable, true),
+            isNull(timeEntries.invoiceId),
+          ),
+        )
+        .for("update");
+      if (entries.length !== new Set(entryIds).size) return undefined;
+
+      const invoice = await this.insertInvoice(tx, { ...data, status: "draft" });
+      await tx
+        .update(timeEntries)
+        .set({ invoiceId: invoice.id, updatedAt: new Date() })
+        .where(inArray(timeEntries.id, entryIds));
+      return invoice;
+    });
+  }
+
+  /**
+   * Update an invoice that is leaving draft (sent, or otherwise issued), allocating its
+   * number from the org sequence in the same transaction if it still has a draft number.
+   */
+  async issueInvoice(id: string, orgId: string, data: Partial<InsertInvoice>): Promise<Invoice | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(invoices)
+        .where(and(eq(invoices.id, id), eq(invoices.organizationId, orgId)))
+        .for("update");
+      if (!current) return undefined;
+
+      const invoiceNumber = isDraftNumber(current.invoiceNumber)
+        ? await this.allocateDocumentNumber(tx, orgId, "invoice", new Date())
+        : current.invoiceNumber;
+      const [invoice] = await tx
+        .update(invoices)
+        .set({ ...data, invoiceNumber, updatedAt: new Date() })
+        .where(eq(invoices.id, id))
+        .returning();
+      if (data.totalAmount !== undefined) return this.syncInvoicePayments(tx, id, orgId);
+      await this.reconcileJournal(tx, orgId, "invoice", invoice.id, invoiceJournalEntries(invoice));
+      return invoice;
+    });
+  }
+
+  /**
+   * Take the next number from the org's sequence for `documentType`, creating the
+   * sequence with default settings on first use. The sequence row stays locked until the
+   * caller's transaction ends, so numbers are unique and a rolled-back write frees its
+   * number for the next caller.
+   */
+  private async allocateDocumentNumber(
+    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    orgId: string,
+    documentType: NumberedDocumentType,
+    date: Date,
+  ): Promise<string> {
+    const defaults = withNumberingDefaults(documentType);
+    await tx
+      .insert(numberingSequences)
+      .values({
+        organizationId: orgId,
+        documentType,
+        pattern: defaults.pattern,
+        resetPeriod: defaults.resetPeriod,
+        period: getNumberingPeriod(defaults.resetPeriod, date),
+      })
+      .onConflictDoNothing({ target: [numberingSequences.organizationId, numberingSequences.documentType] });
+
+    const [sequence] = await tx
+      .select()
+      .from(numberingSequences)
+      .where(and(eq(numberingSequences.organizationId, orgId), eq(numberingSequences.documentType, documentType)))
+      .for("update");
+
+    const value = getNextSequenceValue(sequence, date);
+    await tx
+      .update(numberingSequences)
+      .set({ period: getNumberingPeriod(sequence.resetPeriod, date), nextValue: value + 1, updatedAt: new Date() })
+      .where(eq(numberingSequences.id, sequence.id));
+    return formatDocumentNumber(sequence.pattern, value, date);
+  }
+
+  async getNumberingSequences(orgId: string): Promise<NumberingSequence[]> {
+    return db.select().from(numberingSequences).where(eq(numberingSequences.organizationId, orgId));
+  }
+
+  /**
+   * Change a sequence's pattern / reset period. The counter carries on from where it is
+   * (re-keyed to the current period) so switching reset periods can't reissue numbers.
+   */
+  async updateNumberingSequence(
+    orgId: string,
+    documentType: NumberedDocumentType,
+    data: NumberingSequenceSettings,
+  ): Promise<NumberingSequence> {
+    const period = getNumberingPeriod(data.resetPeriod, new Date());
+    return db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(numberingSequences)
+        .where(and(eq(numberingSequences.organizationId, orgId), eq(numberingSequences.documentType, documentType)))
+        .for("update");
+
+      if (!current) {
+        const [created] = await tx
+          .insert(numberingSequences)
+          .values({ organizationId: orgId, documentType, ...data, period })
+          .returning();
+        return created;
+      }
+
+      const [updated] = await tx
+        .update(numberingSequences)
+        .set({
+          ...data,
+          period,
+          nextValue: getNextSequenceValue(current, new Date()),
+          updatedAt: new Date(),
+        })
+        .where(eq(numberingSequences.id, current.id))
+        .returning();
+      return updated;
+    });
+  }
+
   async updateInvoice(
     id: string,
     orgId: string,
     data: Partial<InsertInvoice>,
   ): Promise<Invoice | undefined> {
-    const [invoice] = await db
-      .update(invoices)
-      .set({ ...data, updatedAt: new Date() })
-      .where(and(eq(invoices.id, id), eq(invoices.organizationId, orgId)))
-      .returning();
-    return invoice;
+    return db.transaction(async (tx) => {
+      const [invoice] = await tx
+        .update(invoices)
+        .set({ ...data, updatedAt: new Date() })
+        .where(and(eq(invoices.id, id), eq(invoices.organizationId, orgId)))
+        .returning();
+      if (!invoice) return undefined;
+      // New totals move the balance, so paid/partially paid is re-derived (and the journal
+      // reconciled) from the payments ledger
+      if (data.totalAmount !== undefined) return this.syncInvoicePayments(tx, id, orgId);
+      // Cancelling or re-pricing an issued invoice reverses (and reposts) its revenue
+      await this.reconcileJournal(tx, orgId, "invoice", invoice.id, invoiceJournalEntries(invoice));
+      return invoice;
+    });
   }
 
   async deleteInvoice(id: string, orgId: string): Promise<boolean> {
@@ -1213,70 +2560,1441 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount ?? 0) > 0;
   }
 
-  async getBills(orgId: string): Promise<Bill[]> {
+  async getInvoicePayments(invoiceId: string, orgId: string): Promise<Payment[]> {
     return db
       .select()
-      .from(bills)
-      .where(eq(bills.organizationId, orgId))
-      .orderBy(desc(bills.createdAt));
+      .from(payments)
+      .where(and(eq(payments.invoiceId, invoiceId), eq(payments.organizationId, orgId)))
+      .orderBy(asc(payments.paidAt));
   }
 
-  async getBill(id: string, orgId: string): Promise<Bill | undefined> {
-    const [bill] = await db
-      .select()
-      .from(bills)
-      .where(and(eq(bills.id, id), eq(bills.organizationId, orgId)));
-    return bill;
+  async recordInvoicePayment(
+    invoiceId: string,
+    orgId: string,
+    data: InsertPayment,
+  ): Promise<{ payment: Payment; invoice: Invoice } | { error: string; invoice: Invoice } | undefined> {
+    return db.transaction((tx) => this.insertInvoicePayment(tx, invoiceId, orgId, data));
   }
 
-  async createBill(data: InsertBill): Promise<Bill> {
-    const [bill] = await db.insert(bills).values(data).returning();
-    return bill;
+  /**
+   * Record a payment, resync its invoice, post it to the journal and emit `invoice.payment_recorded`.
+   * The invoice is locked and checked first, so concurrent payments cannot together exceed the
+   * balance; a cancelled invoice or an overpayment returns the reason and records nothing.
+   */
+  private async insertInvoicePayment(
+    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    invoiceId: string,
+    orgId: string,
+    data: InsertPayment,
+  ): Promise<{ payment: Payment; invoice: Invoice } | { error: string; invoice: Invoice } | undefined> {
+    const [current] = await tx
+      .select()
+      .from(invoices)
+      .where(and(eq(invoices.id, invoiceId), eq(invoices.organizationId, orgId)))
+      .for("update");
+    if (!current) return undefined;
+    const refusal = getPaymentRefusal(current, data.amount);
+    if (refusal) return { error: refusal, invoice: current };
+
+    const [payment] = await tx
+      .insert(payments)
+      .values({ ...data, invoiceId, organizationId: orgId })
+      .returning();
+    const invoice = await this.syncInvoicePayments(tx, invoiceId, orgId);
+    if (!invoice) return undefined;
+    await this.reconcileJournal(tx, orgId, "payment", payment.id, [paymentReceivedEntry(payment, invoice)]);
+
+    await tx.insert(outbox).values({
+      organizationId: orgId,
+      eventType: "invoice.payment_recorded",
+      payload: { payment, invoice },
+      metadata: { source: "storage" },
+    });
+    return { payment, invoice };
   }
 
-  async updateBill(
+  async voidInvoicePayment(
     id: string,
+    invoiceId: string,
     orgId: string,
-    data: Partial<InsertBill>,
-  ): Promise<Bill | undefined> {
-    const [bill] = await db
-      .update(bills)
-      .set({ ...data, updatedAt: new Date() })
-      .where(and(eq(bills.id, id), eq(bills.organizationId, orgId)))
-      .returning();
-    return bill;
+    voidedById: string,
+    reason: string,
+  ): Promise<{ payment: Payment; invoice: Invoice } | undefined> {
+    return db.transaction(async (tx) => {
+      const [payment] = await tx
+        .update(payments)
+        .set({ voidedAt: new Date(), voidedById, voidReason: reason })
+        .where(
+          and(
+            eq(payments.id, id),
+            eq(payments.invoiceId, invoiceId),
+            eq(payments.organizationId, orgId),
+            isNull(payments.voidedAt),
+          ),
+        )
+        .returning();
+      if (!payment) return undefined;
+
+      const invoice = await this.syncInvoicePayments(tx, invoiceId, orgId);
+      if (!invoice) return undefined;
+      await this.reconcileJournal(tx, orgId, "payment", payment.id, []);
+      // A statement line matched to this payment goes back to the reconciliation queue
+      await tx
+        .update(bankTransactions)
+        .set({
+          status: "unmatched",
+          matchedInvoiceId: null,
+          matchedPaymentId: null,
+          matchedById: null,
+          matchedAt: null,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(bankTransactions.matchedPaymentId, payment.id), eq(bankTransactions.organizationId, orgId)));
+
+      await tx.insert(outbox).values({
+        organizationId: orgId,
+        eventType: "invoice.payment_voided",
+        payload: { payment, invoice },
+        metadata: { source: "storage" },
+      });
+      return { payment, invoice };
+    });
   }
 
-  async deleteBill(id: string, orgId: string): Promise<boolean> {
-    const result = await db
-      .delete(bills)
-      .where(and(eq(bills.id, id), eq(bills.organizationId, orgId)));
-    return (result.rowCount ?? 0) > 0;
+  async getInvoicePaymentSessions(invoiceId: string, orgId: string): Promise<PaymentSession[]> {
+    return db
+      .select()
+      .from(paymentSessions)
+      .where(and(eq(paymentSessions.invoiceId, invoiceId), eq(paymentSessions.organizationId, orgId)))
+      .orderBy(desc(paymentSessions.createdAt));
   }
 
-  async getVendors(orgId: string): Promise<Vendor[]> {
+  async getPaymentSessionByProviderId(
+    provider: string,
+    providerSessionId: string,
+  ): Promise<PaymentSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(paymentSessions)
+      .where(and(eq(paymentSessions.provider, provider), eq(paymentSessions.providerSessionId, providerSessionId)));
+    return session;
+  }
+
+  async createPaymentSession(data: InsertPaymentSession): Promise<PaymentSession> {
+    return db.transaction(async (tx) => {
+      await tx
+        .update(paymentSessions)
+        .set({ status: "expired", updatedAt: new Date() })
+        .where(
+          and(
+            eq(paymentSessions.invoiceId, data.invoiceId),
+            eq(paymentSessions.organizationId, data.organizationId),
+            inArray(paymentSessions.status, REPLACEABLE_PAYMENT_SESSION_STATUSES),
+          ),
+        );
+      const [session] = await tx.insert(paymentSessions).values(data).returning();
+      return session;
+    });
+  }
+
+  async applyPaymentWebhookEvent(
+    provider: string,
+    event: PaymentWebhookEvent,
+  ): Promise<{ session: PaymentSession; applied: boolean; payment?: Payment; invoice?: Invoice } | undefined> {
+    return db.transaction(async (tx) => {
+      // Lock the session so duplicate deliveries of the same event serialize here
+      const [current] = await tx
+        .select()
+        .from(paymentSessions)
+        .where(
+          and(eq(paymentSessions.provider, provider), eq(paymentSessions.providerSessionId, event.providerSessionId)),
+        )
+        .for("update");
+      if (!current) return undefined;
+
+      const action = resolveWebhookAction(current.status as PaymentSessionStatus, event.type);
+      if (action === "ignore") return { session: current, applied: false };
+
+      if (action === "processing" || action === "fail") {
+        const [session] = await tx
+          .update(paymentSessions)
+          .set({
+            status: action === "fail" ? "failed" : "processing",
+            failureReason: action === "fail" ? (event.failureReason ?? "Payment failed") : null,
+            updatedAt: new Date(),
+          })
+          .where(eq(paymentSessions.id, current.id))
+          .returning();
+        return { session, applied: true };
+      }
+
+      const recorded = await this.insertInvoicePayment(tx, current.invoiceId, current.organizationId, {
+        invoiceId: current.invoiceId,
+        organizationId: current.organizationId,
+        amount: current.amount,
+        paymentMethod: "card",
+        referenceNumber: (event.reference ?? current.providerSessionId).slice(0, 100),
+        paidAt: new Date(),
+        notes: `Paid online (${provider})`,
+        createdById: current.createdById,
+      });
+      if (!recorded) return undefined;
+      // The invoice may have been paid, credited or cancelled since the session was created;
+      // money taken on top of the balance is flagged for refund instead of being recorded
+      if ("error" in recorded) {
+        const [session] = await tx
+          .update(paymentSessions)
+          .set({ status: "refund_required", failureReason: recorded.error, completedAt: new Date(), updatedAt: new Date() })
+          .where(eq(paymentSessions.id, current.id))
+          .returning();
+        await tx.insert(outbox).values({
+          organizationId: current.organizationId,
+          eventType: "invoice.payment_refund_required",
+          payload: { session, invoice: recorded.invoice, reference: event.reference ?? null, reason: recorded.error },
+          metadata: { source: "storage" },
+        });
+        return { session, applied: true, invoice: recorded.invoice };
+      }
+      const [session] = await tx
+        .update(paymentSessions)
+        .set({
+          status: "succeeded",
+          paymentId: recorded.payment.id,
+          failureReason: null,
+          completedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(paymentSessions.id, current.id))
+        .returning();
+      return { session, applied: true, payment: recorded.payment, invoice: recorded.invoice };
+    });
+  }
+
+  async getInvoiceRefunds(invoiceId: string, orgId: string): Promise<Refund[]> {
     return db
       .select()
-      .from(vendors)
-      .where(eq(vendors.organizationId, orgId))
-      .orderBy(desc(vendors.createdAt));
+      .from(refunds)
+      .where(and(eq(refunds.invoiceId, invoiceId), eq(refunds.organizationId, orgId)))
+      .orderBy(asc(refunds.refundedAt));
   }
 
-  async createVendor(data: InsertVendor): Promise<Vendor> {
-    const [vendor] = await db.insert(vendors).values(data).returning();
-    return vendor;
+  async recordRefund(
+    invoiceId: string,
+    orgId: string,
+    data: InsertRefund,
+  ): Promise<{ refund: Refund; invoice: Invoice } | { error: string } | undefined> {
+    return db.transaction(async (tx) => {
+      // Payment before invoice, the order voiding a payment locks them in
+      const [payment] = await tx
+        .select()
+        .from(payments)
+        .where(
+          and(eq(payments.id, data.paymentId), eq(payments.invoiceId, invoiceId), eq(payments.organizationId, orgId)),
+        )
+        .for("update");
+      if (!payment) return undefined;
+      const [current] = await tx
+        .select()
+        .from(invoices)
+        .where(and(eq(invoices.id, invoiceId), eq(invoices.organizationId, orgId)))
+        .for("update");
+      if (!current) return undefined;
+      const paymentRefunds = await tx
+        .select()
+        .from(refunds)
+        .where(and(eq(refunds.paymentId, payment.id), eq(refunds.organizationId, orgId)));
+      const refusal = getRefundRefusal(payment, paymentRefunds, data.amount);
+      if (refusal) return { error: refusal };
+
+      const [refund] = await tx
+        .insert(refunds)
+        .values({ ...data, invoiceId, organizationId: orgId })
+        .returning();
+      const invoice = await this.syncInvoicePayments(tx, invoiceId, orgId);
+      if (!invoice) return undefined;
+      await this.reconcileJournal(tx, orgId, "refund", refund.id, [refundIssuedEntry(refund, invoice)]);
+
+      await tx.insert(outbox).values({
+        organizationId: orgId,
+        eventType: "invoice.refund_recorded",
+        payload: { refund, invoice },
+        metadata: { source: "storage" },
+      });
+      return { refund, invoice };
+    });
   }
 
-  async getFileObject(id: string): Promise<FileObject | undefined> {
-    const [file] = await db.select().from(fileObjects).where(eq(fileObjects.id, id));
-    return file;
+  async getCreditNotes(orgId: string): Promise<CreditNote[]> {
+    return db
+      .select()
+      .from(creditNotes)
+      .where(eq(creditNotes.organizationId, orgId))
+      .orderBy(desc(creditNotes.issuedAt));
   }
 
-  async getFileObject(id: string, orgId: string): Promise<FileObject | undefined> {
-    const [file] = await db
+  async getInvoiceCreditNotes(invoiceId: string, orgId: string): Promise<CreditNote[]> {
+    return db
       .select()
-      .from(fileObjects)
-      .where(and(eq(fileObjects.id, id), eq(fileObjects.organizationId, orgId)));
+      .from(creditNotes)
+      .where(and(eq(creditNotes.invoiceId, invoiceId), eq(creditNotes.organizationId, orgId)))
+      .orderBy(asc(creditNotes.issuedAt));
+  }
+
+  async getCreditNote(id: string, orgId: string): Promise<CreditNote | undefined> {
+    const [creditNote] = await db
+      .select()
+      .from(creditNotes)
+      .where(and(eq(creditNotes.id, id), eq(creditNotes.organizationId, orgId)));
+    return creditNote;
+  }
+
+  async createCreditNote(
+    data: Omit<InsertCreditNote, "creditNoteNumber">,
+  ): Promise<{ creditNote: CreditNote; invoice: Invoice } | { error: string } | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(invoices)
+        .where(and(eq(invoices.id, data.invoiceId), eq(invoices.organizationId, data.organizationId)))
+        .for("update");
+      if (!current) return undefined;
+      const refusal = getCreditNoteRefusal(current, data.totalAmount);
+      if (refusal) return { error: refusal };
+
+      const creditNoteNumber = await this.allocateDocumentNumber(
+        tx,
+        data.organizationId,
+        "credit_note",
+        data.issuedAt ?? new Date(),
+      );
+      const [creditNote] = await tx
+        .insert(creditNotes)
+        .values({ ...data, creditNoteNumber })
+        .returning();
+      const invoice = await this.syncInvoicePayments(tx, data.invoiceId, data.organizationId);
+      if (!invoice) return undefined;
+      await this.reconcileJournal(tx, data.organizationId, "credit_note", creditNote.id, [
+        creditNoteIssuedEntry(creditNote),
+      ]);
+
+      await tx.insert(outbox).values({
+        organizationId: data.organizationId,
+        eventType: "invoice.credit_note_issued",
+        payload: { creditNote, invoice },
+        metadata: { source: "storage" },
+      });
+      return { creditNote, invoice };
+    });
+  }
+
+  async voidCreditNote(
+    id: string,
+    orgId: string,
+    voidedById: string,
+    reason: string,
+  ): Promise<{ creditNote: CreditNote; invoice: Invoice } | undefined> {
+    return db.transaction(async (tx) => {
+      const [creditNote] = await tx
+        .update(creditNotes)
+        .set({ voidedAt: new Date(), voidedById, voidReason: reason })
+        .where(
+          and(
+            eq(creditNotes.id, id),
+            eq(creditNotes.organizationId, orgId),
+            isNull(creditNotes.voidedAt),
+          ),
+        )
+        .returning();
+      if (!creditNote) return undefined;
+
+      const invoice = await this.syncInvoicePayments(tx, creditNote.invoiceId, orgId);
+      if (!invoice) return undefined;
+      await this.reconcileJournal(tx, orgId, "credit_note", creditNote.id, []);
+
+      await tx.insert(outbox).values({
+        organizationId: orgId,
+        eventType: "invoice.credit_note_voided",
+        payload: { creditNote, invoice },
+        metadata: { source: "storage" },
+      });
+      return { creditNote, invoice };
+    });
+  }
+
+  /**
+   * Recompute an invoice's paidAmount/creditedAmount/status/paidAt from its payment
+   * ledger, refunds and credit notes.
+   * Locks the invoice row so concurrent payments serialize on the same invoice.
+   */
+  private async syncInvoicePayments(
+    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    invoiceId: string,
+    orgId: string,
+  ): Promise<Invoice | undefined> {
+    const [current] = await tx
+      .select()
+      .from(invoices)
+      .where(and(eq(invoices.id, invoiceId), eq(invoices.organizationId, orgId)))
+      .for("update");
+    if (!current) return undefined;
+
+    const ledger = await tx
+      .select()
+      .from(payments)
+      .where(and(eq(payments.invoiceId, invoiceId), eq(payments.organizationId, orgId)));
+    const invoiceRefunds = await tx
+      .select()
+      .from(refunds)
+      .where(and(eq(refunds.invoiceId, invoiceId), eq(refunds.organizationId, orgId)));
+    const invoiceCreditNotes = await tx
+      .select()
+      .from(creditNotes)
+      .where(and(eq(creditNotes.invoiceId, invoiceId), eq(creditNotes.organizationId, orgId)));
+    const summary = summarizeInvoicePayments(current, ledger, new Date(), {
+      refunds: invoiceRefunds,
+      creditNotes: invoiceCreditNotes,
+    });
+    // A payment against a draft issues it, so it needs a real number
+    const invoiceNumber =
+      summary.status !== "draft" && isDraftNumber(current.invoiceNumber)
+        ? await this.allocateDocumentNumber(tx, orgId, "invoice", new Date())
+        : current.invoiceNumber;
+
+    const [invoice] = await tx
+      .update(invoices)
+      .set({
+        invoiceNumber,
+        paidAmount: summary.paidAmount,
+        creditedAmount: summary.creditedAmount,
+        paidAt: summary.paidAt,
+        status: summary.status,
+        updatedAt: new Date(),
+      })
+      .where(eq(invoices.id, invoiceId))
+      .returning();
+    await this.reconcileJournal(tx, orgId, "invoice", invoice.id, invoiceJournalEntries(invoice));
+    return invoice;
+  }
+
+  /**
+   * Create the default chart of accounts for an org on first use and return the ids of its
+   * system accounts by key.
+   */
+  private async ensureLedgerAccounts(
+    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    orgId: string,
+  ): Promise<Map<LedgerSystemAccount, string>> {
+    await tx
+      .insert(ledgerAccounts)
+      .values(DEFAULT_LEDGER_ACCOUNTS.map((account) => ({ ...account, organizationId: orgId })))
+      .onConflictDoNothing();
+    const accounts = await tx
+      .select()
+      .from(ledgerAccounts)
+      .where(and(eq(ledgerAccounts.organizationId, orgId), isNotNull(ledgerAccounts.systemKey)));
+    return new Map(accounts.map((account) => [account.systemKey as LedgerSystemAccount, account.id]));
+  }
+
+  /**
+   * Bring the journal for one source document in line with `expected`: post the entries that
+   * are missing and reverse posted entries that no longer apply or whose lines have changed.
+   * Safe to call after any write to the document; nothing is posted twice.
+   */
+  private async reconcileJournal(
+    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    orgId: string,
+    sourceType: JournalEntryDraft["sourceType"],
+    sourceId: string,
+    expected: JournalEntryDraft[],
+  ): Promise<void> {
+    const posted = await tx
+      .select()
+      .from(journalEntries)
+      .where(
+        and(
+          eq(journalEntries.organizationId, orgId),
+          eq(journalEntries.sourceType, sourceType),
+          eq(journalEntries.sourceId, sourceId),
+          isNull(journalEntries.reversalOfId),
+          isNull(journalEntries.reversedById),
+        ),
+      );
+    if (posted.length === 0 && expected.length === 0) return;
+
+    const accountIds = await this.ensureLedgerAccounts(tx, orgId);
+    const accountKeys = new Map(Array.from(accountIds, ([key, id]) => [id, key]));
+    const postedLines =
+      posted.length > 0
+        ? await tx
+            .select()
+            .from(journalLines)
+            .where(inArray(journalLines.journalEntryId, posted.map((entry) => entry.id)))
+        : [];
+
+    const kept = new Set<string>();
+    for (const entry of posted) {
+      const lines = postedLines.filter((line) => line.journalEntryId === entry.id);
+      const draft = expected.find((candidate) => candidate.event === entry.event);
+      const unchanged =
+        draft &&
+        draft.currency === entry.currency &&
+        sameLines(
+          draft.lines,
+          lines.map((line) => ({ account: accountKeys.get(line.accountId)!, debit: line.debit, credit: line.credit })),
+        );
+      if (unchanged) {
+        kept.add(entry.event);
+        continue;
+      }
+
+      const [reversal] = await tx
+        .insert(journalEntries)
+        .values({
+          organizationId: orgId,
+          entryDate: new Date(),
+          sourceType,
+          sourceId,
+          event: entry.event,
+          reference: entry.reference,
+          memo: `Reversal of ${entry.memo ?? entry.event}`,
+          currency: entry.currency,
+          reversalOfId: entry.id,
+        })
+        .returning();
+      await tx.insert(journalLines).values(
+        reverseLines(lines).map((line) => ({
+          organizationId: orgId,
+          journalEntryId: reversal.id,
+          accountId: line.accountId,
+          debit: line.debit,
+          credit: line.credit,
+        })),
+      );
+      await tx.update(journalEntries).set({ reversedById: reversal.id }).where(eq(journalEntries.id, entry.id));
+    }
+
+    for (const draft of expected) {
+      if (kept.has(draft.event)) continue;
+      const [entry] = await tx
+        .insert(journalEntries)
+        .values({
+          organizationId: orgId,
+          entryDate: draft.entryDate,
+          sourceType,
+          sourceId,
+          event: draft.event,
+          reference: draft.reference,
+          memo: draft.memo,
+          currency: draft.currency,
+        })
+        .returning();
+      await tx.insert(journalLines).values(
+        draft.lines.map((line) => {
+          const accountId = accountIds.get(line.account);
+          if (!accountId) throw new Error(`Ledger system account "${line.account}" is missing`);
+          return { organizationId: orgId, journalEntryId: entry.id, accountId, debit: line.debit, credit: line.credit };
+        }),
+      );
+    }
+  }
+
+  async markOverdueInvoices(asOf: Date): Promise<Invoice[]> {
+    // Cross-org by design: called by the dunning job, not by request handlers.
+    // An invoice is overdue from the day after its due date; partially paid ones stay
+    // overdue until paid in full (see summarizeInvoicePayments).
+    return db
+      .update(invoices)
+      .set({ status: "overdue", updatedAt: new Date() })
+      .where(
+        and(
+          inArray(invoices.status, ["sent", "viewed", "partially_paid"]),
+          isNotNull(invoices.dueDate),
+          lt(invoices.dueDate, startOfDay(asOf)),
+        ),
+      )
+      .returning();
+  }
+
+  /** One page of open invoices due in [from, to], by due date then id, after `after`. */
+  async getOpenInvoicesDueBetween(
+    from: Date,
+    to: Date,
+    after?: Pick<Invoice, "dueDate" | "id">,
+    limit = 500,
+  ): Promise<Invoice[]> {
+    // Cross-org by design: called by the dunning job, not by request handlers.
+    return db
+      .select()
+      .from(invoices)
+      .where(
+        and(
+          inArray(invoices.status, ["sent", "viewed", "partially_paid", "overdue"]),
+          gte(invoices.dueDate, from),
+          lte(invoices.dueDate, to),
+          after?.dueDate
+            ? or(
+                gt(invoices.dueDate, after.dueDate),
+                and(eq(invoices.dueDate, after.dueDate), gt(invoices.id, after.id)),
+              )
+            : undefined,
+        ),
+      )
+      .orderBy(asc(invoices.dueDate), asc(invoices.id))
+      .limit(limit);
+  }
+
+  async getInvoiceReminders(invoiceId: string, orgId: string): Promise<InvoiceReminder[]> {
+    return db
+      .select()
+      .from(invoiceReminders)
+      .where(and(eq(invoiceReminders.invoiceId, invoiceId), eq(invoiceReminders.organizationId, orgId)))
+      .orderBy(asc(invoiceReminders.offsetDays));
+  }
+
+  async claimInvoiceReminder(data: InsertInvoiceReminder): Promise<InvoiceReminder | undefined> {
+    // The unique (invoice, offset) index makes each reminder step send at most once,
+    // even with several workers running.
+    const [reminder] = await db
+      .insert(invoiceReminders)
+      .values(data)
+      .onConflictDoNothing({ target: [invoiceReminders.invoiceId, invoiceReminders.offsetDays] })
+      .returning();
+    return reminder;
+  }
+
+  async releaseInvoiceReminder(id: string, orgId: string): Promise<boolean> {
+    const result = await db
+      .delete(invoiceReminders)
+      .where(and(eq(invoiceReminders.id, id), eq(invoiceReminders.organizationId, orgId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getBillingContact(clientCompanyId: string, orgId: string): Promise<Contact | undefined> {
+    const [contact] = await db
+      .select()
+      .from(contacts)
+      .where(
+        and(
+          eq(contacts.clientCompanyId, clientCompanyId),
+          eq(contacts.organizationId, orgId),
+          isNotNull(contacts.email),
+        ),
+      )
+      .orderBy(desc(contacts.isPrimary), asc(contacts.createdAt))
+      .limit(1);
+    return contact;
+  }
+
+  async getInvoiceSchedules(orgId: string): Promise<InvoiceSchedule[]> {
+    return db
+      .select()
+      .from(invoiceSchedules)
+      .where(eq(invoiceSchedules.organizationId, orgId))
+      .orderBy(desc(invoiceSchedules.createdAt));
+  }
+
+  async getInvoiceSchedule(id: string, orgId: string): Promise<InvoiceSchedule | undefined> {
+    const [schedule] = await db
+      .select()
+      .from(invoiceSchedules)
+      .where(and(eq(invoiceSchedules.id, id), eq(invoiceSchedules.organizationId, orgId)));
+    return schedule;
+  }
+
+  async createInvoiceSchedule(data: InsertInvoiceSchedule): Promise<InvoiceSchedule> {
+    const [schedule] = await db.insert(invoiceSchedules).values(data).returning();
+    return schedule;
+  }
+
+  async updateInvoiceSchedule(
+    id: string,
+    orgId: string,
+    data: Partial<InsertInvoiceSchedule>,
+  ): Promise<InvoiceSchedule | undefined> {
+    const [schedule] = await db
+      .update(invoiceSchedules)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(invoiceSchedules.id, id), eq(invoiceSchedules.organizationId, orgId)))
+      .returning();
+    return schedule;
+  }
+
+  async deleteInvoiceSchedule(id: string, orgId: string): Promise<boolean> {
+    const result = await db
+      .delete(invoiceSchedules)
+      .where(and(eq(invoiceSchedules.id, id), eq(invoiceSchedules.organizationId, orgId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getDueInvoiceSchedules(asOf: Date, limit = 50): Promise<InvoiceSchedule[]> {
+    // Cross-org by design: called by the background generator, not by request handlers.
+    return db
+      .select()
+      .from(invoiceSchedules)
+      .where(
+        and(
+          eq(invoiceSchedules.isActive, true),
+          lte(invoiceSchedules.nextInvoiceDate, asOf),
+        ),
+      )
+      .orderBy(asc(invoiceSchedules.nextInvoiceDate))
+      .limit(limit);
+  }
+
+  async generateScheduledInvoice(
+    schedule: InvoiceSchedule,
+    invoice: InsertInvoice,
+    nextInvoiceDate: Date,
+  ): Promise<Invoice | undefined> {
+    return db.transaction(async (tx) => {
+      // Claim the run by advancing the date only if nobody else has already done so.
+      // A concurrent worker that lost the race sees zero rows and skips the insert.
+      const claimed = await tx
+        .update(invoiceSchedules)
+        .set({ nextInvoiceDate, lastGeneratedAt: new Date(), updatedAt: new Date() })
+        .where(
+          and(
+            eq(invoiceSchedules.id, schedule.id),
+            eq(invoiceSchedules.organizationId, schedule.organizationId),
+            eq(invoiceSchedules.nextInvoiceDate, schedule.nextInvoiceDate!),
+          ),
+        )
+        .returning();
+      if (claimed.length === 0) return undefined;
+
+      const [created] = await tx.insert(invoices).values(invoice).returning();
+      await tx.insert(outbox).values({
+        organizationId: created.organizationId,
+        eventType: "invoice.generated",
+        payload: created,
+        metadata: { source: "invoice-scheduler", scheduleId: schedule.id },
+      });
+      return created;
+    });
+  }
+
+  async getBills(orgId: string): Promise<Bill[]> {
+    return db
+      .select()
+      .from(bills)
+      .where(eq(bills.organizationId, orgId))
+      .orderBy(desc(bills.createdAt));
+  }
+
+  async getBill(id: string, orgId: string): Promise<Bill | undefined> {
+    const [bill] = await db
+      .select()
+      .from(bills)
+      .where(and(eq(bills.id, id), eq(bills.organizationId, orgId)));
+    return bill;
+  }
+
+  async createBill(
+    data: Omit<InsertBill, "billNumber">,
+    approvalSteps: Omit<InsertBillApprovalStep, "organizationId" | "billId">[] = [],
+  ): Promise<Bill> {
+    return db.transaction(async (tx) => {
+      const billNumber = await this.allocateDocumentNumber(tx, data.organizationId, "bill", new Date());
+      const [bill] = await tx.insert(bills).values({ ...data, billNumber }).returning();
+      if (approvalSteps.length > 0) {
+        await tx
+          .insert(billApprovalSteps)
+          .values(approvalSteps.map((step) => ({ ...step, billId: bill.id, organizationId: bill.organizationId })));
+      }
+      return bill;
+    });
+  }
+
+  async resubmitBill(
+    id: string,
+    orgId: string,
+    data: Partial<InsertBill>,
+    approvalSteps: Omit<InsertBillApprovalStep, "organizationId" | "billId">[],
+  ): Promise<Bill | undefined> {
+    return db.transaction(async (tx) => {
+      const [bill] = await tx
+        .update(bills)
+        .set({ ...data, status: "pending", approvedById: null, approvedAt: null, updatedAt: new Date() })
+        .where(and(eq(bills.id, id), eq(bills.organizationId, orgId)))
+        .returning();
+      if (!bill) return undefined;
+
+      // Earlier decisions were made on different terms; they stay in the activity log
+      await tx.delete(billApprovalSteps).where(eq(billApprovalSteps.billId, id));
+      if (approvalSteps.length > 0) {
+        await tx
+          .insert(billApprovalSteps)
+          .values(approvalSteps.map((step) => ({ ...step, billId: id, organizationId: orgId })));
+      }
+      // Back to pending, so any approval posting is reversed
+      await this.reconcileJournal(tx, orgId, "bill", bill.id, billJournalEntries(bill));
+      return bill;
+    });
+  }
+
+  async updateBill(
+    id: string,
+    orgId: string,
+    data: Partial<InsertBill>,
+  ): Promise<Bill | undefined> {
+    return db.transaction(async (tx) => {
+      const [bill] = await tx
+        .update(bills)
+        .set({ ...data, updatedAt: new Date() })
+        .where(and(eq(bills.id, id), eq(bills.organizationId, orgId)))
+        .returning();
+      if (bill) await this.reconcileJournal(tx, orgId, "bill", bill.id, billJournalEntries(bill));
+      return bill;
+    });
+  }
+
+  async deleteBill(id: string, orgId: string): Promise<boolean> {
+    const result = await db
+      .delete(bills)
+      .where(and(eq(bills.id, id), eq(bills.organizationId, orgId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getBillApprovalSteps(billId: string, orgId: string): Promise<BillApprovalStep[]> {
+    return db
+      .select()
+      .from(billApprovalSteps)
+      .where(and(eq(billApprovalSteps.billId, billId), eq(billApprovalSteps.organizationId, orgId)))
+      .orderBy(asc(billApprovalSteps.position));
+  }
+
+  /**
+   * Record an approval decision and log it to activityEvents. Locks the bill row so
+   * concurrent decisions serialize; returns undefined if the bill is no longer pending
+   * or the step has already been decided.
+   */
+  async decideBill({
+    billId,
+    orgId,
+    stepId,
+    decision,
+    userId,
+    comment,
+  }: {
+    billId: string;
+    orgId: string;
+    stepId: string | null;
+    decision: "approved" | "rejected";
+    userId: string;
+    comment?: string;
+  }): Promise<{ bill: Bill; steps: BillApprovalStep[] } | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(bills)
+        .where(and(eq(bills.id, billId), eq(bills.organizationId, orgId)))
+        .for("update");
+      if (!current || current.status !== "pending") return undefined;
+
+      let step: BillApprovalStep | undefined;
+      if (stepId) {
+        [step] = await tx
+          .update(billApprovalSteps)
+          .set({ status: decision, decidedById: userId, decidedAt: new Date(), comment: comment || null })
+          .where(
+            and(
+              eq(billApprovalSteps.id, stepId),
+              eq(billApprovalSteps.billId, billId),
+              eq(billApprovalSteps.status, "pending"),
+            ),
+          )
+          .returning();
+        if (!step) return undefined;
+      }
+
+      const steps = await tx
+        .select()
+        .from(billApprovalSteps)
+        .where(eq(billApprovalSteps.billId, billId))
+        .orderBy(asc(billApprovalSteps.position));
+      const complete = decision === "rejected" || steps.every((s) => s.status === "approved");
+
+      let bill = current;
+      if (complete) {
+        [bill] = await tx
+          .update(bills)
+          .set(
+            decision === "approved"
+              ? { status: "approved", approvedById: userId, approvedAt: new Date(), updatedAt: new Date() }
+              : { status: "rejected", updatedAt: new Date() },
+          )
+          .where(eq(bills.id, billId))
+          .returning();
+        await this.reconcileJournal(tx, orgId, "bill", bill.id, billJournalEntries(bill));
+      }
+
+      await tx.insert(activityEvents).values({
+        organizationId: orgId,
+        entityType: "bill",
+        entityId: billId,
+        engagementId: current.engagementId,
+        actorId: userId,
+        type: decision,
+        description: step
+          ? `Approval step ${step.position} of ${steps.length} ${decision}`
+          : `Bill ${decision}`,
+        metadata: { stepId: step?.id ?? null, position: step?.position ?? null, comment: comment || null },
+      });
+      if (complete) {
+        await tx.insert(outbox).values({
+          organizationId: orgId,
+          eventType: `bill.${decision}`,
+          payload: { bill, steps },
+          metadata: { source: "storage" },
+        });
+      }
+      return { bill, steps };
+    });
+  }
+
+  async getBillApprovalPolicies(orgId: string): Promise<BillApprovalPolicy[]> {
+    return db
+      .select()
+      .from(billApprovalPolicies)
+      .where(eq(billApprovalPolicies.organizationId, orgId))
+      .orderBy(asc(billApprovalPolicies.priority), asc(billApprovalPolicies.createdAt));
+  }
+
+  async createBillApprovalPolicy(data: InsertBillApprovalPolicy): Promise<BillApprovalPolicy> {
+    const [policy] = await db.insert(billApprovalPolicies).values(data).returning();
+    return policy;
+  }
+
+  async updateBillApprovalPolicy(
+    id: string,
+    orgId: string,
+    data: Partial<InsertBillApprovalPolicy>,
+  ): Promise<BillApprovalPolicy | undefined> {
+    const [policy] = await db
+      .update(billApprovalPolicies)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(billApprovalPolicies.id, id), eq(billApprovalPolicies.organizationId, orgId)))
+      .returning();
+    return policy;
+  }
+
+  async deleteBillApprovalPolicy(id: string, orgId: string): Promise<boolean> {
+    const result = await db
+      .delete(billApprovalPolicies)
+      .where(and(eq(billApprovalPolicies.id, id), eq(billApprovalPolicies.organizationId, orgId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getExpenses(
+    orgId: string,
+    filters: { userId?: string; engagementId?: string; status?: ExpenseStatus } = {},
+  ): Promise<Expense[]> {
+    return db
+      .select()
+      .from(expenses)
+      .where(
+        and(
+          eq(expenses.organizationId, orgId),
+          filters.userId ? eq(expenses.userId, filters.userId) : undefined,
+          filters.engagementId ? eq(expenses.engagementId, filters.engagementId) : undefined,
+          filters.status ? eq(expenses.status, filters.status) : undefined,
+        ),
+      )
+      .orderBy(desc(expenses.expenseDate), desc(expenses.createdAt));
+  }
+
+  async getExpense(id: string, orgId: string): Promise<Expense | undefined> {
+    const [expense] = await db
+      .select()
+      .from(expenses)
+      .where(and(eq(expenses.id, id), eq(expenses.organizationId, orgId)));
+    return expense;
+  }
+
+  async createExpense(data: InsertExpense & { receiptFileId?: string | null }): Promise<Expense> {
+    const [expense] = await db.insert(expenses).values(data).returning();
+    return expense;
+  }
+
+  async updateExpense(
+    id: string,
+    orgId: string,
+    data: Partial<InsertExpense> & { receiptFileId?: string | null },
+  ): Promise<Expense | undefined> {
+    const [expense] = await db
+      .update(expenses)
+      .set({ ...data, updatedAt: new Date() })
+      .where(
+        and(
+          eq(expenses.id, id),
+          eq(expenses.organizationId, orgId),
+          inArray(expenses.status, ["draft", "rejected"]),
+          isNull(expenses.invoiceId),
+        ),
+      )
+      .returning();
+    return expense;
+  }
+
+  async deleteExpense(id: string, orgId: string): Promise<boolean> {
+    const result = await db
+      .delete(expenses)
+      .where(
+        and(
+          eq(expenses.id, id),
+          eq(expenses.organizationId, orgId),
+          inArray(expenses.status, ["draft", "rejected"]),
+          isNull(expenses.invoiceId),
+        ),
+      );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async submitExpense(id: string, orgId: string): Promise<Expense | undefined> {
+    const [expense] = await db
+      .update(expenses)
+      .set({ status: "submitted", submittedAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(
+          eq(expenses.id, id),
+          eq(expenses.organizationId, orgId),
+          inArray(expenses.status, ["draft", "rejected"]),
+          isNull(expenses.invoiceId),
+        ),
+      )
+      .returning();
+    return expense;
+  }
+
+  async reviewExpense({
+    id,
+    orgId,
+    decision,
+    reviewedById,
+    note,
+  }: {
+    id: string;
+    orgId: string;
+    decision: "approved" | "rejected";
+    reviewedById: string;
+    note?: string;
+  }): Promise<Expense | undefined> {
+    const [expense] = await db
+      .update(expenses)
+      .set({
+        status: decision,
+        reviewedById,
+        reviewedAt: new Date(),
+        reviewNote: note || null,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(expenses.id, id), eq(expenses.organizationId, orgId), eq(expenses.status, "submitted")))
+      .returning();
+    return expense;
+  }
+
+  async reimburseExpenses({
+    orgId,
+    expenseIds,
+    reimbursedById,
+    reference,
+  }: {
+    orgId: string;
+    expenseIds: string[];
+    reimbursedById: string;
+    reference?: string;
+  }): Promise<Expense[] | undefined> {
+    return db.transaction(async (tx) => {
+      const owed = await tx
+        .select()
+        .from(expenses)
+        .where(
+          and(
+            inArray(expenses.id, expenseIds),
+            eq(expenses.organizationId, orgId),
+            eq(expenses.status, "approved"),
+            eq(expenses.reimbursable, true),
+            isNull(expenses.reimbursedAt),
+          ),
+        )
+        .for("update");
+      if (owed.length !== new Set(expenseIds).size) return undefined;
+
+      return tx
+        .update(expenses)
+        .set({
+          reimbursedAt: new Date(),
+          reimbursedById,
+          reimbursementReference: reference || null,
+          updatedAt: new Date(),
+        })
+        .where(inArray(expenses.id, expenseIds))
+        .returning();
+    });
+  }
+
+  async createInvoiceFromExpenses(
+    expenseIds: string[],
+    data: Omit<InsertInvoice, "invoiceNumber" | "status">,
+  ): Promise<Invoice | undefined> {
+    return db.transaction(async (tx) => {
+      const unbilled = await tx
+        .select()
+        .from(expenses)
+        .where(
+          and(
+            inArray(expenses.id, expenseIds),
+            eq(expenses.organizationId, data.organizationId),
+            eq(expenses.engagementId, data.engagementId),
+            eq(expenses.status, "approved"),
+            eq(expenses.billable, true),
+            isNull(expenses.invoiceId),
+          ),
+        )
+        .for("update");
+      if (unbilled.length !== new Set(expenseIds).size) return undefined;
+
+      const invoice = await this.insertInvoice(tx, { ...data, status: "draft" });
+      await tx
+        .update(expenses)
+        .set({ invoiceId: invoice.id, updatedAt: new Date() })
+        .where(inArray(expenses.id, expenseIds));
+      return invoice;
+    });
+  }
+
+  async getExchangeRates(orgId: string): Promise<ExchangeRate[]> {
+    return db
+      .select()
+      .from(exchangeRates)
+      .where(eq(exchangeRates.organizationId, orgId))
+      .orderBy(asc(exchangeRates.currency), desc(exchangeRates.effectiveDate));
+  }
+
+  /** Insert rates, replacing any existing rate for the same pair and effective date. */
+  async upsertExchangeRates(data: InsertExchangeRate[]): Promise<ExchangeRate[]> {
+    if (data.length === 0) return [];
+    return db
+      .insert(exchangeRates)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [
+          exchangeRates.organizationId,
+          exchangeRates.currency,
+          exchangeRates.baseCurrency,
+          exchangeRates.effectiveDate,
+        ],
+        set: { rate: sql`excluded.rate`, source: sql`excluded.source` },
+      })
+      .returning();
+  }
+
+  async deleteExchangeRate(id: string, orgId: string): Promise<boolean> {
+    const result = await db
+      .delete(exchangeRates)
+      .where(and(eq(exchangeRates.id, id), eq(exchangeRates.organizationId, orgId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getTaxRates(orgId: string): Promise<TaxRate[]> {
+    return db
+      .select()
+      .from(taxRates)
+      .where(eq(taxRates.organizationId, orgId))
+      .orderBy(asc(taxRates.name));
+  }
+
+  async createTaxRate(data: InsertTaxRate): Promise<TaxRate> {
+    const [taxRate] = await db.insert(taxRates).values(data).returning();
+    return taxRate;
+  }
+
+  async updateTaxRate(id: string, orgId: string, data: Partial<InsertTaxRate>): Promise<TaxRate | undefined> {
+    const [taxRate] = await db
+      .update(taxRates)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(taxRates.id, id), eq(taxRates.organizationId, orgId)))
+      .returning();
+    return taxRate;
+  }
+
+  // Invoice lines keep a snapshot of their rate but are re-validated against it on every
+  // edit, so a rate any invoice line still uses is not deleted (deactivate it instead).
+  async deleteTaxRate(id: string, orgId: string): Promise<boolean> {
+    const result = await db
+      .delete(taxRates)
+      .where(
+        and(
+          eq(taxRates.id, id),
+          eq(taxRates.organizationId, orgId),
+          sql`not exists (select 1 from ${invoices} where ${invoices.organizationId} = ${orgId} and ${invoices.lineItems} @> ${JSON.stringify([{ taxRateId: id }])}::jsonb)`,
+        ),
+      );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getBankTransactions(orgId: string, status?: BankTransactionStatus): Promise<BankTransaction[]> {
+    return db
+      .select()
+      .from(bankTransactions)
+      .where(
+        and(
+          eq(bankTransactions.organizationId, orgId),
+          status ? eq(bankTransactions.status, status) : undefined,
+        ),
+      )
+      .orderBy(desc(bankTransactions.postedAt), asc(bankTransactions.createdAt));
+  }
+
+  async getBankTransaction(id: string, orgId: string): Promise<BankTransaction | undefined> {
+    const [transaction] = await db
+      .select()
+      .from(bankTransactions)
+      .where(and(eq(bankTransactions.id, id), eq(bankTransactions.organizationId, orgId)));
+    return transaction;
+  }
+
+  /** Insert statement lines, skipping ones already imported; returns only the new lines. */
+  async importBankTransactions(data: InsertBankTransaction[]): Promise<BankTransaction[]> {
+    if (data.length === 0) return [];
+    return db
+      .insert(bankTransactions)
+      .values(data)
+      .onConflictDoNothing({ target: [bankTransactions.organizationId, bankTransactions.externalId] })
+      .returning();
+  }
+
+  async updateBankTransactionStatus(
+    id: string,
+    orgId: string,
+    status: "unmatched" | "ignored",
+  ): Promise<BankTransaction | undefined> {
+    const [transaction] = await db
+      .update(bankTransactions)
+      .set({ status, updatedAt: new Date() })
+      .where(
+        and(
+          eq(bankTransactions.id, id),
+          eq(bankTransactions.organizationId, orgId),
+          inArray(bankTransactions.status, ["unmatched", "ignored"]),
+        ),
+      )
+      .returning();
+    return transaction;
+  }
+
+  /**
+   * Confirm a statement line's match: money in records a payment on the invoice, money out
+   * marks the approved bill paid as of the statement date. Returns undefined if the line is
+   * no longer unmatched, the invoice can no longer take the payment or the bill is no longer
+   * approved.
+   */
+  async matchBankTransaction({
+    id,
+    orgId,
+    match,
+    userId,
+  }: {
+    id: string;
+    orgId: string;
+    match: BankTransactionMatch;
+    userId: string;
+  }): Promise<{ transaction: BankTransaction; payment?: Payment; invoice?: Invoice; bill?: Bill } | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(bankTransactions)
+        .where(and(eq(bankTransactions.id, id), eq(bankTransactions.organizationId, orgId)))
+        .for("update");
+      if (!current || current.status !== "unmatched") return undefined;
+      const amount = Math.abs(Number(current.amount)).toFixed(2);
+
+      if (match.type === "invoice") {
+        const recorded = await this.insertInvoicePayment(tx, match.id, orgId, {
+          organizationId: orgId,
+          invoiceId: match.id,
+          amount,
+          paymentMethod: "bank_transfer",
+          referenceNumber: current.externalId.slice(0, 100),
+          paidAt: current.postedAt,
+          notes: [current.payee, current.description].filter(Boolean).join(" - ") || null,
+          createdById: userId,
+        });
+        if (!recorded || "error" in recorded) return undefined;
+        const [transaction] = await tx
+          .update(bankTransactions)
+          .set({
+            status: "matched",
+            matchedInvoiceId: match.id,
+            matchedPaymentId: recorded.payment.id,
+            matchedById: userId,
+            matchedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(bankTransactions.id, id))
+          .returning();
+        return { transaction, ...recorded };
+      }
+
+      const [bill] = await tx
+        .update(bills)
+        .set({ status: "paid", paidAt: current.postedAt, updatedAt: new Date() })
+        .where(and(eq(bills.id, match.id), eq(bills.organizationId, orgId), eq(bills.status, "approved")))
+        .returning();
+      if (!bill) return undefined;
+      await this.reconcileJournal(tx, orgId, "bill", bill.id, billJournalEntries(bill));
+      const [transaction] = await tx
+        .update(bankTransactions)
+        .set({
+          status: "matched",
+          matchedBillId: bill.id,
+          matchedById: userId,
+          matchedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(bankTransactions.id, id))
+        .returning();
+      return { transaction, bill };
+    });
+  }
+
+  /**
+   * Undo a statement line's bill match: the bill goes back to approved and unpaid, its
+   * payment posting is reversed, and the line returns to the reconciliation queue. Returns
+   * undefined if the line is not matched to a bill or the bill is no longer paid.
+   */
+  async unmatchBankBill(id: string, orgId: string): Promise<{ transaction: BankTransaction; bill: Bill } | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(bankTransactions)
+        .where(and(eq(bankTransactions.id, id), eq(bankTransactions.organizationId, orgId)))
+        .for("update");
+      if (!current || current.status !== "matched" || !current.matchedBillId) return undefined;
+
+      const [bill] = await tx
+        .update(bills)
+        .set({ status: "approved", paidAt: null, updatedAt: new Date() })
+        .where(and(eq(bills.id, current.matchedBillId), eq(bills.organizationId, orgId), eq(bills.status, "paid")))
+        .returning();
+      if (!bill) return undefined;
+      await this.reconcileJournal(tx, orgId, "bill", bill.id, billJournalEntries(bill));
+      const [transaction] = await tx
+        .update(bankTransactions)
+        .set({
+          status: "unmatched",
+          matchedBillId: null,
+          matchedById: null,
+          matchedAt: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(bankTransactions.id, id))
+        .returning();
+      return { transaction, bill };
+    });
+  }
+
+  async getLedgerAccounts(orgId: string): Promise<LedgerAccount[]> {
+    await db.transaction((tx) => this.ensureLedgerAccounts(tx, orgId));
+    return db
+      .select()
+      .from(ledgerAccounts)
+      .where(eq(ledgerAccounts.organizationId, orgId))
+      .orderBy(asc(ledgerAccounts.code));
+  }
+
+  async createLedgerAccount(data: InsertLedgerAccount): Promise<LedgerAccount> {
+    const [account] = await db.insert(ledgerAccounts).values(data).returning();
+    return account;
+  }
+
+  async updateLedgerAccount(
+    id: string,
+    orgId: string,
+    data: UpdateLedgerAccount,
+  ): Promise<LedgerAccount | undefined> {
+    const [account] = await db
+      .update(ledgerAccounts)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(ledgerAccounts.id, id), eq(ledgerAccounts.organizationId, orgId)))
+      .returning();
+    return account;
+  }
+
+  /** Journal entries with their lines, oldest first; `from` / `to` bound the entry date. */
+  async getJournalEntries(orgId: string, range: { from?: Date; to?: Date } = {}): Promise<JournalEntryWithLines[]> {
+    const conditions = [eq(journalEntries.organizationId, orgId)];
+    if (range.from) conditions.push(gte(journalEntries.entryDate, range.from));
+    if (range.to) conditions.push(lte(journalEntries.entryDate, range.to));
+
+    const entries = await db
+      .select()
+      .from(journalEntries)
+      .where(and(...conditions))
+      .orderBy(asc(journalEntries.entryDate), asc(journalEntries.createdAt));
+    const lines = await db
+      .select({ line: journalLines })
+      .from(journalLines)
+      .innerJoin(journalEntries, eq(journalLines.journalEntryId, journalEntries.id))
+      .where(and(...conditions));
+
+    const linesByEntry = new Map<string, JournalLine[]>();
+    for (const { line } of lines) {
+      linesByEntry.set(line.journalEntryId, [...(linesByEntry.get(line.journalEntryId) ?? []), line]);
+    }
+    return entries.map((entry) => ({ ...entry, lines: linesByEntry.get(entry.id) ?? [] }));
+  }
+
+  async getVendors(orgId: string): Promise<Vendor[]> {
+    return db
+      .select()
+      .from(vendors)
+      .where(eq(vendors.organizationId, orgId))
+      .orderBy(desc(vendors.createdAt));
+  }
+
+  async getVendor(id: string, orgId: string): Promise<Vendor | undefined> {
+    const [vendor] = await db
+      .select()
+      .from(vendors)
+      .where(and(eq(vendors.id, id), eq(vendors.organizationId, orgId)));
+    return vendor;
+  }
+
+  async createVendor(data: InsertVendor): Promise<Vendor> {
+    const [vendor] = await db.insert(vendors).values(data).returning();
+    return vendor;
+  }
+
+  async updateVendor(id: string, orgId: string, data: Partial<InsertVendor>): Promise<Vendor | undefined> {
+    const [vendor] = await db
+      .update(vendors)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(vendors.id, id), eq(vendors.organizationId, orgId)))
+      .returning();
+    return vendor;
+  }
+
+  async deleteVendor(id: string, orgId: string): Promise<boolean> {
+    const result = await db
+      .delete(vendors)
+      .where(and(eq(vendors.id, id), eq(vendors.organizationId, orgId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getVendorBills(vendorId: string, orgId: string): Promise<Bill[]> {
+    return db
+      .select()
+      .from(bills)
+      .where(and(eq(bills.vendorId, vendorId), eq(bills.organizationId, orgId)))
+      .orderBy(desc(bills.createdAt));
+  }
+
+  async getFileObject(id: string, orgId?: string): Promise<FileObject | undefined> {
+    const [file] = await db
+      .select()
+      .from(fileObjects)
+      .where(and(eq(fileObjects.id, id), orgId ? eq(fileObjects.organizationId, orgId) : undefined));
     return file;
   }
 
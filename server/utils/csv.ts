@@ -0,0 +1,113 @@
+// AI-META-BEGIN
+// AI-META: Server utility - csv.ts
+// OWNERSHIP: server/utils
+// ENTRYPOINTS: CSV imports (exchange rates, etc.) and exports (contractor payments, etc.)
+// DEPENDENCIES: none
+// DANGER: Parses untrusted user uploads; exports user-entered text opened in spreadsheets
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:backend csv
+// AI-META-END
+
+/**
+ * Minimal RFC 4180 CSV parsing and writing.
+ *
+ * Handles quoted fields, escaped quotes (`""`), commas/newlines inside quotes,
+ * CRLF line endings and a UTF-8 BOM. Blank lines are skipped.
+ */
+
+/** Parse CSV text into rows of raw string fields. */
+export function parseCsv(text: string): string[][] {
+  return parseCsvLines(text).map((row) => row.fields);
+}
+
+/**
+ * Parse CSV text into rows of raw string fields, each with the 1-based line of the file it
+ * starts on. Skipped blank lines and newlines inside quoted fields still count as lines.
+ */
+export function parseCsvLines(text: string): { line: number; fields: string[] }[] {
+  const rows: { line: number; fields: string[] }[] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== "") rows.push({ line: rowLine, fields: row });
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+        if (char === "\n" || (char === "\r" && input[i + 1] !== "\n")) line++;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Parse CSV text with a header row into objects keyed by normalized header
+ * (trimmed, lower-cased). `line` is the 1-based line number of the record for error reporting.
+ */
+export function parseCsvRecords(text: string): { line: number; values: Record<string, string> }[] {
+  const [header, ...rows] = parseCsvLines(text);
+  if (!header) return [];
+  const keys = header.fields.map((key) => key.trim().toLowerCase());
+
+  return rows.map((row) => ({
+    line: row.line,
+    values: Object.fromEntries(keys.map((key, column) => [key, (row.fields[column] ?? "").trim()])),
+  }));
+}
+
+type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Escape one field. Unless `escapeFormulas` is off, text starting with `=`, `+`, `-` or `@`
+ * is prefixed with `'` so spreadsheets do not evaluate user-entered values as formulas;
+ * numbers are left as-is.
+ */
+function formatCsvField(value: CsvValue, escapeFormulas: boolean): string {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  if (escapeFormulas && typeof value === "string" && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize rows (the first row is usually the header) as CRLF-delimited CSV. Turn
+ * `escapeFormulas` off only for files meant to be read back exactly, such as rows returned
+ * for re-import.
+ */
+export function toCsv(rows: CsvValue[][], { escapeFormulas = true } = {}): string {
+  return (
+    rows.map((row) => row.map((value) => formatCsvField(value, escapeFormulas)).join(",")).join("\r\n") +
+    "\r\n"
+  );
+}
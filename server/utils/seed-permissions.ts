@@ -69,6 +69,21 @@ const PERMISSION_SEEDS: InsertPermission[] = [
   { featureArea: "vendors", permissionType: "edit", description: "Edit vendor information" },
   { featureArea: "vendors", permissionType: "delete", description: "Delete vendor records" },
   { featureArea: "vendors", permissionType: "export", description: "Export vendor data" },
+
+  // Time tracking permissions (approving timesheets also requires the admin or owner role)
+  { featureArea: "time_entries", permissionType: "view", description: "View time entries and timesheets" },
+  { featureArea: "time_entries", permissionType: "create", description: "Log time and run timers" },
+  { featureArea: "time_entries", permissionType: "edit", description: "Edit, submit and review timesheets" },
+  { featureArea: "time_entries", permissionType: "delete", description: "Delete time entries" },
+
+  // Expense permissions (approving and reimbursing also requires the admin or owner role)
+  { featureArea: "expenses", permissionType: "view", description: "View expenses and receipts" },
+  { featureArea: "expenses", permissionType: "create", description: "Record expenses" },
+  { featureArea: "expenses", permissionType: "edit", description: "Edit, submit, review and reimburse expenses" },
+  { featureArea: "expenses", permissionType: "delete", description: "Delete expenses" },
+
+  // Invoice export permissions (AR aging report CSV)
+  { featureArea: "invoices", permissionType: "export", description: "Export invoice data and receivables reports" },
 ];
 
 /**
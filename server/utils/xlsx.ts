@@ -0,0 +1,306 @@
+// AI-META-BEGIN
+// AI-META: Server utility - xlsx.ts
+// OWNERSHIP: server/utils
+// ENTRYPOINTS: Data exports (clients, invoices, etc.)
+// DEPENDENCIES: node:zlib
+// DANGER: Output is opened in spreadsheet apps; malformed XML makes the whole file unreadable
+// CHANGE-SAFETY: Review changes carefully - analyze imports and usage before modifying
+// TESTS: npm run test:backend xlsx
+// AI-META-END
+
+/**
+ * Minimal streaming XLSX writer: one worksheet of inline strings, numbers, booleans and dates.
+ *
+ * An XLSX file is a zip of XML parts. The fixed parts are small and compressed up front; the
+ * worksheet is deflated as rows arrive, with its sizes and CRC in a trailing data descriptor,
+ * so memory use does not grow with the number of rows. No zip64, so keep sheets under 4 GB.
+ */
+
+import { createDeflateRaw, deflateRawSync } from "node:zlib";
+
+export type XlsxValue = string | number | boolean | Date | null | undefined;
+
+export interface XlsxColumn {
+  header: string;
+  /** Show dates in this column without their time of day */
+  dateOnly?: boolean;
+}
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+
+// Cell styles: 0 default, 1 bold (header row), 2 date, 3 date and time
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><numFmts count="2"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/><numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm"/></numFmts><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="4"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs></styleSheet>`;
+
+const SHEET_START = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>`;
+
+const SHEET_END = "</sheetData></worksheet>";
+
+const BOLD_STYLE = 1;
+const DATE_STYLE = 2;
+const DATE_TIME_STYLE = 3;
+
+// Days between the spreadsheet epoch (1899-12-30) and the Unix epoch
+const EPOCH_OFFSET_DAYS = 25569;
+const MS_PER_DAY = 86_400_000;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+/** Running CRC-32 of a zip entry; pass the previous value to continue it. */
+export function crc32(data: Buffer, crc = 0): number {
+  let value = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) value = CRC_TABLE[(value ^ data[i]) & 0xff] ^ (value >>> 8);
+  return (value ^ 0xffffffff) >>> 0;
+}
+
+/** Column letters for a 0-based index: 0 → A, 25 → Z, 26 → AA. */
+export function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Control characters other than tab and newlines are not allowed in XML 1.0
+function escapeXml(text: string): string {
+  return (
+    text
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, "")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+  );
+}
+
+function cellXml(ref: string, value: XlsxValue, dateOnly: boolean, style?: number): string {
+  if (value === null || value === undefined || value === "") return "";
+  const styleAttr = style ? ` s="${style}"` : "";
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? `<c r="${ref}"${styleAttr}><v>${value}</v></c>` : "";
+  }
+  if (typeof value === "boolean") {
+    return `<c r="${ref}" t="b"${styleAttr}><v>${value ? 1 : 0}</v></c>`;
+  }
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return "";
+    const serial = value.getTime() / MS_PER_DAY + EPOCH_OFFSET_DAYS;
+    return `<c r="${ref}" s="${dateOnly ? DATE_STYLE : DATE_TIME_STYLE}"><v>${serial}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+/** XML for one worksheet row; `rowNumber` is 1-based. */
+export function rowXml(
+  rowNumber: number,
+  columns: XlsxColumn[],
+  values: XlsxValue[],
+  style?: number,
+): string {
+  const cells = columns
+    .map((column, index) =>
+      cellXml(`${columnName(index)}${rowNumber}`, values[index], !!column.dateOnly, style),
+    )
+    .join("");
+  return `<row r="${rowNumber}">${cells}</row>`;
+}
+
+function workbookXml(sheetName: string): string {
+  // Sheet names are at most 31 characters and cannot contain []:*?/\
+  const name = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, " ").slice(0, 31)) || "Sheet1";
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+}
+
+interface ZipEntry {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  flags: number;
+}
+
+// Fixed DOS timestamp (1980-01-01); spreadsheet apps ignore it
+const DOS_TIME = 0;
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+const DEFLATE = 8;
+const UTF8_NAMES = 0x0800;
+const HAS_DATA_DESCRIPTOR = 0x0008;
+
+function localHeader(entry: ZipEntry): Buffer {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(20, 4);
+  header.writeUInt16LE(entry.flags, 6);
+  header.writeUInt16LE(DEFLATE, 8);
+  header.writeUInt16LE(DOS_TIME, 10);
+  header.writeUInt16LE(DOS_DATE, 12);
+  header.writeUInt32LE(entry.crc, 14);
+  header.writeUInt32LE(entry.compressedSize, 18);
+  header.writeUInt32LE(entry.size, 22);
+  header.writeUInt16LE(entry.name.length, 26);
+  header.writeUInt16LE(0, 28);
+  return Buffer.concat([header, entry.name]);
+}
+
+function dataDescriptor(entry: ZipEntry): Buffer {
+  const descriptor = Buffer.alloc(16);
+  descriptor.writeUInt32LE(0x08074b50, 0);
+  descriptor.writeUInt32LE(entry.crc, 4);
+  descriptor.writeUInt32LE(entry.compressedSize, 8);
+  descriptor.writeUInt32LE(entry.size, 12);
+  return descriptor;
+}
+
+function centralDirectory(entries: ZipEntry[], offset: number): Buffer {
+  const records = entries.map((entry) => {
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(0x02014b50, 0);
+    record.writeUInt16LE(20, 4);
+    record.writeUInt16LE(20, 6);
+    record.writeUInt16LE(entry.flags, 8);
+    record.writeUInt16LE(DEFLATE, 10);
+    record.writeUInt16LE(DOS_TIME, 12);
+    record.writeUInt16LE(DOS_DATE, 14);
+    record.writeUInt32LE(entry.crc, 16);
+    record.writeUInt32LE(entry.compressedSize, 20);
+    record.writeUInt32LE(entry.size, 24);
+    record.writeUInt16LE(entry.name.length, 28);
+    record.writeUInt32LE(entry.offset, 42);
+    return Buffer.concat([record, entry.name]);
+  });
+  const directory = Buffer.concat(records);
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([directory, end]);
+}
+
+export interface XlsxWriter {
+  /** Append rows to the sheet, in column order. */
+  addRows(rows: XlsxValue[][]): Promise<void>;
+  /** Close the sheet and write the rest of the file. */
+  end(): Promise<void>;
+}
+
+/**
+ * Start a workbook with a bold, frozen header row. Output goes to `write` in chunks as rows
+ * are added; `write` should resolve once the consumer is ready for more, so backpressure
+ * reaches whoever adds the rows.
+ */
+export async function createXlsxWriter(
+  sheetName: string,
+  columns: XlsxColumn[],
+  write: (chunk: Buffer) => Promise<void>,
+): Promise<XlsxWriter> {
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  const emit = async (chunk: Buffer) => {
+    offset += chunk.length;
+    if (chunk.length > 0) await write(chunk);
+  };
+
+  const fixedEntry = (name: string, xml: string): Buffer => {
+    const data = Buffer.from(xml, "utf8");
+    const compressed = deflateRawSync(data);
+    const entry: ZipEntry = {
+      name: Buffer.from(name, "utf8"),
+      offset,
+      crc: crc32(data),
+      compressedSize: compressed.length,
+      size: data.length,
+      flags: UTF8_NAMES,
+    };
+    entries.push(entry);
+    const chunk = Buffer.concat([localHeader(entry), compressed]);
+    offset += chunk.length;
+    return chunk;
+  };
+
+  const fixedParts = Buffer.concat([
+    fixedEntry("[Content_Types].xml", CONTENT_TYPES),
+    fixedEntry("_rels/.rels", ROOT_RELS),
+    fixedEntry("xl/workbook.xml", workbookXml(sheetName)),
+    fixedEntry("xl/_rels/workbook.xml.rels", WORKBOOK_RELS),
+    fixedEntry("xl/styles.xml", STYLES),
+  ]);
+  await write(fixedParts);
+
+  const sheet: ZipEntry = {
+    name: Buffer.from("xl/worksheets/sheet1.xml", "utf8"),
+    offset,
+    crc: 0,
+    compressedSize: 0,
+    size: 0,
+    flags: UTF8_NAMES | HAS_DATA_DESCRIPTOR,
+  };
+  entries.push(sheet);
+  await emit(localHeader(sheet));
+
+  const deflate = createDeflateRaw();
+  const output: Buffer[] = [];
+  deflate.on("data", (chunk: Buffer) => output.push(chunk));
+
+  // Compress `xml` into the sheet and pass on whatever compressed output is ready
+  const compress = async (xml: string, final = false) => {
+    const data = Buffer.from(xml, "utf8");
+    sheet.crc = crc32(data, sheet.crc);
+    sheet.size += data.length;
+    if (final) {
+      await new Promise<void>((resolve, reject) => {
+        deflate.once("error", reject);
+        deflate.once("end", resolve);
+        deflate.end(data);
+      });
+    } else {
+      deflate.write(data);
+      await new Promise<void>((resolve) => deflate.flush(() => resolve()));
+    }
+    const chunk = Buffer.concat(output.splice(0));
+    sheet.compressedSize += chunk.length;
+    await emit(chunk);
+  };
+
+  let rowNumber = 1;
+  await compress(
+    SHEET_START +
+      rowXml(
+        rowNumber,
+        columns,
+        columns.map((column) => column.header),
+        BOLD_STYLE,
+      ),
+  );
+
+  return {
+    async addRows(rows) {
+      if (rows.length === 0) return;
+      await compress(rows.map((values) => rowXml(++rowNumber, columns, values)).join(""));
+    },
+    async end() {
+      await compress(SHEET_END, true);
+      await emit(dataDescriptor(sheet));
+      await write(centralDirectory(entries, offset));
+    },
+  };
+}
@@ -186,3 +186,12 @@ export interface ClientCompanyStats {
   withActiveEngagements: number;
   withoutContacts: number;
 }
+
+/**
+ * Result of merging a duplicate record into the surviving one
+ */
+export interface MergeResult<T> {
+  record: T; // The surviving record, with blanks filled from the duplicate
+  mergedId: string;
+  moved: Record<string, number>; // Re-pointed rows per related entity
+}
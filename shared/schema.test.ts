@@ -135,31 +135,40 @@ describe('Schema Validation Tests', () => {
   });
 
   describe('Deal Schema', () => {
-    it('should validate deal with valid stage', () => {
-      const stages = ['lead', 'qualified', 'proposal', 'negotiation', 'won', 'lost'];
-      
-      stages.forEach(stage => {
-        const valid = {
-          organizationId: 'org-123',
-          ownerId: 'user-123',
-          name: 'Test Deal',
-          stage: stage as any,
-          value: '10000.00', // decimal is stored as string
-        };
-        expect(() => insertDealSchema.parse(valid)).not.toThrow();
-      });
+    it('should validate deal with a pipeline stage', () => {
+      const valid = {
+        organizationId: 'org-123',
+        ownerId: 'user-123',
+        name: 'Test Deal',
+        pipelineId: 'pipeline-123',
+        stageId: 'stage-123',
+        value: '10000.00', // decimal is stored as string
+      };
+      expect(() => insertDealSchema.parse(valid)).not.toThrow();
     });
 
-    it('should reject deal with invalid stage', () => {
+    it('should reject deal without a stage', () => {
       const invalid = {
         organizationId: 'org-123',
         ownerId: 'user-123',
         name: 'Test Deal',
-        stage: 'invalid-stage',
+        pipelineId: 'pipeline-123',
         value: '10000.00',
       };
       expect(() => insertDealSchema.parse(invalid)).toThrow();
     });
+
+    it('should not accept status directly', () => {
+      const parsed = insertDealSchema.parse({
+        organizationId: 'org-123',
+        ownerId: 'user-123',
+        name: 'Test Deal',
+        pipelineId: 'pipeline-123',
+        stageId: 'stage-123',
+        status: 'won',
+      });
+      expect(parsed).not.toHaveProperty('status');
+    });
   });
 
   describe('Proposal Schema', () => {
@@ -39,6 +39,7 @@ import {
   decimal,
   jsonb,
   index,
+  uniqueIndex,
   pgEnum,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
@@ -187,14 +188,6 @@ export const uploadOrganizationLogoSchema = z.object({
 });
 
 // ==================== ENUMS ====================
-export const dealStageEnum = pgEnum("deal_stage", [
-  "lead",
-  "qualified",
-  "proposal",
-  "negotiation",
-  "won",
-  "lost",
-]);
 export const proposalStatusEnum = pgEnum("proposal_status", [
   "draft",
   "sent",
@@ -235,6 +228,7 @@ export const invoiceStatusEnum = pgEnum("invoice_status", [
   "draft",
   "sent",
   "viewed",
+  "partially_paid",
   "paid",
   "overdue",
   "cancelled",
@@ -260,6 +254,8 @@ export const activityTypeEnum = pgEnum("activity_type", [
   "approved",
   "rejected",
   "comment",
+  "merged",
+  "exported",
 ]);
 export const permissionTypeEnum = pgEnum("permission_type", [
   "view",
@@ -292,6 +288,11 @@ export const organizations = pgTable("organizations", {
     saturday: { enabled: false, open: "09:00", close: "17:00" },
     sunday: { enabled: false, open: "09:00", close: "17:00" },
   })),
+  // Dunning: days relative to an invoice's due date on which to email a reminder
+  // (negative = before due). Null means DEFAULT_INVOICE_REMINDER_DAYS.
+  invoiceReminderDays: jsonb("invoice_reminder_days"),
+  // Deal won automation: also open an engagement, not just a draft contract
+  createEngagementOnDealWon: boolean("create_engagement_on_deal_won").default(false).notNull(),
   
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -375,6 +376,90 @@ export const contacts = pgTable(
   ],
 );
 
+// ==================== DUPLICATE REVIEW ====================
+// Possible duplicates are computed on the fly (server/domains/crm/duplicates.ts); only pairs a
+// user marked as "not duplicates" are stored, ids sorted so each pair has one row.
+export const DUPLICATE_ENTITY_TYPES = ["client", "contact"] as const;
+export type DuplicateEntityType = (typeof DUPLICATE_ENTITY_TYPES)[number];
+export const duplicateDismissals = pgTable(
+  "duplicate_dismissals",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    entityType: varchar("entity_type", { length: 20 }).$type<DuplicateEntityType>().notNull(),
+    firstId: varchar("first_id").notNull(),
+    secondId: varchar("second_id").notNull(),
+    dismissedById: varchar("dismissed_by_id").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("idx_duplicate_dismissals_pair").on(
+      table.organizationId,
+      table.entityType,
+      table.firstId,
+      table.secondId,
+    ),
+  ],
+);
+
+// ==================== DEAL PIPELINES ====================
+// Each organization defines its own sales pipelines, each with ordered stages. A stage
+// carries the default win probability for deals entering it and may be flagged won or lost;
+// a deal's `status` follows those flags. Organizations get a default pipeline with the
+// classic lead -> qualified -> proposal -> negotiation -> won / lost stages on first use.
+export const DEAL_STATUSES = ["open", "won", "lost"] as const;
+export type DealStatus = (typeof DEAL_STATUSES)[number];
+export const dealPipelines = pgTable(
+  "deal_pipelines",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    name: varchar("name", { length: 100 }).notNull(),
+    description: text("description"),
+    // New deals without a pipeline go to the default one
+    isDefault: boolean("is_default").default(false).notNull(),
+    position: integer("position").default(0).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("idx_deal_pipelines_org").on(table.organizationId),
+    uniqueIndex("idx_deal_pipelines_org_name").on(table.organizationId, table.name),
+  ],
+);
+
+export const dealStages = pgTable(
+  "deal_stages",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    pipelineId: varchar("pipeline_id")
+      .references(() => dealPipelines.id, { onDelete: "cascade" })
+      .notNull(),
+    name: varchar("name", { length: 100 }).notNull(),
+    position: integer("position").notNull(),
+    // Default win probability (0-100) for deals moved into this stage
+    probability: integer("probability").default(0).notNull(),
+    isWon: boolean("is_won").default(false).notNull(),
+    isLost: boolean("is_lost").default(false).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [index("idx_deal_stages_pipeline").on(table.pipelineId, table.position)],
+);
+
 // ==================== DEALS (Pipeline) ====================
 export const deals = pgTable(
   "deals",
@@ -393,7 +478,14 @@ export const deals = pgTable(
     name: varchar("name", { length: 255 }).notNull(),
     description: text("description"),
     value: decimal("value", { precision: 12, scale: 2 }),
-    stage: dealStageEnum("stage").default("lead").notNull(),
+    pipelineId: varchar("pipeline_id")
+      .references(() => dealPipelines.id)
+      .notNull(),
+    stageId: varchar("stage_id")
+      .references(() => dealStages.id)
+      .notNull(),
+    // Derived from the stage's won/lost flags
+    status: varchar("status", { length: 20 }).default("open").notNull(),
     probability: integer("probability").default(0),
     expectedCloseDate: timestamp("expected_close_date"),
     closedAt: timestamp("closed_at"),
@@ -403,11 +495,37 @@ export const deals = pgTable(
   },
   (table) => [
     index("idx_deals_org").on(table.organizationId),
-    index("idx_deals_stage").on(table.stage),
+    index("idx_deals_stage").on(table.stageId),
+    index("idx_deals_pipeline_status").on(table.pipelineId, table.status),
     index("idx_deals_client").on(table.clientCompanyId),
   ],
 );
 
+// One row per stage change, including the stage a deal was created in (`fromStageId` null).
+// Time in stage is the gap between consecutive rows of a deal.
+export const dealStageHistory = pgTable(
+  "deal_stage_history",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    dealId: varchar("deal_id")
+      .references(() => deals.id, { onDelete: "cascade" })
+      .notNull(),
+    fromStageId: varchar("from_stage_id").references(() => dealStages.id, { onDelete: "set null" }),
+    toStageId: varchar("to_stage_id").references(() => dealStages.id, { onDelete: "set null" }),
+    movedById: varchar("moved_by_id"),
+    movedAt: timestamp("moved_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("idx_deal_stage_history_deal").on(table.dealId, table.movedAt),
+    index("idx_deal_stage_history_org").on(table.organizationId, table.movedAt),
+  ],
+);
+
 // ==================== PROPOSALS ====================
 export const proposals = pgTable(
   "proposals",
@@ -495,6 +613,8 @@ export const engagements = pgTable(
     ownerId: varchar("owner_id").notNull(),
     name: varchar("name", { length: 255 }).notNull(),
     description: text("description"),
+    // Kind of work (e.g. "Website build", "Retainer"); profitability is also reported per type
+    workType: varchar("work_type", { length: 100 }),
     status: engagementStatusEnum("status").default("active").notNull(),
     startDate: timestamp("start_date"),
     endDate: timestamp("end_date"),
@@ -509,6 +629,33 @@ export const engagements = pgTable(
   ],
 );
 
+// ==================== DEAL WON AUTOMATION ====================
+// One row per won deal once the post-sale chain has run (see server/domains/workflows/deal-won.ts).
+// The unique deal id keeps reprocessed `deal.updated` events from creating records twice.
+export const dealWonAutomations = pgTable(
+  "deal_won_automations",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    dealId: varchar("deal_id")
+      .references(() => deals.id, { onDelete: "cascade" })
+      .notNull(),
+    proposalId: varchar("proposal_id").references(() => proposals.id, { onDelete: "set null" }),
+    contractId: varchar("contract_id").references(() => contracts.id, { onDelete: "set null" }),
+    engagementId: varchar("engagement_id").references(() => engagements.id, { onDelete: "set null" }),
+    ownerNotifiedAt: timestamp("owner_notified_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("idx_deal_won_automations_org").on(table.organizationId),
+    uniqueIndex("idx_deal_won_automations_deal").on(table.dealId),
+  ],
+);
+
 // ==================== PROJECT TEMPLATES ====================
 export const projectTemplates = pgTable(
   "project_templates",
@@ -614,6 +761,57 @@ export const tasks = pgTable(
   ],
 );
 
+// ==================== TIME TRACKING ====================
+// Entries move through a weekly timesheet: draft -> submitted -> approved, or back to
+// rejected for correction. Only approved billable entries can be invoiced.
+export const TIME_ENTRY_STATUSES = ["draft", "submitted", "approved", "rejected"] as const;
+export type TimeEntryStatus = (typeof TIME_ENTRY_STATUSES)[number];
+
+export const timeEntries = pgTable(
+  "time_entries",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    userId: varchar("user_id").notNull(),
+    projectId: varchar("project_id")
+      .references(() => projects.id, { onDelete: "cascade" })
+      .notNull(),
+    taskId: varchar("task_id").references(() => tasks.id, { onDelete: "set null" }),
+    // Copied from the project so unbilled time can be found per engagement
+    engagementId: varchar("engagement_id")
+      .references(() => engagements.id, { onDelete: "cascade" })
+      .notNull(),
+    date: timestamp("date").notNull(),
+    durationMinutes: integer("duration_minutes").default(0).notNull(),
+    billable: boolean("billable").default(true).notNull(),
+    hourlyRate: decimal("hourly_rate", { precision: 12, scale: 2 }),
+    notes: text("notes"),
+    status: varchar("status", { length: 20 }).default("draft").notNull(),
+    // Set while the entry's timer runs; stopping it adds the elapsed time to durationMinutes
+    timerStartedAt: timestamp("timer_started_at"),
+    submittedAt: timestamp("submitted_at"),
+    reviewedById: varchar("reviewed_by_id"),
+    reviewedAt: timestamp("reviewed_at"),
+    reviewNote: text("review_note"),
+    // The invoice this entry was billed on; deleting the invoice makes the time unbilled again
+    invoiceId: varchar("invoice_id").references(() => invoices.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("idx_time_entries_org_user_date").on(table.organizationId, table.userId, table.date),
+    index("idx_time_entries_engagement").on(table.engagementId),
+    // One running timer per user
+    uniqueIndex("idx_time_entries_running_timer")
+      .on(table.userId)
+      .where(sql`${table.timerStartedAt} IS NOT NULL`),
+  ],
+);
+
 // ==================== FILE OBJECTS (Documents) ====================
 export const fileObjects = pgTable(
   "file_objects",
@@ -688,6 +886,16 @@ export const messages = pgTable(
 );
 
 // ==================== INVOICE SCHEDULES ====================
+// Supported billing cadences for recurring invoices (stored in `invoice_schedules.frequency`).
+export const INVOICE_SCHEDULE_FREQUENCIES = [
+  "weekly",
+  "biweekly",
+  "monthly",
+  "quarterly",
+  "annually",
+] as const;
+export type InvoiceScheduleFrequency = (typeof INVOICE_SCHEDULE_FREQUENCIES)[number];
+
 export const invoiceSchedules = pgTable(
   "invoice_schedules",
   {
@@ -705,9 +913,67 @@ export const invoiceSchedules = pgTable(
     totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).notNull(),
     frequency: varchar("frequency", { length: 50 }),
     nextInvoiceDate: timestamp("next_invoice_date"),
+    // Days between the generated invoice's issue date and its due date.
+    paymentTermsDays: integer("payment_terms_days").default(30).notNull(),
+    isActive: boolean("is_active").default(true).notNull(),
+    lastGeneratedAt: timestamp("last_generated_at"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
   },
-  (table) => [index("idx_schedules_engagement").on(table.engagementId)],
+  (table) => [
+    index("idx_schedules_engagement").on(table.engagementId),
+    index("idx_schedules_next_date").on(table.nextInvoiceDate),
+  ],
+);
+
+// ==================== TAX RATES ====================
+// Named, org-managed rates (e.g. "VAT 20%") referenced by invoice line items.
+export const taxRates = pgTable(
+  "tax_rates",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    name: varchar("name", { length: 100 }).notNull(),
+    // Percentage, e.g. 20.0000 for 20%
+    rate: decimal("rate", { precision: 7, scale: 4 }).notNull(),
+    isActive: boolean("is_active").default(true).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [index("idx_tax_rates_org").on(table.organizationId)],
+);
+
+// ==================== DOCUMENT NUMBERING ====================
+export const NUMBERED_DOCUMENT_TYPES = ["invoice", "bill", "credit_note"] as const;
+export type NumberedDocumentType = (typeof NUMBERED_DOCUMENT_TYPES)[number];
+export const NUMBERING_RESET_PERIODS = ["never", "yearly", "monthly"] as const;
+export type NumberingResetPeriod = (typeof NUMBERING_RESET_PERIODS)[number];
+// Placeholder prefix for draft invoices, which are numbered when issued
+export const DRAFT_NUMBER_PREFIX = "DRAFT-";
+
+// One gapless counter per org + document type. `period` is the reset period the counter
+// belongs to (e.g. "2026" or "2026-03"); the counter restarts at 1 when it changes.
+export const numberingSequences = pgTable(
+  "numbering_sequences",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    documentType: varchar("document_type", { length: 20 }).notNull(),
+    pattern: varchar("pattern", { length: 100 }).notNull(),
+    resetPeriod: varchar("reset_period", { length: 20 }).default("yearly").notNull(),
+    period: varchar("period", { length: 20 }).default("").notNull(),
+    nextValue: integer("next_value").default(1).notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("idx_numbering_sequences_org_type").on(table.organizationId, table.documentType)],
 );
 
 // ==================== INVOICES (AR) ====================
@@ -731,14 +997,19 @@ export const invoices = pgTable(
     }),
     invoiceNumber: varchar("invoice_number", { length: 50 }).notNull(),
     status: invoiceStatusEnum("status").default("draft").notNull(),
+    // ISO 4217 code; null means the organization's base currency
+    currency: varchar("currency", { length: 3 }),
     amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
     tax: decimal("tax", { precision: 12, scale: 2 }).default("0"),
     totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).notNull(),
+    // InvoiceLineItem[]; amount / tax / totalAmount are computed from these server-side
     lineItems: jsonb("line_items"),
     dueDate: timestamp("due_date"),
     sentAt: timestamp("sent_at"),
     paidAt: timestamp("paid_at"),
     paidAmount: decimal("paid_amount", { precision: 12, scale: 2 }),
+    // Sum of non-voided credit notes; derived like paidAmount, never edited directly
+    creditedAmount: decimal("credited_amount", { precision: 12, scale: 2 }),
     notes: text("notes"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -757,6 +1028,9 @@ export const payments = pgTable(
     id: varchar("id")
       .primaryKey()
       .default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
     invoiceId: varchar("invoice_id")
       .references(() => invoices.id, { onDelete: "cascade" })
       .notNull(),
@@ -765,8 +1039,158 @@ export const payments = pgTable(
     referenceNumber: varchar("reference_number", { length: 100 }),
     paidAt: timestamp("paid_at").defaultNow().notNull(),
     notes: text("notes"),
+    createdById: varchar("created_by_id"),
+    // Voided payments stay in the ledger for audit but no longer count toward paidAmount
+    voidedAt: timestamp("voided_at"),
+    voidedById: varchar("voided_by_id"),
+    voidReason: text("void_reason"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
   },
-  (table) => [index("idx_payments_invoice").on(table.invoiceId)],
+  (table) => [
+    index("idx_payments_org").on(table.organizationId),
+    index("idx_payments_invoice").on(table.invoiceId),
+  ],
+);
+
+// ==================== PAYMENT SESSIONS (Online payments) ====================
+// A hosted "pay this invoice" checkout created with a payment provider. The provider
+// reports the outcome through signed webhooks: a session goes open -> processing (async
+// settlement) -> succeeded, which records a `payments` row, or failed (the payer may
+// retry). A payment the invoice can no longer take (cancelled, or more than the balance)
+// is not recorded and leaves the session refund_required. Unfinished sessions are expired
+// when a newer one is created for the same invoice.
+export const PAYMENT_SESSION_STATUSES = [
+  "open",
+  "processing",
+  "succeeded",
+  "failed",
+  "expired",
+  "refund_required",
+] as const;
+export type PaymentSessionStatus = (typeof PAYMENT_SESSION_STATUSES)[number];
+export const paymentSessions = pgTable(
+  "payment_sessions",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    invoiceId: varchar("invoice_id")
+      .references(() => invoices.id, { onDelete: "cascade" })
+      .notNull(),
+    provider: varchar("provider", { length: 50 }).notNull(),
+    providerSessionId: varchar("provider_session_id", { length: 255 }).notNull(),
+    status: varchar("status", { length: 20 }).default("open").notNull(),
+    amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+    currency: varchar("currency", { length: 3 }).notNull(),
+    checkoutUrl: text("checkout_url").notNull(),
+    paymentId: varchar("payment_id").references(() => payments.id, { onDelete: "set null" }),
+    failureReason: text("failure_reason"),
+    createdById: varchar("created_by_id"),
+    expiresAt: timestamp("expires_at"),
+    completedAt: timestamp("completed_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("idx_payment_sessions_invoice").on(table.invoiceId),
+    uniqueIndex("idx_payment_sessions_provider_session").on(table.provider, table.providerSessionId),
+  ],
+);
+
+// ==================== CREDIT NOTES & REFUNDS ====================
+// A credit note reduces what the client owes on an issued invoice (disputes, scope
+// reductions). Like payments, credit notes are voided rather than deleted.
+export const creditNotes = pgTable(
+  "credit_notes",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    invoiceId: varchar("invoice_id")
+      .references(() => invoices.id, { onDelete: "cascade" })
+      .notNull(),
+    creditNoteNumber: varchar("credit_note_number", { length: 50 }).notNull(),
+    currency: varchar("currency", { length: 3 }),
+    amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+    tax: decimal("tax", { precision: 12, scale: 2 }).default("0"),
+    totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).notNull(),
+    lineItems: jsonb("line_items"),
+    reason: text("reason").notNull(),
+    issuedAt: timestamp("issued_at").defaultNow().notNull(),
+    createdById: varchar("created_by_id"),
+    voidedAt: timestamp("voided_at"),
+    voidedById: varchar("voided_by_id"),
+    voidReason: text("void_reason"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("idx_credit_notes_org").on(table.organizationId),
+    index("idx_credit_notes_invoice").on(table.invoiceId),
+  ],
+);
+
+// Money returned to the client against a specific payment
+export const refunds = pgTable(
+  "refunds",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    invoiceId: varchar("invoice_id")
+      .references(() => invoices.id, { onDelete: "cascade" })
+      .notNull(),
+    paymentId: varchar("payment_id")
+      .references(() => payments.id, { onDelete: "cascade" })
+      .notNull(),
+    creditNoteId: varchar("credit_note_id").references(() => creditNotes.id, { onDelete: "set null" }),
+    amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+    refundMethod: varchar("refund_method", { length: 50 }),
+    referenceNumber: varchar("reference_number", { length: 100 }),
+    refundedAt: timestamp("refunded_at").defaultNow().notNull(),
+    notes: text("notes"),
+    createdById: varchar("created_by_id"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("idx_refunds_org").on(table.organizationId),
+    index("idx_refunds_invoice").on(table.invoiceId),
+    index("idx_refunds_payment").on(table.paymentId),
+  ],
+);
+
+// ==================== INVOICE REMINDERS (Dunning) ====================
+export const DEFAULT_INVOICE_REMINDER_DAYS = [-3, 0, 7, 14];
+
+export const invoiceReminders = pgTable(
+  "invoice_reminders",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    invoiceId: varchar("invoice_id")
+      .references(() => invoices.id, { onDelete: "cascade" })
+      .notNull(),
+    // Which step of the reminder sequence this was (days relative to the due date)
+    offsetDays: integer("offset_days").notNull(),
+    recipient: varchar("recipient", { length: 255 }).notNull(),
+    sentAt: timestamp("sent_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("idx_invoice_reminders_org").on(table.organizationId),
+    uniqueIndex("idx_invoice_reminders_step").on(table.invoiceId, table.offsetDays),
+  ],
 );
 
 // ==================== VENDORS ====================
@@ -780,9 +1204,14 @@ export const vendors = pgTable(
       .references(() => organizations.id, { onDelete: "cascade" })
       .notNull(),
     name: varchar("name", { length: 255 }).notNull(),
+    contactName: varchar("contact_name", { length: 255 }),
     email: varchar("email", { length: 255 }),
     phone: varchar("phone", { length: 50 }),
     address: text("address"),
+    // EIN/SSN or foreign tax id, printed on the year-end contractor payment summary
+    taxId: varchar("tax_id", { length: 50 }),
+    // Independent contractors are included in the contractor payment summary (1099-NEC)
+    isContractor: boolean("is_contractor").default(false).notNull(),
     notes: text("notes"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -807,6 +1236,8 @@ export const bills = pgTable(
     createdById: varchar("created_by_id").notNull(),
     billNumber: varchar("bill_number", { length: 50 }).notNull(),
     status: billStatusEnum("status").default("pending").notNull(),
+    // ISO 4217 code; null means the organization's base currency
+    currency: varchar("currency", { length: 3 }),
     amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
     dueDate: timestamp("due_date"),
     description: text("description"),
@@ -825,6 +1256,294 @@ export const bills = pgTable(
   ],
 );
 
+// ==================== BILL APPROVAL POLICIES ====================
+// Who must approve a bill, and in what order. Every active policy whose conditions match
+// a bill contributes its steps to the bill's approval chain (ordered by `priority`).
+// Step shapes are validated by `billApprovalStepRuleSchema`.
+export const BILL_APPROVER_TYPES = ["role", "engagement_owner", "user"] as const;
+export type BillApproverType = (typeof BILL_APPROVER_TYPES)[number];
+export const BILL_APPROVAL_STEP_STATUSES = ["pending", "approved", "rejected"] as const;
+export type BillApprovalStepStatus = (typeof BILL_APPROVAL_STEP_STATUSES)[number];
+
+export const billApprovalPolicies = pgTable(
+  "bill_approval_policies",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    name: varchar("name", { length: 100 }).notNull(),
+    // Applies to bills of at least this amount, in the organization base currency
+    minAmount: decimal("min_amount", { precision: 12, scale: 2 }).default("0").notNull(),
+    engagementBillsOnly: boolean("engagement_bills_only").default(false).notNull(),
+    steps: jsonb("steps").notNull(),
+    priority: integer("priority").default(0).notNull(),
+    isActive: boolean("is_active").default(true).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [index("idx_bill_approval_policies_org").on(table.organizationId)],
+);
+
+// A bill's approval chain, built from the matching policies when the bill is created
+// (and rebuilt when its amount or engagement changes). Steps are decided in `position` order.
+export const billApprovalSteps = pgTable(
+  "bill_approval_steps",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    billId: varchar("bill_id")
+      .references(() => bills.id, { onDelete: "cascade" })
+      .notNull(),
+    policyId: varchar("policy_id").references(() => billApprovalPolicies.id, { onDelete: "set null" }),
+    position: integer("position").notNull(),
+    approverType: varchar("approver_type", { length: 30 }).notNull(),
+    // Set for "role" steps; the member role (or higher) that may decide the step
+    approverRole: memberRoleEnum("approver_role"),
+    // Set for "user" steps and engagement-owner steps (resolved when the chain is built)
+    approverUserId: varchar("approver_user_id"),
+    status: varchar("status", { length: 20 }).default("pending").notNull(),
+    decidedById: varchar("decided_by_id"),
+    decidedAt: timestamp("decided_at"),
+    comment: text("comment"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("idx_bill_approval_steps_bill").on(table.billId),
+    uniqueIndex("idx_bill_approval_steps_position").on(table.billId, table.position),
+  ],
+);
+
+// ==================== EXPENSES ====================
+// Staff expenses (vendor invoices are `bills`). An expense goes draft -> submitted ->
+// approved, or back to rejected for correction. Approved reimbursable expenses are owed to
+// the employee until marked reimbursed; approved billable ones can be invoiced to the client.
+export const EXPENSE_STATUSES = ["draft", "submitted", "approved", "rejected"] as const;
+export type ExpenseStatus = (typeof EXPENSE_STATUSES)[number];
+export const EXPENSE_CATEGORIES = [
+  "travel",
+  "lodging",
+  "meals",
+  "mileage",
+  "materials",
+  "software",
+  "other",
+] as const;
+export type ExpenseCategory = (typeof EXPENSE_CATEGORIES)[number];
+
+export const expenses = pgTable(
+  "expenses",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    // The employee who incurred the expense
+    userId: varchar("user_id").notNull(),
+    engagementId: varchar("engagement_id").references(() => engagements.id, {
+      onDelete: "set null",
+    }),
+    category: varchar("category", { length: 20 }).notNull(),
+    description: text("description").notNull(),
+    expenseDate: timestamp("expense_date").notNull(),
+    // ISO 4217 code; null means the organization's base currency
+    currency: varchar("currency", { length: 3 }),
+    amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+    billable: boolean("billable").default(false).notNull(),
+    // Paid by the employee (owed back) rather than on a company card
+    reimbursable: boolean("reimbursable").default(true).notNull(),
+    receiptFileId: varchar("receipt_file_id").references(() => fileObjects.id, {
+      onDelete: "set null",
+    }),
+    status: varchar("status", { length: 20 }).default("draft").notNull(),
+    submittedAt: timestamp("submitted_at"),
+    reviewedById: varchar("reviewed_by_id"),
+    reviewedAt: timestamp("reviewed_at"),
+    reviewNote: text("review_note"),
+    reimbursedAt: timestamp("reimbursed_at"),
+    reimbursedById: varchar("reimbursed_by_id"),
+    reimbursementReference: varchar("reimbursement_reference", { length: 100 }),
+    // The invoice this expense was billed on; deleting the invoice makes it unbilled again
+    invoiceId: varchar("invoice_id").references(() => invoices.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("idx_expenses_org_user").on(table.organizationId, table.userId),
+    index("idx_expenses_engagement").on(table.engagementId),
+    index("idx_expenses_status").on(table.status),
+  ],
+);
+
+// ==================== EXCHANGE RATES ====================
+// `rate` = units of `baseCurrency` per 1 unit of `currency`, valid from `effectiveDate`
+// until the next rate for the same pair.
+export const exchangeRates = pgTable(
+  "exchange_rates",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    currency: varchar("currency", { length: 3 }).notNull(),
+    baseCurrency: varchar("base_currency", { length: 3 }).notNull(),
+    rate: decimal("rate", { precision: 18, scale: 8 }).notNull(),
+    effectiveDate: timestamp("effective_date").notNull(),
+    source: varchar("source", { length: 20 }).default("manual").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("idx_exchange_rates_org").on(table.organizationId),
+    uniqueIndex("idx_exchange_rates_pair_date").on(
+      table.organizationId,
+      table.currency,
+      table.baseCurrency,
+      table.effectiveDate,
+    ),
+  ],
+);
+
+// ==================== BANK RECONCILIATION ====================
+// unmatched lines form the reconciliation queue; ignored lines (transfers, fees) leave it
+export const BANK_TRANSACTION_STATUSES = ["unmatched", "matched", "ignored"] as const;
+export type BankTransactionStatus = (typeof BANK_TRANSACTION_STATUSES)[number];
+
+export const bankTransactions = pgTable(
+  "bank_transactions",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    // OFX FITID, the CSV reference column, or a hash of the line; re-importing a statement skips known ids
+    externalId: varchar("external_id", { length: 255 }).notNull(),
+    postedAt: timestamp("posted_at").notNull(),
+    // Positive for money in, negative for money out
+    amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+    currency: varchar("currency", { length: 3 }).notNull(),
+    payee: varchar("payee", { length: 255 }),
+    description: text("description"),
+    status: varchar("status", { length: 20 }).default("unmatched").notNull(),
+    matchedInvoiceId: varchar("matched_invoice_id").references(() => invoices.id, { onDelete: "set null" }),
+    matchedPaymentId: varchar("matched_payment_id").references(() => payments.id, { onDelete: "set null" }),
+    matchedBillId: varchar("matched_bill_id").references(() => bills.id, { onDelete: "set null" }),
+    matchedById: varchar("matched_by_id"),
+    matchedAt: timestamp("matched_at"),
+    sourceFile: varchar("source_file", { length: 255 }),
+    importedById: varchar("imported_by_id"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("idx_bank_transactions_org_status").on(table.organizationId, table.status),
+    uniqueIndex("idx_bank_transactions_org_external").on(table.organizationId, table.externalId),
+  ],
+);
+
+// ==================== GENERAL LEDGER ====================
+export const LEDGER_ACCOUNT_TYPES = ["asset", "liability", "equity", "income", "expense"] as const;
+export type LedgerAccountType = (typeof LEDGER_ACCOUNT_TYPES)[number];
+// Accounts that automatic postings resolve by key; each org gets one of each on first posting
+export const LEDGER_SYSTEM_ACCOUNTS = [
+  "cash",
+  "accounts_receivable",
+  "accounts_payable",
+  "sales_tax",
+  "revenue",
+  "expenses",
+] as const;
+export type LedgerSystemAccount = (typeof LEDGER_SYSTEM_ACCOUNTS)[number];
+
+export const ledgerAccounts = pgTable(
+  "ledger_accounts",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    code: varchar("code", { length: 20 }).notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    type: varchar("type", { length: 20 }).notNull(),
+    systemKey: varchar("system_key", { length: 50 }),
+    isActive: boolean("is_active").default(true).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("idx_ledger_accounts_org_code").on(table.organizationId, table.code),
+    uniqueIndex("idx_ledger_accounts_org_system_key").on(table.organizationId, table.systemKey),
+  ],
+);
+
+// One balanced entry per accounting event on a source document (e.g. the `invoice.issued`
+// event of an invoice). Entries are never edited; undoing one posts a reversing entry and
+// sets `reversedById` on the original.
+export const journalEntries = pgTable(
+  "journal_entries",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    entryDate: timestamp("entry_date").notNull(),
+    sourceType: varchar("source_type", { length: 50 }).notNull(),
+    sourceId: varchar("source_id").notNull(),
+    event: varchar("event", { length: 50 }).notNull(),
+    // Document number shown to the bookkeeper (invoice, bill or credit note number)
+    reference: varchar("reference", { length: 100 }),
+    memo: text("memo"),
+    // ISO 4217 code of the source document; null means the organization's base currency
+    currency: varchar("currency", { length: 3 }),
+    reversalOfId: varchar("reversal_of_id"),
+    reversedById: varchar("reversed_by_id"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("idx_journal_entries_org_date").on(table.organizationId, table.entryDate),
+    index("idx_journal_entries_source").on(table.sourceType, table.sourceId),
+  ],
+);
+
+export const journalLines = pgTable(
+  "journal_lines",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    journalEntryId: varchar("journal_entry_id")
+      .references(() => journalEntries.id, { onDelete: "cascade" })
+      .notNull(),
+    accountId: varchar("account_id")
+      .references(() => ledgerAccounts.id, { onDelete: "restrict" })
+      .notNull(),
+    debit: decimal("debit", { precision: 12, scale: 2 }).default("0").notNull(),
+    credit: decimal("credit", { precision: 12, scale: 2 }).default("0").notNull(),
+  },
+  (table) => [
+    index("idx_journal_lines_entry").on(table.journalEntryId),
+    index("idx_journal_lines_account").on(table.accountId),
+  ],
+);
+
 // ==================== ACTIVITY EVENTS (Audit Timeline) ====================
 export const activityEvents = pgTable(
   "activity_events",
@@ -1064,10 +1783,58 @@ export const dealsRelations = relations(deals, ({ one, many }) => ({
     fields: [deals.contactId],
     references: [contacts.id],
   }),
+  pipeline: one(dealPipelines, {
+    fields: [deals.pipelineId],
+    references: [dealPipelines.id],
+  }),
+  stage: one(dealStages, {
+    fields: [deals.stageId],
+    references: [dealStages.id],
+  }),
+  stageHistory: many(dealStageHistory),
   proposals: many(proposals),
   contracts: many(contracts),
 }));
 
+export const dealStageHistoryRelations = relations(dealStageHistory, ({ one }) => ({
+  deal: one(deals, {
+    fields: [dealStageHistory.dealId],
+    references: [deals.id],
+  }),
+}));
+
+export const dealWonAutomationsRelations = relations(dealWonAutomations, ({ one }) => ({
+  deal: one(deals, {
+    fields: [dealWonAutomations.dealId],
+    references: [deals.id],
+  }),
+  contract: one(contracts, {
+    fields: [dealWonAutomations.contractId],
+    references: [contracts.id],
+  }),
+  engagement: one(engagements, {
+    fields: [dealWonAutomations.engagementId],
+    references: [engagements.id],
+  }),
+}));
+
+export const dealPipelinesRelations = relations(dealPipelines, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [dealPipelines.organizationId],
+    references: [organizations.id],
+  }),
+  stages: many(dealStages),
+  deals: many(deals),
+}));
+
+export const dealStagesRelations = relations(dealStages, ({ one, many }) => ({
+  pipeline: one(dealPipelines, {
+    fields: [dealStages.pipelineId],
+    references: [dealPipelines.id],
+  }),
+  deals: many(deals),
+}));
+
 export const engagementsRelations = relations(engagements, ({ one, many }) => ({
   organization: one(organizations, {
     fields: [engagements.organizationId],
@@ -1175,8 +1942,61 @@ export const insertContactSchema = createInsertSchema(contacts).omit({
   createdAt: true,
   updatedAt: true,
 });
+export const mergeRecordsSchema = z.object({
+  // The record folded into the one in the URL, then deleted
+  duplicateId: z.string().min(1, "Duplicate id is required"),
+});
+export const dismissDuplicateSchema = z.object({
+  recordIds: z
+    .tuple([z.string().min(1), z.string().min(1)])
+    .refine(([first, second]) => first !== second, "Pick two different records"),
+});
+export const dealStageInputSchema = z
+  .object({
+    // Set when editing an existing stage; omitted for new ones
+    id: z.string().min(1).optional(),
+    name: z.string().trim().min(1, "Stage name is required").max(100),
+    probability: z.coerce.number().int().min(0).max(100).default(0),
+    isWon: z.boolean().default(false),
+    isLost: z.boolean().default(false),
+  })
+  .refine((stage) => !(stage.isWon && stage.isLost), "A stage cannot be both won and lost");
+export const insertDealPipelineSchema = createInsertSchema(dealPipelines).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  description: z.string().trim().max(1000).nullish(),
+  // In pipeline order
+  stages: z
+    .array(dealStageInputSchema)
+    .min(3, "A pipeline needs at least an open, a won and a lost stage")
+    .max(30)
+    .superRefine((stages, ctx) => {
+      if (!stages.some((stage) => !stage.isWon && !stage.isLost)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "At least one stage must be open" });
+      }
+      if (!stages.some((stage) => stage.isWon)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "At least one stage must be marked won" });
+      }
+      if (!stages.some((stage) => stage.isLost)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "At least one stage must be marked lost" });
+      }
+      const names = stages.map((stage) => stage.name.toLowerCase());
+      if (new Set(names).size !== names.length) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Stage names must be unique within a pipeline" });
+      }
+    }),
+});
+export const updateDealPipelineSchema = insertDealPipelineSchema.omit({ organizationId: true }).partial();
+export const dealAutomationSettingsSchema = z.object({
+  createEngagementOnDealWon: z.boolean(),
+});
+// `status` follows the stage; `pipelineId` is taken from the stage when only `stageId` is given
 export const insertDealSchema = createInsertSchema(deals).omit({
   id: true,
+  status: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -1205,6 +2025,53 @@ export const insertTaskSchema = createInsertSchema(tasks).omit({
   createdAt: true,
   updatedAt: true,
 });
+export const insertTimeEntrySchema = createInsertSchema(timeEntries).omit({
+  id: true,
+  engagementId: true,
+  status: true,
+  timerStartedAt: true,
+  submittedAt: true,
+  reviewedById: true,
+  reviewedAt: true,
+  reviewNote: true,
+  invoiceId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  projectId: z.string().min(1, "Project is required"),
+  taskId: z.string().nullish(),
+  date: z.coerce.date(),
+  durationMinutes: z.coerce
+    .number()
+    .int()
+    .positive("Duration must be greater than zero")
+    .max(24 * 60, "Duration cannot exceed 24 hours"),
+  hourlyRate: z.coerce.number().min(0, "Rate cannot be negative").transform(String).nullish(),
+  notes: z.string().trim().max(2000).nullish(),
+});
+export const updateTimeEntrySchema = insertTimeEntrySchema.omit({ organizationId: true, userId: true }).partial();
+// A running timer is an entry with no duration yet, dated the day it starts
+export const startTimerSchema = insertTimeEntrySchema.pick({
+  projectId: true,
+  taskId: true,
+  billable: true,
+  hourlyRate: true,
+  notes: true,
+});
+export const submitTimesheetSchema = z.object({
+  weekStart: z.coerce.date(),
+});
+export const reviewTimesheetSchema = z.object({
+  userId: z.string().min(1, "User is required"),
+  weekStart: z.coerce.date(),
+  note: z.string().trim().max(1000).optional(),
+});
+export const invoiceFromTimeSchema = z.object({
+  // Used for entries logged without a rate
+  hourlyRate: z.coerce.number().positive("Rate must be greater than zero").optional(),
+  dueDate: z.coerce.date().optional(),
+  notes: z.string().trim().max(2000).optional(),
+});
 export const insertMilestoneSchema = createInsertSchema(milestones).omit({
   id: true,
   createdAt: true,
@@ -1216,16 +2083,262 @@ export const insertInvoiceSchema = createInsertSchema(invoices).omit({
   createdAt: true,
   updatedAt: true,
 });
+export const invoiceLineItemSchema = z.object({
+  description: z.string().trim().min(1, "Description is required").max(500),
+  quantity: z.coerce.number().positive("Quantity must be greater than zero"),
+  unitPrice: z.coerce.number().min(0, "Unit price cannot be negative"),
+  // Percentage off the line, before tax
+  discountPercent: z.coerce.number().min(0).max(100).default(0),
+  taxRateId: z.string().nullish(),
+});
+export const invoiceLineItemsSchema = z
+  .array(invoiceLineItemSchema)
+  .min(1, "At least one line item is required")
+  .max(200);
+export const DEFAULT_NUMBERING_PATTERNS: Record<NumberedDocumentType, string> = {
+  invoice: "INV-{YYYY}-{0000}",
+  bill: "BILL-{YYYY}-{0000}",
+  credit_note: "CN-{YYYY}-{0000}",
+};
+export const numberingSequenceSettingsSchema = z
+  .object({
+    pattern: z.string().trim().min(1, "Pattern is required").max(100),
+    resetPeriod: z.enum(NUMBERING_RESET_PERIODS),
+  })
+  .superRefine(({ pattern, resetPeriod }, ctx) => {
+    const counters = pattern.match(/\{0+\}/g) ?? [];
+    if (counters.length !== 1) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["pattern"], message: "Pattern must contain one counter, e.g. {0000}" });
+    }
+    // Without the period in the number, a reset would reissue numbers already used
+    const hasYear = /\{YYYY\}|\{YY\}/.test(pattern);
+    if ((resetPeriod === "yearly" && !hasYear) || (resetPeriod === "monthly" && !(hasYear && pattern.includes("{MM}")))) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["pattern"],
+        message: resetPeriod === "yearly" ? "Yearly reset requires {YYYY} or {YY}" : "Monthly reset requires a year token and {MM}",
+      });
+    }
+  });
+export const insertTaxRateSchema = createInsertSchema(taxRates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  rate: z.coerce.number().min(0).max(100, "Rate is a percentage between 0 and 100").transform(String),
+});
+export const updateTaxRateSchema = insertTaxRateSchema.omit({ organizationId: true }).partial();
+export const PAYMENT_METHODS = ["bank_transfer", "check", "card", "cash", "other"] as const;
+export const insertPaymentSchema = createInsertSchema(payments).omit({
+  id: true,
+  createdAt: true,
+  voidedAt: true,
+  voidedById: true,
+  voidReason: true,
+}).extend({
+  amount: z.coerce.number().positive("Amount must be greater than zero").transform(String),
+  paymentMethod: z.enum(PAYMENT_METHODS).optional(),
+  paidAt: z.coerce.date().optional(),
+});
+export const voidPaymentSchema = z.object({
+  reason: z.string().trim().min(1, "Void reason is required").max(500),
+});
+export const insertPaymentSessionSchema = createInsertSchema(paymentSessions).omit({
+  id: true,
+  status: true,
+  paymentId: true,
+  failureReason: true,
+  completedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export const createPaymentSessionSchema = z.object({
+  // Defaults to the configured provider (PAYMENT_PROVIDER)
+  provider: z.string().trim().min(1).max(50).optional(),
+});
+// What the mock provider's hosted checkout page can simulate; "async" settles after a delay
+export const MOCK_PAYMENT_OUTCOMES = ["succeed", "fail", "async"] as const;
+export const simulateMockPaymentSchema = z.object({
+  outcome: z.enum(MOCK_PAYMENT_OUTCOMES),
+});
+export const createCreditNoteSchema = z.object({
+  lineItems: invoiceLineItemsSchema,
+  reason: z.string().trim().min(1, "Reason is required").max(1000),
+});
+export const insertCreditNoteSchema = createInsertSchema(creditNotes).omit({
+  id: true,
+  createdAt: true,
+  voidedAt: true,
+  voidedById: true,
+  voidReason: true,
+});
+export const insertRefundSchema = createInsertSchema(refunds).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  amount: z.coerce.number().positive("Amount must be greater than zero").transform(String),
+  refundMethod: z.enum(PAYMENT_METHODS).optional(),
+  refundedAt: z.coerce.date().optional(),
+});
+export const insertInvoiceReminderSchema = createInsertSchema(invoiceReminders).omit({
+  id: true,
+  sentAt: true,
+});
+export const invoiceReminderSettingsSchema = z.object({
+  days: z
+    .array(z.number().int().min(-30).max(90))
+    .max(10, "At most 10 reminders")
+    .transform((days) => Array.from(new Set(days)).sort((a, b) => a - b)),
+});
+export const currencyCodeSchema = z
+  .string()
+  .regex(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO 4217 code");
+export const insertExchangeRateSchema = createInsertSchema(exchangeRates).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  currency: currencyCodeSchema,
+  baseCurrency: currencyCodeSchema,
+  rate: z.coerce.number().positive("Rate must be greater than zero").transform(String),
+  effectiveDate: z.coerce.date(),
+  source: z.enum(["manual", "import"]).optional(),
+});
+export const insertLedgerAccountSchema = createInsertSchema(ledgerAccounts).omit({
+  id: true,
+  systemKey: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  code: z.string().trim().min(1, "Code is required").max(20),
+  name: z.string().trim().min(1, "Name is required").max(255),
+  type: z.enum(LEDGER_ACCOUNT_TYPES),
+});
+// The type of an account is fixed once postings may reference it
+export const updateLedgerAccountSchema = insertLedgerAccountSchema
+  .omit({ organizationId: true, type: true })
+  .partial();
 export const insertBillSchema = createInsertSchema(bills).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
+export const billApprovalStepRuleSchema = z.discriminatedUnion("approverType", [
+  z.object({ approverType: z.literal("role"), role: z.enum(memberRoleEnum.enumValues) }),
+  z.object({ approverType: z.literal("engagement_owner") }),
+  z.object({ approverType: z.literal("user"), userId: z.string().min(1, "Approver is required") }),
+]);
+export const insertBillApprovalPolicySchema = createInsertSchema(billApprovalPolicies).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  minAmount: z.coerce.number().min(0).transform(String).optional(),
+  steps: z.array(billApprovalStepRuleSchema).min(1, "At least one approval step is required").max(10),
+});
+export const updateBillApprovalPolicySchema = insertBillApprovalPolicySchema.omit({ organizationId: true }).partial();
+export const insertBillApprovalStepSchema = createInsertSchema(billApprovalSteps).omit({
+  id: true,
+  createdAt: true,
+});
+export const billApprovalDecisionSchema = z.object({
+  comment: z.string().trim().max(1000).optional(),
+});
+export const insertExpenseSchema = createInsertSchema(expenses).omit({
+  id: true,
+  status: true,
+  receiptFileId: true,
+  submittedAt: true,
+  reviewedById: true,
+  reviewedAt: true,
+  reviewNote: true,
+  reimbursedAt: true,
+  reimbursedById: true,
+  reimbursementReference: true,
+  invoiceId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  category: z.enum(EXPENSE_CATEGORIES),
+  description: z.string().trim().min(1, "Description is required").max(500),
+  expenseDate: z.coerce.date(),
+  currency: currencyCodeSchema.nullish(),
+  amount: z.coerce.number().positive("Amount must be greater than zero").transform(String),
+  engagementId: z.string().nullish(),
+});
+export const updateExpenseSchema = insertExpenseSchema.omit({ organizationId: true, userId: true }).partial();
+export const reviewExpenseSchema = z.object({
+  note: z.string().trim().max(1000).optional(),
+});
+export const reimburseExpensesSchema = z.object({
+  expenseIds: z.array(z.string().min(1)).min(1, "Select at least one expense").max(500),
+  reference: z.string().trim().max(100).optional(),
+});
+export const invoiceFromExpensesSchema = z.object({
+  // Added on top of each expense, e.g. 10 bills a 200.00 expense as 220.00
+  markupPercent: z.coerce.number().min(0, "Markup cannot be negative").max(1000).default(0),
+  dueDate: z.coerce.date().optional(),
+  notes: z.string().trim().max(2000).optional(),
+});
+export const insertBankTransactionSchema = createInsertSchema(bankTransactions).omit({
+  id: true,
+  status: true,
+  matchedInvoiceId: true,
+  matchedPaymentId: true,
+  matchedBillId: true,
+  matchedById: true,
+  matchedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export const bankTransactionMatchSchema = z.object({
+  type: z.enum(["invoice", "bill"]),
+  id: z.string().min(1, "Match id is required"),
+});
+// Matched lines return to the queue only when the payment they recorded is voided
+export const updateBankTransactionSchema = z.object({
+  status: z.enum(["unmatched", "ignored"]),
+});
 export const insertVendorSchema = createInsertSchema(vendors).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required").max(255),
+  // Empty form fields clear the value
+  email: z
+    .string()
+    .trim()
+    .email("Invalid email")
+    .max(255)
+    .or(z.literal(""))
+    .nullish()
+    .transform((value) => value || null),
+  taxId: z.string().trim().max(50).nullish(),
 });
+export const updateVendorSchema = insertVendorSchema.omit({ organizationId: true }).partial();
+export const VENDOR_SPEND_PERIODS = ["month", "quarter", "year"] as const;
+export type VendorSpendPeriod = (typeof VENDOR_SPEND_PERIODS)[number];
+// Accounts receivable aging buckets, by days past due
+export const AR_AGING_BUCKETS = ["current", "days_1_30", "days_31_60", "days_61_90", "days_over_90"] as const;
+export type ArAgingBucket = (typeof AR_AGING_BUCKETS)[number];
+// Lists that can be downloaded from GET /api/exports/<list>, and the file formats
+export const EXPORT_ENTITY_TYPES = [
+  "clients",
+  "contacts",
+  "deals",
+  "proposals",
+  "contracts",
+  "engagements",
+  "projects",
+  "tasks",
+  "invoices",
+  "bills",
+] as const;
+export type ExportEntityType = (typeof EXPORT_ENTITY_TYPES)[number];
+export const EXPORT_FORMATS = ["csv", "xlsx"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
 export const insertFileObjectSchema = createInsertSchema(fileObjects).omit({
   id: true,
   createdAt: true,
@@ -1249,7 +2362,18 @@ export const insertProjectTemplateSchema = createInsertSchema(projectTemplates).
 export const insertInvoiceScheduleSchema = createInsertSchema(invoiceSchedules).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
+  lastGeneratedAt: true,
+}).extend({
+  frequency: z.enum(INVOICE_SCHEDULE_FREQUENCIES),
+  totalAmount: z.coerce.number().positive("Amount must be greater than zero").transform(String),
+  // Optional: a schedule without a next date stays dormant until one is set
+  nextInvoiceDate: z.coerce.date().nullish(),
+  paymentTermsDays: z.number().int().min(0).max(365).optional(),
 });
+export const updateInvoiceScheduleSchema = insertInvoiceScheduleSchema
+  .omit({ organizationId: true })
+  .partial();
 export const insertPermissionSchema = createInsertSchema(permissions).omit({
   id: true,
   createdAt: true,
@@ -1287,8 +2411,16 @@ export type InsertClientCompany = z.infer<typeof insertClientCompanySchema>;
 export type ClientCompany = typeof clientCompanies.$inferSelect;
 export type InsertContact = z.infer<typeof insertContactSchema>;
 export type Contact = typeof contacts.$inferSelect;
+export type DealStageInput = z.infer<typeof dealStageInputSchema>;
+export type InsertDealPipeline = z.infer<typeof insertDealPipelineSchema>;
+export type DealPipeline = typeof dealPipelines.$inferSelect;
+export type DealStage = typeof dealStages.$inferSelect;
+export type DealPipelineWithStages = DealPipeline & { stages: DealStage[] };
 export type InsertDeal = z.infer<typeof insertDealSchema>;
 export type Deal = typeof deals.$inferSelect;
+export type DealStageTransition = typeof dealStageHistory.$inferSelect;
+export type DealWonAutomation = typeof dealWonAutomations.$inferSelect;
+export type DuplicateDismissal = typeof duplicateDismissals.$inferSelect;
 export type InsertProposal = z.infer<typeof insertProposalSchema>;
 export type Proposal = typeof proposals.$inferSelect;
 export type InsertContract = z.infer<typeof insertContractSchema>;
@@ -1299,6 +2431,9 @@ export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Project = typeof projects.$inferSelect;
 export type InsertTask = z.infer<typeof insertTaskSchema>;
 export type Task = typeof tasks.$inferSelect;
+export type InsertTimeEntry = z.infer<typeof insertTimeEntrySchema>;
+export type UpdateTimeEntry = z.infer<typeof updateTimeEntrySchema>;
+export type TimeEntry = typeof timeEntries.$inferSelect;
 export type InsertMilestone = z.infer<typeof insertMilestoneSchema>;
 export type Milestone = typeof milestones.$inferSelect;
 export type InsertThread = z.infer<typeof insertThreadSchema>;
@@ -1307,10 +2442,54 @@ export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Message = typeof messages.$inferSelect;
 export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
 export type Invoice = typeof invoices.$inferSelect;
+export type InvoiceLineItemInput = z.input<typeof invoiceLineItemSchema>;
+/** A line item as stored on the invoice, with the tax rate snapshotted at calculation time. */
+export type InvoiceLineItem = z.infer<typeof invoiceLineItemSchema> & {
+  taxRateName: string | null;
+  taxRatePercent: number;
+  // Net of discount, before tax
+  amount: number;
+  taxAmount: number;
+};
+export type NumberingSequence = typeof numberingSequences.$inferSelect;
+export type NumberingSequenceSettings = z.infer<typeof numberingSequenceSettingsSchema>;
+export type InsertTaxRate = z.infer<typeof insertTaxRateSchema>;
+export type TaxRate = typeof taxRates.$inferSelect;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type Payment = typeof payments.$inferSelect;
+export type InsertPaymentSession = z.infer<typeof insertPaymentSessionSchema>;
+export type PaymentSession = typeof paymentSessions.$inferSelect;
+export type MockPaymentOutcome = (typeof MOCK_PAYMENT_OUTCOMES)[number];
+export type InsertCreditNote = z.infer<typeof insertCreditNoteSchema>;
+export type CreditNote = typeof creditNotes.$inferSelect;
+export type InsertRefund = z.infer<typeof insertRefundSchema>;
+export type Refund = typeof refunds.$inferSelect;
+export type InsertInvoiceReminder = z.infer<typeof insertInvoiceReminderSchema>;
+export type InvoiceReminder = typeof invoiceReminders.$inferSelect;
+export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
 export type InsertBill = z.infer<typeof insertBillSchema>;
 export type Bill = typeof bills.$inferSelect;
+export type InsertExpense = z.infer<typeof insertExpenseSchema>;
+export type UpdateExpense = z.infer<typeof updateExpenseSchema>;
+export type Expense = typeof expenses.$inferSelect;
 export type InsertVendor = z.infer<typeof insertVendorSchema>;
 export type Vendor = typeof vendors.$inferSelect;
+export type UpdateVendor = z.infer<typeof updateVendorSchema>;
+export type InsertBankTransaction = z.infer<typeof insertBankTransactionSchema>;
+export type BankTransaction = typeof bankTransactions.$inferSelect;
+export type BankTransactionMatch = z.infer<typeof bankTransactionMatchSchema>;
+export type InsertLedgerAccount = z.infer<typeof insertLedgerAccountSchema>;
+export type UpdateLedgerAccount = z.infer<typeof updateLedgerAccountSchema>;
+export type LedgerAccount = typeof ledgerAccounts.$inferSelect;
+export type JournalEntry = typeof journalEntries.$inferSelect;
+export type JournalLine = typeof journalLines.$inferSelect;
+export type JournalEntryWithLines = JournalEntry & { lines: JournalLine[] };
+export type BillApprovalStepRule = z.infer<typeof billApprovalStepRuleSchema>;
+export type InsertBillApprovalPolicy = z.infer<typeof insertBillApprovalPolicySchema>;
+export type BillApprovalPolicy = typeof billApprovalPolicies.$inferSelect;
+export type InsertBillApprovalStep = z.infer<typeof insertBillApprovalStepSchema>;
+export type BillApprovalStep = typeof billApprovalSteps.$inferSelect;
 export type InsertFileObject = z.infer<typeof insertFileObjectSchema>;
 export type FileObject = typeof fileObjects.$inferSelect;
 export type InsertActivityEvent = z.infer<typeof insertActivityEventSchema>;
@@ -1321,6 +2500,7 @@ export type InsertProjectTemplate = z.infer<typeof insertProjectTemplateSchema>;
 export type ProjectTemplate = typeof projectTemplates.$inferSelect;
 export type InsertInvoiceSchedule = z.infer<typeof insertInvoiceScheduleSchema>;
 export type InvoiceSchedule = typeof invoiceSchedules.$inferSelect;
+export type UpdateInvoiceSchedule = z.infer<typeof updateInvoiceScheduleSchema>;
 export type OrganizationMember = typeof organizationMembers.$inferSelect;
 export type ClientPortalAccess = typeof clientPortalAccess.$inferSelect;
 export type InsertPermission = z.infer<typeof insertPermissionSchema>;
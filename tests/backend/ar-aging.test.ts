@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { arAgingCsvRows, buildArAgingReport, getAgingBucket } from "../../server/domains/revenue/ar-aging";
+import { toCsv } from "../../server/utils/csv";
+
+const asOf = new Date(2026, 5, 30);
+const rates = [{ currency: "EUR", baseCurrency: "USD", rate: "1.10", effectiveDate: new Date(2026, 0, 1) }];
+
+const invoice = (overrides: Record<string, unknown> = {}) => ({
+  id: "inv-1",
+  invoiceNumber: "INV-2026-0001",
+  status: "sent" as const,
+  clientCompanyId: "client-a",
+  engagementId: null,
+  currency: null,
+  totalAmount: "1000.00",
+  paidAmount: null,
+  creditedAmount: null,
+  dueDate: new Date(2026, 5, 30),
+  sentAt: new Date(2026, 5, 1),
+  createdAt: new Date(2026, 5, 1),
+  ...overrides,
+});
+
+const context = {
+  clients: [
+    { id: "client-a", name: "Acme" },
+    { id: "client-b", name: "Globex" },
+  ],
+  engagements: [{ id: "eng-1", clientCompanyId: "client-b" }],
+  baseCurrency: "USD",
+  rates,
+  asOf,
+};
+
+describe("getAgingBucket", () => {
+  it("uses inclusive 30-day boundaries", () => {
+    expect([0, 1, 30, 31, 60, 61, 90, 91].map(getAgingBucket)).toEqual([
+      "current",
+      "days_1_30",
+      "days_1_30",
+      "days_31_60",
+      "days_31_60",
+      "days_61_90",
+      "days_61_90",
+      "days_over_90",
+    ]);
+  });
+});
+
+describe("buildArAgingReport", () => {
+  it("buckets open balances by days past due and groups them by client", () => {
+    const report = buildArAgingReport(
+      [
+        invoice(),
+        invoice({ id: "inv-2", dueDate: new Date(2026, 4, 1), paidAmount: "400.00", status: "partially_paid" }),
+        invoice({ id: "inv-3", clientCompanyId: null, engagementId: "eng-1", dueDate: new Date(2026, 1, 1) }),
+        invoice({ id: "inv-4", status: "paid", paidAmount: "1000.00" }),
+        invoice({ id: "inv-5", status: "draft" }),
+        invoice({ id: "inv-6", creditedAmount: "1000.00" }),
+      ],
+      context,
+    );
+
+    expect(report.buckets).toEqual({
+      current: 1000,
+      days_1_30: 0,
+      days_31_60: 600,
+      days_61_90: 0,
+      days_over_90: 1000,
+    });
+    expect(report.total).toBe(2600);
+    expect(report.clients.map((client) => [client.clientName, client.total])).toEqual([
+      ["Acme", 1600],
+      ["Globex", 1000],
+    ]);
+    expect(report.clients[0].invoices.map((row) => [row.id, row.daysPastDue, row.bucket])).toEqual([
+      ["inv-2", 60, "days_31_60"],
+      ["inv-1", 0, "current"],
+    ]);
+  });
+
+  it("converts foreign balances and lists invoices without a rate outside the totals", () => {
+    const report = buildArAgingReport(
+      [
+        invoice({ currency: "EUR", totalAmount: "100.00" }),
+        invoice({ id: "inv-2", clientCompanyId: null, currency: "JPY", dueDate: null }),
+      ],
+      context,
+    );
+    expect(report.total).toBe(110);
+    expect(report.unconverted).toBe(1);
+    const unassigned = report.clients.find((client) => client.clientCompanyId === null);
+    expect(unassigned?.clientName).toBe("Unassigned");
+    // Without a due date the invoice ages from when it was sent
+    expect(unassigned?.invoices[0]).toMatchObject({ daysPastDue: 29, balanceInBase: null });
+  });
+});
+
+describe("arAgingCsvRows", () => {
+  it("writes invoice rows, client subtotals and a grand total", () => {
+    const report = buildArAgingReport([invoice({ dueDate: new Date(2026, 4, 20) })], context);
+    const lines = toCsv(arAgingCsvRows(report)).trim().split("\r\n");
+    expect(lines).toEqual([
+      "Client,Invoice,Due Date,Days Past Due,Currency,Balance,Current,1-30,31-60,61-90,90+,Total (USD)",
+      "Acme,INV-2026-0001,2026-05-20,41,USD,1000.00,,,1000.00,,,1000.00",
+      "Acme total,,,,,,0.00,0.00,1000.00,0.00,0.00,1000.00",
+      "Total,,,,,,0.00,0.00,1000.00,0.00,0.00,1000.00",
+    ]);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectStatementFormat,
+  parseBankStatement,
+  parseStatementAmount,
+  parseStatementDate,
+} from "../../server/domains/revenue/bank-import";
+import { suggestBankMatches } from "../../server/domains/revenue/bank-reconciliation";
+
+describe("statement values", () => {
+  it("reads signed amounts in common bank formats", () => {
+    expect(["1,234.50", "$12", "-12.00", "12.00-", "(7.25)", "", "abc"].map(parseStatementAmount)).toEqual([
+      123450,
+      1200,
+      -1200,
+      -1200,
+      -725,
+      null,
+      null,
+    ]);
+  });
+
+  it("reads comma decimal marks and thousands groups in either style", () => {
+    expect(
+      ["1.234,50", "-12,5", "1 234,50 €", "1.234.567", "1,234", "1,234,567.89", "12,"].map(parseStatementAmount),
+    ).toEqual([123450, -1250, 123450, 123456700, 123400, 123456789, 1200]);
+  });
+
+  it("reads ISO, OFX and US dates and rejects impossible ones", () => {
+    expect(parseStatementDate("2026-06-01")).toEqual(new Date(2026, 5, 1));
+    expect(parseStatementDate("20260601120000.000[-5:EST]")).toEqual(new Date(2026, 5, 1));
+    expect(parseStatementDate("6/1/2026")).toEqual(new Date(2026, 5, 1));
+    expect(parseStatementDate("2026-02-31")).toBeNull();
+    expect(parseStatementDate("June 1")).toBeNull();
+  });
+});
+
+describe("parseBankStatement", () => {
+  it("parses CSV with debit/credit columns and gives unreferenced lines stable ids", () => {
+    const csv = [
+      "Posting Date,Description,Debit,Credit",
+      "2026-06-01,ACME CORP INV-2026-0001,,1100.00",
+      "2026-06-02,Bank fee,5.00,",
+      "2026-06-02,Bank fee,5.00,",
+    ].join("\n");
+    const statement = parseBankStatement(csv, detectStatementFormat(csv, "june.csv"));
+    expect(statement.errors).toEqual([]);
+    expect(statement.currency).toBeNull();
+    expect(statement.transactions.map((t) => [t.amount, t.description])).toEqual([
+      ["1100.00", "ACME CORP INV-2026-0001"],
+      ["-5.00", "Bank fee"],
+      ["-5.00", "Bank fee"],
+    ]);
+    // Identical lines stay distinct, and re-parsing yields the same ids
+    const ids = statement.transactions.map((t) => t.externalId);
+    expect(new Set(ids).size).toBe(3);
+    expect(parseBankStatement(csv, "csv").transactions.map((t) => t.externalId)).toEqual(ids);
+  });
+
+  it("reports unreadable CSV lines", () => {
+    const statement = parseBankStatement("date,amount\nyesterday,10\n2026-06-01,\n", "csv");
+    expect(statement.errors).toEqual([
+      { line: 2, message: 'Invalid date "yesterday"' },
+      { line: 3, message: "Missing or invalid amount" },
+    ]);
+  });
+
+  it("parses SGML OFX transactions", () => {
+    const ofx = `OFXHEADER:100
+DATA:OFXSGML
+
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>eur
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260601<TRNAMT>1100.00<FITID>F-1<NAME>Acme &amp; Co<MEMO>INV-2026-0001</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260603120000<TRNAMT>-300.00<FITID>F-2<NAME>Office Rent</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+    expect(detectStatementFormat(ofx)).toBe("ofx");
+    const statement = parseBankStatement(ofx, "ofx");
+    expect(statement.currency).toBe("EUR");
+    expect(statement.transactions).toEqual([
+      {
+        externalId: "F-1",
+        postedAt: new Date(2026, 5, 1),
+        amount: "1100.00",
+        payee: "Acme & Co",
+        description: "INV-2026-0001",
+      },
+      {
+        externalId: "F-2",
+        postedAt: new Date(2026, 5, 3),
+        amount: "-300.00",
+        payee: "Office Rent",
+        description: null,
+      },
+    ]);
+  });
+});
+
+describe("suggestBankMatches", () => {
+  const invoice = (overrides: Record<string, unknown> = {}) => ({
+    id: "inv-1",
+    invoiceNumber: "INV-2026-0001",
+    status: "sent" as const,
+    clientCompanyId: "client-a",
+    engagementId: "eng-1",
+    currency: null,
+    totalAmount: "1100.00",
+    paidAmount: null,
+    creditedAmount: null,
+    dueDate: new Date(2026, 5, 30),
+    ...overrides,
+  });
+  const bill = (overrides: Record<string, unknown> = {}) => ({
+    id: "bill-1",
+    billNumber: "BILL-2026-0007",
+    status: "approved" as const,
+    vendorId: "vendor-1",
+    currency: null,
+    amount: "300.00",
+    dueDate: new Date(2026, 5, 15),
+    ...overrides,
+  });
+  const documents = {
+    invoices: [
+      invoice(),
+      invoice({ id: "inv-2", invoiceNumber: "INV-2026-0002", totalAmount: "500.00" }),
+      invoice({ id: "inv-3", invoiceNumber: "INV-2026-0003", clientCompanyId: null, engagementId: "eng-2" }),
+      invoice({ id: "inv-4", invoiceNumber: "INV-2026-0004", status: "paid", paidAmount: "1100.00" }),
+      invoice({ id: "inv-5", invoiceNumber: "INV-2026-0005", currency: "EUR" }),
+    ],
+    bills: [bill(), bill({ id: "bill-2", billNumber: "BILL-2026-0008", status: "pending" })],
+    clients: [
+      { id: "client-a", name: "Acme" },
+      { id: "client-b", name: "Globex" },
+    ],
+    engagements: [
+      { id: "eng-1", clientCompanyId: "client-a" },
+      { id: "eng-2", clientCompanyId: "client-b" },
+    ],
+    vendors: [{ id: "vendor-1", name: "Office Rent LLC" }],
+  };
+
+  it("ranks open invoices by number, amount and client name", () => {
+    const suggestions = suggestBankMatches(
+      { amount: "1100.00", currency: "USD", payee: "ACME", description: "Payment inv2026-0001" },
+      documents,
+      "USD",
+    );
+    expect(suggestions.map((s) => [s.id, s.reasons, s.score])).toEqual([
+      ["inv-1", ["number", "amount", "name"], 9],
+      ["inv-3", ["amount"], 3],
+      ["inv-2", ["name"], 2],
+    ]);
+    expect(suggestions[0]).toMatchObject({ type: "invoice", counterparty: "Acme", openAmount: 1100 });
+  });
+
+  it("matches money out against approved bills only", () => {
+    const suggestions = suggestBankMatches(
+      { amount: "-300.00", currency: "USD", payee: "Office Rent LLC", description: null },
+      documents,
+      "USD",
+    );
+    expect(suggestions.map((s) => [s.type, s.id, s.reasons])).toEqual([["bill", "bill-1", ["amount", "name"]]]);
+  });
+
+  it("only suggests documents in the transaction currency", () => {
+    const suggestions = suggestBankMatches(
+      { amount: "1100.00", currency: "EUR", payee: null, description: null },
+      documents,
+      "USD",
+    );
+    expect(suggestions.map((s) => s.id)).toEqual(["inv-5"]);
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildApprovalChain,
+  getApprovalDenialReason,
+  getCurrentApprovalStep,
+  isApprovalChainComplete,
+  planBillEdit,
+  policyApplies,
+} from "../../server/domains/revenue/bill-approvals";
+import { insertBillApprovalPolicySchema } from "@shared/schema";
+
+const policy = (overrides: Record<string, unknown> = {}) => ({
+  id: "policy-1",
+  isActive: true,
+  minAmount: "0",
+  engagementBillsOnly: false,
+  priority: 0,
+  steps: [{ approverType: "role", role: "admin" }],
+  ...overrides,
+});
+
+const step = (overrides: Record<string, unknown> = {}) => ({
+  id: "step-1",
+  position: 1,
+  status: "pending",
+  approverRole: null,
+  approverUserId: null,
+  decidedById: null,
+  ...overrides,
+});
+
+describe("policyApplies", () => {
+  it("matches bills at or above the minimum amount", () => {
+    const large = policy({ minAmount: "5000.00" });
+    expect(policyApplies(large, { engagementId: null }, 5000)).toBe(true);
+    expect(policyApplies(large, { engagementId: null }, 4999.99)).toBe(false);
+  });
+
+  it("treats bills that could not be converted as over the threshold", () => {
+    expect(policyApplies(policy({ minAmount: "5000.00" }), { engagementId: null }, null)).toBe(true);
+  });
+
+  it("skips inactive policies and non-engagement bills for engagement-only policies", () => {
+    expect(policyApplies(policy({ isActive: false }), { engagementId: null }, 100)).toBe(false);
+    expect(policyApplies(policy({ engagementBillsOnly: true }), { engagementId: null }, 100)).toBe(false);
+    expect(policyApplies(policy({ engagementBillsOnly: true }), { engagementId: "eng-1" }, 100)).toBe(true);
+  });
+});
+
+describe("buildApprovalChain", () => {
+  const policies = [
+    policy({
+      id: "large",
+      minAmount: "5000.00",
+      priority: 1,
+      steps: [
+        { approverType: "role", role: "admin" },
+        { approverType: "role", role: "owner" },
+      ],
+    }),
+    policy({ id: "engagement", engagementBillsOnly: true, steps: [{ approverType: "engagement_owner" }] }),
+  ];
+
+  it("concatenates matching policies in priority order and resolves the engagement owner", () => {
+    const chain = buildApprovalChain(policies, { engagementId: "eng-1" }, 6000, "user-owner");
+    expect(chain.map((s) => [s.position, s.policyId, s.approverRole, s.approverUserId])).toEqual([
+      [1, "engagement", null, "user-owner"],
+      [2, "large", "admin", null],
+      [3, "large", "owner", null],
+    ]);
+  });
+
+  it("returns an empty chain when no policy matches", () => {
+    expect(buildApprovalChain(policies, { engagementId: null }, 100, null)).toEqual([]);
+  });
+
+  it("falls back to an org owner when there is no engagement owner and drops duplicate steps", () => {
+    const chain = buildApprovalChain(
+      [policy({ steps: [{ approverType: "engagement_owner" }, { approverType: "role", role: "owner" }] })],
+      { engagementId: null },
+      100,
+      null,
+    );
+    expect(chain).toHaveLength(1);
+    expect(chain[0]).toMatchObject({ approverType: "role", approverRole: "owner" });
+  });
+});
+
+describe("approval chain progress", () => {
+  it("returns the first pending step in position order", () => {
+    const steps = [step({ id: "b", position: 2 }), step({ id: "a", position: 1, status: "approved" })];
+    expect(getCurrentApprovalStep(steps)?.id).toBe("b");
+    expect(isApprovalChainComplete(steps)).toBe(false);
+  });
+
+  it("has no current step once a step is rejected", () => {
+    expect(getCurrentApprovalStep([step({ status: "rejected" }), step({ id: "s2", position: 2 })])).toBeUndefined();
+  });
+});
+
+describe("getApprovalDenialReason", () => {
+  const bill = { createdById: "creator" };
+
+  it("enforces separation of duties", () => {
+    const current = step({ id: "s2", position: 2, approverRole: "admin" });
+    const steps = [step({ status: "approved", decidedById: "approver-1" }), current];
+    expect(getApprovalDenialReason(current, steps, bill, "creator", "owner")).toMatch(/creator/);
+    expect(getApprovalDenialReason(current, steps, bill, "approver-1", "owner")).toMatch(/another step/);
+    expect(getApprovalDenialReason(current, steps, bill, "approver-2", "admin")).toBeNull();
+  });
+
+  it("accepts the required role or higher", () => {
+    const current = step({ approverRole: "admin" });
+    expect(getApprovalDenialReason(current, [current], bill, "u1", "owner")).toBeNull();
+    expect(getApprovalDenialReason(current, [current], bill, "u1", "member")).toMatch(/admin role/);
+    expect(getApprovalDenialReason(current, [current], bill, "u1", undefined)).toMatch(/admin role/);
+  });
+
+  it("limits assigned steps to their approver", () => {
+    const current = step({ approverUserId: "user-owner" });
+    expect(getApprovalDenialReason(current, [current], bill, "user-owner", "member")).toBeNull();
+    expect(getApprovalDenialReason(current, [current], bill, "someone-else", "owner")).toMatch(/another approver/);
+  });
+});
+
+describe("insertBillApprovalPolicySchema", () => {
+  it("requires at least one valid step", () => {
+    const base = { organizationId: "org-1", name: "Large bills", minAmount: 5000 };
+    expect(insertBillApprovalPolicySchema.safeParse({ ...base, steps: [] }).success).toBe(false);
+    expect(
+      insertBillApprovalPolicySchema.safeParse({ ...base, steps: [{ approverType: "role", role: "cfo" }] }).success,
+    ).toBe(false);
+    const parsed = insertBillApprovalPolicySchema.parse({
+      ...base,
+      steps: [{ approverType: "role", role: "admin" }, { approverType: "engagement_owner" }],
+    });
+    expect(parsed.minAmount).toBe("5000");
+  });
+});
+
+describe("planBillEdit", () => {
+  const bill = (status: string) => ({ status, amount: "100.00", currency: "USD", engagementId: null }) as any;
+
+  it("restarts approval when the terms change, whatever status is asked for", () => {
+    expect(planBillEdit(bill("approved"), { amount: "250" })).toEqual({ action: "resubmit" });
+    expect(planBillEdit(bill("approved"), { amount: "250", status: "pending" })).toEqual({ action: "resubmit" });
+    expect(planBillEdit(bill("approved"), { amount: "250", status: "paid" })).toEqual(
+      expect.objectContaining({ action: "refuse", status: 409 }),
+    );
+    expect(planBillEdit(bill("approved"), { amount: "100", notes: "x" } as any)).toEqual({ action: "update" });
+  });
+
+  it("cancels any bill that is not paid", () => {
+    expect(planBillEdit(bill("approved"), { status: "cancelled" })).toEqual({ action: "update" });
+    expect(planBillEdit(bill("paid"), { status: "cancelled" })).toEqual(
+      expect.objectContaining({ action: "refuse", status: 409 }),
+    );
+  });
+
+  it("keeps the terms of paid and cancelled bills", () => {
+    expect(planBillEdit(bill("paid"), { currency: "EUR" })).toEqual(
+      expect.objectContaining({ action: "refuse", status: 409 }),
+    );
+    expect(planBillEdit(bill("cancelled"), { engagementId: "eng-1" })).toEqual(
+      expect.objectContaining({ action: "refuse", status: 409 }),
+    );
+    expect(planBillEdit(bill("paid"), { notes: "Paid by wire" } as any)).toEqual({ action: "update" });
+  });
+
+  it("only pays approved bills and leaves decisions to the approval endpoints", () => {
+    expect(planBillEdit(bill("pending"), { status: "paid" })).toEqual(
+      expect.objectContaining({ action: "refuse", status: 409 }),
+    );
+    expect(planBillEdit(bill("approved"), { status: "paid" })).toEqual({ action: "update" });
+    expect(planBillEdit(bill("pending"), { status: "approved" })).toEqual(
+      expect.objectContaining({ action: "refuse", status: 400 }),
+    );
+    expect(planBillEdit(bill("rejected"), { status: "pending" })).toEqual({ action: "resubmit" });
+  });
+
+  it("does not reopen paid bills for approval", () => {
+    expect(planBillEdit(bill("paid"), { status: "pending" })).toEqual(
+      expect.objectContaining({ action: "refuse", status: 409 }),
+    );
+    expect(planBillEdit(bill("cancelled"), { status: "pending" })).toEqual({ action: "resubmit" });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { buildCashFlowForecast } from "../../server/domains/revenue/cash-flow";
+
+// A Wednesday; the forecast starts on Monday 2026-07-13 and runs to 2026-10-12
+const asOf = new Date(2026, 6, 15);
+const rates = [{ currency: "EUR", baseCurrency: "USD", rate: "1.10", effectiveDate: new Date(2026, 0, 1) }];
+const options = { baseCurrency: "USD", rates, asOf };
+
+const invoice = (overrides: Record<string, unknown> = {}) => ({
+  status: "sent" as const,
+  scheduleId: null,
+  currency: null,
+  totalAmount: "1000.00",
+  paidAmount: null,
+  creditedAmount: null,
+  dueDate: new Date(2026, 6, 22),
+  sentAt: new Date(2026, 6, 1),
+  createdAt: new Date(2026, 6, 1),
+  ...overrides,
+});
+
+const bill = (overrides: Record<string, unknown> = {}) => ({
+  status: "approved" as const,
+  amount: "300.00",
+  currency: null,
+  dueDate: new Date(2026, 6, 24),
+  createdAt: new Date(2026, 6, 1),
+  ...overrides,
+});
+
+const schedule = (overrides: Record<string, unknown> = {}) => ({
+  totalAmount: "2500.00",
+  frequency: "monthly",
+  nextInvoiceDate: new Date(2026, 7, 1),
+  paymentTermsDays: 15,
+  isActive: true,
+  ...overrides,
+});
+
+describe("buildCashFlowForecast", () => {
+  it("returns 13 Monday-based weeks with a running balance", () => {
+    const forecast = buildCashFlowForecast(
+      { invoices: [invoice()], schedules: [], bills: [bill()] },
+      { ...options, openingBalance: 500 },
+    );
+    expect(forecast.weeks).toHaveLength(13);
+    expect(forecast.weeks[0].weekStart).toEqual(new Date(2026, 6, 13));
+    expect(forecast.weeks[1]).toMatchObject({ cashIn: 1000, cashOut: 300, net: 700, balance: 1200 });
+    expect(forecast.weeks[12].balance).toBe(1200);
+    expect(forecast.totals).toEqual({ cashIn: 1000, cashOut: 300, net: 700 });
+  });
+
+  it("counts open balances only and puts overdue amounts in the first week", () => {
+    const forecast = buildCashFlowForecast(
+      {
+        invoices: [
+          invoice({ status: "partially_paid", paidAmount: "400.00", dueDate: new Date(2026, 5, 1) }),
+          invoice({ status: "paid", paidAmount: "1000.00" }),
+          invoice({ status: "draft" }),
+          invoice({ status: "draft", scheduleId: "sched-1" }),
+          invoice({ dueDate: new Date(2026, 11, 1) }),
+        ],
+        schedules: [],
+        bills: [bill({ dueDate: new Date(2026, 5, 30) }), bill({ status: "paid" }), bill({ status: "rejected" })],
+      },
+      options,
+    );
+    expect(forecast.weeks[0]).toMatchObject({ invoices: 600, bills: 300 });
+    expect(forecast.weeks[1].invoices).toBe(1000);
+    expect(forecast.overdueIn).toBe(600);
+    expect(forecast.overdueOut).toBe(300);
+    expect(forecast.totals.cashIn).toBe(1600);
+  });
+
+  it("projects every schedule run whose payment falls within the horizon", () => {
+    const forecast = buildCashFlowForecast(
+      { invoices: [], schedules: [schedule(), schedule({ isActive: false })], bills: [] },
+      options,
+    );
+    // Runs on Aug 1, Sep 1 and Oct 1 are paid Aug 16, Sep 16 and Oct 16; the last is past the horizon
+    const scheduledWeeks = forecast.weeks.filter((week) => week.scheduled > 0);
+    expect(scheduledWeeks.map((week) => [week.weekStart, week.scheduled])).toEqual([
+      [new Date(2026, 7, 10), 2500],
+      [new Date(2026, 8, 14), 2500],
+    ]);
+  });
+
+  it("converts foreign amounts at today's rate and counts those without one", () => {
+    const forecast = buildCashFlowForecast(
+      {
+        invoices: [invoice({ currency: "EUR" }), invoice({ currency: "JPY" })],
+        schedules: [],
+        bills: [bill({ currency: "EUR" })],
+      },
+      options,
+    );
+    expect(forecast.totals).toEqual({ cashIn: 1100, cashOut: 330, net: 770 });
+    expect(forecast.unconverted).toBe(1);
+  });
+});
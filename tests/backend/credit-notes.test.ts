@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import {
+  getBalanceDueCents,
+  getCreditableCents,
+  getCreditNoteRefusal,
+  getRefundableCents,
+  getRefundRefusal,
+  summarizeInvoicePayments,
+} from "../../server/domains/revenue/payments";
+import { createCreditNoteSchema, insertRefundSchema } from "@shared/schema";
+
+const invoice = {
+  status: "sent" as const,
+  totalAmount: "1000.00",
+  sentAt: new Date("2026-01-01T00:00:00Z"),
+  dueDate: new Date("2026-02-01T00:00:00Z"),
+};
+const now = new Date("2026-01-15T00:00:00Z");
+
+const payment = (amount: string) => ({ amount, paidAt: new Date("2026-01-05T00:00:00Z"), voidedAt: null });
+const creditNote = (totalAmount: string, voidedAt: Date | null = null) => ({ totalAmount, voidedAt });
+
+describe("summarizeInvoicePayments with credit notes and refunds", () => {
+  it("reduces the balance due by non-voided credit notes", () => {
+    const summary = summarizeInvoicePayments(invoice, [payment("500.00")], now, {
+      creditNotes: [creditNote("200.00"), creditNote("100.00", new Date())],
+    });
+    expect(summary).toMatchObject({
+      paidAmount: "500.00",
+      creditedAmount: "200.00",
+      balanceDue: "300.00",
+      status: "partially_paid",
+    });
+  });
+
+  it("marks an invoice paid once payments cover the credited total", () => {
+    const summary = summarizeInvoicePayments(invoice, [payment("800.00")], now, {
+      creditNotes: [creditNote("200.00")],
+    });
+    expect(summary.status).toBe("paid");
+    expect(summary.balanceDue).toBe("0.00");
+  });
+
+  it("nets refunds out of the paid amount", () => {
+    const summary = summarizeInvoicePayments({ ...invoice, status: "paid" }, [payment("1000.00")], now, {
+      refunds: [{ amount: "250.00" }],
+    });
+    expect(summary).toMatchObject({ paidAmount: "750.00", balanceDue: "250.00", status: "partially_paid" });
+  });
+
+  it("reverts to the pre-payment state when a payment is refunded in full", () => {
+    const summary = summarizeInvoicePayments({ ...invoice, status: "paid" }, [payment("1000.00")], now, {
+      refunds: [{ amount: "1000.00" }],
+    });
+    expect(summary.status).toBe("sent");
+    expect(summary.paidAmount).toBe("0.00");
+  });
+
+  it("cancels an unpaid invoice that is credited in full and reopens it when the credit is voided", () => {
+    const credited = summarizeInvoicePayments(invoice, [], now, { creditNotes: [creditNote("1000.00")] });
+    expect(credited).toMatchObject({ status: "cancelled", balanceDue: "0.00" });
+
+    const reopened = summarizeInvoicePayments({ ...invoice, status: "cancelled" }, [], now, {
+      creditNotes: [creditNote("1000.00", new Date())],
+    });
+    expect(reopened.status).toBe("sent");
+  });
+
+  it("leaves a manually cancelled invoice without credit notes alone", () => {
+    expect(summarizeInvoicePayments({ ...invoice, status: "cancelled" }, [], now).status).toBe("cancelled");
+  });
+});
+
+describe("balance helpers", () => {
+  it("subtracts credits from the balance due and the creditable amount", () => {
+    expect(getBalanceDueCents({ totalAmount: "1000.00", paidAmount: "300.00", creditedAmount: "200.00" })).toBe(
+      50000,
+    );
+    expect(getCreditableCents({ totalAmount: "1000.00", creditedAmount: "200.00" })).toBe(80000);
+    expect(getCreditableCents({ totalAmount: "1000.00", creditedAmount: null })).toBe(100000);
+  });
+
+  it("limits refunds to the unrefunded part of the payment", () => {
+    const refunds = [
+      { paymentId: "pay-1", amount: "100.00" },
+      { paymentId: "pay-2", amount: "900.00" },
+    ];
+    expect(getRefundableCents({ id: "pay-1", amount: "400.00" }, refunds)).toBe(30000);
+  });
+
+  it("refuses credit notes and refunds beyond what is left", () => {
+    const invoice = { status: "sent" as const, totalAmount: "1000.00", creditedAmount: "200.00" };
+    expect(getCreditNoteRefusal(invoice, "800.00")).toBeNull();
+    expect(getCreditNoteRefusal(invoice, "800.01")).toBe("Credit note exceeds the uncredited invoice total");
+    expect(getCreditNoteRefusal({ ...invoice, status: "draft" }, "1.00")).toBe(
+      "Credit notes can only be issued against open invoices",
+    );
+
+    const payment = { id: "pay-1", amount: "400.00", voidedAt: null };
+    const refunds = [{ paymentId: "pay-1", amount: "100.00" }];
+    expect(getRefundRefusal(payment, refunds, "300.00")).toBeNull();
+    expect(getRefundRefusal(payment, refunds, "300.01")).toBe("Refund exceeds the unrefunded payment amount");
+    expect(getRefundRefusal({ ...payment, voidedAt: new Date() }, [], "1.00")).toBe("Cannot refund a voided payment");
+  });
+});
+
+describe("credit note and refund schemas", () => {
+  it("requires a reason and at least one line item", () => {
+    expect(createCreditNoteSchema.safeParse({ lineItems: [], reason: "Disputed hours" }).success).toBe(false);
+    expect(
+      createCreditNoteSchema.safeParse({
+        lineItems: [{ description: "Disputed hours", quantity: 2, unitPrice: 150 }],
+        reason: " ",
+      }).success,
+    ).toBe(false);
+  });
+
+  it("stores refund amounts as decimal strings and rejects non-positive amounts", () => {
+    const base = { organizationId: "org-1", invoiceId: "inv-1", paymentId: "pay-1" };
+    expect(insertRefundSchema.parse({ ...base, amount: 75.25 }).amount).toBe("75.25");
+    expect(insertRefundSchema.safeParse({ ...base, amount: 0 }).success).toBe(false);
+  });
+});
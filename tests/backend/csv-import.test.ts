@@ -0,0 +1,161 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildImportErrorReport,
+  planImport,
+  suggestColumnMapping,
+  type ImportContext,
+} from "../../server/domains/crm/csv-import";
+
+const stage = (id: string, position: number, overrides: Record<string, unknown> = {}) => ({
+  id,
+  organizationId: "org-1",
+  pipelineId: "sales",
+  name: id[0].toUpperCase() + id.slice(1),
+  position,
+  probability: position * 25,
+  isWon: false,
+  isLost: false,
+  createdAt: new Date(2026, 0, 1),
+  updatedAt: new Date(2026, 0, 1),
+  ...overrides,
+});
+
+const context: ImportContext = {
+  organizationId: "org-1",
+  userId: "user-1",
+  clients: [
+    { id: "acme", name: "Acme Inc.", website: "https://www.acme.com", createdAt: new Date(2025, 0, 1) },
+    { id: "globex", name: "Globex", website: null, createdAt: new Date(2025, 0, 2) },
+  ] as any,
+  contacts: [
+    { id: "ada", clientCompanyId: "acme", firstName: "Ada", lastName: "Lovelace", email: "ada@acme.com" },
+  ] as any,
+  pipelines: [
+    {
+      id: "sales",
+      organizationId: "org-1",
+      name: "Sales",
+      description: null,
+      isDefault: true,
+      position: 0,
+      createdAt: new Date(2026, 0, 1),
+      updatedAt: new Date(2026, 0, 1),
+      stages: [stage("lead", 0), stage("proposal", 2), stage("won", 3, { isWon: true, probability: 100 })],
+    },
+  ],
+};
+
+describe("suggestColumnMapping", () => {
+  it("matches headers by field name, label or alias, each header once", () => {
+    expect(suggestColumnMapping("contacts", ["First Name", "Surname", "E-mail", "Company Name", "Name"])).toEqual({
+      firstName: "First Name",
+      lastName: "Surname",
+      fullName: "Name",
+      email: "E-mail",
+      company: "Company Name",
+    });
+  });
+});
+
+describe("planImport", () => {
+  it("validates client rows and rejects ones already in the organization or the file", () => {
+    const plan = planImport(
+      "clients",
+      "Company,Website,Postcode\nInitech,initech.com,12345\nACME,,\n,,\nInitech LLC,,\n",
+      context,
+    );
+
+    expect(plan.mapping).toEqual({ name: "Company", website: "Website", zipCode: "Postcode" });
+    expect(plan.rows[0]).toEqual(
+      expect.objectContaining({
+        line: 2,
+        errors: [],
+        data: expect.objectContaining({ organizationId: "org-1", name: "Initech", website: "initech.com", zipCode: "12345" }),
+      }),
+    );
+    expect(plan.rows[1].errors).toEqual(['A client named "ACME" already exists']);
+    expect(plan.rows[2].errors).toEqual(["Name is required"]);
+    expect(plan.rows[3].errors).toEqual(['A client named "Initech LLC" already exists']);
+  });
+
+  it("links contacts to clients by company name, domain or email domain", () => {
+    const plan = planImport(
+      "contacts",
+      [
+        "Name,Email,Company",
+        "Grace Hopper,grace@navy.mil,acme.com",
+        "Alan Turing,alan@acme.com,",
+        "Joan Clarke,joan@gmail.com,",
+        "Tommy Flowers,,Initech",
+        "Ada Lovelace,ADA@acme.com,Acme",
+      ].join("\n"),
+      context,
+    );
+
+    expect(plan.rows.map((row) => row.data?.clientCompanyId ?? null)).toEqual(["acme", "acme", null, null, "acme"]);
+    expect(plan.rows[0].data).toEqual(expect.objectContaining({ firstName: "Grace", lastName: "Hopper" }));
+    expect(plan.rows[0].linkedTo).toBe("Acme Inc.");
+    expect(plan.rows[3].errors).toEqual(['No client matches "Initech"; import clients first']);
+    expect(plan.rows[4].errors).toEqual(["A contact with email ada@acme.com already exists"]);
+  });
+
+  it("places deals in the named stage or the entry stage of the default pipeline", () => {
+    const plan = planImport(
+      "deals",
+      [
+        "Deal,Amount,Company,Contact Email,Stage,Close Date",
+        'Rebuild,"$12,000.50",Globex,ada@acme.com,Won,2026-09-30',
+        "Audit,,,,,",
+        "Retainer,abc,,nobody@acme.com,Closed,31/31/2026",
+      ].join("\n"),
+      context,
+    );
+
+    expect(plan.rows[0].errors).toEqual([]);
+    expect(plan.rows[0].data).toEqual(
+      expect.objectContaining({
+        clientCompanyId: "globex",
+        contactId: "ada",
+        ownerId: "user-1",
+        value: "12000.50",
+        pipelineId: "sales",
+        stageId: "won",
+        status: "won",
+        probability: 100,
+        expectedCloseDate: new Date(2026, 8, 30),
+      }),
+    );
+    expect(plan.rows[1].data).toEqual(expect.objectContaining({ stageId: "lead", status: "open", closedAt: null }));
+    expect(plan.rows[2].errors).toEqual([
+      'No contact with email "nobody@acme.com"; import contacts first',
+      'No stage named "Closed" in Sales',
+      'Invalid value "abc"',
+      'Invalid expected close date "31/31/2026" (use YYYY-MM-DD)',
+    ]);
+  });
+
+  it("reports file problems instead of rows", () => {
+    expect(planImport("clients", "Website\nacme.com\n", context).errors).toEqual(["Map a column to Name"]);
+    expect(planImport("clients", "Name\n", context).errors).toEqual(["The file has no rows to import"]);
+    expect(planImport("clients", "Name\nAcme\n", context, { name: "Company" }).errors).toEqual([
+      'Column "Company" is not in the file',
+    ]);
+  });
+});
+
+describe("buildImportErrorReport", () => {
+  it("lists the failed rows as they were, with their line and errors", () => {
+    const plan = planImport("clients", "Name,City\nAcme,Leeds\nNew Co,York\n", context);
+    expect(buildImportErrorReport(plan)).toBe(
+      'Name,City,Line,Errors\r\nAcme,Leeds,2,"A client named ""Acme"" already exists"\r\n',
+    );
+    expect(buildImportErrorReport(planImport("clients", "Name\nNew Co\n", context))).toBeNull();
+  });
+
+  it("keeps values that look like formulas and reports lines as they are in the file", () => {
+    const plan = planImport("clients", 'Name,Notes\n\nNew Co,"a\nb"\nAcme,-5 days\n', context);
+    expect(buildImportErrorReport(plan)).toBe(
+      'Name,Notes,Line,Errors\r\nAcme,-5 days,5,"A client named ""Acme"" already exists"\r\n',
+    );
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import { inflateRawSync } from "node:zlib";
+import { columnName, crc32, createXlsxWriter, rowXml } from "../../server/utils/xlsx";
+import {
+  EXPORT_COLUMNS,
+  exportFileName,
+  exportQuerySchemas,
+  toCsvRow,
+  toExportRow,
+} from "../../server/domains/exports/columns";
+
+// Read each file of a zip from its central directory
+function unzip(zip: Buffer): Record<string, string> {
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = zip.readUInt16LE(end + 10);
+  const files: Record<string, string> = {};
+  let position = zip.readUInt32LE(end + 16);
+  for (let i = 0; i < count; i++) {
+    const compressedSize = zip.readUInt32LE(position + 20);
+    const nameLength = zip.readUInt16LE(position + 28);
+    const offset = zip.readUInt32LE(position + 42);
+    const name = zip.toString("utf8", position + 46, position + 46 + nameLength);
+    const dataStart = offset + 30 + zip.readUInt16LE(offset + 26);
+    const data = inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize));
+    expect(crc32(data)).toBe(zip.readUInt32LE(position + 16));
+    files[name] = data.toString("utf8");
+    position += 46 + nameLength;
+  }
+  return files;
+}
+
+describe("xlsx writer", () => {
+  it("computes zip checksums and column letters", () => {
+    expect(crc32(Buffer.from("123456789"))).toBe(0xcbf43926);
+    expect(crc32(Buffer.from("6789"), crc32(Buffer.from("12345")))).toBe(0xcbf43926);
+    expect([0, 25, 26, 701, 702].map(columnName)).toEqual(["A", "Z", "AA", "ZZ", "AAA"]);
+  });
+
+  it("writes typed cells and escapes text", () => {
+    const columns = [
+      { header: "Name" },
+      { header: "Due", dateOnly: true },
+      { header: "Sent" },
+      { header: "Paid" },
+    ];
+    expect(
+      rowXml(2, columns, ['A & <B> "C"\u0007', new Date(Date.UTC(2026, 0, 1)), 12.5, null]),
+    ).toBe(
+      '<row r="2"><c r="A2" t="inlineStr"><is><t xml:space="preserve">A &amp; &lt;B&gt; &quot;C&quot;</t></is></c>' +
+        '<c r="B2" s="2"><v>46023</v></c><c r="C2"><v>12.5</v></c></row>',
+    );
+    expect(
+      rowXml(3, columns, ["x", undefined, new Date(Date.UTC(2026, 0, 1, 12)), true]),
+    ).toContain('<c r="C3" s="3"><v>46023.5</v></c><c r="D3" t="b"><v>1</v></c>');
+  });
+
+  it("streams a workbook that unzips to a sheet with every row", async () => {
+    const chunks: Buffer[] = [];
+    const writer = await createXlsxWriter(
+      "Clients",
+      [{ header: "Name" }, { header: "Value" }],
+      async (chunk) => {
+        chunks.push(chunk);
+      },
+    );
+    await writer.addRows([["Acme", 1]]);
+    await writer.addRows([]);
+    await writer.addRows(Array.from({ length: 999 }, (_, index) => [`Client ${index}`, index]));
+    await writer.end();
+
+    const files = unzip(Buffer.concat(chunks));
+    expect(Object.keys(files)).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/styles.xml",
+      "xl/worksheets/sheet1.xml",
+    ]);
+    expect(files["xl/workbook.xml"]).toContain('<sheet name="Clients" sheetId="1" r:id="rId1"/>');
+    const sheet = files["xl/worksheets/sheet1.xml"];
+    expect(sheet).toContain('<row r="1"><c r="A1" t="inlineStr" s="1">');
+    expect(sheet).toContain(
+      '<row r="2"><c r="A2" t="inlineStr"><is><t xml:space="preserve">Acme</t></is></c>',
+    );
+    expect(sheet.match(/<row /g)).toHaveLength(1001);
+    expect(sheet.endsWith("</sheetData></worksheet>")).toBe(true);
+  });
+});
+
+describe("export columns", () => {
+  const invoice = {
+    id: "inv-1",
+    invoiceNumber: "INV-0001",
+    status: "sent",
+    currency: "USD",
+    amount: "100.00",
+    tax: null,
+    totalAmount: "100.00",
+    paidAmount: "0",
+    creditedAmount: "0",
+    dueDate: new Date(Date.UTC(2026, 9, 31)),
+    sentAt: new Date(Date.UTC(2026, 9, 1, 9, 30)),
+    paidAt: null,
+    clientCompanyId: "acme",
+    engagementId: null,
+    notes: "Net 30",
+    createdAt: new Date(Date.UTC(2026, 9, 1)),
+    updatedAt: new Date(Date.UTC(2026, 9, 1)),
+  } as any;
+
+  it("gives amounts as numbers and dates as dates or ISO 8601 text", () => {
+    const columns = EXPORT_COLUMNS.invoices;
+    const row = toExportRow(columns, invoice);
+    expect(row.slice(0, 7)).toEqual(["inv-1", "INV-0001", "sent", "USD", 100, null, 100]);
+    expect(row[9]).toEqual(invoice.dueDate);
+
+    const csv = toCsvRow(columns, invoice);
+    expect(csv[9]).toBe("2026-10-31");
+    expect(csv[10]).toBe("2026-10-01T09:30:00.000Z");
+    expect(csv[11]).toBeNull();
+  });
+
+  it("accepts the filters of the matching list endpoint", () => {
+    expect(exportQuerySchemas.clients.parse({ search: "acme", country: "UK", page: "2" })).toEqual({
+      format: "csv",
+      search: "acme",
+      country: "UK",
+    });
+    expect(exportQuerySchemas.tasks.parse({ format: "xlsx", projectId: "p1" })).toEqual({
+      format: "xlsx",
+      projectId: "p1",
+    });
+    expect(exportQuerySchemas.invoices.parse({ projectId: "p1" })).toEqual({ format: "csv" });
+    expect(exportQuerySchemas.deals.safeParse({ format: "pdf" }).success).toBe(false);
+  });
+
+  it("names the file after the list and day", () => {
+    expect(exportFileName("invoices", "xlsx", new Date(Date.UTC(2026, 9, 18, 12)))).toBe(
+      "invoices-2026-10-18.xlsx",
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { insertDealPipelineSchema } from "@shared/schema";
+import {
+  DEFAULT_PIPELINE_STAGES,
+  getDealStatus,
+  getEntryStage,
+  placeDealInStage,
+} from "../../server/domains/crm/pipelines";
+
+const stage = (id: string, position: number, overrides: Record<string, unknown> = {}) => ({
+  id,
+  pipelineId: "pipeline-1",
+  position,
+  probability: 40,
+  isWon: false,
+  isLost: false,
+  ...overrides,
+});
+
+describe("getDealStatus", () => {
+  it("follows the stage flags", () => {
+    expect(getDealStatus({ isWon: false, isLost: false })).toBe("open");
+    expect(getDealStatus({ isWon: true, isLost: false })).toBe("won");
+    expect(getDealStatus({ isWon: false, isLost: true })).toBe("lost");
+  });
+});
+
+describe("getEntryStage", () => {
+  it("picks the first open stage by position", () => {
+    const stages = [
+      stage("won", 0, { isWon: true }),
+      stage("second", 2),
+      stage("first", 1),
+    ];
+    expect(getEntryStage(stages)?.id).toBe("first");
+    expect(getEntryStage([stage("lost", 0, { isLost: true })])).toBeUndefined();
+  });
+});
+
+describe("placeDealInStage", () => {
+  const now = new Date(2026, 5, 1);
+
+  it("uses the stage probability unless one is given", () => {
+    expect(placeDealInStage(stage("s1", 0), undefined, undefined, now)).toEqual({
+      pipelineId: "pipeline-1",
+      stageId: "s1",
+      status: "open",
+      probability: 40,
+      closedAt: null,
+    });
+    expect(placeDealInStage(stage("s1", 0), undefined, 65, now).probability).toBe(65);
+  });
+
+  it("closes deals entering won or lost stages", () => {
+    const won = placeDealInStage(stage("won", 4, { isWon: true, probability: 100 }), { status: "open", closedAt: null }, undefined, now);
+    expect(won).toEqual(expect.objectContaining({ status: "won", probability: 100, closedAt: now }));
+  });
+
+  it("keeps the close date between closed stages of the same outcome and clears it on reopening", () => {
+    const closedAt = new Date(2026, 0, 15);
+    const won = stage("won-2", 5, { isWon: true });
+    expect(placeDealInStage(won, { status: "won", closedAt }, undefined, now).closedAt).toBe(closedAt);
+    expect(placeDealInStage(stage("lost", 6, { isLost: true }), { status: "won", closedAt }, undefined, now).closedAt).toBe(now);
+    expect(placeDealInStage(stage("s1", 0), { status: "won", closedAt }, undefined, now).closedAt).toBeNull();
+  });
+});
+
+describe("insertDealPipelineSchema", () => {
+  const pipeline = {
+    organizationId: "org-1",
+    name: "Partnerships",
+    stages: DEFAULT_PIPELINE_STAGES,
+  };
+
+  it("accepts the default stages", () => {
+    expect(insertDealPipelineSchema.safeParse(pipeline).success).toBe(true);
+  });
+
+  it("needs an open, a won and a lost stage with unique names", () => {
+    const withoutWon = DEFAULT_PIPELINE_STAGES.filter((candidate) => !candidate.isWon);
+    expect(insertDealPipelineSchema.safeParse({ ...pipeline, stages: withoutWon }).success).toBe(false);
+
+    const onlyClosed = DEFAULT_PIPELINE_STAGES.filter((candidate) => candidate.isWon || candidate.isLost);
+    expect(insertDealPipelineSchema.safeParse({ ...pipeline, stages: [...onlyClosed, onlyClosed[0]] }).success).toBe(false);
+
+    const duplicate = [...DEFAULT_PIPELINE_STAGES, { name: "lead", probability: 5 }];
+    expect(insertDealPipelineSchema.safeParse({ ...pipeline, stages: duplicate }).success).toBe(false);
+  });
+
+  it("rejects stages that are both won and lost or out of range", () => {
+    const both = [...DEFAULT_PIPELINE_STAGES, { name: "Odd", probability: 50, isWon: true, isLost: true }];
+    expect(insertDealPipelineSchema.safeParse({ ...pipeline, stages: both }).success).toBe(false);
+
+    const tooLikely = [...DEFAULT_PIPELINE_STAGES, { name: "Sure thing", probability: 120 }];
+    expect(insertDealPipelineSchema.safeParse({ ...pipeline, stages: tooLikely }).success).toBe(false);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { dealStageHistory } from "@shared/schema";
+
+// Records every insert and serves `current` for the locked read in updateDeal
+const inserts: { table: unknown; values: any }[] = [];
+let current: Record<string, unknown> | undefined;
+
+vi.mock("../../server/db", () => {
+  const insert = (table: unknown) => ({
+    values: (values: any) => {
+      inserts.push({ table, values });
+      return Object.assign(Promise.resolve(), {
+        returning: async () => [{ id: "deal-1", ...values }],
+      });
+    },
+  });
+  const tx = {
+    insert,
+    select: () => ({
+      from: () => ({ where: () => ({ for: async () => (current ? [current] : []) }) }),
+    }),
+    update: () => ({
+      set: (values: any) => ({
+        where: () => ({ returning: async () => [{ ...current, ...values }] }),
+      }),
+    }),
+  };
+  return { db: { insert, transaction: (run: (t: typeof tx) => unknown) => run(tx) } };
+});
+
+// The signed-in user is taken from a header; each user has their own org
+vi.mock("../../server/middleware/auth", () => ({
+  requireAuth: (req: any, _res: any, next: any) => {
+    req.user = { claims: { sub: req.headers["x-test-user"] ?? "user-1" } };
+    next();
+  },
+  getUserIdFromRequest: (req: any) => req.user?.claims.sub,
+  getOrCreateOrg: async (userId: string) => (userId === "outsider" ? "org-2" : "org-1"),
+}));
+
+vi.mock("../../server/middleware/permissions", () => ({
+  checkPermission: () => (_req: any, _res: any, next: any) => next(),
+}));
+
+import { storage } from "../../server/storage";
+import { crmRoutes } from "../../server/domains/crm/routes";
+
+const app = express();
+app.use(express.json());
+app.use(crmRoutes);
+
+const deal = {
+  id: "deal-1",
+  organizationId: "org-1",
+  name: "Acme rebuild",
+  ownerId: "owner-1",
+  pipelineId: "pipeline-1",
+  stageId: "stage-1",
+  status: "open",
+  closedAt: null,
+};
+
+const historyRows = () =>
+  inserts.filter((insert) => insert.table === dealStageHistory).map((insert) => insert.values);
+
+describe("deal stage history", () => {
+  beforeEach(() => {
+    inserts.length = 0;
+    current = { ...deal };
+    vi.restoreAllMocks();
+  });
+
+  it("records the entry stage when a deal is created, moved by the acting user", async () => {
+    await storage.createDeal(
+      {
+        organizationId: "org-1",
+        name: "Acme rebuild",
+        ownerId: "owner-1",
+        stageId: "stage-1",
+      } as any,
+      "user-2",
+    );
+    expect(historyRows()).toEqual([
+      {
+        organizationId: "org-1",
+        dealId: "deal-1",
+        fromStageId: null,
+        toStageId: "stage-1",
+        movedById: "user-2",
+      },
+    ]);
+  });
+
+  it("records a transition only when the stage changes", async () => {
+    await storage.updateDeal("deal-1", "org-1", { name: "Acme rebuild v2" }, "user-2");
+    expect(historyRows()).toEqual([]);
+
+    await storage.updateDeal("deal-1", "org-1", { stageId: "stage-2" }, "user-2");
+    expect(historyRows()).toEqual([
+      {
+        organizationId: "org-1",
+        dealId: "deal-1",
+        fromStageId: "stage-1",
+        toStageId: "stage-2",
+        movedById: "user-2",
+      },
+    ]);
+  });
+
+  it("takes the mover from the signed-in user, not the deal owner", async () => {
+    vi.spyOn(storage, "getDefaultDealPipeline").mockResolvedValue({
+      id: "pipeline-1",
+      stages: [
+        {
+          id: "stage-1",
+          pipelineId: "pipeline-1",
+          position: 0,
+          probability: 10,
+          isWon: false,
+          isLost: false,
+        },
+      ],
+    } as any);
+    const createDeal = vi.spyOn(storage, "createDeal").mockResolvedValue(deal as any);
+    await request(app)
+      .post("/api/deals")
+      .set("x-test-user", "user-2")
+      .send({ name: "Acme rebuild" })
+      .expect(201);
+    expect(createDeal).toHaveBeenCalledWith(
+      expect.objectContaining({ ownerId: "user-2" }),
+      "user-2",
+    );
+
+    vi.spyOn(storage, "getDeal").mockResolvedValue(deal as any);
+    vi.spyOn(storage, "getDealStage").mockResolvedValue({
+      id: "stage-2",
+      pipelineId: "pipeline-1",
+      position: 1,
+      probability: 40,
+      isWon: false,
+      isLost: false,
+    } as any);
+    const updateDeal = vi.spyOn(storage, "updateDeal").mockResolvedValue(deal as any);
+    await request(app)
+      .patch("/api/deals/deal-1")
+      .set("x-test-user", "user-3")
+      .send({ stageId: "stage-2" })
+      .expect(200);
+    expect(updateDeal).toHaveBeenCalledWith(
+      "deal-1",
+      "org-1",
+      expect.objectContaining({ stageId: "stage-2" }),
+      "user-3",
+    );
+  });
+
+  it("only returns the history of deals in the caller's organization", async () => {
+    vi.spyOn(storage, "getDeal").mockImplementation(async (id, orgId) =>
+      id === deal.id && orgId === deal.organizationId ? (deal as any) : undefined,
+    );
+    const getHistory = vi.spyOn(storage, "getDealStageHistory").mockResolvedValue([]);
+
+    await request(app)
+      .get("/api/deals/deal-1/stage-history")
+      .set("x-test-user", "outsider")
+      .expect(404);
+    expect(getHistory).not.toHaveBeenCalled();
+
+    await request(app).get("/api/deals/deal-1/stage-history").expect(200);
+    expect(getHistory).toHaveBeenCalledWith("deal-1", "org-1");
+  });
+});
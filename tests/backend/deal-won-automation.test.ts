@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+
+vi.mock("../../server/storage", () => ({
+  storage: {
+    getOrganization: vi.fn(),
+    runDealWonAutomation: vi.fn(),
+    claimDealWonNotification: vi.fn(),
+    releaseDealWonNotification: vi.fn(),
+    getDeal: vi.fn(),
+    getUser: vi.fn(),
+    getContract: vi.fn(),
+    getEngagement: vi.fn(),
+  },
+}));
+
+import { storage } from "../../server/storage";
+import { handleDealWon } from "../../server/domains/workflows/deal-won";
+import { buildDraftContract, buildWonEngagement } from "../../server/domains/workflows/post-sale";
+
+const sendEmail = vi.fn();
+
+const deal = {
+  id: "deal-1",
+  organizationId: "org-1",
+  clientCompanyId: "client-1",
+  contactId: "contact-1",
+  ownerId: "user-1",
+  name: "Acme rebuild",
+  value: "12000.00",
+  status: "won",
+};
+
+const proposal = {
+  id: "prop-1",
+  organizationId: "org-1",
+  dealId: "deal-1",
+  clientCompanyId: null,
+  contactId: "contact-2",
+  createdById: "user-2",
+  name: "Acme rebuild proposal",
+  status: "accepted",
+  content: { sections: ["Scope"] },
+  totalValue: "11500.00",
+} as any;
+
+const automation = {
+  id: "auto-1",
+  organizationId: "org-1",
+  dealId: "deal-1",
+  proposalId: "prop-1",
+  contractId: "contract-1",
+  engagementId: null,
+  ownerNotifiedAt: null,
+  createdAt: new Date(),
+};
+
+describe("post-sale records", () => {
+  it("drafts the contract from the proposal, falling back to the deal", () => {
+    expect(buildDraftContract(deal, proposal)).toEqual({
+      organizationId: "org-1",
+      proposalId: "prop-1",
+      dealId: "deal-1",
+      clientCompanyId: "client-1",
+      contactId: "contact-2",
+      createdById: "user-1",
+      name: "Acme rebuild proposal",
+      status: "draft",
+      content: { sections: ["Scope"] },
+      totalValue: "11500.00",
+    });
+  });
+
+  it("opens the engagement from the contract, or the deal without one", () => {
+    const contract = { id: "contract-1", clientCompanyId: "client-1", contactId: "contact-2", totalValue: "11500.00" } as any;
+    expect(buildWonEngagement(deal, contract)).toEqual(
+      expect.objectContaining({ contractId: "contract-1", dealId: "deal-1", contactId: "contact-2", totalValue: "11500.00" }),
+    );
+    expect(buildWonEngagement(deal)).toEqual(
+      expect.objectContaining({
+        contractId: null,
+        ownerId: "user-1",
+        name: "Acme rebuild",
+        status: "active",
+        totalValue: "12000.00",
+      }),
+    );
+  });
+});
+
+describe("handleDealWon", () => {
+  beforeAll(() => {
+    // The handler imports the email service lazily; registered after the global setup's mock.
+    vi.doMock("../../server/services/email", () => ({ emailService: { sendEmail } }));
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sendEmail.mockResolvedValue(undefined);
+    vi.mocked(storage.getOrganization).mockResolvedValue({
+      id: "org-1",
+      name: "Studio",
+      createEngagementOnDealWon: true,
+    } as any);
+    vi.mocked(storage.runDealWonAutomation).mockResolvedValue(automation);
+    vi.mocked(storage.claimDealWonNotification).mockResolvedValue(true);
+    vi.mocked(storage.getDeal).mockResolvedValue(deal as any);
+    vi.mocked(storage.getUser).mockResolvedValue({ id: "user-1", firstName: "Ada", email: "ada@studio.test" } as any);
+    vi.mocked(storage.getContract).mockResolvedValue({ id: "contract-1", name: "Acme rebuild proposal" } as any);
+  });
+
+  it("ignores deals that are not won", async () => {
+    await handleDealWon({ ...deal, status: "open" });
+    expect(storage.runDealWonAutomation).not.toHaveBeenCalled();
+  });
+
+  it("runs the chain with the organization setting and emails the owner", async () => {
+    await handleDealWon(deal);
+
+    expect(storage.runDealWonAutomation).toHaveBeenCalledWith("deal-1", "org-1", { createEngagement: true });
+    expect(storage.claimDealWonNotification).toHaveBeenCalledWith("auto-1", "org-1");
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: "ada@studio.test",
+        template: "deal-won",
+        data: expect.objectContaining({ dealName: "Acme rebuild", contractName: "Acme rebuild proposal" }),
+      }),
+    );
+  });
+
+  it("does nothing more on redelivery once the owner was notified", async () => {
+    vi.mocked(storage.runDealWonAutomation).mockResolvedValue({ ...automation, ownerNotifiedAt: new Date() });
+
+    await handleDealWon(deal);
+
+    expect(storage.claimDealWonNotification).not.toHaveBeenCalled();
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it("skips deals reopened before the event was processed", async () => {
+    vi.mocked(storage.runDealWonAutomation).mockResolvedValue(undefined);
+
+    await handleDealWon(deal);
+
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it("does not email when another delivery claimed the notification", async () => {
+    vi.mocked(storage.claimDealWonNotification).mockResolvedValue(false);
+
+    await handleDealWon(deal);
+
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it("releases the claim and fails the event when the email cannot be sent", async () => {
+    sendEmail.mockRejectedValue(new Error("SMTP down"));
+
+    await expect(handleDealWon(deal)).rejects.toThrow("SMTP down");
+    expect(storage.releaseDealWonNotification).toHaveBeenCalledWith("auto-1", "org-1");
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildDraftNumber,
+  describeNumberingSequence,
+  formatDocumentNumber,
+  getNextSequenceValue,
+  getNumberingPeriod,
+  isDraftNumber,
+  withNumberingDefaults,
+} from "../../server/domains/revenue/numbering";
+import { numberingSequenceSettingsSchema } from "@shared/schema";
+
+const march = new Date(2026, 2, 15);
+
+describe("formatDocumentNumber", () => {
+  it("fills date tokens and pads the counter", () => {
+    expect(formatDocumentNumber("INV-{YYYY}-{0000}", 7, march)).toBe("INV-2026-0007");
+    expect(formatDocumentNumber("{YY}{MM}/{000}", 12, march)).toBe("2603/012");
+    expect(formatDocumentNumber("B{0}", 12345, march)).toBe("B12345");
+  });
+});
+
+describe("sequence periods", () => {
+  it("keys the counter by reset period", () => {
+    expect(getNumberingPeriod("yearly", march)).toBe("2026");
+    expect(getNumberingPeriod("monthly", march)).toBe("2026-03");
+    expect(getNumberingPeriod("never", march)).toBe("");
+  });
+
+  it("continues within a period and restarts in a new one", () => {
+    const sequence = { resetPeriod: "yearly", period: "2026", nextValue: 42 };
+    expect(getNextSequenceValue(sequence, march)).toBe(42);
+    expect(getNextSequenceValue(sequence, new Date(2027, 0, 1))).toBe(1);
+    expect(getNextSequenceValue({ ...sequence, resetPeriod: "never", period: "" }, new Date(2030, 0, 1))).toBe(42);
+  });
+
+  it("previews the next number with defaults for unconfigured orgs", () => {
+    expect(describeNumberingSequence(withNumberingDefaults("invoice"), march)).toEqual({
+      documentType: "invoice",
+      pattern: "INV-{YYYY}-{0000}",
+      resetPeriod: "yearly",
+      nextNumber: "INV-2026-0001",
+    });
+  });
+});
+
+describe("draft numbers", () => {
+  it("marks drafts with a placeholder prefix", () => {
+    const draft = buildDraftNumber();
+    expect(isDraftNumber(draft)).toBe(true);
+    expect(draft).not.toBe(buildDraftNumber());
+    expect(isDraftNumber("INV-2026-0001")).toBe(false);
+  });
+});
+
+describe("numberingSequenceSettingsSchema", () => {
+  it("requires exactly one counter", () => {
+    expect(numberingSequenceSettingsSchema.safeParse({ pattern: "INV-{YYYY}", resetPeriod: "yearly" }).success).toBe(false);
+    expect(
+      numberingSequenceSettingsSchema.safeParse({ pattern: "{000}-{YYYY}-{000}", resetPeriod: "yearly" }).success,
+    ).toBe(false);
+  });
+
+  it("requires the reset period to appear in the number", () => {
+    expect(numberingSequenceSettingsSchema.safeParse({ pattern: "INV-{0000}", resetPeriod: "yearly" }).success).toBe(false);
+    expect(numberingSequenceSettingsSchema.safeParse({ pattern: "INV-{YYYY}-{0000}", resetPeriod: "monthly" }).success).toBe(
+      false,
+    );
+    expect(numberingSequenceSettingsSchema.safeParse({ pattern: "INV-{YY}{MM}-{000}", resetPeriod: "monthly" }).success).toBe(
+      true,
+    );
+    expect(numberingSequenceSettingsSchema.safeParse({ pattern: "INV-{0000}", resetPeriod: "never" }).success).toBe(true);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  dismissedPairKeys,
+  fillBlankFields,
+  findDuplicateClients,
+  findDuplicateContacts,
+  getWebsiteDomain,
+  nameSimilarity,
+  normalizeCompanyName,
+  normalizePhone,
+  toDuplicatePairs,
+} from "../../server/domains/crm/duplicates";
+
+const client = (id: string, name: string, website: string | null = null) => ({ id, name, website });
+
+const contact = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  clientCompanyId: "client-1",
+  firstName: "Ada",
+  lastName: "Lovelace",
+  email: null,
+  phone: null,
+  ...overrides,
+});
+
+describe("normalization", () => {
+  it("reduces company names to their distinctive words", () => {
+    expect(normalizeCompanyName("Acme, Inc.")).toBe("acme");
+    expect(normalizeCompanyName("The ACME Company Ltd")).toBe("acme");
+    expect(normalizeCompanyName("acme.com")).toBe("acme");
+    expect(normalizeCompanyName("Café Müller GmbH")).toBe("cafe muller");
+    expect(normalizeCompanyName("Company")).toBe("company");
+  });
+
+  it("extracts the website domain", () => {
+    expect(getWebsiteDomain("https://www.Acme.com/about")).toBe("acme.com");
+    expect(getWebsiteDomain("acme.co.uk")).toBe("acme.co.uk");
+    expect(getWebsiteDomain("n/a")).toBeNull();
+    expect(getWebsiteDomain(null)).toBeNull();
+  });
+
+  it("keeps only the digits of usable phone numbers", () => {
+    expect(normalizePhone("+1 (555) 010-2030")).toBe("15550102030");
+    expect(normalizePhone("ext 12")).toBeNull();
+  });
+
+  it("scores name similarity by edit distance", () => {
+    expect(nameSimilarity("acme", "acme")).toBe(1);
+    expect(nameSimilarity("globex", "globexx")).toBeCloseTo(6 / 7);
+    expect(nameSimilarity("acme", "initech")).toBeLessThan(0.5);
+  });
+});
+
+describe("findDuplicateClients", () => {
+  it("matches on name, domain and name against domain", () => {
+    const matches = findDuplicateClients([
+      client("c1", "Acme"),
+      client("c2", "Acme Inc.", "https://www.acme.com"),
+      client("c3", "ACME Holdings", "acme.com"),
+      client("c4", "Initech"),
+    ]);
+
+    expect(matches).toEqual([
+      { recordIds: ["c2", "c3"], score: 0.95, reasons: ["website", "name_domain"] },
+      { recordIds: ["c1", "c2"], score: 0.9, reasons: ["name", "name_domain"] },
+      { recordIds: ["c1", "c3"], score: 0.85, reasons: ["name_domain"] },
+    ]);
+  });
+
+  it("reports near-identical names with a lower score", () => {
+    const [match] = findDuplicateClients([client("c1", "Globex Corporation"), client("c2", "Globexx")]);
+    expect(match).toEqual({ recordIds: ["c1", "c2"], score: 0.69, reasons: ["similar_name"] });
+  });
+
+  it("leaves out pairs marked as not duplicates", () => {
+    const clients = [client("c2", "Acme"), client("c1", "Acme LLC")];
+    const dismissed = dismissedPairKeys([{ firstId: "c2", secondId: "c1" }]);
+    expect(findDuplicateClients(clients, dismissed)).toEqual([]);
+  });
+});
+
+describe("findDuplicateContacts", () => {
+  it("matches the same email across companies", () => {
+    const matches = findDuplicateContacts([
+      contact("p1", { email: "Ada@Example.com", firstName: "A." }),
+      contact("p2", { email: " ada@example.com", clientCompanyId: "client-2" }),
+    ]);
+    expect(matches).toEqual([{ recordIds: ["p1", "p2"], score: 0.95, reasons: ["email"] }]);
+  });
+
+  it("only matches names and phones within the same company", () => {
+    const matches = findDuplicateContacts([
+      contact("p1", { phone: "555 010 2030" }),
+      contact("p2", { phone: "(555) 010-2030" }),
+      contact("p3", { clientCompanyId: "client-2", phone: "5550102030" }),
+      contact("p4", { clientCompanyId: null, lastName: "Lovelac" }),
+    ]);
+
+    expect(matches.map((match) => match.recordIds)).toEqual([
+      ["p1", "p2"],
+      ["p1", "p4"],
+      ["p2", "p4"],
+      ["p3", "p4"],
+    ]);
+    expect(matches[0].reasons).toEqual(["phone", "name"]);
+    expect(matches[1].reasons).toEqual(["similar_name"]);
+  });
+});
+
+describe("merging helpers", () => {
+  it("puts the older record of each pair first", () => {
+    const records = [
+      { id: "a", createdAt: new Date(2026, 5, 1) },
+      { id: "b", createdAt: new Date(2025, 0, 1) },
+    ];
+    const [pair] = toDuplicatePairs([{ recordIds: ["a", "b"], score: 0.9, reasons: ["name"] }], records);
+    expect(pair.records.map((record) => record.id)).toEqual(["b", "a"]);
+  });
+
+  it("only fills fields the survivor leaves blank", () => {
+    const survivor = { website: "acme.com", city: null, notes: "" };
+    const duplicate = { website: "acme.io", city: "Leeds", notes: "Key account" };
+    expect(fillBlankFields(survivor, duplicate, ["website", "city", "notes"])).toEqual({
+      city: "Leeds",
+      notes: "Key account",
+    });
+  });
+});
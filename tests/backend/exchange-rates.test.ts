@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { parseCsv, parseCsvRecords } from "../../server/utils/csv";
+import {
+  convertToBaseCurrency,
+  findExchangeRate,
+  parseExchangeRateCsv,
+  sumInBaseCurrency,
+} from "../../server/domains/revenue/currency";
+import { insertExchangeRateSchema } from "@shared/schema";
+
+const rate = (currency: string, value: string, day: number) => ({
+  currency,
+  baseCurrency: "USD",
+  rate: value,
+  effectiveDate: new Date(2026, 0, day),
+});
+
+const rates = [rate("EUR", "1.10", 1), rate("EUR", "1.20", 15), rate("GBP", "1.25", 1)];
+
+describe("parseCsv", () => {
+  it("handles quotes, escaped quotes, CRLF and a BOM", () => {
+    const text = '﻿name,notes\r\n"Acme, Inc.","said ""hi""\nthere"\r\n\r\nGlobex,\n';
+    expect(parseCsv(text)).toEqual([
+      ["name", "notes"],
+      ["Acme, Inc.", 'said "hi"\nthere'],
+      ["Globex", ""],
+    ]);
+  });
+
+  it("keys records by normalized header", () => {
+    expect(parseCsvRecords(" Date ,Currency\n2026-01-01, eur ")).toEqual([
+      { line: 2, values: { date: "2026-01-01", currency: "eur" } },
+    ]);
+  });
+
+  it("numbers records by their line in the file", () => {
+    const text = 'name,notes\r\n"Acme","two\r\nlines"\r\n\r\nGlobex,\rInitech,x';
+    expect(parseCsvRecords(text).map((record) => record.line)).toEqual([2, 5, 6]);
+  });
+});
+
+describe("exchange rate lookup", () => {
+  it("uses the latest rate effective on the document date", () => {
+    expect(findExchangeRate(rates, "EUR", "USD", new Date(2026, 0, 10))?.rate).toBe("1.10");
+    expect(findExchangeRate(rates, "EUR", "USD", new Date(2026, 1, 1))?.rate).toBe("1.20");
+    expect(findExchangeRate(rates, "EUR", "USD", new Date(2025, 11, 31))).toBeUndefined();
+  });
+
+  it("converts to the base currency and returns null without a rate", () => {
+    expect(convertToBaseCurrency(100, "EUR", "USD", new Date(2026, 0, 20), rates)).toBe(120);
+    expect(convertToBaseCurrency(100, "USD", "USD", new Date(2026, 0, 20), [])).toBe(100);
+    expect(convertToBaseCurrency(100, "JPY", "USD", new Date(2026, 0, 20), rates)).toBeNull();
+  });
+
+  it("sums mixed-currency amounts and counts those it cannot convert", () => {
+    const result = sumInBaseCurrency(
+      [
+        { amount: 50, currency: null, date: new Date(2026, 0, 5) },
+        { amount: 100, currency: "EUR", date: new Date(2026, 0, 5) },
+        { amount: 100, currency: "GBP", date: new Date(2026, 0, 5) },
+        { amount: 1000, currency: "JPY", date: new Date(2026, 0, 5) },
+      ],
+      "USD",
+      rates,
+    );
+    expect(result).toEqual({ total: 285, unconverted: 1 });
+  });
+});
+
+describe("exchange rate import", () => {
+  it("parses rates against the organization base currency", () => {
+    const { rates: parsed, errors } = parseExchangeRateCsv(
+      "date,currency,rate\n2026-01-01,eur,1.1\n2026-01-01,GBP,1.25\n",
+      "org-1",
+      "USD",
+    );
+    expect(errors).toEqual([]);
+    expect(parsed).toHaveLength(2);
+    expect(parsed[0]).toMatchObject({
+      organizationId: "org-1",
+      currency: "EUR",
+      baseCurrency: "USD",
+      rate: "1.1",
+      source: "import",
+    });
+  });
+
+  it("reports invalid rows by line number", () => {
+    const { rates: parsed, errors } = parseExchangeRateCsv(
+      "date,currency,rate\n2026-01-01,EURO,1.1\nnot-a-date,EUR,1.1\n2026-01-01,EUR,-2\n2026-01-01,USD,1\n",
+      "org-1",
+      "USD",
+    );
+    expect(parsed).toEqual([]);
+    expect(errors.map((error) => error.line)).toEqual([2, 3, 4, 5]);
+  });
+
+  it("reports a repeated currency, base and date instead of importing it twice", () => {
+    const { rates: parsed, errors } = parseExchangeRateCsv(
+      "date,currency,rate,base_currency\n2026-01-01,EUR,1.1,\n2026-01-01,EUR,1.2,GBP\n2026-01-01,eur,1.15,USD\n",
+      "org-1",
+      "USD",
+    );
+    expect(parsed).toHaveLength(2);
+    expect(errors).toEqual([{ line: 4, message: "Duplicate EUR/USD rate for 2026-01-01 (line 2)" }]);
+  });
+
+  it("validates manual rates", () => {
+    const base = { organizationId: "org-1", currency: "EUR", baseCurrency: "USD", effectiveDate: "2026-01-01" };
+    expect(insertExchangeRateSchema.parse({ ...base, rate: 1.1 }).rate).toBe("1.1");
+    expect(insertExchangeRateSchema.safeParse({ ...base, rate: 0 }).success).toBe(false);
+    expect(insertExchangeRateSchema.safeParse({ ...base, currency: "eur", rate: 1 }).success).toBe(false);
+  });
+});
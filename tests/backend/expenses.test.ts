@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildExpenseLineItems,
+  getExpenseReviewDenial,
+  isExpenseEditable,
+  summarizeReimbursements,
+} from "../../server/domains/revenue/expenses";
+import { validateFile, validateFileSignature } from "../../server/services/file-storage";
+
+const rates = [
+  { currency: "EUR", baseCurrency: "USD", rate: "1.10000000", effectiveDate: new Date(2026, 4, 1) },
+];
+
+describe("expense rules", () => {
+  it("locks submitted, approved and invoiced expenses", () => {
+    expect(isExpenseEditable({ status: "draft", invoiceId: null })).toBe(true);
+    expect(isExpenseEditable({ status: "rejected", invoiceId: null })).toBe(true);
+    expect(isExpenseEditable({ status: "submitted", invoiceId: null })).toBe(false);
+    expect(isExpenseEditable({ status: "approved", invoiceId: null })).toBe(false);
+    expect(isExpenseEditable({ status: "draft", invoiceId: "inv-1" })).toBe(false);
+  });
+
+  it("lets admins review others and owners review anyone", () => {
+    expect(getExpenseReviewDenial("admin-1", "user-1", "admin")).toBeNull();
+    expect(getExpenseReviewDenial("admin-1", "admin-1", "admin")).toBe("You cannot review your own expense");
+    expect(getExpenseReviewDenial("owner-1", "owner-1", "owner")).toBeNull();
+    expect(getExpenseReviewDenial("user-2", "user-1", "member")).toBe("Reviewing expenses requires the admin role");
+  });
+});
+
+describe("buildExpenseLineItems", () => {
+  const expense = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    category: "travel",
+    description: "Flight to client site",
+    expenseDate: new Date(2026, 5, 2),
+    currency: null as string | null,
+    amount: "200.00",
+    ...overrides,
+  });
+
+  it("bills one line per expense in date order with the markup added", () => {
+    const { lineItems, unconverted } = buildExpenseLineItems(
+      [
+        expense("ex-1"),
+        expense("ex-2", { category: "materials", description: "Printer paper", amount: "45.50", expenseDate: new Date(2026, 5, 1) }),
+      ],
+      { markupPercent: 10, baseCurrency: "USD", rates },
+    );
+    expect(unconverted).toEqual([]);
+    expect(lineItems).toEqual([
+      { description: "Materials: Printer paper", quantity: 1, unitPrice: 50.05 },
+      { description: "Travel: Flight to client site", quantity: 1, unitPrice: 220 },
+    ]);
+  });
+
+  it("converts foreign-currency expenses and reports those without a rate", () => {
+    const { lineItems, unconverted } = buildExpenseLineItems(
+      [expense("ex-1", { currency: "EUR", amount: "100.00" }), expense("ex-2", { currency: "GBP" })],
+      { baseCurrency: "USD", rates },
+    );
+    expect(lineItems).toEqual([{ description: "Travel: Flight to client site", quantity: 1, unitPrice: 110 }]);
+    expect(unconverted).toEqual(["ex-2"]);
+  });
+});
+
+describe("summarizeReimbursements", () => {
+  const expense = (userId: string, amount: string, overrides: Record<string, unknown> = {}) => ({
+    userId,
+    amount,
+    status: "approved",
+    reimbursable: true,
+    reimbursedAt: null as Date | null,
+    currency: null as string | null,
+    expenseDate: new Date(2026, 5, 1),
+    ...overrides,
+  });
+
+  it("totals pending, owed and reimbursed amounts per employee", () => {
+    const summaries = summarizeReimbursements(
+      [
+        expense("user-1", "100.00"),
+        expense("user-1", "50.00", { currency: "EUR" }),
+        expense("user-1", "20.00", { status: "submitted" }),
+        expense("user-1", "75.00", { reimbursedAt: new Date(2026, 5, 5) }),
+        expense("user-1", "999.00", { reimbursable: false }),
+        expense("user-1", "10.00", { status: "draft" }),
+        expense("user-2", "30.00", { currency: "GBP" }),
+      ],
+      "USD",
+      rates,
+    );
+    expect(summaries).toEqual([
+      { userId: "user-1", pendingAmount: 20, owedAmount: 155, owedCount: 2, reimbursedAmount: 75, unconverted: 0 },
+      { userId: "user-2", pendingAmount: 0, owedAmount: 0, owedCount: 1, reimbursedAmount: 0, unconverted: 1 },
+    ]);
+  });
+});
+
+describe("receipt files", () => {
+  it("accepts PDF and image receipts", () => {
+    expect(validateFile("receipt.pdf", "application/pdf", 2048, "receipt").isValid).toBe(true);
+    expect(validateFile("receipt.jpg", "image/jpeg", 2048, "receipt").isValid).toBe(true);
+    expect(validateFile("receipt.gif", "image/gif", 2048, "receipt").isValid).toBe(false);
+    expect(validateFile("avatar.pdf", "application/pdf", 2048, "image").isValid).toBe(false);
+  });
+
+  it("checks the PDF signature", () => {
+    expect(validateFileSignature(Buffer.from("%PDF-1.7"), "application/pdf")).toBe(true);
+    expect(validateFileSignature(Buffer.from([0xff, 0xd8, 0xff]), "application/pdf")).toBe(false);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+
+vi.mock("../../server/storage", () => ({
+  storage: {
+    markOverdueInvoices: vi.fn(),
+    getOpenInvoicesDueBetween: vi.fn(),
+    getOrganization: vi.fn(),
+    getInvoiceReminders: vi.fn(),
+    getBillingContact: vi.fn(),
+    claimInvoiceReminder: vi.fn(),
+    releaseInvoiceReminder: vi.fn(),
+    createActivityEvent: vi.fn(),
+  },
+}));
+
+import { storage } from "../../server/storage";
+import {
+  getDueReminderStep,
+  getReminderDays,
+  getReminderSubject,
+  InvoiceDunningJob,
+} from "../../server/domains/revenue/dunning";
+import { DEFAULT_INVOICE_REMINDER_DAYS, invoiceReminderSettingsSchema } from "@shared/schema";
+
+const sendEmail = vi.fn();
+
+const dueDate = new Date(2026, 2, 10, 12);
+const onDay = (day: number) => new Date(2026, 2, day, 9);
+
+const invoice = {
+  id: "inv-1",
+  organizationId: "org-1",
+  engagementId: "eng-1",
+  clientCompanyId: "client-1",
+  invoiceNumber: "INV-001",
+  status: "overdue",
+  totalAmount: "1200.00",
+  paidAmount: "200.00",
+  dueDate,
+};
+
+const organization = {
+  id: "org-1",
+  name: "Acme Consulting",
+  currency: "USD",
+  dateFormat: "YYYY-MM-DD",
+  invoiceReminderDays: null,
+};
+
+describe("getDueReminderStep", () => {
+  const days = [-3, 0, 7, 14];
+
+  it("returns nothing before the first step", () => {
+    expect(getDueReminderStep(dueDate, days, [], onDay(6))).toBeUndefined();
+  });
+
+  it("returns each step on its day", () => {
+    expect(getDueReminderStep(dueDate, days, [], onDay(7))).toBe(-3);
+    expect(getDueReminderStep(dueDate, days, [-3], onDay(10))).toBe(0);
+    expect(getDueReminderStep(dueDate, days, [-3, 0], onDay(17))).toBe(7);
+  });
+
+  it("does not resend a step or fall back to earlier steps", () => {
+    expect(getDueReminderStep(dueDate, days, [-3], onDay(8))).toBeUndefined();
+    expect(getDueReminderStep(dueDate, days, [7], onDay(18))).toBeUndefined();
+  });
+
+  it("only sends the latest step after a gap", () => {
+    expect(getDueReminderStep(dueDate, days, [], onDay(25))).toBe(14);
+  });
+});
+
+describe("reminder configuration", () => {
+  it("falls back to the default sequence", () => {
+    expect(getReminderDays({ invoiceReminderDays: null })).toEqual(DEFAULT_INVOICE_REMINDER_DAYS);
+    expect(getReminderDays({ invoiceReminderDays: [0, 30] })).toEqual([0, 30]);
+  });
+
+  it("sorts and de-duplicates configured days", () => {
+    expect(invoiceReminderSettingsSchema.parse({ days: [14, -3, 0, 14] }).days).toEqual([-3, 0, 14]);
+    expect(invoiceReminderSettingsSchema.safeParse({ days: [-45] }).success).toBe(false);
+  });
+
+  it("words the subject by step", () => {
+    expect(getReminderSubject("INV-1", -3)).toContain("due soon");
+    expect(getReminderSubject("INV-1", 0)).toContain("due today");
+    expect(getReminderSubject("INV-1", 7)).toContain("7 days past due");
+  });
+});
+
+describe("InvoiceDunningJob", () => {
+  beforeAll(() => {
+    // The job imports the email service lazily; registered after the global setup's mock.
+    vi.doMock("../../server/services/email", () => ({ emailService: { sendEmail } }));
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storage.markOverdueInvoices).mockResolvedValue([]);
+    vi.mocked(storage.getOpenInvoicesDueBetween).mockResolvedValue([invoice] as any);
+    vi.mocked(storage.getOrganization).mockResolvedValue(organization as any);
+    vi.mocked(storage.getInvoiceReminders).mockResolvedValue([]);
+    vi.mocked(storage.getBillingContact).mockResolvedValue({
+      firstName: "Pat",
+      email: "pat@client.test",
+    } as any);
+    vi.mocked(storage.claimInvoiceReminder).mockImplementation(async (data) => ({
+      id: "rem-1",
+      sentAt: new Date(),
+      ...data,
+    }));
+  });
+
+  it("logs an activity event for invoices that become overdue", async () => {
+    vi.mocked(storage.markOverdueInvoices).mockResolvedValue([invoice] as any);
+    vi.mocked(storage.getOpenInvoicesDueBetween).mockResolvedValue([]);
+
+    const result = await new InvoiceDunningJob().run(onDay(11));
+
+    expect(result.overdue).toBe(1);
+    expect(storage.createActivityEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ entityId: "inv-1", type: "status_changed", actorId: "system" }),
+    );
+  });
+
+  it("emails the outstanding balance to the billing contact and records the step", async () => {
+    const result = await new InvoiceDunningJob().run(onDay(17));
+
+    expect(result.reminders).toBe(1);
+    expect(storage.claimInvoiceReminder).toHaveBeenCalledWith({
+      organizationId: "org-1",
+      invoiceId: "inv-1",
+      offsetDays: 7,
+      recipient: "pat@client.test",
+    });
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: "pat@client.test",
+        template: "invoice-reminder",
+        data: expect.objectContaining({ amountDue: "$1,000.00", daysPastDue: 7, dueDate: "2026-03-10" }),
+      }),
+    );
+    expect(storage.createActivityEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "sent", metadata: { reminderId: "rem-1", offsetDays: 7 } }),
+    );
+  });
+
+  it("skips steps another worker already claimed", async () => {
+    vi.mocked(storage.claimInvoiceReminder).mockResolvedValue(undefined);
+
+    const result = await new InvoiceDunningJob().run(onDay(17));
+
+    expect(result.reminders).toBe(0);
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it("reads the reminder window a page at a time", async () => {
+    const page = Array.from({ length: 500 }, (_, index) => ({ ...invoice, id: `inv-${index}` }));
+    vi.mocked(storage.getOpenInvoicesDueBetween)
+      .mockResolvedValueOnce(page as any)
+      .mockResolvedValueOnce([{ ...invoice, id: "inv-last" }] as any);
+    vi.mocked(storage.claimInvoiceReminder).mockResolvedValue(undefined);
+
+    await new InvoiceDunningJob().run(onDay(17));
+
+    expect(storage.getOpenInvoicesDueBetween).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(storage.getOpenInvoicesDueBetween).mock.calls[1][2]).toBe(page[499]);
+    expect(storage.claimInvoiceReminder).toHaveBeenCalledTimes(501);
+  });
+
+  it("skips invoices without a billing contact email", async () => {
+    vi.mocked(storage.getBillingContact).mockResolvedValue(undefined);
+
+    const result = await new InvoiceDunningJob().run(onDay(17));
+
+    expect(result.reminders).toBe(0);
+    expect(storage.claimInvoiceReminder).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import {
+  getBalanceDueCents,
+  getInvoiceStatusRefusal,
+  getPaymentRefusal,
+  summarizeInvoicePayments,
+} from "../../server/domains/revenue/payments";
+import { insertPaymentSchema } from "@shared/schema";
+
+const invoice = {
+  status: "sent" as const,
+  totalAmount: "1000.00",
+  sentAt: new Date("2026-01-01T00:00:00Z"),
+  dueDate: new Date("2026-02-01T00:00:00Z"),
+};
+const now = new Date("2026-01-15T00:00:00Z");
+
+const payment = (amount: string, paidAt: string, voidedAt: Date | null = null) => ({
+  amount,
+  paidAt: new Date(paidAt),
+  voidedAt,
+});
+
+describe("summarizeInvoicePayments", () => {
+  it("marks an invoice partially paid after the first installment", () => {
+    const summary = summarizeInvoicePayments(invoice, [payment("400.00", "2026-01-05")], now);
+    expect(summary).toMatchObject({
+      paidAmount: "400.00",
+      balanceDue: "600.00",
+      status: "partially_paid",
+      paidAt: null,
+    });
+  });
+
+  it("marks an invoice paid once installments cover the total", () => {
+    const summary = summarizeInvoicePayments(
+      invoice,
+      [payment("333.33", "2026-01-05"), payment("333.33", "2026-01-10"), payment("333.34", "2026-01-12")],
+      now,
+    );
+    expect(summary.status).toBe("paid");
+    expect(summary.paidAmount).toBe("1000.00");
+    expect(summary.balanceDue).toBe("0.00");
+    expect(summary.paidAt).toEqual(new Date("2026-01-12"));
+  });
+
+  it("ignores voided payments", () => {
+    const summary = summarizeInvoicePayments(
+      { ...invoice, status: "paid" },
+      [payment("1000.00", "2026-01-05", new Date()), payment("250.00", "2026-01-06")],
+      now,
+    );
+    expect(summary.status).toBe("partially_paid");
+    expect(summary.paidAmount).toBe("250.00");
+  });
+
+  it("reverts to the pre-payment state when every payment is voided", () => {
+    const ledger = [payment("1000.00", "2026-01-05", new Date())];
+    expect(summarizeInvoicePayments({ ...invoice, status: "paid" }, ledger, now).status).toBe("sent");
+    expect(
+      summarizeInvoicePayments({ ...invoice, status: "paid" }, ledger, new Date("2026-03-01")).status,
+    ).toBe("overdue");
+    expect(
+      summarizeInvoicePayments({ ...invoice, status: "partially_paid", sentAt: null }, ledger, now).status,
+    ).toBe("draft");
+  });
+
+  it("keeps a past-due invoice overdue until it is paid in full", () => {
+    const afterDue = new Date("2026-03-01");
+    const partial = [payment("400.00", "2026-02-20")];
+    expect(summarizeInvoicePayments({ ...invoice, status: "overdue" }, partial, afterDue).status).toBe("overdue");
+    expect(summarizeInvoicePayments({ ...invoice, status: "paid" }, partial, afterDue).status).toBe("overdue");
+    expect(
+      summarizeInvoicePayments({ ...invoice, status: "overdue" }, [payment("1000.00", "2026-02-20")], afterDue).status,
+    ).toBe("paid");
+  });
+
+  it("leaves unrelated statuses alone when nothing has been paid", () => {
+    expect(summarizeInvoicePayments({ ...invoice, status: "viewed" }, [], now).status).toBe("viewed");
+  });
+});
+
+describe("getBalanceDueCents", () => {
+  it("treats a missing paidAmount as zero", () => {
+    expect(getBalanceDueCents({ totalAmount: "99.99", paidAmount: null })).toBe(9999);
+    expect(getBalanceDueCents({ totalAmount: "99.99", paidAmount: "50.00" })).toBe(4999);
+  });
+});
+
+describe("getPaymentRefusal", () => {
+  const open = { status: "partially_paid" as const, totalAmount: "1000.00", paidAmount: "600.00", creditedAmount: "100.00" };
+
+  it("accepts payments up to the outstanding balance", () => {
+    expect(getPaymentRefusal(open, "300.00")).toBeNull();
+    expect(getPaymentRefusal(open, 299.99)).toBeNull();
+  });
+
+  it("refuses overpayments and cancelled invoices", () => {
+    expect(getPaymentRefusal(open, "300.01")).toBe("Payment exceeds the outstanding balance");
+    expect(getPaymentRefusal({ ...open, status: "cancelled" }, "1.00")).toBe(
+      "Cannot record a payment on a cancelled invoice",
+    );
+  });
+});
+
+describe("getInvoiceStatusRefusal", () => {
+  const unpaid = { status: "sent" as const, paidAmount: "0" };
+
+  it("keeps paid statuses out of creates and edits", () => {
+    expect(getInvoiceStatusRefusal(undefined, "paid")).toMatchObject({ status: 400 });
+    expect(getInvoiceStatusRefusal(unpaid, "partially_paid")).toMatchObject({ status: 400 });
+    expect(getInvoiceStatusRefusal(undefined, "sent")).toBeNull();
+    expect(getInvoiceStatusRefusal(unpaid, "overdue")).toBeNull();
+  });
+
+  it("keeps the status of an invoice with payments", () => {
+    expect(getInvoiceStatusRefusal({ status: "paid", paidAmount: "1000.00" }, "sent")).toMatchObject({ status: 409 });
+    expect(getInvoiceStatusRefusal({ status: "overdue", paidAmount: "400.00" }, "sent")).toMatchObject({ status: 409 });
+    expect(getInvoiceStatusRefusal({ status: "paid", paidAmount: "1000.00" }, "paid")).toBeNull();
+    expect(getInvoiceStatusRefusal({ status: "paid", paidAmount: "1000.00" }, undefined)).toBeNull();
+  });
+});
+
+describe("insertPaymentSchema", () => {
+  const base = { organizationId: "org-1", invoiceId: "inv-1" };
+
+  it("accepts numeric amounts and stores them as decimal strings", () => {
+    const parsed = insertPaymentSchema.parse({ ...base, amount: 150.5, paymentMethod: "check" });
+    expect(parsed.amount).toBe("150.5");
+  });
+
+  it("rejects non-positive amounts and unknown methods", () => {
+    expect(insertPaymentSchema.safeParse({ ...base, amount: 0 }).success).toBe(false);
+    expect(insertPaymentSchema.safeParse({ ...base, amount: 10, paymentMethod: "barter" }).success).toBe(
+      false,
+    );
+  });
+});
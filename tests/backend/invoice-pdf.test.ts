@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatInvoiceDate,
+  formatInvoiceMoney,
+  getInvoicePdfLines,
+  renderInvoicePdf,
+  toDateFnsPattern,
+} from "../../server/domains/revenue/invoice-pdf";
+import type { Invoice } from "@shared/schema";
+
+const invoice: Invoice = {
+  id: "inv-1",
+  organizationId: "org-1",
+  engagementId: "eng-1",
+  scheduleId: null,
+  clientCompanyId: "client-1",
+  invoiceNumber: "INV-001",
+  status: "sent",
+  currency: null,
+  amount: "1500.00",
+  tax: "150.00",
+  totalAmount: "1650.00",
+  lineItems: [
+    { description: "Strategy workshop", quantity: 2, unitPrice: "500.00" },
+    { description: "Report", quantity: 1, unitPrice: 500 },
+  ],
+  dueDate: new Date(2026, 2, 15),
+  sentAt: new Date(2026, 2, 1),
+  paidAt: null,
+  paidAmount: "500.00",
+  creditedAmount: null,
+  notes: "Thank you for your business.",
+  createdAt: new Date(2026, 1, 28),
+  updatedAt: new Date(2026, 1, 28),
+};
+
+describe("invoice PDF formatting", () => {
+  it("maps organization date formats to date-fns patterns", () => {
+    expect(toDateFnsPattern("DD/MM/YYYY")).toBe("dd/MM/yyyy");
+    expect(formatInvoiceDate(new Date(2026, 2, 15), "DD.MM.YYYY")).toBe("15.03.2026");
+    expect(formatInvoiceDate(new Date(2026, 2, 15), "YYYY-MM-DD")).toBe("2026-03-15");
+    expect(formatInvoiceDate(null, "YYYY-MM-DD")).toBe("-");
+  });
+
+  it("formats amounts in the organization currency", () => {
+    expect(formatInvoiceMoney("1650", "USD")).toBe("$1,650.00");
+    expect(formatInvoiceMoney(10, "EUR")).toBe("€10.00");
+  });
+
+  it("normalizes line items and falls back to a single line", () => {
+    expect(getInvoicePdfLines(invoice)).toEqual([
+      { description: "Strategy workshop", quantity: 2, unitPrice: 500, amount: 1000 },
+      { description: "Report", quantity: 1, unitPrice: 500, amount: 500 },
+    ]);
+    expect(getInvoicePdfLines({ lineItems: null, amount: "750.00" })).toEqual([
+      { description: "Professional services", quantity: 1, unitPrice: 750, amount: 750 },
+    ]);
+  });
+});
+
+describe("renderInvoicePdf", () => {
+  it("produces a PDF document", async () => {
+    const buffer = await renderInvoicePdf({
+      invoice,
+      organization: { name: "Acme Consulting", currency: "USD", dateFormat: "MM/DD/YYYY" },
+      client: {
+        name: "Globex",
+        address: "1 Main St",
+        city: "Springfield",
+        state: "IL",
+        zipCode: "62701",
+        country: "USA",
+      },
+    });
+
+    expect(buffer.subarray(0, 5).toString()).toBe("%PDF-");
+    expect(buffer.length).toBeGreaterThan(1000);
+  });
+});
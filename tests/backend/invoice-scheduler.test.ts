@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../server/storage", () => ({
+  storage: {
+    getDueInvoiceSchedules: vi.fn(),
+    getEngagement: vi.fn(),
+    generateScheduledInvoice: vi.fn(),
+    updateInvoiceSchedule: vi.fn(),
+  },
+}));
+
+import { storage } from "../../server/storage";
+import {
+  advanceScheduleDate,
+  RecurringInvoiceGenerator,
+} from "../../server/domains/revenue/invoice-scheduler";
+
+const schedule = {
+  id: "1a2b3c4d-0000-0000-0000-000000000000",
+  organizationId: "org-1",
+  engagementId: "eng-1",
+  contractId: null,
+  name: "Monthly retainer",
+  totalAmount: "2500.00",
+  frequency: "monthly",
+  nextInvoiceDate: new Date("2026-01-31T00:00:00Z"),
+  paymentTermsDays: 15,
+  isActive: true,
+  lastGeneratedAt: null,
+  createdAt: new Date("2025-12-01T00:00:00Z"),
+  updatedAt: new Date("2025-12-01T00:00:00Z"),
+};
+
+describe("advanceScheduleDate", () => {
+  const start = new Date("2026-01-15T00:00:00Z");
+
+  it("advances by each supported frequency", () => {
+    expect(advanceScheduleDate(start, "weekly").toISOString()).toBe("2026-01-22T00:00:00.000Z");
+    expect(advanceScheduleDate(start, "biweekly").toISOString()).toBe("2026-01-29T00:00:00.000Z");
+    expect(advanceScheduleDate(start, "monthly").getUTCMonth()).toBe(1);
+    expect(advanceScheduleDate(start, "quarterly").getUTCMonth()).toBe(3);
+    expect(advanceScheduleDate(start, "annually").getUTCFullYear()).toBe(2027);
+  });
+
+  it("clamps month-end dates to the end of shorter months", () => {
+    const next = advanceScheduleDate(new Date(2026, 0, 31), "monthly");
+    expect(next.getMonth()).toBe(1);
+    expect(next.getDate()).toBe(28);
+  });
+
+  it("rejects unknown frequencies", () => {
+    expect(() => advanceScheduleDate(start, "daily" as any)).toThrow("Unsupported");
+  });
+});
+
+describe("RecurringInvoiceGenerator", () => {
+  beforeEach(() => {
+    vi.mocked(storage.getDueInvoiceSchedules).mockReset();
+    vi.mocked(storage.getEngagement).mockReset();
+    vi.mocked(storage.generateScheduledInvoice).mockReset();
+    vi.mocked(storage.updateInvoiceSchedule).mockReset();
+  });
+
+  it("creates a draft invoice linked to the schedule and advances the date", async () => {
+    vi.mocked(storage.getDueInvoiceSchedules).mockResolvedValue([schedule]);
+    vi.mocked(storage.getEngagement).mockResolvedValue({ id: "eng-1", clientCompanyId: "client-1" } as any);
+    vi.mocked(storage.generateScheduledInvoice).mockResolvedValue({ id: "inv-1", invoiceNumber: "X" } as any);
+
+    const generator = new RecurringInvoiceGenerator();
+    const count = await generator.runDueSchedules(new Date("2026-02-01T00:00:00Z"));
+
+    expect(count).toBe(1);
+    const [passedSchedule, invoice, nextDate] = vi.mocked(storage.generateScheduledInvoice).mock.calls[0];
+    expect(passedSchedule).toBe(schedule);
+    expect(invoice).toMatchObject({
+      organizationId: "org-1",
+      engagementId: "eng-1",
+      scheduleId: schedule.id,
+      clientCompanyId: "client-1",
+      status: "draft",
+      totalAmount: "2500.00",
+    });
+    // Numbered from the org sequence when the draft is sent
+    expect(invoice.invoiceNumber).toMatch(/^DRAFT-/);
+    expect(invoice.dueDate).toEqual(new Date("2026-02-15T00:00:00Z"));
+    expect(nextDate.getTime()).toBeGreaterThan(schedule.nextInvoiceDate.getTime());
+  });
+
+  it("does not count runs claimed by another worker", async () => {
+    vi.mocked(storage.getDueInvoiceSchedules).mockResolvedValue([schedule]);
+    vi.mocked(storage.getEngagement).mockResolvedValue({ id: "eng-1", clientCompanyId: null } as any);
+    vi.mocked(storage.generateScheduledInvoice).mockResolvedValue(undefined);
+
+    const count = await new RecurringInvoiceGenerator().runDueSchedules();
+    expect(count).toBe(0);
+  });
+
+  it("deactivates schedules whose engagement no longer exists", async () => {
+    vi.mocked(storage.getDueInvoiceSchedules).mockResolvedValue([schedule]);
+    vi.mocked(storage.getEngagement).mockResolvedValue(undefined);
+
+    const count = await new RecurringInvoiceGenerator().runDueSchedules();
+    expect(count).toBe(0);
+    expect(storage.generateScheduledInvoice).not.toHaveBeenCalled();
+    expect(storage.updateInvoiceSchedule).toHaveBeenCalledWith(schedule.id, "org-1", { isActive: false });
+  });
+
+  it("deactivates schedules without a frequency", async () => {
+    vi.mocked(storage.getDueInvoiceSchedules).mockResolvedValue([{ ...schedule, frequency: null as any }]);
+
+    await new RecurringInvoiceGenerator().runDueSchedules();
+    expect(storage.getEngagement).not.toHaveBeenCalled();
+    expect(storage.updateInvoiceSchedule).toHaveBeenCalledWith(schedule.id, "org-1", { isActive: false });
+  });
+
+  it("deactivates a failing schedule and carries on with the batch", async () => {
+    const other = { ...schedule, id: "2b3c4d5e-0000-0000-0000-000000000000" };
+    vi.mocked(storage.getDueInvoiceSchedules).mockResolvedValue([schedule, other]);
+    vi.mocked(storage.getEngagement).mockResolvedValue({ id: "eng-1", clientCompanyId: "client-1" } as any);
+    vi.mocked(storage.generateScheduledInvoice)
+      .mockRejectedValueOnce(new Error("intentional test error"))
+      .mockResolvedValueOnce({ id: "inv-2", invoiceNumber: "X" } as any);
+
+    const count = await new RecurringInvoiceGenerator().runDueSchedules();
+    expect(count).toBe(1);
+    expect(storage.updateInvoiceSchedule).toHaveBeenCalledTimes(1);
+    expect(storage.updateInvoiceSchedule).toHaveBeenCalledWith(schedule.id, "org-1", { isActive: false });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeFlatInvoiceTotals,
+  computeInvoiceTotals,
+  findUnknownTaxRates,
+} from "../../server/domains/revenue/invoice-totals";
+import { invoiceLineItemsSchema, insertTaxRateSchema } from "@shared/schema";
+
+const taxRates = [
+  { id: "vat", name: "VAT 20%", rate: "20.0000" },
+  { id: "ny", name: "NY Sales Tax", rate: "8.8750" },
+];
+
+describe("invoice line item validation", () => {
+  it("coerces numbers and defaults the discount", () => {
+    const [item] = invoiceLineItemsSchema.parse([{ description: "Workshop", quantity: "2", unitPrice: "150" }]);
+    expect(item).toEqual({ description: "Workshop", quantity: 2, unitPrice: 150, discountPercent: 0 });
+  });
+
+  it("rejects empty invoices and invalid lines", () => {
+    expect(invoiceLineItemsSchema.safeParse([]).success).toBe(false);
+    expect(invoiceLineItemsSchema.safeParse([{ description: "", quantity: 1, unitPrice: 1 }]).success).toBe(false);
+    expect(invoiceLineItemsSchema.safeParse([{ description: "X", quantity: 0, unitPrice: 1 }]).success).toBe(false);
+    expect(
+      invoiceLineItemsSchema.safeParse([{ description: "X", quantity: 1, unitPrice: 1, discountPercent: 120 }]).success,
+    ).toBe(false);
+  });
+
+  it("validates tax rates as percentages", () => {
+    expect(insertTaxRateSchema.parse({ organizationId: "org-1", name: "VAT", rate: 20 }).rate).toBe("20");
+    expect(insertTaxRateSchema.safeParse({ organizationId: "org-1", name: "VAT", rate: 150 }).success).toBe(false);
+  });
+});
+
+describe("computeInvoiceTotals", () => {
+  it("applies discounts before tax and sums rounded lines", () => {
+    const items = invoiceLineItemsSchema.parse([
+      { description: "Consulting", quantity: 3, unitPrice: 99.99, discountPercent: 10, taxRateId: "vat" },
+      { description: "Travel", quantity: 1, unitPrice: 45.5 },
+      { description: "Software", quantity: 1, unitPrice: 19.99, taxRateId: "ny" },
+    ]);
+
+    const totals = computeInvoiceTotals(items, taxRates);
+
+    // 299.97 - 30.00 = 269.97 (+53.99 VAT); 45.50; 19.99 (+1.77 NY)
+    expect(totals.lineItems.map((line) => [line.amount, line.taxAmount])).toEqual([
+      [269.97, 53.99],
+      [45.5, 0],
+      [19.99, 1.77],
+    ]);
+    expect(totals).toMatchObject({ amount: "335.46", tax: "55.76", totalAmount: "391.22" });
+  });
+
+  it("snapshots the tax rate on each line", () => {
+    const items = invoiceLineItemsSchema.parse([{ description: "A", quantity: 1, unitPrice: 100, taxRateId: "vat" }]);
+    expect(computeInvoiceTotals(items, taxRates).lineItems[0]).toMatchObject({
+      taxRateId: "vat",
+      taxRateName: "VAT 20%",
+      taxRatePercent: 20,
+    });
+  });
+
+  it("reports tax rates that do not belong to the organization", () => {
+    const items = invoiceLineItemsSchema.parse([
+      { description: "A", quantity: 1, unitPrice: 1, taxRateId: "vat" },
+      { description: "B", quantity: 1, unitPrice: 1, taxRateId: "other-org" },
+    ]);
+    expect(findUnknownTaxRates(items, taxRates)).toEqual(["other-org"]);
+  });
+});
+
+describe("computeFlatInvoiceTotals", () => {
+  it("derives the total from amount and tax", () => {
+    expect(computeFlatInvoiceTotals("1000.10", 0.2)).toEqual({
+      amount: "1000.10",
+      tax: "0.20",
+      totalAmount: "1000.30",
+    });
+    expect(computeFlatInvoiceTotals(500, null).totalAmount).toBe("500.00");
+  });
+});
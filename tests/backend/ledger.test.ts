@@ -0,0 +1,191 @@
+import { describe, it, expect } from "vitest";
+import {
+  billJournalEntries,
+  buildIifExport,
+  buildTrialBalance,
+  creditNoteIssuedEntry,
+  invoiceJournalEntries,
+  isBalanced,
+  journalCsvRows,
+  paymentReceivedEntry,
+  reverseLines,
+  sameLines,
+} from "../../server/domains/revenue/ledger";
+
+const invoice = (overrides: Record<string, unknown> = {}) => ({
+  id: "inv-1",
+  invoiceNumber: "INV-2026-0001",
+  status: "sent" as const,
+  currency: null,
+  tax: "100.00",
+  totalAmount: "1100.00",
+  sentAt: new Date(2026, 5, 1),
+  createdAt: new Date(2026, 4, 28),
+  ...overrides,
+});
+
+const bill = (overrides: Record<string, unknown> = {}) => ({
+  id: "bill-1",
+  billNumber: "BILL-2026-0001",
+  status: "approved" as const,
+  currency: "EUR",
+  amount: "300.00",
+  approvedAt: new Date(2026, 5, 2),
+  paidAt: null,
+  createdAt: new Date(2026, 5, 1),
+  ...overrides,
+});
+
+describe("journal entry builders", () => {
+  it("posts an issued invoice to receivables, revenue and sales tax", () => {
+    const [entry] = invoiceJournalEntries(invoice());
+    expect(entry).toMatchObject({ sourceType: "invoice", event: "invoice.issued", reference: "INV-2026-0001" });
+    expect(entry.entryDate).toEqual(new Date(2026, 5, 1));
+    expect(entry.lines).toEqual([
+      { account: "accounts_receivable", debit: "1100.00", credit: "0.00" },
+      { account: "revenue", debit: "0.00", credit: "1000.00" },
+      { account: "sales_tax", debit: "0.00", credit: "100.00" },
+    ]);
+    expect(isBalanced(entry.lines)).toBe(true);
+  });
+
+  it("posts nothing for drafts and cancelled invoices and drops zero tax lines", () => {
+    expect(invoiceJournalEntries(invoice({ status: "draft" }))).toEqual([]);
+    expect(invoiceJournalEntries(invoice({ status: "cancelled" }))).toEqual([]);
+    const [entry] = invoiceJournalEntries(invoice({ tax: "0", totalAmount: "1000.00" }));
+    expect(entry.lines.map((line) => line.account)).toEqual(["accounts_receivable", "revenue"]);
+  });
+
+  it("posts payments and credit notes against receivables", () => {
+    const payment = paymentReceivedEntry(
+      { id: "pay-1", amount: "400.00", paidAt: new Date(2026, 5, 10) },
+      invoice({ currency: "EUR" }),
+    );
+    expect(payment).toMatchObject({ sourceId: "pay-1", currency: "EUR" });
+    expect(payment.lines).toEqual([
+      { account: "cash", debit: "400.00", credit: "0.00" },
+      { account: "accounts_receivable", debit: "0.00", credit: "400.00" },
+    ]);
+
+    const creditNote = creditNoteIssuedEntry({
+      id: "cn-1",
+      creditNoteNumber: "CN-2026-0001",
+      currency: null,
+      tax: "10.00",
+      totalAmount: "110.00",
+      issuedAt: new Date(2026, 5, 12),
+    });
+    expect(creditNote.lines).toEqual([
+      { account: "revenue", debit: "100.00", credit: "0.00" },
+      { account: "sales_tax", debit: "10.00", credit: "0.00" },
+      { account: "accounts_receivable", debit: "0.00", credit: "110.00" },
+    ]);
+  });
+
+  it("posts approval and payment for paid bills", () => {
+    expect(billJournalEntries(bill({ status: "pending" }))).toEqual([]);
+    expect(billJournalEntries(bill()).map((entry) => entry.event)).toEqual(["bill.approved"]);
+    const entries = billJournalEntries(bill({ status: "paid", paidAt: new Date(2026, 5, 20) }));
+    expect(entries.map((entry) => entry.event)).toEqual(["bill.approved", "bill.paid"]);
+    expect(entries[1].lines).toEqual([
+      { account: "accounts_payable", debit: "300.00", credit: "0.00" },
+      { account: "cash", debit: "0.00", credit: "300.00" },
+    ]);
+  });
+
+  it("compares lines by amount regardless of order and formatting", () => {
+    const [entry] = invoiceJournalEntries(invoice());
+    const posted = [...entry.lines].reverse().map((line) => ({ ...line, debit: `${Number(line.debit)}` }));
+    expect(sameLines(entry.lines, posted)).toBe(true);
+    const [edited] = invoiceJournalEntries(invoice({ totalAmount: "1200.00" }));
+    expect(sameLines(entry.lines, edited.lines)).toBe(false);
+  });
+});
+
+const accounts = [
+  { id: "a-cash", code: "1000", name: "Cash", type: "asset", systemKey: "cash" },
+  { id: "a-ar", code: "1200", name: "Accounts Receivable", type: "asset", systemKey: "accounts_receivable" },
+  { id: "a-rev", code: "4000", name: "Revenue", type: "income", systemKey: "revenue" },
+  { id: "a-rent", code: "6100", name: "Rent", type: "expense", systemKey: null },
+];
+
+const entries = [
+  {
+    id: "je-1",
+    entryDate: new Date(2026, 5, 1),
+    sourceType: "invoice",
+    event: "invoice.issued",
+    reference: "INV-2026-0001",
+    memo: "Invoice INV-2026-0001",
+    currency: null,
+    lines: [
+      { accountId: "a-ar", debit: "1000.00", credit: "0.00" },
+      { accountId: "a-rev", debit: "0.00", credit: "1000.00" },
+    ],
+  },
+  {
+    id: "je-2",
+    entryDate: new Date(2026, 5, 10),
+    sourceType: "payment",
+    event: "payment.received",
+    reference: "INV-2026-0001",
+    memo: "Payment\ton invoice\nINV-2026-0001",
+    currency: null,
+    lines: [
+      { accountId: "a-cash", debit: "400.00", credit: "0.00" },
+      { accountId: "a-ar", debit: "0.00", credit: "400.00" },
+    ],
+  },
+];
+
+describe("buildTrialBalance", () => {
+  it("nets each account and balances debits against credits", () => {
+    const lines = entries.flatMap((entry) => entry.lines);
+    const reversal = reverseLines(entries[1].lines);
+    const trialBalance = buildTrialBalance(accounts, [...lines, ...reversal, ...entries[1].lines]);
+    expect(trialBalance.rows.map((row) => [row.code, row.debit, row.credit])).toEqual([
+      ["1000", 400, 0],
+      ["1200", 600, 0],
+      ["4000", 0, 1000],
+    ]);
+    expect(trialBalance.totals).toEqual({ debit: 1000, credit: 1000 });
+  });
+});
+
+describe("journal exports", () => {
+  it("writes one CSV row per line in the entry currency", () => {
+    const rows = journalCsvRows(entries, accounts, "USD");
+    expect(rows).toHaveLength(4);
+    expect(rows[0]).toEqual([
+      "je-1",
+      "2026-06-01",
+      "invoice",
+      "invoice.issued",
+      "INV-2026-0001",
+      "Invoice INV-2026-0001",
+      "USD",
+      "1200",
+      "Accounts Receivable",
+      "1000.00",
+      "0.00",
+    ]);
+  });
+
+  it("writes IIF general journal transactions with signed amounts", () => {
+    const lines = buildIifExport(entries, accounts).split("\r\n");
+    expect(lines.slice(0, 4)).toEqual([
+      "!ACCNT\tNAME\tACCNTTYPE\tACCNUM",
+      "ACCNT\tCash\tBANK\t1000",
+      "ACCNT\tAccounts Receivable\tAR\t1200",
+      "ACCNT\tRevenue\tINC\t4000",
+    ]);
+    expect(lines.slice(7, 10)).toEqual([
+      "TRNS\t\tGENERAL JOURNAL\t06/01/2026\tAccounts Receivable\t1000.00\tINV-2026-0001\tInvoice INV-2026-0001",
+      "SPL\t\tGENERAL JOURNAL\t06/01/2026\tRevenue\t-1000.00\tINV-2026-0001\tInvoice INV-2026-0001",
+      "ENDTRNS",
+    ]);
+    // Tabs and line breaks in text would break the record layout
+    expect(lines[10]).toBe("TRNS\t\tGENERAL JOURNAL\t06/10/2026\tCash\t400.00\tINV-2026-0001\tPayment on invoice INV-2026-0001");
+    expect(lines.at(-1)).toBe("");
+  });
+});
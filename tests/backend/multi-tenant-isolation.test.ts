@@ -63,7 +63,9 @@ describe('Multi-Tenant Isolation Tests (P0 - Security Critical)', () => {
     organizationId: ORG_A_ID,
     ownerId: 'user-a',
     name: 'Deal A',
-    stage: 'lead' as const,
+    pipelineId: 'pipeline-a-1',
+    stageId: 'stage-a-1',
+    status: 'open',
     createdAt: new Date(),
     updatedAt: new Date(),
   } as Deal;
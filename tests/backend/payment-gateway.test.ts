@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  getPaymentProvider,
+  REPLACEABLE_PAYMENT_SESSION_STATUSES,
+  resolveWebhookAction,
+} from "../../server/domains/revenue/payment-gateway";
+import {
+  buildMockWebhookEvents,
+  MOCK_SIGNATURE_HEADER,
+  mockPaymentProvider,
+  signMockWebhook,
+  verifyMockSignature,
+} from "../../server/domains/revenue/mock-payment-provider";
+
+describe("resolveWebhookAction", () => {
+  it("moves open sessions forward", () => {
+    expect(resolveWebhookAction("open", "payment.succeeded")).toBe("succeed");
+    expect(resolveWebhookAction("open", "payment.processing")).toBe("processing");
+    expect(resolveWebhookAction("open", "payment.failed")).toBe("fail");
+    expect(resolveWebhookAction("processing", "payment.succeeded")).toBe("succeed");
+  });
+
+  it("ignores duplicates and events for final sessions", () => {
+    expect(resolveWebhookAction("succeeded", "payment.succeeded")).toBe("ignore");
+    expect(resolveWebhookAction("succeeded", "payment.failed")).toBe("ignore");
+    expect(resolveWebhookAction("expired", "payment.processing")).toBe("ignore");
+    expect(resolveWebhookAction("expired", "payment.failed")).toBe("ignore");
+    expect(resolveWebhookAction("refund_required", "payment.succeeded")).toBe("ignore");
+    expect(resolveWebhookAction("processing", "payment.processing")).toBe("ignore");
+    expect(resolveWebhookAction("failed", "payment.failed")).toBe("ignore");
+  });
+
+  it("records a success that settles after a new payment link was created", () => {
+    // processing -> new session -> succeeded: the processing session is not replaced
+    expect(REPLACEABLE_PAYMENT_SESSION_STATUSES).not.toContain("processing");
+    expect(resolveWebhookAction("processing", "payment.succeeded")).toBe("succeed");
+    // and a session expired by the new link still records money the provider captured
+    expect(resolveWebhookAction("expired", "payment.succeeded")).toBe("succeed");
+  });
+
+  it("lets a failed session be retried", () => {
+    expect(resolveWebhookAction("failed", "payment.succeeded")).toBe("succeed");
+    expect(resolveWebhookAction("failed", "payment.processing")).toBe("processing");
+  });
+});
+
+describe("mock provider signatures", () => {
+  const body = JSON.stringify({ id: "evt-1" });
+  const now = Date.UTC(2026, 5, 1, 12, 0, 0);
+  const timestamp = Math.floor(now / 1000);
+
+  it("verifies its own signatures", () => {
+    const header = signMockWebhook(body, timestamp, "secret");
+    expect(verifyMockSignature(body, header, now, "secret")).toBe(true);
+  });
+
+  it("rejects tampered bodies, wrong secrets and stale timestamps", () => {
+    const header = signMockWebhook(body, timestamp, "secret");
+    expect(verifyMockSignature(body.replace("evt-1", "evt-2"), header, now, "secret")).toBe(false);
+    expect(verifyMockSignature(body, header, now, "other-secret")).toBe(false);
+    expect(verifyMockSignature(body, header, now + 10 * 60 * 1000, "secret")).toBe(false);
+    expect(verifyMockSignature(body, undefined, now, "secret")).toBe(false);
+    expect(verifyMockSignature(body, "t=abc,v1=00", now, "secret")).toBe(false);
+  });
+
+  it("has no built-in secret to fall back to", () => {
+    const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+    delete process.env.PAYMENT_WEBHOOK_SECRET;
+    try {
+      expect(() => signMockWebhook("{}")).toThrow("PAYMENT_WEBHOOK_SECRET must be set");
+    } finally {
+      process.env.PAYMENT_WEBHOOK_SECRET = secret;
+    }
+  });
+});
+
+describe("mock payment provider", () => {
+  it("is registered outside production", () => {
+    expect(getPaymentProvider("mock")).toBe(mockPaymentProvider);
+  });
+
+  it("creates hosted checkout sessions", async () => {
+    const session = await mockPaymentProvider.createCheckoutSession({
+      invoiceId: "inv-1",
+      invoiceNumber: "INV-0001",
+      amount: "120.00",
+      currency: "USD",
+      description: "Invoice INV-0001",
+    });
+    expect(session.providerSessionId).toMatch(/^mock_cs_/);
+    expect(session.checkoutUrl).toContain(`/pay/mock/${session.providerSessionId}`);
+    expect(session.expiresAt!.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("simulates success, failure and async settlement", () => {
+    expect(buildMockWebhookEvents("cs-1", "succeed").map((event) => event.type)).toEqual(["payment.succeeded"]);
+    expect(buildMockWebhookEvents("cs-1", "fail")).toEqual([
+      expect.objectContaining({ type: "payment.failed", providerSessionId: "cs-1", failureReason: expect.any(String) }),
+    ]);
+    const [processing, settled] = buildMockWebhookEvents("cs-1", "async");
+    expect(processing.type).toBe("payment.processing");
+    expect(settled).toEqual(expect.objectContaining({ type: "payment.succeeded", reference: expect.stringMatching(/^mock_ch_/) }));
+  });
+
+  it("parses signed webhooks and rejects unsigned ones", () => {
+    const [event] = buildMockWebhookEvents("cs-1", "succeed");
+    const body = JSON.stringify(event);
+    expect(
+      mockPaymentProvider.verifyWebhook(Buffer.from(body), { [MOCK_SIGNATURE_HEADER]: signMockWebhook(body) }),
+    ).toEqual(event);
+    expect(mockPaymentProvider.verifyWebhook(Buffer.from(body), {})).toBeNull();
+
+    const unknownType = JSON.stringify({ ...event, type: "payment.refunded" });
+    expect(
+      mockPaymentProvider.verifyWebhook(Buffer.from(unknownType), { [MOCK_SIGNATURE_HEADER]: signMockWebhook(unknownType) }),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import { buildPipelineReport } from "../../server/domains/crm/pipeline-report";
+
+const stage = (id: string, position: number, probability: number, overrides: Record<string, unknown> = {}) => ({
+  id,
+  organizationId: "org-1",
+  pipelineId: "sales",
+  name: id,
+  position,
+  probability,
+  isWon: false,
+  isLost: false,
+  createdAt: new Date(2026, 0, 1),
+  updatedAt: new Date(2026, 0, 1),
+  ...overrides,
+});
+
+const pipeline = {
+  id: "sales",
+  organizationId: "org-1",
+  name: "Sales",
+  description: null,
+  isDefault: true,
+  position: 0,
+  createdAt: new Date(2026, 0, 1),
+  updatedAt: new Date(2026, 0, 1),
+  stages: [
+    stage("lead", 0, 10),
+    stage("proposal", 1, 50),
+    stage("won", 2, 100, { isWon: true }),
+    stage("lost", 3, 0, { isLost: true }),
+  ],
+};
+
+const deal = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  ownerId: "user-a",
+  pipelineId: "sales",
+  stageId: "lead",
+  status: "open",
+  value: "1000.00",
+  probability: 10,
+  expectedCloseDate: null,
+  closedAt: null,
+  createdAt: new Date(2026, 0, 1),
+  ...overrides,
+});
+
+const moves = (dealId: string, ...stageIds: string[]) =>
+  stageIds.map((toStageId, index) => ({ dealId, toStageId, movedAt: new Date(2026, 0, 1 + index) }));
+
+describe("buildPipelineReport", () => {
+  it("weights open deals by probability per month, owner and stage", () => {
+    const deals = [
+      deal("d1", { value: "1000.00", probability: 10, expectedCloseDate: new Date(2026, 2, 15) }),
+      deal("d2", { stageId: "proposal", value: "2000.00", probability: 50, expectedCloseDate: new Date(2026, 2, 1), ownerId: "user-b" }),
+      deal("d3", { stageId: "proposal", value: "500.00", probability: 60 }),
+      deal("d4", { stageId: "won", status: "won", value: "9000.00", probability: 100, closedAt: new Date(2026, 1, 1) }),
+    ];
+    const report = buildPipelineReport(deals, [pipeline], [], {
+      ownerNames: new Map([["user-a", "Ada"]]),
+    });
+
+    expect(report.totals).toEqual({ dealCount: 3, openValue: 3500, weightedValue: 1400 });
+    expect(report.byMonth).toEqual([
+      { month: "2026-03", dealCount: 2, openValue: 3000, weightedValue: 1100 },
+      { month: null, dealCount: 1, openValue: 500, weightedValue: 300 },
+    ]);
+    expect(report.byOwner).toEqual([
+      { ownerId: "user-b", ownerName: "user-b", dealCount: 1, openValue: 2000, weightedValue: 1000 },
+      { ownerId: "user-a", ownerName: "Ada", dealCount: 2, openValue: 1500, weightedValue: 400 },
+    ]);
+    const proposal = report.byStage.find((row) => row.stageId === "proposal")!;
+    expect(proposal).toEqual(expect.objectContaining({ dealCount: 2, openValue: 2500, weightedValue: 1300 }));
+    expect(report.byStage.find((row) => row.stageId === "won")).toEqual(
+      expect.objectContaining({ outcome: "won", dealCount: 0, conversionRate: null }),
+    );
+  });
+
+  it("computes win rate, average deal size and sales cycle of deals closed in the period", () => {
+    const deals = [
+      deal("won-1", { status: "won", value: "3000.00", createdAt: new Date(2026, 0, 1), closedAt: new Date(2026, 0, 31) }),
+      deal("won-2", { status: "won", value: "1000.00", createdAt: new Date(2026, 0, 10), closedAt: new Date(2026, 1, 19) }),
+      deal("lost-1", { status: "lost", closedAt: new Date(2026, 1, 2) }),
+      deal("old-win", { status: "won", value: "50000.00", closedAt: new Date(2025, 5, 1) }),
+    ];
+    const report = buildPipelineReport(deals, [pipeline], [], { from: new Date(2026, 0, 1), to: new Date(2026, 2, 31) });
+
+    expect(report.wonCount).toBe(2);
+    expect(report.lostCount).toBe(1);
+    expect(report.winRate).toBe(66.7);
+    expect(report.wonValue).toBe(4000);
+    expect(report.averageDealSize).toBe(2000);
+    expect(report.averageSalesCycleDays).toBe(35);
+  });
+
+  it("returns null rates when nothing has closed", () => {
+    const report = buildPipelineReport([deal("d1")], [pipeline], []);
+    expect(report.winRate).toBeNull();
+    expect(report.averageDealSize).toBeNull();
+    expect(report.averageSalesCycleDays).toBeNull();
+  });
+
+  it("converts stages from the stage history, counting skipped stages but not lost ones", () => {
+    const deals = [deal("d1"), deal("d2"), deal("d3"), deal("d4")];
+    const transitions = [
+      ...moves("d1", "lead", "proposal", "won"),
+      ...moves("d2", "lead", "won"),
+      ...moves("d3", "lead", "lost"),
+      ...moves("d4", "lead", "proposal", "lead"),
+      ...moves("other-pipeline-deal", "lead", "proposal"),
+    ];
+    const report = buildPipelineReport(deals, [pipeline], transitions);
+    const byId = new Map(report.byStage.map((row) => [row.stageId, row]));
+
+    expect(byId.get("lead")).toEqual(expect.objectContaining({ entered: 4, advanced: 3, conversionRate: 75 }));
+    expect(byId.get("proposal")).toEqual(expect.objectContaining({ entered: 2, advanced: 1, conversionRate: 50 }));
+    expect(byId.get("won")).toEqual(expect.objectContaining({ entered: 2, conversionRate: null }));
+  });
+});
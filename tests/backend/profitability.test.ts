@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildProfitabilityReport,
+  buildProfitabilityTimeline,
+  getNetInvoicedAmount,
+  summarizeEngagementProfitability,
+} from "../../server/domains/revenue/profitability";
+
+const rates = [
+  { currency: "EUR", baseCurrency: "USD", rate: "1.10000000", effectiveDate: new Date(2026, 0, 1) },
+];
+const context = { baseCurrency: "USD", rates, clients: [{ id: "client-1", name: "Acme" }] };
+
+const engagement = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  name: `Engagement ${id}`,
+  status: "active" as const,
+  clientCompanyId: "client-1",
+  workType: "Website build",
+  totalValue: "10000.00",
+  ...overrides,
+});
+
+const invoice = (id: string, engagementId: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  engagementId,
+  status: "paid" as const,
+  currency: null as string | null,
+  amount: "1000.00",
+  totalAmount: "1100.00",
+  creditedAmount: "0.00",
+  paidAmount: "1100.00",
+  sentAt: new Date(2026, 2, 5),
+  createdAt: new Date(2026, 2, 1),
+  ...overrides,
+});
+
+const bill = (engagementId: string, amount: string, overrides: Record<string, unknown> = {}) => ({
+  engagementId,
+  status: "approved" as const,
+  currency: null as string | null,
+  amount,
+  createdAt: new Date(2026, 2, 10),
+  ...overrides,
+});
+
+const expense = (engagementId: string, amount: string, overrides: Record<string, unknown> = {}) => ({
+  engagementId,
+  status: "approved",
+  currency: null as string | null,
+  amount,
+  expenseDate: new Date(2026, 3, 2),
+  ...overrides,
+});
+
+describe("getNetInvoicedAmount", () => {
+  it("excludes tax and the credited share", () => {
+    expect(getNetInvoicedAmount({ amount: "1000.00", totalAmount: "1100.00", creditedAmount: null })).toBe(1000);
+    expect(getNetInvoicedAmount({ amount: "1000.00", totalAmount: "1100.00", creditedAmount: "550.00" })).toBe(500);
+    expect(getNetInvoicedAmount({ amount: "0.00", totalAmount: "0.00", creditedAmount: null })).toBe(0);
+  });
+});
+
+describe("summarizeEngagementProfitability", () => {
+  it("ties contracted value, invoices, collections and direct costs together", () => {
+    const summary = summarizeEngagementProfitability(
+      engagement("eng-1"),
+      {
+        invoices: [
+          invoice("inv-1", "eng-1"),
+          invoice("inv-2", "eng-1", { status: "sent", currency: "EUR", paidAmount: "0.00" }),
+          invoice("inv-3", "eng-1", { status: "draft" }),
+          invoice("inv-4", "eng-2"),
+        ],
+        bills: [bill("eng-1", "300.00"), bill("eng-1", "999.00", { status: "pending" }), bill("eng-1", "200.00", { status: "paid" })],
+        expenses: [expense("eng-1", "100.00"), expense("eng-1", "50.00", { status: "submitted" })],
+      },
+      context,
+    );
+    expect(summary).toEqual({
+      engagementId: "eng-1",
+      name: "Engagement eng-1",
+      status: "active",
+      clientName: "Acme",
+      workType: "Website build",
+      contractedValue: 10000,
+      remainingToInvoice: 7900,
+      invoiced: 2100,
+      collected: 1100,
+      billCosts: 500,
+      expenseCosts: 100,
+      directCosts: 600,
+      grossMargin: 1500,
+      marginPercent: 71.4,
+      unconverted: 0,
+    });
+  });
+
+  it("leaves out documents without an exchange rate", () => {
+    const summary = summarizeEngagementProfitability(
+      engagement("eng-1", { totalValue: null }),
+      { invoices: [invoice("inv-1", "eng-1", { currency: "GBP" })], bills: [bill("eng-1", "10.00", { currency: "GBP" })], expenses: [] },
+      context,
+    );
+    expect(summary.invoiced).toBe(0);
+    expect(summary.directCosts).toBe(0);
+    expect(summary.marginPercent).toBeNull();
+    expect(summary.unconverted).toBe(2);
+  });
+});
+
+describe("buildProfitabilityReport", () => {
+  it("ranks engagements by margin and rolls them up by work type", () => {
+    const report = buildProfitabilityReport(
+      [
+        engagement("eng-1"),
+        engagement("eng-2", { workType: "Retainer" }),
+        engagement("eng-3", { workType: " " }),
+        engagement("eng-4", { workType: "Website build" }),
+      ],
+      {
+        invoices: [invoice("inv-1", "eng-1"), invoice("inv-2", "eng-2"), invoice("inv-4", "eng-4")],
+        bills: [bill("eng-1", "800.00"), bill("eng-2", "100.00"), bill("eng-4", "400.00")],
+        expenses: [],
+      },
+      context,
+    );
+    expect(report.engagements.map((row) => [row.engagementId, row.marginPercent])).toEqual([
+      ["eng-2", 90],
+      ["eng-4", 60],
+      ["eng-1", 20],
+      ["eng-3", null],
+    ]);
+    expect(report.workTypes).toEqual([
+      expect.objectContaining({ workType: "Retainer", engagementCount: 1, grossMargin: 900, marginPercent: 90 }),
+      expect.objectContaining({ workType: "Website build", engagementCount: 2, invoiced: 2000, grossMargin: 800, marginPercent: 40 }),
+      expect.objectContaining({ workType: "Unspecified", engagementCount: 1, marginPercent: null }),
+    ]);
+    expect(report.totals).toEqual(
+      expect.objectContaining({ contractedValue: 40000, invoiced: 3000, directCosts: 1300, grossMargin: 1700 }),
+    );
+  });
+});
+
+describe("buildProfitabilityTimeline", () => {
+  it("spreads the figures over months with a running margin", () => {
+    const months = buildProfitabilityTimeline(
+      "eng-1",
+      {
+        invoices: [invoice("inv-1", "eng-1")],
+        bills: [bill("eng-1", "300.00")],
+        expenses: [expense("eng-1", "100.00", { expenseDate: new Date(2026, 4, 20) })],
+        payments: [
+          { invoiceId: "inv-1", amount: "600.00", paidAt: new Date(2026, 2, 20), voidedAt: null },
+          { invoiceId: "inv-1", amount: "500.00", paidAt: new Date(2026, 4, 3), voidedAt: null },
+          { invoiceId: "inv-1", amount: "75.00", paidAt: new Date(2026, 4, 4), voidedAt: new Date(2026, 4, 5) },
+        ],
+        refunds: [{ invoiceId: "inv-1", amount: "50.00", refundedAt: new Date(2026, 4, 10) }],
+      },
+      context,
+    );
+    expect(months).toEqual([
+      { month: "2026-03", invoiced: 1000, collected: 600, directCosts: 300, grossMargin: 700, cumulativeMargin: 700 },
+      { month: "2026-04", invoiced: 0, collected: 0, directCosts: 0, grossMargin: 0, cumulativeMargin: 700 },
+      { month: "2026-05", invoiced: 0, collected: 450, directCosts: 100, grossMargin: -100, cumulativeMargin: 600 },
+    ]);
+  });
+
+  it("is empty without activity", () => {
+    expect(buildProfitabilityTimeline("eng-1", { invoices: [], bills: [], expenses: [], payments: [], refunds: [] }, context)).toEqual([]);
+  });
+});
@@ -127,8 +127,8 @@ describe('GET /api/clients/:id - Unit Tests', () => {
       ]);
 
       await storage.addDeals(clientId, [
-        { id: 'deal-1', name: 'Q1 Project', value: '50000.00', stage: 'won' },
-        { id: 'deal-2', name: 'Q2 Project', value: '75000.00', stage: 'negotiation' },
+        { id: 'deal-1', name: 'Q1 Project', value: '50000.00', stageId: 'stage-won', status: 'won' },
+        { id: 'deal-2', name: 'Q2 Project', value: '75000.00', stageId: 'stage-negotiation', status: 'open' },
       ]);
 
       await storage.addEngagements(clientId, [
@@ -331,9 +331,9 @@ describe('GET /api/clients/:id - Unit Tests', () => {
       });
 
       const mockDeals = [
-        { id: 'd1', name: 'Deal 1', value: '10000.00', stage: 'won' },
-        { id: 'd2', name: 'Deal 2', value: '20000.00', stage: 'negotiation' },
-        { id: 'd3', name: 'Deal 3', value: '30000.00', stage: 'proposal' },
+        { id: 'd1', name: 'Deal 1', value: '10000.00', stageId: 'stage-won', status: 'won' },
+        { id: 'd2', name: 'Deal 2', value: '20000.00', stageId: 'stage-negotiation', status: 'open' },
+        { id: 'd3', name: 'Deal 3', value: '30000.00', stageId: 'stage-proposal', status: 'open' },
       ];
       
       await storage.addDeals(clientId, mockDeals);
@@ -156,7 +156,9 @@ describe('Client Companies Retrieval with Relations - Property Tests', () => {
               name: `Deal ${i}`,
               description: null,
               value: dealValue.toString(),
-              stage: 'lead',
+              pipelineId: 'pipeline-1',
+              stageId: 'stage-lead',
+              status: 'open',
               probability: 50,
               expectedCloseDate: null,
               closedAt: null,
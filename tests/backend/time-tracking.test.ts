@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildTimeLineItems,
+  getTimerMinutes,
+  getTimesheetReviewDenial,
+  getTimesheetWeek,
+  isTimeEntryEditable,
+  summarizeTimesheet,
+} from "../../server/domains/projects/time-tracking";
+
+describe("timesheet weeks", () => {
+  it("runs from Monday to the next Monday", () => {
+    // 2026-06-07 is a Sunday
+    expect(getTimesheetWeek(new Date(2026, 5, 7, 18))).toEqual({
+      start: new Date(2026, 5, 1),
+      end: new Date(2026, 5, 8),
+    });
+    expect(getTimesheetWeek(new Date(2026, 5, 8)).start).toEqual(new Date(2026, 5, 8));
+  });
+
+  it("totals minutes per day and reports the state that needs attention", () => {
+    const entry = (day: number, durationMinutes: number, overrides: Record<string, unknown> = {}) => ({
+      date: new Date(2026, 5, day, 9),
+      durationMinutes,
+      billable: true,
+      status: "approved",
+      ...overrides,
+    });
+    const summary = summarizeTimesheet(
+      [entry(1, 90), entry(1, 30, { billable: false }), entry(3, 120, { status: "submitted" })],
+      new Date(2026, 5, 1),
+    );
+    expect(summary.days.map((day) => day.minutes)).toEqual([120, 0, 120, 0, 0, 0, 0]);
+    expect(summary).toMatchObject({ totalMinutes: 240, billableMinutes: 210, status: "submitted" });
+
+    const mixed = [entry(2, 60, { status: "rejected" }), entry(2, 60, { status: "draft" })];
+    expect(summarizeTimesheet(mixed, new Date(2026, 5, 1)).status).toBe("rejected");
+    expect(summarizeTimesheet([], new Date(2026, 5, 1)).status).toBe("empty");
+  });
+});
+
+describe("time entry rules", () => {
+  it("rounds timers up to whole minutes", () => {
+    const start = new Date(2026, 5, 1, 9);
+    expect(getTimerMinutes(start, new Date(2026, 5, 1, 9, 0, 5))).toBe(1);
+    expect(getTimerMinutes(start, new Date(2026, 5, 1, 10, 30, 1))).toBe(91);
+  });
+
+  it("locks submitted, approved and invoiced time", () => {
+    expect(isTimeEntryEditable({ status: "draft", invoiceId: null })).toBe(true);
+    expect(isTimeEntryEditable({ status: "rejected", invoiceId: null })).toBe(true);
+    expect(isTimeEntryEditable({ status: "submitted", invoiceId: null })).toBe(false);
+    expect(isTimeEntryEditable({ status: "approved", invoiceId: null })).toBe(false);
+    expect(isTimeEntryEditable({ status: "draft", invoiceId: "inv-1" })).toBe(false);
+  });
+
+  it("lets admins review others and owners review anyone", () => {
+    expect(getTimesheetReviewDenial("admin-1", "user-1", "admin")).toBeNull();
+    expect(getTimesheetReviewDenial("admin-1", "admin-1", "admin")).toBe("You cannot review your own timesheet");
+    expect(getTimesheetReviewDenial("owner-1", "owner-1", "owner")).toBeNull();
+    expect(getTimesheetReviewDenial("user-2", "user-1", "member")).toBe("Reviewing timesheets requires the admin role");
+    expect(getTimesheetReviewDenial("user-2", "user-1", undefined)).toBe("Reviewing timesheets requires the admin role");
+  });
+});
+
+describe("buildTimeLineItems", () => {
+  const lookups = {
+    projects: [
+      { id: "proj-1", name: "Website" },
+      { id: "proj-2", name: "Audit" },
+    ],
+    tasks: [{ id: "task-1", name: "Design" }],
+  };
+  const entry = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    projectId: "proj-1",
+    taskId: "task-1" as string | null,
+    date: new Date(2026, 5, 1),
+    durationMinutes: 60,
+    hourlyRate: "150.00" as string | null,
+    ...overrides,
+  });
+
+  it("groups time by project, task and rate with hours as the quantity", () => {
+    const { lineItems, missingRate } = buildTimeLineItems(
+      [
+        entry("te-1", { durationMinutes: 90 }),
+        entry("te-2", { durationMinutes: 20, date: new Date(2026, 5, 2) }),
+        entry("te-3", { hourlyRate: "120.00" }),
+        entry("te-4", { projectId: "proj-2", taskId: null, date: new Date(2026, 4, 29) }),
+      ],
+      lookups,
+    );
+    expect(missingRate).toEqual([]);
+    expect(lineItems).toEqual([
+      { description: "Audit", quantity: 1, unitPrice: 150 },
+      { description: "Website: Design", quantity: 1.83, unitPrice: 150 },
+      { description: "Website: Design", quantity: 1, unitPrice: 120 },
+    ]);
+  });
+
+  it("bills entries without a rate at the default rate, or reports them", () => {
+    const entries = [entry("te-1"), entry("te-2", { hourlyRate: null })];
+    expect(buildTimeLineItems(entries, lookups).missingRate).toEqual(["te-2"]);
+    expect(buildTimeLineItems(entries, lookups, 150).lineItems).toEqual([
+      { description: "Website: Design", quantity: 2, unitPrice: 150 },
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildContractorPaymentSummary,
+  CONTRACTOR_PAYMENT_CSV_HEADER,
+  contractorPaymentCsvRow,
+  getSpendPeriodKey,
+  summarizeVendorSpend,
+} from "../../server/domains/revenue/vendor-spend";
+import { toCsv } from "../../server/utils/csv";
+import { insertVendorSchema } from "@shared/schema";
+
+const rates = [{ currency: "EUR", baseCurrency: "USD", rate: "1.10", effectiveDate: new Date(2025, 0, 1) }];
+
+const bill = (overrides: Record<string, unknown> = {}) => ({
+  vendorId: "v1",
+  amount: "100.00",
+  currency: null,
+  status: "paid",
+  engagementId: null,
+  paidAt: new Date(2025, 1, 10),
+  createdAt: new Date(2025, 1, 1),
+  ...overrides,
+});
+
+const vendor = (overrides: Record<string, unknown> = {}) => ({
+  id: "v1",
+  name: "Acme Design",
+  contactName: null,
+  taxId: "12-3456789",
+  email: null,
+  address: null,
+  isContractor: true,
+  ...overrides,
+});
+
+describe("getSpendPeriodKey", () => {
+  it("formats month, quarter and year keys", () => {
+    const date = new Date(2025, 4, 20);
+    expect(getSpendPeriodKey(date, "month")).toBe("2025-05");
+    expect(getSpendPeriodKey(date, "quarter")).toBe("2025-Q2");
+    expect(getSpendPeriodKey(date, "year")).toBe("2025");
+  });
+});
+
+describe("summarizeVendorSpend", () => {
+  const options = { baseCurrency: "USD", rates, period: "month" as const };
+
+  it("groups paid bills by payment period and engagement in the base currency", () => {
+    const summary = summarizeVendorSpend(
+      [
+        bill({ engagementId: "e1" }),
+        bill({ amount: "200.00", currency: "EUR", engagementId: "e1", paidAt: new Date(2025, 2, 5) }),
+        bill({ amount: "50.00", paidAt: new Date(2025, 1, 20) }),
+      ],
+      options,
+    );
+    expect(summary.total).toBe(370);
+    expect(summary.byPeriod).toEqual([
+      { period: "2025-02", total: 150 },
+      { period: "2025-03", total: 220 },
+    ]);
+    expect(summary.byEngagement).toEqual([
+      { engagementId: "e1", total: 320 },
+      { engagementId: null, total: 50 },
+    ]);
+  });
+
+  it("reports open bills as outstanding and skips cancelled and rejected bills", () => {
+    const summary = summarizeVendorSpend(
+      [
+        bill({ status: "pending", paidAt: null }),
+        bill({ status: "approved", paidAt: null, amount: "25.00" }),
+        bill({ status: "cancelled", paidAt: null }),
+        bill({ status: "rejected", paidAt: null }),
+      ],
+      options,
+    );
+    expect(summary).toMatchObject({ total: 0, outstanding: 125, byPeriod: [] });
+  });
+
+  it("filters paid bills by date range and counts bills without a rate", () => {
+    const summary = summarizeVendorSpend(
+      [bill(), bill({ paidAt: new Date(2024, 11, 31) }), bill({ currency: "JPY" })],
+      { ...options, from: new Date(2025, 0, 1), to: new Date(2025, 11, 31) },
+    );
+    expect(summary.total).toBe(100);
+    expect(summary.unconverted).toBe(1);
+  });
+});
+
+describe("buildContractorPaymentSummary", () => {
+  it("totals payments to contractors in the year and flags reportable amounts", () => {
+    const { rows } = buildContractorPaymentSummary(
+      [vendor(), vendor({ id: "v2", name: "Bolt Freelance" }), vendor({ id: "v3", isContractor: false })],
+      [
+        bill({ amount: "500.00" }),
+        bill({ amount: "150.00" }),
+        bill({ amount: "9000.00", paidAt: new Date(2024, 5, 1) }),
+        bill({ vendorId: "v2", amount: "80.00" }),
+        bill({ vendorId: "v3", amount: "5000.00" }),
+        bill({ status: "approved", paidAt: null }),
+      ],
+      2025,
+      "USD",
+      rates,
+    );
+    expect(rows.map((row) => [row.name, row.billCount, row.total, row.meetsReportingThreshold])).toEqual([
+      ["Acme Design", 2, 650, true],
+      ["Bolt Freelance", 1, 80, false],
+    ]);
+  });
+
+  it("renders CSV rows with formula-like text neutralized", () => {
+    const { rows } = buildContractorPaymentSummary(
+      [vendor({ name: "=HYPERLINK(\"x\")", address: "1 Main St, Springfield" })],
+      [bill({ amount: "1234.5" })],
+      2025,
+      "USD",
+      rates,
+    );
+    const csv = toCsv([CONTRACTOR_PAYMENT_CSV_HEADER, ...rows.map(contractorPaymentCsvRow)]);
+    expect(csv.split("\r\n")[1]).toBe(
+      '"\'=HYPERLINK(""x"")",,12-3456789,,"1 Main St, Springfield",1,1234.50,yes',
+    );
+  });
+});
+
+describe("insertVendorSchema", () => {
+  it("requires a name and stores an empty email as null", () => {
+    expect(insertVendorSchema.safeParse({ organizationId: "org-1", name: "  " }).success).toBe(false);
+    const parsed = insertVendorSchema.parse({ organizationId: "org-1", name: " Acme ", email: "" });
+    expect(parsed).toMatchObject({ name: "Acme", email: null });
+  });
+});
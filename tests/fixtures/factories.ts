@@ -69,7 +69,8 @@ export const factories = {
     organizationId,
     ownerId: 'test-owner-id',
     name: `Test Deal ${uniqueId()}`,
-    stage: 'lead',
+    pipelineId: 'test-pipeline-id',
+    stageId: 'test-stage-id',
     value: '10000.00',
     ...overrides,
   }),
@@ -634,7 +634,7 @@ describe("Organization Settings UI", () => {
 
       await waitFor(() => {
         expect(screen.getByRole("tablist")).toBeInTheDocument();
-        expect(screen.getAllByRole("tab")).toHaveLength(4);
+        expect(screen.getAllByRole("tab")).toHaveLength(6);
       });
     });
 
@@ -53,6 +53,11 @@ if (!process.env.MAILTRAP_PASS) {
   process.env.MAILTRAP_PASS = 'test';
 }
 
+// Signs and verifies mock payment provider webhooks
+if (!process.env.PAYMENT_WEBHOOK_SECRET) {
+  process.env.PAYMENT_WEBHOOK_SECRET = 'test-payment-webhook-secret';
+}
+
 // Track console errors and warnings
 const consoleErrors: string[] = [];
 const consoleWarnings: string[] = [];